@@ -1,4 +1,5 @@
 import { type Address } from 'viem';
+import { baseSepolia } from 'viem/chains';
 import * as dotenv from 'dotenv';
 
 dotenv.config();
@@ -32,6 +33,13 @@ export interface AgentConfig {
   monitorIntervalMs: number;
   dryRun: boolean; // If true, simulate but don't actually bid/submit
 
+  // QuickGig platform - heartbeats go to {apiUrl}/api/agents/{agentId}/heartbeat
+  platform: {
+    apiUrl: string; // Empty to not send heartbeats
+    heartbeatIntervalMs: number;
+    chainId: number; // Heartbeat signing domain, must match the platform's NEXT_PUBLIC_X402_CHAIN_ID
+  };
+
   // AI & Storage
   openaiKey: string;
   pinataJwt: string;
@@ -69,6 +77,13 @@ export const agentConfig: AgentConfig = {
   monitorIntervalMs: Number(process.env.MONITOR_INTERVAL_MS) || 30000,
   dryRun: process.env.DRY_RUN === 'true',
 
+  // QuickGig platform
+  platform: {
+    apiUrl: process.env.QUICKGIG_API_URL ?? 'https://quickgig.fun',
+    heartbeatIntervalMs: Number(process.env.HEARTBEAT_INTERVAL_MS) || 30000,
+    chainId: Number(process.env.CHAIN_ID) || baseSepolia.id,
+  },
+
   // AI & Storage
   openaiKey: process.env.OPENAI_API_KEY || '',
   pinataJwt: process.env.PINATA_JWT || '',
@@ -0,0 +1,116 @@
+/**
+ * Heartbeat Module
+ * Reports current load and a rolling health status to the QuickGig platform, which stops
+ * sending work to agents that are full, failing or silent.
+ * The signed message must match the platform's AgentHeartbeat typed data
+ * (quickgig/lib/orchestrator/heartbeats.ts).
+ */
+
+import axios from 'axios';
+import { privateKeyToAccount } from 'viem/accounts';
+import { agentConfig } from './config';
+import logger from './logger';
+
+export type HealthStatus = 'healthy' | 'degraded' | 'unhealthy';
+
+// Health is the share of failed jobs among the last HEALTH_WINDOW_SIZE
+const HEALTH_WINDOW_SIZE = 20;
+const HEALTH_MIN_SAMPLES = 4;
+const DEGRADED_FAILURE_RATE = 0.2;
+const UNHEALTHY_FAILURE_RATE = 0.5;
+
+const HEARTBEAT_TYPES = {
+  AgentHeartbeat: [
+    { name: 'agentId', type: 'string' },
+    { name: 'activeJobs', type: 'uint32' },
+    { name: 'maxConcurrentJobs', type: 'uint32' },
+    { name: 'health', type: 'string' },
+    { name: 'issuedAt', type: 'uint256' },
+  ],
+} as const;
+
+export class HeartbeatSender {
+  private account = privateKeyToAccount(agentConfig.privateKey);
+  private outcomes: boolean[] = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private getActiveJobs: () => number) {}
+
+  /**
+   * Start sending heartbeats
+   */
+  start(): void {
+    if (!agentConfig.platform.apiUrl) {
+      logger.warn('QUICKGIG_API_URL is empty, not sending heartbeats');
+      return;
+    }
+
+    this.send();
+    this.timer = setInterval(() => this.send(), agentConfig.platform.heartbeatIntervalMs);
+    logger.info(`Sending heartbeats every ${agentConfig.platform.heartbeatIntervalMs / 1000}s`);
+  }
+
+  /**
+   * Stop sending heartbeats
+   */
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Record whether a job succeeded, for the rolling health status
+   */
+  recordOutcome(success: boolean): void {
+    this.outcomes.push(success);
+    if (this.outcomes.length > HEALTH_WINDOW_SIZE) this.outcomes.shift();
+  }
+
+  /**
+   * Current health from recent job outcomes
+   */
+  getHealth(): HealthStatus {
+    if (this.outcomes.length < HEALTH_MIN_SAMPLES) return 'healthy';
+
+    const failureRate = this.outcomes.filter((success) => !success).length / this.outcomes.length;
+    if (failureRate >= UNHEALTHY_FAILURE_RATE) return 'unhealthy';
+    return failureRate >= DEGRADED_FAILURE_RATE ? 'degraded' : 'healthy';
+  }
+
+  /**
+   * Sign and send one heartbeat
+   */
+  private async send(): Promise<void> {
+    const heartbeat = {
+      agentId: agentConfig.agentId,
+      activeJobs: this.getActiveJobs(),
+      maxConcurrentJobs: agentConfig.bidding.maxConcurrent,
+      health: this.getHealth(),
+    };
+    const issuedAt = Math.floor(Date.now() / 1000);
+
+    try {
+      const signature = await this.account.signTypedData({
+        domain: {
+          name: 'QuickGig Agent Heartbeat',
+          version: '1',
+          chainId: agentConfig.platform.chainId,
+        },
+        types: HEARTBEAT_TYPES,
+        primaryType: 'AgentHeartbeat',
+        message: { ...heartbeat, issuedAt: BigInt(issuedAt) },
+      });
+
+      await axios.post(
+        `${agentConfig.platform.apiUrl}/api/agents/${encodeURIComponent(agentConfig.agentId)}/heartbeat`,
+        { ...heartbeat, issuedAt, signature },
+        { timeout: 10000 }
+      );
+
+      logger.debug(`Heartbeat sent: ${heartbeat.activeJobs}/${heartbeat.maxConcurrentJobs} jobs, ${heartbeat.health}`);
+    } catch (error) {
+      const message = axios.isAxiosError(error) ? error.response?.data?.error || error.message : error;
+      logger.warn(`Heartbeat failed: ${message}`);
+    }
+  }
+}
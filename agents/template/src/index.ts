@@ -10,12 +10,14 @@ import { BountyMonitor } from './monitor';
 import { BountyEvaluator } from './evaluator';
 import { WorkExecutor } from './executor';
 import { BountySubmitter } from './submitter';
+import { HeartbeatSender } from './heartbeat';
 
 class AutonomousAgent {
   private monitor: BountyMonitor;
   private evaluator: BountyEvaluator;
   private executor: WorkExecutor;
   private submitter: BountySubmitter;
+  private heartbeat: HeartbeatSender;
   private isRunning: boolean = false;
   private activeBounties: Map<string, any> = new Map();
 
@@ -24,6 +26,8 @@ class AutonomousAgent {
     this.evaluator = new BountyEvaluator();
     this.executor = new WorkExecutor();
     this.submitter = new BountySubmitter();
+    // Active bounties count against bidding.maxConcurrent, as in the evaluator
+    this.heartbeat = new HeartbeatSender(() => this.activeBounties.size);
   }
 
   /**
@@ -49,6 +53,9 @@ class AutonomousAgent {
     // Start monitoring loop
     this.monitorLoop();
 
+    // Report load and health to the platform
+    this.heartbeat.start();
+
     // Handle graceful shutdown
     process.on('SIGINT', () => this.stop());
     process.on('SIGTERM', () => this.stop());
@@ -177,6 +184,7 @@ class AutonomousAgent {
 
       if (!result.success) {
         logger.error(`Work execution failed: ${result.error}`);
+        this.heartbeat.recordOutcome(false);
         return;
       }
 
@@ -188,6 +196,8 @@ class AutonomousAgent {
         result.deliverable!
       );
 
+      this.heartbeat.recordOutcome(!!txHash);
+
       if (txHash) {
         logger.info(`✓ Deliverable submitted for bounty #${bountyId}`);
 
@@ -201,6 +211,7 @@ class AutonomousAgent {
       }
     } catch (error) {
       logger.error(`Error executing work for bounty #${bountyId}: ${error}`);
+      this.heartbeat.recordOutcome(false);
     }
   }
 
@@ -210,6 +221,7 @@ class AutonomousAgent {
   async stop(): Promise<void> {
     logger.info('🛑 Stopping agent...');
     this.isRunning = false;
+    this.heartbeat.stop();
 
     // Save state if needed
     logger.info(`Active bounties: ${this.activeBounties.size}`);
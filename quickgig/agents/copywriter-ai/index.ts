@@ -9,6 +9,12 @@ import { join } from 'path';
 import express from 'express';
 import axios from 'axios';
 import OpenAI from 'openai';
+import { x402Paywall } from '../../lib/x402/express';
+import type { VerifiedPayment } from '../../lib/x402/paywall';
+import { getRegisteredTaskPricing, validateTaskPayment } from '../../lib/x402/agent-pricing';
+import { formatUpstreamContext, type UpstreamOutput } from '../../lib/orchestrator/dag';
+import { getCallbackSigner, signMissionCallback } from '../../lib/orchestrator/callbacks';
+import { createHealthTracker, startHeartbeat } from '../../lib/orchestrator/heartbeats';
 
 // Load env from parent directory
 config({ path: join(__dirname, '../../.env.local') });
@@ -30,7 +36,7 @@ app.use((req, res, next) => {
   }
 
   res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Payment-Proof');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Payment-Proof, X-Payment');
   res.setHeader('Access-Control-Allow-Credentials', 'true');
 
   if (req.method === 'OPTIONS') {
@@ -41,10 +47,20 @@ app.use((req, res, next) => {
 });
 
 const PORT = 3003;
-const AGENT_ID = 'agent_copywriter_ai'; // Legacy ID
+const AGENT_ID = 'agent_1760886159008_0qns6xy6u'; // CopyWriter AI profile - heartbeats are recorded against it
 const AGENT_NAME = 'CopyWriter AI';
-const ERC8004_AGENT_ID = '3'; // Official ERC-8004 NFT Token ID
-const CDP_WALLET = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const CDP_WALLET: `0x${string}` = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+// Supabase reads env at import time, so load it after dotenv
+const loadAgents = () => import('../../lib/supabase/agents');
+
+// Signs mission status callbacks - must be the key of the agent's registered wallet
+const CALLBACK_SIGNER = getCallbackSigner('COPYWRITER_AGENT_PRIVATE_KEY');
+
+// Load and health reported in heartbeats (signed with the same key)
+const MAX_CONCURRENT_JOBS = 5;
+const health = createHealthTracker();
+let activeJobs = 0;
 
 // OpenAI client for GPT-4o
 const openai = new OpenAI({
@@ -63,60 +79,38 @@ interface ExecuteRequest {
   payment: number;
   requirements: Record<string, unknown>;
   callbackUrl: string;
+  upstream?: UpstreamOutput[]; // Outputs of agents this task depends on (DAG missions)
 }
 
 /**
  * Execute task endpoint with X402 Payment Required support
+ * x402Paywall verifies the payment on-chain before the handler runs
  */
-app.post('/execute', async (req, res) => {
-  const task: ExecuteRequest = req.body;
-  const paymentProofHeader = req.headers['x-payment-proof'];
-
-  console.log(`[${AGENT_NAME}] Received task:`, task.missionId);
-  console.log(`[${AGENT_NAME}] Description:`, task.description);
-  console.log(`[${AGENT_NAME}] Payment: ${task.payment} USDC`);
-
-  // Check for payment proof
-  if (!paymentProofHeader) {
-    console.log(`[${AGENT_NAME}] No payment proof - returning 402 Payment Required`);
-
-    // Return X402 Payment Required
-    const paymentRequest = {
-      amount: task.payment.toString(),
-      token: '0x036CbD53842c5426634e7929541eC2318f3dCF7e', // USDC on Base Sepolia
-      recipient: '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC', // CopyWriter AI wallet
-      chainId: 84532, // Base Sepolia
-      description: `Payment for copywriting - Mission ${task.missionId}`,
-    };
-
-    return res
-      .status(402)
-      .set('X-Payment-Required', JSON.stringify(paymentRequest))
-      .json({
-        error: 'Payment required',
-        message: 'Please provide payment to execute this task',
-        agentId: AGENT_ID,
-        agentName: AGENT_NAME,
-      });
-  }
-
-  // Verify payment proof
-  try {
-    const paymentProof = JSON.parse(paymentProofHeader as string);
-    console.log(`[${AGENT_NAME}] Verifying payment proof:`, {
-      from: paymentProof.from,
-      to: paymentProof.to,
-      amount: paymentProof.amount,
-      txHash: paymentProof.txHash,
-    });
-
-    // TODO: Verify payment on-chain using viem
-    // For now, just check that proof exists and has required fields
-    if (!paymentProof.txHash || !paymentProof.amount || !paymentProof.from) {
-      throw new Error('Invalid payment proof format');
+app.post(
+  '/execute',
+  // Turn work away while full, before any payment is taken
+  (req, res, next) => {
+    if (activeJobs >= MAX_CONCURRENT_JOBS) {
+      return res.status(503).json({ error: 'At capacity', activeJobs, maxConcurrentJobs: MAX_CONCURRENT_JOBS });
     }
-
-    console.log(`[${AGENT_NAME}] Payment verified! Executing task...`);
+    next();
+  },
+  x402Paywall<ExecuteRequest>({
+    agentId: AGENT_ID,
+    agentName: AGENT_NAME,
+    recipient: CDP_WALLET,
+    // Registered price, not the caller's - task.payment is only the orchestrator's agreed price
+    pricing: () => getRegisteredTaskPricing(CDP_WALLET),
+    validate: validateTaskPayment,
+    description: (task) => `Payment for copywriting - Mission ${task.missionId}`,
+  }),
+  (req, res) => {
+    const task: ExecuteRequest = req.body;
+    const payment = (req as { x402Payment?: VerifiedPayment | null }).x402Payment;
+
+    console.log(`[${AGENT_NAME}] Received task:`, task.missionId);
+    console.log(`[${AGENT_NAME}] Description:`, task.description);
+    console.log(`[${AGENT_NAME}] Payment verified from ${payment?.payer}! Executing task...`);
 
     // Respond immediately
     res.json({
@@ -124,21 +118,20 @@ app.post('/execute', async (req, res) => {
       message: 'Payment accepted, task execution started',
       agentId: AGENT_ID,
       agentName: AGENT_NAME,
-      paymentReceived: paymentProof.amount,
+      paymentReceived: payment?.amount,
     });
 
     // Execute task asynchronously
-    executeTask(task).catch((error) => {
-      console.error(`[${AGENT_NAME}] Task execution failed:`, error);
-    });
-  } catch (error) {
-    console.error(`[${AGENT_NAME}] Payment verification failed:`, error);
-    return res.status(400).json({
-      error: 'Invalid payment proof',
-      message: error instanceof Error ? error.message : 'Payment verification failed',
-    });
+    activeJobs++;
+    executeTask(task)
+      .catch((error) => {
+        console.error(`[${AGENT_NAME}] Task execution failed:`, error);
+      })
+      .finally(() => {
+        activeJobs--;
+      });
   }
-});
+);
 
 /**
  * Execute the copywriting task
@@ -180,11 +173,14 @@ Return ONLY valid JSON in this exact format (no markdown, no extra text):
   "targetAudience": "identified target audience"
 }`;
 
+    // Include deliverables from upstream agents (DAG missions)
+    const userPrompt = [task.description, formatUpstreamContext(task.upstream)].filter(Boolean).join('\n\n');
+
     const response = await openai.chat.completions.create({
       model: 'gpt-4o',
       messages: [
         { role: 'system', content: systemPrompt },
-        { role: 'user', content: task.description },
+        { role: 'user', content: userPrompt },
       ],
       temperature: 0.8,
       max_tokens: 1500,
@@ -215,8 +211,10 @@ Return ONLY valid JSON in this exact format (no markdown, no extra text):
     });
 
     console.log(`[${AGENT_NAME}] Task completed successfully`);
+    health.record(true);
   } catch (error) {
     console.error(`[${AGENT_NAME}] Task failed:`, error);
+    health.record(false);
     await updateStatus(
       task,
       'failed',
@@ -255,7 +253,7 @@ async function uploadJSONToIPFS(jsonData: Record<string, unknown>, filename: str
 }
 
 /**
- * Update mission execution status via callback
+ * Update mission execution status via signed callback
  */
 async function updateStatus(
   task: ExecuteRequest,
@@ -264,29 +262,14 @@ async function updateStatus(
   resultData: Record<string, unknown> | null,
   errorMessage?: string
 ) {
-  try {
-    // Try to get execution ID from database
-    let executionId: number | undefined;
-
-    try {
-      const executionsResponse = await axios.get(
-        `${task.callbackUrl.replace('/update', '')}`
-      );
-      const executions = executionsResponse.data.executions || [];
-      const execution = executions.find((e: { agent_id: string }) => e.agent_id === task.agentId);
-
-      if (execution) {
-        executionId = execution.id;
-      } else {
-        console.warn(`[${AGENT_NAME}] Execution record not found for agent ${task.agentId}, calling update anyway`);
-      }
-    } catch (error) {
-      console.warn(`[${AGENT_NAME}] Failed to fetch execution record, calling update anyway:`, error);
-    }
+  if (!CALLBACK_SIGNER) {
+    console.error(`[${AGENT_NAME}] COPYWRITER_AGENT_PRIVATE_KEY not set, can't sign status update`);
+    return;
+  }
 
-    // Call update endpoint regardless (it will find/create execution if needed)
-    await axios.post(task.callbackUrl, {
-      executionId,
+  try {
+    const callback = await signMissionCallback(CALLBACK_SIGNER, {
+      missionId: task.missionId,
       agentId: task.agentId,
       status,
       deliverableUri,
@@ -294,6 +277,8 @@ async function updateStatus(
       errorMessage,
     });
 
+    await axios.post(task.callbackUrl, callback);
+
     console.log(`[${AGENT_NAME}] Status updated to: ${status}`);
   } catch (error) {
     console.error(`[${AGENT_NAME}] Failed to update status:`, error);
@@ -303,15 +288,23 @@ async function updateStatus(
 /**
  * Health check
  */
-app.get('/health', (req, res) => {
+app.get('/health', async (req, res) => {
+  // ERC-8004 identity is linked on the agent's profile
+  const profile = await loadAgents()
+    .then(({ getAgentByAddress }) => getAgentByAddress(CDP_WALLET))
+    .catch(() => null);
+
   res.json({
     status: 'ok',
     agent: AGENT_NAME,
     agentId: AGENT_ID, // Legacy ID
-    erc8004AgentId: ERC8004_AGENT_ID, // Official ERC-8004 NFT ID
+    erc8004AgentId: profile?.erc8004_token_id ?? null, // Official ERC-8004 NFT ID
     cdpWallet: CDP_WALLET,
     capabilities: ['copywriting', 'content-writing', 'branding', 'marketing'],
-    officialRegistry: '0x8004AA63c570c570eBF15376c0dB199918BFe9Fb',
+    officialRegistry: profile?.erc8004_registry ?? null,
+    health: health.getStatus(),
+    activeJobs,
+    maxConcurrentJobs: MAX_CONCURRENT_JOBS,
     timestamp: new Date().toISOString(),
   });
 });
@@ -322,4 +315,17 @@ app.get('/health', (req, res) => {
 app.listen(PORT, () => {
   console.log(`[${AGENT_NAME}] Running on http://localhost:${PORT}`);
   console.log(`[${AGENT_NAME}] Ready to generate brand copy with GPT-4o`);
+
+  if (CALLBACK_SIGNER) {
+    startHeartbeat({
+      account: CALLBACK_SIGNER,
+      agentId: AGENT_ID,
+      agentName: AGENT_NAME,
+      maxConcurrentJobs: MAX_CONCURRENT_JOBS,
+      getActiveJobs: () => activeJobs,
+      getHealth: () => health.getStatus(),
+    });
+  } else {
+    console.warn(`[${AGENT_NAME}] COPYWRITER_AGENT_PRIVATE_KEY not set, not sending heartbeats`);
+  }
 });
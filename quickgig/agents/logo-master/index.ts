@@ -9,6 +9,12 @@ import { join } from 'path';
 import express from 'express';
 import axios from 'axios';
 import OpenAI from 'openai';
+import { x402Paywall } from '../../lib/x402/express';
+import type { VerifiedPayment } from '../../lib/x402/paywall';
+import { getRegisteredTaskPricing, validateTaskPayment } from '../../lib/x402/agent-pricing';
+import { findTagline, type UpstreamOutput } from '../../lib/orchestrator/dag';
+import { getCallbackSigner, signMissionCallback } from '../../lib/orchestrator/callbacks';
+import { createHealthTracker, startHeartbeat } from '../../lib/orchestrator/heartbeats';
 
 // Load env from parent directory
 config({ path: join(__dirname, '../../.env.local') });
@@ -30,7 +36,7 @@ app.use((req, res, next) => {
   }
 
   res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Payment-Proof');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Payment-Proof, X-Payment');
   res.setHeader('Access-Control-Allow-Credentials', 'true');
 
   if (req.method === 'OPTIONS') {
@@ -43,8 +49,18 @@ app.use((req, res, next) => {
 const PORT = 3001;
 const AGENT_ID = 'agent_1760886157698_lzy2czh83'; // LogoMaster AI (legacy)
 const AGENT_NAME = 'LogoMaster AI';
-const ERC8004_AGENT_ID = '2'; // Official ERC-8004 NFT Token ID
-const CDP_WALLET = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e';
+const CDP_WALLET: `0x${string}` = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e';
+
+// Supabase reads env at import time, so load it after dotenv
+const loadAgents = () => import('../../lib/supabase/agents');
+
+// Signs mission status callbacks - must be the key of the agent's registered wallet
+const CALLBACK_SIGNER = getCallbackSigner('LOGO_AGENT_PRIVATE_KEY');
+
+// Load and health reported in heartbeats (signed with the same key)
+const MAX_CONCURRENT_JOBS = 3;
+const health = createHealthTracker();
+let activeJobs = 0;
 
 // OpenAI client for DALL-E
 const openai = new OpenAI({
@@ -63,60 +79,38 @@ interface ExecuteRequest {
   payment: number;
   requirements: any;
   callbackUrl: string;
+  upstream?: UpstreamOutput[]; // Outputs of agents this task depends on (DAG missions)
 }
 
 /**
  * Execute task endpoint with X402 Payment Required support
+ * x402Paywall verifies the payment on-chain before the handler runs
  */
-app.post('/execute', async (req, res) => {
-  const task: ExecuteRequest = req.body;
-  const paymentProofHeader = req.headers['x-payment-proof'];
-
-  console.log(`[${AGENT_NAME}] Received task:`, task.missionId);
-  console.log(`[${AGENT_NAME}] Description:`, task.description);
-  console.log(`[${AGENT_NAME}] Payment: ${task.payment} USDC`);
-
-  // Check for payment proof
-  if (!paymentProofHeader) {
-    console.log(`[${AGENT_NAME}] No payment proof - returning 402 Payment Required`);
-
-    // Return X402 Payment Required
-    const paymentRequest = {
-      amount: task.payment.toString(), // Amount in smallest unit (e.g., USDC with 6 decimals)
-      token: '0x036CbD53842c5426634e7929541eC2318f3dCF7e', // USDC on Base Sepolia
-      recipient: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e', // LogoMaster AI wallet
-      chainId: 84532, // Base Sepolia
-      description: `Payment for logo design - Mission ${task.missionId}`,
-    };
-
-    return res
-      .status(402)
-      .set('X-Payment-Required', JSON.stringify(paymentRequest))
-      .json({
-        error: 'Payment required',
-        message: 'Please provide payment to execute this task',
-        agentId: AGENT_ID,
-        agentName: AGENT_NAME,
-      });
-  }
-
-  // Verify payment proof
-  try {
-    const paymentProof = JSON.parse(paymentProofHeader as string);
-    console.log(`[${AGENT_NAME}] Verifying payment proof:`, {
-      from: paymentProof.from,
-      to: paymentProof.to,
-      amount: paymentProof.amount,
-      txHash: paymentProof.txHash,
-    });
-
-    // TODO: Verify payment on-chain using viem
-    // For now, just check that proof exists and has required fields
-    if (!paymentProof.txHash || !paymentProof.amount || !paymentProof.from) {
-      throw new Error('Invalid payment proof format');
+app.post(
+  '/execute',
+  // Turn work away while full, before any payment is taken
+  (req, res, next) => {
+    if (activeJobs >= MAX_CONCURRENT_JOBS) {
+      return res.status(503).json({ error: 'At capacity', activeJobs, maxConcurrentJobs: MAX_CONCURRENT_JOBS });
     }
-
-    console.log(`[${AGENT_NAME}] Payment verified! Executing task...`);
+    next();
+  },
+  x402Paywall<ExecuteRequest>({
+    agentId: AGENT_ID,
+    agentName: AGENT_NAME,
+    recipient: CDP_WALLET,
+    // Registered price, not the caller's - task.payment is only the orchestrator's agreed price
+    pricing: () => getRegisteredTaskPricing(CDP_WALLET),
+    validate: validateTaskPayment,
+    description: (task) => `Payment for logo design - Mission ${task.missionId}`,
+  }),
+  (req, res) => {
+    const task: ExecuteRequest = req.body;
+    const payment = (req as { x402Payment?: VerifiedPayment | null }).x402Payment;
+
+    console.log(`[${AGENT_NAME}] Received task:`, task.missionId);
+    console.log(`[${AGENT_NAME}] Description:`, task.description);
+    console.log(`[${AGENT_NAME}] Payment verified from ${payment?.payer}! Executing task...`);
 
     // Respond immediately
     res.json({
@@ -124,21 +118,20 @@ app.post('/execute', async (req, res) => {
       message: 'Payment accepted, task execution started',
       agentId: AGENT_ID,
       agentName: AGENT_NAME,
-      paymentReceived: paymentProof.amount,
+      paymentReceived: payment?.amount,
     });
 
     // Execute task asynchronously
-    executeTask(task).catch((error) => {
-      console.error(`[${AGENT_NAME}] Task execution failed:`, error);
-    });
-  } catch (error) {
-    console.error(`[${AGENT_NAME}] Payment verification failed:`, error);
-    return res.status(400).json({
-      error: 'Invalid payment proof',
-      message: error instanceof Error ? error.message : 'Payment verification failed',
-    });
+    activeJobs++;
+    executeTask(task)
+      .catch((error) => {
+        console.error(`[${AGENT_NAME}] Task execution failed:`, error);
+      })
+      .finally(() => {
+        activeJobs--;
+      });
   }
-});
+);
 
 /**
  * Execute the logo generation task
@@ -156,9 +149,14 @@ async function executeTask(task: ExecuteRequest) {
       throw new Error('OPENAI_API_KEY not configured');
     }
 
+    // Use the copywriter's tagline when this task depends on one
+    const tagline = findTagline(task.upstream);
+
     const dalleResponse = await openai.images.generate({
       model: 'dall-e-3',
-      prompt: `Create a minimalist, professional logo based on this description: ${task.description}. The logo should be clean, modern, and suitable for business use. High quality, vector-style aesthetic.`,
+      prompt: `Create a minimalist, professional logo based on this description: ${task.description}.${
+        tagline ? ` The brand tagline is "${tagline}".` : ''
+      } The logo should be clean, modern, and suitable for business use. High quality, vector-style aesthetic.`,
       n: 1,
       size: '1024x1024',
       quality: 'hd',
@@ -200,8 +198,10 @@ async function executeTask(task: ExecuteRequest) {
     });
 
     console.log(`[${AGENT_NAME}] Task completed successfully`);
+    health.record(true);
   } catch (error) {
     console.error(`[${AGENT_NAME}] Task failed:`, error);
+    health.record(false);
     await updateStatus(
       task,
       'failed',
@@ -236,7 +236,7 @@ async function uploadToIPFS(buffer: Buffer, filename: string): Promise<string> {
 }
 
 /**
- * Update mission execution status via callback
+ * Update mission execution status via signed callback
  */
 async function updateStatus(
   task: ExecuteRequest,
@@ -245,29 +245,14 @@ async function updateStatus(
   resultData: any | null,
   errorMessage?: string
 ) {
-  try {
-    // Try to get execution ID from database
-    let executionId: number | undefined;
-
-    try {
-      const executionsResponse = await axios.get(
-        `${task.callbackUrl.replace('/update', '')}`
-      );
-      const executions = executionsResponse.data.executions || [];
-      const execution = executions.find((e: any) => e.agent_id === task.agentId);
-
-      if (execution) {
-        executionId = execution.id;
-      } else {
-        console.warn(`[${AGENT_NAME}] Execution record not found for agent ${task.agentId}, calling update anyway`);
-      }
-    } catch (error) {
-      console.warn(`[${AGENT_NAME}] Failed to fetch execution record, calling update anyway:`, error);
-    }
+  if (!CALLBACK_SIGNER) {
+    console.error(`[${AGENT_NAME}] LOGO_AGENT_PRIVATE_KEY not set, can't sign status update`);
+    return;
+  }
 
-    // Call update endpoint regardless (it will find/create execution if needed)
-    await axios.post(task.callbackUrl, {
-      executionId,
+  try {
+    const callback = await signMissionCallback(CALLBACK_SIGNER, {
+      missionId: task.missionId,
       agentId: task.agentId,
       status,
       deliverableUri,
@@ -275,6 +260,8 @@ async function updateStatus(
       errorMessage,
     });
 
+    await axios.post(task.callbackUrl, callback);
+
     console.log(`[${AGENT_NAME}] Status updated to: ${status}`);
   } catch (error) {
     console.error(`[${AGENT_NAME}] Failed to update status:`, error);
@@ -284,15 +271,23 @@ async function updateStatus(
 /**
  * Health check
  */
-app.get('/health', (req, res) => {
+app.get('/health', async (req, res) => {
+  // ERC-8004 identity is linked on the agent's profile
+  const profile = await loadAgents()
+    .then(({ getAgentByAddress }) => getAgentByAddress(CDP_WALLET))
+    .catch(() => null);
+
   res.json({
     status: 'ok',
     agent: AGENT_NAME,
     agentId: AGENT_ID, // Legacy ID
-    erc8004AgentId: ERC8004_AGENT_ID, // Official ERC-8004 NFT ID
+    erc8004AgentId: profile?.erc8004_token_id ?? null, // Official ERC-8004 NFT ID
     cdpWallet: CDP_WALLET,
     capabilities: ['logo-design', 'graphic-design', 'branding'],
-    officialRegistry: '0x8004AA63c570c570eBF15376c0dB199918BFe9Fb',
+    officialRegistry: profile?.erc8004_registry ?? null,
+    health: health.getStatus(),
+    activeJobs,
+    maxConcurrentJobs: MAX_CONCURRENT_JOBS,
     timestamp: new Date().toISOString(),
   });
 });
@@ -303,4 +298,17 @@ app.get('/health', (req, res) => {
 app.listen(PORT, () => {
   console.log(`[${AGENT_NAME}] Running on http://localhost:${PORT}`);
   console.log(`[${AGENT_NAME}] Ready to generate logos with DALL-E 3`);
+
+  if (CALLBACK_SIGNER) {
+    startHeartbeat({
+      account: CALLBACK_SIGNER,
+      agentId: AGENT_ID,
+      agentName: AGENT_NAME,
+      maxConcurrentJobs: MAX_CONCURRENT_JOBS,
+      getActiveJobs: () => activeJobs,
+      getHealth: () => health.getStatus(),
+    });
+  } else {
+    console.warn(`[${AGENT_NAME}] LOGO_AGENT_PRIVATE_KEY not set, not sending heartbeats`);
+  }
 });
@@ -10,7 +10,8 @@ import { useRouter } from 'next/navigation';
 import { useAccount, usePublicClient } from 'wagmi';
 import { toast } from 'sonner';
 import type { Address } from 'viem';
-import { getAgentById, type EnhancedAgentData } from '@/lib/erc8004/unified-discovery';
+import { getAgentById, getLinkedTokenId, type EnhancedAgentData } from '@/lib/erc8004/unified-discovery';
+import { ERC8004_OFFICIAL } from '@/lib/erc8004/official-client';
 
 interface AgentProfile {
   id: string;
@@ -25,6 +26,9 @@ interface AgentProfile {
   bio?: string;
   avatar_url?: string;
   endpoint_url?: string;
+  erc8004_token_id?: string | null;
+  erc8004_registry?: string | null;
+  erc8004_registration_tx?: string | null;
   created_at: string;
 }
 
@@ -45,19 +49,14 @@ export default function AgentProfilePage({ params }: { params: Promise<{ agentId
       try {
         setIsLoading(true);
 
-        // First get DB agent to find ERC-8004 ID mapping
+        // First get DB agent to find its ERC-8004 token
         const dbResponse = await fetch(`/api/agents/${agentId}`);
         if (dbResponse.ok) {
-          const dbData = await dbResponse.json();
+          const dbData: AgentProfile = await dbResponse.json();
           setDbAgent(dbData);
 
-          // Get ERC-8004 ID from mapping
-          const mapping: Record<string, string> = {
-            'agent_1760886157698_lzy2czh83': '2',
-            'agent_1760886159008_0qns6xy6u': '3',
-            'agent_1760886159300_zitacvck8': '4',
-          };
-          const nftId = mapping[agentId] || '0';
+          // ERC-8004 token linked on the profile at registration
+          const nftId = getLinkedTokenId(dbData) || '0';
           setErc8004Id(nftId);
 
           // Now query blockchain for on-chain data
@@ -67,32 +66,36 @@ export default function AgentProfilePage({ params }: { params: Promise<{ agentId
             if (onChainAgent) {
               setAgent(onChainAgent);
 
-              // Query blockchain for registration transaction
-              try {
-                const IDENTITY_REGISTRY = '0x8004AA63c570c570eBF15376c0dB199918BFe9Fb' as const;
-                const logs = await publicClient.getLogs({
-                  address: IDENTITY_REGISTRY,
-                  event: {
-                    type: 'event',
-                    name: 'Registered',
-                    inputs: [
-                      { name: 'agentId', type: 'uint256', indexed: true },
-                      { name: 'tokenURI', type: 'string', indexed: false },
-                      { name: 'owner', type: 'address', indexed: true },
-                    ],
-                  },
-                  args: {
-                    agentId: BigInt(nftId),
-                  },
-                  fromBlock: 0n,
-                  toBlock: 'latest',
-                });
-
-                if (logs.length > 0) {
-                  setRegistrationTxHash(logs[0].transactionHash);
+              // Registration transaction is recorded for agents registered here,
+              // query blockchain for the others
+              if (dbData.erc8004_registration_tx) {
+                setRegistrationTxHash(dbData.erc8004_registration_tx);
+              } else {
+                try {
+                  const logs = await publicClient.getLogs({
+                    address: ERC8004_OFFICIAL.IDENTITY_REGISTRY,
+                    event: {
+                      type: 'event',
+                      name: 'Registered',
+                      inputs: [
+                        { name: 'agentId', type: 'uint256', indexed: true },
+                        { name: 'tokenURI', type: 'string', indexed: false },
+                        { name: 'owner', type: 'address', indexed: true },
+                      ],
+                    },
+                    args: {
+                      agentId: BigInt(nftId),
+                    },
+                    fromBlock: 0n,
+                    toBlock: 'latest',
+                  });
+
+                  if (logs.length > 0) {
+                    setRegistrationTxHash(logs[0].transactionHash);
+                  }
+                } catch (err) {
+                  console.error('Failed to fetch registration transaction:', err);
                 }
-              } catch (err) {
-                console.error('Failed to fetch registration transaction:', err);
               }
             } else {
               setError('Agent not found on-chain');
@@ -362,7 +365,7 @@ export default function AgentProfilePage({ params }: { params: Promise<{ agentId
                 </div>
                 <div>
                   <p className="font-mono text-xs text-black/60 mb-1">Contract</p>
-                  <p className="font-mono text-xs break-all">0x8004...e9Fb</p>
+                  <p className="font-mono text-xs break-all">{formatAddress(ERC8004_OFFICIAL.IDENTITY_REGISTRY)}</p>
                 </div>
                 {registrationTxHash && (
                   <div>
@@ -372,7 +375,7 @@ export default function AgentProfilePage({ params }: { params: Promise<{ agentId
                 )}
                 <div className="border-t border-black/20 pt-3 space-y-2">
                   <a
-                    href={`https://sepolia.basescan.org/token/0x8004AA63c570c570eBF15376c0dB199918BFe9Fb?a=${erc8004Id}`}
+                    href={`https://sepolia.basescan.org/token/${ERC8004_OFFICIAL.IDENTITY_REGISTRY}?a=${erc8004Id}`}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="inline-flex items-center gap-1 font-mono text-xs text-black hover:underline w-full"
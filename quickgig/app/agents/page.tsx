@@ -5,7 +5,8 @@ import { Loader, LoadingState } from '@/components/ui/loader';
 import { Header } from '@/components/layout/header';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { COMMON_CAPABILITIES } from '@/lib/erc8004/types';
+import { useCapabilityTaxonomy } from '@/lib/capabilities/hooks';
+import { getCapabilityInfo, getChildCapabilities, getRootCapabilities } from '@/lib/capabilities/taxonomy';
 import { formatAddress } from '@/lib/utils';
 import Link from 'next/link';
 import type { Address } from 'viem';
@@ -22,6 +23,12 @@ export default function AgentsPage() {
   const [selectedAgents, setSelectedAgents] = useState<Map<string, RecommendedAgent>>(new Map());
   const [showMissionPanel, setShowMissionPanel] = useState(false);
   const [showMissionWizard, setShowMissionWizard] = useState(false);
+  const { data: taxonomy } = useCapabilityTaxonomy();
+
+  // Categories, then the capabilities under the selected one
+  const selectedPath = taxonomy ? getCapabilityInfo(taxonomy, selectedCapability)?.path || [] : [];
+  const rootCapabilities = taxonomy ? getRootCapabilities(taxonomy) : [];
+  const childCapabilities = taxonomy && selectedPath[0] ? getChildCapabilities(taxonomy, selectedPath[0]) : [];
 
   // Fetch agents using new recommender system
   useEffect(() => {
@@ -124,18 +131,34 @@ export default function AgentsPage() {
             SEARCH BY CAPABILITY
           </h2>
 
-          <div className="flex flex-wrap gap-1.5 sm:gap-2 mb-4 sm:mb-5 md:mb-6">
-            {COMMON_CAPABILITIES.slice(0, 12).map((capability) => (
+          <div className="flex flex-wrap gap-1.5 sm:gap-2 mb-2 sm:mb-3">
+            {rootCapabilities.map((capability) => (
               <button
-                key={capability}
-                onClick={() => setSelectedCapability(capability)}
+                key={capability.slug}
+                onClick={() => setSelectedCapability(capability.slug)}
                 className={`px-2.5 py-1.5 sm:px-3 sm:py-2 md:px-4 md:py-2 border-2 border-black font-mono text-[10px] sm:text-xs uppercase tracking-wide transition-all duration-300 ${
-                  selectedCapability === capability
+                  selectedPath[0] === capability.slug
+                    ? 'bg-black text-white'
+                    : 'bg-white text-black md:hover:bg-black md:hover:text-white'
+                }`}
+              >
+                {capability.name}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-1.5 sm:gap-2 mb-4 sm:mb-5 md:mb-6">
+            {childCapabilities.map((capability) => (
+              <button
+                key={capability.slug}
+                onClick={() => setSelectedCapability(capability.slug)}
+                className={`px-2 py-1 sm:px-3 sm:py-1 border-2 border-black font-mono text-[10px] sm:text-xs uppercase tracking-wide transition-all duration-300 ${
+                  selectedCapability === capability.slug
                     ? 'bg-black text-white'
                     : 'bg-white text-black md:hover:bg-black md:hover:text-white'
                 }`}
               >
-                {capability.replace('-', ' ')}
+                {capability.name}
               </button>
             ))}
           </div>
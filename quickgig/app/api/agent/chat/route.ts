@@ -1,16 +1,32 @@
 /**
  * AI Agent Payment Endpoint (X402 Protocol)
  * Returns 402 Payment Required if payment not provided
- * Processes request if valid payment proof supplied
+ * Processes request if valid payment proof supplied (via withX402Paywall)
+ * Streams the reply as Server-Sent Events when asked to (Accept: text/event-stream), once the
+ * payment and session checks passed
+ * When the payer is signed in (SIWE), message sessions are answered by the chat engine
+ * (lib/ai/chat-engine.ts) - replies carry its pending actions, confirmed through /api/chat
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { OpenAI } from 'openai';
-import { parseUnits } from 'viem';
-import { verifyPaymentProof, createPaymentProof } from '@/lib/x402/middleware';
-import type { X402PaymentRequest, X402PaymentProof } from '@/lib/x402/types';
-import { CONTRACTS } from '@/lib/contracts/addresses';
-import { createSession, getSession, updateSession } from '@/lib/storage/in-memory-chat';
+import type { ChatCompletionCreateParamsNonStreaming } from 'openai/resources/chat/completions';
+import { formatUnits, parseUnits, type Address } from 'viem';
+import { withX402Paywall } from '@/lib/x402/next';
+import type { VerifiedPayment } from '@/lib/x402/paywall';
+import {
+  chargeMeteredUsage,
+  closeMeteredSession,
+  hasMeteredBalance,
+  openMeteredSession,
+  type BalanceDisposition,
+  type MeteredCharge,
+} from '@/lib/x402/metering';
+import type { AgentPricing } from '@/lib/x402/types';
+import { getSessionStore } from '@/lib/storage/session-store';
+import { getSession, isSessionAddress } from '@/lib/auth/session';
+import { createChatEventStream, wantsEventStream } from '@/lib/ai/chat-stream';
+import { runChatTurn } from '@/lib/ai/chat-engine';
 
 // OpenAI client for premium models (GPT-4o, etc)
 const openai = new OpenAI({
@@ -38,133 +54,150 @@ if (!AGENT_WALLET || AGENT_WALLET === '0x000000000000000000000000000000000000000
 const PRICE_PER_MESSAGE = parseUnits('0.01', 6); // USDC has 6 decimals
 const PRICE_PER_SESSION = parseUnits('0.10', 6); // 30 messages
 
-export async function POST(request: NextRequest) {
-  try {
-    const { message, agentId = 'quickgig-ai-agent', sessionId } = await request.json();
+// Metered pricing: $0.50 deposit, debited $0.02 per 1K LLM tokens
+const METERED_DEPOSIT = parseUnits('0.50', 6);
+const PRICE_PER_TOKEN = parseUnits('0.00002', 6);
+
+const PRICING: AgentPricing = {
+  perMessage: PRICE_PER_MESSAGE,
+  perSession: PRICE_PER_SESSION,
+  perToken: PRICE_PER_TOKEN,
+};
+
+interface AgentChatRequest {
+  message: string;
+  agentId?: string;
+  sessionId?: string;
+  billing?: 'messages' | 'metered'; // Defaults to 'messages' (30 message allowance)
+}
 
-    console.log('[Agent Chat] Request:', { agentId, sessionId, hasMessage: !!message });
+const DEFAULT_AGENT_ID = 'quickgig-ai-agent';
 
-    if (!message || typeof message !== 'string') {
-      return NextResponse.json(
-        { error: 'Message is required' },
-        { status: 400 }
-      );
-    }
+const EMPTY_REPLY = 'I apologize, I could not generate a response.';
 
-    // Check for payment proof in headers
-    const paymentProofHeader = request.headers.get('X-Payment-Proof');
-    console.log('[Agent Chat] Has payment proof:', !!paymentProofHeader);
+/**
+ * Streams the reply to the client as it is generated
+ */
+interface ReplyStream {
+  onDelta: (content: string) => void;
+  signal: AbortSignal;
+}
 
-    // Check if session has remaining messages
-    const session = sessionId ? await getSession(sessionId) : null;
-    console.log('[Agent Chat] Session lookup:', {
-      sessionId,
-      found: !!session,
-      messagesRemaining: session?.messages_remaining,
-      expiresAt: session?.expires_at,
-    });
-    const hasSession = session && session.messages_remaining > 0 && new Date(session.expires_at) > new Date();
-
-    // If no session and no payment proof, return 402
-    if (!hasSession && !paymentProofHeader) {
-      const paymentRequest: X402PaymentRequest = {
-        amount: PRICE_PER_SESSION.toString(),
-        token: CONTRACTS.USDC,
-        recipient: AGENT_WALLET as `0x${string}`,
-        chainId: 84532, // Base Sepolia
-        description: `Mission planning session with ${agentId} (30 messages)`,
-      };
-
-      return new NextResponse(
-        JSON.stringify({
-          error: 'Payment required',
-          message: `Mission planning session: $0.10 for 30 messages`,
-          agentId,
-        }),
-        {
-          status: 402,
-          headers: {
-            'Content-Type': 'application/json',
-            'X-Payment-Required': JSON.stringify(paymentRequest),
-          },
-        }
-      );
+/**
+ * Check if a session exists with messages (or metered balance) remaining and is not expired
+ */
+async function hasActiveSession(sessionId?: string, billing: AgentChatRequest['billing'] = 'messages'): Promise<boolean> {
+  const session = sessionId ? await getSessionStore().getSession(sessionId) : null;
+  console.log('[Agent Chat] Session lookup:', {
+    sessionId,
+    found: !!session,
+    billing,
+    messagesRemaining: session?.messages_remaining,
+    balance: session?.balance,
+    expiresAt: session?.expires_at,
+  });
+
+  if (billing === 'metered') {
+    return hasMeteredBalance(session);
+  }
+  return !!session && session.messages_remaining > 0 && new Date(session.expires_at) > new Date();
+}
+
+function newSessionId(): string {
+  return `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export const POST = withX402Paywall<AgentChatRequest>(
+  async (request, { body, payment }) => {
+    const { message, agentId = DEFAULT_AGENT_ID, sessionId, billing = 'messages' } = body;
+
+    console.log('[Agent Chat] Request:', { agentId, sessionId, billing, paid: !!payment });
+
+    if (billing === 'metered') {
+      return handleMeteredChat(request, body, payment);
     }
 
-    // Verify payment proof if provided
-    if (paymentProofHeader && !hasSession) {
-      try {
-        const proof: X402PaymentProof = JSON.parse(paymentProofHeader);
-        console.log('[Agent Chat] Payment proof parsed:', { from: proof.from, to: proof.to, amount: proof.amount });
-
-        // Verify payment on-chain
-        console.log('[Agent Chat] Verifying payment proof...');
-        const isValid = await verifyPaymentProof(proof);
-        console.log('[Agent Chat] Payment verification result:', isValid);
-
-        if (!isValid) {
-          console.error('[Agent Chat] Payment proof verification failed');
-          return NextResponse.json(
-            { error: 'Invalid payment proof' },
-            { status: 400 }
-          );
-        }
+    try {
+      const store = getSessionStore();
+      let activeSessionId = sessionId;
 
-        // Create new session in Supabase
-        const newSessionId = sessionId || `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      if (payment) {
+        // Always a fresh session for the verified payer - reusing the client's sessionId would
+        // collide with the session being renewed, or overwrite another wallet's
+        activeSessionId = newSessionId();
         const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
 
-        await createSession({
-          session_id: newSessionId,
-          user_address: proof.from,
+        await store.createSession({
+          session_id: activeSessionId,
+          user_address: payment.payer,
           agent_id: agentId,
           messages_remaining: 30,
-          total_paid: proof.amount,
+          total_paid: payment.amount,
           expires_at: expiresAt,
         });
+      }
 
-        // Decrement message count
-        await updateSession(newSessionId, { messages_remaining: 29 });
-
-        // Process AI request
-        try {
-          const aiResponse = await processAIRequest(message, agentId);
-
-          return NextResponse.json({
-            message: aiResponse,
-            sessionId: newSessionId,
-            messagesRemaining: 29,
-            paid: true,
-          });
-        } catch (aiError) {
-          return NextResponse.json(
-            { error: aiError instanceof Error ? aiError.message : 'AI service error' },
-            { status: 503 }
-          );
-        }
-      } catch (error) {
+      // Atomically use one message (checked by isPaid, but another request may have used the last one)
+      const session = await store.consumeMessage(activeSessionId!);
+      if (!session) {
         return NextResponse.json(
-          { error: 'Failed to verify payment proof' },
-          { status: 400 }
+          { error: 'Session expired or out of messages', sessionId: activeSessionId },
+          { status: 409 }
         );
       }
-    }
-
-    // Use existing session
-    if (hasSession && session) {
-      // Decrement message count in database
-      const newCount = session.messages_remaining - 1;
-      await updateSession(sessionId!, { messages_remaining: newCount });
+      const messagesRemaining = session.messages_remaining;
+
+      // The payer signed in (SIWE) - answer with the multi-turn assistant, whose actions they can
+      // confirm and sign. Agent matching and unauthenticated callers keep the single-shot reply.
+      const wallet = getSession(request);
+      const assistantUser = wallet && isSessionAddress(wallet, session.user_address) &&
+        !message.startsWith('[AI_AGENT_MATCHING]') && process.env.OPENROUTER_API_KEY
+        ? wallet.address
+        : null;
+
+      if (wantsEventStream(request)) {
+        return createChatEventStream(request, async (send, signal) => {
+          send('session', { sessionId: activeSessionId, messagesRemaining, paid: !!payment });
+
+          if (assistantUser) {
+            const turn = await runChatTurn({ sessionId: activeSessionId!, message }, { userAddress: assistantUser }, {
+              signal,
+              onDelta: (content) => send('delta', { content }),
+              onToolCall: (event) => send('tool_call', { ...event }),
+            });
+            send('message', { message: turn.message, metadata: { pendingActions: turn.pendingActions } });
+            return;
+          }
+
+          const aiResponse = await processAIRequest(message, agentId, undefined, {
+            signal,
+            onDelta: (content) => send('delta', { content }),
+          });
+          send('message', { message: aiResponse });
+        });
+      }
 
       // Process AI request
       try {
+        if (assistantUser) {
+          const turn = await runChatTurn({ sessionId: activeSessionId!, message }, { userAddress: assistantUser });
+
+          return NextResponse.json({
+            message: turn.message,
+            metadata: { pendingActions: turn.pendingActions },
+            sessionId: activeSessionId,
+            messagesRemaining,
+            paid: !!payment,
+          });
+        }
+
         const aiResponse = await processAIRequest(message, agentId);
 
         return NextResponse.json({
           message: aiResponse,
-          sessionId,
-          messagesRemaining: newCount,
-          paid: false, // Using existing session
+          sessionId: activeSessionId,
+          messagesRemaining,
+          paid: !!payment,
         });
       } catch (aiError) {
         return NextResponse.json(
@@ -172,27 +205,194 @@ export async function POST(request: NextRequest) {
           { status: 503 }
         );
       }
+    } catch (error) {
+      console.error('Agent chat error:', error);
+      return NextResponse.json(
+        {
+          error: error instanceof Error ? error.message : 'Internal server error',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  {
+    agentId: DEFAULT_AGENT_ID,
+    recipient: AGENT_WALLET as Address,
+    // Metered sessions charge the deposit through the perSession slot
+    pricing: (body) => (body.billing === 'metered' ? { ...PRICING, perSession: METERED_DEPOSIT } : PRICING),
+    charge: 'perSession',
+    description: (body) => body.billing === 'metered'
+      ? `Metered session deposit with ${body.agentId || DEFAULT_AGENT_ID}`
+      : `Mission planning session with ${body.agentId || DEFAULT_AGENT_ID} (30 messages)`,
+    paymentMessage: (body) => body.billing === 'metered'
+      ? 'Metered session: $0.50 deposit, $0.02 per 1K tokens, unused balance refundable'
+      : 'Mission planning session: $0.10 for 30 messages',
+    validate: (body) => {
+      if (!body.message || typeof body.message !== 'string') return 'Message is required';
+      if (body.billing && body.billing !== 'messages' && body.billing !== 'metered') return 'Invalid billing mode';
+      return undefined;
+    },
+    isPaid: (body) => hasActiveSession(body.sessionId, body.billing),
+  }
+);
+
+/**
+ * Metered chat: debit the tokens each response used from the prepaid balance
+ */
+async function handleMeteredChat(
+  request: Request,
+  body: AgentChatRequest,
+  payment: VerifiedPayment | null
+): Promise<Response> {
+  const { message, agentId = DEFAULT_AGENT_ID } = body;
+  let sessionId = body.sessionId;
+
+  try {
+    if (payment) {
+      // Fund a fresh session - the payer's leftovers from the previous one carry over
+      const previous = sessionId ? await getSessionStore().getSession(sessionId) : null;
+      if (previous && previous.user_address.toLowerCase() === payment.payer.toLowerCase()) {
+        await closeMeteredSession(previous.session_id, 'carry_over');
+      }
+
+      sessionId = newSessionId();
+      await openMeteredSession({
+        sessionId,
+        payer: payment.payer,
+        agentId,
+        deposit: payment.amount,
+      });
     }
 
-    return NextResponse.json(
-      { error: 'Invalid request state' },
-      { status: 400 }
-    );
+    const usage = { tokens: 0 };
+
+    if (wantsEventStream(request)) {
+      const activeSessionId = sessionId!;
+      return createChatEventStream(request, async (send, signal) => {
+        send('session', { sessionId: activeSessionId, billing: 'metered', paid: !!payment });
+
+        let aiResponse: string;
+        try {
+          aiResponse = await processAIRequest(message, agentId, usage, {
+            signal,
+            onDelta: (content) => send('delta', { content }),
+          });
+        } catch (error) {
+          // A cancelled reply is still charged for the tokens generated before the cancel
+          if (signal.aborted && usage.tokens > 0) {
+            await chargeMeteredUsage(activeSessionId, PRICING, { unit: 'token', quantity: usage.tokens });
+          }
+          throw error;
+        }
+
+        const charge = await chargeMeteredUsage(activeSessionId, PRICING, { unit: 'token', quantity: usage.tokens });
+        if (!charge) {
+          send('error', { error: 'Session expired or out of balance', sessionId: activeSessionId });
+          return;
+        }
+
+        send('session', { ...getMeteredStatus(activeSessionId, usage.tokens, charge), paid: !!payment });
+        send('message', { message: aiResponse });
+      });
+    }
+
+    let aiResponse: string;
+    try {
+      aiResponse = await processAIRequest(message, agentId, usage);
+    } catch (aiError) {
+      return NextResponse.json(
+        { error: aiError instanceof Error ? aiError.message : 'AI service error', sessionId },
+        { status: 503 }
+      );
+    }
+
+    const charge = await chargeMeteredUsage(sessionId!, PRICING, { unit: 'token', quantity: usage.tokens });
+    if (!charge) {
+      return NextResponse.json(
+        { error: 'Session expired or out of balance', sessionId },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      message: aiResponse,
+      ...getMeteredStatus(sessionId!, usage.tokens, charge),
+      paid: !!payment,
+    });
   } catch (error) {
-    console.error('Agent chat error:', error);
+    console.error('Agent chat (metered) error:', error);
     return NextResponse.json(
-      {
-        error: error instanceof Error ? error.message : 'Internal server error',
-      },
+      { error: error instanceof Error ? error.message : 'Internal server error' },
       { status: 500 }
     );
   }
 }
 
+/**
+ * Balance and usage of a metered session after a charge
+ */
+function getMeteredStatus(sessionId: string, tokens: number, charge: MeteredCharge) {
+  return {
+    sessionId,
+    billing: 'metered' as const,
+    usage: {
+      unit: 'token',
+      quantity: tokens,
+      cost: charge.cost.toString(),
+      debited: charge.debited.toString(),
+    },
+    balance: charge.balance.toString(), // USDC base units
+    balanceFormatted: formatUnits(charge.balance, 6),
+    exhausted: charge.exhausted,
+  };
+}
+
+/**
+ * Run a completion, streamed when the client asked for it
+ * usage.tokens is the reported total, or an estimate (about 4 characters per token) of what was
+ * generated when the stream is cancelled.
+ */
+async function runCompletion(
+  client: OpenAI,
+  params: ChatCompletionCreateParamsNonStreaming,
+  usage: { tokens: number },
+  stream?: ReplyStream
+): Promise<string> {
+  if (!stream) {
+    const completion = await client.chat.completions.create(params);
+    usage.tokens = completion.usage?.total_tokens || 0;
+    return completion.choices[0].message.content || EMPTY_REPLY;
+  }
+
+  let streamed = '';
+  const runner = client.chat.completions.stream(
+    { ...params, stream: true, stream_options: { include_usage: true } },
+    { signal: stream.signal }
+  );
+  runner.on('content.delta', ({ delta }) => {
+    streamed += delta;
+    stream.onDelta(delta);
+  });
+
+  try {
+    const completion = await runner.finalChatCompletion();
+    usage.tokens = completion.usage?.total_tokens || Math.ceil(streamed.length / 4);
+    return completion.choices[0].message.content || EMPTY_REPLY;
+  } catch (error) {
+    usage.tokens = Math.ceil(streamed.length / 4);
+    throw error;
+  }
+}
+
 /**
  * Process AI request using OpenAI GPT-4o (premium model)
  */
-async function processAIRequest(message: string, agentId: string): Promise<string> {
+async function processAIRequest(
+  message: string,
+  agentId: string,
+  usage: { tokens: number } = { tokens: 0 },
+  stream?: ReplyStream
+): Promise<string> {
   // Check for mission creation intent (bounty/gig creation, not agent-based)
   const missionKeywords = /\b(create|new|post|generate|make|want to create|i want a|put up a?|deploy)\s+(a\s+)?(bounty|gig|job|task|mission)\b/i;
   const isMissionIntent = missionKeywords.test(message);
@@ -233,11 +433,20 @@ async function processAIRequest(message: string, agentId: string): Promise<strin
       console.log('[AI Agent Matching] Unique capabilities:', uniqueCapabilities);
 
       if (uniqueCapabilities.length > 0) {
+        // Split each intent's suggested budget across its capabilities for price fit
+        const budgets: Record<string, number> = {};
+        for (const intent of analysis.intents) {
+          for (const capability of intent.capabilities) {
+            budgets[capability] = intent.suggestedBudget.max / intent.capabilities.length;
+          }
+        }
+
         // Get agent recommendations
         console.log('[AI Agent Matching] Fetching agents with minScore: 0, limit: 3');
         const recommendations = await recommendMultipleAgents(uniqueCapabilities, {
           minScore: 0,
           limit: 3,
+          budgets,
         });
 
         console.log('[AI Agent Matching] Recommendations received:', recommendations.size, 'capabilities');
@@ -307,13 +516,22 @@ async function processAIRequest(message: string, agentId: string): Promise<strin
     });
   }
 
+  let streamedReply = false;
+  const trackedStream = stream && {
+    signal: stream.signal,
+    onDelta: (content: string) => {
+      streamedReply = true;
+      stream.onDelta(content);
+    },
+  };
+
   if (!process.env.OPENAI_API_KEY) {
     return `Mock response from ${agentId}: I received your message "${message}". This is a demo response.`;
   }
 
   try {
     // Use GPT-4o-mini for fast, cost-effective responses
-    const completion = await openai.chat.completions.create({
+    return await runCompletion(openai, {
       model: 'gpt-4o-mini',
       messages: [
         {
@@ -384,16 +602,19 @@ Keep it SHORT. Be helpful, not verbose.`,
       ],
       max_tokens: 300,
       temperature: 0.7,
-    });
-
-    return completion.choices[0].message.content || 'I apologize, I could not generate a response.';
+    }, usage, trackedStream);
   } catch (error) {
     console.error('OpenAI API error:', error);
 
+    // Once part of the reply reached the client (or it cancelled), starting over would garble it
+    if (stream && (stream.signal.aborted || streamedReply)) {
+      throw error;
+    }
+
     // Fallback to OpenRouter if OpenAI fails
     console.log('[Agent Chat] Falling back to OpenRouter...');
     try {
-      const completion = await openrouter.chat.completions.create({
+      return await runCompletion(openrouter, {
         model: 'openai/gpt-4o-mini',
         messages: [
           {
@@ -435,9 +656,7 @@ Keep it SHORT. Be helpful, not verbose.`,
         ],
         max_tokens: 300,
         temperature: 0.7,
-      });
-
-      return completion.choices[0].message.content || 'I apologize, I could not generate a response.';
+      }, usage, stream);
     } catch (fallbackError) {
       console.error('[Agent Chat] OpenRouter fallback error:', fallbackError);
       throw new Error(`AI service unavailable: ${fallbackError instanceof Error ? fallbackError.message : 'Unknown error'}`);
@@ -455,7 +674,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: 'Session ID required' }, { status: 400 });
   }
 
-  const session = await getSession(sessionId);
+  const session = await getSessionStore().getSession(sessionId);
 
   if (!session || new Date(session.expires_at) < new Date()) {
     return NextResponse.json({ error: 'Session not found or expired' }, { status: 404 });
@@ -463,8 +682,63 @@ export async function GET(request: NextRequest) {
 
   return NextResponse.json({
     sessionId: session.session_id,
+    billing: session.billing_mode || 'messages',
     messagesRemaining: session.messages_remaining,
+    balance: session.balance,
     expiresAt: session.expires_at,
   });
 }
 
+/**
+ * Close one of the signed-in wallet's (SIWE session) metered sessions
+ * Unused balance is carried over to the payer's next session, or recorded as a refund in
+ * chat_session_ledger. Refunds aren't paid out here - each 'refund' row is a liability owed
+ * to the payer until it is settled from the agent wallet.
+ */
+export async function DELETE(request: NextRequest) {
+  const wallet = getSession(request);
+  const sessionId = request.nextUrl.searchParams.get('sessionId');
+  const disposition = (request.nextUrl.searchParams.get('disposition') || 'refund') as BalanceDisposition;
+
+  if (!wallet) {
+    return NextResponse.json({ error: 'Sign in with your wallet first' }, { status: 401 });
+  }
+
+  if (!sessionId) {
+    return NextResponse.json({ error: 'Session ID required' }, { status: 400 });
+  }
+
+  if (disposition !== 'refund' && disposition !== 'carry_over') {
+    return NextResponse.json({ error: 'Disposition must be refund or carry_over' }, { status: 400 });
+  }
+
+  try {
+    // Other wallets' sessions look the same as missing ones
+    const session = await getSessionStore().getSession(sessionId);
+    if (!session || !isSessionAddress(wallet, session.user_address)) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    const closed = await closeMeteredSession(sessionId, disposition);
+
+    if (!closed) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      sessionId,
+      disposition,
+      amount: closed.amount.toString(), // USDC base units
+      amountFormatted: formatUnits(closed.amount, 6),
+      payer: closed.session.user_address,
+      ...(disposition === 'refund' ? { refundStatus: 'owed' } : {}),
+    });
+  } catch (error) {
+    console.error('Close session error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
@@ -0,0 +1,107 @@
+/**
+ * Agent Heartbeat API
+ * POST /api/agents/[agentId]/heartbeat - Agent reports its load and health (signed, see
+ * lib/orchestrator/heartbeats.ts)
+ * GET /api/agents/[agentId]/heartbeat - Whether the agent currently takes new work
+ *
+ * The signer has to be the agent profile's address or its agent wallet. Heartbeats only move
+ * forward, one signed before the last accepted heartbeat is rejected.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { Address } from 'viem';
+import { getAgent, getAgentWallet, recordAgentHeartbeat } from '@/lib/supabase/agents';
+import {
+  getAgentCapacity,
+  recoverHeartbeatSigner,
+  validateAgentHeartbeat,
+  type SignedAgentHeartbeat,
+} from '@/lib/orchestrator/heartbeats';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ agentId: string }> }
+) {
+  try {
+    const { agentId } = await params;
+    const body: SignedAgentHeartbeat = await request.json();
+
+    const invalid = validateAgentHeartbeat(body);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    if (body.agentId !== agentId) {
+      return NextResponse.json({ error: 'agentId does not match the URL' }, { status: 400 });
+    }
+
+    const [agent, wallet] = await Promise.all([getAgent(agentId), getAgentWallet(agentId)]);
+    if (!agent) {
+      return NextResponse.json({ error: 'Agent not found' }, { status: 404 });
+    }
+
+    const addresses = [agent.address, wallet?.cdp_address].filter((address): address is Address => !!address);
+    const signer = await recoverHeartbeatSigner(body, addresses);
+    if (!signer) {
+      console.warn(`[Agent Heartbeat] Rejected unsigned or forged heartbeat for ${agentId}`);
+      return NextResponse.json({ error: 'Invalid heartbeat signature' }, { status: 401 });
+    }
+
+    const issuedAt = new Date(body.issuedAt * 1000);
+    const recorded = await recordAgentHeartbeat(agentId, {
+      activeJobs: body.activeJobs,
+      maxConcurrentJobs: body.maxConcurrentJobs,
+      health: body.health,
+      issuedAt,
+    });
+    if (!recorded) {
+      return NextResponse.json({ error: 'A newer heartbeat was already recorded' }, { status: 409 });
+    }
+
+    if (agent.health_status !== body.health) {
+      console.log(`[Agent Heartbeat] ${agentId} is now ${body.health}`);
+    }
+
+    return NextResponse.json({
+      success: true,
+      capacity: getAgentCapacity({
+        active_jobs: body.activeJobs,
+        max_concurrent_jobs: body.maxConcurrentJobs,
+        health_status: body.health,
+        last_heartbeat_at: issuedAt.toISOString(),
+      }),
+    });
+  } catch (error) {
+    console.error('Agent heartbeat error:', error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to record heartbeat',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ agentId: string }> }
+) {
+  try {
+    const { agentId } = await params;
+
+    const agent = await getAgent(agentId);
+    if (!agent) {
+      return NextResponse.json({ error: 'Agent not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ agentId, capacity: getAgentCapacity(agent) });
+  } catch (error) {
+    console.error('Get agent capacity error:', error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to get agent capacity',
+      },
+      { status: 500 }
+    );
+  }
+}
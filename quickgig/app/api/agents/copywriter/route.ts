@@ -4,14 +4,22 @@
  * Migrated from agents/copywriter-ai/index.ts to Vercel serverless
  */
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import axios from 'axios';
 import OpenAI from 'openai';
-
-const AGENT_ID = 'agent_copywriter_ai'; // Legacy ID
+import type { Address } from 'viem';
+import { withX402Paywall } from '@/lib/x402/next';
+import { getRegisteredTaskPricing, validateTaskPayment } from '@/lib/x402/agent-pricing';
+import { getCallbackSigner, signMissionCallback } from '@/lib/orchestrator/callbacks';
+import { formatUpstreamContext, type UpstreamOutput } from '@/lib/orchestrator/dag';
+import { getAgentByAddress } from '@/lib/supabase/agents';
+
+const AGENT_ID = 'agent_1760886159008_0qns6xy6u'; // CopyWriter AI profile - heartbeats are recorded against it
 const AGENT_NAME = 'CopyWriter AI';
-const ERC8004_AGENT_ID = '3'; // Official ERC-8004 NFT Token ID
-const CDP_WALLET = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const CDP_WALLET: Address = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+// Signs mission status callbacks - must be the key of the agent's registered wallet
+const CALLBACK_SIGNER = getCallbackSigner('COPYWRITER_AGENT_PRIVATE_KEY');
 
 // OpenAI client for GPT-4o
 const openai = new OpenAI({
@@ -30,114 +38,58 @@ interface ExecuteRequest {
   payment: number;
   requirements: Record<string, unknown>;
   callbackUrl: string;
+  upstream?: UpstreamOutput[]; // Outputs of agents this task depends on (DAG missions)
 }
 
 /**
  * Execute task endpoint with X402 Payment Required support
  */
-export async function POST(request: NextRequest) {
-  try {
-    const task: ExecuteRequest = await request.json();
-    const paymentProofHeader = request.headers.get('x-payment-proof');
-
+export const POST = withX402Paywall<ExecuteRequest>(
+  async (_request, { body: task, payment }) => {
     console.log(`[${AGENT_NAME}] Received task:`, task.missionId);
     console.log(`[${AGENT_NAME}] Description:`, task.description);
-    console.log(`[${AGENT_NAME}] Payment: ${task.payment} USDC`);
-
-    // Check for payment proof
-    if (!paymentProofHeader) {
-      console.log(`[${AGENT_NAME}] No payment proof - returning 402 Payment Required`);
-
-      // Return X402 Payment Required
-      const paymentRequest = {
-        amount: task.payment.toString(),
-        token: '0x036CbD53842c5426634e7929541eC2318f3dCF7e', // USDC on Base Sepolia
-        recipient: '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC', // CopyWriter AI wallet
-        chainId: 84532, // Base Sepolia
-        description: `Payment for copywriting - Mission ${task.missionId}`,
-      };
-
-      return NextResponse.json(
-        {
-          error: 'Payment required',
-          message: 'Please provide payment to execute this task',
-          agentId: AGENT_ID,
-          agentName: AGENT_NAME,
-        },
-        {
-          status: 402,
-          headers: {
-            'X-Payment-Required': JSON.stringify(paymentRequest),
-          },
-        }
-      );
-    }
+    console.log(`[${AGENT_NAME}] Payment verified from ${payment?.payer}! Executing task...`);
 
-    // Verify payment proof
-    try {
-      const paymentProof = JSON.parse(paymentProofHeader);
-      console.log(`[${AGENT_NAME}] Verifying payment proof:`, {
-        from: paymentProof.from,
-        to: paymentProof.to,
-        amount: paymentProof.amount,
-        txHash: paymentProof.txHash,
-      });
-
-      // TODO: Verify payment on-chain using viem
-      // For now, just check that proof exists and has required fields
-      if (!paymentProof.txHash || !paymentProof.amount || !paymentProof.from) {
-        throw new Error('Invalid payment proof format');
-      }
-
-      console.log(`[${AGENT_NAME}] Payment verified! Executing task...`);
-
-      // Execute task asynchronously (don't await)
-      executeTask(task).catch((error) => {
-        console.error(`[${AGENT_NAME}] Task execution failed:`, error);
-      });
-
-      // Respond immediately
-      return NextResponse.json({
-        success: true,
-        message: 'Payment accepted, task execution started',
-        agentId: AGENT_ID,
-        agentName: AGENT_NAME,
-        paymentReceived: paymentProof.amount,
-      });
-    } catch (error) {
-      console.error(`[${AGENT_NAME}] Payment verification failed:`, error);
-      return NextResponse.json(
-        {
-          error: 'Invalid payment proof',
-          message: error instanceof Error ? error.message : 'Payment verification failed',
-        },
-        { status: 400 }
-      );
-    }
-  } catch (error) {
-    console.error(`[${AGENT_NAME}] Request error:`, error);
-    return NextResponse.json(
-      {
-        error: 'Invalid request',
-        message: error instanceof Error ? error.message : 'Unknown error',
-      },
-      { status: 500 }
-    );
+    // Execute task asynchronously (don't await)
+    executeTask(task).catch((error) => {
+      console.error(`[${AGENT_NAME}] Task execution failed:`, error);
+    });
+
+    // Respond immediately
+    return NextResponse.json({
+      success: true,
+      message: 'Payment accepted, task execution started',
+      agentId: AGENT_ID,
+      agentName: AGENT_NAME,
+      paymentReceived: payment?.amount,
+    });
+  },
+  {
+    agentId: AGENT_ID,
+    agentName: AGENT_NAME,
+    recipient: CDP_WALLET,
+    // Registered price, not the caller's - task.payment is only the orchestrator's agreed price
+    pricing: () => getRegisteredTaskPricing(CDP_WALLET),
+    validate: validateTaskPayment,
+    description: (task) => `Payment for copywriting - Mission ${task.missionId}`,
   }
-}
+);
 
 /**
  * Health check endpoint
  */
 export async function GET() {
+  // ERC-8004 identity is linked on the agent's profile
+  const profile = await getAgentByAddress(CDP_WALLET).catch(() => null);
+
   return NextResponse.json({
     status: 'ok',
     agent: AGENT_NAME,
     agentId: AGENT_ID, // Legacy ID
-    erc8004AgentId: ERC8004_AGENT_ID, // Official ERC-8004 NFT ID
+    erc8004AgentId: profile?.erc8004_token_id ?? null, // Official ERC-8004 NFT ID
     cdpWallet: CDP_WALLET,
     capabilities: ['copywriting', 'content-writing', 'branding', 'marketing'],
-    officialRegistry: '0x8004AA63c570c570eBF15376c0dB199918BFe9Fb',
+    officialRegistry: profile?.erc8004_registry ?? null,
     timestamp: new Date().toISOString(),
   });
 }
@@ -182,11 +134,14 @@ Return ONLY valid JSON in this exact format (no markdown, no extra text):
   "targetAudience": "identified target audience"
 }`;
 
+    // Include deliverables from upstream agents (DAG missions)
+    const userPrompt = [task.description, formatUpstreamContext(task.upstream)].filter(Boolean).join('\n\n');
+
     const response = await openai.chat.completions.create({
       model: 'gpt-4o',
       messages: [
         { role: 'system', content: systemPrompt },
-        { role: 'user', content: task.description },
+        { role: 'user', content: userPrompt },
       ],
       temperature: 0.8,
       max_tokens: 1500,
@@ -257,7 +212,7 @@ async function uploadJSONToIPFS(jsonData: Record<string, unknown>, filename: str
 }
 
 /**
- * Update mission execution status via callback
+ * Update mission execution status via signed callback
  */
 async function updateStatus(
   task: ExecuteRequest,
@@ -266,29 +221,14 @@ async function updateStatus(
   resultData: Record<string, unknown> | null,
   errorMessage?: string
 ) {
-  try {
-    // Try to get execution ID from database
-    let executionId: number | undefined;
-
-    try {
-      const executionsResponse = await axios.get(
-        `${task.callbackUrl.replace('/update', '')}`
-      );
-      const executions = executionsResponse.data.executions || [];
-      const execution = executions.find((e: { agent_id: string }) => e.agent_id === task.agentId);
-
-      if (execution) {
-        executionId = execution.id;
-      } else {
-        console.warn(`[${AGENT_NAME}] Execution record not found for agent ${task.agentId}, calling update anyway`);
-      }
-    } catch (error) {
-      console.warn(`[${AGENT_NAME}] Failed to fetch execution record, calling update anyway:`, error);
-    }
+  if (!CALLBACK_SIGNER) {
+    console.error(`[${AGENT_NAME}] COPYWRITER_AGENT_PRIVATE_KEY not set, can't sign status update`);
+    return;
+  }
 
-    // Call update endpoint regardless (it will find/create execution if needed)
-    await axios.post(task.callbackUrl, {
-      executionId,
+  try {
+    const callback = await signMissionCallback(CALLBACK_SIGNER, {
+      missionId: task.missionId,
       agentId: task.agentId,
       status,
       deliverableUri,
@@ -296,6 +236,8 @@ async function updateStatus(
       errorMessage,
     });
 
+    await axios.post(task.callbackUrl, callback);
+
     console.log(`[${AGENT_NAME}] Status updated to: ${status}`);
   } catch (error) {
     console.error(`[${AGENT_NAME}] Failed to update status:`, error);
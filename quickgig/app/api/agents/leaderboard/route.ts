@@ -8,7 +8,7 @@ import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase/client';
 import { createPublicClient, http } from 'viem';
 import { baseSepolia } from 'viem/chains';
-import { getAgentById } from '@/lib/erc8004/unified-discovery';
+import { getAgentById, getLinkedTokenId } from '@/lib/erc8004/unified-discovery';
 
 // Helper function to add timeout to promises
 function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
@@ -36,17 +36,6 @@ export async function GET() {
       );
     }
 
-    // Transform to include ERC-8004 agent ID
-    // For existing agents, we have a mapping:
-    // LogoMaster AI → ID 2
-    // CopyWriter AI → ID 3
-    // SocialMedia AI → ID 4
-    const agentIdMapping: Record<string, string> = {
-      'agent_1760886157698_lzy2czh83': '2', // LogoMaster
-      'agent_1760886159008_0qns6xy6u': '3', // CopyWriter
-      'agent_1760886159300_zitacvck8': '4', // SocialMedia
-    };
-
     // Create blockchain client to fetch on-chain reputation data
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     let publicClient: any;
@@ -71,7 +60,8 @@ export async function GET() {
     // Fetch on-chain data for each agent
     const agentsWithReputation = await Promise.all(
       agents.map(async (agent) => {
-        const nftId = agentIdMapping[agent.id];
+        // ERC-8004 token linked on the profile at registration
+        const nftId = getLinkedTokenId(agent);
 
         // Helper to return DB data
         const returnDbData = () => ({
@@ -86,7 +76,7 @@ export async function GET() {
           avatarUrl: agent.avatar_url,
         });
 
-        // If no NFT mapping or blockchain unavailable, use DB data only
+        // If not registered on-chain or blockchain unavailable, use DB data only
         if (!nftId || !useOnChainData || !publicClient) {
           return returnDbData();
         }
@@ -4,15 +4,23 @@
  * Migrated from agents/logo-master/index.ts to Vercel serverless
  */
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import axios from 'axios';
 import OpenAI from 'openai';
+import type { Address } from 'viem';
 import FormData from 'form-data';
+import { withX402Paywall } from '@/lib/x402/next';
+import { getRegisteredTaskPricing, validateTaskPayment } from '@/lib/x402/agent-pricing';
+import { getCallbackSigner, signMissionCallback } from '@/lib/orchestrator/callbacks';
+import { findTagline, type UpstreamOutput } from '@/lib/orchestrator/dag';
+import { getAgentByAddress } from '@/lib/supabase/agents';
 
 const AGENT_ID = 'agent_1760886157698_lzy2czh83'; // LogoMaster AI (legacy)
 const AGENT_NAME = 'LogoMaster AI';
-const ERC8004_AGENT_ID = '2'; // Official ERC-8004 NFT Token ID
-const CDP_WALLET = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e';
+const CDP_WALLET: Address = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e';
+
+// Signs mission status callbacks - must be the key of the agent's registered wallet
+const CALLBACK_SIGNER = getCallbackSigner('LOGO_AGENT_PRIVATE_KEY');
 
 // OpenAI client for DALL-E
 const openai = new OpenAI({
@@ -31,114 +39,58 @@ interface ExecuteRequest {
   payment: number;
   requirements: Record<string, unknown>;
   callbackUrl: string;
+  upstream?: UpstreamOutput[]; // Outputs of agents this task depends on (DAG missions)
 }
 
 /**
  * Execute task endpoint with X402 Payment Required support
  */
-export async function POST(request: NextRequest) {
-  try {
-    const task: ExecuteRequest = await request.json();
-    const paymentProofHeader = request.headers.get('x-payment-proof');
-
+export const POST = withX402Paywall<ExecuteRequest>(
+  async (_request, { body: task, payment }) => {
     console.log(`[${AGENT_NAME}] Received task:`, task.missionId);
     console.log(`[${AGENT_NAME}] Description:`, task.description);
-    console.log(`[${AGENT_NAME}] Payment: ${task.payment} USDC`);
-
-    // Check for payment proof
-    if (!paymentProofHeader) {
-      console.log(`[${AGENT_NAME}] No payment proof - returning 402 Payment Required`);
-
-      // Return X402 Payment Required
-      const paymentRequest = {
-        amount: task.payment.toString(), // Amount in smallest unit (e.g., USDC with 6 decimals)
-        token: '0x036CbD53842c5426634e7929541eC2318f3dCF7e', // USDC on Base Sepolia
-        recipient: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e', // LogoMaster AI wallet
-        chainId: 84532, // Base Sepolia
-        description: `Payment for logo design - Mission ${task.missionId}`,
-      };
-
-      return NextResponse.json(
-        {
-          error: 'Payment required',
-          message: 'Please provide payment to execute this task',
-          agentId: AGENT_ID,
-          agentName: AGENT_NAME,
-        },
-        {
-          status: 402,
-          headers: {
-            'X-Payment-Required': JSON.stringify(paymentRequest),
-          },
-        }
-      );
-    }
+    console.log(`[${AGENT_NAME}] Payment verified from ${payment?.payer}! Executing task...`);
 
-    // Verify payment proof
-    try {
-      const paymentProof = JSON.parse(paymentProofHeader);
-      console.log(`[${AGENT_NAME}] Verifying payment proof:`, {
-        from: paymentProof.from,
-        to: paymentProof.to,
-        amount: paymentProof.amount,
-        txHash: paymentProof.txHash,
-      });
-
-      // TODO: Verify payment on-chain using viem
-      // For now, just check that proof exists and has required fields
-      if (!paymentProof.txHash || !paymentProof.amount || !paymentProof.from) {
-        throw new Error('Invalid payment proof format');
-      }
-
-      console.log(`[${AGENT_NAME}] Payment verified! Executing task...`);
-
-      // Execute task asynchronously (don't await)
-      executeTask(task).catch((error) => {
-        console.error(`[${AGENT_NAME}] Task execution failed:`, error);
-      });
-
-      // Respond immediately
-      return NextResponse.json({
-        success: true,
-        message: 'Payment accepted, task execution started',
-        agentId: AGENT_ID,
-        agentName: AGENT_NAME,
-        paymentReceived: paymentProof.amount,
-      });
-    } catch (error) {
-      console.error(`[${AGENT_NAME}] Payment verification failed:`, error);
-      return NextResponse.json(
-        {
-          error: 'Invalid payment proof',
-          message: error instanceof Error ? error.message : 'Payment verification failed',
-        },
-        { status: 400 }
-      );
-    }
-  } catch (error) {
-    console.error(`[${AGENT_NAME}] Request error:`, error);
-    return NextResponse.json(
-      {
-        error: 'Invalid request',
-        message: error instanceof Error ? error.message : 'Unknown error',
-      },
-      { status: 500 }
-    );
+    // Execute task asynchronously (don't await)
+    executeTask(task).catch((error) => {
+      console.error(`[${AGENT_NAME}] Task execution failed:`, error);
+    });
+
+    // Respond immediately
+    return NextResponse.json({
+      success: true,
+      message: 'Payment accepted, task execution started',
+      agentId: AGENT_ID,
+      agentName: AGENT_NAME,
+      paymentReceived: payment?.amount,
+    });
+  },
+  {
+    agentId: AGENT_ID,
+    agentName: AGENT_NAME,
+    recipient: CDP_WALLET,
+    // Registered price, not the caller's - task.payment is only the orchestrator's agreed price
+    pricing: () => getRegisteredTaskPricing(CDP_WALLET),
+    validate: validateTaskPayment,
+    description: (task) => `Payment for logo design - Mission ${task.missionId}`,
   }
-}
+);
 
 /**
  * Health check endpoint
  */
 export async function GET() {
+  // ERC-8004 identity is linked on the agent's profile
+  const profile = await getAgentByAddress(CDP_WALLET).catch(() => null);
+
   return NextResponse.json({
     status: 'ok',
     agent: AGENT_NAME,
     agentId: AGENT_ID, // Legacy ID
-    erc8004AgentId: ERC8004_AGENT_ID, // Official ERC-8004 NFT ID
+    erc8004AgentId: profile?.erc8004_token_id ?? null, // Official ERC-8004 NFT ID
     cdpWallet: CDP_WALLET,
     capabilities: ['logo-design', 'graphic-design', 'branding'],
-    officialRegistry: '0x8004AA63c570c570eBF15376c0dB199918BFe9Fb',
+    officialRegistry: profile?.erc8004_registry ?? null,
     timestamp: new Date().toISOString(),
   });
 }
@@ -159,9 +111,14 @@ async function executeTask(task: ExecuteRequest) {
       throw new Error('OPENAI_API_KEY not configured');
     }
 
+    // Use the copywriter's tagline when this task depends on one
+    const tagline = findTagline(task.upstream);
+
     const dalleResponse = await openai.images.generate({
       model: 'dall-e-3',
-      prompt: `Create a minimalist, professional logo based on this description: ${task.description}. The logo should be clean, modern, and suitable for business use. High quality, vector-style aesthetic.`,
+      prompt: `Create a minimalist, professional logo based on this description: ${task.description}.${
+        tagline ? ` The brand tagline is "${tagline}".` : ''
+      } The logo should be clean, modern, and suitable for business use. High quality, vector-style aesthetic.`,
       n: 1,
       size: '1024x1024',
       quality: 'hd',
@@ -238,7 +195,7 @@ async function uploadToIPFS(buffer: Buffer, filename: string): Promise<string> {
 }
 
 /**
- * Update mission execution status via callback
+ * Update mission execution status via signed callback
  */
 async function updateStatus(
   task: ExecuteRequest,
@@ -247,29 +204,14 @@ async function updateStatus(
   resultData: Record<string, unknown> | null,
   errorMessage?: string
 ) {
-  try {
-    // Try to get execution ID from database
-    let executionId: number | undefined;
-
-    try {
-      const executionsResponse = await axios.get(
-        `${task.callbackUrl.replace('/update', '')}`
-      );
-      const executions = executionsResponse.data.executions || [];
-      const execution = executions.find((e: { agent_id: string }) => e.agent_id === task.agentId);
-
-      if (execution) {
-        executionId = execution.id;
-      } else {
-        console.warn(`[${AGENT_NAME}] Execution record not found for agent ${task.agentId}, calling update anyway`);
-      }
-    } catch (error) {
-      console.warn(`[${AGENT_NAME}] Failed to fetch execution record, calling update anyway:`, error);
-    }
+  if (!CALLBACK_SIGNER) {
+    console.error(`[${AGENT_NAME}] LOGO_AGENT_PRIVATE_KEY not set, can't sign status update`);
+    return;
+  }
 
-    // Call update endpoint regardless (it will find/create execution if needed)
-    await axios.post(task.callbackUrl, {
-      executionId,
+  try {
+    const callback = await signMissionCallback(CALLBACK_SIGNER, {
+      missionId: task.missionId,
       agentId: task.agentId,
       status,
       deliverableUri,
@@ -277,6 +219,8 @@ async function updateStatus(
       errorMessage,
     });
 
+    await axios.post(task.callbackUrl, callback);
+
     console.log(`[${AGENT_NAME}] Status updated to: ${status}`);
   } catch (error) {
     console.error(`[${AGENT_NAME}] Failed to update status:`, error);
@@ -1,7 +1,9 @@
 /**
  * Agent Recommendation API
  * POST /api/agents/recommend
- * Returns recommended agents for given capabilities
+ * Returns recommended agents for given capabilities, ranked by the weighted ranking engine
+ * (on-chain reputation, completion rate, delivery time, disputes, price fit, queue depth)
+ * with each agent's score explained in `ranking`
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -9,28 +11,12 @@ import {
   recommendAgents,
   recommendMultipleAgents,
   calculateTotalCost,
+  type RecommendationSort,
   type RecommendedAgent,
 } from '@/lib/ai/agent-recommender';
-import { createPublicClient, http } from 'viem';
-import { baseSepolia } from 'viem/chains';
-import { getAgentById } from '@/lib/erc8004/unified-discovery';
-
-// Helper function to add timeout to promises
-function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
-  return Promise.race([
-    promise,
-    new Promise<T>((_, reject) =>
-      setTimeout(() => reject(new Error('Request timeout')), ms)
-    ),
-  ]);
-}
+import { resolveRankingWeights, type RankingWeights } from '@/lib/ai/agent-ranking';
 
-// Mapping of database agent IDs to ERC-8004 NFT IDs
-const AGENT_NFT_MAPPING: Record<string, string> = {
-  'agent_1760886157698_lzy2czh83': '2', // LogoMaster AI
-  'agent_1760886159008_0qns6xy6u': '3', // CopyWriter AI
-  'agent_1760886159300_zitacvck8': '4', // SocialMedia AI
-};
+const SORTS: RecommendationSort[] = ['score', 'reputation', 'price', 'speed'];
 
 export async function POST(request: NextRequest) {
   try {
@@ -38,7 +24,16 @@ export async function POST(request: NextRequest) {
       capabilities,
       minScore = 70,
       limit = 5,
-      sortBy = 'reputation',
+      sortBy = 'score',
+      budgets,
+      weights,
+    }: {
+      capabilities: string[];
+      minScore?: number;
+      limit?: number;
+      sortBy?: RecommendationSort;
+      budgets?: Record<string, number>;
+      weights?: Partial<RankingWeights>;
     } = await request.json();
 
     if (!capabilities || !Array.isArray(capabilities) || capabilities.length === 0) {
@@ -48,12 +43,31 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!SORTS.includes(sortBy)) {
+      return NextResponse.json(
+        { error: `sortBy must be one of: ${SORTS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    try {
+      resolveRankingWeights(weights);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid weights' },
+        { status: 400 }
+      );
+    }
+
     console.log('[Agent Recommend] Finding agents for:', capabilities);
 
     // Get recommendations for all capabilities
     const recommendations = await recommendMultipleAgents(capabilities, {
       minScore,
       limit,
+      sortBy,
+      budgets,
+      weights,
     });
 
     // Convert Map to object for JSON response
@@ -116,103 +130,43 @@ export async function GET(request: NextRequest) {
               capabilities: ['logo-design', 'copywriting'],
               minScore: 70,
               limit: 5,
-              sortBy: 'reputation | price | speed',
+              sortBy: 'score | reputation | price | speed',
+              budgets: { 'logo-design': 50 },
+              weights: resolveRankingWeights(),
             },
           },
-          GET: '?capability=logo-design&minScore=80&limit=3',
+          GET: '?capability=logo-design&minScore=80&limit=3&budget=50',
         },
+        ranking: 'Each agent has ranking.score (0-100) and ranking.factors with the weight, score and explanation of every factor',
       });
     }
 
     const minScore = parseInt(searchParams.get('minScore') || '70');
     const limit = parseInt(searchParams.get('limit') || '5');
-    const sortBy = (searchParams.get('sortBy') || 'reputation') as 'reputation' | 'price' | 'speed';
+    const sortBy = (searchParams.get('sortBy') || 'score') as RecommendationSort;
+    const budget = searchParams.get('budget') ? Number(searchParams.get('budget')) : undefined;
+
+    if (!SORTS.includes(sortBy)) {
+      return NextResponse.json(
+        { error: `sortBy must be one of: ${SORTS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (budget !== undefined && !(budget > 0)) {
+      return NextResponse.json({ error: 'budget must be a positive number' }, { status: 400 });
+    }
 
     const recommendation = await recommendAgents(capability, {
       minScore,
       limit,
       sortBy,
+      budget,
     });
 
-    // Enhance with on-chain ERC-8004 data
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    let publicClient: any;
-    let useOnChainData = true;
-
-    try {
-      const rpcUrl = process.env.NEXT_PUBLIC_ALCHEMY_RPC_URL;
-      if (!rpcUrl) {
-        console.warn('[Recommend] No RPC URL configured, using database data only');
-        useOnChainData = false;
-      } else {
-        publicClient = createPublicClient({
-          chain: baseSepolia,
-          transport: http(rpcUrl),
-        });
-      }
-    } catch (error) {
-      console.error('[Recommend] Failed to create blockchain client:', error);
-      useOnChainData = false;
-    }
-
-    const enhancedAgents = await Promise.all(
-      recommendation.agents.map(async (agent) => {
-        const nftId = AGENT_NFT_MAPPING[agent.agentId];
-
-        // Helper to return DB data
-        const returnDbData = () => ({
-          ...agent,
-          agentId: agent.agentId.toString(),
-        });
-
-        // If no NFT mapping or blockchain unavailable, return DB data only
-        if (!nftId || !useOnChainData || !publicClient) {
-          return returnDbData();
-        }
-
-        try {
-          // Fetch on-chain data with 10-second timeout
-          const onChainAgent = await withTimeout(
-            getAgentById(publicClient, nftId),
-            10000 // 10 second timeout
-          );
-
-          if (onChainAgent) {
-            // Merge on-chain reputation with DB data
-            // Calculate success rate from stars rating (stars/5 * 100)
-            const successRate = Math.round((onChainAgent.reputation.rating / 5) * 100);
-
-            return {
-              ...agent,
-              agentId: agent.agentId.toString(),
-              name: onChainAgent.name || agent.name,
-              reputation: {
-                score: onChainAgent.reputation.averageScore,
-                stars: onChainAgent.reputation.rating,
-                reviewCount: onChainAgent.reputation.count,
-                successRate: successRate, // Calculate from stars rating
-              },
-            };
-          }
-        } catch (error) {
-          // Gracefully fallback to DB data on any error
-          console.warn(`[Recommend] Blockchain unavailable for agent ${agent.agentId}, using DB data:`, error instanceof Error ? error.message : 'Unknown error');
-        }
-
-        // Fallback to DB data
-        return returnDbData();
-      })
-    );
-
-    // Convert BigInt agent IDs to strings for JSON serialization
-    const serializedRecommendation = {
-      ...recommendation,
-      agents: enhancedAgents,
-    };
-
     return NextResponse.json({
       success: true,
-      ...serializedRecommendation,
+      ...recommendation,
     });
   } catch (error) {
     console.error('[Agent Recommend] Error:', error);
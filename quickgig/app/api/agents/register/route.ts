@@ -1,13 +1,17 @@
 /**
  * Agent Registration API
  * POST /api/agents/register
- * Creates CDP wallet and registers agent on ERC-8004
+ * Creates CDP wallet, agent profile, and registers agent on ERC-8004
+ * The minted token ID is linked on the agent profile (erc8004_token_id)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getCdpWalletManager } from '@/lib/cdp';
-import { ERC8004_OFFICIAL } from '@/lib/erc8004/official-client';
+import { ERC8004_OFFICIAL, type AgentRegistration } from '@/lib/erc8004/official-client';
 import { getServerERC8004Client } from '@/lib/erc8004/server-client';
+import { createAgent, createAgentWallet, linkAgentErc8004 } from '@/lib/supabase/agents';
+import { getCapabilityTaxonomy } from '@/lib/supabase/capabilities';
+import { normalizeCapabilities } from '@/lib/capabilities/taxonomy';
 import { privateKeyToAccount } from 'viem/accounts';
 import axios from 'axios';
 
@@ -42,6 +46,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Store taxonomy slugs so discovery finds the agent under any synonym
+    body.capabilities = normalizeCapabilities(await getCapabilityTaxonomy(), body.capabilities);
+
     console.log('[Agent Registration] Starting registration:', {
       name: body.name,
       type: body.agentType,
@@ -79,7 +86,28 @@ export async function POST(request: NextRequest) {
       agentId = `${body.name.toLowerCase().replace(/\s+/g, '-')}-${Date.now()}`;
     }
 
-    // Step 2: Create metadata JSON
+    // Step 2: Create agent profile (before minting, so a token is never left without a profile)
+    await createAgent({
+      id: agentId,
+      name: body.name,
+      address: walletAddress as `0x${string}`,
+      capabilities: body.capabilities,
+      agentType: body.agentType,
+      pricingPerTask: body.metadata.pricing?.perTask,
+      bio: body.metadata.description,
+    });
+    console.log('[Agent Registration] Created agent profile:', agentId);
+
+    // The CDP wallet signs for the agent (e.g. ERC-8004 feedbackAuth)
+    if (body.agentType === 'ai') {
+      await createAgentWallet({
+        agent_id: agentId,
+        cdp_address: walletAddress as `0x${string}`,
+        network_id: process.env.NETWORK_ID || 'base-sepolia',
+      });
+    }
+
+    // Step 3: Create metadata JSON
     const metadataJson = {
       name: body.name,
       description: body.metadata.description,
@@ -93,7 +121,7 @@ export async function POST(request: NextRequest) {
       platform: 'SUPERMISSION'
     };
 
-    // Step 3: Upload to IPFS via Pinata
+    // Step 4: Upload to IPFS via Pinata
     console.log('[Agent Registration] Uploading metadata to IPFS...');
 
     const PINATA_JWT = process.env.PINATA_JWT;
@@ -122,16 +150,17 @@ export async function POST(request: NextRequest) {
       throw new Error('Failed to upload metadata to IPFS');
     }
 
-    // Step 4: Register on ERC-8004 Identity Registry (auto-register for AI agents)
+    // Step 5: Register on ERC-8004 Identity Registry (auto-register for AI agents)
     let erc8004AgentId: string | null = null;
     let registrationTxHash: string | null = null;
+    let registration: AgentRegistration | null = null;
 
     if (body.agentType === 'ai') {
       try {
         console.log('[Agent Registration] Registering on ERC-8004 Identity Registry...');
 
         const erc8004Client = getServerERC8004Client();
-        const registration = await erc8004Client.registerAgent(tokenUri);
+        registration = await erc8004Client.registerAgent(tokenUri);
 
         erc8004AgentId = registration.agentId.toString();
         registrationTxHash = registration.txHash;
@@ -144,6 +173,22 @@ export async function POST(request: NextRequest) {
         // Don't fail the entire registration - AI can still work without on-chain ID
         console.warn('[Agent Registration] Continuing without on-chain registration');
       }
+
+      // Step 6: Link the token to the agent profile
+      if (registration) {
+        try {
+          await linkAgentErc8004(agentId, {
+            tokenId: registration.agentId.toString(),
+            registry: ERC8004_OFFICIAL.IDENTITY_REGISTRY,
+            owner: registration.owner,
+            tokenUri,
+            registrationTx: registration.txHash,
+          });
+        } catch (error) {
+          // The token is minted - log what's needed to link it by hand
+          console.error(`[Agent Registration] Failed to link token ${erc8004AgentId} (tx ${registrationTxHash}):`, error);
+        }
+      }
     }
 
     return NextResponse.json({
@@ -192,7 +237,7 @@ export async function GET() {
     requiredFields: {
       name: 'Agent name',
       agentType: 'ai | human | hybrid',
-      capabilities: 'Array of capability strings',
+      capabilities: 'Array of capabilities (slugs, names or synonyms from GET /api/capabilities)',
       metadata: {
         description: 'Agent description',
         pricing: 'Optional pricing info',
@@ -206,6 +251,7 @@ export async function GET() {
       agentId: 'Unique agent identifier',
       walletAddress: 'CDP wallet address',
       metadataUri: 'IPFS metadata URI',
+      erc8004AgentId: 'ERC-8004 token ID (AI agents), linked on the agent profile',
       nextSteps: 'Instructions for on-chain registration',
     },
   });
@@ -4,7 +4,8 @@
  */
 
 import { NextResponse } from 'next/server';
-import { createAgent } from '@/lib/supabase/agents';
+import { createAgent, linkAgentErc8004 } from '@/lib/supabase/agents';
+import { ERC8004_OFFICIAL } from '@/lib/erc8004/official-client';
 import { supabaseAdmin } from '@/lib/supabase/client';
 
 export async function POST() {
@@ -21,6 +22,7 @@ export async function POST() {
         bio: 'AI-powered logo designer using DALL-E 3. Creates modern, minimalist logos in minutes. Powered by X402 micropayments.',
         avatarUrl: 'https://api.dicebear.com/7.x/bottts/svg?seed=logomaster',
         endpointUrl: 'https://supermission.fun/api/agents/logo-master',
+        erc8004TokenId: '2', // Registered on the official identity registry
       },
       {
         name: 'CopyWriter AI',
@@ -31,6 +33,7 @@ export async function POST() {
         bio: 'GPT-4o powered copywriter. Creates engaging taglines, brand copy, and marketing content. Powered by X402 micropayments.',
         avatarUrl: 'https://api.dicebear.com/7.x/bottts/svg?seed=copywriter',
         endpointUrl: 'https://supermission.fun/api/agents/copywriter',
+        erc8004TokenId: '3', // Registered on the official identity registry
       },
       {
         name: 'SocialMedia AI',
@@ -41,12 +44,13 @@ export async function POST() {
         bio: 'Social media content specialist. Generates 15-20 platform-optimized posts with hashtags. Powered by X402 micropayments.',
         avatarUrl: 'https://api.dicebear.com/7.x/bottts/svg?seed=socialmedia',
         endpointUrl: 'https://supermission.fun/api/agents/socialmedia',
+        erc8004TokenId: '4', // Registered on the official identity registry
       },
     ];
 
     const results = [];
 
-    for (const agentData of agents) {
+    for (const { erc8004TokenId, ...agentData } of agents) {
       try {
         // First, try to find existing agent by wallet address
         const { data: existingAgent } = await supabaseAdmin
@@ -73,11 +77,15 @@ export async function POST() {
             .single();
 
           if (updateError) throw updateError;
+          if (!updatedAgent.erc8004_token_id) {
+            await linkAgentErc8004(updatedAgent.id, { tokenId: erc8004TokenId, registry: ERC8004_OFFICIAL.IDENTITY_REGISTRY });
+          }
           console.log(`[Seed] ✅ Updated agent: ${updatedAgent.name} (${updatedAgent.id})`);
           results.push({ success: true, agent: updatedAgent.name, id: updatedAgent.id, action: 'updated' });
         } else {
           // Create new agent
           const agent = await createAgent(agentData);
+          await linkAgentErc8004(agent.id, { tokenId: erc8004TokenId, registry: ERC8004_OFFICIAL.IDENTITY_REGISTRY });
           console.log(`[Seed] ✅ Created agent: ${agent.name} (${agent.id})`);
           results.push({ success: true, agent: agent.name, id: agent.id, action: 'created' });
         }
@@ -0,0 +1,74 @@
+/**
+ * Arbitration Case Docket API
+ * Every SimpleArbitrator case from the indexed event history, with its linked bounty/gig/mission,
+ * evidence, votes, time left before finalizeIfExpired and appeal state
+ *
+ * Query params: filter (needs_vote|expiring|resolved), arbitrator (required for needs_vote,
+ * adds has_voted), hours (expiring window, default 24), page (from 1), limit (max 50)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { getDocketCounts, listDocket, type DocketFilter } from '@/lib/supabase/arbitration';
+
+const FILTERS: DocketFilter[] = ['needs_vote', 'expiring', 'resolved'];
+const MAX_LIMIT = 50;
+const MAX_EXPIRING_HOURS = 7 * 24; // The whole voting period
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const filter = searchParams.get('filter') as DocketFilter | null;
+    const arbitrator = searchParams.get('arbitrator');
+    const hoursParam = searchParams.get('hours');
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+    const limit = Math.min(MAX_LIMIT, Math.max(1, parseInt(searchParams.get('limit') || '20', 10) || 20));
+
+    if (filter && !FILTERS.includes(filter)) {
+      return NextResponse.json({ error: `Invalid filter: ${filter}` }, { status: 400 });
+    }
+    if (arbitrator && !isAddress(arbitrator)) {
+      return NextResponse.json({ error: 'Invalid address' }, { status: 400 });
+    }
+    if (filter === 'needs_vote' && !arbitrator) {
+      return NextResponse.json({ error: 'arbitrator is required for needs_vote' }, { status: 400 });
+    }
+
+    const hours = hoursParam ? Number(hoursParam) : undefined;
+    if (hours !== undefined && (!Number.isFinite(hours) || hours <= 0 || hours > MAX_EXPIRING_HOURS)) {
+      return NextResponse.json({ error: `hours must be between 0 and ${MAX_EXPIRING_HOURS}` }, { status: 400 });
+    }
+
+    const [{ cases, total }, counts] = await Promise.all([
+      listDocket(
+        {
+          filter: filter || undefined,
+          arbitrator: arbitrator || undefined,
+          expiringWithinHours: hours,
+        },
+        page,
+        limit
+      ),
+      // Per-tab counts ignore the filter
+      getDocketCounts(arbitrator || undefined, hours),
+    ]);
+
+    return NextResponse.json({
+      cases,
+      count: cases.length,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+      counts,
+    });
+  } catch (error) {
+    console.error('Arbitration docket error:', error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to list arbitration cases',
+      },
+      { status: 500 }
+    );
+  }
+}
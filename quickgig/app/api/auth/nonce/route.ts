@@ -0,0 +1,20 @@
+/**
+ * SIWE Nonce API
+ * GET /api/auth/nonce - Single-use nonce to put in a Sign-In with Ethereum message
+ */
+
+import { NextResponse } from 'next/server';
+import { issueSiweNonce } from '@/lib/auth/siwe';
+
+export async function GET() {
+  try {
+    const nonce = await issueSiweNonce();
+    return NextResponse.json({ nonce }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    console.error('Issue SIWE nonce error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to issue nonce' },
+      { status: 500 }
+    );
+  }
+}
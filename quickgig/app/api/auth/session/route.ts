@@ -0,0 +1,28 @@
+/**
+ * Wallet Session API
+ * GET /api/auth/session - The signed-in wallet (401 if there is none)
+ * DELETE /api/auth/session - Sign out
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { clearSessionCookie, getSession } from '@/lib/auth/session';
+
+export async function GET(request: NextRequest) {
+  const session = getSession(request);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  return NextResponse.json({
+    address: session.address,
+    chainId: session.chainId,
+    expiresAt: new Date(session.expiresAt * 1000).toISOString(),
+  });
+}
+
+export async function DELETE() {
+  const response = NextResponse.json({ success: true });
+  clearSessionCookie(response);
+  return response;
+}
@@ -0,0 +1,54 @@
+/**
+ * SIWE Login API
+ * POST /api/auth/verify - Verify a signed Sign-In with Ethereum message and start a session
+ * Body: { message: string, signature: `0x${string}` }
+ *
+ * Sets the HTTP-only session cookie read by client-scoped API routes
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { Hex } from 'viem';
+import { verifySiweLogin } from '@/lib/auth/siwe';
+import { createSessionToken, setSessionCookie } from '@/lib/auth/session';
+
+interface VerifyRequest {
+  message: string;
+  signature: Hex;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: VerifyRequest = await request.json();
+
+    if (!body.message || !body.signature) {
+      return NextResponse.json({ error: 'message and signature are required' }, { status: 400 });
+    }
+
+    const result = await verifySiweLogin({
+      message: body.message,
+      signature: body.signature,
+      domain: request.headers.get('host') || request.nextUrl.host,
+    });
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 401 });
+    }
+
+    const { token, expiresAt } = createSessionToken(result.address, result.chainId);
+    console.log(`[Auth] Signed in ${result.address} on chain ${result.chainId}`);
+
+    const response = NextResponse.json({
+      address: result.address,
+      chainId: result.chainId,
+      expiresAt: new Date(expiresAt * 1000).toISOString(),
+    });
+    setSessionCookie(response, token, expiresAt);
+    return response;
+  } catch (error) {
+    console.error('SIWE verify error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to verify sign-in' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,27 @@
 /**
  * Chat Messages API
- * Save and load chat messages
+ * Save and load chat messages of the signed-in wallet's sessions
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { saveMessage, getMessages, toAppMessage, toDbMessage } from '@/lib/supabase/chat';
+import { saveMessage, getMessages, toAppMessage, toDbMessage, type DisplayedChatMessage } from '@/lib/supabase/chat';
 import type { Message } from '@/lib/store/chat';
+import { getSession, isSessionAddress } from '@/lib/auth/session';
+import { getSessionStore } from '@/lib/storage/session-store';
+
+// Tool results and system prompts are only written by the server - the chat engine replays them to the model
+const CLIENT_ROLES: Message['role'][] = ['user', 'assistant'];
+
+/**
+ * Check that a chat session belongs to the request's signed-in wallet
+ */
+async function ownsChatSession(request: NextRequest, sessionId: string): Promise<boolean> {
+  const wallet = getSession(request);
+  if (!wallet) return false;
+
+  const session = await getSessionStore().getSession(sessionId);
+  return !!session && isSessionAddress(wallet, session.user_address);
+}
 
 export async function GET(request: NextRequest) {
   try {
@@ -16,6 +32,10 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Session ID required' }, { status: 400 });
     }
 
+    if (!(await ownsChatSession(request, sessionId))) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
     const messages = await getMessages(sessionId, limit);
     const appMessages = messages.map(toAppMessage);
 
@@ -38,9 +58,17 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Session ID and message required' }, { status: 400 });
     }
 
+    if (!CLIENT_ROLES.includes(message.role)) {
+      return NextResponse.json({ error: `role must be one of: ${CLIENT_ROLES.join(', ')}` }, { status: 400 });
+    }
+
+    if (!(await ownsChatSession(request, sessionId))) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
     const dbMessage = toDbMessage(message, sessionId);
     const savedMessage = await saveMessage(dbMessage);
-    const appMessage = toAppMessage(savedMessage);
+    const appMessage = toAppMessage(savedMessage as DisplayedChatMessage);
 
     return NextResponse.json({ message: appMessage });
   } catch (error) {
@@ -1,201 +1,97 @@
+/**
+ * Chat API
+ * POST /api/chat - One turn of the assistant conversation in a chat session of the signed-in wallet
+ *
+ * Body: { sessionId, message?, toolResults? }. The reply lists the actions the assistant wants
+ * to take (validated against their tool schemas, see lib/ai/chat-tools.ts) for the user to
+ * confirm; their outcome is POSTed back as toolResults.
+ *
+ * With `Accept: text/event-stream` the reply is streamed (see lib/ai/chat-stream.ts): text deltas,
+ * tool_call events as tools run or wait for confirmation, then the complete message.
+ */
+
 import { NextRequest, NextResponse } from 'next/server';
-import { OpenAI } from 'openai';
-
-const openai = new OpenAI({
-  baseURL: 'https://openrouter.ai/api/v1',
-  apiKey: process.env.OPENROUTER_API_KEY || '',
-  defaultHeaders: {
-    'HTTP-Referer': process.env.NEXT_PUBLIC_SITE_URL || '',
-    'X-Title': process.env.NEXT_PUBLIC_SITE_NAME || '',
-  },
-});
-
-// Tool definitions for OpenAI tools (modern API, replaces deprecated function calling)
-const tools = [
-  {
-    type: 'function' as const,
-    function: {
-      name: 'createBounty',
-      description: 'Create a new bounty for a task that multiple workers can bid on',
-      parameters: {
-        type: 'object',
-        properties: {
-          requirements: {
-            type: 'string',
-            description: 'Detailed description of the work required',
-          },
-          amount: {
-            type: 'number',
-            description: 'Payment amount in USDC (e.g., 50 for $50)',
-          },
-          deadline: {
-            type: 'number',
-            description: 'Number of days until deadline',
-          },
-        },
-        required: ['requirements', 'amount', 'deadline'],
-      },
-    },
-  },
-  {
-    type: 'function' as const,
-    function: {
-      name: 'createGig',
-      description: 'Create a direct 1-on-1 gig with a specific worker',
-      parameters: {
-        type: 'object',
-        properties: {
-          workerAddress: {
-            type: 'string',
-            description: 'Ethereum address of the worker (0x...)',
-          },
-          milestones: {
-            type: 'array',
-            items: {
-              type: 'object',
-              properties: {
-                description: {
-                  type: 'string',
-                  description: 'Milestone description',
-                },
-                amount: {
-                  type: 'number',
-                  description: 'Payment amount in USDC for this milestone',
-                },
-              },
-            },
-            description: 'Array of milestones with descriptions and amounts',
-          },
-        },
-        required: ['workerAddress', 'milestones'],
-      },
-    },
-  },
-  {
-    type: 'function' as const,
-    function: {
-      name: 'listBounties',
-      description: 'List all open bounties or filter by criteria',
-      parameters: {
-        type: 'object',
-        properties: {
-          status: {
-            type: 'string',
-            enum: ['open', 'assigned', 'completed'],
-            description: 'Filter by bounty status',
-          },
-        },
-      },
-    },
-  },
-  {
-    type: 'function' as const,
-    function: {
-      name: 'submitBid',
-      description: 'Submit a bid on an existing bounty',
-      parameters: {
-        type: 'object',
-        properties: {
-          bountyId: {
-            type: 'number',
-            description: 'ID of the bounty to bid on',
-          },
-          amount: {
-            type: 'number',
-            description: 'Bid amount in USDC',
-          },
-          proposal: {
-            type: 'string',
-            description: 'Brief proposal explaining your approach',
-          },
-        },
-        required: ['bountyId', 'amount', 'proposal'],
-      },
-    },
-  },
-];
+import { runChatTurn } from '@/lib/ai/chat-engine';
+import { createChatEventStream, wantsEventStream } from '@/lib/ai/chat-stream';
+import {
+  validateToolArguments,
+  type ChatToolArgs,
+  type ChatToolResult,
+  type PendingAction,
+} from '@/lib/ai/chat-tools';
+import { getSession, isSessionAddress } from '@/lib/auth/session';
+import { getSessionStore } from '@/lib/storage/session-store';
+
+interface ChatRequest {
+  sessionId?: string;
+  message?: string;
+  toolResults?: ChatToolResult[];
+}
 
 export async function POST(request: NextRequest) {
   try {
-    const { message } = await request.json();
+    const wallet = getSession(request);
+    if (!wallet) {
+      return NextResponse.json({ error: 'Sign in with your wallet first' }, { status: 401 });
+    }
+
+    const { sessionId, message, toolResults }: ChatRequest = await request.json();
+
+    if (!sessionId) {
+      return NextResponse.json({ error: 'Session ID required' }, { status: 400 });
+    }
 
-    if (!message || typeof message !== 'string') {
-      return NextResponse.json(
-        { error: 'Message is required' },
-        { status: 400 }
-      );
+    if (message !== undefined && (typeof message !== 'string' || !message.trim())) {
+      return NextResponse.json({ error: 'Message must be a non-empty string' }, { status: 400 });
+    }
+
+    if (toolResults !== undefined && (!Array.isArray(toolResults) || toolResults.some((result) => !result?.toolCallId))) {
+      return NextResponse.json({ error: 'toolResults must be a list of { toolCallId, result | error }' }, { status: 400 });
+    }
+
+    if (!message && !toolResults?.length) {
+      return NextResponse.json({ error: 'Message is required' }, { status: 400 });
+    }
+
+    const session = await getSessionStore().getSession(sessionId);
+    if (!session || !isSessionAddress(wallet, session.user_address)) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
     }
 
     if (!process.env.OPENROUTER_API_KEY) {
-      return NextResponse.json(
-        {
-          message: 'OpenRouter API key not configured. Using mock response for development.',
-          metadata: {
-            functionCall: {
-              name: 'createBounty',
-              arguments: {
-                requirements: message,
-                amount: 50,
-                deadline: 7,
-              },
-            },
-          },
-        },
-        { status: 200 }
-      );
+      const mock = message ? validateToolArguments('createBounty', { requirements: message, amount: 50, deadline: 7 }) : null;
+      const pendingActions: PendingAction[] = mock?.ok
+        ? [{ toolCallId: `mock_${Date.now()}`, name: 'createBounty', arguments: mock.arguments as ChatToolArgs<'createBounty'> }]
+        : [];
+
+      return NextResponse.json({
+        message: message ? 'OpenRouter API key not configured. Using mock response for development.' : null,
+        metadata: { pendingActions },
+      });
     }
 
-    // Call OpenRouter with tools (modern API - replaces deprecated function calling)
-    // Using openai/gpt-4o-mini via OpenRouter
-    const completion = await openai.chat.completions.create({
-      model: 'openai/gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content: `You are QUICKGIG AI, an assistant for an autonomous agent marketplace on Base blockchain.
-
-Help users deploy missions for tasks like logo design, copywriting, web development, social media, and any creative/technical work.
-
-Be SHORT and direct - 1-2 sentences max.
-
-Use tools when users want to take actions. For amounts like "$50" or "fifty dollars" - extract the number.
-
-NO long explanations. NO headings. NO bullet lists. Just quick, helpful responses.`,
-        },
-        {
-          role: 'user',
-          content: message,
-        },
-      ],
-      tools: tools,
-      tool_choice: 'auto',
-    });
+    const input = { sessionId, message: message?.trim(), toolResults };
+    const context = { userAddress: wallet.address };
+
+    if (wantsEventStream(request)) {
+      return createChatEventStream(request, async (send, signal) => {
+        send('session', { sessionId });
 
-    const responseMessage = completion.choices[0].message;
-
-    // Check if tool was called (modern API)
-    if (responseMessage.tool_calls && responseMessage.tool_calls.length > 0) {
-      const toolCall = responseMessage.tool_calls[0];
-      // Type guard: Check if this is a function tool call
-      if ('function' in toolCall && toolCall.function) {
-        const functionName = toolCall.function.name;
-        const functionArgs = JSON.parse(toolCall.function.arguments);
-
-        return NextResponse.json({
-          message: `I'll help you ${functionName.replace(/([A-Z])/g, ' $1').toLowerCase()}. Please review the details below and confirm.`,
-          metadata: {
-            functionCall: {
-              name: functionName,
-              arguments: functionArgs,
-            },
-          },
+        const turn = await runChatTurn(input, context, {
+          signal,
+          onDelta: (content) => send('delta', { content }),
+          onToolCall: (event) => send('tool_call', { ...event }),
         });
-      }
+
+        send('message', { message: turn.message, metadata: { pendingActions: turn.pendingActions } });
+      });
     }
 
-    // Regular text response
+    const turn = await runChatTurn(input, context);
+
     return NextResponse.json({
-      message: responseMessage.content || 'I can help you with bounties and gigs. What would you like to do?',
+      message: turn.message,
+      metadata: { pendingActions: turn.pendingActions },
     });
   } catch (error) {
     console.error('Chat API error:', error);
@@ -1,22 +1,32 @@
 /**
  * Chat Sessions API
- * Manage X402 payment sessions
+ * Read and consume X402 payment sessions of the signed-in wallet (SIWE session)
+ * Sessions are only created by /api/agent/chat after a verified payment - clients can't
+ * create them or change their limits here
+ * Backend (memory, Supabase or Redis) is picked by getSessionStore()
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createSession, getSession, updateSession } from '@/lib/supabase/chat';
+import { getSessionStore } from '@/lib/storage/session-store';
+import { getSession, isSessionAddress } from '@/lib/auth/session';
 
 export async function GET(request: NextRequest) {
   try {
+    const wallet = getSession(request);
     const sessionId = request.nextUrl.searchParams.get('sessionId');
 
+    if (!wallet) {
+      return NextResponse.json({ error: 'Sign in with your wallet first' }, { status: 401 });
+    }
+
     if (!sessionId) {
       return NextResponse.json({ error: 'Session ID required' }, { status: 400 });
     }
 
-    const session = await getSession(sessionId);
+    const session = await getSessionStore().getSession(sessionId);
 
-    if (!session) {
+    // Other wallets' sessions look the same as missing ones
+    if (!session || !isSessionAddress(wallet, session.user_address)) {
       return NextResponse.json({ error: 'Session not found' }, { status: 404 });
     }
 
@@ -35,44 +45,34 @@ export async function GET(request: NextRequest) {
   }
 }
 
-export async function POST(request: NextRequest) {
+export async function PATCH(request: NextRequest) {
   try {
+    const wallet = getSession(request);
     const body = await request.json();
-    const { session_id, user_address, agent_id, messages_remaining, total_paid, expires_at } = body;
+    const { session_id, consume_message } = body;
 
-    if (!session_id || !user_address || !expires_at) {
-      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    if (!wallet) {
+      return NextResponse.json({ error: 'Sign in with your wallet first' }, { status: 401 });
     }
 
-    const session = await createSession({
-      session_id,
-      user_address,
-      agent_id: agent_id || 'quickgig-ai-agent',
-      messages_remaining: messages_remaining || 10,
-      total_paid: total_paid || '0',
-      expires_at,
-    });
-
-    return NextResponse.json(session);
-  } catch (error) {
-    console.error('Create session error:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Internal server error' },
-      { status: 500 }
-    );
-  }
-}
-
-export async function PATCH(request: NextRequest) {
-  try {
-    const body = await request.json();
-    const { session_id, ...updates } = body;
-
     if (!session_id) {
       return NextResponse.json({ error: 'Session ID required' }, { status: 400 });
     }
 
-    const session = await updateSession(session_id, updates);
+    if (consume_message !== true) {
+      return NextResponse.json({ error: 'Only consume_message is supported' }, { status: 400 });
+    }
+
+    const existing = await getSessionStore().getSession(session_id);
+    if (!existing || !isSessionAddress(wallet, existing.user_address)) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    // Decrement atomically in the store instead of read-then-update
+    const session = await getSessionStore().consumeMessage(session_id);
+    if (!session) {
+      return NextResponse.json({ error: 'Session expired or out of messages' }, { status: 409 });
+    }
 
     return NextResponse.json(session);
   } catch (error) {
@@ -0,0 +1,103 @@
+/**
+ * Dispute Evidence Bundle API
+ * POST builds an evidence bundle for a bounty, gig milestone or mission dispute and pins it to IPFS
+ * (signed-in client or worker only). Body: { subject, statement? } where subject is
+ * { type: 'bounty', bountyId } | { type: 'gig', gigId, milestoneIndex } | { type: 'mission', missionId }
+ *
+ * GET fetches a pinned bundle and checks its hashes, for arbitrators
+ * Query params: uri (ipfs://), refetch (1 to also re-hash files that were only referenced)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/session';
+import {
+  buildEvidenceBundle,
+  isDisputeParty,
+  loadDisputeContext,
+  parseDisputeSubject,
+  pinEvidenceBundle,
+  verifyEvidenceBundle,
+  type EvidenceBundle,
+} from '@/lib/disputes/evidence-bundle';
+import { ipfsToHttp } from '@/lib/utils';
+
+const MAX_STATEMENT_LENGTH = 5000;
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = getSession(request);
+    if (!session) {
+      return NextResponse.json({ error: 'Sign in with your wallet first' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const subject = parseDisputeSubject(body.subject);
+    if (!subject) {
+      return NextResponse.json({ error: 'Invalid dispute subject' }, { status: 400 });
+    }
+
+    const statement = typeof body.statement === 'string' ? body.statement.trim() : undefined;
+    if (statement && statement.length > MAX_STATEMENT_LENGTH) {
+      return NextResponse.json({ error: `Statement is limited to ${MAX_STATEMENT_LENGTH} characters` }, { status: 400 });
+    }
+
+    const context = await loadDisputeContext(subject);
+    if (!context) {
+      return NextResponse.json({ error: `${subject.type} not found` }, { status: 404 });
+    }
+    if (!isDisputeParty(context, session.address)) {
+      return NextResponse.json({ error: 'Only the client or worker can submit evidence' }, { status: 403 });
+    }
+
+    const bundle = await buildEvidenceBundle(context, { submittedBy: session.address, statement });
+    const uri = await pinEvidenceBundle(bundle);
+
+    return NextResponse.json({
+      uri,
+      rootHash: bundle.manifest.rootHash,
+      manifest: bundle.manifest,
+      // SimpleArbitrator case to submitEvidence to, if the dispute already went to arbitration
+      caseId: context.type === 'bounty' ? context.bounty.dispute_case_id : null,
+    });
+  } catch (error) {
+    console.error('Evidence bundle error:', error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to build evidence bundle',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const uri = searchParams.get('uri');
+    if (!uri || !/^ipfs:\/\/[A-Za-z0-9]+$/.test(uri)) {
+      return NextResponse.json({ error: 'uri must be an ipfs:// CID' }, { status: 400 });
+    }
+
+    const response = await fetch(ipfsToHttp(uri), { signal: AbortSignal.timeout(15000) });
+    if (!response.ok) {
+      return NextResponse.json({ error: `Failed to fetch bundle: ${response.status}` }, { status: 502 });
+    }
+
+    const bundle = (await response.json()) as EvidenceBundle;
+    if (!bundle || !Array.isArray(bundle.items) || !bundle.manifest) {
+      return NextResponse.json({ error: 'Not an evidence bundle' }, { status: 400 });
+    }
+
+    const verification = await verifyEvidenceBundle(bundle, { refetchSources: searchParams.get('refetch') === '1' });
+
+    return NextResponse.json({ bundle, verification });
+  } catch (error) {
+    console.error('Evidence bundle verification error:', error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to verify evidence bundle',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Dispute Review Response API
+ * POST /api/disputes/review/[reviewId]/respond - The signed-in client or worker accepts the
+ * suggested split or escalates to SimpleArbitrator/UMA. Body: { response: 'accept' | 'escalate' }
+ *
+ * Any escalation escalates the review; it is accepted once every party accepted (just the
+ * client for missions). Each party answers once.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, isSessionAddress } from '@/lib/auth/session';
+import {
+  getDisputeReviewById,
+  respondToDisputeReview,
+  type DisputeReviewResponse,
+} from '@/lib/supabase/dispute-reviews';
+
+const RESPONSES: DisputeReviewResponse[] = ['accept', 'escalate'];
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ reviewId: string }> }
+) {
+  try {
+    const { reviewId } = await params;
+    const session = getSession(request);
+    if (!session) {
+      return NextResponse.json({ error: 'Sign in with your wallet first' }, { status: 401 });
+    }
+
+    const { response } = await request.json();
+    if (!RESPONSES.includes(response)) {
+      return NextResponse.json({ error: `response must be one of: ${RESPONSES.join(', ')}` }, { status: 400 });
+    }
+
+    const review = await getDisputeReviewById(reviewId);
+    if (!review) {
+      return NextResponse.json({ error: 'Review not found' }, { status: 404 });
+    }
+    if (!isSessionAddress(session, review.client_address) && !isSessionAddress(session, review.worker_address)) {
+      return NextResponse.json({ error: 'Only the client or worker can respond' }, { status: 403 });
+    }
+
+    const updated = await respondToDisputeReview(reviewId, session.address, response);
+    if (!updated) {
+      return NextResponse.json(
+        { error: review.status === 'open' ? 'You already responded to this review' : `Review is already ${review.status}` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ review: updated });
+  } catch (error) {
+    console.error('Dispute review response error:', error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to respond to dispute review',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Dispute Pre-Review API
+ * POST /api/disputes/review - Run the automated pre-review of a dispute (or return the one it
+ * already has). Body: { subject } as in /api/disputes/evidence
+ * GET /api/disputes/review - The dispute's review, null if nobody asked for one yet
+ * Query params: type (bounty|gig|mission), id (bounty, gig or mission ID), milestone (gigs)
+ *
+ * Signed-in client or worker of the dispute only
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/session';
+import {
+  disputeSubjectKey,
+  isDisputeParty,
+  loadDisputeContext,
+  parseDisputeSubject,
+} from '@/lib/disputes/evidence-bundle';
+import { hasDeliverable, runDisputePreReview } from '@/lib/disputes/pre-review';
+import { getDisputeReview } from '@/lib/supabase/dispute-reviews';
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = getSession(request);
+    if (!session) {
+      return NextResponse.json({ error: 'Sign in with your wallet first' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const subject = parseDisputeSubject(body.subject);
+    if (!subject) {
+      return NextResponse.json({ error: 'Invalid dispute subject' }, { status: 400 });
+    }
+
+    const context = await loadDisputeContext(subject);
+    if (!context) {
+      return NextResponse.json({ error: `${subject.type} not found` }, { status: 404 });
+    }
+    if (!isDisputeParty(context, session.address)) {
+      return NextResponse.json({ error: 'Only the client or worker can request a review' }, { status: 403 });
+    }
+    if (!hasDeliverable(context)) {
+      return NextResponse.json({ error: 'Nothing has been delivered yet' }, { status: 400 });
+    }
+
+    const review = await runDisputePreReview(context, session.address);
+
+    return NextResponse.json({ review });
+  } catch (error) {
+    console.error('Dispute review error:', error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to review dispute',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = getSession(request);
+    if (!session) {
+      return NextResponse.json({ error: 'Sign in with your wallet first' }, { status: 401 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const type = searchParams.get('type');
+    const id = searchParams.get('id');
+    const subject = parseDisputeSubject(
+      type === 'mission'
+        ? { type, missionId: id }
+        : { type, bountyId: Number(id), gigId: Number(id), milestoneIndex: Number(searchParams.get('milestone')) }
+    );
+    if (!id || !subject) {
+      return NextResponse.json({ error: 'Invalid dispute subject' }, { status: 400 });
+    }
+
+    const context = await loadDisputeContext(subject);
+    if (!context) {
+      return NextResponse.json({ error: `${subject.type} not found` }, { status: 404 });
+    }
+    if (!isDisputeParty(context, session.address)) {
+      return NextResponse.json({ error: 'Only the client or worker can view the review' }, { status: 403 });
+    }
+
+    const review = await getDisputeReview(disputeSubjectKey(subject));
+
+    return NextResponse.json({ review });
+  } catch (error) {
+    console.error('Dispute review error:', error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to get dispute review',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -8,6 +8,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import axios from 'axios';
 import { getMissionWithDetails, updateMissionStatus } from '@/lib/supabase/missions';
 import { getAgent } from '@/lib/supabase/agents';
+import { parseUnits } from 'viem';
+import { getDefaultChainId, getDefaultToken } from '@/lib/x402/chains';
 
 export async function POST(
   request: NextRequest,
@@ -69,12 +71,16 @@ export async function POST(
     if (!paymentProofHeader) {
       console.log(`[Client Execute] No payment proof - returning 402`);
 
-      // Return X402 Payment Required
+      // Return X402 Payment Required (priced in the default chain's USDC)
+      const chainId = getDefaultChainId();
+      const token = getDefaultToken(chainId);
       const paymentRequest = {
-        amount: (firstAgent.payment_amount * 1e6).toString(), // Convert to USDC units (6 decimals)
-        token: '0x036CbD53842c5426634e7929541eC2318f3dCF7e', // USDC on Base Sepolia
+        amount: parseUnits(firstAgent.payment_amount.toString(), token.decimals).toString(),
+        token: token.address,
         recipient: agentProfile.address,
-        chainId: 84532, // Base Sepolia
+        chainId,
+        decimals: token.decimals,
+        symbol: token.symbol,
         description: `Payment for ${firstAgent.capability} - Mission ${missionId}`,
       };
 
@@ -120,7 +126,7 @@ export async function POST(
           agentId: firstAgent.agent_id,
           description: mission.description,
           capability: firstAgent.capability,
-          payment: firstAgent.payment_amount * 1e6,
+          payment: firstAgent.payment_amount, // Agents price tasks in decimal USDC
           requirements: firstAgent.requirements,
           callbackUrl: `${process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'}/api/missions/${missionId}/update`,
         },
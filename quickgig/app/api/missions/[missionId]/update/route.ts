@@ -1,24 +1,29 @@
 /**
  * Mission Status Update API
- * Allows orchestrator and agents to update mission execution status
+ * Agents report step progress here (the callbackUrl of their task)
+ *
+ * Callbacks must be signed with the agent's registered wallet (EIP-712, see
+ * lib/orchestrator/callbacks.ts). The signer has to be the agent profile's address or its
+ * agent wallet, every nonce is accepted once, and finished executions can't change again.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import type { Address } from 'viem';
 import {
   updateMissionStatus,
-  updateExecution,
+  transitionExecution,
   getMissionExecutions,
+  getExecutionByMissionAndAgent,
+  consumeCallbackNonce,
+  type MissionExecution,
 } from '@/lib/supabase/missions';
-import { createDeliverable } from '@/lib/supabase/agents';
-
-interface UpdateMissionRequest {
-  executionId?: number;
-  agentId?: string;
-  status?: 'executing' | 'completed' | 'failed';
-  deliverableUri?: string;
-  resultData?: Record<string, unknown>;
-  errorMessage?: string;
-}
+import { createDeliverable, getAgent, getAgentWallet } from '@/lib/supabase/agents';
+import {
+  isAllowedCallbackTransition,
+  recoverCallbackSigner,
+  validateMissionCallback,
+  type SignedMissionCallback,
+} from '@/lib/orchestrator/callbacks';
 
 export async function POST(
   request: NextRequest,
@@ -26,68 +31,93 @@ export async function POST(
 ) {
   try {
     const { missionId } = await params;
-    const body: UpdateMissionRequest = await request.json();
-
-    console.log(`[Mission Update] Mission ${missionId}:`, body);
-
-    // If no executionId provided but agentId is, try to find execution
-    let executionId = body.executionId;
-    if (!executionId && body.agentId) {
-      try {
-        const executions = await getMissionExecutions(missionId);
-        const execution = executions.find(e => e.agent_id === body.agentId);
-        if (execution) {
-          executionId = execution.id;
-          console.log(`[Mission Update] Found execution ID ${executionId} for agent ${body.agentId}`);
-        } else {
-          console.warn(`[Mission Update] No execution found for agent ${body.agentId}, will still update mission status`);
-        }
-      } catch (error) {
-        console.warn(`[Mission Update] Failed to find execution for agent ${body.agentId}:`, error);
-      }
+    const body: SignedMissionCallback = await request.json();
+
+    console.log(`[Mission Update] Mission ${missionId}: ${body.agentId} -> ${body.status}`);
+
+    const invalid = validateMissionCallback(body);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    // Only the agent's own registered wallets may report for it
+    const [agent, wallet] = await Promise.all([getAgent(body.agentId), getAgentWallet(body.agentId)]);
+    if (!agent) {
+      return NextResponse.json({ error: 'Agent not found' }, { status: 404 });
     }
 
-    // Update execution if executionId available
-    if (executionId) {
-      const updates: {
-        status?: 'executing' | 'completed' | 'failed';
-        deliverable_uri?: string;
-        result_data?: Record<string, unknown>;
-        error_message?: string;
-        started_at?: string;
-        completed_at?: string;
-      } = {
-        status: body.status,
-        deliverable_uri: body.deliverableUri,
-        result_data: body.resultData,
-        error_message: body.errorMessage,
-      };
-
-      if (body.status === 'executing') {
-        updates.started_at = new Date().toISOString();
-      } else if (body.status === 'completed' || body.status === 'failed') {
-        updates.completed_at = new Date().toISOString();
-      }
-
-      await updateExecution(executionId, updates);
-
-      // Create deliverable record if URI provided
-      if (body.deliverableUri && body.agentId) {
-        await createDeliverable({
-          mission_id: missionId,
-          agent_id: body.agentId,
-          ipfs_hash: body.deliverableUri,
-          metadata: body.resultData,
-        });
-      }
+    const addresses = [agent.address, wallet?.cdp_address].filter((address): address is Address => !!address);
+    const signer = await recoverCallbackSigner(missionId, body, addresses);
+    if (!signer) {
+      console.warn(`[Mission Update] Rejected unsigned or forged callback for ${body.agentId}`);
+      return NextResponse.json({ error: 'Invalid callback signature' }, { status: 401 });
+    }
+
+    const execution = await getExecutionByMissionAndAgent(missionId, body.agentId);
+    if (!execution?.id) {
+      return NextResponse.json({ error: 'Execution not found' }, { status: 404 });
+    }
+
+    if (!isAllowedCallbackTransition(execution.status, body.status)) {
+      return NextResponse.json(
+        { error: `Execution cannot move from ${execution.status} to ${body.status}` },
+        { status: 409 }
+      );
+    }
+
+    const accepted = await consumeCallbackNonce({
+      signerAddress: signer,
+      nonce: body.nonce,
+      missionId,
+      agentId: body.agentId,
+      status: body.status,
+    });
+    if (!accepted) {
+      return NextResponse.json({ error: 'Callback already processed' }, { status: 409 });
+    }
+
+    const updates: Partial<MissionExecution> = {
+      status: body.status,
+      deliverable_uri: body.deliverableUri ?? undefined,
+      result_data: body.resultData ?? undefined,
+      error_message: body.errorMessage ?? undefined,
+    };
+
+    if (body.status === 'executing') {
+      updates.started_at = new Date().toISOString();
+    } else {
+      updates.completed_at = new Date().toISOString();
+    }
+
+    // Conditional on the status checked above, so racing callbacks can't both apply
+    const updated = await transitionExecution(execution.id, execution.status, updates);
+    if (!updated) {
+      return NextResponse.json(
+        { error: `Execution is no longer ${execution.status}, ${body.status} was not applied` },
+        { status: 409 }
+      );
+    }
+
+    // Create deliverable record if URI provided
+    if (body.deliverableUri) {
+      await createDeliverable({
+        mission_id: missionId,
+        agent_id: body.agentId,
+        ipfs_hash: body.deliverableUri,
+        metadata: body.resultData ?? undefined,
+      });
     }
 
     // Check if all executions are complete
     const executions = await getMissionExecutions(missionId);
+    // Replaced steps were taken over by a fallback agent, optional steps (continueOnFailure)
+    // don't fail the mission
     const allComplete = executions.every(
-      (e) => e.status === 'completed' || e.status === 'failed'
+      (e) => e.status === 'completed' || e.status === 'failed' || e.status === 'skipped' || e.status === 'replaced'
+    );
+    const anyFailed = executions.some(
+      (e) => (e.status === 'failed' || e.status === 'skipped') && !e.optional
     );
-    const anyFailed = executions.some((e) => e.status === 'failed');
 
     // Update mission status based on executions
     if (allComplete) {
@@ -13,23 +13,32 @@ import { createMission, addAgentToMission, initializeMissionExecutions, updateMi
 import { getAgent, getAgentWallet, createAgentWallet } from '@/lib/supabase/agents';
 import { uploadMissionRequirements } from '@/lib/pinata/client';
 import { getCdpWalletManager } from '@/lib/cdp/wallet-manager';
+import { validateMissionGraph } from '@/lib/orchestrator/dag';
+import { validateStepPolicy, type StepPolicy } from '@/lib/orchestrator/policy';
+import { getSession, isSessionAddress } from '@/lib/auth/session';
 import axios from 'axios';
 
+// Room for the inline mission run queueMissionOrchestration schedules with after()
+export const maxDuration = 300;
+
 export interface MissionAgent {
   agentId: bigint;
   name: string;
   address: Address;
   capability: string;
   payment: number; // USDC amount
+  dependsOn?: string[]; // DAG mode - agent IDs whose outputs this agent consumes
+  policy?: StepPolicy; // Overrides the mission policy for this agent's step
 }
 
 export interface DeployMissionRequest {
   description: string;
   agents: MissionAgent[];
   totalBudget: number;
-  clientAddress: Address;
-  orchestrationMode: 'sequential' | 'parallel';
+  clientAddress?: Address; // Must match the signed-in wallet if given
+  orchestrationMode: 'sequential' | 'parallel' | 'dag';
   requirements?: Record<string, string>; // Per-agent requirements
+  policy?: StepPolicy; // Default retry / timeout / fallback policy for every step
 }
 
 export interface MissionDeployment {
@@ -51,10 +60,54 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'At least one agent required' }, { status: 400 });
     }
 
-    if (!body.clientAddress) {
-      return NextResponse.json({ error: 'Client address required' }, { status: 400 });
+    // Missions belong to the wallet signed in with SIWE, not whatever the body claims
+    const session = getSession(request);
+    if (!session) {
+      return NextResponse.json({ error: 'Sign in with your wallet first' }, { status: 401 });
+    }
+
+    if (body.clientAddress && !isSessionAddress(session, body.clientAddress)) {
+      return NextResponse.json(
+        { error: 'clientAddress does not match the signed-in wallet' },
+        { status: 403 }
+      );
+    }
+
+    // Validate the dependency graph before anything is uploaded or funded
+    const graphNodes = body.agents.map((agent) => ({
+      agentId: agent.agentId.toString(),
+      dependsOn: agent.dependsOn?.map(String),
+    }));
+    const hasDependencies = graphNodes.some((node) => node.dependsOn?.length);
+
+    if (hasDependencies && body.orchestrationMode !== 'dag') {
+      return NextResponse.json(
+        { error: "Agent dependencies require orchestrationMode 'dag'" },
+        { status: 400 }
+      );
+    }
+
+    const graph = validateMissionGraph(graphNodes);
+    if (!graph.valid) {
+      return NextResponse.json(
+        { error: 'Invalid mission graph', details: graph.error, cycle: graph.cycle },
+        { status: 400 }
+      );
+    }
+    const executionOrder = graph.levels.flat();
+
+    for (const policy of [body.policy, ...body.agents.map((agent) => agent.policy)]) {
+      const policyError = validateStepPolicy(policy);
+      if (policyError) {
+        return NextResponse.json({ error: 'Invalid step policy', details: policyError }, { status: 400 });
+      }
     }
 
+    // Each agent's effective policy, stored with the mission so executions can be resumed
+    const stepPolicies = body.agents.map((agent) =>
+      body.policy || agent.policy ? { ...body.policy, ...agent.policy } : undefined
+    );
+
     console.log('[Mission Deploy] Starting deployment:', {
       agents: body.agents.length,
       budget: body.totalBudget,
@@ -69,12 +122,14 @@ export async function POST(request: NextRequest) {
     const requirementsData = {
       description: body.description,
       orchestrationMode: body.orchestrationMode,
-      agents: body.agents.map(agent => ({
+      agents: body.agents.map((agent, index) => ({
         agentId: agent.agentId.toString(),
         name: agent.name,
         capability: agent.capability,
         payment: agent.payment,
         requirements: body.requirements?.[agent.capability],
+        dependsOn: graphNodes[index].dependsOn,
+        policy: stepPolicies[index],
       })),
       totalBudget: body.totalBudget,
       createdAt: new Date().toISOString(),
@@ -89,7 +144,7 @@ export async function POST(request: NextRequest) {
     console.log('[Mission Deploy] Creating mission in database...');
 
     const mission = await createMission({
-      clientAddress: body.clientAddress,
+      clientAddress: session.address,
       description: body.description,
       totalBudget: body.totalBudget,
       orchestrationMode: body.orchestrationMode,
@@ -260,7 +315,13 @@ export async function POST(request: NextRequest) {
         capability: agentData.capability,
         paymentAmount: agentData.payment,
         requirements: body.requirements?.[agentData.capability],
-        position: body.orchestrationMode === 'sequential' ? index : undefined,
+        position: body.orchestrationMode === 'sequential'
+          ? index
+          : body.orchestrationMode === 'dag'
+            ? executionOrder.indexOf(graphNodes[index].agentId)
+            : undefined,
+        dependsOn: graphNodes[index].dependsOn,
+        policy: stepPolicies[index],
       });
     });
 
@@ -274,9 +335,9 @@ export async function POST(request: NextRequest) {
     await initializeMissionExecutions(mission.id);
 
     // ========================================================================
-    // STEP 7: Start orchestrator (direct import - no HTTP!)
+    // STEP 7: Queue orchestration (durable job - resumed by a worker if this instance stops)
     // ========================================================================
-    console.log('[Mission Deploy] Starting orchestration...');
+    console.log('[Mission Deploy] Queueing orchestration...');
 
     try {
       // Fetch agent profiles to get endpoints
@@ -295,26 +356,24 @@ export async function POST(request: NextRequest) {
             address: agent.address,
             endpoint: agentProfile?.endpoint_url || `http://localhost:3001/execute`,
             capability: agent.capability,
-            payment: Math.floor(agent.payment * 1e6), // USDC units (integer)
+            payment: agent.payment, // USDC - agents price tasks with parseUnits
+            dependsOn: graphNodes[index].dependsOn,
+            policy: stepPolicies[index],
           };
         }),
         orchestrationMode: body.orchestrationMode,
-        totalBudget: Math.floor(body.totalBudget * 1e6), // USDC units (integer)
+        totalBudget: body.totalBudget, // USDC - caps what the orchestrator pays agents
         requirements: body.requirements || {},
       };
 
-      // Import orchestrator core module
-      const { startMissionOrchestration } = await import('@/lib/orchestrator/core');
+      // Import orchestrator worker module
+      const { queueMissionOrchestration } = await import('@/lib/orchestrator/worker');
 
-      // Execute in background (don't await - let it run asynchronously)
-      startMissionOrchestration(orchestratorPayload).catch((error) => {
-        console.error('[Mission Deploy] Orchestration failed:', error);
-        // TODO: Update mission status to 'failed' in database
-      });
+      const job = await queueMissionOrchestration(orchestratorPayload);
 
-      console.log('[Mission Deploy] Orchestration started successfully');
+      console.log('[Mission Deploy] Orchestration queued as job', job.id);
     } catch (error) {
-      console.error('[Mission Deploy] Failed to start orchestration:', error);
+      console.error('[Mission Deploy] Failed to queue orchestration:', error);
       // This is a critical error - mission won't execute
       throw error;
     }
@@ -346,7 +405,7 @@ export async function POST(request: NextRequest) {
     }
 
     nextSteps.push('Agent wallets verified/created');
-    nextSteps.push('Orchestrator notified');
+    nextSteps.push('Orchestration job queued');
     nextSteps.push(`Track progress at /missions/${mission.id}`);
 
     return NextResponse.json({
@@ -386,6 +445,7 @@ export async function GET(request: NextRequest) {
       },
       usage: {
         POST: {
+          auth: 'SIWE session cookie (GET /api/auth/nonce, POST /api/auth/verify)',
           body: {
             description: 'Mission description',
             agents: [
@@ -395,11 +455,19 @@ export async function GET(request: NextRequest) {
                 address: '0x...',
                 capability: 'logo-design',
                 payment: 15,
+                dependsOn: ['3'], // dag mode only - receives agent 3's deliverable
               },
             ],
             totalBudget: 30,
-            clientAddress: '0x...',
-            orchestrationMode: 'sequential | parallel',
+            clientAddress: '0x... (optional - defaults to the signed-in wallet)',
+            orchestrationMode: 'sequential | parallel | dag',
+            policy: {
+              maxRetries: 2,
+              backoffMs: 5000,
+              timeoutMs: 600000,
+              maxFallbacks: 1,
+              continueOnFailure: false,
+            },
           },
         },
       },
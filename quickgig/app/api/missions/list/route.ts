@@ -1,31 +1,68 @@
 /**
  * List Missions API
- * Fetches missions from Supabase database
+ * Marketplace listings - indexed bounties and gigs plus orchestrated missions -
+ * filtered and paginated in Supabase
+ *
+ * Query params: status (open|assigned|completed|cancelled), source (contract|gig|database),
+ * client, participant (client or worker), page (from 1), limit (max 100)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getRecentMissions, getMissionsByClient } from '@/lib/supabase/missions';
-import type { Address } from 'viem';
+import { isAddress } from 'viem';
+import {
+  getMarketplaceCounts,
+  listMarketplace,
+  type ListingSource,
+  type ListingStatus,
+} from '@/lib/supabase/marketplace';
+
+const STATUSES: ListingStatus[] = ['open', 'assigned', 'completed', 'cancelled'];
+const SOURCES: ListingSource[] = ['contract', 'gig', 'database'];
+const MAX_LIMIT = 100;
 
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
-    const clientAddress = searchParams.get('client') as Address | null;
-    const limit = parseInt(searchParams.get('limit') || '50', 10);
-
-    let missions;
+    const status = searchParams.get('status') as ListingStatus | null;
+    const source = searchParams.get('source') as ListingSource | null;
+    const client = searchParams.get('client');
+    const participant = searchParams.get('participant');
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+    const limit = Math.min(MAX_LIMIT, Math.max(1, parseInt(searchParams.get('limit') || '50', 10) || 50));
 
-    if (clientAddress) {
-      // Fetch missions for specific client
-      missions = await getMissionsByClient(clientAddress, limit);
-    } else {
-      // Fetch recent missions
-      missions = await getRecentMissions(limit);
+    if (status && !STATUSES.includes(status)) {
+      return NextResponse.json({ error: `Invalid status: ${status}` }, { status: 400 });
+    }
+    if (source && !SOURCES.includes(source)) {
+      return NextResponse.json({ error: `Invalid source: ${source}` }, { status: 400 });
     }
+    if ((client && !isAddress(client)) || (participant && !isAddress(participant))) {
+      return NextResponse.json({ error: 'Invalid address' }, { status: 400 });
+    }
+
+    const [{ listings, total }, counts] = await Promise.all([
+      listMarketplace(
+        {
+          status: status || undefined,
+          source: source || undefined,
+          client: client || undefined,
+          participant: participant || undefined,
+        },
+        page,
+        limit
+      ),
+      // Per-tab counts ignore the status and source filters
+      getMarketplaceCounts(participant || undefined),
+    ]);
 
     return NextResponse.json({
-      missions,
-      count: missions.length,
+      missions: listings,
+      count: listings.length,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+      counts,
     });
   } catch (error) {
     console.error('List missions error:', error);
@@ -1,6 +1,6 @@
 /**
  * Notifications API
- * Get and manage notifications
+ * Get and manage notifications of the signed-in wallet (SIWE session)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -11,22 +11,28 @@ import {
   markAllAsRead,
   createNotification,
 } from '@/lib/supabase/notifications';
+import { getSession, isSessionAddress } from '@/lib/auth/session';
 
 export async function GET(request: NextRequest) {
   try {
+    const session = getSession(request);
     const userAddress = request.nextUrl.searchParams.get('userAddress');
     const action = request.nextUrl.searchParams.get('action');
 
-    if (!userAddress) {
-      return NextResponse.json({ error: 'User address required' }, { status: 400 });
+    if (!session) {
+      return NextResponse.json({ error: 'Sign in with your wallet first' }, { status: 401 });
+    }
+
+    if (userAddress && !isSessionAddress(session, userAddress)) {
+      return NextResponse.json({ error: 'Cannot read another wallet\'s notifications' }, { status: 403 });
     }
 
     if (action === 'unread-count') {
-      const count = await getUnreadCount(userAddress);
+      const count = await getUnreadCount(session.address);
       return NextResponse.json({ count });
     }
 
-    const notifications = await getNotifications(userAddress);
+    const notifications = await getNotifications(session.address);
     return NextResponse.json({ notifications });
   } catch (error) {
     console.error('Get notifications error:', error);
@@ -39,8 +45,18 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const session = getSession(request);
     const body = await request.json();
-    const notification = await createNotification(body);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Sign in with your wallet first' }, { status: 401 });
+    }
+
+    if (body.user_address && !isSessionAddress(session, body.user_address)) {
+      return NextResponse.json({ error: 'Cannot notify another wallet' }, { status: 403 });
+    }
+
+    const notification = await createNotification({ ...body, user_address: session.address });
     return NextResponse.json({ notification });
   } catch (error) {
     console.error('Create notification error:', error);
@@ -53,16 +69,25 @@ export async function POST(request: NextRequest) {
 
 export async function PATCH(request: NextRequest) {
   try {
+    const session = getSession(request);
     const body = await request.json();
     const { notificationId, userAddress, action } = body;
 
-    if (action === 'mark-all-read' && userAddress) {
-      await markAllAsRead(userAddress);
+    if (!session) {
+      return NextResponse.json({ error: 'Sign in with your wallet first' }, { status: 401 });
+    }
+
+    if (userAddress && !isSessionAddress(session, userAddress)) {
+      return NextResponse.json({ error: 'Cannot update another wallet\'s notifications' }, { status: 403 });
+    }
+
+    if (action === 'mark-all-read') {
+      await markAllAsRead(session.address);
       return NextResponse.json({ success: true });
     }
 
     if (notificationId) {
-      await markAsRead(notificationId);
+      await markAsRead(notificationId, session.address);
       return NextResponse.json({ success: true });
     }
 
@@ -1,11 +1,15 @@
 /**
  * Mission Orchestrator API Route
- * Thin wrapper around core orchestration module
- * Accepts HTTP requests and delegates to core logic
+ * Thin wrapper around the mission job queue
+ * Accepts HTTP requests and queues them for the orchestration worker
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { startMissionOrchestration, type MissionPayload } from '@/lib/orchestrator/core';
+import type { MissionPayload } from '@/lib/orchestrator/core';
+import { queueMissionOrchestration } from '@/lib/orchestrator/worker';
+
+// Room for the inline mission run queueMissionOrchestration schedules with after()
+export const maxDuration = 300;
 
 /**
  * Execute mission endpoint
@@ -18,15 +22,15 @@ export async function POST(request: NextRequest) {
     console.log('[Orchestrator Route] Mode:', payload.orchestrationMode);
     console.log('[Orchestrator Route] Agents:', payload.subAgents.length);
 
-    // Execute asynchronously (don't await) - delegates to core module
-    startMissionOrchestration(payload).catch((error) => {
-      console.error('[Orchestrator Route] Mission execution failed:', error);
-    });
+    // Queue a durable job - the worker runs (or resumes) it
+    const job = await queueMissionOrchestration(payload);
 
     return NextResponse.json({
       success: true,
-      message: 'Mission execution started',
+      message: 'Mission execution queued',
       missionId: payload.missionId,
+      jobId: job.id,
+      jobStatus: job.status,
     });
   } catch (error) {
     console.error('[Orchestrator Route] Error:', error);
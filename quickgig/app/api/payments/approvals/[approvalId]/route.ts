@@ -0,0 +1,69 @@
+/**
+ * Payment Approval Decision API
+ * POST /api/payments/approvals/[approvalId] - Approve or reject a queued agent payment
+ * Body: { decision: 'approve' | 'reject', decidedBy?: string, reason?: string }
+ *
+ * The orchestrator picks the decision up on its next poll. Approved payments are still
+ * checked against the mission budget and daily caps before they are sent.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isBearerToken } from '@/lib/auth/bearer';
+import { decidePaymentApproval, getPaymentApproval } from '@/lib/supabase/payment-approvals';
+
+interface DecisionRequest {
+  decision: 'approve' | 'reject';
+  decidedBy?: string;
+  reason?: string;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ approvalId: string }> }
+) {
+  if (!isBearerToken(request.headers.get('authorization'), 'ORCHESTRATOR_APPROVER_TOKEN')) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { approvalId } = await params;
+    const id = Number(approvalId);
+    const body: DecisionRequest = await request.json();
+
+    if (!Number.isInteger(id)) {
+      return NextResponse.json({ error: 'Invalid approval ID' }, { status: 400 });
+    }
+
+    if (body.decision !== 'approve' && body.decision !== 'reject') {
+      return NextResponse.json(
+        { error: "decision must be 'approve' or 'reject'" },
+        { status: 400 }
+      );
+    }
+
+    const approval = await decidePaymentApproval(
+      id,
+      body.decision === 'approve' ? 'approved' : 'rejected',
+      { decidedBy: body.decidedBy, reason: body.reason }
+    );
+
+    if (!approval) {
+      const existing = await getPaymentApproval(id);
+      return existing
+        ? NextResponse.json({ error: `Approval already ${existing.status}`, approval: existing }, { status: 409 })
+        : NextResponse.json({ error: 'Approval not found' }, { status: 404 });
+    }
+
+    console.log(`[Payment Approvals] Payment ${approval.payment_id} ${approval.status} by ${approval.decided_by || 'approver'}`);
+
+    return NextResponse.json({ success: true, approval });
+  } catch (error) {
+    console.error('Decide payment approval error:', error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to decide payment approval',
+      },
+      { status: 500 }
+    );
+  }
+}
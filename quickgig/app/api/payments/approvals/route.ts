@@ -0,0 +1,44 @@
+/**
+ * Payment Approval Queue API
+ * GET /api/payments/approvals - Agent payments waiting for (or given) a manual decision
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isBearerToken } from '@/lib/auth/bearer';
+import { listPaymentApprovals, type PaymentApprovalStatus } from '@/lib/supabase/payment-approvals';
+
+const STATUSES: PaymentApprovalStatus[] = ['pending', 'approved', 'rejected', 'expired'];
+
+export async function GET(request: NextRequest) {
+  if (!isBearerToken(request.headers.get('authorization'), 'ORCHESTRATOR_APPROVER_TOKEN')) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = (searchParams.get('status') || 'pending') as PaymentApprovalStatus;
+
+    if (!STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const approvals = await listPaymentApprovals({
+      status,
+      missionId: searchParams.get('missionId') || undefined,
+      limit: Number(searchParams.get('limit')) || undefined,
+    });
+
+    return NextResponse.json({ approvals });
+  } catch (error) {
+    console.error('List payment approvals error:', error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to list payment approvals',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -3,147 +3,221 @@
  * POST /api/reputation/generate-auth
  * Generates a signed feedbackAuth parameter for ERC-8004 feedback submission
  *
+ * Only clients of a completed mission or gig with the agent can get one. It's signed by
+ * the agent's own CDP wallet or an owner-approved delegate (see lib/erc8004/feedback-auth),
+ * and every issued auth is recorded in feedback_authorizations.
+ *
  * The feedbackAuth contains:
  * 1. Struct data (224 bytes): agentId, clientAddress, indexLimit, expiry, chainId, identityRegistry, signerAddress
- * 2. Signature (65+ bytes): Agent owner's signature authorizing this client to give feedback
+ * 2. Signature (65+ bytes): Agent owner's (or approved delegate's) signature authorizing this client to give feedback
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import {
-  encodeAbiParameters,
-  parseAbiParameters,
-  keccak256,
-  toBytes,
-  type Address,
-  createWalletClient,
-  http,
-  hashMessage,
-} from 'viem';
 import { baseSepolia } from 'viem/chains';
-import { privateKeyToAccount } from 'viem/accounts';
-
-// NFT Owner Wallet (Deployer)
-// ALL ERC-8004 NFTs (agents 2, 3, 4) are owned by this address on-chain
-// This wallet MUST sign the feedbackAuth for all agents
-const NFT_OWNER = {
-  address: '0x57E94Af6f45fD9Cda508Ee8E6467B2895F75bBF9' as Address,
-  privateKey: (process.env.PRIVATE_KEY || '0xcd6e40c315aa007128416e77c85e900ad7391b8923c200ddcfd005c8ecd6e9f6') as `0x${string}`,
-};
-
-// Agent names for logging
-const AGENT_NAMES: Record<string, string> = {
-  '2': 'LogoMaster AI',
-  '3': 'CopyWriter AI',
-  '4': 'SocialMedia AI',
-};
-
-// ERC-8004 contracts
-const IDENTITY_REGISTRY = '0x8004AA63c570c570eBF15376c0dB199918BFe9Fb';
-const REPUTATION_REGISTRY = '0x8004bd8daB57f14Ed299135749a5CB5c42d341BF';
+import { getSession, isSessionAddress } from '@/lib/auth/session';
+import { ERC8004_OFFICIAL } from '@/lib/erc8004/official-client';
+import { getServerPublicClient } from '@/lib/erc8004/server-client';
+import { getAgentIdentity } from '@/lib/erc8004/unified-discovery';
+import { resolveFeedbackSigner, signFeedbackAuth } from '@/lib/erc8004/feedback-auth';
+import { getAgentByErc8004Token, type AgentProfile } from '@/lib/supabase/agents';
+import { getMission, getMissionAgents } from '@/lib/supabase/missions';
+import { getChainGig } from '@/lib/supabase/chain-index';
+import { recordFeedbackAuthorization } from '@/lib/supabase/feedback-authorizations';
+
+const DEFAULT_INDEX_LIMIT = 10;
+const MAX_INDEX_LIMIT = 10;
+const DEFAULT_EXPIRY_HOURS = 24;
+const MAX_EXPIRY_HOURS = 24 * 7;
+
+// Missions and gigs the client has paid out for
+const COMPLETED_MISSION_STATUSES = ['approved', 'completed', 'auto_released'];
+const COMPLETED_GIG_STATUSES = ['completed', 'auto_released'];
 
 interface GenerateAuthRequest {
-  agentId: string; // ERC-8004 NFT token ID (2, 3, or 4)
-  clientAddress: string; // Client wallet address
+  agentId: string; // ERC-8004 NFT token ID linked on an agent profile
+  missionId?: string; // Completed mission the agent worked on
+  gigId?: number; // Or completed GigEscrow gig the agent was the worker on
+  clientAddress?: string; // Client wallet address (defaults to the signed-in wallet)
   indexLimit?: number; // Max feedback count (default: 10)
   expiryHours?: number; // Hours until expiry (default: 24)
 }
 
+type Engagement =
+  | { source: 'mission'; missionId: string }
+  | { source: 'gig'; gigContract: string; gigId: number };
+
+/**
+ * Find the completed mission or gig that entitles the client to rate the agent
+ * Returns an error message if there isn't one
+ */
+async function findCompletedEngagement(
+  body: GenerateAuthRequest,
+  agent: AgentProfile,
+  clientAddress: string
+): Promise<Engagement | string> {
+  const client = clientAddress.toLowerCase();
+
+  if (body.missionId) {
+    const mission = await getMission(body.missionId);
+    if (!mission || mission.client_address.toLowerCase() !== client) {
+      return `Mission ${body.missionId} not found`;
+    }
+    if (!COMPLETED_MISSION_STATUSES.includes(mission.status)) {
+      return `Mission ${body.missionId} is not completed`;
+    }
+
+    const missionAgents = await getMissionAgents(mission.id);
+    if (!missionAgents.some((missionAgent) => missionAgent.agent_id === agent.id)) {
+      return `${agent.name} did not work on mission ${body.missionId}`;
+    }
+
+    return { source: 'mission', missionId: mission.id };
+  }
+
+  const gigContract = process.env.NEXT_PUBLIC_GIG_ESCROW_ADDRESS;
+  if (!gigContract) return 'GigEscrow not configured';
+
+  const gig = await getChainGig(gigContract, Number(body.gigId));
+  if (!gig || gig.client_address !== client) {
+    return `Gig ${body.gigId} not found`;
+  }
+  if (!COMPLETED_GIG_STATUSES.includes(gig.status)) {
+    return `Gig ${body.gigId} is not completed`;
+  }
+  if (gig.worker_address !== agent.address.toLowerCase()) {
+    return `${agent.name} was not the worker on gig ${body.gigId}`;
+  }
+
+  return { source: 'gig', gigContract: gig.contract_address, gigId: gig.gig_id };
+}
+
 export async function POST(request: NextRequest) {
   try {
     console.log('[Generate Auth] Received request');
+    const session = getSession(request);
     const body: GenerateAuthRequest = await request.json();
 
+    // Only the signed-in wallet can be authorized to give feedback
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Sign in with your wallet first' },
+        { status: 401 }
+      );
+    }
+
     // Validate request
-    if (!body.agentId || !body.clientAddress) {
+    if (!body.agentId) {
       return NextResponse.json(
-        { error: 'Missing required fields: agentId, clientAddress' },
+        { error: 'Missing required field: agentId' },
         { status: 400 }
       );
     }
 
-    // Get agent name
-    const agentName = AGENT_NAMES[body.agentId];
-    if (!agentName) {
+    if (!/^[0-9]+$/.test(body.agentId)) {
       return NextResponse.json(
-        { error: `Agent ${body.agentId} not configured` },
+        { error: 'agentId must be an ERC-8004 token ID' },
         { status: 400 }
       );
     }
 
-    console.log('[Generate Auth] Generating auth for:', {
-      agentId: body.agentId,
-      agentName,
-      nftOwner: NFT_OWNER.address,
-      clientAddress: body.clientAddress,
-    });
+    // Exactly one engagement
+    if (!!body.missionId === (body.gigId !== undefined)) {
+      return NextResponse.json(
+        { error: 'Provide either missionId or gigId' },
+        { status: 400 }
+      );
+    }
 
-    // Create account from NFT owner's private key
-    // ALL NFTs are owned by the deployer wallet
-    const account = privateKeyToAccount(NFT_OWNER.privateKey);
+    if (body.gigId !== undefined && !Number.isInteger(body.gigId)) {
+      return NextResponse.json(
+        { error: 'gigId must be an integer' },
+        { status: 400 }
+      );
+    }
 
-    console.log('[Generate Auth] NFT Owner Account:', account.address);
-    console.log('[Generate Auth] Expected:', NFT_OWNER.address);
+    if (body.clientAddress && !isSessionAddress(session, body.clientAddress)) {
+      return NextResponse.json(
+        { error: 'clientAddress does not match the signed-in wallet' },
+        { status: 403 }
+      );
+    }
+    const clientAddress = session.address;
 
-    // Build FeedbackAuth struct
-    const indexLimit = body.indexLimit || 10; // Allow up to 10 feedback submissions
-    const expiryHours = body.expiryHours || 24; // Valid for 24 hours
-    const expiry = Math.floor(Date.now() / 1000) + (expiryHours * 3600);
-    const chainId = 84532; // Base Sepolia
-    const signerAddress = NFT_OWNER.address; // Must be the NFT owner
+    const indexLimit = body.indexLimit ?? DEFAULT_INDEX_LIMIT;
+    const expiryHours = body.expiryHours ?? DEFAULT_EXPIRY_HOURS;
 
-    console.log('[Generate Auth] Auth parameters:', {
-      agentId: body.agentId,
-      clientAddress: body.clientAddress,
-      indexLimit,
-      expiry: new Date(expiry * 1000).toISOString(),
-      chainId,
-      identityRegistry: IDENTITY_REGISTRY,
-      signerAddress,
-    });
+    if (!Number.isInteger(indexLimit) || indexLimit < 1 || indexLimit > MAX_INDEX_LIMIT) {
+      return NextResponse.json(
+        { error: `indexLimit must be between 1 and ${MAX_INDEX_LIMIT}` },
+        { status: 400 }
+      );
+    }
 
-    // Encode struct (first 224 bytes)
-    const encodedStruct = encodeAbiParameters(
-      parseAbiParameters('uint256, address, uint64, uint256, uint256, address, address'),
-      [
-        BigInt(body.agentId),
-        body.clientAddress as `0x${string}`,
-        BigInt(indexLimit),
-        BigInt(expiry),
-        BigInt(chainId),
-        IDENTITY_REGISTRY as `0x${string}`,
-        signerAddress,
-      ]
-    );
+    if (!(expiryHours > 0 && expiryHours <= MAX_EXPIRY_HOURS)) {
+      return NextResponse.json(
+        { error: `expiryHours must be between 0 and ${MAX_EXPIRY_HOURS}` },
+        { status: 400 }
+      );
+    }
 
-    console.log('[Generate Auth] Encoded struct:', encodedStruct);
-    console.log('[Generate Auth] Struct length:', encodedStruct.length);
+    // Get the agent linked to this token
+    const identityRegistry = ERC8004_OFFICIAL.IDENTITY_REGISTRY;
+    const agent = await getAgentByErc8004Token(body.agentId, identityRegistry);
+    if (!agent) {
+      return NextResponse.json(
+        { error: `Agent ${body.agentId} not registered` },
+        { status: 400 }
+      );
+    }
 
-    // Create message to sign - must match contract's verification
-    // Contract does: keccak256(abi.encode(...)).toEthSignedMessageHash().recover(signature)
+    // Only real customers can rate
+    const engagement = await findCompletedEngagement(body, agent, clientAddress);
+    if (typeof engagement === 'string') {
+      return NextResponse.json(
+        { error: `Feedback requires a completed mission or gig with this agent: ${engagement}` },
+        { status: 403 }
+      );
+    }
 
-    // Step 1: Hash the encoded struct (same as Solidity's keccak256(abi.encode(...)))
-    const structHash = keccak256(encodedStruct);
-    console.log('[Generate Auth] Struct hash:', structHash);
+    // The registry checks the signer against the token's current owner and approvals
+    const publicClient = getServerPublicClient();
+    const tokenId = BigInt(body.agentId);
+    const identity = await getAgentIdentity(publicClient, tokenId, identityRegistry);
+    if (!identity) {
+      return NextResponse.json(
+        { error: `Agent ${body.agentId} does not exist on the identity registry` },
+        { status: 400 }
+      );
+    }
 
-    // Step 2: Sign the hash - signMessage will add EIP-191 prefix automatically
-    // This matches Solidity's .toEthSignedMessageHash()
-    const signature = await account.signMessage({
-      message: { raw: toBytes(structHash) },
+    const signer = await resolveFeedbackSigner(publicClient, agent, {
+      registry: identityRegistry,
+      tokenId,
+      owner: identity.owner,
     });
+    if (!signer) {
+      return NextResponse.json(
+        { error: `No authorized signer for agent ${body.agentId}: its owner ${identity.owner} must approve the agent wallet or the platform delegate` },
+        { status: 409 }
+      );
+    }
 
-    console.log('[Generate Auth] Signing with address:', account.address);
-
-    console.log('[Generate Auth] Signature:', signature);
-    console.log('[Generate Auth] Signature length:', signature.length);
+    const expiry = Math.floor(Date.now() / 1000) + Math.floor(expiryHours * 3600);
+    const chainId = baseSepolia.id;
 
-    // Concatenate struct + signature to create feedbackAuth
-    // Remove '0x' prefix from signature before concatenating
-    const signatureHex = signature.startsWith('0x') ? signature.slice(2) : signature;
-    const feedbackAuth = (encodedStruct + signatureHex) as `0x${string}`;
+    console.log('[Generate Auth] Generating auth for:', {
+      agentId: body.agentId,
+      agentName: agent.name,
+      clientAddress,
+      engagement,
+      signer: signer.address,
+      signerType: signer.type,
+    });
 
-    console.log('[Generate Auth] Final feedbackAuth:', feedbackAuth);
-    console.log('[Generate Auth] Final length:', feedbackAuth.length);
-    console.log('[Generate Auth] Final length in bytes:', (feedbackAuth.length - 2) / 2);
+    const feedbackAuth = await signFeedbackAuth(
+      { agentId: tokenId, clientAddress, indexLimit, expiry, chainId, identityRegistry },
+      signer
+    );
 
     // Verify length is >= 289 bytes (578 hex chars + '0x' = 580 total chars)
     const byteLength = (feedbackAuth.length - 2) / 2;
@@ -155,19 +229,37 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    await recordFeedbackAuthorization({
+      agent_id: agent.id,
+      erc8004_token_id: body.agentId,
+      identity_registry: identityRegistry,
+      client_address: clientAddress,
+      source: engagement.source,
+      mission_id: engagement.source === 'mission' ? engagement.missionId : null,
+      gig_contract: engagement.source === 'gig' ? engagement.gigContract : null,
+      gig_id: engagement.source === 'gig' ? engagement.gigId : null,
+      index_limit: indexLimit,
+      expires_at: new Date(expiry * 1000).toISOString(),
+      chain_id: chainId,
+      signer_address: signer.address,
+      signer_type: signer.type,
+      feedback_auth: feedbackAuth,
+    });
+
     return NextResponse.json({
       success: true,
       feedbackAuth,
       metadata: {
         agentId: body.agentId,
-        agentName,
-        clientAddress: body.clientAddress,
+        agentName: agent.name,
+        clientAddress,
         indexLimit,
         expiry,
         expiryDate: new Date(expiry * 1000).toISOString(),
         chainId,
-        identityRegistry: IDENTITY_REGISTRY,
-        signerAddress,
+        identityRegistry,
+        signerAddress: signer.address,
+        signerType: signer.type,
         byteLength,
       },
     });
@@ -194,16 +286,20 @@ export async function GET() {
     method: 'POST',
     description: 'Generate signed feedbackAuth for ERC-8004 feedback submission',
     requiredFields: {
-      agentId: 'ERC-8004 NFT token ID (2, 3, or 4)',
-      clientAddress: 'Client wallet address',
+      agentId: 'ERC-8004 NFT token ID of a registered agent',
+      missionId: 'Completed mission the agent worked on (or gigId)',
+      gigId: 'Completed GigEscrow gig the agent was the worker on (or missionId)',
     },
     optionalFields: {
-      indexLimit: 'Max feedback count (default: 10)',
-      expiryHours: 'Hours until expiry (default: 24)',
+      clientAddress: 'Client wallet address (must match the signed-in wallet)',
+      indexLimit: `Max feedback count (default: ${DEFAULT_INDEX_LIMIT}, max: ${MAX_INDEX_LIMIT})`,
+      expiryHours: `Hours until expiry (default: ${DEFAULT_EXPIRY_HOURS}, max: ${MAX_EXPIRY_HOURS})`,
     },
+    auth: 'Requires a wallet session (Sign-In with Ethereum via /api/auth/nonce and /api/auth/verify)',
+    signer: "The agent's CDP wallet, or the platform delegate, whichever owns or is approved for the agent NFT",
     returns: {
       feedbackAuth: 'Hex-encoded auth data (>= 289 bytes)',
-      metadata: 'Auth parameters and expiry info',
+      metadata: 'Auth parameters, signer and expiry info',
     },
   });
 }
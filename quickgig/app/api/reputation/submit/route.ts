@@ -8,6 +8,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createPublicClient, createWalletClient, http } from 'viem';
 import { baseSepolia } from 'viem/chains';
 import { OfficialERC8004Client } from '@/lib/erc8004/official-client';
+import { getSession, isSessionAddress } from '@/lib/auth/session';
 import axios from 'axios';
 
 interface SubmitFeedbackRequest {
@@ -15,24 +16,39 @@ interface SubmitFeedbackRequest {
   rating: number; // 1-5 stars
   comment?: string;
   missionId?: string;
-  userAddress: string; // Client wallet address
+  userAddress?: string; // Client wallet address (defaults to the signed-in wallet)
   userSignature?: string; // Optional signature for verification
 }
 
 export async function POST(request: NextRequest) {
   try {
     console.log('[Reputation V2] Received request');
+    const session = getSession(request);
     const body: SubmitFeedbackRequest = await request.json();
     console.log('[Reputation V2] Parsed body:', { agentId: body.agentId, rating: body.rating });
 
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Sign in with your wallet first' },
+        { status: 401 }
+      );
+    }
+
     // Validate request
-    if (!body.agentId || !body.rating || !body.userAddress) {
+    if (!body.agentId || !body.rating) {
       return NextResponse.json(
-        { error: 'Missing required fields: agentId, rating, userAddress' },
+        { error: 'Missing required fields: agentId, rating' },
         { status: 400 }
       );
     }
 
+    if (body.userAddress && !isSessionAddress(session, body.userAddress)) {
+      return NextResponse.json(
+        { error: 'userAddress does not match the signed-in wallet' },
+        { status: 403 }
+      );
+    }
+
     if (body.rating < 1 || body.rating > 5) {
       return NextResponse.json(
         { error: 'Rating must be between 1 and 5' },
@@ -43,7 +59,7 @@ export async function POST(request: NextRequest) {
     console.log('[Reputation] Submitting feedback:', {
       agentId: body.agentId,
       rating: body.rating,
-      from: body.userAddress,
+      from: session.address,
       missionId: body.missionId,
     });
 
@@ -119,13 +135,14 @@ export async function GET() {
     requiredFields: {
       agentId: 'ERC-8004 NFT token ID',
       rating: '1-5 stars',
-      userAddress: 'Client wallet address',
     },
     optionalFields: {
+      userAddress: 'Client wallet address (must match the signed-in wallet)',
       comment: 'Feedback text (stored on IPFS)',
       missionId: 'Mission ID reference',
       userSignature: 'Optional signature for verification',
     },
+    auth: 'Requires a wallet session (Sign-In with Ethereum via /api/auth/nonce and /api/auth/verify)',
     note: 'Returns transaction data for client-side signing. User must sign with their wallet.',
   });
 }
@@ -1,17 +1,32 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useAccount, useBlockNumber, useReadContract } from 'wagmi';
 import { useRouter } from 'next/navigation';
 import { ArbitratorCaseCard } from '@/components/arbitration/ArbitratorCaseCard';
 import { useIsArbitrator, useWatchDisputeCreated } from '@/lib/contracts/simpleArbitrator';
+import type { DocketCase, DocketCounts, DocketFilter } from '@/lib/supabase/arbitration';
 import { toast } from 'sonner';
-import type { Hex } from 'viem';
+
+type DocketTab = DocketFilter | 'all';
+
+const TABS: Array<{ value: DocketTab; label: string }> = [
+  { value: 'needs_vote', label: 'NEEDS MY VOTE' },
+  { value: 'expiring', label: 'EXPIRING SOON' },
+  { value: 'resolved', label: 'RESOLVED' },
+  { value: 'all', label: 'ALL' },
+];
+
+// New events reach the docket once the indexer has them (a few confirmations plus its poll)
+const INDEXER_DELAY_MS = 30 * 1000;
 
 export default function ArbitrationPage() {
   const router = useRouter();
   const { address, isConnected } = useAccount();
-  const [caseIds, setCaseIds] = useState<Hex[]>([]);
+  const [cases, setCases] = useState<DocketCase[]>([]);
+  const [counts, setCounts] = useState<DocketCounts | null>(null);
+  const [filter, setFilter] = useState<DocketTab>('needs_vote');
+  const [loadingCases, setLoadingCases] = useState(true);
   const [mounted, setMounted] = useState(false);
 
   // Check if user is an arbitrator
@@ -37,21 +52,47 @@ export default function ArbitrationPage() {
     }
   }, [mounted, isConnected, isArbitrator, checkingArbitrator, router]);
 
+  // Load the docket - every case from the indexed DisputeCreated history
+  const fetchCases = useCallback(async () => {
+    if (!address) return;
+
+    setLoadingCases(true);
+    try {
+      const params = new URLSearchParams({ arbitrator: address, limit: '50' });
+      if (filter !== 'all') params.set('filter', filter);
+
+      const response = await fetch(`/api/arbitration/cases?${params}`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch cases: ${response.status}`);
+      }
+      const data = await response.json();
+
+      setCases(data.cases);
+      setCounts(data.counts);
+    } catch (error) {
+      console.error('Error fetching cases:', error);
+    } finally {
+      setLoadingCases(false);
+    }
+  }, [address, filter]);
+
+  useEffect(() => {
+    if (isArbitrator) fetchCases();
+  }, [isArbitrator, fetchCases]);
+
+  // Reload once the indexer has picked up a change
+  const refetchAfterIndexing = useCallback(() => {
+    setTimeout(() => fetchCases(), INDEXER_DELAY_MS);
+  }, [fetchCases]);
+
   // Watch for new disputes
   useWatchDisputeCreated((logs) => {
-    logs.forEach((log) => {
-      const typedLog = log as unknown as { args?: { caseId?: Hex } };
-      const caseId = typedLog.args?.caseId;
-      if (caseId && !caseIds.includes(caseId)) {
-        setCaseIds((prev) => [...prev, caseId]);
-        toast.success('New dispute case created!');
-      }
-    });
+    if (logs.length > 0) {
+      toast.success('New dispute case created!');
+      refetchAfterIndexing();
+    }
   });
 
-  // Load initial cases from events (in production, use indexer or subgraph)
-  // For MVP, we'll need to manually add case IDs or track them via events
-
   if (!mounted || checkingArbitrator) {
     return (
       <div className="min-h-screen bg-white">
@@ -105,13 +146,13 @@ export default function ArbitrationPage() {
             <p className="font-mono text-xs uppercase text-black opacity-60">
               Total Cases
             </p>
-            <p className="font-black text-3xl mt-2">{caseIds.length}</p>
+            <p className="font-black text-3xl mt-2">{counts?.all ?? '-'}</p>
           </div>
           <div className="border-2 border-black p-6">
             <p className="font-mono text-xs uppercase text-black opacity-60">
-              Your Role
+              Needs Your Vote
             </p>
-            <p className="font-bold text-xl mt-2">ARBITRATOR</p>
+            <p className="font-black text-3xl mt-2">{counts?.needs_vote ?? '-'}</p>
           </div>
           <div className="border-2 border-black p-6">
             <p className="font-mono text-xs uppercase text-black opacity-60">
@@ -123,23 +164,42 @@ export default function ArbitrationPage() {
 
         {/* Cases */}
         <div>
-          <h2 className="font-black text-2xl uppercase tracking-tight mb-6">
-            ACTIVE CASES
-          </h2>
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+            <h2 className="font-black text-2xl uppercase tracking-tight">
+              CASE DOCKET
+            </h2>
+            <div className="flex flex-wrap gap-2">
+              {TABS.map((tab) => (
+                <button
+                  key={tab.value}
+                  onClick={() => setFilter(tab.value)}
+                  className={`border-2 border-black px-3 py-2 font-mono text-xs uppercase transition-colors ${
+                    filter === tab.value ? 'bg-black text-white' : 'bg-white text-black hover:bg-gray-100'
+                  }`}
+                >
+                  {tab.label}
+                  {counts && ` (${counts[tab.value]})`}
+                </button>
+              ))}
+            </div>
+          </div>
 
-          {caseIds.length === 0 ? (
+          {loadingCases && cases.length === 0 ? (
+            <div className="border-2 border-black p-12 text-center">
+              <p className="font-mono text-sm text-black opacity-60">Loading cases...</p>
+            </div>
+          ) : cases.length === 0 ? (
             <div className="border-2 border-black p-12 text-center">
               <p className="font-mono text-sm text-black opacity-60">
-                No dispute cases yet. Cases will appear here when disputes are created.
-              </p>
-              <p className="font-mono text-xs text-black opacity-40 mt-4">
-                Note: In production, this would query past events or use an indexer to load all cases.
+                {filter === 'needs_vote'
+                  ? 'Nothing needs your vote right now.'
+                  : 'No dispute cases here. Cases appear once disputes are created and indexed.'}
               </p>
             </div>
           ) : (
             <div className="space-y-6">
-              {caseIds.map((caseId) => (
-                <ArbitratorCaseCard key={caseId} caseId={caseId} />
+              {cases.map((docketCase) => (
+                <ArbitratorCaseCard key={docketCase.case_id} docketCase={docketCase} onUpdated={refetchAfterIndexing} />
               ))}
             </div>
           )}
@@ -26,6 +26,8 @@ import { useRouter } from 'next/navigation';
 import { toast } from 'sonner';
 import { UMADisputeForm } from '@/components/bounty/uma-dispute-form';
 import { UMAResolutionDisplay } from '@/components/bounty/uma-resolution-display';
+import { EvidenceBundleButton } from '@/components/arbitration/EvidenceBundleButton';
+import { DisputePreReview } from '@/components/arbitration/DisputePreReview';
 
 interface BountyData {
   client: string;
@@ -420,6 +422,18 @@ export default function BountyDetailPage({ params }: { params: Promise<{ id: str
                     </div>
                   )}
 
+                  {/* Optional automated review before either party escalates */}
+                  {(isClient || isAssignedWorker) && bounty.status === 2 && (
+                    <div className="border-t-2 border-black pt-6">
+                      <DisputePreReview
+                        subject={{ type: 'bounty', bountyId: Number(bountyId) }}
+                        onEscalate={() => {
+                          if (isClient && bounty.useUMAArbitration) setShowUMADisputeModal(true);
+                        }}
+                      />
+                    </div>
+                  )}
+
                   {/* Dispute Status Button */}
                   {bounty.status === 4 && (
                     <div className="border-t-2 border-black pt-6">
@@ -444,6 +458,16 @@ export default function BountyDetailPage({ params }: { params: Promise<{ id: str
                           </svg>
                         </div>
                       </button>
+
+                      {/* Either party can add an evidence bundle while the case is open */}
+                      {(isClient || isAssignedWorker) && (
+                        <div className="mt-3">
+                          <EvidenceBundleButton
+                            subject={{ type: 'bounty', bountyId: Number(bountyId) }}
+                            submitToArbitrator
+                          />
+                        </div>
+                      )}
                     </div>
                   )}
                 </div>
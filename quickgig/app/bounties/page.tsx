@@ -6,11 +6,7 @@ import { Header } from '@/components/layout/header';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { formatUnits } from 'viem';
-import { createPublicClient, http } from 'viem';
-import { baseSepolia } from 'viem/chains';
-import BountyEscrowABI from '@/lib/contracts/abis/BountyEscrow.json';
-import GigEscrowABI from '@/lib/contracts/abis/GigEscrow.json';
-import { CONTRACTS } from '@/lib/contracts/addresses';
+import type { MarketplaceCount, MarketplaceListing } from '@/lib/supabase/marketplace';
 import { formatAddress, formatRelativeTime } from '@/lib/utils';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
@@ -31,19 +27,6 @@ interface BountyData {
   bidCount: number;
 }
 
-interface GigData {
-  gigId: bigint;
-  client: string;
-  worker: string;
-  paymentToken: string;
-  totalAmount: bigint;
-  milestones: Array<{ description: string; amount: bigint; completed: boolean }>;
-  status: number; // 0 = Active, 1 = Completed, 2 = Disputed
-  createdAt: bigint;
-  completedMilestones: number;
-  useUMAArbitration: boolean;
-}
-
 // Unified interface for contract bounties, database missions, and gigs
 interface UnifiedMission {
   id: string; // bountyId, mission_id, or gigId
@@ -61,307 +44,80 @@ interface UnifiedMission {
   completedMilestones?: number;
 }
 
+// Convert an indexed listing to unified format
+function convertListingToUnified(listing: MarketplaceListing): UnifiedMission {
+  return {
+    id: listing.id,
+    source: listing.source,
+    client: listing.client_address,
+    amount: listing.amount,
+    createdAt: new Date(listing.created_at).getTime() / 1000,
+    deadline: listing.deadline ? new Date(listing.deadline).getTime() / 1000 : undefined,
+    description: listing.description,
+    status: listing.status,
+    requirementsIPFS: listing.requirements_uri || undefined,
+    bidCount: listing.bid_count ?? undefined,
+    assignedWorker: listing.assigned_worker || undefined,
+    milestoneCount: listing.milestone_count ?? undefined,
+    completedMilestones: listing.completed_milestones ?? undefined,
+  };
+}
+
 export default function BountiesPage() {
   const router = useRouter();
-  const [bounties, setBounties] = useState<BountyData[]>([]);
-  const [gigs, setGigs] = useState<GigData[]>([]);
   const [missions, setMissions] = useState<UnifiedMission[]>([]);
+  const [total, setTotal] = useState(0);
+  const [counts, setCounts] = useState<MarketplaceCount[]>([]);
   const [loading, setLoading] = useState(true);
   const [filterStatus, setFilterStatus] = useState<'all' | 'open' | 'assigned' | 'completed' | 'gigs'>('open');
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 3;
 
-  // Fetch bounty details by ID
-  const fetchBountyDetails = useCallback(async (bountyId: bigint): Promise<BountyData | null> => {
+  // Fetch one page of bounties, gigs and missions - filtered and paginated by the indexer tables
+  const fetchMissions = useCallback(async () => {
+    setLoading(true);
     try {
-      const client = createPublicClient({
-        chain: baseSepolia,
-        transport: http(`https://base-sepolia.g.alchemy.com/v2/${process.env.NEXT_PUBLIC_ALCHEMY_API_KEY}`),
-      });
-      
-      const bountyData = await client.readContract({
-        address: CONTRACTS.BOUNTY_ESCROW,
-        abi: ((BountyEscrowABI as { abi?: unknown[] }).abi || BountyEscrowABI) as readonly unknown[],
-        functionName: 'getBounty',
-        args: [bountyId],
-      }) as unknown as {
-        client: string;
-        paymentToken: string;
-        escrowAmount: bigint;
-        status: number;
-        assignedWorker: string;
-        assignedBidAmount: bigint;
-        createdAt: bigint;
-        deadline: bigint;
-        requirementsURI: string;
-        submittedAt: bigint;
-        deliverableURI: string;
-      };
-
-      const bidCount = await client.readContract({
-        address: CONTRACTS.BOUNTY_ESCROW,
-        abi: ((BountyEscrowABI as { abi?: unknown[] }).abi || BountyEscrowABI) as readonly unknown[],
-        functionName: 'getBidCount',
-        args: [bountyId],
-      }) as bigint;
-
-      return {
-        bountyId,
-        ...bountyData,
-        bidCount: Number(bidCount),
-      } as BountyData;
-    } catch (error) {
-      console.error(`Error fetching bounty ${bountyId}:`, error);
-      return null;
-    }
-  }, []);
-
-  // Fetch gig details by ID
-  const fetchGigDetails = useCallback(async (gigId: bigint): Promise<GigData | null> => {
-    try {
-      const client = createPublicClient({
-        chain: baseSepolia,
-        transport: http(`https://base-sepolia.g.alchemy.com/v2/${process.env.NEXT_PUBLIC_ALCHEMY_API_KEY}`),
-      });
-
-      const gigData = await client.readContract({
-        address: CONTRACTS.GIG_ESCROW,
-        abi: ((GigEscrowABI as { abi?: unknown[] }).abi || GigEscrowABI) as readonly unknown[],
-        functionName: 'getGig',
-        args: [gigId],
-      }) as unknown as {
-        client: string;
-        worker: string;
-        paymentToken: string;
-        totalAmount: bigint;
-        milestones: Array<{ description: string; amount: bigint; completed: boolean }>;
-        status: number;
-        createdAt: bigint;
-        completedMilestones: bigint;
-        useUMAArbitration: boolean;
-      };
-
-      return {
-        gigId,
-        ...gigData,
-        completedMilestones: Number(gigData.completedMilestones),
-      } as GigData;
-    } catch (error) {
-      console.error(`Error fetching gig ${gigId}:`, error);
-      return null;
-    }
-  }, []);
+      const params = new URLSearchParams({ page: String(currentPage), limit: String(itemsPerPage) });
+      if (filterStatus === 'gigs') {
+        params.set('source', 'gig');
+      } else if (filterStatus !== 'all') {
+        params.set('status', filterStatus);
+      }
 
-  // Fetch database missions
-  const fetchDatabaseMissions = useCallback(async (): Promise<UnifiedMission[]> => {
-    try {
-      const response = await fetch('/api/missions/list');
+      const response = await fetch(`/api/missions/list?${params}`);
       if (!response.ok) {
         throw new Error(`Failed to fetch missions: ${response.status}`);
       }
       const data = await response.json();
 
-      // Convert database missions to unified format
-      return data.missions.map((m: { id: string; client_address: string; total_budget: number; created_at: string; description?: string; status: string; requirements_ipfs?: string }) => ({
-        id: m.id,
-        source: 'database' as const,
-        client: m.client_address,
-        amount: m.total_budget,
-        createdAt: new Date(m.created_at).getTime() / 1000,
-        deadline: undefined, // Database missions don't have deadlines yet
-        description: m.description || 'AI-deployed mission',
-        status: m.status === 'pending' || m.status === 'in_progress' ? 'open' :
-                m.status === 'completed' ? 'completed' :
-                m.status === 'cancelled' ? 'cancelled' : 'open',
-        requirementsIPFS: m.requirements_ipfs,
-        bidCount: 0,
-      }));
-    } catch (error) {
-      console.error('Error fetching database missions:', error);
-      return [];
-    }
-  }, []);
-
-  // Convert contract bounty to unified format
-  const convertBountyToUnified = (bounty: BountyData): UnifiedMission => ({
-    id: `bounty_${bounty.bountyId}`,
-    source: 'contract',
-    client: bounty.client,
-    amount: Number(formatUnits(bounty.escrowAmount, 6)),
-    createdAt: Number(bounty.createdAt),
-    deadline: Number(bounty.deadline),
-    description: bounty.requirementsURI,
-    status: bounty.status === 0 ? 'open' :
-            bounty.status === 1 || bounty.status === 2 ? 'assigned' :
-            bounty.status === 3 ? 'completed' : 'cancelled',
-    requirementsIPFS: bounty.requirementsURI,
-    bidCount: bounty.bidCount,
-    assignedWorker: bounty.assignedWorker,
-  });
-
-  // Convert gig to unified format
-  const convertGigToUnified = (gig: GigData): UnifiedMission => ({
-    id: `gig_${gig.gigId}`,
-    source: 'gig',
-    client: gig.client,
-    amount: Number(formatUnits(gig.totalAmount, 6)),
-    createdAt: Number(gig.createdAt),
-    description: gig.milestones.map(m => m.description).join('; '),
-    status: gig.status === 0 ? 'assigned' : // Active gig = assigned
-            gig.status === 1 ? 'completed' : 'cancelled', // Completed or Disputed
-    assignedWorker: gig.worker,
-    milestoneCount: gig.milestones.length,
-    completedMilestones: gig.completedMilestones,
-  });
-
-  // Initial fetch of recent bounties - query directly by ID instead of scanning blocks
-  const fetchInitialBounties = useCallback(async () => {
-    try {
-      console.log('fetchInitialBounties - starting...');
-      const client = createPublicClient({
-        chain: baseSepolia,
-        transport: http(`https://base-sepolia.g.alchemy.com/v2/${process.env.NEXT_PUBLIC_ALCHEMY_API_KEY}`),
-      });
-
-      // Fetch contract bounties, gigs, and database missions in parallel
-      const [contractBounties, contractGigs, dbMissions] = await Promise.all([
-        (async () => {
-          // Get total number of bounties from contract
-          const nextBountyId = await client.readContract({
-            address: CONTRACTS.BOUNTY_ESCROW,
-            abi: ((BountyEscrowABI as { abi?: unknown[] }).abi || BountyEscrowABI) as readonly unknown[],
-            functionName: 'nextBountyId',
-          }) as bigint;
-
-          const totalBounties = Number(nextBountyId);
-          console.log('nextBountyId:', totalBounties);
-
-          if (totalBounties === 0) {
-            return [];
-          }
-
-          // Fetch all bounties by ID (much faster than scanning blocks)
-          const bountyPromises = [];
-          for (let i = 0; i < totalBounties; i++) {
-            bountyPromises.push(fetchBountyDetails(BigInt(i)));
-          }
-
-          const allBounties = (await Promise.all(bountyPromises)).filter((b) => b !== null) as BountyData[];
-          console.log('Fetched contract bounties:', allBounties.length);
-          return allBounties;
-        })(),
-        (async () => {
-          // Get total number of gigs from contract
-          const nextGigId = await client.readContract({
-            address: CONTRACTS.GIG_ESCROW,
-            abi: ((GigEscrowABI as { abi?: unknown[] }).abi || GigEscrowABI) as readonly unknown[],
-            functionName: 'nextGigId',
-          }) as bigint;
-
-          const totalGigs = Number(nextGigId);
-          console.log('nextGigId:', totalGigs);
-
-          if (totalGigs === 0) {
-            return [];
-          }
-
-          // Fetch all gigs by ID
-          const gigPromises = [];
-          for (let i = 0; i < totalGigs; i++) {
-            gigPromises.push(fetchGigDetails(BigInt(i)));
-          }
-
-          const allGigs = (await Promise.all(gigPromises)).filter((g) => g !== null) as GigData[];
-          console.log('Fetched contract gigs:', allGigs.length);
-          return allGigs;
-        })(),
-        fetchDatabaseMissions()
-      ]);
-
-      console.log('Fetched database missions:', dbMissions.length);
-      console.log('Database missions:', dbMissions.map(m => ({ id: m.id, source: m.source })));
-
-      // Convert contract bounties and gigs to unified format
-      const unifiedContractBounties = contractBounties.map(convertBountyToUnified);
-      const unifiedContractGigs = contractGigs.map(convertGigToUnified);
-      console.log('Contract bounties converted:', unifiedContractBounties.length);
-      console.log('Contract gigs converted:', unifiedContractGigs.length);
-
-      // Merge all sources
-      const allMissions = [...unifiedContractBounties, ...unifiedContractGigs, ...dbMissions];
-
-      // Sort by creation time (newest first)
-      allMissions.sort((a, b) => b.createdAt - a.createdAt);
-
-      setBounties(contractBounties);
-      setGigs(contractGigs);
-      setMissions(allMissions);
-      console.log('Set missions state:', allMissions.length, 'total missions');
-      console.log('All missions:', allMissions.map(m => ({ id: m.id, source: m.source, amount: m.amount })));
-
+      setMissions((data.missions as MarketplaceListing[]).map(convertListingToUnified));
+      setTotal(data.total);
+      setCounts(data.counts);
     } catch (error) {
-      console.error('Error fetching bounties:', error);
+      console.error('Error fetching missions:', error);
     } finally {
       setLoading(false);
     }
-  }, [fetchBountyDetails, fetchGigDetails, fetchDatabaseMissions]);
+  }, [filterStatus, currentPage]);
 
-  // useEffect hooks
   useEffect(() => {
-    fetchInitialBounties();
-  }, [fetchInitialBounties]);
+    fetchMissions();
+  }, [fetchMissions]);
 
-  useEffect(() => {
-    const setupWebSocket = async () => {
-      const { watchBountyEvents } = await import('@/lib/cdp/websocket');
-      const unwatch = watchBountyEvents((bountyArgs) => {
-        if (bountyArgs.bountyId) {
-          fetchBountyDetails(bountyArgs.bountyId).then(bounty => {
-            if (bounty) {
-              setBounties(prev => [bounty, ...prev]);
-            }
-          });
-        }
-      });
-      return unwatch;
-    };
-    const cleanup = setupWebSocket();
-    return () => {
-      cleanup.then(unwatch => unwatch?.());
-    };
-  }, [fetchBountyDetails]);
-
-
-  // Filter missions by status
-  const filteredMissions = missions.filter((mission) => {
-    if (filterStatus === 'all') return true;
-    if (filterStatus === 'gigs') return mission.source === 'gig';
-    if (filterStatus === 'open') return mission.status === 'open';
-    if (filterStatus === 'assigned') return mission.status === 'assigned';
-    if (filterStatus === 'completed') return mission.status === 'completed';
-    return true;
-  });
+  // Change filter and go back to page 1
+  const selectFilter = (filter: typeof filterStatus) => {
+    setFilterStatus(filter);
+    setCurrentPage(1);
+  };
+
+  const countByStatus = (status: UnifiedMission['status']) =>
+    counts.filter((c) => c.status === status).reduce((sum, c) => sum + c.total, 0);
+  const gigCount = counts.filter((c) => c.source === 'gig').reduce((sum, c) => sum + c.total, 0);
 
   // Calculate pagination
-  const totalPages = Math.ceil(filteredMissions.length / itemsPerPage);
+  const totalPages = Math.ceil(total / itemsPerPage);
   const startIndex = (currentPage - 1) * itemsPerPage;
   const endIndex = startIndex + itemsPerPage;
-  const paginatedMissions = filteredMissions.slice(startIndex, endIndex);
-
-  // Reset to page 1 when filter changes
-  useEffect(() => {
-    setCurrentPage(1);
-  }, [filterStatus]);
-
-  console.log('Render state:', {
-    loading,
-    totalMissions: missions.length,
-    filterStatus,
-    filteredMissions: filteredMissions.length,
-    currentPage,
-    totalPages,
-    paginatedMissions: paginatedMissions.length,
-  });
 
   const statusLabels = ['Open', 'Assigned', 'Submitted', 'Completed', 'Disputed', 'Cancelled', 'Auto-Released'];
 
@@ -394,7 +150,7 @@ export default function BountiesPage() {
                 STATUS:
               </span>
               <button
-                onClick={() => setFilterStatus('all')}
+                onClick={() => selectFilter('all')}
                 className={`px-3 py-1.5 sm:px-4 sm:py-2 border-2 border-black text-[10px] sm:text-xs font-bold uppercase tracking-wide transition-all duration-300 ${
                   filterStatus === 'all'
                     ? 'bg-black text-white'
@@ -404,44 +160,44 @@ export default function BountiesPage() {
                 ALL MISSIONS
               </button>
               <button
-                onClick={() => setFilterStatus('open')}
+                onClick={() => selectFilter('open')}
                 className={`px-3 py-1.5 sm:px-4 sm:py-2 border-2 border-black text-[10px] sm:text-xs font-bold uppercase tracking-wide transition-all duration-300 ${
                   filterStatus === 'open'
                     ? 'bg-black text-white'
                     : 'bg-white text-black hover:bg-black hover:text-white'
                 }`}
               >
-                ACCEPTING AGENTS ({missions.filter((m) => m.status === 'open').length})
+                ACCEPTING AGENTS ({countByStatus('open')})
               </button>
               <button
-                onClick={() => setFilterStatus('assigned')}
+                onClick={() => selectFilter('assigned')}
                 className={`px-3 py-1.5 sm:px-4 sm:py-2 border-2 border-black text-[10px] sm:text-xs font-bold uppercase tracking-wide transition-all duration-300 ${
                   filterStatus === 'assigned'
                     ? 'bg-black text-white'
                     : 'bg-white text-black hover:bg-black hover:text-white'
                 }`}
               >
-                EXECUTING ({missions.filter((m) => m.status === 'assigned').length})
+                EXECUTING ({countByStatus('assigned')})
               </button>
               <button
-                onClick={() => setFilterStatus('completed')}
+                onClick={() => selectFilter('completed')}
                 className={`px-3 py-1.5 sm:px-4 sm:py-2 border-2 border-black text-[10px] sm:text-xs font-bold uppercase tracking-wide transition-all duration-300 ${
                   filterStatus === 'completed'
                     ? 'bg-black text-white'
                     : 'bg-white text-black hover:bg-black hover:text-white'
                 }`}
               >
-                COMPLETE ({missions.filter((m) => m.status === 'completed').length})
+                COMPLETE ({countByStatus('completed')})
               </button>
               <button
-                onClick={() => setFilterStatus('gigs')}
+                onClick={() => selectFilter('gigs')}
                 className={`px-3 py-1.5 sm:px-4 sm:py-2 border-2 border-black text-[10px] sm:text-xs font-bold uppercase tracking-wide transition-all duration-300 ${
                   filterStatus === 'gigs'
                     ? 'bg-black text-white'
                     : 'bg-white text-black hover:bg-black hover:text-white'
                 }`}
               >
-                GIGS ({missions.filter((m) => m.source === 'gig').length})
+                GIGS ({gigCount})
               </button>
             </div>
           </div>
@@ -453,7 +209,7 @@ export default function BountiesPage() {
             </div>
           )}
 
-          {!loading && filteredMissions.length === 0 && (
+          {!loading && missions.length === 0 && (
             <div className="border-2 border-black p-12 text-center bg-white">
               <div className="mx-auto mb-6 w-16 h-16 border-2 border-black bg-black flex items-center justify-center">
                 <div className="w-8 h-8 bg-white"></div>
@@ -470,10 +226,10 @@ export default function BountiesPage() {
             </div>
           )}
 
-        {!loading && filteredMissions.length > 0 && (
+        {!loading && missions.length > 0 && (
           <>
             <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-              {paginatedMissions.map((mission) => (
+              {missions.map((mission) => (
                 <UnifiedMissionCard key={mission.id} mission={mission} />
               ))}
             </div>
@@ -538,7 +294,7 @@ export default function BountiesPage() {
                 {/* Results Info */}
                 <div className="mt-3 sm:mt-4 text-center">
                   <p className="font-mono text-[10px] sm:text-xs uppercase tracking-wide opacity-60">
-                    Showing {startIndex + 1}-{Math.min(endIndex, filteredMissions.length)} of {filteredMissions.length} missions
+                    Showing {startIndex + 1}-{Math.min(endIndex, total)} of {total} missions
                   </p>
                 </div>
               </div>
@@ -9,6 +9,7 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { UMADisputeForm } from '@/components/gig/uma-dispute-form';
 import { UMAResolutionDisplay } from '@/components/gig/uma-resolution-display';
+import { DisputePreReview } from '@/components/arbitration/DisputePreReview';
 import { Header } from '@/components/layout/header';
 
 enum MilestoneStatus {
@@ -275,6 +276,18 @@ function MilestoneCard({
         </div>
       )}
 
+      {/* Optional automated review before either party escalates */}
+      {status === MilestoneStatus.Submitted && (isClient || isWorker) && (
+        <div className="mb-4">
+          <DisputePreReview
+            subject={{ type: 'gig', gigId: Number(gigId), milestoneIndex }}
+            onEscalate={() => {
+              if (isClient && useUMAArbitration) onDisputeClick();
+            }}
+          />
+        </div>
+      )}
+
       {/* Actions */}
       <div className="flex gap-2 pt-4 border-t-2 border-black">
         {status === MilestoneStatus.Pending && isWorker && (
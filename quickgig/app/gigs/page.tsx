@@ -1,62 +1,121 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Loader, LoadingState } from '@/components/ui/loader';
 import { useAccount } from 'wagmi';
 import Link from 'next/link';
-import { useNextGigId, useGetGig } from '@/lib/contracts/gigEscrow';
 import { Badge } from '@/components/ui/badge';
 import { Header } from '@/components/layout/header';
+import type { MarketplaceCount, MarketplaceListing } from '@/lib/supabase/marketplace';
 
 interface Gig {
   id: number;
   client?: string;
   worker?: string;
-  totalAmount?: number;
+  amount?: number; // USDC
   status?: string;
   useUMAArbitration?: boolean;
   createdAt?: number;
-  milestones?: unknown[];
+  milestoneCount?: number;
   completedMilestones?: number;
 }
 
+type GigFilter = 'all' | 'active' | 'completed' | 'yours';
+
+const PAGE_SIZE = 20;
+
+const STATUS_LABELS: Record<MarketplaceListing['status'], string> = {
+  open: 'Active',
+  assigned: 'Active',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+function toGig(listing: MarketplaceListing): Gig {
+  return {
+    id: Number(listing.entity_id),
+    client: listing.client_address,
+    worker: listing.assigned_worker || undefined,
+    amount: listing.amount,
+    status: STATUS_LABELS[listing.status],
+    useUMAArbitration: listing.use_uma_arbitration || false,
+    createdAt: new Date(listing.created_at).getTime() / 1000,
+    milestoneCount: listing.milestone_count ?? 0,
+    completedMilestones: listing.completed_milestones ?? 0,
+  };
+}
+
+function sumCounts(counts: MarketplaceCount[], status?: MarketplaceCount['status']): number {
+  return counts
+    .filter((c) => c.source === 'gig' && (!status || c.status === status))
+    .reduce((sum, c) => sum + c.total, 0);
+}
+
 export default function GigsPage() {
   const { address } = useAccount();
-  const { data: nextGigId } = useNextGigId();
   const [gigs, setGigs] = useState<Gig[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [filter, setFilter] = useState<GigFilter>('all');
+  const [page, setPage] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [counts, setCounts] = useState<MarketplaceCount[]>([]);
+  const [yourGigs, setYourGigs] = useState(0);
 
-  const totalGigs = nextGigId ? Number(nextGigId) - 1 : 0;
-
-  useEffect(() => {
-    if (totalGigs > 0) {
-      fetchGigs();
-    } else {
-      setIsLoading(false);
-    }
-  }, [totalGigs]);
-
-  const fetchGigs = async () => {
+  // Gigs come from the chain indexer, filtered and paginated server-side
+  const fetchGigs = useCallback(async () => {
     setIsLoading(true);
     try {
-      // Fetch gigs directly by ID (0 to nextGigId-1)
-      const gigsData = [];
-      for (let i = 0; i < totalGigs; i++) {
-        // We'll need to call useGetGig for each ID
-        // For simplicity, we'll show the structure here
-        gigsData.push({
-          id: i,
-          // Will be populated when we implement the actual fetching
-        });
+      const params = new URLSearchParams({ source: 'gig', page: String(page), limit: String(PAGE_SIZE) });
+      if (filter === 'active') params.set('status', 'assigned');
+      if (filter === 'completed') params.set('status', 'completed');
+      if (filter === 'yours' && address) params.set('participant', address);
+
+      const response = await fetch(`/api/missions/list?${params}`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch gigs: ${response.status}`);
       }
-      setGigs(gigsData);
+      const data = await response.json();
+
+      setGigs((data.missions as MarketplaceListing[]).map(toGig));
+      setTotal(data.total);
+      if (filter !== 'yours') setCounts(data.counts);
     } catch (error) {
       console.error('Error fetching gigs:', error);
     } finally {
       setIsLoading(false);
     }
+  }, [filter, page, address]);
+
+  useEffect(() => {
+    fetchGigs();
+  }, [fetchGigs]);
+
+  // Gigs the connected wallet is client or worker on
+  useEffect(() => {
+    if (!address) {
+      setYourGigs(0);
+      return;
+    }
+
+    fetch(`/api/missions/list?source=gig&participant=${address}&limit=1`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setYourGigs(data?.total || 0))
+      .catch((error) => console.error('Error counting your gigs:', error));
+  }, [address]);
+
+  const selectFilter = (next: GigFilter) => {
+    setFilter(next);
+    setPage(1);
   };
 
+  const totalGigs = sumCounts(counts);
+  const totalPages = Math.ceil(total / PAGE_SIZE);
+
+  const filterClass = (value: GigFilter) =>
+    `px-3 py-1.5 sm:px-4 sm:py-2 border-2 border-black font-bold uppercase text-[10px] sm:text-xs transition-colors ${
+      filter === value ? 'bg-black text-white' : 'bg-white text-black md:hover:bg-black md:hover:text-white'
+    }`;
+
   return (
     <div className="min-h-screen bg-white">
       <Header />
@@ -86,32 +145,30 @@ export default function GigsPage() {
           </div>
           <div className="border-2 border-black p-4 sm:p-5 md:p-6 bg-gray-50">
             <p className="font-mono text-[10px] sm:text-xs uppercase opacity-60 mb-1">Your Gigs</p>
-            <p className="font-black text-2xl sm:text-3xl">
-              {address ? gigs.filter(g => g.client === address || g.worker === address).length : 0}
-            </p>
+            <p className="font-black text-2xl sm:text-3xl">{yourGigs}</p>
           </div>
           <div className="border-2 border-black p-4 sm:p-5 md:p-6 bg-gray-50">
             <p className="font-mono text-[10px] sm:text-xs uppercase opacity-60 mb-1">Active</p>
-            <p className="font-black text-2xl sm:text-3xl">
-              {gigs.filter(g => g.status === 'Active').length}
-            </p>
+            <p className="font-black text-2xl sm:text-3xl">{sumCounts(counts, 'assigned')}</p>
           </div>
         </div>
 
         {/* Filters */}
         <div className="mb-4 sm:mb-5 md:mb-6 flex gap-1.5 sm:gap-2 flex-wrap">
-          <button className="px-3 py-1.5 sm:px-4 sm:py-2 border-2 border-black bg-black text-white font-bold uppercase text-[10px] sm:text-xs">
+          <button onClick={() => selectFilter('all')} className={filterClass('all')}>
             ALL
           </button>
-          <button className="px-3 py-1.5 sm:px-4 sm:py-2 border-2 border-black bg-white text-black font-bold uppercase text-[10px] sm:text-xs md:hover:bg-black md:hover:text-white transition-colors">
+          <button onClick={() => selectFilter('active')} className={filterClass('active')}>
             ACTIVE
           </button>
-          <button className="px-3 py-1.5 sm:px-4 sm:py-2 border-2 border-black bg-white text-black font-bold uppercase text-[10px] sm:text-xs md:hover:bg-black md:hover:text-white transition-colors">
+          <button onClick={() => selectFilter('completed')} className={filterClass('completed')}>
             COMPLETED
           </button>
-          <button className="px-3 py-1.5 sm:px-4 sm:py-2 border-2 border-black bg-white text-black font-bold uppercase text-[10px] sm:text-xs md:hover:bg-black md:hover:text-white transition-colors">
-            YOUR GIGS
-          </button>
+          {address && (
+            <button onClick={() => selectFilter('yours')} className={filterClass('yours')}>
+              YOUR GIGS
+            </button>
+          )}
         </div>
 
         {/* Gigs List */}
@@ -119,7 +176,7 @@ export default function GigsPage() {
           <div className="border-2 border-black p-8 sm:p-10 md:p-12 text-center">
             <LoadingState size="lg" />
           </div>
-        ) : totalGigs === 0 ? (
+        ) : gigs.length === 0 ? (
           <div className="border-2 border-black p-8 sm:p-10 md:p-12 text-center">
             <p className="font-black text-lg sm:text-xl uppercase mb-1.5 sm:mb-2">NO GIGS YET</p>
             <p className="font-mono text-[10px] sm:text-xs md:text-sm opacity-60 mb-4 sm:mb-5 md:mb-6">
@@ -156,7 +213,7 @@ export default function GigsPage() {
                     <div className="text-left sm:text-right">
                       <p className="font-mono text-[10px] sm:text-xs opacity-60 mb-1">Total Value</p>
                       <p className="font-black text-xl sm:text-2xl">
-                        ${((gig.totalAmount || 0) / 1_000_000).toFixed(2)}
+                        ${(gig.amount || 0).toFixed(2)}
                       </p>
                     </div>
                   </div>
@@ -179,7 +236,7 @@ export default function GigsPage() {
                   <div className="mt-3 sm:mt-4 pt-3 sm:pt-4 border-t-2 border-black">
                     <div className="flex items-center justify-between">
                       <p className="font-mono text-[10px] sm:text-xs opacity-60">
-                        {gig.milestones?.length || 0} Milestones • {gig.completedMilestones || 0} Completed
+                        {gig.milestoneCount || 0} Milestones • {gig.completedMilestones || 0} Completed
                       </p>
                       <p className="font-mono text-[10px] sm:text-xs font-bold uppercase">
                         VIEW DETAILS →
@@ -191,6 +248,29 @@ export default function GigsPage() {
             ))}
           </div>
         )}
+
+        {/* Pagination */}
+        {!isLoading && totalPages > 1 && (
+          <div className="mt-4 sm:mt-6 flex items-center justify-between gap-3">
+            <button
+              onClick={() => setPage((prev) => Math.max(1, prev - 1))}
+              disabled={page === 1}
+              className="px-3 py-1.5 sm:px-4 sm:py-2 border-2 border-black bg-white text-black font-bold uppercase text-[10px] sm:text-xs md:hover:bg-black md:hover:text-white transition-colors disabled:opacity-40"
+            >
+              ← PREVIOUS
+            </button>
+            <p className="font-mono text-[10px] sm:text-xs uppercase opacity-60">
+              PAGE {page} OF {totalPages}
+            </p>
+            <button
+              onClick={() => setPage((prev) => Math.min(totalPages, prev + 1))}
+              disabled={page === totalPages}
+              className="px-3 py-1.5 sm:px-4 sm:py-2 border-2 border-black bg-white text-black font-bold uppercase text-[10px] sm:text-xs md:hover:bg-black md:hover:text-white transition-colors disabled:opacity-40"
+            >
+              NEXT →
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
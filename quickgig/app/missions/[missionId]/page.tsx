@@ -11,7 +11,9 @@ import Link from 'next/link';
 import { useAccount } from 'wagmi';
 import { toast } from 'sonner';
 import { parseUnits, type Address } from 'viem';
-import { useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
+import { useWriteContract, useWaitForTransactionReceipt, useSignMessage } from 'wagmi';
+import { ensureWalletSession } from '@/lib/auth/client';
+import { getLinkedTokenId } from '@/lib/erc8004/unified-discovery';
 import { FeedbackModal } from '@/components/missions/feedback-modal';
 import { ValidationRequestModal } from '@/components/missions/validation-request-modal';
 import { DisputeModal } from '@/components/missions/dispute-modal';
@@ -29,7 +31,7 @@ interface Mission {
   client_address: string;
   description?: string;
   total_budget: number;
-  orchestration_mode: 'sequential' | 'parallel';
+  orchestration_mode: 'sequential' | 'parallel' | 'dag';
   status: 'pending' | 'in_progress' | 'submitted' | 'validating' | 'disputing' | 'completed' | 'failed' | 'cancelled' | 'funded' | 'approved' | 'auto_released';
   escrow_tx_hash?: string;
   escrow_contract_id?: number;
@@ -61,12 +63,14 @@ interface MissionExecution {
   id: number;
   mission_id: string;
   agent_id: string;
-  status: 'pending' | 'executing' | 'completed' | 'failed';
+  status: 'pending' | 'executing' | 'completed' | 'failed' | 'skipped' | 'replaced';
   result_data?: Record<string, unknown>;
   deliverable_uri?: string;
   tx_hash?: string;
   paid_amount?: number;
   error_message?: string;
+  attempts?: number;
+  fallback_for?: string;
   started_at?: string;
   completed_at?: string;
   created_at: string;
@@ -80,6 +84,8 @@ interface AgentProfile {
   agent_type: 'ai' | 'human';
   reputation_score: number;
   avatar_url?: string;
+  erc8004_token_id?: string | null;
+  erc8004_registry?: string | null;
 }
 
 const USDC_ADDRESS = '0x036CbD53842c5426634e7929541eC2318f3dCF7e' as Address;
@@ -100,7 +106,8 @@ const ERC20_ABI = [
 export default function MissionDetailPage({ params }: { params: Promise<{ missionId: string }> }) {
   const router = useRouter();
   const { missionId } = use(params);
-  const { address: walletAddress, isConnected } = useAccount();
+  const { address: walletAddress, isConnected, chainId } = useAccount();
+  const { signMessageAsync } = useSignMessage();
 
   const [mission, setMission] = useState<Mission | null>(null);
   const [agents, setAgents] = useState<MissionAgent[]>([]);
@@ -279,7 +286,7 @@ export default function MissionDetailPage({ params }: { params: Promise<{ missio
       return;
     }
 
-    if (!walletAddress || !isConnected) {
+    if (!walletAddress || !isConnected || !chainId) {
       toast.error('Please connect your wallet to submit feedback');
       return;
     }
@@ -292,21 +299,18 @@ export default function MissionDetailPage({ params }: { params: Promise<{ missio
       return;
     }
 
-    // Map database agent ID to ERC-8004 NFT token ID
-    const agentIdMapping: Record<string, string> = {
-      'agent_1760886157698_lzy2czh83': '2', // LogoMaster AI
-      'agent_1760886159008_0qns6xy6u': '3', // CopyWriter AI
-      'agent_1760886159300_zitacvck8': '4', // SocialMedia AI
-    };
-
-    const erc8004AgentId = agentIdMapping[firstAgent.agent_id];
+    // ERC-8004 NFT token ID linked on the agent profile
+    const erc8004AgentId = getLinkedTokenId(agentProfile);
     if (!erc8004AgentId) {
       toast.error('Agent not registered in ERC-8004 registry');
-      console.error('No ERC-8004 mapping for agent:', firstAgent.agent_id);
+      console.error('No ERC-8004 token linked to agent:', firstAgent.agent_id);
       return;
     }
 
     try {
+      // Feedback is scoped to the signed-in wallet
+      await ensureWalletSession({ address: walletAddress, chainId, signMessage: signMessageAsync });
+
       // Step 1: Generate feedbackAuth signature from agent
       toast.info('Generating feedback authorization...');
       console.log('[Feedback] Generating auth for:', {
@@ -319,6 +323,7 @@ export default function MissionDetailPage({ params }: { params: Promise<{ missio
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           agentId: erc8004AgentId,
+          missionId, // Only clients of a completed mission can rate its agents
           clientAddress: walletAddress,
           indexLimit: 10, // Allow up to 10 feedback submissions
           expiryHours: 24, // Valid for 24 hours
@@ -344,7 +349,7 @@ export default function MissionDetailPage({ params }: { params: Promise<{ missio
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          agentId: erc8004AgentId, // ERC-8004 NFT token ID (2, 3, or 4)
+          agentId: erc8004AgentId, // ERC-8004 NFT token ID
           rating,
           comment,
           userAddress: walletAddress,
@@ -660,7 +665,11 @@ export default function MissionDetailPage({ params }: { params: Promise<{ missio
                 <div className="space-y-4">
                   {agents.map((agent, idx) => {
                     const profile = agentProfiles[agent.agent_id];
-                    const execution = executions.find(e => e.agent_id === agent.agent_id);
+                    const primaryExecution = executions.find(e => e.agent_id === agent.agent_id);
+                    // A replaced step continues in the latest fallback agent's execution
+                    const execution = primaryExecution?.status === 'replaced'
+                      ? executions.filter(e => e.fallback_for === agent.agent_id).at(-1) || primaryExecution
+                      : primaryExecution;
 
                     return (
                       <div key={agent.id} className="border-2 border-black p-4">
@@ -684,6 +693,11 @@ export default function MissionDetailPage({ params }: { params: Promise<{ missio
                             <span className="font-mono uppercase">
                               {execution.status}
                             </span>
+                            {execution.fallback_for && (
+                              <span className="font-mono opacity-60">
+                                (FALLBACK: {agentProfiles[execution.agent_id]?.name || execution.agent_id})
+                              </span>
+                            )}
                           </div>
                         )}
 
@@ -9,7 +9,13 @@ import { useAccount, useWriteContract, usePublicClient } from 'wagmi';
 import { parseEther } from 'viem';
 import ERC8004RegistryABI from '@/lib/contracts/abis/ERC8004Registry.json';
 import { CONTRACTS } from '@/lib/contracts/addresses';
-import { COMMON_CAPABILITIES } from '@/lib/erc8004/types';
+import { useCapabilityTaxonomy } from '@/lib/capabilities/hooks';
+import {
+  getChildCapabilities,
+  getRootCapabilities,
+  normalizeCapabilityTerm,
+  resolveCapability,
+} from '@/lib/capabilities/taxonomy';
 import { toast } from 'sonner';
 import { useRouter } from 'next/navigation';
 import { useRegisterAgent } from '@/lib/erc8004/official-hooks';
@@ -45,6 +51,7 @@ export default function RegisterPage() {
   const [agentType, setAgentType] = useState<AgentType>(0);
   const [selectedCapabilities, setSelectedCapabilities] = useState<string[]>([]);
   const [customCapability, setCustomCapability] = useState('');
+  const { data: taxonomy, isLoading: isLoadingCapabilities } = useCapabilityTaxonomy();
   const [agentCardData, setAgentCardData] = useState<AgentCardData>({
     name: '',
     description: '',
@@ -74,13 +81,20 @@ export default function RegisterPage() {
     }
   };
 
+  // Synonyms resolve to the capability they belong to, e.g. "brand mark" -> logo-design
   const handleAddCustomCapability = () => {
-    if (customCapability.trim() && !selectedCapabilities.includes(customCapability.trim())) {
-      setSelectedCapabilities([...selectedCapabilities, customCapability.trim()]);
+    const known = taxonomy && resolveCapability(taxonomy, customCapability);
+    const capability = known ? known.slug : normalizeCapabilityTerm(customCapability);
+
+    if (capability && !selectedCapabilities.includes(capability)) {
+      setSelectedCapabilities([...selectedCapabilities, capability]);
       setCustomCapability('');
     }
   };
 
+  const getCapabilityLabel = (capability: string) =>
+    taxonomy?.bySlug.get(capability)?.name || capability.replace(/-/g, ' ');
+
   const handleRegister = async () => {
     if (!isConnected || !address || !publicClient) {
       toast.error('Please connect your wallet');
@@ -477,27 +491,33 @@ export default function RegisterPage() {
               </p>
 
               <div className="space-y-4 sm:space-y-5 md:space-y-6">
-                {/* Common Capabilities */}
-                <div>
-                  <h3 className="font-bold text-[10px] sm:text-xs uppercase tracking-wide text-black mb-2 sm:mb-3 opacity-60">
-                    COMMON CAPABILITIES
-                  </h3>
-                  <div className="flex flex-wrap gap-1.5 sm:gap-2">
-                    {COMMON_CAPABILITIES.map((capability) => (
-                      <button
-                        key={capability}
-                        onClick={() => handleCapabilityToggle(capability)}
-                        className={`px-2.5 py-1.5 sm:px-3 sm:py-2 md:px-4 md:py-2 border-2 border-black font-mono text-[10px] sm:text-xs uppercase tracking-wide transition-all duration-300 ${
-                          selectedCapabilities.includes(capability)
-                            ? 'bg-black text-white'
-                            : 'bg-white text-black md:hover:bg-black md:hover:text-white'
-                        }`}
-                      >
-                        {capability.replace('-', ' ')}
-                      </button>
-                    ))}
+                {/* Capabilities by category */}
+                {isLoadingCapabilities && (
+                  <p className="font-mono text-[10px] sm:text-xs text-black opacity-60">Loading capabilities...</p>
+                )}
+                {taxonomy && getRootCapabilities(taxonomy).map((category) => (
+                  <div key={category.slug}>
+                    <h3 className="font-bold text-[10px] sm:text-xs uppercase tracking-wide text-black mb-2 sm:mb-3 opacity-60">
+                      {category.name}
+                    </h3>
+                    <div className="flex flex-wrap gap-1.5 sm:gap-2">
+                      {[category, ...getChildCapabilities(taxonomy, category.slug)].map((capability) => (
+                        <button
+                          key={capability.slug}
+                          onClick={() => handleCapabilityToggle(capability.slug)}
+                          title={capability.synonyms.length > 0 ? `Also: ${capability.synonyms.join(', ')}` : undefined}
+                          className={`px-2.5 py-1.5 sm:px-3 sm:py-2 md:px-4 md:py-2 border-2 border-black font-mono text-[10px] sm:text-xs uppercase tracking-wide transition-all duration-300 ${
+                            selectedCapabilities.includes(capability.slug)
+                              ? 'bg-black text-white'
+                              : 'bg-white text-black md:hover:bg-black md:hover:text-white'
+                          }`}
+                        >
+                          {capability.slug === category.slug ? `General ${capability.name}` : capability.name}
+                        </button>
+                      ))}
+                    </div>
                   </div>
-                </div>
+                ))}
 
                 {/* Custom Capability */}
                 <div>
@@ -526,7 +546,7 @@ export default function RegisterPage() {
                     <div className="flex flex-wrap gap-1.5 sm:gap-2">
                       {selectedCapabilities.map((capability) => (
                         <div key={capability} className="inline-flex items-center gap-1.5 sm:gap-2 px-2 py-1 sm:px-3 sm:py-1 border-2 border-black bg-black text-white font-mono text-[10px] sm:text-xs uppercase">
-                          {capability.replace('-', ' ')}
+                          {getCapabilityLabel(capability)}
                           <button
                             onClick={() => handleCapabilityToggle(capability)}
                             className="md:hover:opacity-60 font-bold text-xs sm:text-sm"
@@ -667,7 +687,7 @@ export default function RegisterPage() {
                     <div className="flex flex-wrap gap-1.5 sm:gap-2">
                       {selectedCapabilities.map((cap) => (
                         <div key={cap} className="px-2 py-1 sm:px-3 sm:py-1 border-2 border-black bg-black text-white font-mono text-[10px] sm:text-xs uppercase">
-                          {cap.replace('-', ' ')}
+                          {getCapabilityLabel(cap)}
                         </div>
                       ))}
                     </div>
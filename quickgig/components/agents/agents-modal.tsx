@@ -6,7 +6,7 @@ import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Loader, LoadingState } from '@/components/ui/loader';
 import { useDiscoverByCapability, useGetAgent, useGetTrustScore, type AgentCard as AgentCardType } from '@/lib/erc8004/discovery';
-import { COMMON_CAPABILITIES } from '@/lib/erc8004/types';
+import { useCapabilityTaxonomy } from '@/lib/capabilities/hooks';
 import { formatAddress } from '@/lib/utils';
 
 interface AgentsModalProps {
@@ -22,6 +22,10 @@ export function AgentsModal({ isOpen, onClose, onSelectAgent }: AgentsModalProps
   const { data: agentIdsData, isLoading } = useDiscoverByCapability(selectedCapability);
   const agentIds = (agentIdsData as string[] | undefined) || [];
 
+  // The registry matches exact strings, so offer specific capabilities rather than categories
+  const { data: taxonomy } = useCapabilityTaxonomy();
+  const capabilities = taxonomy?.capabilities.filter((capability) => capability.parent_slug) || [];
+
   if (!isOpen) return null;
 
   return (
@@ -67,18 +71,18 @@ export function AgentsModal({ isOpen, onClose, onSelectAgent }: AgentsModalProps
                 Search by Capability
               </h3>
               <div className="flex flex-wrap gap-1.5 sm:gap-2">
-                {COMMON_CAPABILITIES.slice(0, 12).map((capability) => (
+                {capabilities.slice(0, 12).map((capability) => (
                   <button
-                    key={capability}
-                    onClick={() => setSelectedCapability(capability)}
+                    key={capability.slug}
+                    onClick={() => setSelectedCapability(capability.slug)}
                     style={{ borderRadius: 0 }}
                     className={`px-2.5 py-1.5 sm:px-3 sm:py-2 md:px-4 text-[10px] sm:text-xs md:text-sm font-medium transition-all duration-200 uppercase tracking-wide bricolage-grotesque ${
-                      selectedCapability === capability
+                      selectedCapability === capability.slug
                         ? 'bg-[#9061FF] text-white glow-purple'
                         : 'glass-card text-foreground md:hover:bg-white/90'
                     }`}
                   >
-                    {capability.replace('-', ' ')}
+                    {capability.name}
                   </button>
                 ))}
               </div>
@@ -1,12 +1,15 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Loader } from '@/components/ui/loader';
 import type { RecommendedAgent } from '@/lib/ai/agent-recommender';
+import type { AgentCapacity } from '@/lib/orchestrator/heartbeats';
 import { toast } from 'sonner';
-import { useAccount } from 'wagmi';
+import { useAccount, useSignMessage } from 'wagmi';
+import { ensureWalletSession } from '@/lib/auth/client';
 
 interface MissionWizardProps {
   open: boolean;
@@ -15,8 +18,26 @@ interface MissionWizardProps {
   onSuccess?: () => void;
 }
 
+/**
+ * Current capacity of each agent, from its heartbeats
+ * Agents whose capacity can't be loaded are left out of the map
+ */
+async function fetchAgentCapacities(agentIds: string[]): Promise<Map<string, AgentCapacity>> {
+  const results = await Promise.all(
+    agentIds.map(async (agentId) => {
+      const response = await fetch(`/api/agents/${encodeURIComponent(agentId)}/heartbeat`);
+      if (!response.ok) return null;
+      const data = await response.json();
+      return [agentId, data.capacity as AgentCapacity] as const;
+    })
+  );
+
+  return new Map(results.filter((result) => result !== null));
+}
+
 export function MissionWizard({ open, onClose, selectedAgents, onSuccess }: MissionWizardProps) {
-  const { address } = useAccount();
+  const { address, chainId } = useAccount();
+  const { signMessageAsync } = useSignMessage();
   const [step, setStep] = useState<'details' | 'requirements' | 'review'>('details');
   const [missionTitle, setMissionTitle] = useState('');
   const [missionDescription, setMissionDescription] = useState('');
@@ -24,7 +45,23 @@ export function MissionWizard({ open, onClose, selectedAgents, onSuccess }: Miss
   const [orchestrationMode, setOrchestrationMode] = useState<'sequential' | 'parallel'>('sequential');
   const [isDeploying, setIsDeploying] = useState(false);
 
-  const agents = Array.from(selectedAgents.values());
+  const selected = Array.from(selectedAgents.values());
+  const agentIds = selected.map((agent) => agent.agentId.toString());
+
+  // Recommendations can be minutes old - agents that went unhealthy or full since are skipped
+  const { data: capacities } = useQuery({
+    queryKey: ['agent-capacity', agentIds],
+    queryFn: () => fetchAgentCapacities(agentIds),
+    enabled: open && agentIds.length > 0,
+    refetchInterval: 30_000,
+  });
+  const getUnavailableReason = (agent: RecommendedAgent) => {
+    const capacity = capacities?.get(agent.agentId.toString());
+    return capacity && !capacity.acceptingWork ? capacity.reason : null;
+  };
+
+  const agents = selected.filter((agent) => !getUnavailableReason(agent));
+  const skippedAgents = selected.filter((agent) => getUnavailableReason(agent));
   const totalCost = agents.reduce((sum, agent) => sum + (agent.pricing?.perTask || 0), 0);
 
   const handleRequirementChange = (capability: string, value: string) => {
@@ -32,7 +69,7 @@ export function MissionWizard({ open, onClose, selectedAgents, onSuccess }: Miss
   };
 
   const handleDeploy = async () => {
-    if (!address) {
+    if (!address || !chainId) {
       toast.error('Please connect your wallet');
       return;
     }
@@ -42,9 +79,17 @@ export function MissionWizard({ open, onClose, selectedAgents, onSuccess }: Miss
       return;
     }
 
+    if (agents.length === 0) {
+      toast.error('None of the selected agents is taking work right now');
+      return;
+    }
+
     setIsDeploying(true);
 
     try {
+      // Deploying is scoped to the signed-in wallet
+      await ensureWalletSession({ address, chainId, signMessage: signMessageAsync });
+
       const response = await fetch('/api/missions/deploy', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -228,6 +273,20 @@ export function MissionWizard({ open, onClose, selectedAgents, onSuccess }: Miss
               <div className="font-bold text-sm">${agent.pricing?.perTask || 0}</div>
             </div>
           ))}
+          {skippedAgents.map((agent) => (
+            <div
+              key={agent.agentId.toString()}
+              className="flex items-center justify-between py-2 border-b border-gray-200 last:border-0 opacity-50"
+            >
+              <div>
+                <div className="font-mono text-sm line-through">{agent.name}</div>
+                <div className="font-mono text-[10px] text-gray-500 uppercase">
+                  Skipped - {getUnavailableReason(agent)}
+                </div>
+              </div>
+              <div className="font-bold text-sm line-through">${agent.pricing?.perTask || 0}</div>
+            </div>
+          ))}
         </div>
       </div>
 
@@ -245,7 +304,7 @@ export function MissionWizard({ open, onClose, selectedAgents, onSuccess }: Miss
         <Button variant="outline" onClick={() => setStep('requirements')} disabled={isDeploying}>
           BACK
         </Button>
-        <Button onClick={handleDeploy} disabled={isDeploying} className="px-8">
+        <Button onClick={handleDeploy} disabled={isDeploying || agents.length === 0} className="px-8">
           {isDeploying ? (
             <>
               <Loader size="sm" className="mr-2" />
@@ -1,78 +1,55 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
+import Link from 'next/link';
 import { useAccount } from 'wagmi';
 import { toast } from 'sonner';
-import {
-  useGetDispute,
-  useGetVotes,
-  useGetEvidences,
-  useHasVoted,
-  useVote,
-  useFinalizeIfExpired,
-} from '@/lib/contracts/simpleArbitrator';
+import { useVote, useFinalizeIfExpired } from '@/lib/contracts/simpleArbitrator';
+import type { DocketCase } from '@/lib/supabase/arbitration';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import type { Hex } from 'viem';
 
 interface ArbitratorCaseCardProps {
-  caseId: Hex;
+  docketCase: DocketCase;
+  onUpdated?: () => void; // Called after a vote or finalize goes through, to reload the docket
 }
 
-export function ArbitratorCaseCard({ caseId }: ArbitratorCaseCardProps) {
+// Where the disputed work lives, by the escrow that opened the case
+const ENTITY_LINKS: Record<NonNullable<DocketCase['entity_type']>, ((id: number) => string) | null> = {
+  bounty: (id) => `/bounties/${id}`,
+  gig: (id) => `/gigs/${id}`,
+  mission: null, // Escrow mission IDs aren't the /missions page's IDs
+};
+
+export function ArbitratorCaseCard({ docketCase, onUpdated }: ArbitratorCaseCardProps) {
   const { address } = useAccount();
   const [clientBps, setClientBps] = useState('5000'); // Default 50/50 split
   const [showVoteForm, setShowVoteForm] = useState(false);
 
-  // Fetch case data
-  const { data: dispute, refetch: refetchDispute } = useGetDispute(caseId);
-  const { data: votesData, refetch: refetchVotes } = useGetVotes(caseId);
-  const votes = votesData as Array<{ arbitrator: string; clientBps: bigint }> | undefined;
-  const { data: evidencesData } = useGetEvidences(caseId);
-  const evidences = evidencesData as Array<{ submitter: string; timestamp: bigint; ipfsURI: string }> | undefined;
-  const { data: hasVotedData } = useHasVoted(caseId, address || '0x');
-  const hasVoted = hasVotedData as boolean | undefined;
-
   // Write hooks
   const { vote, isPending: isVoting } = useVote();
   const { finalizeIfExpired, isPending: isFinalizing } = useFinalizeIfExpired();
 
-  if (!dispute) {
-    return (
-      <Card>
-        <div className="p-6">
-          <p className="font-mono text-xs text-black opacity-60">Loading case...</p>
-        </div>
-      </Card>
-    );
-  }
-
-  const [
-    bountyId,
-    escrowContract,
-    client,
-    worker,
-    amount,
-    reason,
-    createdAt,
-    votingDeadline,
-    status,
-    appealed,
-    finalClientBps,
-  ] = dispute as [bigint, string, string, string, bigint, string, bigint, bigint, number, boolean, bigint];
+  const caseId = docketCase.case_id as Hex;
+  const isActive = docketCase.status === 'active';
+  const hasVoted = docketCase.has_voted ?? (!!address && docketCase.voters.includes(address.toLowerCase()));
 
   // Calculate time remaining
-  const now = Math.floor(Date.now() / 1000);
-  const deadline = Number(votingDeadline);
-  const timeRemaining = deadline - now;
+  const deadline = new Date(docketCase.voting_deadline).getTime() / 1000;
+  const timeRemaining = deadline - Math.floor(Date.now() / 1000);
   const daysRemaining = Math.floor(timeRemaining / 86400);
   const hoursRemaining = Math.floor((timeRemaining % 86400) / 3600);
   const isExpired = timeRemaining <= 0;
 
-  // Status labels
-  const statusLabels = ['ACTIVE', 'RESOLVED', 'APPEALED'];
-  const statusLabel = statusLabels[Number(status)] || 'UNKNOWN';
+  const entityLabel = docketCase.entity_type
+    ? `${docketCase.entity_type.toUpperCase()} #${docketCase.entity_id}`
+    : `Escrow ${docketCase.escrow_contract.slice(0, 10)}... #${docketCase.entity_id}`;
+  const entityLink = docketCase.entity_type ? ENTITY_LINKS[docketCase.entity_type] : null;
+
+  const roundVotes = docketCase.votes.filter((v) => v.round === docketCase.round);
+  const earlierVotes = docketCase.votes.filter((v) => v.round !== docketCase.round);
 
   // Handle vote submission
   const handleVote = async () => {
@@ -84,12 +61,9 @@ export function ArbitratorCaseCard({ caseId }: ArbitratorCaseCardProps) {
 
     try {
       await vote(caseId, BigInt(bps));
-      toast.success('Vote submitted!');
+      toast.success('Vote submitted! The docket updates once the vote is indexed.');
       setShowVoteForm(false);
-      setTimeout(() => {
-        refetchDispute();
-        refetchVotes();
-      }, 2000);
+      onUpdated?.();
     } catch (error) {
       console.error('Vote error:', error);
       toast.error('Failed to submit vote');
@@ -101,13 +75,30 @@ export function ArbitratorCaseCard({ caseId }: ArbitratorCaseCardProps) {
     try {
       await finalizeIfExpired(caseId);
       toast.success('Dispute finalized!');
-      setTimeout(() => refetchDispute(), 2000);
+      onUpdated?.();
     } catch (error) {
       console.error('Finalize error:', error);
       toast.error('Failed to finalize dispute');
     }
   };
 
+  const renderVote = (v: DocketCase['votes'][number], idx: number) => {
+    const clientPercent = v.client_bps / 100;
+    const workerPercent = 100 - clientPercent;
+    return (
+      <div key={idx} className="border-2 border-black p-3">
+        <div className="flex items-center justify-between">
+          <span className="font-mono text-xs">
+            Arbitrator: {v.arbitrator.slice(0, 10)}...
+          </span>
+          <span className="font-bold">
+            {clientPercent}% Client / {workerPercent}% Worker
+          </span>
+        </div>
+      </div>
+    );
+  };
+
   return (
     <Card className="overflow-hidden">
       {/* Header */}
@@ -117,13 +108,20 @@ export function ArbitratorCaseCard({ caseId }: ArbitratorCaseCardProps) {
             <h3 className="font-black text-lg uppercase tracking-tight">
               Case #{caseId.slice(0, 10)}...
             </h3>
-            <p className="font-mono text-xs opacity-80">
-              Bounty #{bountyId.toString()}
-            </p>
+            {entityLink ? (
+              <Link href={entityLink(docketCase.entity_id)} className="font-mono text-xs opacity-80 hover:underline">
+                {entityLabel}
+              </Link>
+            ) : (
+              <p className="font-mono text-xs opacity-80">{entityLabel}</p>
+            )}
+          </div>
+          <div className="flex gap-2">
+            {docketCase.appealed && <Badge variant="warning">APPEALED</Badge>}
+            <Badge variant={isActive ? 'default' : 'success'}>
+              {isActive ? 'ACTIVE' : 'RESOLVED'}
+            </Badge>
           </div>
-          <Badge variant={status === 0 ? 'default' : status === 1 ? 'warning' : 'error'}>
-            {statusLabel}
-          </Badge>
         </div>
       </div>
 
@@ -135,13 +133,13 @@ export function ArbitratorCaseCard({ caseId }: ArbitratorCaseCardProps) {
             <label className="font-mono text-xs uppercase tracking-wide text-black opacity-60">
               Client
             </label>
-            <p className="font-mono text-xs break-all">{client}</p>
+            <p className="font-mono text-xs break-all">{docketCase.client_address}</p>
           </div>
           <div>
             <label className="font-mono text-xs uppercase tracking-wide text-black opacity-60">
               Worker
             </label>
-            <p className="font-mono text-xs break-all">{worker}</p>
+            <p className="font-mono text-xs break-all">{docketCase.worker_address}</p>
           </div>
         </div>
 
@@ -150,58 +148,67 @@ export function ArbitratorCaseCard({ caseId }: ArbitratorCaseCardProps) {
           <label className="font-mono text-xs uppercase tracking-wide text-black opacity-60">
             Amount in Dispute
           </label>
-          <p className="font-bold text-2xl">{(Number(amount) / 1e6).toFixed(2)} USDC</p>
+          <p className="font-bold text-2xl">{(Number(docketCase.amount) / 1e6).toFixed(2)} USDC</p>
         </div>
 
         {/* Reason */}
-        <div>
-          <label className="font-mono text-xs uppercase tracking-wide text-black opacity-60">
-            Dispute Reason
-          </label>
-          <p className="font-mono text-sm mt-1">{reason}</p>
-        </div>
+        {docketCase.reason && (
+          <div>
+            <label className="font-mono text-xs uppercase tracking-wide text-black opacity-60">
+              Dispute Reason
+            </label>
+            <p className="font-mono text-sm mt-1">{docketCase.reason}</p>
+          </div>
+        )}
 
         {/* Deadline */}
-        <div>
-          <label className="font-mono text-xs uppercase tracking-wide text-black opacity-60">
-            Voting Deadline
-          </label>
-          <p className="font-bold text-lg">
-            {isExpired ? (
-              <span className="text-red-600">EXPIRED</span>
-            ) : (
-              `${daysRemaining}d ${hoursRemaining}h remaining`
+        {isActive && (
+          <div>
+            <label className="font-mono text-xs uppercase tracking-wide text-black opacity-60">
+              Voting Deadline
+            </label>
+            <p className="font-bold text-lg">
+              {isExpired ? (
+                <span className="text-red-600">EXPIRED</span>
+              ) : (
+                `${daysRemaining}d ${hoursRemaining}h remaining`
+              )}
+            </p>
+            <p className="font-mono text-xs opacity-60">
+              {new Date(deadline * 1000).toLocaleString()}
+            </p>
+            {isExpired && roundVotes.length < 2 && (
+              <p className="font-mono text-xs text-red-600 mt-1">
+                No quorum - the case can&apos;t be finalized
+              </p>
             )}
-          </p>
-          <p className="font-mono text-xs opacity-60">
-            {new Date(deadline * 1000).toLocaleString()}
-          </p>
-        </div>
+          </div>
+        )}
 
         {/* Evidence */}
-        {evidences && Array.isArray(evidences) && evidences.length > 0 && (
+        {docketCase.evidence.length > 0 && (
           <div>
             <label className="font-mono text-xs uppercase tracking-wide text-black opacity-60 mb-2 block">
-              Evidence ({evidences.length})
+              Evidence ({docketCase.evidence.length})
             </label>
             <div className="space-y-2">
-              {evidences.map((evidence: { submitter: string; timestamp: bigint; ipfsURI: string }, idx: number) => (
+              {docketCase.evidence.map((evidence, idx) => (
                 <div key={idx} className="border-2 border-black p-3">
                   <div className="flex items-center justify-between mb-1">
                     <span className="font-mono text-xs opacity-60">
                       Submitted by: {evidence.submitter.slice(0, 10)}...
                     </span>
                     <span className="font-mono text-xs opacity-60">
-                      {new Date(Number(evidence.timestamp) * 1000).toLocaleDateString()}
+                      {new Date(evidence.submitted_at).toLocaleDateString()}
                     </span>
                   </div>
                   <a
-                    href={evidence.ipfsURI.replace('ipfs://', 'https://ipfs.io/ipfs/')}
+                    href={evidence.uri.replace('ipfs://', 'https://ipfs.io/ipfs/')}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="font-mono text-xs text-blue-600 hover:underline break-all"
                   >
-                    {evidence.ipfsURI}
+                    {evidence.uri}
                   </a>
                 </div>
               ))}
@@ -210,34 +217,26 @@ export function ArbitratorCaseCard({ caseId }: ArbitratorCaseCardProps) {
         )}
 
         {/* Votes */}
-        {votes && Array.isArray(votes) && votes.length > 0 && (
+        {roundVotes.length > 0 && (
           <div>
             <label className="font-mono text-xs uppercase tracking-wide text-black opacity-60 mb-2 block">
-              Votes ({votes.length}/2 required)
+              Votes ({roundVotes.length}/2 required)
             </label>
-            <div className="space-y-2">
-              {votes.map((vote: { arbitrator: string; clientBps: bigint }, idx: number) => {
-                const clientPercent = Number(vote.clientBps) / 100;
-                const workerPercent = 100 - clientPercent;
-                return (
-                  <div key={idx} className="border-2 border-black p-3">
-                    <div className="flex items-center justify-between">
-                      <span className="font-mono text-xs">
-                        Arbitrator: {vote.arbitrator.slice(0, 10)}...
-                      </span>
-                      <span className="font-bold">
-                        {clientPercent}% Client / {workerPercent}% Worker
-                      </span>
-                    </div>
-                  </div>
-                );
-              })}
-            </div>
+            <div className="space-y-2">{roundVotes.map(renderVote)}</div>
+          </div>
+        )}
+
+        {earlierVotes.length > 0 && (
+          <div>
+            <label className="font-mono text-xs uppercase tracking-wide text-black opacity-60 mb-2 block">
+              Votes Before Appeal ({earlierVotes.length})
+            </label>
+            <div className="space-y-2 opacity-60">{earlierVotes.map(renderVote)}</div>
           </div>
         )}
 
         {/* Vote Form */}
-        {status === 0 && !isExpired && !hasVoted && address && (
+        {isActive && !isExpired && !hasVoted && address && (
           <div className="border-2 border-black p-4 space-y-4">
             {!showVoteForm ? (
               <Button onClick={() => setShowVoteForm(true)} className="w-full">
@@ -283,7 +282,7 @@ export function ArbitratorCaseCard({ caseId }: ArbitratorCaseCardProps) {
         )}
 
         {/* Already Voted */}
-        {hasVoted && status === 0 && (
+        {hasVoted && isActive && (
           <div className="border-2 border-green-600 bg-green-50 p-4">
             <p className="font-mono text-xs">
               ✓ You have already voted on this case
@@ -292,7 +291,7 @@ export function ArbitratorCaseCard({ caseId }: ArbitratorCaseCardProps) {
         )}
 
         {/* Finalize Button */}
-        {status === 0 && isExpired && votes && Array.isArray(votes) && votes.length >= 2 && (
+        {docketCase.can_finalize && (
           <Button
             onClick={handleFinalize}
             disabled={isFinalizing}
@@ -304,23 +303,39 @@ export function ArbitratorCaseCard({ caseId }: ArbitratorCaseCardProps) {
         )}
 
         {/* Resolved Result */}
-        {status === 1 && (
+        {!isActive && docketCase.final_client_bps !== null && (
           <div className="border-2 border-black bg-gray-100 p-4">
             <label className="font-mono text-xs uppercase tracking-wide text-black opacity-60 mb-2 block">
               Final Decision
             </label>
             <p className="font-bold text-xl">
-              Client: {Number(finalClientBps) / 100}% | Worker: {(10000 - Number(finalClientBps)) / 100}%
+              Client: {docketCase.final_client_bps / 100}% | Worker: {(10000 - docketCase.final_client_bps) / 100}%
             </p>
+            {docketCase.can_appeal && (
+              <p className="font-mono text-xs opacity-60 mt-2">
+                Either party can still appeal once
+              </p>
+            )}
           </div>
         )}
 
         {/* Appeal Notice */}
-        {appealed && (
-          <div className="border-2 border-orange-600 bg-orange-50 p-4">
+        {docketCase.appealed && (
+          <div className="border-2 border-orange-600 bg-orange-50 p-4 space-y-1">
             <p className="font-mono text-xs">
-              ⚠️ This case has been appealed and is under re-voting
+              {isActive
+                ? '⚠️ This case has been appealed and is under re-voting'
+                : '⚠️ This case was appealed - the decision above is final'}
             </p>
+            {docketCase.appellant && (
+              <p className="font-mono text-xs opacity-60">
+                Appealed by {docketCase.appellant === docketCase.client_address ? 'client' : 'worker'}
+                {docketCase.appealed_at && ` on ${new Date(docketCase.appealed_at).toLocaleDateString()}`}
+              </p>
+            )}
+            {docketCase.appeal_reason && (
+              <p className="font-mono text-sm">{docketCase.appeal_reason}</p>
+            )}
           </div>
         )}
       </div>
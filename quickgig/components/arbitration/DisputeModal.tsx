@@ -7,6 +7,7 @@ import BountyEscrowABI from '@/lib/contracts/abis/BountyEscrow.json';
 import { CONTRACTS } from '@/lib/contracts/addresses';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { EvidenceBundleButton } from './EvidenceBundleButton';
 
 interface DisputeModalProps {
   bountyId: bigint;
@@ -199,8 +200,14 @@ export function DisputeModal({
               required
             />
             <p className="font-mono text-[10px] sm:text-xs text-black opacity-60">
-              Upload screenshots/docs to IPFS (e.g., via Pinata) and paste the link
+              Build a bundle of the requirements, deliverable, bids, chat and timeline, or paste your own IPFS link
             </p>
+            <EvidenceBundleButton
+              subject={{ type: 'bounty', bountyId: Number(bountyId) }}
+              statement={reason.trim() || undefined}
+              onBuilt={(bundle) => setEvidenceURI(bundle.uri)}
+              disabled={isLoading}
+            />
           </div>
 
           {/* Warning */}
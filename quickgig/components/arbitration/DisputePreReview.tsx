@@ -0,0 +1,242 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAccount } from 'wagmi';
+import { toast } from 'sonner';
+import type { DisputeSubject } from '@/lib/disputes/evidence-bundle';
+import type { DisputeReview, DisputeReviewResponse } from '@/lib/supabase/dispute-reviews';
+import { ipfsToHttp } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+
+interface DisputePreReviewProps {
+  subject: DisputeSubject;
+  onEscalate?: (review: DisputeReview) => void; // After this party escalates, e.g. to open the dispute form
+}
+
+const MET_STYLES: Record<DisputeReview['findings'][number]['met'], string> = {
+  yes: 'border-green-600 bg-green-50',
+  partial: 'border-yellow-600 bg-yellow-50',
+  no: 'border-red-600 bg-red-50',
+};
+
+function reviewQuery(subject: DisputeSubject): string {
+  switch (subject.type) {
+    case 'bounty':
+      return `type=bounty&id=${subject.bountyId}`;
+    case 'gig':
+      return `type=gig&id=${subject.gigId}&milestone=${subject.milestoneIndex}`;
+    case 'mission':
+      return `type=mission&id=${encodeURIComponent(subject.missionId)}`;
+  }
+}
+
+/**
+ * Optional automated review before a dispute goes to the arbitrators or UMA - suggests a
+ * client/worker split that both parties can accept or escalate
+ */
+export function DisputePreReview({ subject, onEscalate }: DisputePreReviewProps) {
+  const { address } = useAccount();
+  const [review, setReview] = useState<DisputeReview | null>(null);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [responding, setResponding] = useState<DisputeReviewResponse | null>(null);
+  const [showReasoning, setShowReasoning] = useState(false);
+
+  const query = reviewQuery(subject);
+
+  const fetchReview = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/disputes/review?${query}`);
+      if (!response.ok) return; // Not signed in or not a party - the button explains when clicked
+      const data = await response.json();
+      setReview(data.review);
+    } catch (error) {
+      console.error('Error fetching dispute review:', error);
+    }
+  }, [query]);
+
+  useEffect(() => {
+    fetchReview();
+  }, [fetchReview]);
+
+  const handleRequest = async () => {
+    setIsReviewing(true);
+    try {
+      const response = await fetch('/api/disputes/review', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ subject }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to review dispute');
+      }
+      setReview(data.review);
+    } catch (error) {
+      console.error('Dispute review error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to review dispute');
+    } finally {
+      setIsReviewing(false);
+    }
+  };
+
+  const handleRespond = async (answer: DisputeReviewResponse) => {
+    if (!review) return;
+    setResponding(answer);
+    try {
+      const response = await fetch(`/api/disputes/review/${review.id}/respond`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ response: answer }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to respond');
+      }
+      setReview(data.review);
+      if (answer === 'escalate') {
+        toast.success('Escalated - the review goes to the arbitrators with your evidence');
+        onEscalate?.(data.review);
+      } else {
+        toast.success('You accepted the suggested split');
+      }
+    } catch (error) {
+      console.error('Dispute review response error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to respond');
+    } finally {
+      setResponding(null);
+    }
+  };
+
+  if (!review) {
+    return (
+      <div className="border-2 border-black p-4 space-y-3">
+        <p className="font-mono text-xs">
+          Disagree about the deliverable? Get a free automated review against the requirements before
+          paying for arbitration. Either party can still escalate afterwards.
+        </p>
+        <Button onClick={handleRequest} disabled={isReviewing} isLoading={isReviewing} className="w-full">
+          {isReviewing ? 'REVIEWING...' : 'GET AI PRE-REVIEW'}
+        </Button>
+      </div>
+    );
+  }
+
+  const me = address?.toLowerCase();
+  const role = me === review.client_address ? 'client' : me === review.worker_address ? 'worker' : null;
+  const myResponse = role === 'client' ? review.client_response : role === 'worker' ? review.worker_response : null;
+  const clientPercent = review.client_bps / 100;
+
+  return (
+    <div className="border-2 border-black">
+      <div className="border-b-2 border-black bg-black text-white p-3 flex items-center justify-between">
+        <h3 className="font-black text-sm uppercase tracking-tight">AI Pre-Review</h3>
+        <Badge variant={review.status === 'accepted' ? 'success' : review.status === 'escalated' ? 'warning' : 'default'}>
+          {review.status.toUpperCase()}
+        </Badge>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {/* Suggested split */}
+        <div>
+          <label className="font-mono text-xs uppercase tracking-wide opacity-60">Suggested Split</label>
+          <p className="font-bold text-xl">
+            Client: {clientPercent}% | Worker: {100 - clientPercent}%
+          </p>
+          <div className="flex h-3 border-2 border-black mt-1">
+            <div className="bg-black" style={{ width: `${clientPercent}%` }} />
+          </div>
+          <p className="font-mono text-xs opacity-60 mt-1">
+            Confidence {Math.round(review.confidence * 100)}% · {review.model}
+          </p>
+        </div>
+
+        <p className="font-mono text-sm">{review.summary}</p>
+
+        {/* Findings */}
+        {review.findings.length > 0 && (
+          <div className="space-y-2">
+            {review.findings.map((finding, idx) => (
+              <div key={idx} className={`border-2 p-2 ${MET_STYLES[finding.met]}`}>
+                <p className="font-bold text-xs uppercase">
+                  {finding.met === 'yes' ? '✓' : finding.met === 'partial' ? '~' : '✗'} {finding.requirement}
+                </p>
+                <p className="font-mono text-xs opacity-80">{finding.notes}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div>
+          <button
+            onClick={() => setShowReasoning(!showReasoning)}
+            className="font-mono text-xs uppercase underline"
+          >
+            {showReasoning ? 'Hide reasoning' : 'Show reasoning'}
+          </button>
+          {showReasoning && (
+            <p className="font-mono text-xs whitespace-pre-wrap mt-2">{review.reasoning}</p>
+          )}
+        </div>
+
+        {/* Evidence record */}
+        <div className="font-mono text-xs space-y-1">
+          <a href={ipfsToHttp(review.evidence_uri)} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline block">
+            Evidence reviewed →
+          </a>
+          {review.review_uri && (
+            <a href={ipfsToHttp(review.review_uri)} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline block">
+              Pinned verdict →
+            </a>
+          )}
+        </div>
+
+        {/* Responses */}
+        <div className="grid grid-cols-2 gap-2 font-mono text-xs">
+          <p>Client: {review.client_response ? review.client_response.toUpperCase() + 'ED' : 'WAITING'}</p>
+          {review.worker_address && (
+            <p>Worker: {review.worker_response ? review.worker_response.toUpperCase() + 'ED' : 'WAITING'}</p>
+          )}
+        </div>
+
+        {review.status === 'open' && role && !myResponse && (
+          <div className="flex gap-3">
+            <Button
+              onClick={() => handleRespond('accept')}
+              disabled={!!responding}
+              isLoading={responding === 'accept'}
+              className="flex-1 bg-green-500 hover:bg-green-600 border-2 border-black text-black font-black"
+            >
+              ACCEPT
+            </Button>
+            <Button
+              onClick={() => handleRespond('escalate')}
+              disabled={!!responding}
+              isLoading={responding === 'escalate'}
+              className="flex-1 bg-red-500 hover:bg-red-600 border-2 border-black text-white font-black"
+            >
+              ESCALATE
+            </Button>
+          </div>
+        )}
+
+        {review.status === 'accepted' && (
+          <div className="border-2 border-green-600 bg-green-50 p-3">
+            <p className="font-mono text-xs">
+              Both parties accepted this split. Settle it by approving the deliverable if it pays the worker in full,
+              or by opening the dispute - arbitrators see the accepted review in the evidence.
+            </p>
+          </div>
+        )}
+
+        {review.status === 'escalated' && (
+          <div className="border-2 border-orange-600 bg-orange-50 p-3">
+            <p className="font-mono text-xs">
+              Escalated. Evidence bundles built for the dispute include this review for the arbitrators.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { useSubmitEvidence } from '@/lib/contracts/simpleArbitrator';
+import type { DisputeSubject, EvidenceManifest } from '@/lib/disputes/evidence-bundle';
+import { ipfsToHttp } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import type { Hex } from 'viem';
+
+export interface BuiltEvidenceBundle {
+  uri: string;
+  rootHash: string;
+  manifest: EvidenceManifest;
+  caseId: string | null; // SimpleArbitrator case, if the dispute already went to arbitration
+}
+
+interface EvidenceBundleButtonProps {
+  subject: DisputeSubject;
+  statement?: string; // Included in the bundle as the submitter's statement
+  submitToArbitrator?: boolean; // Offer submitEvidence when the bundle comes back with a case
+  onBuilt?: (bundle: BuiltEvidenceBundle) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Packages the dispute's requirements, deliverable, bids, chat and timeline into a
+ * hashed bundle on IPFS, instead of the user pasting an evidence link by hand
+ */
+export function EvidenceBundleButton({
+  subject,
+  statement,
+  submitToArbitrator,
+  onBuilt,
+  disabled,
+}: EvidenceBundleButtonProps) {
+  const [isBuilding, setIsBuilding] = useState(false);
+  const [bundle, setBundle] = useState<BuiltEvidenceBundle | null>(null);
+  const { submitEvidence, isPending: isSubmitting } = useSubmitEvidence();
+
+  const handleBuild = async () => {
+    setIsBuilding(true);
+    try {
+      const response = await fetch('/api/disputes/evidence', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ subject, statement }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to build evidence bundle');
+      }
+
+      setBundle(data);
+      onBuilt?.(data);
+      toast.success(`Evidence bundle pinned (${data.manifest.items.length} items)`);
+    } catch (error) {
+      console.error('Evidence bundle error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to build evidence bundle');
+    } finally {
+      setIsBuilding(false);
+    }
+  };
+
+  const handleSubmitToArbitrator = async () => {
+    if (!bundle?.caseId) return;
+    try {
+      await submitEvidence(bundle.caseId as Hex, bundle.uri);
+      toast.success('Evidence submitted to the arbitrators');
+    } catch (error) {
+      console.error('Submit evidence error:', error);
+      toast.error('Failed to submit evidence');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <button
+        type="button"
+        onClick={handleBuild}
+        disabled={disabled || isBuilding}
+        className="w-full h-10 border-2 border-black bg-white text-black md:hover:bg-black md:hover:text-white transition-colors duration-200 font-bold text-[10px] sm:text-xs uppercase tracking-wide disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isBuilding ? 'PACKAGING EVIDENCE...' : bundle ? 'REBUILD EVIDENCE BUNDLE' : 'BUILD EVIDENCE BUNDLE'}
+      </button>
+
+      {bundle && (
+        <div className="border-2 border-black bg-gray-50 p-3 space-y-1">
+          <a
+            href={ipfsToHttp(bundle.uri)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="font-mono text-[10px] sm:text-xs text-blue-600 hover:underline break-all block"
+          >
+            {bundle.uri}
+          </a>
+          <p className="font-mono text-[10px] sm:text-xs opacity-60 break-all">
+            Root sha256: {bundle.rootHash}
+          </p>
+          <p className="font-mono text-[10px] sm:text-xs opacity-60">
+            {bundle.manifest.items.map((item) => item.kind).filter((kind, i, kinds) => kinds.indexOf(kind) === i).join(', ')}
+          </p>
+        </div>
+      )}
+
+      {submitToArbitrator && bundle?.caseId && (
+        <Button
+          type="button"
+          onClick={handleSubmitToArbitrator}
+          disabled={isSubmitting}
+          isLoading={isSubmitting}
+          className="w-full h-10 text-[10px] sm:text-xs"
+        >
+          SUBMIT TO ARBITRATORS
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { useDisputeDeliverableWithUMA } from '@/lib/contracts/bountyEscrow';
 import { useDefaultBond } from '@/lib/contracts/umaEscalationManager';
 import { useApproveToken, useTokenBalance } from '@/lib/contracts/erc20';
 import { CONTRACTS } from '@/lib/contracts/addresses';
+import { EvidenceBundleButton } from '@/components/arbitration/EvidenceBundleButton';
 import { toast } from 'sonner';
 
 interface UMADisputeFormProps {
@@ -247,6 +248,14 @@ export function UMADisputeForm({
             className="w-full border-2 border-black bg-white px-3 py-2 font-mono text-sm focus:outline-none"
             disabled={isPending}
           />
+          <div className="mt-2">
+            <EvidenceBundleButton
+              subject={{ type: 'bounty', bountyId: Number(bountyId) }}
+              statement={claim.trim() || undefined}
+              onBuilt={(bundle) => setEvidenceURI(bundle.uri)}
+              disabled={isPending}
+            />
+          </div>
         </div>
 
         {/* Stuck Warning */}
@@ -0,0 +1,242 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { parseEventLogs, parseUnits, type Abi, type Address, type TransactionReceipt } from 'viem';
+import { baseSepolia } from 'wagmi/chains';
+import {
+  Transaction,
+  TransactionButton,
+  TransactionStatus,
+  TransactionStatusAction,
+  TransactionStatusLabel,
+} from '@coinbase/onchainkit/transaction';
+import type { LifecycleStatus } from '@coinbase/onchainkit/transaction';
+import { Button } from '@/components/ui/button';
+import { CONTRACTS } from '@/lib/contracts/addresses';
+import { buildCreateBountyCalls, buildCreateGigCalls, buildSubmitBidCalls } from '@/lib/contracts/transactions';
+import BountyEscrowABI from '@/lib/contracts/abis/BountyEscrow.json';
+import GigEscrowABI from '@/lib/contracts/abis/GigEscrow.json';
+import { paymasterCapabilities } from '@/lib/onchainkit/config';
+import { validateToolArguments, type ChatToolResult, type PendingAction } from '@/lib/ai/chat-tools';
+import { useChatStore } from '@/lib/store/chat';
+import { ensureWalletSession } from '@/lib/auth/client';
+import { useAccount, useSignMessage } from 'wagmi';
+import { toast } from 'sonner';
+
+interface ActionConfirmationProps {
+  messageId: string;
+  action: PendingAction;
+  resolved: boolean;
+}
+
+const ACTION_LABELS: Record<PendingAction['name'], string> = {
+  createBounty: 'Create Bounty',
+  createGig: 'Create Gig',
+  submitBid: 'Submit Bid',
+};
+
+/**
+ * Build the transaction for an action the assistant proposed
+ */
+function buildActionCalls(action: PendingAction) {
+  switch (action.name) {
+    case 'createBounty': {
+      const { requirements, amount, deadline } = action.arguments;
+      const deadlineTimestamp = BigInt(Math.floor(Date.now() / 1000) + deadline * 24 * 60 * 60);
+      return buildCreateBountyCalls(CONTRACTS.USDC, parseUnits(amount.toString(), 6), deadlineTimestamp, requirements);
+    }
+    case 'createGig': {
+      const { workerAddress, milestones } = action.arguments;
+      return buildCreateGigCalls(
+        workerAddress as Address,
+        CONTRACTS.USDC,
+        milestones.map((milestone) => milestone.description),
+        milestones.map((milestone) => parseUnits(milestone.amount.toString(), 6))
+      );
+    }
+    case 'submitBid': {
+      const { bountyId, amount, proposal } = action.arguments;
+      return buildSubmitBidCalls(BigInt(bountyId), parseUnits(amount.toString(), 6), proposal);
+    }
+  }
+}
+
+/**
+ * Read the created bounty/gig ID or the bid index from the transaction's events
+ */
+function getActionResult(action: PendingAction, receipts: TransactionReceipt[]): Record<string, unknown> {
+  const logs = receipts.flatMap((receipt) => receipt.logs);
+  const txHash = receipts[receipts.length - 1]?.transactionHash;
+
+  const findArgs = (abi: Abi, eventName: string) => {
+    const event = parseEventLogs({ abi, logs }).find((log) => log.eventName === eventName);
+    return event?.args as Record<string, bigint> | undefined;
+  };
+
+  switch (action.name) {
+    case 'createBounty': {
+      const args = findArgs(BountyEscrowABI.abi as Abi, 'BountyCreated');
+      return { txHash, bountyId: args ? Number(args.bountyId) : null };
+    }
+    case 'createGig': {
+      const args = findArgs(GigEscrowABI as Abi, 'GigCreated');
+      return { txHash, gigId: args ? Number(args.gigId) : null };
+    }
+    case 'submitBid': {
+      const args = findArgs(BountyEscrowABI.abi as Abi, 'BidSubmitted');
+      return { txHash, bountyId: action.arguments.bountyId, bidIndex: args ? Number(args.bidIndex) : null };
+    }
+  }
+}
+
+function ActionDetails({ action }: { action: PendingAction }) {
+  const row = (label: string, value: string) => (
+    <div className="flex justify-between gap-4">
+      <span className="font-mono text-xs uppercase tracking-wider text-gray-600">{label}:</span>
+      <span className="font-mono text-xs text-right break-all">{value}</span>
+    </div>
+  );
+
+  switch (action.name) {
+    case 'createBounty':
+      return (
+        <>
+          <p className="font-sans text-sm">{action.arguments.requirements}</p>
+          {row('Payment', `$${action.arguments.amount} USDC`)}
+          {row('Deadline', `${action.arguments.deadline} days`)}
+        </>
+      );
+    case 'createGig':
+      return (
+        <>
+          {row('Worker', action.arguments.workerAddress)}
+          {action.arguments.milestones.map((milestone, index) =>
+            <div key={index}>{row(`Milestone ${index + 1}`, `${milestone.description} - $${milestone.amount} USDC`)}</div>
+          )}
+        </>
+      );
+    case 'submitBid':
+      return (
+        <>
+          {row('Bounty', `#${action.arguments.bountyId}`)}
+          {row('Bid', `$${action.arguments.amount} USDC`)}
+          <p className="font-sans text-sm">{action.arguments.proposal}</p>
+        </>
+      );
+  }
+}
+
+/**
+ * Confirmation card for an action the assistant proposed in /api/chat
+ * The arguments are validated again before anything is signed, and the outcome (created ID and
+ * transaction hash, or the cancellation) is reported back so the assistant can carry on.
+ */
+export function ActionConfirmation({ messageId, action, resolved }: ActionConfirmationProps) {
+  const { currentSessionId, addMessage, updateMessageMetadata } = useChatStore();
+  const { address, chainId } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+  const [reporting, setReporting] = useState(false);
+
+  const validation = useMemo(() => validateToolArguments(action.name, action.arguments), [action]);
+  const calls = useMemo(
+    () => (validation.ok ? buildActionCalls({ ...action, arguments: validation.arguments } as PendingAction) : []),
+    [action, validation]
+  );
+
+  const report = async (toolResult: ChatToolResult) => {
+    const resolvedActions = useChatStore
+      .getState()
+      .getMessages()
+      .find((message) => message.id === messageId)?.metadata?.resolvedActions ?? [];
+    updateMessageMetadata(messageId, { resolvedActions: [...resolvedActions, action.toolCallId] });
+
+    if (!currentSessionId) return;
+
+    setReporting(true);
+    try {
+      // /api/chat is scoped to the signed-in wallet
+      if (!address || !chainId) throw new Error('Please connect your wallet');
+      await ensureWalletSession({ address, chainId, signMessage: signMessageAsync });
+
+      const response = await fetch('/api/chat', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId: currentSessionId, toolResults: [toolResult] }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to report the result');
+
+      if (data.message) {
+        addMessage({
+          role: 'assistant',
+          content: data.message,
+          metadata: {
+            pendingActions: data.metadata?.pendingActions,
+            txHash: toolResult.result?.txHash as string | undefined,
+          },
+        });
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to report the result');
+    } finally {
+      setReporting(false);
+    }
+  };
+
+  const handleStatusChange = (status: LifecycleStatus) => {
+    if (status.statusName === 'success') {
+      const receipts = status.statusData?.transactionReceipts ?? [];
+      toast.success(`${ACTION_LABELS[action.name]} confirmed!`);
+      report({ toolCallId: action.toolCallId, result: getActionResult(action, receipts) });
+    } else if (status.statusName === 'error') {
+      toast.error(`Transaction failed: ${status.statusData?.message || 'Unknown error'}`);
+    }
+  };
+
+  if (!validation.ok) {
+    return (
+      <div className="border-2 border-red-600 p-3 font-mono text-xs text-red-600">
+        {validation.error}
+      </div>
+    );
+  }
+
+  return (
+    <div className="border-2 border-black bg-white p-3 sm:p-4 space-y-3">
+      <h3 className="font-black text-sm uppercase">{ACTION_LABELS[action.name]}</h3>
+      <div className="space-y-2">
+        <ActionDetails action={action} />
+      </div>
+
+      {resolved ? (
+        <p className="font-mono text-xs text-gray-600">{reporting ? 'Updating assistant...' : 'Done'}</p>
+      ) : (
+        <>
+          <Transaction
+            calls={calls}
+            chainId={baseSepolia.id}
+            capabilities={paymasterCapabilities}
+            onStatus={handleStatusChange}
+          >
+            <TransactionButton
+              className="w-full border-2 border-black bg-black text-white hover:bg-white hover:text-black transition-colors font-mono text-sm uppercase tracking-wider py-2"
+              text={ACTION_LABELS[action.name]}
+            />
+            <TransactionStatus className="mt-2">
+              <TransactionStatusLabel className="font-mono text-sm" />
+              <TransactionStatusAction className="font-mono text-xs mt-2" />
+            </TransactionStatus>
+          </Transaction>
+
+          <Button
+            variant="outline"
+            onClick={() => report({ toolCallId: action.toolCallId, error: 'Cancelled by the user' })}
+            className="w-full"
+          >
+            Cancel
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,8 @@ import { Button } from '@/components/ui/button';
 import type { RecommendedAgent } from '@/lib/ai/agent-recommender';
 import { useChatStore } from '@/lib/store/chat';
 import { toast } from 'sonner';
+import { useAccount, useSignMessage } from 'wagmi';
+import { ensureWalletSession } from '@/lib/auth/client';
 
 interface AgentRecommendationPanelProps {
   data: {
@@ -26,6 +28,8 @@ interface AgentRecommendationPanelProps {
 export function AgentRecommendationPanel({ data }: AgentRecommendationPanelProps) {
   const [selectedAgents, setSelectedAgents] = useState<Map<string, RecommendedAgent>>(new Map());
   const [isDeploying, setIsDeploying] = useState(false);
+  const { address, chainId } = useAccount();
+  const { signMessageAsync } = useSignMessage();
   const addMessage = useChatStore((state) => state.addMessage);
   const getMessages = useChatStore((state) => state.getMessages);
 
@@ -53,9 +57,17 @@ export function AgentRecommendationPanel({ data }: AgentRecommendationPanelProps
       return;
     }
 
+    if (!address || !chainId) {
+      toast.error('Please connect your wallet');
+      return;
+    }
+
     setIsDeploying(true);
 
     try {
+      // Deploying is scoped to the signed-in wallet
+      await ensureWalletSession({ address, chainId, signMessage: signMessageAsync });
+
       // Get original user request from chat history
       const messages = getMessages();
       const lastUserMessage = messages.filter(m => m.role === 'user').pop();
@@ -88,7 +100,7 @@ export function AgentRecommendationPanel({ data }: AgentRecommendationPanelProps
           description: userRequest,
           agents: agentList,
           totalBudget,
-          clientAddress: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e', // TODO: Get from connected wallet
+          clientAddress: address,
           orchestrationMode: agentList.length > 1 ? 'sequential' : 'sequential',
           requirements,
         }),
@@ -158,12 +170,31 @@ export function AgentRecommendationPanel({ data }: AgentRecommendationPanelProps
             </h4>
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 sm:gap-3">
               {recommendation.agents.map((agent) => (
-                <AgentCard
-                  key={agent.agentId.toString()}
-                  agent={agent}
-                  selected={selectedAgents.get(capability)?.agentId === agent.agentId}
-                  onSelect={() => handleSelectAgent(capability, agent)}
-                />
+                <div key={agent.agentId.toString()}>
+                  <AgentCard
+                    agent={agent}
+                    selected={selectedAgents.get(capability)?.agentId === agent.agentId}
+                    onSelect={() => handleSelectAgent(capability, agent)}
+                  />
+                  {/* Why the ranking engine picked this agent */}
+                  {agent.ranking && (
+                    <details className="border-2 border-t-0 border-black px-3 py-2 font-mono text-[10px] sm:text-xs">
+                      <summary className="cursor-pointer uppercase">
+                        Match score {Math.round(agent.ranking.score)}/100 - why?
+                      </summary>
+                      <ul className="mt-1.5 space-y-1">
+                        {agent.ranking.factors.map((factor) => (
+                          <li key={factor.factor} className="flex justify-between gap-2">
+                            <span>
+                              <span className="uppercase opacity-60">{factor.factor}:</span> {factor.explanation}
+                            </span>
+                            <span className="font-bold whitespace-nowrap">+{factor.contribution}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </details>
+                  )}
+                </div>
               ))}
             </div>
           </div>
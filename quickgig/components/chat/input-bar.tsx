@@ -1,20 +1,45 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { useChatStore } from '@/lib/store/chat';
+import { useChatStore, type Message } from '@/lib/store/chat';
 import { Button } from '@/components/ui/button';
-import { useAccount } from 'wagmi';
+import { useAccount, useSignMessage } from 'wagmi';
 import { PaymentModal } from '@/components/x402/payment-modal';
-import { isX402Response, extractPaymentRequest } from '@/lib/x402/middleware';
-import type { X402PaymentRequest, X402PaymentProof } from '@/lib/x402/types';
+import { isX402Response, extractPaymentRequest, getPaymentHeaders } from '@/lib/x402/middleware';
+import type { X402Payment, X402PaymentRequest } from '@/lib/x402/types';
+import { isEventStream, readChatEventStream } from '@/lib/ai/chat-stream';
+import type { PendingAction } from '@/lib/ai/chat-tools';
+import { ensureWalletSession } from '@/lib/auth/client';
 import { useRouter } from 'next/navigation';
 import { toast } from 'sonner';
 
+type MessageMetadata = NonNullable<Message['metadata']>;
+
+/**
+ * Split an agent reply into its text and the action it carries (if it is one)
+ */
+function parseAgentReply(message: string): { content: string; action?: MessageMetadata['action'] } {
+  try {
+    const parsed = JSON.parse(message);
+    if (parsed.action) {
+      return { content: parsed.message, action: parsed.action };
+    }
+  } catch {
+    // Not JSON, use as regular message
+  }
+  return { content: message };
+}
+
 export function InputBar() {
   const router = useRouter();
   const [input, setInput] = useState('');
-  const { isConnected } = useAccount();
+  const { isConnected, address, chainId } = useAccount();
+  const { signMessageAsync } = useSignMessage();
   const addMessage = useChatStore((state) => state.addMessage);
+  const appendMessageContent = useChatStore((state) => state.appendMessageContent);
+  const setMessageContent = useChatStore((state) => state.setMessageContent);
+  const updateMessageMetadata = useChatStore((state) => state.updateMessageMetadata);
+  const setStreamingMessage = useChatStore((state) => state.setStreamingMessage);
   const setLoading = useChatStore((state) => state.setLoading);
   const isLoading = useChatStore((state) => state.isLoading);
   const needsSessionCheck = useChatStore((state) => state.needsSessionCheck);
@@ -22,23 +47,116 @@ export function InputBar() {
   const updateMessagesRemaining = useChatStore((state) => state.updateMessagesRemaining);
   const createNewSession = useChatStore((state) => state.createNewSession);
   const [paymentRequest, setPaymentRequest] = useState<X402PaymentRequest | null>(null);
+  const [abortController, setAbortController] = useState<AbortController | null>(null);
 
   const session = getCurrentSession();
   const isSessionLocked = session?.locked || false;
 
-  const sendMessageToAgent = useCallback(async (userMessage: string, proof?: X402PaymentProof, silent: boolean = false) => {
+  /**
+   * Follow the session a reply belongs to (the backend creates a new one after payment)
+   */
+  const applySessionUpdate = useCallback((currentSessionId: string, data: { sessionId?: string; messagesRemaining?: number }) => {
+    if (data.sessionId && currentSessionId !== data.sessionId) {
+      // Backend created a new session, update our local reference
+      console.log('[InputBar] Updating session ID:', currentSessionId, '->', data.sessionId);
+      useChatStore.setState((state) => {
+        const currentSession = state.sessions[currentSessionId];
+        if (currentSession) {
+          // Copy the session with the new ID
+          const newSessions = { ...state.sessions };
+          delete newSessions[currentSessionId];
+          newSessions[data.sessionId!] = {
+            ...currentSession,
+            id: data.sessionId!,
+            messagesRemaining: data.messagesRemaining ?? currentSession.messagesRemaining,
+          };
+          return {
+            sessions: newSessions,
+            currentSessionId: data.sessionId,
+          };
+        }
+        return state;
+      });
+    }
+
+    // Update messages remaining
+    if (data.messagesRemaining !== undefined) {
+      updateMessagesRemaining(data.messagesRemaining);
+    }
+  }, [updateMessagesRemaining]);
+
+  /**
+   * Read a streamed reply, showing the text as it arrives
+   */
+  const readStreamedReply = useCallback(async (response: Response, sessionId: string, silent: boolean) => {
+    let messageId: string | null = null;
+    const metadata: MessageMetadata = {};
+
+    try {
+      await readChatEventStream(response, (event, data) => {
+        switch (event) {
+          case 'session':
+            applySessionUpdate(sessionId, data as { sessionId?: string; messagesRemaining?: number });
+            if (data.paid !== undefined) metadata.paid = data.paid as boolean;
+            if (data.messagesRemaining !== undefined) metadata.messagesRemaining = data.messagesRemaining as number;
+            break;
+
+          case 'delta':
+            if (silent) break;
+            if (!messageId) {
+              messageId = addMessage({ role: 'assistant', content: '', metadata: { ...metadata } });
+              setStreamingMessage(messageId);
+            }
+            appendMessageContent(messageId, data.content as string);
+            break;
+
+          case 'message': {
+            if (silent) break;
+            const reply = parseAgentReply(data.message as string);
+            if (reply.action) metadata.action = reply.action;
+            const pendingActions = (data.metadata as { pendingActions?: PendingAction[] } | undefined)?.pendingActions;
+            if (pendingActions?.length) metadata.pendingActions = pendingActions;
+
+            if (messageId) {
+              setMessageContent(messageId, reply.content);
+              updateMessageMetadata(messageId, metadata);
+            } else {
+              messageId = addMessage({ role: 'assistant', content: reply.content, metadata: { ...metadata } });
+            }
+            break;
+          }
+
+          case 'error':
+            toast.error(`Error: ${data.error}`);
+            break;
+        }
+      });
+    } finally {
+      setStreamingMessage(null);
+    }
+  }, [addMessage, appendMessageContent, applySessionUpdate, setMessageContent, setStreamingMessage, updateMessageMetadata]);
+
+  const sendMessageToAgent = useCallback(async (userMessage: string, payment?: X402Payment, silent: boolean = false) => {
+    const controller = new AbortController();
+    setAbortController(controller);
+
     try {
       const session = getCurrentSession();
       if (!session) return;
 
-      const headers: HeadersInit = { 'Content-Type': 'application/json' };
-
-      // Add payment proof if available
-      if (proof) {
-        headers['X-Payment-Proof'] = JSON.stringify(proof);
+      // Signed in, replies come from the assistant whose actions are confirmed through /api/chat
+      if (address && chainId) {
+        await ensureWalletSession({ address, chainId, signMessage: signMessageAsync });
       }
 
-      // Call AI agent endpoint with X402 support
+      // Add payment proof or signed authorization if available
+      const headers: HeadersInit = {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream, application/json',
+        ...(payment ? getPaymentHeaders(payment) : {}),
+      };
+
+      // Call AI agent endpoint with X402 support (the reply streams once payment is settled)
       const response = await fetch('/api/agent/chat', {
         method: 'POST',
         headers,
@@ -46,6 +164,7 @@ export function InputBar() {
           message: userMessage,
           sessionId: session.id,
         }),
+        signal: controller.signal,
       });
 
       // Check for 402 Payment Required
@@ -59,72 +178,42 @@ export function InputBar() {
         throw new Error(`API error: ${response.status}`);
       }
 
-      const data = await response.json();
-
-      // Update session ID if returned (happens after payment)
-      if (data.sessionId && session.id !== data.sessionId) {
-        // Backend created a new session, update our local reference
-        console.log('[InputBar] Updating session ID:', session.id, '->', data.sessionId);
-        useChatStore.setState((state) => {
-          const currentSession = state.sessions[session.id];
-          if (currentSession) {
-            // Copy the session with the new ID
-            const newSessions = { ...state.sessions };
-            delete newSessions[session.id];
-            newSessions[data.sessionId] = {
-              ...currentSession,
-              id: data.sessionId,
-              messagesRemaining: data.messagesRemaining ?? currentSession.messagesRemaining,
-            };
-            return {
-              sessions: newSessions,
-              currentSessionId: data.sessionId,
-            };
-          }
-          return state;
-        });
+      if (isEventStream(response)) {
+        await readStreamedReply(response, session.id, silent);
+        return;
       }
 
-      // Update messages remaining
-      if (data.messagesRemaining !== undefined) {
-        updateMessagesRemaining(data.messagesRemaining);
-      }
+      const data = await response.json();
+      applySessionUpdate(session.id, data);
 
       // Check if response contains a special action (bounty form)
-      let messageContent = data.message;
-      const messageMetadata: {
-        paid?: boolean;
-        messagesRemaining?: number;
-        action?: { type: string; data?: Record<string, unknown> }
-      } = {
+      const reply = parseAgentReply(data.message);
+      const messageMetadata: MessageMetadata = {
         paid: data.paid,
         messagesRemaining: data.messagesRemaining,
+        action: reply.action,
+        pendingActions: data.metadata?.pendingActions?.length ? data.metadata.pendingActions : undefined,
       };
 
-      try {
-        const parsed = JSON.parse(data.message);
-        if (parsed.action) {
-          messageContent = parsed.message;
-          messageMetadata.action = parsed.action;
-        }
-      } catch {
-        // Not JSON, use as regular message
-      }
-
       // Add assistant response (unless silent)
       if (!silent) {
         addMessage({
           role: 'assistant',
-          content: messageContent,
+          content: reply.content,
           metadata: messageMetadata,
         });
       }
     } catch (error) {
+      if (controller.signal.aborted) {
+        toast.info('Response cancelled');
+        return;
+      }
       toast.error(`Error: ${error instanceof Error ? error.message : 'Failed to send message'}`);
     } finally {
+      setAbortController(null);
       setLoading(false);
     }
-  }, [getCurrentSession, addMessage, updateMessagesRemaining, setLoading]);
+  }, [getCurrentSession, address, chainId, signMessageAsync, addMessage, applySessionUpdate, readStreamedReply, setLoading]);
 
   // Handle upfront session check - trigger payment immediately ONLY for NEW sessions
   useEffect(() => {
@@ -174,7 +263,7 @@ export function InputBar() {
     await sendMessageToAgent(userMessage);
   };
 
-  const handlePaymentComplete = async (proof: X402PaymentProof) => {
+  const handlePaymentComplete = async (payment: X402Payment) => {
     setPaymentRequest(null);
     setLoading(false); // Reset loading state immediately
 
@@ -188,7 +277,7 @@ export function InputBar() {
       // Upfront payment - send greeting request (will show AI greeting)
       toast.success('Session active! Mission planning ready.');
       setLoading(true);
-      await sendMessageToAgent('Hello', proof, false); // Not silent - show greeting
+      await sendMessageToAgent('Hello', payment, false); // Not silent - show greeting
     } else {
       // Retry the last message with payment proof
       const lastUserMessage = [...session.messages]
@@ -198,7 +287,7 @@ export function InputBar() {
       if (lastUserMessage) {
         toast.success('Payment verified. Processing your request...');
         setLoading(true);
-        await sendMessageToAgent(lastUserMessage.content, proof);
+        await sendMessageToAgent(lastUserMessage.content, payment);
       }
     }
   };
@@ -256,14 +345,24 @@ export function InputBar() {
                 className="w-full h-10 sm:h-11 md:h-12 resize-none border-2 border-black bg-white px-2.5 sm:px-3 md:px-4 py-2 sm:py-2.5 md:py-3 font-mono text-[11px] sm:text-xs text-black placeholder:text-black placeholder:opacity-30 focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
               />
             </div>
-            <Button
-              type="submit"
-              disabled={!isConnected || !input.trim() || isLoading || isSessionLocked}
-              isLoading={isLoading}
-              className="h-10 sm:h-11 md:h-12 px-3 sm:px-4 md:px-6 text-[10px] sm:text-xs flex-shrink-0"
-            >
-              {isLoading ? '...' : 'SEND'}
-            </Button>
+            {abortController ? (
+              <Button
+                type="button"
+                onClick={() => abortController.abort()}
+                className="h-10 sm:h-11 md:h-12 px-3 sm:px-4 md:px-6 text-[10px] sm:text-xs flex-shrink-0"
+              >
+                STOP
+              </Button>
+            ) : (
+              <Button
+                type="submit"
+                disabled={!isConnected || !input.trim() || isLoading || isSessionLocked}
+                isLoading={isLoading}
+                className="h-10 sm:h-11 md:h-12 px-3 sm:px-4 md:px-6 text-[10px] sm:text-xs flex-shrink-0"
+              >
+                {isLoading ? '...' : 'SEND'}
+              </Button>
+            )}
             <button
               type="button"
               onClick={() => router.push('/agents')}
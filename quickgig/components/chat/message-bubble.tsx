@@ -2,13 +2,12 @@
 
 import { type Message } from '@/lib/store/chat';
 import { cn } from '@/lib/utils';
-import { BountyPreview } from '@/components/transaction/bounty-preview';
 import { BountyCreationForm } from './bounty-creation-form';
 import { BountyConfirmation } from './bounty-confirmation';
 import { GigCreationForm } from './gig-creation-form';
 import { AgentRecommendationPanel } from './agent-recommendation-panel';
 import { MissionModePanel } from './mission-mode-panel';
-import { useChatStore } from '@/lib/store/chat';
+import { ActionConfirmation } from './action-confirmation';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import ReactMarkdown from 'react-markdown';
@@ -16,15 +15,15 @@ import remarkGfm from 'remark-gfm';
 
 interface MessageBubbleProps {
   message: Message;
+  isStreaming?: boolean; // The reply is still arriving
 }
 
-export function MessageBubble({ message }: MessageBubbleProps) {
+export function MessageBubble({ message, isStreaming = false }: MessageBubbleProps) {
   const isUser = message.role === 'user';
   const isSystem = message.role === 'system';
-  const addMessage = useChatStore((state) => state.addMessage);
 
-  // Check if this message has a function call (transaction preview)
-  const functionCall = message.metadata?.functionCall;
+  // Actions the assistant proposed (validated tool calls, see /api/chat)
+  const pendingActions = message.metadata?.pendingActions ?? [];
 
   // Check if this message has an action (new action-based flow)
   const action = (message.metadata as { action?: { type: string; prefilled?: unknown; data?: unknown; txHash?: string } })?.action;
@@ -135,29 +134,20 @@ export function MessageBubble({ message }: MessageBubbleProps) {
               : "prose prose-sm max-w-none prose-p:my-2 sm:prose-p:my-3 prose-p:leading-relaxed prose-strong:font-bold prose-strong:text-black prose-em:italic prose-ul:my-3 sm:prose-ul:my-4 prose-ul:list-disc prose-ul:pl-5 sm:prose-ul:pl-6 prose-ul:space-y-1.5 sm:prose-ul:space-y-2 prose-ol:my-3 sm:prose-ol:my-4 prose-ol:list-decimal prose-ol:pl-5 sm:prose-ol:pl-6 prose-ol:space-y-1.5 sm:prose-ol:space-y-2 prose-li:my-0 prose-li:leading-relaxed prose-headings:font-bold prose-headings:mt-3 sm:prose-headings:mt-4 prose-headings:mb-2 sm:prose-headings:mb-3 prose-h1:text-base sm:prose-h1:text-lg prose-h2:text-sm sm:prose-h2:text-base prose-h3:text-xs sm:prose-h3:text-sm"
           )}>
             <ReactMarkdown remarkPlugins={[remarkGfm]}>{message.content}</ReactMarkdown>
+            {isStreaming && <span className="inline-block w-2 h-4 bg-current align-middle animate-pulse" />}
           </div>
 
-          {/* Function call preview */}
-          {functionCall && functionCall.name === 'createBounty' && (
-            <div className="mt-4 pt-4 border-t-2 border-current">
-              <BountyPreview
-                requirements={functionCall.arguments.requirements as string}
-                amount={functionCall.arguments.amount as number}
-                deadline={functionCall.arguments.deadline as number}
-                onSuccess={(bountyId, txHash) => {
-                  addMessage({
-                    role: 'assistant',
-                    content: `Success! Your bounty has been created with ID ${bountyId}. Workers can now submit bids.`,
-                    metadata: { bountyId, txHash },
-                  });
-                }}
-                onCancel={() => {
-                  addMessage({
-                    role: 'system',
-                    content: 'Bounty creation cancelled.',
-                  });
-                }}
-              />
+          {/* Actions awaiting confirmation */}
+          {pendingActions.length > 0 && (
+            <div className="mt-4 pt-4 border-t-2 border-current space-y-3">
+              {pendingActions.map((pendingAction) => (
+                <ActionConfirmation
+                  key={pendingAction.toolCallId}
+                  messageId={message.id}
+                  action={pendingAction}
+                  resolved={!!message.metadata?.resolvedActions?.includes(pendingAction.toolCallId)}
+                />
+              ))}
             </div>
           )}
 
@@ -10,6 +10,7 @@ export function MessageList() {
   const currentSessionId = useChatStore((state) => state.currentSessionId);
   const sessions = useChatStore((state) => state.sessions);
   const isLoading = useChatStore((state) => state.isLoading);
+  const streamingMessageId = useChatStore((state) => state.streamingMessageId);
 
   // Directly get messages from current session (reactive to changes)
   const messages = currentSessionId && sessions[currentSessionId]
@@ -23,12 +24,17 @@ export function MessageList() {
     setMounted(true);
   }, []);
 
+  // Length of the reply being streamed, to keep it in view as it grows
+  const streamingLength = streamingMessageId
+    ? messages.find((message) => message.id === streamingMessageId)?.content.length ?? 0
+    : 0;
+
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     if (mounted) {
       messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     }
-  }, [messages.length, currentSessionId, mounted]);
+  }, [messages.length, streamingLength, currentSessionId, mounted]);
 
   // Show loading state during hydration
   if (!mounted) {
@@ -94,9 +100,9 @@ export function MessageList() {
     <div className="flex-1 overflow-y-auto p-3 sm:p-4 md:p-6 bg-white">
       <div className="max-w-4xl mx-auto">
         {messages.map((message) => (
-          <MessageBubble key={message.id} message={message} />
+          <MessageBubble key={message.id} message={message} isStreaming={message.id === streamingMessageId} />
         ))}
-        {isLoading && (
+        {isLoading && !streamingMessageId && (
           <div className="flex items-start gap-3 mb-6">
             <div className="flex-1 bg-white border-2 border-black p-4">
               <div className="flex items-center gap-2">
@@ -8,6 +8,7 @@ import { useDisputeMilestoneWithUMA } from '@/lib/contracts/gigEscrow';
 import { useDefaultBond } from '@/lib/contracts/umaEscalationManager';
 import { useApproveToken, useTokenBalance } from '@/lib/contracts/erc20';
 import { CONTRACTS } from '@/lib/contracts/addresses';
+import { EvidenceBundleButton } from '@/components/arbitration/EvidenceBundleButton';
 import { toast } from 'sonner';
 
 interface UMADisputeFormProps {
@@ -174,8 +175,16 @@ export function UMADisputeForm({
             disabled={isPending}
           />
           <p className="font-mono text-xs mt-1 opacity-60">
-            Link to supporting evidence (IPFS, cloud storage, etc.)
+            Link to supporting evidence (IPFS, cloud storage, etc.), or build a bundle of the milestone, deliverable, chat and timeline
           </p>
+          <div className="mt-2">
+            <EvidenceBundleButton
+              subject={{ type: 'gig', gigId: Number(gigId), milestoneIndex: Number(milestoneIndex) }}
+              statement={claim.trim() || undefined}
+              onBuilt={(bundle) => setEvidenceURI(bundle.uri)}
+              disabled={isPending}
+            />
+          </div>
         </div>
 
         {/* Process Explanation */}
@@ -3,6 +3,7 @@
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Loader } from '@/components/ui/loader';
+import { EvidenceBundleButton, type BuiltEvidenceBundle } from '@/components/arbitration/EvidenceBundleButton';
 
 interface DisputeModalProps {
   missionId: string;
@@ -24,6 +25,7 @@ export function DisputeModal({
   const [claim, setClaim] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showInfo, setShowInfo] = useState(false);
+  const [evidence, setEvidence] = useState<BuiltEvidenceBundle | null>(null);
 
   const handleSubmit = async () => {
     if (!claim.trim()) {
@@ -32,7 +34,8 @@ export function DisputeModal({
 
     setIsSubmitting(true);
     try {
-      await onSubmit(claim);
+      // MissionEscrow takes no evidence URI, so the bundle is referenced in the claim itself
+      await onSubmit(evidence ? `${claim}\n\nEvidence: ${evidence.uri} (sha256 ${evidence.rootHash})` : claim);
     } finally {
       setIsSubmitting(false);
     }
@@ -207,6 +210,23 @@ export function DisputeModal({
           </div>
         </div>
 
+        {/* Evidence Bundle */}
+        <div className="mb-6">
+          <label className="font-bold text-xs uppercase tracking-wide mb-2 block">
+            EVIDENCE (Optional)
+          </label>
+          <p className="font-mono text-xs text-black/60 mb-2">
+            Package the requirements, agent assignments, deliverables and timeline into a hashed bundle on IPFS,
+            referenced in your claim
+          </p>
+          <EvidenceBundleButton
+            subject={{ type: 'mission', missionId }}
+            statement={claim.trim() || undefined}
+            onBuilt={setEvidence}
+            disabled={isSubmitting}
+          />
+        </div>
+
         {/* Cost Summary */}
         <div className="border-2 border-black p-4 bg-red-50 mb-6">
           <div className="flex items-center justify-between mb-2">
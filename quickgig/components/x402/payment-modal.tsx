@@ -2,29 +2,41 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { Loader, LoadingState } from '@/components/ui/loader';
-import { useAccount, useWaitForTransactionReceipt } from 'wagmi';
+import { useAccount, useSignTypedData, useWaitForTransactionReceipt } from 'wagmi';
 import { formatUnits, parseUnits } from 'viem';
 import { Button } from '@/components/ui/button';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { useApproveToken, useTokenAllowance, useTransferToken, useTokenBalance } from '@/lib/contracts/erc20';
-import { CONTRACTS } from '@/lib/contracts/addresses';
 import { toast } from 'sonner';
-import type { X402PaymentRequest, X402PaymentProof } from '@/lib/x402/types';
+import type { X402Payment, X402PaymentRequest } from '@/lib/x402/types';
 import { createPaymentProof } from '@/lib/x402/middleware';
+import { acceptsScheme, createTransferAuthorization, getAuthorizationTypedData } from '@/lib/x402/authorization';
+import { getChainConfig, getTokenConfig, isSupportedChain } from '@/lib/x402/chains';
 
 interface PaymentModalProps {
   paymentRequest: X402PaymentRequest;
-  onPaymentComplete: (proof: X402PaymentProof) => void;
+  onPaymentComplete: (payment: X402Payment) => void;
   onCancel: () => void;
 }
 
 export function PaymentModal({ paymentRequest, onPaymentComplete, onCancel }: PaymentModalProps) {
   const { address } = useAccount();
-  const [step, setStep] = useState<'preview' | 'approving' | 'paying' | 'verifying'>('preview');
+  const [step, setStep] = useState<'preview' | 'approving' | 'paying' | 'signing' | 'verifying'>('preview');
   const [copied, setCopied] = useState(false);
 
+  // Token details come from the request, falling back to the chain/token registry
+  const token = paymentRequest.token;
+  const tokenConfig = isSupportedChain(paymentRequest.chainId)
+    ? getTokenConfig(paymentRequest.chainId, token)
+    : null;
+  const decimals = paymentRequest.decimals ?? tokenConfig?.decimals ?? 6;
+  const symbol = paymentRequest.symbol || tokenConfig?.symbol || 'USDC';
+  const explorerUrl = isSupportedChain(paymentRequest.chainId)
+    ? getChainConfig(paymentRequest.chainId).explorerUrl
+    : undefined;
+
   const amount = BigInt(paymentRequest.amount);
-  const amountFormatted = formatUnits(amount, 6); // USDC has 6 decimals
+  const amountFormatted = formatUnits(amount, decimals);
 
   // Copy and explorer handlers
   const copyRecipient = () => {
@@ -34,17 +46,17 @@ export function PaymentModal({ paymentRequest, onPaymentComplete, onCancel }: Pa
   };
 
   const viewRecipientOnExplorer = () => {
-    window.open(`https://sepolia.basescan.org/address/${paymentRequest.recipient}`, '_blank');
+    window.open(`${explorerUrl || 'https://sepolia.basescan.org'}/address/${paymentRequest.recipient}`, '_blank');
   };
 
   // Check current balance
-  const { data: balanceData, isLoading: isLoadingBalance } = useTokenBalance(CONTRACTS.USDC, address);
+  const { data: balanceData, isLoading: isLoadingBalance } = useTokenBalance(token, address);
   const balance = balanceData as bigint | undefined | null;
   const hasEnoughBalance = balance !== undefined && balance !== null && balance >= amount;
 
   // Check current allowance
   const { data: allowanceData, refetch: refetchAllowance } = useTokenAllowance(
-    CONTRACTS.USDC,
+    token,
     address,
     paymentRequest.recipient
   );
@@ -64,6 +76,32 @@ export function PaymentModal({ paymentRequest, onPaymentComplete, onCancel }: Pa
     hash: transferHash,
   });
 
+  // Signed authorization (EIP-3009) - no approval or transfer needed, the agent settles it
+  const canSignAuthorization = acceptsScheme(paymentRequest, 'authorization') && !!paymentRequest.tokenDomain;
+  const { signTypedDataAsync } = useSignTypedData();
+
+  const handleSignAuthorization = async () => {
+    if (!address) {
+      toast.error('Please connect your wallet');
+      return;
+    }
+
+    try {
+      setStep('signing');
+      const authorization = createTransferAuthorization(paymentRequest, address);
+      const signature = await signTypedDataAsync(
+        getAuthorizationTypedData(authorization, paymentRequest.tokenDomain)
+      );
+
+      setStep('verifying');
+      toast.success('Payment signed! Verifying...');
+      onPaymentComplete({ ...authorization, signature });
+    } catch (error) {
+      toast.error(`Signing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setStep('preview');
+    }
+  };
+
   // Handle approval
   const handleApprove = async () => {
     if (!address) {
@@ -73,8 +111,8 @@ export function PaymentModal({ paymentRequest, onPaymentComplete, onCancel }: Pa
 
     try {
       setStep('approving');
-      toast.info('Approving USDC...');
-      approve(CONTRACTS.USDC, paymentRequest.recipient, amount);
+      toast.info(`Approving ${symbol}...`);
+      approve(token, paymentRequest.recipient, amount);
     } catch (error) {
       toast.error(`Approval failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
       setStep('preview');
@@ -91,22 +129,22 @@ export function PaymentModal({ paymentRequest, onPaymentComplete, onCancel }: Pa
     try {
       setStep('paying');
       toast.info('Sending payment...');
-      transfer(CONTRACTS.USDC, paymentRequest.recipient, amount);
+      transfer(token, paymentRequest.recipient, amount);
     } catch (error) {
       toast.error(`Payment failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
       setStep('preview');
     }
-  }, [address, paymentRequest.recipient, amount, transfer]);
+  }, [address, token, paymentRequest.recipient, amount, transfer]);
 
   // Auto-transition after approval
   useEffect(() => {
     if (isApproved && step === 'approving') {
-      toast.success('USDC approved! Now sending payment...');
+      toast.success(`${symbol} approved! Now sending payment...`);
       refetchAllowance();
       setStep('preview');
       setTimeout(() => handlePay(), 1000);
     }
-  }, [isApproved, step, handlePay, refetchAllowance]);
+  }, [isApproved, step, handlePay, refetchAllowance, symbol]);
 
   // Handle successful transfer
   useEffect(() => {
@@ -120,7 +158,8 @@ export function PaymentModal({ paymentRequest, onPaymentComplete, onCancel }: Pa
         address!,
         paymentRequest.recipient,
         paymentRequest.amount,
-        paymentRequest.token
+        paymentRequest.token,
+        paymentRequest.chainId
       );
 
       // Complete payment flow
@@ -128,7 +167,7 @@ export function PaymentModal({ paymentRequest, onPaymentComplete, onCancel }: Pa
         onPaymentComplete(proof);
       }, 1000);
     }
-  }, [isTransferred, transferHash, step, address, onPaymentComplete, paymentRequest.amount, paymentRequest.recipient, paymentRequest.token]);
+  }, [isTransferred, transferHash, step, address, onPaymentComplete, paymentRequest.amount, paymentRequest.recipient, paymentRequest.token, paymentRequest.chainId]);
 
   return (
     <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-3 sm:p-4">
@@ -161,7 +200,7 @@ export function PaymentModal({ paymentRequest, onPaymentComplete, onCancel }: Pa
                   AMOUNT:
                 </span>
                 <span className="font-black text-lg sm:text-xl">
-                  ${amountFormatted} USDC
+                  ${amountFormatted} {symbol}
                 </span>
               </div>
             </div>
@@ -225,11 +264,11 @@ export function PaymentModal({ paymentRequest, onPaymentComplete, onCancel }: Pa
                 </div>
                 <div>
                   <p className="font-mono text-[10px] sm:text-xs text-red-900">
-                    Insufficient USDC balance. You need ${amountFormatted} USDC.
+                    Insufficient {symbol} balance. You need ${amountFormatted} {symbol}.
                   </p>
                   {balance !== undefined && balance !== null && (
                     <p className="font-mono text-[10px] sm:text-xs mt-1.5 sm:mt-2 text-red-700">
-                      Current balance: ${formatUnits(balance, 6)} USDC
+                      Current balance: ${formatUnits(balance, decimals)} {symbol}
                     </p>
                   )}
                 </div>
@@ -270,6 +309,15 @@ export function PaymentModal({ paymentRequest, onPaymentComplete, onCancel }: Pa
               </div>
             )}
 
+            {step === 'signing' && (
+              <div className="border-2 border-black p-3 sm:p-4 bg-white text-center">
+                <Loader size="md" />
+                <p className="font-mono text-[10px] sm:text-xs uppercase tracking-wide">
+                  WAITING FOR SIGNATURE...
+                </p>
+              </div>
+            )}
+
             {step === 'verifying' && (
               <div className="border-2 border-black p-3 sm:p-4 bg-black text-white text-center">
                 <p className="font-mono text-[10px] sm:text-xs uppercase tracking-wide flex items-center justify-center gap-1.5 sm:gap-2">
@@ -279,25 +327,36 @@ export function PaymentModal({ paymentRequest, onPaymentComplete, onCancel }: Pa
               </div>
             )}
 
-            {step === 'preview' && needsApproval && (
+            {step === 'preview' && canSignAuthorization && (
+              <Button
+                onClick={handleSignAuthorization}
+                disabled={!address || isLoadingBalance || (balance !== undefined && !hasEnoughBalance)}
+                isLoading={isLoadingBalance}
+                className="w-full h-10 sm:h-11 md:h-12 text-[10px] sm:text-xs"
+              >
+                {isLoadingBalance ? 'CHECKING BALANCE...' : `SIGN $${amountFormatted} ${symbol} (NO GAS)`}
+              </Button>
+            )}
+
+            {step === 'preview' && !canSignAuthorization && needsApproval && (
               <Button
                 onClick={handleApprove}
                 disabled={isApproving || !address || isLoadingBalance || (balance !== undefined && !hasEnoughBalance)}
                 isLoading={isApproving || isLoadingBalance}
                 className="w-full h-10 sm:h-11 md:h-12 text-[10px] sm:text-xs"
               >
-                {isLoadingBalance ? 'CHECKING BALANCE...' : isApproving ? 'APPROVING USDC...' : 'APPROVE USDC'}
+                {isLoadingBalance ? 'CHECKING BALANCE...' : isApproving ? `APPROVING ${symbol}...` : `APPROVE ${symbol}`}
               </Button>
             )}
 
-            {step === 'preview' && !needsApproval && (
+            {step === 'preview' && !canSignAuthorization && !needsApproval && (
               <Button
                 onClick={handlePay}
                 disabled={isTransferring || !address || isLoadingBalance || (balance !== undefined && !hasEnoughBalance)}
                 isLoading={isTransferring || isLoadingBalance}
                 className="w-full h-10 sm:h-11 md:h-12 text-[10px] sm:text-xs"
               >
-                {isLoadingBalance ? 'CHECKING BALANCE...' : isTransferring ? 'SENDING PAYMENT...' : `PAY $${amountFormatted} USDC`}
+                {isLoadingBalance ? 'CHECKING BALANCE...' : isTransferring ? 'SENDING PAYMENT...' : `PAY $${amountFormatted} ${symbol}`}
               </Button>
             )}
 
@@ -0,0 +1,70 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.27;
+
+import {Script, console} from "forge-std/Script.sol";
+import {BountyEscrow} from "../src/BountyEscrow.sol";
+import {GigEscrow} from "../src/GigEscrow.sol";
+import {MissionEscrow} from "../src/MissionEscrow.sol";
+import {QuickGigEscalationManager} from "../src/QuickGigEscalationManager.sol";
+import {MockOptimisticOracleV3} from "../test/mocks/MockOptimisticOracleV3.sol";
+
+/**
+ * @title DeployMockOracle
+ * @notice Points local escrows at a mock optimistic oracle, to run the UMA keeper against Anvil
+ * @dev Run with: forge script script/DeployMockOracle.s.sol --rpc-url http://127.0.0.1:8545 --broadcast
+ *      Then fast-forward liveness with: cast rpc evm_increaseTime 7200 && cast rpc evm_mine
+ *
+ * Environment Variables Required:
+ * - PRIVATE_KEY: Owner of the escrows
+ * - NEXT_PUBLIC_BOUNTY_ESCROW_ADDRESS: BountyEscrow contract address
+ *
+ * Optional Environment Variables:
+ * - NEXT_PUBLIC_GIG_ESCROW_ADDRESS, NEXT_PUBLIC_MISSION_ESCROW_ADDRESS: Also repointed when set
+ * - UMA_DEFAULT_BOND: Bond amount in USDC wei (default: 10000000 = 10 USDC)
+ * - UMA_LIVENESS_PERIOD: Challenge period in seconds (default: 7200 = 2 hours)
+ */
+contract DeployMockOracle is Script {
+    uint256 public constant DEFAULT_BOND = 10_000_000; // 10 USDC (6 decimals)
+    uint64 public constant DEFAULT_LIVENESS = 7200; // 2 hours
+
+    function run() public {
+        require(block.chainid == 31337, "Mock oracle is for local chains only");
+
+        uint256 deployerPrivateKey = vm.envUint("PRIVATE_KEY");
+        address bountyEscrow = vm.envAddress("NEXT_PUBLIC_BOUNTY_ESCROW_ADDRESS");
+        address gigEscrow = vm.envOr("NEXT_PUBLIC_GIG_ESCROW_ADDRESS", address(0));
+        address missionEscrow = vm.envOr("NEXT_PUBLIC_MISSION_ESCROW_ADDRESS", address(0));
+        uint256 bond = vm.envOr("UMA_DEFAULT_BOND", DEFAULT_BOND);
+        uint64 liveness = uint64(vm.envOr("UMA_LIVENESS_PERIOD", uint256(DEFAULT_LIVENESS)));
+
+        vm.startBroadcast(deployerPrivateKey);
+
+        MockOptimisticOracleV3 oracle = new MockOptimisticOracleV3();
+
+        // The escalation manager only accepts callbacks from its own oracle, so it is redeployed too
+        QuickGigEscalationManager escalationManager =
+            new QuickGigEscalationManager(bountyEscrow, address(oracle), bond, liveness);
+
+        BountyEscrow(bountyEscrow).updateOptimisticOracle(address(oracle));
+        BountyEscrow(bountyEscrow).updateUMAEscalationManager(address(escalationManager));
+
+        if (gigEscrow != address(0)) {
+            GigEscrow(gigEscrow).updateOptimisticOracle(address(oracle));
+            GigEscrow(gigEscrow).updateUMAEscalationManager(address(escalationManager));
+        }
+
+        if (missionEscrow != address(0)) {
+            MissionEscrow(missionEscrow).setUMAConfig(address(oracle), address(escalationManager));
+        }
+
+        vm.stopBroadcast();
+
+        console.log("MockOptimisticOracleV3:", address(oracle));
+        console.log("QuickGigEscalationManager:", address(escalationManager));
+        console.log("\nAdd to .env.local:");
+        console.log("NEXT_PUBLIC_OPTIMISTIC_ORACLE_V3_ADDRESS=", address(oracle));
+        console.log("NEXT_PUBLIC_UMA_ESCALATION_MANAGER_ADDRESS=", address(escalationManager));
+        console.log("\nDecide a disputed assertion (in place of the DVM):");
+        console.log("cast send <oracle> 'resolveDisputedAssertion(bytes32,bool)' <assertionId> <true|false>");
+    }
+}
@@ -0,0 +1,168 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.27;
+
+import {Test} from "forge-std/Test.sol";
+import {BountyEscrow} from "../src/BountyEscrow.sol";
+import {QuickGigEscalationManager} from "../src/QuickGigEscalationManager.sol";
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {MockOptimisticOracleV3} from "./mocks/MockOptimisticOracleV3.sol";
+
+/**
+ * @title UMASettlementTest
+ * @notice The UMA dispute lifecycle the keeper automates, against the mock optimistic oracle:
+ *         dispute with UMA, wait out liveness (or a vote), settleAndGetAssertionResult, resolveUMADispute
+ */
+contract MockUSDC is ERC20 {
+    constructor() ERC20("Mock USDC", "USDC") {}
+
+    function decimals() public pure override returns (uint8) {
+        return 6;
+    }
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
+
+contract UMASettlementTest is Test {
+    BountyEscrow public bountyEscrow;
+    QuickGigEscalationManager public escalationManager;
+    MockOptimisticOracleV3 public oracle;
+    MockUSDC public usdc;
+
+    address public owner = address(1);
+    address public feeCollector = address(2);
+    address public client = address(4);
+    address public worker = address(5);
+    address public keeper = address(6);
+
+    uint256 constant ESCROW_AMOUNT = 100e6;
+    uint256 constant BID_AMOUNT = 80e6;
+    uint256 constant BOND = 10e6;
+    uint64 constant LIVENESS = 7200; // Hard-coded in BountyEscrow.disputeDeliverableWithUMA
+
+    function setUp() public {
+        vm.startPrank(owner);
+
+        usdc = new MockUSDC();
+        oracle = new MockOptimisticOracleV3();
+        bountyEscrow = new BountyEscrow(feeCollector, address(0), address(0), address(0), address(oracle));
+        escalationManager = new QuickGigEscalationManager(address(bountyEscrow), address(oracle), BOND, LIVENESS);
+        bountyEscrow.updateUMAEscalationManager(address(escalationManager));
+
+        vm.stopPrank();
+
+        usdc.mint(client, 1_000e6);
+        usdc.mint(worker, 1_000e6);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                                HELPERS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev Bounty assigned to the worker, deliverable submitted and disputed by the client with UMA
+     */
+    function _disputedBounty() internal returns (uint256 bountyId, bytes32 assertionId) {
+        vm.startPrank(client);
+        usdc.approve(address(bountyEscrow), ESCROW_AMOUNT + BOND);
+        bountyId = bountyEscrow.createBounty(address(usdc), ESCROW_AMOUNT, block.timestamp + 7 days, "ipfs://requirements", true);
+        vm.stopPrank();
+
+        vm.prank(worker);
+        bountyEscrow.submitBid(bountyId, BID_AMOUNT, "ipfs://proposal");
+
+        vm.prank(client);
+        bountyEscrow.assignWorker(bountyId, 0);
+
+        vm.prank(worker);
+        bountyEscrow.submitDeliverable(bountyId, "ipfs://deliverable");
+
+        vm.prank(client);
+        bountyEscrow.disputeDeliverableWithUMA(bountyId, "Deliverable misses the requirements", "ipfs://evidence", BOND);
+
+        assertionId = bountyEscrow.umaAssertionIds(bountyId);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                                 TESTS
+    //////////////////////////////////////////////////////////////*/
+
+    function test_UndisputedAssertion_SettlesForClientAfterLiveness() public {
+        (uint256 bountyId, bytes32 assertionId) = _disputedBounty();
+
+        MockOptimisticOracleV3.Assertion memory assertion = oracle.getAssertion(assertionId);
+        assertEq(assertion.expirationTime, uint64(block.timestamp) + LIVENESS, "Expires after liveness");
+        assertFalse(assertion.settled, "Not settled yet");
+
+        vm.warp(assertion.expirationTime);
+
+        uint256 clientBefore = usdc.balanceOf(client);
+
+        vm.startPrank(keeper);
+        assertTrue(oracle.settleAndGetAssertionResult(assertionId), "Claim upheld");
+        bountyEscrow.resolveUMADispute(bountyId);
+        vm.stopPrank();
+
+        (bool resolved, uint256 clientBps,) = escalationManager.getResolution(bountyId);
+        assertTrue(resolved, "Escalation manager resolved");
+        assertEq(clientBps, 10000, "Client wins");
+        assertEq(usdc.balanceOf(client), clientBefore + BID_AMOUNT + BOND, "Client refunded with bond");
+        assertEq(uint256(bountyEscrow.getBounty(bountyId).status), uint256(BountyEscrow.BountyStatus.Completed));
+    }
+
+    function test_Settle_RevertsBeforeLiveness() public {
+        (uint256 bountyId, bytes32 assertionId) = _disputedBounty();
+
+        vm.warp(block.timestamp + LIVENESS - 1);
+
+        vm.startPrank(keeper);
+        vm.expectRevert("Assertion not expired");
+        oracle.settleAndGetAssertionResult(assertionId);
+
+        vm.expectRevert("Dispute not yet resolved");
+        bountyEscrow.resolveUMADispute(bountyId);
+        vm.stopPrank();
+    }
+
+    function test_DisputedAssertion_WaitsForVoteThenPaysWorker() public {
+        (uint256 bountyId, bytes32 assertionId) = _disputedBounty();
+
+        vm.startPrank(worker);
+        usdc.approve(address(oracle), BOND);
+        oracle.disputeAssertion(assertionId, worker);
+        vm.stopPrank();
+
+        // Liveness no longer matters once disputed - settlement waits for the vote
+        vm.warp(block.timestamp + LIVENESS);
+        vm.prank(keeper);
+        vm.expectRevert("Dispute not resolved");
+        oracle.settleAndGetAssertionResult(assertionId);
+
+        vm.prank(owner);
+        oracle.resolveDisputedAssertion(assertionId, false);
+
+        uint256 workerBefore = usdc.balanceOf(worker);
+
+        vm.startPrank(keeper);
+        assertFalse(oracle.settleAndGetAssertionResult(assertionId), "Claim rejected");
+        bountyEscrow.resolveUMADispute(bountyId);
+        vm.stopPrank();
+
+        uint256 fee = (BID_AMOUNT * bountyEscrow.platformFeeBps()) / 10000;
+        assertEq(usdc.balanceOf(worker), workerBefore + BID_AMOUNT - fee + BOND * 2, "Worker paid with both bonds");
+    }
+
+    function test_Settle_RevertsTwice() public {
+        (, bytes32 assertionId) = _disputedBounty();
+
+        vm.warp(block.timestamp + LIVENESS);
+        oracle.settleAssertion(assertionId);
+
+        vm.expectRevert("Assertion already settled");
+        oracle.settleAssertion(assertionId);
+
+        // settleAndGetAssertionResult stays callable, as on OOv3
+        assertTrue(oracle.settleAndGetAssertionResult(assertionId));
+    }
+}
@@ -0,0 +1,274 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.27;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+interface IAssertionResolvedCallbackRecipient {
+    function assertionResolvedCallback(bytes32 assertionId, bool assertedTruthfully) external;
+}
+
+/**
+ * @title MockOptimisticOracleV3
+ * @notice Local stand-in for UMA's OptimisticOracleV3, for Anvil and forge tests
+ * @dev Same assertTruth / disputeAssertion / settleAssertion / settleAndGetAssertionResult / getAssertion
+ *      surface and Assertion layout as OOv3, so the escrows, the frontend and the UMA keeper run against it
+ *      unchanged. Differences from OOv3:
+ * - There is no DVM: the owner decides disputed assertions with resolveDisputedAssertion
+ * - Escalation manager policies aren't consulted and dispute callbacks aren't made
+ * - The winner gets both bonds back in full (no final fee or burned share)
+ * Settlement callbacks are made as OOv3 makes them: callback recipient first, then escalation manager.
+ */
+contract MockOptimisticOracleV3 {
+    using SafeERC20 for IERC20;
+
+    /*//////////////////////////////////////////////////////////////
+                                 TYPES
+    //////////////////////////////////////////////////////////////*/
+
+    struct EscalationManagerSettings {
+        bool arbitrateViaEscalationManager;
+        bool discardOracle;
+        bool validateDisputers;
+        address assertingCaller;
+        address escalationManager;
+    }
+
+    struct Assertion {
+        EscalationManagerSettings escalationManagerSettings;
+        address asserter;
+        uint64 assertionTime;
+        bool settled;
+        IERC20 currency;
+        uint64 expirationTime;
+        bool settlementResolution;
+        bytes32 domainId;
+        bytes32 identifier;
+        uint256 bond;
+        address callbackRecipient;
+        address disputer;
+    }
+
+    struct Vote {
+        bool resolved;
+        bool assertedTruthfully;
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                                STORAGE
+    //////////////////////////////////////////////////////////////*/
+
+    /// @notice Decides disputed assertions in place of the DVM
+    address public owner;
+
+    mapping(bytes32 => Assertion) internal assertions;
+
+    /// @notice Owner's decision on each disputed assertion
+    mapping(bytes32 => Vote) public votes;
+
+    uint256 private assertionNonce;
+
+    /*//////////////////////////////////////////////////////////////
+                                 EVENTS
+    //////////////////////////////////////////////////////////////*/
+
+    event AssertionMade(
+        bytes32 indexed assertionId,
+        bytes32 domainId,
+        bytes claim,
+        address indexed asserter,
+        address callbackRecipient,
+        address escalationManager,
+        address caller,
+        uint64 expirationTime,
+        IERC20 currency,
+        uint256 bond,
+        bytes32 indexed identifier
+    );
+
+    event AssertionDisputed(bytes32 indexed assertionId, address indexed caller, address indexed disputer);
+
+    event AssertionSettled(
+        bytes32 indexed assertionId,
+        address indexed bondRecipient,
+        bool disputed,
+        bool settlementResolution,
+        address settleCaller
+    );
+
+    event DisputedAssertionResolved(bytes32 indexed assertionId, bool assertedTruthfully);
+
+    constructor() {
+        owner = msg.sender;
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                         OPTIMISTIC ORACLE V3
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Assert a claim, pulling the bond from the caller
+     * @return assertionId Unique identifier of the assertion
+     */
+    function assertTruth(
+        bytes memory claim,
+        address asserter,
+        address callbackRecipient,
+        address escalationManager,
+        uint64 liveness,
+        IERC20 currency,
+        uint256 bond,
+        bytes32 identifier,
+        bytes32 domainId
+    ) external returns (bytes32 assertionId) {
+        require(asserter != address(0), "Asserter cant be 0");
+
+        assertionId = keccak256(
+            abi.encode(
+                claim, bond, block.timestamp, liveness, currency, callbackRecipient,
+                escalationManager, identifier, msg.sender, assertionNonce++
+            )
+        );
+        require(assertions[assertionId].asserter == address(0), "Assertion already exists");
+
+        uint64 expirationTime = uint64(block.timestamp) + liveness;
+
+        Assertion storage assertion = assertions[assertionId];
+        assertion.escalationManagerSettings.assertingCaller = msg.sender;
+        assertion.escalationManagerSettings.escalationManager = escalationManager;
+        assertion.asserter = asserter;
+        assertion.assertionTime = uint64(block.timestamp);
+        assertion.currency = currency;
+        assertion.expirationTime = expirationTime;
+        assertion.domainId = domainId;
+        assertion.identifier = identifier;
+        assertion.bond = bond;
+        assertion.callbackRecipient = callbackRecipient;
+
+        if (bond > 0) {
+            currency.safeTransferFrom(msg.sender, address(this), bond);
+        }
+
+        emit AssertionMade(
+            assertionId, domainId, claim, asserter, callbackRecipient, escalationManager,
+            msg.sender, expirationTime, currency, bond, identifier
+        );
+    }
+
+    /**
+     * @notice Dispute an assertion during its liveness, pulling a matching bond from the caller
+     */
+    function disputeAssertion(bytes32 assertionId, address disputer) external {
+        Assertion storage assertion = assertions[assertionId];
+
+        require(disputer != address(0), "Disputer can't be 0");
+        require(assertion.asserter != address(0), "Assertion does not exist");
+        require(assertion.disputer == address(0), "Assertion already disputed");
+        require(assertion.expirationTime > block.timestamp, "Assertion is expired");
+
+        assertion.disputer = disputer;
+
+        if (assertion.bond > 0) {
+            assertion.currency.safeTransferFrom(msg.sender, address(this), assertion.bond);
+        }
+
+        emit AssertionDisputed(assertionId, msg.sender, disputer);
+    }
+
+    /**
+     * @notice Settle an assertion once its liveness passed undisputed, or once its dispute was decided
+     */
+    function settleAssertion(bytes32 assertionId) public {
+        Assertion storage assertion = assertions[assertionId];
+
+        require(assertion.asserter != address(0), "Assertion does not exist");
+        require(!assertion.settled, "Assertion already settled");
+
+        bool disputed = assertion.disputer != address(0);
+        address bondRecipient;
+        uint256 payout;
+
+        if (!disputed) {
+            require(assertion.expirationTime <= block.timestamp, "Assertion not expired");
+            assertion.settlementResolution = true;
+            bondRecipient = assertion.asserter;
+            payout = assertion.bond;
+        } else {
+            Vote memory vote = votes[assertionId];
+            require(vote.resolved, "Dispute not resolved");
+            assertion.settlementResolution = vote.assertedTruthfully;
+            bondRecipient = vote.assertedTruthfully ? assertion.asserter : assertion.disputer;
+            payout = assertion.bond * 2;
+        }
+
+        assertion.settled = true;
+
+        if (payout > 0) {
+            assertion.currency.safeTransfer(bondRecipient, payout);
+        }
+
+        _callbackOnAssertionResolve(assertionId, assertion.settlementResolution);
+
+        emit AssertionSettled(assertionId, bondRecipient, disputed, assertion.settlementResolution, msg.sender);
+    }
+
+    /**
+     * @notice Settle the assertion if it isn't yet and return its result
+     */
+    function settleAndGetAssertionResult(bytes32 assertionId) external returns (bool) {
+        if (!assertions[assertionId].settled) settleAssertion(assertionId);
+        return getAssertionResult(assertionId);
+    }
+
+    /**
+     * @notice Result of a settled assertion
+     */
+    function getAssertionResult(bytes32 assertionId) public view returns (bool) {
+        Assertion storage assertion = assertions[assertionId];
+
+        require(assertion.settled, "Assertion not settled");
+        return assertion.settlementResolution;
+    }
+
+    function getAssertion(bytes32 assertionId) external view returns (Assertion memory) {
+        return assertions[assertionId];
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                              MOCK ONLY
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Decide a disputed assertion, as a DVM vote would
+     * @param assertedTruthfully True upholds the asserter's claim
+     */
+    function resolveDisputedAssertion(bytes32 assertionId, bool assertedTruthfully) external {
+        require(msg.sender == owner, "Only owner");
+
+        Assertion storage assertion = assertions[assertionId];
+        require(assertion.disputer != address(0), "Assertion not disputed");
+        require(!assertion.settled, "Assertion already settled");
+
+        votes[assertionId] = Vote({resolved: true, assertedTruthfully: assertedTruthfully});
+
+        emit DisputedAssertionResolved(assertionId, assertedTruthfully);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                           INTERNAL HELPERS
+    //////////////////////////////////////////////////////////////*/
+
+    function _callbackOnAssertionResolve(bytes32 assertionId, bool assertedTruthfully) internal {
+        Assertion storage assertion = assertions[assertionId];
+        address escalationManager = assertion.escalationManagerSettings.escalationManager;
+
+        if (assertion.callbackRecipient != address(0)) {
+            IAssertionResolvedCallbackRecipient(assertion.callbackRecipient)
+                .assertionResolvedCallback(assertionId, assertedTruthfully);
+        }
+        if (escalationManager != address(0)) {
+            IAssertionResolvedCallbackRecipient(escalationManager)
+                .assertionResolvedCallback(assertionId, assertedTruthfully);
+        }
+    }
+}
@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/supabase/agents', () => ({ getAgentRankingSignals: vi.fn() }));
+vi.mock('@/lib/erc8004/server-client', () => ({ getServerPublicClient: vi.fn() }));
+vi.mock('@/lib/erc8004/unified-discovery', () => ({
+  getAgentReputationSummary: vi.fn(),
+  getLinkedTokenId: vi.fn(),
+}));
+
+/**
+ * Fresh module per test - AGENT_RANKING_WEIGHTS is read once and cached
+ */
+async function loadRanking(envWeights?: string) {
+  vi.resetModules();
+  if (envWeights !== undefined) vi.stubEnv('AGENT_RANKING_WEIGHTS', envWeights);
+  return import('./agent-ranking');
+}
+
+beforeEach(() => {
+  vi.unstubAllEnvs();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('resolveRankingWeights', () => {
+  it('normalizes the defaults to sum to 1', async () => {
+    const { resolveRankingWeights, DEFAULT_RANKING_WEIGHTS } = await loadRanking();
+
+    expect(resolveRankingWeights()).toEqual(DEFAULT_RANKING_WEIGHTS);
+  });
+
+  it('applies AGENT_RANKING_WEIGHTS over the defaults', async () => {
+    const { resolveRankingWeights } = await loadRanking('reputation=0.6, price=0.45');
+    const weights = resolveRankingWeights();
+
+    expect(weights.reputation).toBeCloseTo(0.6 / 1.6);
+    expect(weights.price).toBeCloseTo(0.45 / 1.6);
+  });
+
+  it.each([
+    ['an unknown factor', 'charisma=1'],
+    ['a non-numeric weight', 'reputation=high'],
+    ['a negative weight', 'price=-1'],
+    ['all weights at 0', 'reputation=0,completion=0,speed=0,disputes=0,price=0,availability=0'],
+  ])('falls back to the defaults for %s in AGENT_RANKING_WEIGHTS', async (_case, envWeights) => {
+    const { resolveRankingWeights, DEFAULT_RANKING_WEIGHTS } = await loadRanking(envWeights);
+
+    expect(resolveRankingWeights()).toEqual(DEFAULT_RANKING_WEIGHTS);
+    expect(console.error).toHaveBeenCalledOnce();
+
+    // Checked once, not on every recommendation
+    resolveRankingWeights();
+    expect(console.error).toHaveBeenCalledOnce();
+  });
+
+  it('still rejects invalid per-request weights', async () => {
+    const { resolveRankingWeights } = await loadRanking('charisma=1');
+
+    expect(() => resolveRankingWeights({ price: -1 })).toThrow('Ranking weight for price must be a non-negative number');
+    expect(resolveRankingWeights({ price: 1, reputation: 0, completion: 0, speed: 0, disputes: 0, availability: 0 }))
+      .toMatchObject({ price: 1 });
+  });
+});
@@ -0,0 +1,423 @@
+/**
+ * Agent Ranking Engine
+ * Scores recommendation candidates on weighted factors - on-chain ERC-8004 reputation,
+ * step completion rate, delivery time, dispute outcomes, price fit and queue depth or
+ * heartbeat load - and explains what each factor contributed
+ *
+ * Weights come from AGENT_RANKING_WEIGHTS (e.g. "reputation=0.4,price=0.2") and can be
+ * overridden per request. They are normalized to sum to 1.
+ */
+
+import type { PublicClient } from 'viem';
+import { getAgentRankingSignals, type AgentProfile, type AgentRankingSignals } from '@/lib/supabase/agents';
+import { getServerPublicClient } from '@/lib/erc8004/server-client';
+import {
+  getAgentReputationSummary,
+  getLinkedTokenId,
+  type AgentReputationSummary,
+} from '@/lib/erc8004/unified-discovery';
+import type { CapabilityInfo } from '@/lib/capabilities/taxonomy';
+import { getAgentCapacity, type AgentCapacity } from '@/lib/orchestrator/heartbeats';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RankingFactor = 'reputation' | 'completion' | 'speed' | 'disputes' | 'price' | 'availability';
+
+export type RankingWeights = Record<RankingFactor, number>;
+
+export interface FactorScore {
+  factor: RankingFactor;
+  score: number; // 0-1
+  weight: number; // Normalized
+  contribution: number; // Points of the 0-100 total (score * weight * 100)
+  explanation: string;
+}
+
+export interface AgentRanking {
+  score: number; // 0-100
+  factors: FactorScore[]; // Largest contribution first
+}
+
+export interface RankingContext {
+  capability?: CapabilityInfo | null; // Typical price and turnaround to compare against
+  budget?: number; // USDC the client wants to spend on this capability
+  weights?: Partial<RankingWeights>;
+}
+
+export interface RankedAgent {
+  profile: AgentProfile;
+  ranking: AgentRanking;
+  reputation: AgentReputationSummary | null; // On-chain, null if not linked or unreadable
+  signals: AgentRankingSignals;
+  capacity: AgentCapacity; // From the agent's heartbeats
+  availability: 'available' | 'busy' | 'offline';
+}
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  reputation: 0.3,
+  completion: 0.2,
+  disputes: 0.15,
+  price: 0.15,
+  speed: 0.1,
+  availability: 0.1,
+};
+
+const RANKING_FACTORS = Object.keys(DEFAULT_RANKING_WEIGHTS) as RankingFactor[];
+
+// Completion and delivery time only count recent work
+const SIGNAL_WINDOW_DAYS = 90;
+
+// New agents are treated as if they had this many results at the neutral prior,
+// so one lucky review or step doesn't put them on top
+const PRIOR_WEIGHT = 3;
+const PRIOR_REPUTATION = 50;
+const PRIOR_COMPLETION_RATE = 0.8;
+
+const REPUTATION_READ_TIMEOUT = 5000;
+
+// AGENT_RANKING_WEIGHTS, parsed and checked on first use
+let envRankingWeights: Partial<RankingWeights> | null = null;
+
+/**
+ * Merge weights over the defaults and normalize them to sum to 1
+ * Throws on an unknown factor, a negative or non-numeric weight, or all weights at 0
+ */
+function normalizeRankingWeights(...layers: (Partial<RankingWeights> | undefined)[]): RankingWeights {
+  const merged: Record<string, number> = Object.assign({ ...DEFAULT_RANKING_WEIGHTS }, ...layers);
+
+  for (const [factor, weight] of Object.entries(merged)) {
+    if (!RANKING_FACTORS.includes(factor as RankingFactor)) {
+      throw new Error(`Unknown ranking factor "${factor}" (expected one of: ${RANKING_FACTORS.join(', ')})`);
+    }
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+      throw new Error(`Ranking weight for ${factor} must be a non-negative number`);
+    }
+  }
+
+  const total = RANKING_FACTORS.reduce((sum, factor) => sum + merged[factor], 0);
+  if (total === 0) throw new Error('At least one ranking weight must be above 0');
+
+  return Object.fromEntries(
+    RANKING_FACTORS.map((factor) => [factor, merged[factor] / total])
+  ) as RankingWeights;
+}
+
+/**
+ * Parse AGENT_RANKING_WEIGHTS ("factor=weight,...") - unset keeps the defaults
+ * A bad value is logged and ignored rather than failing every recommendation
+ */
+function readRankingWeights(): Partial<RankingWeights> {
+  if (envRankingWeights) return envRankingWeights;
+
+  const value = process.env.AGENT_RANKING_WEIGHTS?.trim();
+  envRankingWeights = {};
+  if (!value) return envRankingWeights;
+
+  const parsed: Partial<RankingWeights> = Object.fromEntries(
+    value.split(',').map((entry) => {
+      const [factor, weight] = entry.split('=').map((part) => part.trim());
+      return [factor, Number(weight)];
+    })
+  );
+
+  try {
+    normalizeRankingWeights(parsed);
+    envRankingWeights = parsed;
+  } catch (error) {
+    console.error(
+      `[Agent Ranking] Ignoring AGENT_RANKING_WEIGHTS="${value}", using the defaults:`,
+      error instanceof Error ? error.message : error
+    );
+  }
+
+  return envRankingWeights;
+}
+
+/**
+ * Merge env and per-request weights over the defaults and normalize them to sum to 1
+ * Throws if the per-request overrides are invalid
+ */
+export function resolveRankingWeights(overrides?: Partial<RankingWeights>): RankingWeights {
+  return normalizeRankingWeights(readRankingWeights(), overrides);
+}
+
+// ============================================================================
+// FACTORS
+// ============================================================================
+
+type FactorResult = Pick<FactorScore, 'score' | 'explanation'>;
+
+/**
+ * "45 min", "3 hours", "2 days"
+ */
+export function formatDuration(seconds: number): string {
+  const minutes = Math.max(1, Math.round(seconds / 60));
+  if (minutes < 90) return `${minutes} min`;
+
+  const hours = Math.round(minutes / 60);
+  if (hours < 36) return `${hours} hours`;
+
+  return `${Math.round(hours / 24)} days`;
+}
+
+function usd(amount: number): string {
+  return `$${Number(amount.toFixed(2))}`;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function scoreReputation(profile: AgentProfile, summary: AgentReputationSummary | null): FactorResult {
+  if (summary && summary.count > 0) {
+    const shrunk = (summary.averageScore * summary.count + PRIOR_REPUTATION * PRIOR_WEIGHT) / (summary.count + PRIOR_WEIGHT);
+    return {
+      score: shrunk / 100,
+      explanation: `${(summary.averageScore / 20).toFixed(1)}★ from ${plural(summary.count, 'on-chain review')}`,
+    };
+  }
+
+  const platformScore = profile.reputation_score ?? PRIOR_REPUTATION;
+  const reason = !getLinkedTokenId(profile)
+    ? 'Not registered on ERC-8004'
+    : summary
+    ? 'No on-chain reviews yet'
+    : 'On-chain reputation unavailable';
+
+  return {
+    score: platformScore / 100,
+    explanation: `${reason}; platform score ${platformScore}/100`,
+  };
+}
+
+function scoreCompletion(signals: AgentRankingSignals): FactorResult {
+  const total = signals.completed_steps + signals.failed_steps;
+  const rate = (signals.completed_steps + PRIOR_COMPLETION_RATE * PRIOR_WEIGHT) / (total + PRIOR_WEIGHT);
+
+  return {
+    score: rate,
+    explanation: total > 0
+      ? `Completed ${signals.completed_steps} of ${plural(total, 'step')} in the last ${SIGNAL_WINDOW_DAYS} days`
+      : `No mission steps in the last ${SIGNAL_WINDOW_DAYS} days`,
+  };
+}
+
+function scoreSpeed(
+  signals: AgentRankingSignals,
+  fastestLatency: number | null,
+  capability?: CapabilityInfo | null
+): FactorResult {
+  const typical = capability?.turnaround ? ` (typical: ${capability.turnaround})` : '';
+
+  if (signals.median_latency_seconds === null || fastestLatency === null) {
+    return { score: 0.5, explanation: `No delivery history${typical}` };
+  }
+
+  // Relative to the fastest candidate
+  return {
+    score: Math.max(fastestLatency, 1) / Math.max(signals.median_latency_seconds, 1),
+    explanation: `Median delivery ${formatDuration(signals.median_latency_seconds)}${typical}`,
+  };
+}
+
+function scoreDisputes(signals: AgentRankingSignals): FactorResult {
+  const { disputes_won: won, disputes_lost: lost, disputes_open: open } = signals;
+  if (won + lost + open === 0) {
+    return { score: 1, explanation: 'No disputes' };
+  }
+
+  // Lost disputes count fully, open ones half, against the work delivered
+  const delivered = Math.max(1, signals.completed_steps + lost);
+  const parts = [`won ${won}`, `lost ${lost}`];
+  if (open > 0) parts.push(`${open} open`);
+
+  return {
+    score: Math.max(0, 1 - (lost + open / 2) / delivered),
+    explanation: `Disputes: ${parts.join(', ')}`,
+  };
+}
+
+function scorePrice(profile: AgentProfile, context: RankingContext): FactorResult {
+  const price = profile.pricing_per_task;
+  if (price === undefined || price === null) {
+    return { score: 0.5, explanation: 'No price listed' };
+  }
+
+  const range = context.capability?.priceRange;
+  const reference = context.budget ?? range?.max;
+  if (!reference) {
+    return { score: 0.5, explanation: `${usd(price)}/task, no budget to compare against` };
+  }
+
+  const against = context.budget !== undefined
+    ? `your ${usd(context.budget)} budget`
+    : `the typical ${usd(range!.min)}-${usd(range!.max)}`;
+
+  // Anything within the budget fits, cheaper slightly better; over it falls off to 0 at double
+  if (price <= reference) {
+    return { score: 1 - 0.2 * (price / reference), explanation: `${usd(price)}/task, within ${against}` };
+  }
+
+  return {
+    score: Math.max(0, 0.8 * (1 - (price - reference) / reference)),
+    explanation: `${usd(price)}/task, ${Math.round(((price - reference) / reference) * 100)}% over ${against}`,
+  };
+}
+
+/**
+ * AI agents without an endpoint or heartbeat can't take work, nor can unhealthy ones; others
+ * are busy while they run jobs (from heartbeats) or have steps queued
+ */
+function getAvailability(
+  profile: AgentProfile,
+  signals: AgentRankingSignals,
+  capacity: AgentCapacity
+): RankedAgent['availability'] {
+  if (profile.agent_type === 'ai' && !profile.endpoint_url) return 'offline';
+  if (capacity.status === 'offline' || capacity.status === 'unhealthy') return 'offline';
+  if (capacity.status === 'saturated') return 'busy';
+  return signals.queued_steps > 0 || (capacity.activeJobs ?? 0) > 0 ? 'busy' : 'available';
+}
+
+function scoreAvailability(
+  availability: RankedAgent['availability'],
+  signals: AgentRankingSignals,
+  capacity: AgentCapacity
+): FactorResult {
+  if (!capacity.acceptingWork) {
+    return { score: 0, explanation: capacity.reason };
+  }
+  if (availability === 'offline') {
+    return { score: 0, explanation: 'Offline - no mission endpoint' };
+  }
+
+  // Heartbeating agents report their load - the share of free slots, halved while degraded
+  if (capacity.activeJobs !== null && capacity.maxConcurrentJobs !== null) {
+    const free = (capacity.maxConcurrentJobs - capacity.activeJobs) / capacity.maxConcurrentJobs;
+    return {
+      score: capacity.status === 'degraded' ? free / 2 : free,
+      explanation: capacity.reason,
+    };
+  }
+
+  return {
+    score: 1 / (1 + signals.queued_steps),
+    explanation: signals.queued_steps > 0 ? `${plural(signals.queued_steps, 'step')} in queue` : 'No queued work',
+  };
+}
+
+// ============================================================================
+// RANKING
+// ============================================================================
+
+/**
+ * Read on-chain reputation for agents linked to the official registry
+ * Agents whose summary can't be read map to null
+ */
+async function readReputations(profiles: AgentProfile[]): Promise<Map<string, AgentReputationSummary | null>> {
+  const reputations = new Map<string, AgentReputationSummary | null>();
+  const linked = profiles.filter((profile) => getLinkedTokenId(profile));
+  if (linked.length === 0) return reputations;
+
+  let publicClient: PublicClient;
+  try {
+    publicClient = getServerPublicClient();
+  } catch (error) {
+    console.warn('[Agent Ranking] On-chain reputation unavailable:', error instanceof Error ? error.message : error);
+    return reputations;
+  }
+
+  await Promise.all(
+    linked.map(async (profile) => {
+      try {
+        const summary = await Promise.race([
+          getAgentReputationSummary(publicClient, getLinkedTokenId(profile)!),
+          new Promise<never>((_, reject) =>
+            setTimeout(() => reject(new Error('Request timeout')), REPUTATION_READ_TIMEOUT)
+          ),
+        ]);
+        reputations.set(profile.id, summary);
+      } catch (error) {
+        console.warn(`[Agent Ranking] Failed to read reputation of ${profile.id}:`, error instanceof Error ? error.message : error);
+        reputations.set(profile.id, null);
+      }
+    })
+  );
+
+  return reputations;
+}
+
+/**
+ * Score and sort candidate agents, best first
+ */
+export async function rankAgents(profiles: AgentProfile[], context: RankingContext = {}): Promise<RankedAgent[]> {
+  const weights = resolveRankingWeights(context.weights);
+  const since = new Date(Date.now() - SIGNAL_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+  const [signalsByAgent, reputations] = await Promise.all([
+    getAgentRankingSignals(profiles.map((profile) => profile.id), since),
+    readReputations(profiles),
+  ]);
+
+  const getSignals = (agentId: string): AgentRankingSignals => signalsByAgent.get(agentId) || {
+    agent_id: agentId,
+    completed_steps: 0,
+    failed_steps: 0,
+    median_latency_seconds: null,
+    queued_steps: 0,
+    disputes_won: 0,
+    disputes_lost: 0,
+    disputes_open: 0,
+  };
+
+  const latencies = profiles
+    .map((profile) => getSignals(profile.id).median_latency_seconds)
+    .filter((latency): latency is number => latency !== null);
+  const fastestLatency = latencies.length > 0 ? Math.min(...latencies) : null;
+
+  const ranked = profiles.map((profile): RankedAgent => {
+    const signals = getSignals(profile.id);
+    const reputation = reputations.get(profile.id) ?? null;
+    const capacity = getAgentCapacity(profile);
+    const availability = getAvailability(profile, signals, capacity);
+
+    const results: Record<RankingFactor, FactorResult> = {
+      reputation: scoreReputation(profile, reputation),
+      completion: scoreCompletion(signals),
+      speed: scoreSpeed(signals, fastestLatency, context.capability),
+      disputes: scoreDisputes(signals),
+      price: scorePrice(profile, context),
+      availability: scoreAvailability(availability, signals, capacity),
+    };
+
+    const factors = RANKING_FACTORS
+      .map((factor): FactorScore => ({
+        factor,
+        score: Math.round(results[factor].score * 1000) / 1000,
+        weight: Math.round(weights[factor] * 1000) / 1000,
+        contribution: Math.round(results[factor].score * weights[factor] * 1000) / 10,
+        explanation: results[factor].explanation,
+      }))
+      .sort((a, b) => b.contribution - a.contribution);
+
+    return {
+      profile,
+      ranking: {
+        score: Math.round(factors.reduce((sum, factor) => sum + factor.contribution, 0) * 10) / 10,
+        factors,
+      },
+      reputation,
+      signals,
+      capacity,
+      availability,
+    };
+  });
+
+  return ranked.sort((a, b) => b.ranking.score - a.ranking.score);
+}
@@ -1,14 +1,21 @@
 /**
  * Agent Recommendation Engine
  * Queries Supabase agent_profiles table to find agents matching capabilities
+ * and orders them with the ranking engine (see agent-ranking.ts)
+ * Agents that are unhealthy, at capacity or stopped sending heartbeats are left out
  */
 
 import type { Address } from 'viem';
 import type { AgentDiscoveryQuery, AgentProfile } from '@/lib/erc8004/types';
 import { getAgentsByCapability } from '@/lib/supabase/agents';
+import { getLinkedTokenId } from '@/lib/erc8004/unified-discovery';
+import { getCapabilityTaxonomy } from '@/lib/supabase/capabilities';
+import { getCapabilityInfo, type CapabilityInfo } from '@/lib/capabilities/taxonomy';
+import { formatDuration, rankAgents, type AgentRanking, type RankingWeights } from '@/lib/ai/agent-ranking';
 
 export interface RecommendedAgent {
   agentId: string;
+  erc8004AgentId?: string | null; // ERC-8004 token linked on the profile
   name: string;
   address: Address;
   capabilities: string[];
@@ -25,10 +32,20 @@ export interface RecommendedAgent {
   };
   availability: 'available' | 'busy' | 'offline';
   estimatedCompletionTime?: string; // e.g., "2 hours", "1 day"
+  ranking?: AgentRanking; // Score and why
 }
 
+export type RecommendationSort = 'score' | 'reputation' | 'price' | 'speed';
+
+// For capabilities the taxonomy has no turnaround for
+const DEFAULT_COMPLETION_TIME = '1-2 hours';
+
+// Rank more candidates than requested so the limit keeps the best, not the first
+const CANDIDATE_POOL_SIZE = 50;
+
 export interface AgentRecommendation {
   capability: string;
+  capabilityInfo?: CapabilityInfo | null; // Taxonomy entry the capability resolved to
   agents: RecommendedAgent[];
   totalFound: number;
   filterCriteria: {
@@ -45,55 +62,79 @@ export async function recommendAgents(
   options: {
     minScore?: number;
     limit?: number;
-    sortBy?: 'reputation' | 'price' | 'speed';
+    sortBy?: RecommendationSort;
+    budget?: number; // USDC for this capability, for price fit
+    weights?: Partial<RankingWeights>;
   } = {}
 ): Promise<AgentRecommendation> {
   const minScore = options.minScore !== undefined ? options.minScore : 70;
   const limit = options.limit !== undefined ? options.limit : 10;
-  const sortBy = options.sortBy || 'reputation';
+  const sortBy = options.sortBy || 'score';
 
   try {
+    const capabilityInfo = getCapabilityInfo(await getCapabilityTaxonomy(), capability);
+
     // Query Supabase for agents with this capability
     console.log(`[Agent Recommender] Querying capability: "${capability}", minReputation: ${minScore}, limit: ${limit}`);
     const dbAgents = await getAgentsByCapability(capability, {
       minReputation: minScore,
-      limit,
+      limit: Math.max(limit, CANDIDATE_POOL_SIZE),
     });
     console.log(`[Agent Recommender] Found ${dbAgents.length} agents for capability "${capability}"`);
-    if (dbAgents.length > 0) {
-      console.log(`[Agent Recommender] Sample agent:`, JSON.stringify(dbAgents[0], null, 2));
-    }
 
-    // Transform database agents to RecommendedAgent format
-    const agents: RecommendedAgent[] = dbAgents.map((agent) => {
-      const stars = calculateStars(agent.reputation_score || 50);
-      // Calculate success rate from stars rating (stars/5 * 100)
-      const successRate = Math.round((stars / 5) * 100);
+    const ranked = await rankAgents(dbAgents, {
+      capability: capabilityInfo,
+      budget: options.budget,
+      weights: options.weights,
+    });
+
+    // Only agents that take new work right now
+    const accepting = ranked.filter(({ profile, capacity }) => {
+      if (!capacity.acceptingWork) {
+        console.log(`[Agent Recommender] Skipping ${profile.id}: ${capacity.reason}`);
+      }
+      return capacity.acceptingWork;
+    });
+
+    // Transform ranked agents to RecommendedAgent format
+    const agents: RecommendedAgent[] = accepting.map(({ profile, ranking, reputation, signals, availability }) => {
+      // On-chain reputation when the agent has reviews, the platform score otherwise
+      const score = reputation && reputation.count > 0 ? reputation.averageScore : profile.reputation_score || 50;
+      const stars = calculateStars(score);
+      const steps = signals.completed_steps + signals.failed_steps;
 
       return {
-        agentId: agent.id,
-        name: agent.name,
-        address: agent.address as Address,
-        capabilities: agent.capabilities,
+        agentId: profile.id,
+        erc8004AgentId: getLinkedTokenId(profile),
+        name: profile.name,
+        address: profile.address as Address,
+        capabilities: profile.capabilities,
         reputation: {
-          score: agent.reputation_score || 50,
+          score,
           stars,
-          reviewCount: agent.total_missions || 0,
-          successRate,
+          reviewCount: reputation?.count ?? profile.total_missions ?? 0,
+          // Completed steps when there are any, otherwise estimated from stars
+          successRate: steps > 0
+            ? Math.round((signals.completed_steps / steps) * 100)
+            : Math.round((stars / 5) * 100),
         },
         pricing: {
-          perTask: agent.pricing_per_task,
+          perTask: profile.pricing_per_task,
         },
-        availability: 'available', // TODO: Add real-time availability tracking
-        estimatedCompletionTime: estimateCompletionTime(capability),
+        availability,
+        estimatedCompletionTime: signals.median_latency_seconds !== null
+          ? formatDuration(signals.median_latency_seconds)
+          : capabilityInfo?.turnaround || DEFAULT_COMPLETION_TIME,
+        ranking,
       };
     });
 
     // Sort agents
-    const sorted = sortAgents(agents, sortBy);
+    const sorted = sortAgents(agents, sortBy).slice(0, limit);
 
     return {
       capability,
+      capabilityInfo,
       agents: sorted,
       totalFound: sorted.length,
       filterCriteria: {
@@ -120,13 +161,17 @@ export async function recommendMultipleAgents(
   options?: {
     minScore?: number;
     limit?: number;
+    sortBy?: RecommendationSort;
+    budgets?: Record<string, number>; // USDC per capability
+    weights?: Partial<RankingWeights>;
   }
 ): Promise<Map<string, AgentRecommendation>> {
   const recommendations = new Map<string, AgentRecommendation>();
+  const { budgets, ...shared } = options || {};
 
   await Promise.all(
     capabilities.map(async (capability) => {
-      const recommendation = await recommendAgents(capability, options);
+      const recommendation = await recommendAgents(capability, { ...shared, budget: budgets?.[capability] });
       recommendations.set(capability, recommendation);
     })
   );
@@ -141,33 +186,23 @@ function calculateStars(score: number): number {
   return Math.round((score / 100) * 5 * 10) / 10; // Round to 1 decimal
 }
 
-/**
- * Helper: Estimate completion time based on capability
- */
-function estimateCompletionTime(capability: string): string {
-  const estimates: Record<string, string> = {
-    'logo-design': '1-2 hours',
-    'copywriting': '30 minutes - 1 hour',
-    'web-development': '1-3 days',
-    'video-editing': '4-8 hours',
-    'graphic-design': '2-4 hours',
-    'voice-over': '2-3 hours',
-    'branding': '2-5 hours',
-    'smart-contracts': '1-2 days',
-  };
-
-  return estimates[capability] || '1-2 hours';
-}
-
 /**
  * Helper: Sort agents by criteria
+ * Agents arrive ranked, so ties keep their ranking order
  */
 function sortAgents(
   agents: RecommendedAgent[],
-  sortBy: 'reputation' | 'price' | 'speed'
+  sortBy: RecommendationSort
 ): RecommendedAgent[] {
+  const speedScore = (agent: RecommendedAgent) =>
+    agent.ranking?.factors.find((entry) => entry.factor === 'speed')?.score ?? 0;
+
   return [...agents].sort((a, b) => {
-    if (sortBy === 'reputation') {
+    if (sortBy === 'score') {
+      return (b.ranking?.score ?? 0) - (a.ranking?.score ?? 0);
+    } else if (sortBy === 'speed') {
+      return speedScore(b) - speedScore(a);
+    } else if (sortBy === 'reputation') {
       return b.reputation.score - a.reputation.score;
     } else if (sortBy === 'price') {
       const aPrice = a.pricing?.perTask || 999999;
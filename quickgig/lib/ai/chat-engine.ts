@@ -0,0 +1,339 @@
+/**
+ * Chat Engine
+ * Multi-turn conversation behind /api/chat. History (including tool calls and their results)
+ * is kept in chat_messages, so every turn sees what was said and done before.
+ *
+ * A turn calls the model until it answers in text or asks for an action. Query tools run here
+ * and their results go straight back to the model; action tools are returned as pending actions
+ * for the user to confirm and sign, and the UI reports their outcome in the next turn.
+ */
+
+import { OpenAI } from 'openai';
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { getRecentMessages, saveMessage, type ChatMessage } from '@/lib/supabase/chat';
+import { listMarketplace } from '@/lib/supabase/marketplace';
+import {
+  getChatToolDefinitions,
+  isActionTool,
+  parseToolCall,
+  type ChatToolArgs,
+  type ChatToolCall,
+  type ChatToolResult,
+  type PendingAction,
+} from './chat-tools';
+import type { ToolCallEvent } from './chat-stream';
+
+const openai = new OpenAI({
+  baseURL: 'https://openrouter.ai/api/v1',
+  apiKey: process.env.OPENROUTER_API_KEY || '',
+  defaultHeaders: {
+    'HTTP-Referer': process.env.NEXT_PUBLIC_SITE_URL || '',
+    'X-Title': process.env.NEXT_PUBLIC_SITE_NAME || '',
+  },
+});
+
+const CHAT_MODEL = 'openai/gpt-4o-mini';
+
+// Model calls per turn, so a model that keeps calling tools can't loop forever
+const MAX_TOOL_ROUNDS = 5;
+
+// Messages (including tool results) sent to the model as history
+const HISTORY_LIMIT = 40;
+
+// Tool results reported by the UI are cut to this size before they reach the model
+const MAX_TOOL_RESULT_LENGTH = 2000;
+
+const SYSTEM_PROMPT = `You are QUICKGIG AI, an assistant for an autonomous agent marketplace on Base blockchain.
+
+Help users deploy missions for tasks like logo design, copywriting, web development, social media, and any creative/technical work.
+
+Be SHORT and direct - 1-2 sentences max.
+
+Use tools when users want to take actions. For amounts like "$50" or "fifty dollars" - extract the number. If something you need is missing, ask for it instead of guessing.
+
+createBounty, createGig and submitBid are confirmed and signed by the user - their result tells you whether it went through (with the created ID and transaction hash) or was cancelled. Use listBounties to look up bounty IDs before bidding.
+
+NO long explanations. NO headings. NO bullet lists. Just quick, helpful responses.`;
+
+export interface ChatTurnInput {
+  sessionId: string;
+  message?: string;
+  toolResults?: ChatToolResult[]; // Outcome of pending actions from the previous turn
+}
+
+export interface ChatTurn {
+  message: string | null; // null when other actions of the previous turn are still pending
+  pendingActions: PendingAction[];
+}
+
+/**
+ * Hooks for streaming a turn as it is generated (see lib/ai/chat-stream.ts)
+ */
+export interface ChatTurnOptions {
+  onDelta?: (content: string) => void;
+  onToolCall?: (event: ToolCallEvent) => void;
+  signal?: AbortSignal; // Stops the model; the text streamed so far is kept in the history
+}
+
+interface AssistantMetadata {
+  toolCalls?: ChatToolCall[];
+  pendingActions?: PendingAction[];
+}
+
+interface ToolMetadata {
+  toolCallId: string;
+  name: string;
+}
+
+/**
+ * Run one turn of the conversation
+ */
+export async function runChatTurn(
+  input: ChatTurnInput,
+  context: { userAddress: string },
+  options: ChatTurnOptions = {}
+): Promise<ChatTurn> {
+  const { sessionId } = input;
+  const history = await getRecentMessages(sessionId, HISTORY_LIMIT);
+  const unresolved = getUnresolvedActions(history);
+
+  // Record what happened to the actions the user confirmed or cancelled
+  for (const toolResult of input.toolResults ?? []) {
+    const call = unresolved.get(toolResult.toolCallId);
+    if (!call) continue; // Unknown, already answered, or not an action
+
+    history.push(await saveToolResult(sessionId, call, formatToolResult(toolResult)));
+    unresolved.delete(toolResult.toolCallId);
+  }
+
+  if (!input.message && unresolved.size > 0) {
+    return { message: null, pendingActions: [] };
+  }
+
+  // Actions left unanswered when the user moved on were never sent
+  for (const call of unresolved.values()) {
+    history.push(await saveToolResult(sessionId, call, { error: 'Not confirmed by the user' }));
+  }
+
+  if (input.message) {
+    history.push(await saveMessage({ session_id: sessionId, role: 'user', content: input.message }));
+  }
+
+  const messages: ChatCompletionMessageParam[] = [
+    { role: 'system', content: `${SYSTEM_PROMPT}\n\nThe user's wallet address is ${context.userAddress}.` },
+    ...toModelMessages(history),
+  ];
+
+  for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+    const reply = await streamCompletion(sessionId, messages, options);
+    const toolCalls: ChatToolCall[] = (reply.tool_calls ?? []).flatMap((call) =>
+      call.type === 'function' ? [{ id: call.id, name: call.function.name, arguments: call.function.arguments }] : []
+    );
+
+    if (toolCalls.length === 0) {
+      const content = reply.content || 'I can help you with bounties and gigs. What would you like to do?';
+      await saveMessage({ session_id: sessionId, role: 'assistant', content });
+      return { message: content, pendingActions: [] };
+    }
+
+    const pendingActions: PendingAction[] = [];
+    const results: { call: ChatToolCall; result: Record<string, unknown> }[] = [];
+
+    for (const call of toolCalls) {
+      const parsed = parseToolCall(call);
+      if (!parsed.ok) {
+        console.warn('[Chat Engine] Rejected tool call:', parsed.error);
+        options.onToolCall?.({ id: call.id, name: call.name, status: 'rejected', error: parsed.error });
+        results.push({ call, result: { error: parsed.error } });
+      } else if (isActionTool(parsed.name)) {
+        options.onToolCall?.({ id: call.id, name: call.name, status: 'pending' });
+        pendingActions.push({ toolCallId: call.id, name: parsed.name, arguments: parsed.arguments } as PendingAction);
+      } else {
+        options.onToolCall?.({ id: call.id, name: call.name, status: 'running' });
+        results.push({ call, result: await runQueryTool(parsed.arguments as ChatToolArgs<'listBounties'>) });
+        options.onToolCall?.({ id: call.id, name: call.name, status: 'done' });
+      }
+    }
+
+    const content = reply.content || (pendingActions.length > 0 ? describePendingActions(pendingActions) : '');
+    const metadata: AssistantMetadata = { toolCalls, pendingActions: pendingActions.length > 0 ? pendingActions : undefined };
+    await saveMessage({ session_id: sessionId, role: 'assistant', content, metadata });
+    messages.push(toAssistantParam(content, toolCalls));
+
+    for (const { call, result } of results) {
+      await saveToolResult(sessionId, call, result);
+      messages.push({ role: 'tool', tool_call_id: call.id, content: JSON.stringify(result) });
+    }
+
+    if (pendingActions.length > 0) {
+      return { message: content, pendingActions };
+    }
+  }
+
+  const content = "Sorry, I couldn't finish that. Could you rephrase what you'd like to do?";
+  await saveMessage({ session_id: sessionId, role: 'assistant', content });
+  return { message: content, pendingActions: [] };
+}
+
+/**
+ * Call the model, passing its text on as it streams in
+ * If the turn is cancelled, the text streamed so far is saved so the history matches what the
+ * user saw.
+ */
+async function streamCompletion(
+  sessionId: string,
+  messages: ChatCompletionMessageParam[],
+  options: ChatTurnOptions
+) {
+  let streamed = '';
+  const stream = openai.chat.completions.stream(
+    {
+      model: CHAT_MODEL,
+      messages,
+      tools: getChatToolDefinitions(),
+      tool_choice: 'auto',
+    },
+    { signal: options.signal }
+  );
+
+  stream.on('content.delta', ({ delta }) => {
+    streamed += delta;
+    options.onDelta?.(delta);
+  });
+
+  try {
+    const completion = await stream.finalChatCompletion();
+    return completion.choices[0].message;
+  } catch (error) {
+    if (options.signal?.aborted && streamed) {
+      await saveMessage({ session_id: sessionId, role: 'assistant', content: streamed, metadata: { cancelled: true } });
+    }
+    throw error;
+  }
+}
+
+// ============================================================================
+// TOOLS
+// ============================================================================
+
+/**
+ * Run a tool that only reads data (listBounties)
+ */
+async function runQueryTool(args: ChatToolArgs<'listBounties'>): Promise<Record<string, unknown>> {
+  try {
+    const { listings, total } = await listMarketplace({ status: args.status, source: 'contract' }, 1, args.limit ?? 10);
+
+    return {
+      total,
+      bounties: listings.map((listing) => ({
+        bountyId: Number(listing.entity_id),
+        description: listing.description,
+        amount: listing.amount,
+        status: listing.status,
+        deadline: listing.deadline,
+        bids: listing.bid_count ?? 0,
+      })),
+    };
+  } catch (error) {
+    console.error('[Chat Engine] listBounties failed:', error);
+    return { error: 'Could not load bounties right now' };
+  }
+}
+
+function formatToolResult(toolResult: ChatToolResult): Record<string, unknown> {
+  if (toolResult.error) {
+    return { error: String(toolResult.error).slice(0, MAX_TOOL_RESULT_LENGTH) };
+  }
+
+  const result = toolResult.result && typeof toolResult.result === 'object' ? toolResult.result : {};
+  if (JSON.stringify(result).length > MAX_TOOL_RESULT_LENGTH) {
+    return { error: 'Result too large' };
+  }
+
+  return { success: true, ...result };
+}
+
+function describePendingActions(actions: PendingAction[]): string {
+  const names = actions.map((action) => action.name.replace(/([A-Z])/g, ' $1').toLowerCase());
+  return `I'll help you ${names.join(' and ')}. Please review the details below and confirm.`;
+}
+
+async function saveToolResult(
+  sessionId: string,
+  call: Pick<ChatToolCall, 'id' | 'name'>,
+  result: Record<string, unknown>
+): Promise<ChatMessage> {
+  const metadata: ToolMetadata = { toolCallId: call.id, name: call.name };
+  return saveMessage({ session_id: sessionId, role: 'tool', content: JSON.stringify(result), metadata });
+}
+
+// ============================================================================
+// HISTORY
+// ============================================================================
+
+/**
+ * Action calls in the history that no tool result answers yet, by tool call ID
+ */
+function getUnresolvedActions(history: ChatMessage[]): Map<string, ChatToolCall> {
+  const unresolved = new Map<string, ChatToolCall>();
+
+  for (const message of history) {
+    if (message.role === 'assistant') {
+      for (const call of (message.metadata as AssistantMetadata | null)?.toolCalls ?? []) {
+        if (isActionTool(call.name)) unresolved.set(call.id, call);
+      }
+    } else if (message.role === 'tool') {
+      unresolved.delete((message.metadata as ToolMetadata).toolCallId);
+    }
+  }
+
+  return unresolved;
+}
+
+function toAssistantParam(content: string, toolCalls: ChatToolCall[]): ChatCompletionMessageParam {
+  if (toolCalls.length === 0) {
+    return { role: 'assistant', content };
+  }
+
+  return {
+    role: 'assistant',
+    content: content || null,
+    tool_calls: toolCalls.map((call) => ({
+      id: call.id,
+      type: 'function' as const,
+      function: { name: call.name, arguments: call.arguments },
+    })),
+  };
+}
+
+/**
+ * Convert stored messages to the model's format
+ * The model rejects tool calls without a result and results without their call, so the
+ * history starts at a user message and unanswered calls are left out.
+ */
+function toModelMessages(history: ChatMessage[]): ChatCompletionMessageParam[] {
+  const firstUserMessage = history.findIndex((message) => message.role === 'user');
+  if (firstUserMessage === -1) return [];
+
+  const messages = history.slice(firstUserMessage);
+  const answered = new Set(
+    messages.filter((message) => message.role === 'tool').map((message) => (message.metadata as ToolMetadata).toolCallId)
+  );
+
+  return messages.flatMap((message): ChatCompletionMessageParam[] => {
+    switch (message.role) {
+      case 'user':
+        return [{ role: 'user', content: message.content }];
+      case 'assistant': {
+        const toolCalls = ((message.metadata as AssistantMetadata | null)?.toolCalls ?? []).filter((call) =>
+          answered.has(call.id)
+        );
+        return [toAssistantParam(message.content, toolCalls)];
+      }
+      case 'tool':
+        return [{ role: 'tool', tool_call_id: (message.metadata as ToolMetadata).toolCallId, content: message.content }];
+      default:
+        return []; // System notices in the chat are for the user, not the model
+    }
+  });
+}
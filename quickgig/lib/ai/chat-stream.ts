@@ -0,0 +1,134 @@
+/**
+ * Chat Streaming
+ * Server-Sent Events for /api/chat and /api/agent/chat. Clients opt in with
+ * `Accept: text/event-stream`; everything else gets the usual JSON reply.
+ *
+ * The X402 handshake and session checks run before the stream opens, so a 402 or a
+ * rejected session is still a plain JSON response with its status code.
+ */
+
+export type ChatStreamEventName =
+  | 'session' // Payment/session status: { sessionId, messagesRemaining?, paid?, billing?, balance?, ... }
+  | 'delta' // Next piece of the reply: { content }
+  | 'tool_call' // A tool call and where it stands: { id, name, status, error? }
+  | 'message' // The complete reply, replaces the streamed text: { message, metadata? }
+  | 'error' // { error }
+  | 'done'; // Last event of every stream
+
+export type ToolCallStatus = 'running' | 'done' | 'pending' | 'rejected'; // pending - waits for the user to confirm
+
+export interface ToolCallEvent {
+  id: string;
+  name: string;
+  status: ToolCallStatus;
+  error?: string;
+}
+
+export type SendChatEvent = (event: ChatStreamEventName, data: Record<string, unknown>) => void;
+
+const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+  'X-Accel-Buffering': 'no', // Stop proxies from buffering the stream
+};
+
+// ============================================================================
+// SERVER
+// ============================================================================
+
+/**
+ * Whether the client asked for a streamed reply
+ */
+export function wantsEventStream(request: Request): boolean {
+  return request.headers.get('accept')?.includes('text/event-stream') ?? false;
+}
+
+/**
+ * Open an event stream and run the reply in it
+ * The signal aborts when the client disconnects or cancels, `run` should stop generating then.
+ * Errors thrown by `run` are sent as an error event, and every stream ends with a done event.
+ */
+export function createChatEventStream(
+  request: Request,
+  run: (send: SendChatEvent, signal: AbortSignal) => Promise<void>
+): Response {
+  const encoder = new TextEncoder();
+  const abort = new AbortController();
+  request.signal?.addEventListener('abort', () => abort.abort());
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const send: SendChatEvent = (event, data) => {
+        if (closed || abort.signal.aborted) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        await run(send, abort.signal);
+      } catch (error) {
+        if (!abort.signal.aborted) {
+          console.error('[Chat Stream] Error:', error);
+          send('error', { error: error instanceof Error ? error.message : 'Internal server error' });
+        }
+      } finally {
+        send('done', {});
+        closed = true;
+        if (!abort.signal.aborted) controller.close();
+      }
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(stream, { headers: SSE_HEADERS });
+}
+
+// ============================================================================
+// CLIENT
+// ============================================================================
+
+/**
+ * Whether a response is an event stream (rather than JSON, e.g. a 402 or an error)
+ */
+export function isEventStream(response: Response): boolean {
+  return response.headers.get('content-type')?.includes('text/event-stream') ?? false;
+}
+
+/**
+ * Read an event stream until it ends, calling onEvent for each event
+ * Rejects with an AbortError when the request's signal aborts.
+ */
+export async function readChatEventStream(
+  response: Response,
+  onEvent: (event: ChatStreamEventName, data: Record<string, unknown>) => void
+): Promise<void> {
+  if (!response.body) throw new Error('Response has no body');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const blocks = buffer.split('\n\n');
+    buffer = blocks.pop() ?? '';
+
+    for (const block of blocks) {
+      let event = 'message';
+      const data: string[] = [];
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data.push(line.slice(5).trim());
+      }
+      if (data.length === 0) continue;
+
+      onEvent(event as ChatStreamEventName, JSON.parse(data.join('\n')));
+    }
+  }
+}
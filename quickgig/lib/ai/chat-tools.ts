@@ -0,0 +1,161 @@
+/**
+ * Chat Tools
+ * Tools the QuickGig assistant can call from /api/chat, each with the zod schema its arguments
+ * are validated against before it runs or is shown to the user
+ *
+ * Query tools run on the server and their results go straight back to the model. Action tools
+ * spend the user's funds, so the UI asks for confirmation, sends the transaction from the user's
+ * wallet and reports the outcome (created ID, tx hash) back to /api/chat.
+ */
+
+import { z } from 'zod/v4';
+import type { ChatCompletionFunctionTool } from 'openai/resources/chat/completions';
+
+// ============================================================================
+// SCHEMAS
+// ============================================================================
+
+const usdcAmount = z.number().positive().max(1_000_000);
+
+export const CHAT_TOOL_SCHEMAS = {
+  createBounty: z.object({
+    requirements: z.string().trim().min(10).max(2000).describe('Detailed description of the work required'),
+    amount: usdcAmount.describe('Payment amount in USDC (e.g., 50 for $50)'),
+    deadline: z.number().int().min(1).max(90).describe('Number of days until deadline'),
+  }),
+  createGig: z.object({
+    workerAddress: z
+      .string()
+      .regex(/^0x[0-9a-fA-F]{40}$/, 'must be a 0x-prefixed address')
+      .describe('Ethereum address of the worker (0x...)'),
+    milestones: z
+      .array(
+        z.object({
+          description: z.string().trim().min(1).max(500).describe('Milestone description'),
+          amount: usdcAmount.describe('Payment amount in USDC for this milestone'),
+        })
+      )
+      .min(1)
+      .max(10)
+      .describe('Milestones with descriptions and amounts'),
+  }),
+  listBounties: z.object({
+    status: z.enum(['open', 'assigned', 'completed']).optional().describe('Filter by bounty status'),
+    limit: z.number().int().min(1).max(20).optional().describe('How many bounties to return, newest first (default 10)'),
+  }),
+  submitBid: z.object({
+    bountyId: z.number().int().nonnegative().describe('ID of the bounty to bid on'),
+    amount: usdcAmount.describe('Bid amount in USDC'),
+    proposal: z.string().trim().min(1).max(1000).describe('Brief proposal explaining your approach'),
+  }),
+};
+
+const CHAT_TOOL_DESCRIPTIONS: Record<ChatToolName, string> = {
+  createBounty: 'Create a new bounty for a task that multiple workers can bid on',
+  createGig: 'Create a direct 1-on-1 gig with a specific worker',
+  listBounties: 'List bounties, optionally filtered by status',
+  submitBid: 'Submit a bid on an existing bounty',
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ChatToolName = keyof typeof CHAT_TOOL_SCHEMAS;
+
+export type ActionToolName = 'createBounty' | 'createGig' | 'submitBid';
+
+export type ChatToolArgs<Name extends ChatToolName> = z.infer<(typeof CHAT_TOOL_SCHEMAS)[Name]>;
+
+const ACTION_TOOLS: ActionToolName[] = ['createBounty', 'createGig', 'submitBid'];
+
+/**
+ * A tool call as the model made it (arguments are its raw JSON)
+ */
+export interface ChatToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+/**
+ * A validated action waiting for the user to confirm it
+ */
+export type PendingAction = {
+  [Name in ActionToolName]: { toolCallId: string; name: Name; arguments: ChatToolArgs<Name> };
+}[ActionToolName];
+
+/**
+ * Outcome of a confirmed or cancelled action, reported back by the UI
+ */
+export interface ChatToolResult {
+  toolCallId: string;
+  result?: Record<string, unknown>; // e.g. { txHash, bountyId }
+  error?: string; // e.g. 'Cancelled by the user'
+}
+
+export type ParsedToolCall =
+  | { ok: true; name: ChatToolName; arguments: ChatToolArgs<ChatToolName> }
+  | { ok: false; error: string };
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+export function isChatTool(name: string): name is ChatToolName {
+  return Object.prototype.hasOwnProperty.call(CHAT_TOOL_SCHEMAS, name);
+}
+
+export function isActionTool(name: string): name is ActionToolName {
+  return (ACTION_TOOLS as string[]).includes(name);
+}
+
+/**
+ * Validate arguments against a tool's schema, returns the parsed arguments or why they don't fit
+ */
+export function validateToolArguments(name: string, args: unknown): ParsedToolCall {
+  if (!isChatTool(name)) {
+    return { ok: false, error: `Unknown tool: ${name}` };
+  }
+
+  const parsed = CHAT_TOOL_SCHEMAS[name].safeParse(args);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join('.') || 'arguments'}: ${issue.message}`);
+    return { ok: false, error: `Invalid ${name} arguments - ${issues.join('; ')}` };
+  }
+
+  return { ok: true, name, arguments: parsed.data };
+}
+
+/**
+ * Parse and validate a tool call made by the model
+ */
+export function parseToolCall(call: ChatToolCall): ParsedToolCall {
+  let args: unknown;
+  try {
+    args = call.arguments ? JSON.parse(call.arguments) : {};
+  } catch {
+    return { ok: false, error: `Arguments of ${call.name} are not valid JSON` };
+  }
+
+  return validateToolArguments(call.name, args);
+}
+
+/**
+ * Tool definitions for the chat completions API, generated from the schemas
+ */
+export function getChatToolDefinitions(): ChatCompletionFunctionTool[] {
+  return (Object.keys(CHAT_TOOL_SCHEMAS) as ChatToolName[]).map((name) => {
+    const parameters: Record<string, unknown> = z.toJSONSchema(CHAT_TOOL_SCHEMAS[name]);
+    delete parameters.$schema;
+
+    return {
+      type: 'function',
+      function: {
+        name,
+        description: CHAT_TOOL_DESCRIPTIONS[name],
+        parameters,
+      },
+    };
+  });
+}
@@ -3,7 +3,14 @@
  * Analyzes user requests to determine required agent capabilities
  */
 
-import { COMMON_CAPABILITIES } from '@/lib/erc8004/types';
+import { getCapabilityTaxonomy } from '@/lib/supabase/capabilities';
+import {
+  getCapabilityInfo,
+  getChildCapabilities,
+  getRootCapabilities,
+  resolveCapability,
+  type CapabilityTaxonomy,
+} from '@/lib/capabilities/taxonomy';
 
 export interface DetectedIntent {
   capabilities: string[];
@@ -31,6 +38,32 @@ export interface IntentAnalysis {
   }>;
 }
 
+/**
+ * List active capabilities for the prompt, children under their parent
+ */
+function describeTaxonomy(taxonomy: CapabilityTaxonomy): string {
+  return getRootCapabilities(taxonomy)
+    .filter((root) => root.active)
+    .map((root) => {
+      const children = getChildCapabilities(taxonomy, root.slug).filter((child) => child.active);
+      return children.length > 0
+        ? `- ${root.slug}: ${children.map((child) => child.slug).join(', ')}`
+        : `- ${root.slug}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Map a capability term to its taxonomy slug, null if the taxonomy doesn't know it
+ */
+function toCapabilitySlug(taxonomy: CapabilityTaxonomy, term: string): string | null {
+  const capability = resolveCapability(taxonomy, term);
+  if (!capability) {
+    console.warn(`[Intent Detector] Unknown capability "${term}"`);
+  }
+  return capability?.slug || null;
+}
+
 /**
  * Analyze user message to detect required capabilities
  */
@@ -40,12 +73,14 @@ export async function detectIntent(userMessage: string): Promise<IntentAnalysis>
     throw new Error('OPENROUTER_API_KEY not configured');
   }
 
+  const taxonomy = await getCapabilityTaxonomy();
+
   const systemPrompt = `You are an expert at analyzing requests for the QUICKGIG autonomous agent platform.
 
 Your task: Analyze user requests and identify what autonomous agents/capabilities are needed.
 
-Available Capabilities:
-${COMMON_CAPABILITIES.join(', ')}
+Available Capabilities (category: specific capabilities - use the most specific one that fits):
+${describeTaxonomy(taxonomy)}
 
 Response Format (JSON):
 {
@@ -101,47 +136,54 @@ Be specific, realistic with pricing, and identify if multiple agents need coordi
     const analysisText = data.choices[0].message.content;
     const analysis: IntentAnalysis = JSON.parse(analysisText);
 
-    // Validate and normalize
+    // Resolve synonyms and names to taxonomy slugs, drop what can't be matched
     return {
       ...analysis,
       intents: analysis.intents.map((intent) => ({
         ...intent,
-        capabilities: intent.capabilities.filter((cap) =>
-          COMMON_CAPABILITIES.includes(cap as typeof COMMON_CAPABILITIES[number])
-        ),
+        capabilities: [...new Set(
+          intent.capabilities
+            .map((cap) => toCapabilitySlug(taxonomy, cap))
+            .filter((slug): slug is string => !!slug)
+        )],
+      })),
+      breakdown: analysis.breakdown.map((item) => ({
+        ...item,
+        capability: resolveCapability(taxonomy, item.capability)?.slug || item.capability,
       })),
     };
   } catch (error) {
     console.error('[Intent Detector] Error:', error);
 
     // Fallback: Simple keyword-based detection
-    return detectIntentFallback(userMessage);
+    return detectIntentFallback(userMessage, taxonomy);
   }
 }
 
 /**
- * Fallback intent detection using keywords
+ * Pad words with spaces so includes() only matches whole words
  */
-function detectIntentFallback(userMessage: string): IntentAnalysis {
-  const message = userMessage.toLowerCase();
-  const detectedCapabilities: string[] = [];
-
-  // Simple keyword matching
-  const keywords: Record<string, string[]> = {
-    'logo-design': ['logo', 'brand mark', 'icon design'],
-    'copywriting': ['copy', 'tagline', 'slogan', 'content', 'write'],
-    'web-development': ['website', 'web app', 'landing page', 'site'],
-    'graphic-design': ['graphic', 'visual', 'design', 'banner', 'poster'],
-    'video-editing': ['video', 'edit', 'footage'],
-    'social-media': ['social', 'twitter', 'instagram', 'facebook'],
-    'translation': ['translate', 'translation', 'language'],
-  };
+function toWords(text: string): string {
+  return ` ${text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()} `;
+}
 
-  for (const [capability, terms] of Object.entries(keywords)) {
-    if (terms.some((term) => message.includes(term))) {
-      detectedCapabilities.push(capability);
-    }
-  }
+/**
+ * Fallback intent detection using capability names and synonyms as keywords
+ */
+function detectIntentFallback(userMessage: string, taxonomy: CapabilityTaxonomy): IntentAnalysis {
+  const message = toWords(userMessage);
+  const matched = taxonomy.capabilities
+    .filter((capability) => capability.active)
+    .filter((capability) =>
+      [capability.slug, capability.name, ...capability.synonyms].some((term) => message.includes(toWords(term)))
+    )
+    .map((capability) => getCapabilityInfo(taxonomy, capability.slug)!);
+
+  // Keep the most specific match - "design a logo" is logo-design, not design too
+  const ancestors = new Set(matched.flatMap((info) => info.path.slice(0, -1)));
+  const detectedCapabilities = matched
+    .map((info) => info.slug)
+    .filter((slug) => !ancestors.has(slug));
 
   // Default to copywriting if nothing detected
   if (detectedCapabilities.length === 0) {
@@ -149,27 +191,32 @@ function detectIntentFallback(userMessage: string): IntentAnalysis {
   }
 
   const estimatedAgents = detectedCapabilities.length;
-  const basePrice = 10; // $10 per agent
+  const basePrice = 10; // $10 per agent without a typical price
   const complexity = estimatedAgents === 1 ? 'simple' : estimatedAgents <= 2 ? 'moderate' : 'complex';
 
+  const budget = detectedCapabilities.reduce(
+    (total, capability) => {
+      const priceRange = getCapabilityInfo(taxonomy, capability)?.priceRange;
+      return {
+        min: total.min + (priceRange?.min ?? basePrice),
+        max: total.max + (priceRange?.max ?? basePrice * 3),
+      };
+    },
+    { min: 0, max: 0 }
+  );
+
   return {
     intents: [
       {
         capabilities: detectedCapabilities,
         complexity,
         estimatedAgents,
-        suggestedBudget: {
-          min: estimatedAgents * basePrice,
-          max: estimatedAgents * basePrice * 3,
-        },
+        suggestedBudget: budget,
         description: `Requires ${detectedCapabilities.join(', ')} capabilities`,
         requiresOrchestration: estimatedAgents > 1,
       },
     ],
-    totalEstimatedCost: {
-      min: estimatedAgents * basePrice,
-      max: estimatedAgents * basePrice * 3,
-    },
+    totalEstimatedCost: budget,
     recommendedApproach: estimatedAgents > 1 ? 'Sequential execution recommended' : 'Single agent execution',
     breakdown: detectedCapabilities.map((cap) => ({
       capability: cap,
@@ -0,0 +1,20 @@
+/**
+ * Bearer Tokens
+ * Operator endpoints (capability taxonomy edits, payment approvals) authenticate with a
+ * shared secret from env sent as `Authorization: Bearer <token>`
+ */
+
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * Check an Authorization header against the token in an env variable
+ * Always false while the variable isn't set, so the endpoint stays disabled
+ */
+export function isBearerToken(authorization: string | null, envVar: string): boolean {
+  const token = process.env[envVar];
+  if (!token || !authorization?.startsWith('Bearer ')) return false;
+
+  const given = Buffer.from(authorization.slice('Bearer '.length));
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
@@ -0,0 +1,56 @@
+/**
+ * Wallet Session (browser)
+ * Signs the user in with Ethereum before calling client-scoped API routes
+ */
+
+import type { Address, Hex } from 'viem';
+import { createSiweMessage } from 'viem/siwe';
+
+interface EnsureSessionParams {
+  address: Address;
+  chainId: number;
+  signMessage: (args: { message: string }) => Promise<Hex>; // wagmi signMessageAsync
+}
+
+/**
+ * Make sure the session cookie belongs to the connected wallet, asking the wallet
+ * to sign a SIWE message if there is no session (or it is for another address)
+ */
+export async function ensureWalletSession({ address, chainId, signMessage }: EnsureSessionParams): Promise<void> {
+  const current = await fetch('/api/auth/session');
+  if (current.ok) {
+    const session = await current.json();
+    if (session.address?.toLowerCase() === address.toLowerCase()) return;
+  }
+
+  const nonceResponse = await fetch('/api/auth/nonce');
+  if (!nonceResponse.ok) {
+    throw new Error('Failed to start sign-in');
+  }
+  const { nonce } = await nonceResponse.json();
+
+  const message = createSiweMessage({
+    domain: window.location.host,
+    address,
+    statement: 'Sign in to QuickGig',
+    uri: window.location.origin,
+    version: '1',
+    chainId,
+    nonce,
+    issuedAt: new Date(),
+    expirationTime: new Date(Date.now() + 10 * 60 * 1000),
+  });
+
+  const signature = await signMessage({ message });
+
+  const verifyResponse = await fetch('/api/auth/verify', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ message, signature }),
+  });
+
+  if (!verifyResponse.ok) {
+    const error = await verifyResponse.json().catch(() => ({}));
+    throw new Error(error.error || 'Sign-in failed');
+  }
+}
@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { verifyMessage } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { baseSepolia } from 'viem/chains';
+import { createSiweMessage, parseSiweMessage, validateSiweMessage } from 'viem/siwe';
+import { createSessionToken, verifySessionToken } from './session';
+import { issueSiweNonce, verifySiweLogin } from './siwe';
+
+const db = vi.hoisted(() => ({ nonces: new Map<string, { expiresAt: Date; used: boolean }>() }));
+
+// siwe_nonces and consume_siwe_nonce, in memory
+vi.mock('@/lib/supabase/auth', () => ({
+  createSiweNonce: async (nonce: string, expiresAt: Date) => {
+    db.nonces.set(nonce, { expiresAt, used: false });
+  },
+  consumeSiweNonce: async (nonce: string) => {
+    const entry = db.nonces.get(nonce);
+    if (!entry || entry.used || entry.expiresAt.getTime() <= Date.now()) return false;
+    entry.used = true;
+    return true;
+  },
+}));
+
+// EOA signatures are checked locally instead of through an RPC node
+vi.mock('@/lib/x402/chains', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/x402/chains')>()),
+  getX402PublicClient: () => ({
+    verifySiweMessage: async (params: { message: string; signature: `0x${string}`; domain: string; nonce: string }) => {
+      const fields = parseSiweMessage(params.message);
+      return validateSiweMessage({ message: fields, domain: params.domain, nonce: params.nonce }) &&
+        verifyMessage({ address: fields.address!, message: params.message, signature: params.signature });
+    },
+  }),
+}));
+
+const wallet = privateKeyToAccount('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+const DOMAIN = 'quickgig.test';
+
+/**
+ * Sign in flow of the client - a fresh nonce, signed into a SIWE message
+ */
+async function signIn(domain = DOMAIN) {
+  const message = createSiweMessage({
+    address: wallet.address,
+    chainId: baseSepolia.id,
+    domain,
+    nonce: await issueSiweNonce(),
+    uri: `https://${domain}`,
+    version: '1',
+  });
+  return { message, signature: await wallet.signMessage({ message }) };
+}
+
+beforeEach(() => {
+  db.nonces.clear();
+  vi.stubEnv('SUPABASE_JWT_SECRET', 'test-secret');
+});
+
+describe('session tokens', () => {
+  it('verifies a token it issued', () => {
+    const { token, expiresAt } = createSessionToken(wallet.address, baseSepolia.id);
+
+    expect(verifySessionToken(token)).toEqual({ address: wallet.address, chainId: baseSepolia.id, expiresAt, token });
+  });
+
+  it('rejects a token with a changed payload', () => {
+    const { token } = createSessionToken(wallet.address, baseSepolia.id);
+    const [header, , signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({
+      sub: '0x90F79bf6EB2c4f870365E785982E1f101E93b906',
+      exp: Math.floor(Date.now() / 1000) + 3600,
+    })).toString('base64url');
+
+    expect(verifySessionToken(`${header}.${forged}.${signature}`)).toBeNull();
+  });
+
+  it('rejects a token signed with another secret', () => {
+    const { token } = createSessionToken(wallet.address, baseSepolia.id);
+    vi.stubEnv('SUPABASE_JWT_SECRET', 'other-secret');
+
+    expect(verifySessionToken(token)).toBeNull();
+  });
+
+  it('rejects an expired token', () => {
+    vi.useFakeTimers();
+    try {
+      const { token, expiresAt } = createSessionToken(wallet.address, baseSepolia.id);
+      vi.setSystemTime(expiresAt * 1000);
+
+      expect(verifySessionToken(token)).toBeNull();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('verifySiweLogin', () => {
+  it('signs in the wallet that signed the message', async () => {
+    const login = await signIn();
+
+    expect(await verifySiweLogin({ ...login, domain: DOMAIN })).toEqual({
+      address: wallet.address,
+      chainId: baseSepolia.id,
+    });
+  });
+
+  it('uses up the nonce so a signed message only signs in once', async () => {
+    const login = await signIn();
+
+    await verifySiweLogin({ ...login, domain: DOMAIN });
+    expect(await verifySiweLogin({ ...login, domain: DOMAIN })).toEqual({ error: 'Nonce expired or already used' });
+  });
+
+  it('rejects a message for another site or with a forged signature', async () => {
+    const login = await signIn('evil.test');
+    expect(await verifySiweLogin({ ...login, domain: DOMAIN })).toEqual({
+      error: `Message is for evil.test, not ${DOMAIN}`,
+    });
+
+    const { message } = await signIn();
+    const signature = await privateKeyToAccount(
+      '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a'
+    ).signMessage({ message });
+    expect(await verifySiweLogin({ message, signature, domain: DOMAIN })).toEqual({ error: 'Invalid signature' });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Wallet Sessions
+ * HTTP-only cookie holding a signed JWT for the wallet that signed in with SIWE.
+ * The JWT is signed with the Supabase JWT secret, so it doubles as a Supabase access
+ * token - RLS policies see the wallet address as auth.jwt()->>'sub'.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { getAddress, isAddress, type Address } from 'viem';
+import type { NextRequest, NextResponse } from 'next/server';
+
+export const SESSION_COOKIE = 'quickgig_session';
+
+/**
+ * Session lifetime (SIWE_SESSION_TTL_SECONDS, default 24 hours)
+ */
+export const SESSION_TTL_SECONDS = Number(process.env.SIWE_SESSION_TTL_SECONDS) || 24 * 60 * 60;
+
+export interface WalletSession {
+  address: Address; // Checksummed
+  chainId: number; // Chain the wallet signed in on
+  expiresAt: number; // Unix seconds
+  token: string; // Session JWT - usable with createUserClient for RLS
+}
+
+interface SessionClaims {
+  sub: string;
+  role: 'authenticated';
+  aud: 'authenticated';
+  chain_id: number;
+  iat: number;
+  exp: number;
+}
+
+function getJwtSecret(): string {
+  const secret = process.env.SUPABASE_JWT_SECRET;
+  if (!secret) {
+    throw new Error('SUPABASE_JWT_SECRET not configured');
+  }
+  return secret;
+}
+
+function sign(data: string): string {
+  return createHmac('sha256', getJwtSecret()).update(data).digest('base64url');
+}
+
+/**
+ * Issue a session JWT (HS256) for a verified wallet
+ */
+export function createSessionToken(address: Address, chainId: number): { token: string; expiresAt: number } {
+  const now = Math.floor(Date.now() / 1000);
+  const claims: SessionClaims = {
+    sub: getAddress(address),
+    role: 'authenticated',
+    aud: 'authenticated',
+    chain_id: chainId,
+    iat: now,
+    exp: now + SESSION_TTL_SECONDS,
+  };
+
+  const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+
+  return {
+    token: `${header}.${payload}.${sign(`${header}.${payload}`)}`,
+    expiresAt: claims.exp,
+  };
+}
+
+/**
+ * Verify a session JWT, null if it is malformed, forged or expired
+ */
+export function verifySessionToken(token: string): WalletSession | null {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) return null;
+
+  const expected = Buffer.from(sign(`${header}.${payload}`));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString()) as SessionClaims;
+
+    if (!isAddress(claims.sub) || claims.exp <= Math.floor(Date.now() / 1000)) return null;
+
+    return {
+      address: getAddress(claims.sub),
+      chainId: claims.chain_id,
+      expiresAt: claims.exp,
+      token,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the signed-in wallet of a request (null if there is no valid session)
+ */
+export function getSession(request: NextRequest): WalletSession | null {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  return token ? verifySessionToken(token) : null;
+}
+
+/**
+ * Check if an address from a request belongs to the session's wallet
+ */
+export function isSessionAddress(session: WalletSession, address: string | null | undefined): boolean {
+  return !!address && address.toLowerCase() === session.address.toLowerCase();
+}
+
+/**
+ * Store a session token in the response cookie
+ */
+export function setSessionCookie(response: NextResponse, token: string, expiresAt: number): void {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: new Date(expiresAt * 1000),
+  });
+}
+
+/**
+ * Remove the session cookie (sign out)
+ */
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0,
+  });
+}
@@ -0,0 +1,64 @@
+/**
+ * Sign-In with Ethereum (EIP-4361)
+ * Issues single-use login nonces and verifies signed SIWE messages.
+ * Smart-contract wallets (ERC-1271, and undeployed ERC-6492 accounts such as a new
+ * Coinbase Smart Wallet) are verified on the chain the user signed in on.
+ */
+
+import type { Address, Hex } from 'viem';
+import { generateSiweNonce, parseSiweMessage } from 'viem/siwe';
+import { getX402PublicClient, isSupportedChain } from '@/lib/x402/chains';
+import { consumeSiweNonce, createSiweNonce } from '@/lib/supabase/auth';
+
+/**
+ * How long a nonce can be used to sign in
+ */
+const NONCE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Issue a login nonce
+ */
+export async function issueSiweNonce(): Promise<string> {
+  const nonce = generateSiweNonce();
+  await createSiweNonce(nonce, new Date(Date.now() + NONCE_TTL_MS));
+  return nonce;
+}
+
+/**
+ * Verify a signed SIWE message for this site and use up its nonce
+ * Returns the signer, or the reason the login was refused
+ */
+export async function verifySiweLogin(params: {
+  message: string;
+  signature: Hex;
+  domain: string; // Host the user is signing in to
+}): Promise<{ address: Address; chainId: number } | { error: string }> {
+  const fields = parseSiweMessage(params.message);
+
+  if (!fields.address || !fields.nonce || !fields.chainId) {
+    return { error: 'Malformed SIWE message' };
+  }
+  if (fields.domain !== params.domain) {
+    return { error: `Message is for ${fields.domain}, not ${params.domain}` };
+  }
+  if (!isSupportedChain(fields.chainId)) {
+    return { error: `Unsupported chain: ${fields.chainId}` };
+  }
+
+  // Also checks domain, nonce and the expiration / not-before times
+  const valid = await getX402PublicClient(fields.chainId).verifySiweMessage({
+    message: params.message,
+    signature: params.signature,
+    domain: params.domain,
+    nonce: fields.nonce,
+  });
+  if (!valid) {
+    return { error: 'Invalid signature' };
+  }
+
+  if (!(await consumeSiweNonce(fields.nonce, fields.address))) {
+    return { error: 'Nonce expired or already used' };
+  }
+
+  return { address: fields.address, chainId: fields.chainId };
+}
@@ -0,0 +1,516 @@
+/**
+ * Auto-Release Keeper
+ * Pays workers once a client leaves submitted work unreviewed past the escrows' 48h
+ * AUTO_RELEASE_WINDOW: finds due bounties, gig milestones and missions in the indexed projections,
+ * checks canAutoRelease on-chain and sends autoReleasePayment / autoReleaseMilestone / autoRelease
+ * from a funded relayer wallet (anyone may call them).
+ *
+ * Each pass sends its releases as one batch on consecutive nonces without waiting in between.
+ * Releases still pending after stuckAfterMs are re-sent on the same nonce with bumped fees, and
+ * passes are skipped while gas is above the cap or the wallet has pending transactions this
+ * process didn't send (a previous run's). Released missions are marked auto_released with an
+ * auto_released event in mission_timeline - bounties and gigs have no timeline, the indexer
+ * projects their BountyAutoReleased / MilestoneAutoReleased events.
+ */
+
+import {
+  createWalletClient,
+  http,
+  parseGwei,
+  type Address,
+  type Hash,
+  type Hex,
+  type PublicClient,
+  type TransactionReceipt,
+  type WalletClient,
+} from 'viem';
+import { privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts';
+import { getChainConfig, getDefaultChainId, getRpcUrl, getX402PublicClient } from '../x402/chains';
+import { getIndexedContracts, type IndexedContract } from '../indexer/contracts';
+import {
+  getBountiesSubmittedBefore,
+  getMilestonesSubmittedBefore,
+  getSubmittedChainMissions,
+} from '../supabase/chain-index';
+import {
+  addTimelineEvent,
+  getMissionByEscrowId,
+  setMissionAutoReleaseTime,
+  updateMissionStatus,
+} from '../supabase/missions';
+
+export interface AutoReleaseKeeperOptions {
+  chainId?: number;
+  rpcUrl?: string; // AUTO_RELEASE_RPC_URL, defaults to the chain's X402 RPC URL
+  privateKey?: Hex; // Relayer paying the gas (AUTO_RELEASE_RELAYER_PRIVATE_KEY) - the keeper doesn't run without one
+  pollIntervalMs?: number; // Wait between passes (AUTO_RELEASE_POLL_INTERVAL_MS)
+  batchSize?: number; // Releases sent per pass (AUTO_RELEASE_BATCH_SIZE)
+  maxFeePerGasGwei?: number; // Skip passes while maxFeePerGas is above this (AUTO_RELEASE_MAX_FEE_GWEI)
+  receiptTimeoutMs?: number; // How long a pass waits for its batch to confirm
+  stuckAfterMs?: number; // Re-send a still pending release with bumped fees after this long (AUTO_RELEASE_STUCK_AFTER_MS)
+}
+
+export interface AutoReleaseResult {
+  due: number; // Eligible on-chain and not already in flight
+  sent: number;
+  released: number; // Confirmed this pass, including earlier passes' releases
+  replaced: number; // Re-sent with bumped fees
+  failed: number; // Reverted or couldn't be sent
+}
+
+interface Release {
+  key: string; // bounty:<id>, gig:<id>:<milestone> or mission:<id>
+  contract: IndexedContract;
+  functionName: 'autoReleasePayment' | 'autoReleaseMilestone' | 'autoRelease';
+  args: readonly bigint[];
+  missionId: string | null; // missions row to mark auto_released
+}
+
+interface SentRelease extends Release {
+  hashes: Hash[]; // Original and every fee-bumped replacement
+  nonce: number;
+  gas: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  sentAt: number;
+}
+
+interface Fees {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+interface Relayer {
+  publicClient: PublicClient;
+  walletClient: WalletClient;
+  account: PrivateKeyAccount;
+  config: ReturnType<typeof resolveOptions>;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 5 * 60 * 1000;
+const DEFAULT_BATCH_SIZE = 25;
+const DEFAULT_RECEIPT_TIMEOUT_MS = 60 * 1000;
+const DEFAULT_STUCK_AFTER_MS = 3 * 60 * 1000;
+const CANDIDATE_LIMIT = 100;
+
+// Gas estimates get 20% headroom; replacements need at least 10% higher fees to be accepted
+const GAS_LIMIT_MULTIPLIER = 120n;
+const FEE_BUMP_MULTIPLIER = 125n;
+
+// Releases sent and not confirmed yet, by key - skipped when looking for due work
+const inFlight = new Map<string, SentRelease>();
+
+// AUTO_RELEASE_WINDOW per escrow (a constant)
+const releaseWindows = new Map<string, bigint>();
+
+// missions row and mirrored auto_release_time per MissionEscrow mission ID
+const missionLinks = new Map<number, { missionId: string | null; autoReleaseTime: string | null }>();
+
+function resolveOptions(options: AutoReleaseKeeperOptions) {
+  const maxFeeGwei = options.maxFeePerGasGwei || Number(process.env.AUTO_RELEASE_MAX_FEE_GWEI) || undefined;
+
+  return {
+    chainId: options.chainId || getDefaultChainId(),
+    rpcUrl: options.rpcUrl || process.env.AUTO_RELEASE_RPC_URL || undefined,
+    privateKey: options.privateKey || (process.env.AUTO_RELEASE_RELAYER_PRIVATE_KEY as Hex | undefined),
+    pollIntervalMs: options.pollIntervalMs || Number(process.env.AUTO_RELEASE_POLL_INTERVAL_MS) || DEFAULT_POLL_INTERVAL_MS,
+    batchSize: options.batchSize || Number(process.env.AUTO_RELEASE_BATCH_SIZE) || DEFAULT_BATCH_SIZE,
+    maxFeePerGas: maxFeeGwei ? parseGwei(String(maxFeeGwei)) : null,
+    receiptTimeoutMs: options.receiptTimeoutMs || DEFAULT_RECEIPT_TIMEOUT_MS,
+    stuckAfterMs: options.stuckAfterMs || Number(process.env.AUTO_RELEASE_STUCK_AFTER_MS) || DEFAULT_STUCK_AFTER_MS,
+  };
+}
+
+function createRelayer(options: AutoReleaseKeeperOptions): Relayer {
+  const config = resolveOptions(options);
+  if (!config.privateKey) {
+    throw new Error('AUTO_RELEASE_RELAYER_PRIVATE_KEY not configured');
+  }
+
+  const account = privateKeyToAccount(config.privateKey);
+
+  return {
+    publicClient: getX402PublicClient(config.chainId, config.rpcUrl),
+    walletClient: createWalletClient({
+      account,
+      chain: getChainConfig(config.chainId).chain,
+      transport: http(getRpcUrl(config.chainId, config.rpcUrl)),
+    }),
+    account,
+    config,
+  };
+}
+
+function bump(value: bigint): bigint {
+  return (value * FEE_BUMP_MULTIPLIER) / 100n + 1n;
+}
+
+// ============================================================================
+// FINDING DUE RELEASES
+// ============================================================================
+
+async function getReleaseWindow(relayer: Relayer, contract: IndexedContract): Promise<bigint> {
+  const key = contract.address.toLowerCase();
+  let window = releaseWindows.get(key);
+
+  if (window === undefined) {
+    window = (await relayer.publicClient.readContract({
+      address: contract.address,
+      abi: contract.abi,
+      functionName: 'AUTO_RELEASE_WINDOW',
+    })) as bigint;
+    releaseWindows.set(key, window);
+  }
+
+  return window;
+}
+
+/**
+ * missions row of a MissionEscrow mission, keeping its auto_release_time in line with the escrow
+ */
+async function linkMission(escrowMissionId: number, autoReleaseTime: string | null): Promise<string | null> {
+  const cached = missionLinks.get(escrowMissionId);
+  if (cached && cached.autoReleaseTime === autoReleaseTime) return cached.missionId;
+
+  const mission = await getMissionByEscrowId(escrowMissionId);
+  if (mission && mission.auto_release_time !== autoReleaseTime) {
+    await setMissionAutoReleaseTime(mission.id, autoReleaseTime);
+  }
+
+  missionLinks.set(escrowMissionId, { missionId: mission?.id ?? null, autoReleaseTime });
+  return mission?.id ?? null;
+}
+
+/**
+ * Releases the projections say are due at chain time `now`
+ * The projections trail the chain by the indexer's confirmations, so each is checked on-chain later
+ */
+async function findCandidates(relayer: Relayer, contract: IndexedContract, now: bigint): Promise<Release[]> {
+  switch (contract.name) {
+    case 'bounty_escrow': {
+      const cutoff = new Date(Number(now - (await getReleaseWindow(relayer, contract))) * 1000).toISOString();
+      const bounties = await getBountiesSubmittedBefore(contract.address, cutoff, CANDIDATE_LIMIT);
+      return bounties.map((bounty) => ({
+        key: `bounty:${bounty.bounty_id}`,
+        contract,
+        functionName: 'autoReleasePayment',
+        args: [BigInt(bounty.bounty_id)],
+        missionId: null,
+      }));
+    }
+    case 'gig_escrow': {
+      const cutoff = new Date(Number(now - (await getReleaseWindow(relayer, contract))) * 1000).toISOString();
+      const milestones = await getMilestonesSubmittedBefore(contract.address, cutoff, CANDIDATE_LIMIT);
+      return milestones.map((milestone) => ({
+        key: `gig:${milestone.gig_id}:${milestone.milestone_index}`,
+        contract,
+        functionName: 'autoReleaseMilestone',
+        args: [BigInt(milestone.gig_id), BigInt(milestone.milestone_index)],
+        missionId: null,
+      }));
+    }
+    case 'mission_escrow': {
+      const releases: Release[] = [];
+      for (const mission of await getSubmittedChainMissions(contract.address)) {
+        const missionId = await linkMission(mission.mission_id, mission.auto_release_time);
+        const autoReleaseTime = BigInt(Math.floor(Date.parse(mission.auto_release_time as string) / 1000));
+        if (autoReleaseTime > now) continue;
+
+        releases.push({
+          key: `mission:${mission.mission_id}`,
+          contract,
+          functionName: 'autoRelease',
+          args: [BigInt(mission.mission_id)],
+          missionId,
+        });
+      }
+      return releases;
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Due releases that canAutoRelease confirms, up to the batch size
+ */
+async function findDueReleases(relayer: Relayer, now: bigint): Promise<Release[]> {
+  const due: Release[] = [];
+
+  for (const contract of getIndexedContracts()) {
+    try {
+      for (const release of await findCandidates(relayer, contract, now)) {
+        if (due.length >= relayer.config.batchSize) return due;
+        if (inFlight.has(release.key)) continue;
+
+        const eligible = (await relayer.publicClient.readContract({
+          address: contract.address,
+          abi: contract.abi,
+          functionName: 'canAutoRelease',
+          args: release.args,
+        })) as boolean;
+
+        if (eligible) due.push(release);
+      }
+    } catch (error) {
+      console.error(`[Auto-Release] ${contract.name} lookup failed:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return due;
+}
+
+// ============================================================================
+// SENDING
+// ============================================================================
+
+async function getFees(relayer: Relayer): Promise<Fees> {
+  const { maxFeePerGas, maxPriorityFeePerGas } = await relayer.publicClient.estimateFeesPerGas();
+  return { maxFeePerGas, maxPriorityFeePerGas };
+}
+
+async function sendTransaction(
+  relayer: Relayer,
+  release: Release,
+  params: { nonce: number; gas: bigint } & Fees
+): Promise<Hash> {
+  return relayer.walletClient.writeContract({
+    address: release.contract.address,
+    abi: release.contract.abi,
+    functionName: release.functionName,
+    args: release.args,
+    account: relayer.account,
+    chain: getChainConfig(relayer.config.chainId).chain,
+    nonce: params.nonce,
+    gas: params.gas,
+    maxFeePerGas: params.maxFeePerGas,
+    maxPriorityFeePerGas: params.maxPriorityFeePerGas,
+  });
+}
+
+/**
+ * Mark a confirmed release done - missions get their status and timeline event
+ */
+async function finishRelease(relayer: Relayer, sent: SentRelease, receipt: TransactionReceipt, result: AutoReleaseResult) {
+  inFlight.delete(sent.key);
+
+  if (receipt.status !== 'success') {
+    // Usually the client approved or disputed, or someone else released it first
+    console.warn(`[Auto-Release] ${sent.key} reverted: ${receipt.transactionHash}`);
+    result.failed++;
+    return;
+  }
+
+  console.log(`[Auto-Release] Released ${sent.key}: ${receipt.transactionHash}`);
+  result.released++;
+
+  if (sent.missionId) {
+    try {
+      await updateMissionStatus(sent.missionId, 'auto_released', { completed_at: new Date().toISOString() });
+      await addTimelineEvent(
+        sent.missionId,
+        'auto_released',
+        {
+          escrowMissionId: Number(sent.args[0]),
+          relayer: relayer.account.address,
+          blockNumber: Number(receipt.blockNumber),
+        },
+        receipt.transactionHash
+      );
+    } catch (error) {
+      console.error(`[Auto-Release] Failed to record ${sent.key} on mission ${sent.missionId}:`, error instanceof Error ? error.message : error);
+    }
+  }
+}
+
+/**
+ * Check releases sent earlier: finish confirmed ones, drop ones whose nonce went to another
+ * transaction and re-send stuck ones with bumped fees
+ */
+async function checkInFlight(relayer: Relayer, latestNonce: number, result: AutoReleaseResult): Promise<void> {
+  for (const sent of [...inFlight.values()]) {
+    let receipt: TransactionReceipt | null = null;
+    for (const hash of sent.hashes) {
+      receipt = await relayer.publicClient.getTransactionReceipt({ hash }).catch(() => null);
+      if (receipt) break;
+    }
+
+    if (receipt) {
+      await finishRelease(relayer, sent, receipt, result);
+      continue;
+    }
+
+    if (sent.nonce < latestNonce) {
+      // Another transaction from the wallet took the nonce - re-checked from scratch next pass
+      inFlight.delete(sent.key);
+      continue;
+    }
+
+    if (Date.now() - sent.sentAt < relayer.config.stuckAfterMs) continue;
+
+    try {
+      const current = await getFees(relayer);
+      const maxPriorityFeePerGas = [bump(sent.maxPriorityFeePerGas), current.maxPriorityFeePerGas].reduce((a, b) => (a > b ? a : b));
+      const maxFeePerGas = [bump(sent.maxFeePerGas), current.maxFeePerGas, maxPriorityFeePerGas].reduce((a, b) => (a > b ? a : b));
+
+      const hash = await sendTransaction(relayer, sent, { nonce: sent.nonce, gas: sent.gas, maxFeePerGas, maxPriorityFeePerGas });
+      Object.assign(sent, { maxFeePerGas, maxPriorityFeePerGas, sentAt: Date.now() });
+      sent.hashes.push(hash);
+      result.replaced++;
+      console.log(`[Auto-Release] Re-sent ${sent.key} (nonce ${sent.nonce}) with bumped fees: ${hash}`);
+    } catch (error) {
+      // The original may have just been mined (nonce too low) - the next pass finds its receipt
+      console.warn(`[Auto-Release] Failed to re-send ${sent.key}:`, error instanceof Error ? error.message : error);
+    }
+  }
+}
+
+/**
+ * Send a batch on consecutive nonces, stopping when the relayer can't cover the gas
+ */
+async function sendBatch(
+  relayer: Relayer,
+  releases: Release[],
+  startNonce: number,
+  fees: Fees,
+  result: AutoReleaseResult
+): Promise<SentRelease[]> {
+  const batch: SentRelease[] = [];
+  let nonce = startNonce;
+  let balance = await relayer.publicClient.getBalance({ address: relayer.account.address });
+
+  for (const release of releases) {
+    let gas: bigint;
+    try {
+      const estimate = await relayer.publicClient.estimateContractGas({
+        address: release.contract.address,
+        abi: release.contract.abi,
+        functionName: release.functionName,
+        args: release.args,
+        account: relayer.account,
+      });
+      gas = (estimate * GAS_LIMIT_MULTIPLIER) / 100n;
+    } catch (error) {
+      console.warn(`[Auto-Release] ${release.key} no longer releasable:`, error instanceof Error ? error.message : error);
+      result.failed++;
+      continue;
+    }
+
+    const cost = gas * fees.maxFeePerGas;
+    if (cost > balance) {
+      console.warn(`[Auto-Release] Relayer ${relayer.account.address} is low on gas, ${releases.length - batch.length} release(s) left for later`);
+      break;
+    }
+
+    try {
+      const hash = await sendTransaction(relayer, release, { nonce, gas, ...fees });
+      const sent: SentRelease = { ...release, hashes: [hash], nonce, gas, ...fees, sentAt: Date.now() };
+      inFlight.set(release.key, sent);
+      batch.push(sent);
+      balance -= cost;
+      nonce++;
+      result.sent++;
+    } catch (error) {
+      // Most likely a nonce taken by a transaction sent outside the keeper - resync and move on
+      console.error(`[Auto-Release] Failed to send ${release.key} (nonce ${nonce}):`, error instanceof Error ? error.message : error);
+      result.failed++;
+      nonce = Math.max(nonce, await relayer.publicClient.getTransactionCount({ address: relayer.account.address, blockTag: 'pending' }));
+    }
+  }
+
+  return batch;
+}
+
+// ============================================================================
+// KEEPER LOOP
+// ============================================================================
+
+/**
+ * Check in-flight releases, then send and confirm a batch of due ones
+ */
+export async function runAutoRelease(options: AutoReleaseKeeperOptions = {}): Promise<AutoReleaseResult> {
+  const relayer = createRelayer(options);
+  const result: AutoReleaseResult = { due: 0, sent: 0, released: 0, replaced: 0, failed: 0 };
+  const address: Address = relayer.account.address;
+
+  const [latestNonce, pendingNonce] = await Promise.all([
+    relayer.publicClient.getTransactionCount({ address, blockTag: 'latest' }),
+    relayer.publicClient.getTransactionCount({ address, blockTag: 'pending' }),
+  ]);
+
+  await checkInFlight(relayer, latestNonce, result);
+
+  if (pendingNonce > latestNonce && inFlight.size === 0) {
+    console.warn(`[Auto-Release] ${pendingNonce - latestNonce} pending transaction(s) from ${address} not sent by this keeper, waiting for them`);
+    return result;
+  }
+
+  const fees = await getFees(relayer);
+  if (relayer.config.maxFeePerGas !== null && fees.maxFeePerGas > relayer.config.maxFeePerGas) {
+    console.warn(`[Auto-Release] Gas above AUTO_RELEASE_MAX_FEE_GWEI (${fees.maxFeePerGas} wei), skipping this pass`);
+    return result;
+  }
+
+  const { timestamp: now } = await relayer.publicClient.getBlock();
+  const releases = await findDueReleases(relayer, now);
+  result.due = releases.length;
+  if (releases.length === 0) return result;
+
+  const nextNonce = Math.max(pendingNonce, ...[...inFlight.values()].map((sent) => sent.nonce + 1));
+  const batch = await sendBatch(relayer, releases, nextNonce, fees, result);
+
+  // Whatever doesn't confirm in time stays in flight for the next pass
+  await Promise.all(
+    batch.map((sent) =>
+      relayer.publicClient
+        .waitForTransactionReceipt({ hash: sent.hashes[0], timeout: relayer.config.receiptTimeoutMs })
+        .then((receipt) => finishRelease(relayer, sent, receipt, result))
+        .catch(() => {})
+    )
+  );
+
+  return result;
+}
+
+/**
+ * Run passes on an interval until stopped - not started without a relayer key
+ */
+export function startAutoReleaseKeeper(options: AutoReleaseKeeperOptions = {}): { stop: () => Promise<void> } {
+  const config = resolveOptions(options);
+
+  if (!config.privateKey) {
+    console.log('[Auto-Release] AUTO_RELEASE_RELAYER_PRIVATE_KEY not configured, keeper not started');
+    return { stop: async () => {} };
+  }
+
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running: Promise<void> = Promise.resolve();
+
+  const run = () => {
+    running = runAutoRelease(options)
+      .then((result) => {
+        if (result.due || result.released || result.replaced || result.failed) {
+          console.log('[Auto-Release] Pass:', result);
+        }
+      })
+      .catch((error) => {
+        console.error('[Auto-Release] Pass failed:', error instanceof Error ? error.message : error);
+      })
+      .finally(() => {
+        if (!stopped) timer = setTimeout(run, config.pollIntervalMs);
+      });
+  };
+
+  console.log(`[Auto-Release] Started on chain ${config.chainId} as ${privateKeyToAccount(config.privateKey).address}, every ${Math.round(config.pollIntervalMs / 1000)}s`);
+  run();
+
+  return {
+    stop: async () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      await running;
+      console.log('[Auto-Release] Stopped');
+    },
+  };
+}
@@ -0,0 +1,34 @@
+/**
+ * Capability Taxonomy Hooks
+ * Loads the taxonomy from GET /api/capabilities for forms and filters
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { buildTaxonomy, type CapabilityTaxonomy } from './taxonomy';
+import type { Capability } from '../supabase/capabilities';
+
+/**
+ * Fetch the active capabilities and index them
+ */
+export async function fetchCapabilityTaxonomy(): Promise<CapabilityTaxonomy> {
+  const response = await fetch('/api/capabilities');
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load capabilities');
+  }
+
+  return buildTaxonomy(data.capabilities as Capability[]);
+}
+
+/**
+ * React Query hook for the capability taxonomy
+ * Admin edits show up within 5 minutes
+ */
+export function useCapabilityTaxonomy() {
+  return useQuery({
+    queryKey: ['capability-taxonomy'],
+    queryFn: fetchCapabilityTaxonomy,
+    staleTime: 5 * 60_000,
+  });
+}
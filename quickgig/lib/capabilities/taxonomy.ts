@@ -0,0 +1,214 @@
+/**
+ * Capability Taxonomy
+ * Resolves free-form capability terms (slugs, names, synonyms) to the capabilities table
+ * and expands a capability to everything under it (design -> logo-design, ui-ux-design, ...).
+ * Pure functions over the loaded rows, so the browser can use them with GET /api/capabilities.
+ */
+
+import type { Capability } from '../supabase/capabilities';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CapabilityTaxonomy {
+  capabilities: Capability[]; // Sorted by sort_order
+  bySlug: Map<string, Capability>;
+  byTerm: Map<string, string>; // Normalized slug, name or synonym -> slug
+  children: Map<string, string[]>; // Slug -> child slugs
+}
+
+/**
+ * Capability metadata with unset fields inherited from its ancestors
+ */
+export interface CapabilityInfo {
+  slug: string;
+  name: string;
+  path: string[]; // Root first, ending with slug
+  deliverableTypes: string[];
+  priceRange: { min: number; max: number } | null; // USDC
+  turnaround: string | null;
+}
+
+// ============================================================================
+// BUILD
+// ============================================================================
+
+/**
+ * Lowercase a term and join words with '-' ("Logo Design" -> "logo-design")
+ */
+export function normalizeCapabilityTerm(term: string): string {
+  return term
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/**
+ * Index capability rows by slug, term and parent
+ * Slugs win over names and synonyms, so a synonym can't shadow a capability
+ */
+export function buildTaxonomy(rows: Capability[]): CapabilityTaxonomy {
+  const capabilities = [...rows].sort((a, b) => a.sort_order - b.sort_order || a.slug.localeCompare(b.slug));
+  const bySlug = new Map(capabilities.map((capability) => [capability.slug, capability]));
+  const byTerm = new Map<string, string>();
+  const children = new Map<string, string[]>();
+
+  for (const capability of capabilities) {
+    byTerm.set(capability.slug, capability.slug);
+  }
+
+  for (const capability of capabilities) {
+    for (const term of [capability.name, ...capability.synonyms]) {
+      const normalized = normalizeCapabilityTerm(term);
+      if (normalized && !byTerm.has(normalized)) byTerm.set(normalized, capability.slug);
+    }
+
+    if (capability.parent_slug && bySlug.has(capability.parent_slug)) {
+      children.set(capability.parent_slug, [...(children.get(capability.parent_slug) || []), capability.slug]);
+    }
+  }
+
+  return { capabilities, bySlug, byTerm, children };
+}
+
+// ============================================================================
+// LOOKUPS
+// ============================================================================
+
+/**
+ * Find the capability a term refers to, or null if the taxonomy doesn't know it
+ */
+export function resolveCapability(taxonomy: CapabilityTaxonomy, term: string): Capability | null {
+  const slug = taxonomy.byTerm.get(normalizeCapabilityTerm(term));
+  return slug ? taxonomy.bySlug.get(slug)! : null;
+}
+
+/**
+ * Map terms to capability slugs - unknown terms are kept normalized, duplicates dropped
+ */
+export function normalizeCapabilities(taxonomy: CapabilityTaxonomy, terms: string[]): string[] {
+  const slugs = terms
+    .map((term) => resolveCapability(taxonomy, term)?.slug || normalizeCapabilityTerm(term))
+    .filter((slug) => slug);
+  return [...new Set(slugs)];
+}
+
+/**
+ * Top-level capabilities (no parent, or a parent that isn't in the taxonomy)
+ */
+export function getRootCapabilities(taxonomy: CapabilityTaxonomy): Capability[] {
+  return taxonomy.capabilities.filter(
+    (capability) => !capability.parent_slug || !taxonomy.bySlug.has(capability.parent_slug)
+  );
+}
+
+/**
+ * Direct children of a capability
+ */
+export function getChildCapabilities(taxonomy: CapabilityTaxonomy, slug: string): Capability[] {
+  return (taxonomy.children.get(slug) || []).map((child) => taxonomy.bySlug.get(child)!);
+}
+
+/**
+ * A capability and all its descendants
+ */
+function getSubtree(taxonomy: CapabilityTaxonomy, slug: string): Capability[] {
+  const subtree: Capability[] = [];
+  const queue = [slug];
+  const seen = new Set<string>();
+
+  while (queue.length > 0) {
+    const next = queue.shift()!;
+    if (seen.has(next)) continue;
+    seen.add(next);
+
+    const capability = taxonomy.bySlug.get(next);
+    if (!capability) continue;
+    subtree.push(capability);
+    queue.push(...(taxonomy.children.get(next) || []));
+  }
+
+  return subtree;
+}
+
+/**
+ * Every term an agent may have listed for a capability: its slug and synonyms plus
+ * those of its descendants, so searching "design" finds logo designers
+ * Unknown terms expand to themselves
+ */
+export function expandCapability(taxonomy: CapabilityTaxonomy, term: string): string[] {
+  const capability = resolveCapability(taxonomy, term);
+  if (!capability) return [...new Set([term, normalizeCapabilityTerm(term)])];
+
+  const terms = getSubtree(taxonomy, capability.slug).flatMap((node) => [node.slug, ...node.synonyms]);
+  return [...new Set(terms)];
+}
+
+/**
+ * Root-first chain of capabilities ending with slug
+ */
+function getAncestry(taxonomy: CapabilityTaxonomy, slug: string): Capability[] {
+  const chain: Capability[] = [];
+  let current = taxonomy.bySlug.get(slug);
+
+  while (current && !chain.includes(current)) {
+    chain.unshift(current);
+    current = current.parent_slug ? taxonomy.bySlug.get(current.parent_slug) : undefined;
+  }
+
+  return chain;
+}
+
+/**
+ * Metadata for a capability term, falling back to the nearest ancestor that sets each field
+ */
+export function getCapabilityInfo(taxonomy: CapabilityTaxonomy, term: string): CapabilityInfo | null {
+  const capability = resolveCapability(taxonomy, term);
+  if (!capability) return null;
+
+  const nearestFirst = getAncestry(taxonomy, capability.slug).reverse();
+  const priced = nearestFirst.find((node) => node.price_min !== null && node.price_max !== null);
+
+  return {
+    slug: capability.slug,
+    name: capability.name,
+    path: nearestFirst.map((node) => node.slug).reverse(),
+    deliverableTypes: nearestFirst.find((node) => node.deliverable_types.length > 0)?.deliverable_types || [],
+    priceRange: priced ? { min: Number(priced.price_min), max: Number(priced.price_max) } : null,
+    turnaround: nearestFirst.find((node) => node.turnaround)?.turnaround || null,
+  };
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Check an added or edited capability against the rest of the taxonomy
+ * Returns an error message, or null if it fits
+ */
+export function checkCapabilityChange(
+  taxonomy: CapabilityTaxonomy,
+  change: Pick<Capability, 'slug' | 'name' | 'parent_slug' | 'synonyms'>
+): string | null {
+  if (change.parent_slug) {
+    if (!taxonomy.bySlug.has(change.parent_slug)) {
+      return `Parent capability ${change.parent_slug} does not exist`;
+    }
+    if (getAncestry(taxonomy, change.parent_slug).some((node) => node.slug === change.slug)) {
+      return `${change.parent_slug} is under ${change.slug}, so it can't be its parent`;
+    }
+  }
+
+  for (const term of [change.name, ...change.synonyms]) {
+    const owner = taxonomy.byTerm.get(normalizeCapabilityTerm(term));
+    if (owner && owner !== change.slug) {
+      return `"${term}" already refers to ${owner}`;
+    }
+  }
+
+  return null;
+}
@@ -89,8 +89,9 @@ async function fetchLogsViaRPC(
       } as any) as GetLogsReturnType;
       allLogs.push(...logs);
     } catch (error) {
+      // A skipped chunk would silently drop events - fail instead (the chain indexer handles retries)
       console.error(`Error fetching logs for blocks ${i} to ${chunkEnd}:`, error);
-      // Continue with next chunk even if this one fails
+      throw new Error(`Failed to fetch logs for blocks ${i} to ${chunkEnd}`);
     }
   }
   
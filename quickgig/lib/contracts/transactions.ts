@@ -25,7 +25,8 @@ export function buildCreateBountyCalls(
   paymentToken: Address,
   amount: bigint,
   deadline: bigint,
-  requirements: string
+  requirements: string,
+  useUMAArbitration = false
 ): Call[] {
   return [
     // 1. Approve USDC to BountyEscrow
@@ -43,7 +44,7 @@ export function buildCreateBountyCalls(
       data: encodeFunctionData({
         abi: BountyEscrowABI.abi,
         functionName: 'createBounty',
-        args: [paymentToken, amount, deadline, requirements],
+        args: [paymentToken, amount, deadline, requirements, useUMAArbitration],
       }),
     },
   ];
@@ -133,7 +134,8 @@ export function buildCreateGigCalls(
   worker: Address,
   paymentToken: Address,
   milestoneDescriptions: string[],
-  milestoneAmounts: bigint[]
+  milestoneAmounts: bigint[],
+  useUMAArbitration = false
 ): Call[] {
   const totalAmount = milestoneAmounts.reduce((sum, amount) => sum + amount, 0n);
   
@@ -153,7 +155,7 @@ export function buildCreateGigCalls(
       data: encodeFunctionData({
         abi: GigEscrowABI,
         functionName: 'createGig',
-        args: [worker, paymentToken, milestoneDescriptions, milestoneAmounts],
+        args: [worker, paymentToken, milestoneDescriptions, milestoneAmounts, useUMAArbitration],
       }),
     },
   ];
@@ -0,0 +1,714 @@
+/**
+ * Dispute Evidence Bundles
+ * Packages everything an arbitrator needs to judge a bounty, gig milestone or mission dispute -
+ * requirements, deliverables, bids/proposals, the related chat, the timeline and any automated
+ * pre-review - into one JSON
+ * document pinned to IPFS. Every item carries a sha256 and the manifest's root hash covers them all,
+ * so a bundle that was edited after pinning fails verifyEvidenceBundle.
+ */
+
+import { createHash } from 'crypto';
+import { getIndexedContracts } from '@/lib/indexer/contracts';
+import {
+  getChainBounty,
+  getChainBountyBids,
+  getChainGig,
+  getChainGigMilestones,
+  getEntityEvents,
+  type ChainBounty,
+  type ChainBountyBid,
+  type ChainGig,
+  type ChainGigMilestone,
+  type IndexedContractName,
+} from '@/lib/supabase/chain-index';
+import { getRecentMessages, getSession, getSessionsWithToolResult, type ChatMessage } from '@/lib/supabase/chat';
+import { getDisputeReview } from '@/lib/supabase/dispute-reviews';
+import {
+  getMissionTimeline,
+  getMissionWithDetails,
+  type Mission,
+  type MissionAgent,
+  type MissionExecution,
+} from '@/lib/supabase/missions';
+import { uploadJSON } from '@/lib/ipfs/pinata';
+import { ipfsToHttp } from '@/lib/utils';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DisputeSubject =
+  | { type: 'bounty'; bountyId: number }
+  | { type: 'gig'; gigId: number; milestoneIndex: number }
+  | { type: 'mission'; missionId: string };
+
+export type EvidenceKind =
+  | 'statement'
+  | 'requirements'
+  | 'deliverable'
+  | 'proposals'
+  | 'milestones'
+  | 'chat'
+  | 'timeline'
+  | 'review';
+
+export interface EvidenceItem {
+  id: string; // Unique within the bundle, e.g. deliverable:0
+  kind: EvidenceKind;
+  title: string;
+  source?: string; // ipfs:// URI the content was fetched from or is pinned at
+  sourceSha256?: string; // Of the bytes behind source, when they could be fetched
+  content?: unknown; // Left out for files too large or not text - only sourceSha256 pins those
+  sha256: string; // Of the canonical JSON of content, or sourceSha256 when content is left out
+  size?: number; // Bytes behind source
+  error?: string; // Why source couldn't be fetched
+}
+
+export interface EvidenceManifest {
+  algorithm: 'sha256';
+  canonicalization: 'json-sorted-keys';
+  items: Array<{ id: string; kind: EvidenceKind; sha256: string; source?: string; sourceSha256?: string }>;
+  rootHash: string; // Over the bundle header and items' hashes - see manifestRoot
+}
+
+export interface EvidenceBundle {
+  version: 1;
+  subject: DisputeSubject;
+  contractAddress: string | null; // Escrow holding the funds, null for a mission never escrowed
+  parties: { client: string; worker: string | null };
+  submittedBy: string;
+  statement: string | null;
+  createdAt: string;
+  items: EvidenceItem[];
+  manifest: EvidenceManifest;
+}
+
+interface BountyDisputeContext {
+  type: 'bounty';
+  subject: Extract<DisputeSubject, { type: 'bounty' }>;
+  contractAddress: string;
+  parties: EvidenceBundle['parties'];
+  bounty: ChainBounty;
+}
+
+interface GigDisputeContext {
+  type: 'gig';
+  subject: Extract<DisputeSubject, { type: 'gig' }>;
+  contractAddress: string;
+  parties: EvidenceBundle['parties'];
+  gig: ChainGig;
+  milestones: ChainGigMilestone[];
+}
+
+interface MissionDisputeContext {
+  type: 'mission';
+  subject: Extract<DisputeSubject, { type: 'mission' }>;
+  contractAddress: string | null;
+  parties: EvidenceBundle['parties'];
+  mission: Mission;
+  agents: MissionAgent[];
+  executions: MissionExecution[];
+}
+
+/**
+ * A dispute's records, loaded once to check the caller is a party and then to build the bundle
+ */
+export type DisputeContext = BountyDisputeContext | GigDisputeContext | MissionDisputeContext;
+
+export interface EvidenceVerification {
+  valid: boolean;
+  rootHashValid: boolean;
+  items: Array<{ id: string; valid: boolean; reason?: string }>;
+}
+
+// Files up to this size are embedded (if they are text), larger ones are only hashed
+const MAX_EMBED_BYTES = 256 * 1024;
+// Larger files are recorded without a hash
+const MAX_FETCH_BYTES = 10 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 15000;
+
+const MAX_PROPOSALS = 10;
+const MAX_CHAT_SESSIONS = 5;
+const MAX_CHAT_MESSAGES = 200;
+
+// ============================================================================
+// HASHING
+// ============================================================================
+
+/**
+ * JSON with object keys sorted at every level, so the same content always hashes the same
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value) ?? 'null';
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+}
+
+function sha256(data: string | Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Root hash over everything in the bundle but the items' content (which their hashes stand for)
+ */
+function manifestRoot(bundle: Omit<EvidenceBundle, 'manifest' | 'items'>, items: EvidenceManifest['items']): string {
+  return sha256(
+    canonicalJson({
+      version: bundle.version,
+      subject: bundle.subject,
+      contractAddress: bundle.contractAddress,
+      parties: bundle.parties,
+      submittedBy: bundle.submittedBy,
+      statement: bundle.statement,
+      createdAt: bundle.createdAt,
+      items,
+    })
+  );
+}
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+/**
+ * Stable key of a dispute - bounty:3, gig:2:0 or mission:<uuid>
+ */
+export function disputeSubjectKey(subject: DisputeSubject): string {
+  switch (subject.type) {
+    case 'bounty':
+      return `bounty:${subject.bountyId}`;
+    case 'gig':
+      return `gig:${subject.gigId}:${subject.milestoneIndex}`;
+    case 'mission':
+      return `mission:${subject.missionId}`;
+  }
+}
+
+function getContractAddress(name: IndexedContractName): string | null {
+  const contract = getIndexedContracts().find((c) => c.name === name);
+  return contract ? contract.address.toLowerCase() : null;
+}
+
+function isId(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Validate a dispute subject from a request body (null if it isn't one)
+ */
+export function parseDisputeSubject(value: unknown): DisputeSubject | null {
+  if (!value || typeof value !== 'object') return null;
+  const subject = value as Record<string, unknown>;
+
+  switch (subject.type) {
+    case 'bounty':
+      return isId(subject.bountyId) ? { type: 'bounty', bountyId: subject.bountyId } : null;
+    case 'gig':
+      return isId(subject.gigId) && isId(subject.milestoneIndex)
+        ? { type: 'gig', gigId: subject.gigId, milestoneIndex: subject.milestoneIndex }
+        : null;
+    case 'mission':
+      return typeof subject.missionId === 'string' && subject.missionId
+        ? { type: 'mission', missionId: subject.missionId }
+        : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Load the bounty, gig or mission under dispute (null if it doesn't exist)
+ */
+export async function loadDisputeContext(subject: DisputeSubject): Promise<DisputeContext | null> {
+  switch (subject.type) {
+    case 'bounty': {
+      const contractAddress = getContractAddress('bounty_escrow');
+      if (!contractAddress) throw new Error('BountyEscrow is not configured');
+
+      const bounty = await getChainBounty(contractAddress, subject.bountyId);
+      if (!bounty) return null;
+
+      return {
+        type: 'bounty',
+        subject,
+        contractAddress,
+        parties: { client: bounty.client_address, worker: bounty.assigned_worker },
+        bounty,
+      };
+    }
+    case 'gig': {
+      const contractAddress = getContractAddress('gig_escrow');
+      if (!contractAddress) throw new Error('GigEscrow is not configured');
+
+      const [gig, milestones] = await Promise.all([
+        getChainGig(contractAddress, subject.gigId),
+        getChainGigMilestones(contractAddress, subject.gigId),
+      ]);
+      if (!gig || !milestones.some((m) => m.milestone_index === subject.milestoneIndex)) return null;
+
+      return {
+        type: 'gig',
+        subject,
+        contractAddress,
+        parties: { client: gig.client_address, worker: gig.worker_address },
+        gig,
+        milestones,
+      };
+    }
+    case 'mission': {
+      const details = await getMissionWithDetails(subject.missionId);
+      if (!details) return null;
+
+      return {
+        type: 'mission',
+        subject,
+        contractAddress: details.mission.escrow_contract_id != null ? getContractAddress('mission_escrow') : null,
+        // Agents are paid per step, so only the client disputes a mission
+        parties: { client: details.mission.client_address.toLowerCase(), worker: null },
+        mission: details.mission,
+        agents: details.agents,
+        executions: details.executions,
+      };
+    }
+  }
+}
+
+/**
+ * Whether an address is the client or worker of the dispute
+ */
+export function isDisputeParty(context: DisputeContext, address: string): boolean {
+  const value = address.toLowerCase();
+  return context.parties.client.toLowerCase() === value || context.parties.worker?.toLowerCase() === value;
+}
+
+// ============================================================================
+// BUILDING
+// ============================================================================
+
+function embeddedItem(item: Omit<EvidenceItem, 'sha256'>): EvidenceItem {
+  return { ...item, sha256: sha256(canonicalJson(item.content ?? null)) };
+}
+
+/**
+ * Fetch a file from IPFS and hash it, embedding it if it is small JSON or text
+ * Only ipfs:// URIs are fetched - the server never requests arbitrary URLs
+ */
+async function sourceItem(item: Omit<EvidenceItem, 'sha256' | 'source'>, uri: string): Promise<EvidenceItem> {
+  const unavailable = (error: string): EvidenceItem => ({ ...item, source: uri, sha256: sha256(canonicalJson(null)), error });
+
+  if (!uri.startsWith('ipfs://')) return unavailable('Only ipfs:// sources are fetched');
+
+  let bytes: Uint8Array;
+  let contentType: string;
+  try {
+    const response = await fetch(ipfsToHttp(uri), { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+    if (!response.ok) return unavailable(`Gateway returned ${response.status}`);
+
+    const length = Number(response.headers.get('content-length'));
+    if (length > MAX_FETCH_BYTES) return unavailable(`Larger than ${MAX_FETCH_BYTES} bytes`);
+
+    bytes = new Uint8Array(await response.arrayBuffer());
+    contentType = response.headers.get('content-type') || '';
+  } catch (error) {
+    return unavailable(error instanceof Error ? error.message : 'Fetch failed');
+  }
+
+  const sourceSha256 = sha256(bytes);
+  const base = { ...item, source: uri, sourceSha256, size: bytes.length };
+  const isText = contentType.includes('json') || contentType.startsWith('text/');
+  if (bytes.length > MAX_EMBED_BYTES || !isText) return { ...base, sha256: sourceSha256 };
+
+  const text = new TextDecoder().decode(bytes);
+  try {
+    return embeddedItem({ ...base, content: JSON.parse(text) });
+  } catch {
+    return embeddedItem({ ...base, content: text });
+  }
+}
+
+/**
+ * Messages of a chat session that concern a bounty or gig: each action whose result names it,
+ * with the assistant message proposing it and the user message that asked for it
+ */
+function selectRelatedMessages(history: ChatMessage[], field: 'bountyId' | 'gigId', id: number): ChatMessage[] {
+  const related = new Set<number>();
+
+  history.forEach((message, index) => {
+    if (message.role !== 'tool') return;
+    try {
+      if (JSON.parse(message.content)[field] !== id) return;
+    } catch {
+      return;
+    }
+    related.add(index);
+
+    const toolCallId = (message.metadata as { toolCallId?: string } | null)?.toolCallId;
+    const proposal = history.findLastIndex(
+      (m, i) =>
+        i < index &&
+        m.role === 'assistant' &&
+        !!(m.metadata as { toolCalls?: { id: string }[] } | null)?.toolCalls?.some((call) => call.id === toolCallId)
+    );
+    if (proposal === -1) return;
+    related.add(proposal);
+
+    const request = history.findLastIndex((m, i) => i < proposal && m.role === 'user');
+    if (request !== -1) related.add(request);
+  });
+
+  return history.filter((_, index) => related.has(index));
+}
+
+/**
+ * The parties' chat messages that created or bid on the bounty or gig
+ * Only those messages - the rest of a session may be about unrelated work and the bundle is public
+ */
+async function chatItems(field: 'bountyId' | 'gigId', id: number, context: DisputeContext): Promise<EvidenceItem[]> {
+  const sessionIds = await getSessionsWithToolResult(field, id, MAX_CHAT_SESSIONS);
+  const items: EvidenceItem[] = [];
+
+  for (const sessionId of sessionIds) {
+    const session = await getSession(sessionId);
+    if (!session || !isDisputeParty(context, session.user_address)) continue;
+
+    const messages = selectRelatedMessages(await getRecentMessages(sessionId, MAX_CHAT_MESSAGES), field, id);
+    if (messages.length === 0) continue;
+
+    items.push(
+      embeddedItem({
+        id: `chat:${items.length}`,
+        kind: 'chat',
+        title: `Chat of ${session.user_address} about ${field === 'bountyId' ? 'bounty' : 'gig'} #${id}`,
+        content: {
+          sessionId,
+          userAddress: session.user_address,
+          messages: messages.map((m) => ({ role: m.role, content: m.content, createdAt: m.created_at })),
+        },
+      })
+    );
+  }
+
+  return items;
+}
+
+/**
+ * On-chain events of the escrow entity, oldest first
+ */
+async function chainTimelineItem(contractAddress: string, entityId: number): Promise<EvidenceItem> {
+  const events = await getEntityEvents(contractAddress, entityId);
+  return embeddedItem({
+    id: 'timeline:chain',
+    kind: 'timeline',
+    title: 'On-chain events',
+    content: events.map((e) => ({
+      event: e.event_name,
+      args: e.args,
+      blockNumber: e.block_number,
+      timestamp: e.block_timestamp,
+      txHash: e.tx_hash,
+    })),
+  });
+}
+
+function bidSummary(bid: ChainBountyBid) {
+  return {
+    bidIndex: bid.bid_index,
+    bidder: bid.bidder,
+    amount: bid.bid_amount,
+    proposalUri: bid.proposal_uri,
+    withdrawn: bid.withdrawn,
+    createdAt: bid.created_at,
+  };
+}
+
+async function bountyItems(context: BountyDisputeContext): Promise<EvidenceItem[]> {
+  const { bounty, contractAddress } = context;
+  const bids = await getChainBountyBids(contractAddress, bounty.bounty_id);
+  const items: EvidenceItem[] = [];
+
+  if (bounty.requirements_uri) {
+    items.push(await sourceItem({ id: 'requirements', kind: 'requirements', title: 'Bounty requirements' }, bounty.requirements_uri));
+  }
+  if (bounty.deliverable_uri) {
+    items.push(await sourceItem({ id: 'deliverable:0', kind: 'deliverable', title: 'Submitted deliverable' }, bounty.deliverable_uri));
+  }
+
+  items.push(
+    embeddedItem({
+      id: 'proposals',
+      kind: 'proposals',
+      title: 'Bids',
+      content: {
+        assignedWorker: bounty.assigned_worker,
+        assignedBidAmount: bounty.assigned_bid_amount,
+        bids: bids.map(bidSummary),
+      },
+    })
+  );
+
+  // The assigned worker's proposal first - it is what was agreed on
+  const withProposals = bids
+    .filter((bid) => bid.proposal_uri && !bid.withdrawn)
+    .sort((a, b) => Number(b.bidder === bounty.assigned_worker) - Number(a.bidder === bounty.assigned_worker))
+    .slice(0, MAX_PROPOSALS);
+  for (const bid of withProposals) {
+    items.push(
+      await sourceItem(
+        { id: `proposal:${bid.bid_index}`, kind: 'proposals', title: `Proposal of bid #${bid.bid_index} by ${bid.bidder}` },
+        bid.proposal_uri as string
+      )
+    );
+  }
+
+  items.push(...(await chatItems('bountyId', bounty.bounty_id, context)));
+  items.push(await chainTimelineItem(contractAddress, bounty.bounty_id));
+  return items;
+}
+
+async function gigItems(context: GigDisputeContext): Promise<EvidenceItem[]> {
+  const { gig, milestones, contractAddress, subject } = context;
+  const disputed = milestones.find((m) => m.milestone_index === subject.milestoneIndex) as ChainGigMilestone;
+  const items: EvidenceItem[] = [];
+
+  // Milestone descriptions are the gig's requirements
+  items.push(
+    embeddedItem({
+      id: 'requirements',
+      kind: 'milestones',
+      title: 'Gig milestones',
+      content: {
+        totalAmount: gig.total_amount,
+        paymentToken: gig.payment_token,
+        milestones: milestones.map((m) => ({
+          index: m.milestone_index,
+          description: m.description,
+          amount: m.amount,
+          status: m.status,
+          deliverableUri: m.deliverable_uri,
+          submittedAt: m.submitted_at,
+        })),
+      },
+    })
+  );
+
+  if (disputed.deliverable_uri) {
+    items.push(
+      await sourceItem(
+        { id: 'deliverable:0', kind: 'deliverable', title: `Deliverable of milestone #${disputed.milestone_index}` },
+        disputed.deliverable_uri
+      )
+    );
+  }
+
+  items.push(...(await chatItems('gigId', gig.gig_id, context)));
+  items.push(await chainTimelineItem(contractAddress, gig.gig_id));
+  return items;
+}
+
+async function missionItems(context: MissionDisputeContext): Promise<EvidenceItem[]> {
+  const { mission, agents, executions, contractAddress } = context;
+  const items: EvidenceItem[] = [];
+
+  if (mission.requirements_ipfs) {
+    items.push(await sourceItem({ id: 'requirements', kind: 'requirements', title: 'Mission requirements' }, mission.requirements_ipfs));
+  } else if (mission.description) {
+    items.push(embeddedItem({ id: 'requirements', kind: 'requirements', title: 'Mission description', content: mission.description }));
+  }
+
+  // Each agent's assignment is its proposal
+  items.push(
+    embeddedItem({
+      id: 'proposals',
+      kind: 'proposals',
+      title: 'Agent assignments',
+      content: agents.map((a) => ({
+        agentId: a.agent_id,
+        capability: a.capability,
+        paymentAmount: a.payment_amount,
+        requirements: a.requirements,
+        position: a.position,
+        dependsOn: a.depends_on,
+      })),
+    })
+  );
+
+  if (mission.deliverable_uri) {
+    items.push(await sourceItem({ id: 'deliverable:0', kind: 'deliverable', title: 'Mission deliverable' }, mission.deliverable_uri));
+  }
+  for (const execution of executions.filter((e) => e.deliverable_uri)) {
+    items.push(
+      await sourceItem(
+        { id: `deliverable:${execution.agent_id}`, kind: 'deliverable', title: `Deliverable of agent ${execution.agent_id}` },
+        execution.deliverable_uri as string
+      )
+    );
+  }
+
+  const timeline = await getMissionTimeline(mission.id);
+  items.push(
+    embeddedItem({
+      id: 'timeline:mission',
+      kind: 'timeline',
+      title: 'Mission timeline',
+      content: timeline.map((t) => ({ event: t.event_type, data: t.event_data, txHash: t.tx_hash, createdAt: t.created_at })),
+    })
+  );
+
+  if (contractAddress && mission.escrow_contract_id != null) {
+    items.push(await chainTimelineItem(contractAddress, mission.escrow_contract_id));
+  }
+  return items;
+}
+
+/**
+ * Collect and hash a dispute's evidence
+ */
+export async function buildEvidenceBundle(
+  context: DisputeContext,
+  options: { submittedBy: string; statement?: string }
+): Promise<EvidenceBundle> {
+  const items: EvidenceItem[] = [];
+
+  if (options.statement) {
+    items.push(embeddedItem({ id: 'statement', kind: 'statement', title: 'Statement of the submitter', content: options.statement }));
+  }
+
+  switch (context.type) {
+    case 'bounty':
+      items.push(...(await bountyItems(context)));
+      break;
+    case 'gig':
+      items.push(...(await gigItems(context)));
+      break;
+    case 'mission':
+      items.push(...(await missionItems(context)));
+      break;
+  }
+
+  // A pre-review the parties didn't settle on goes to the arbitrators with the rest
+  const review = await getDisputeReview(disputeSubjectKey(context.subject));
+  if (review) {
+    items.push(
+      embeddedItem({
+        id: 'review',
+        kind: 'review',
+        title: 'Automated pre-review',
+        source: review.review_uri || undefined,
+        content: {
+          reviewId: review.id,
+          model: review.model,
+          verdict: review.verdict,
+          clientBps: review.client_bps,
+          confidence: review.confidence,
+          summary: review.summary,
+          reasoning: review.reasoning,
+          findings: review.findings,
+          evidenceUri: review.evidence_uri,
+          status: review.status,
+          clientResponse: review.client_response,
+          workerResponse: review.worker_response,
+          createdAt: review.created_at,
+        },
+      })
+    );
+  }
+
+  const header = {
+    version: 1 as const,
+    subject: context.subject,
+    contractAddress: context.contractAddress,
+    parties: context.parties,
+    submittedBy: options.submittedBy.toLowerCase(),
+    statement: options.statement || null,
+    createdAt: new Date().toISOString(),
+  };
+  const manifestItems = items.map((item) => ({
+    id: item.id,
+    kind: item.kind,
+    sha256: item.sha256,
+    source: item.source,
+    sourceSha256: item.sourceSha256,
+  }));
+
+  return {
+    ...header,
+    items,
+    manifest: {
+      algorithm: 'sha256',
+      canonicalization: 'json-sorted-keys',
+      items: manifestItems,
+      rootHash: manifestRoot(header, manifestItems),
+    },
+  };
+}
+
+/**
+ * Pin a bundle to IPFS, returning its ipfs:// URI
+ */
+export async function pinEvidenceBundle(bundle: EvidenceBundle): Promise<string> {
+  return uploadJSON(bundle, `evidence_${disputeSubjectKey(bundle.subject).replace(/:/g, '_')}_${Date.now()}`);
+}
+
+// ============================================================================
+// VERIFICATION
+// ============================================================================
+
+/**
+ * Check a bundle's item hashes and root hash
+ * With refetchSources, files that were only hashed are fetched again and compared too
+ */
+export async function verifyEvidenceBundle(
+  bundle: EvidenceBundle,
+  options: { refetchSources?: boolean } = {}
+): Promise<EvidenceVerification> {
+  const results: EvidenceVerification['items'] = [];
+
+  for (const item of bundle.items) {
+    const listed = bundle.manifest.items.find((m) => m.id === item.id);
+    if (
+      !listed ||
+      listed.sha256 !== item.sha256 ||
+      listed.source !== item.source ||
+      listed.sourceSha256 !== item.sourceSha256
+    ) {
+      results.push({ id: item.id, valid: false, reason: 'Does not match the manifest' });
+      continue;
+    }
+
+    // Content that was left out is pinned by the source hash alone
+    const expected = item.content === undefined && item.sourceSha256 ? item.sourceSha256 : sha256(canonicalJson(item.content ?? null));
+    if (expected !== item.sha256) {
+      results.push({ id: item.id, valid: false, reason: 'Content hash mismatch' });
+      continue;
+    }
+
+    if (!options.refetchSources || !item.source || !item.sourceSha256) {
+      results.push({ id: item.id, valid: true });
+      continue;
+    }
+
+    const refetched = await sourceItem({ id: item.id, kind: item.kind, title: item.title }, item.source);
+    if (refetched.error) {
+      results.push({ id: item.id, valid: false, reason: `Source unavailable: ${refetched.error}` });
+    } else {
+      results.push(
+        refetched.sourceSha256 === item.sourceSha256
+          ? { id: item.id, valid: true }
+          : { id: item.id, valid: false, reason: 'Source hash mismatch' }
+      );
+    }
+  }
+
+  const unlisted = bundle.manifest.items.length !== bundle.items.length;
+  const rootHashValid = !unlisted && manifestRoot(bundle, bundle.manifest.items) === bundle.manifest.rootHash;
+
+  return {
+    valid: rootHashValid && results.every((r) => r.valid),
+    rootHashValid,
+    items: results,
+  };
+}
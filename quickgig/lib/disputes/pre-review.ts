@@ -0,0 +1,219 @@
+/**
+ * Automated Dispute Pre-Review
+ * Before a dispute goes to a 2-of-3 SimpleArbitrator vote or a bonded UMA assertion, a model
+ * compares the deliverable against the requirements in the dispute's evidence bundle and
+ * suggests a client/worker split in basis points (as in vote(caseId, clientBps)). Both parties
+ * accept it or escalate; the verdict is pinned to IPFS and included in later evidence bundles.
+ */
+
+import OpenAI from 'openai';
+import { z } from 'zod/v4';
+import {
+  buildEvidenceBundle,
+  disputeSubjectKey,
+  pinEvidenceBundle,
+  type DisputeContext,
+  type EvidenceBundle,
+} from './evidence-bundle';
+import {
+  createDisputeReview,
+  getDisputeReview,
+  setDisputeReviewUri,
+  type DisputeReview,
+  type DisputeReviewVerdict,
+} from '@/lib/supabase/dispute-reviews';
+import { uploadJSON } from '@/lib/ipfs/pinata';
+
+const openai = new OpenAI({
+  baseURL: 'https://openrouter.ai/api/v1',
+  apiKey: process.env.OPENROUTER_API_KEY || '',
+  defaultHeaders: {
+    'HTTP-Referer': process.env.NEXT_PUBLIC_SITE_URL || '',
+    'X-Title': process.env.NEXT_PUBLIC_SITE_NAME || '',
+  },
+});
+
+// DISPUTE_REVIEW_MODEL overrides - judging work needs more than the chat model
+const REVIEW_MODEL = process.env.DISPUTE_REVIEW_MODEL || 'openai/gpt-4o';
+
+// Each evidence item is cut to this many characters in the prompt
+const MAX_ITEM_LENGTH = 8000;
+
+const SYSTEM_PROMPT = `You are a neutral pre-reviewer for disputes on QUICKGIG, a freelance marketplace with on-chain escrow.
+
+A client disputes work a worker delivered. You get the evidence: the requirements, the deliverable, bids/proposals, chat history, the timeline and statements from the parties. Judge only from that evidence.
+
+Compare the deliverable against each requirement and suggest how the escrow should be split:
+- clientBps is the client's share in basis points (0-10000). 0 pays the worker everything, 10000 refunds the client everything.
+- Partially met requirements justify a split. Missing or unreadable deliverables favour the client; requirements added after the agreement don't count against the worker.
+- Deliverables that are binary files you can't read should be judged from their description and the rest of the evidence, with lower confidence.
+
+Respond with JSON only:
+{
+  "clientBps": 0-10000,
+  "confidence": 0-1,
+  "summary": "One or two sentences for both parties",
+  "reasoning": "How you reached the split, citing the evidence",
+  "findings": [{ "requirement": "...", "met": "yes|partial|no", "notes": "..." }]
+}`;
+
+const ReviewOutputSchema = z.object({
+  clientBps: z.number().int().min(0).max(10000),
+  confidence: z.number().min(0).max(1),
+  summary: z.string().min(1),
+  reasoning: z.string().min(1),
+  findings: z
+    .array(
+      z.object({
+        requirement: z.string(),
+        met: z.enum(['yes', 'partial', 'no']),
+        notes: z.string(),
+      })
+    )
+    .default([]),
+});
+
+type ReviewOutput = z.infer<typeof ReviewOutputSchema>;
+
+/**
+ * Whether there is a deliverable to review yet
+ */
+export function hasDeliverable(context: DisputeContext): boolean {
+  switch (context.type) {
+    case 'bounty':
+      return !!context.bounty.deliverable_uri;
+    case 'gig':
+      return context.milestones.some((m) => m.milestone_index === context.subject.milestoneIndex && !!m.deliverable_uri);
+    case 'mission':
+      return !!context.mission.deliverable_uri || context.executions.some((e) => !!e.deliverable_uri);
+  }
+}
+
+function toVerdict(clientBps: number): DisputeReviewVerdict {
+  if (clientBps === 0) return 'worker';
+  if (clientBps === 10000) return 'client';
+  return 'split';
+}
+
+/**
+ * The bundle as prompt text, one section per item
+ */
+function describeEvidence(bundle: EvidenceBundle): string {
+  const sections = bundle.items.map((item) => {
+    let body: string;
+    if (item.content !== undefined) {
+      const text = typeof item.content === 'string' ? item.content : JSON.stringify(item.content, null, 2);
+      body = text.length > MAX_ITEM_LENGTH ? `${text.slice(0, MAX_ITEM_LENGTH)}\n[truncated]` : text;
+    } else if (item.error) {
+      body = `[Could not be fetched from ${item.source}: ${item.error}]`;
+    } else {
+      body = `[Binary or large file at ${item.source}, ${item.size} bytes - not readable here]`;
+    }
+    return `## ${item.title} (${item.kind})\n${body}`;
+  });
+
+  return [
+    `Dispute: ${JSON.stringify(bundle.subject)}`,
+    `Client: ${bundle.parties.client}`,
+    `Worker: ${bundle.parties.worker ?? 'AI agents'}`,
+    `Requested by: ${bundle.submittedBy}`,
+    '',
+    ...sections,
+  ].join('\n');
+}
+
+/**
+ * Ask the model for a split
+ */
+async function reviewEvidence(bundle: EvidenceBundle): Promise<ReviewOutput> {
+  if (!process.env.OPENROUTER_API_KEY) {
+    throw new Error('OPENROUTER_API_KEY not configured');
+  }
+
+  const completion = await openai.chat.completions.create({
+    model: REVIEW_MODEL,
+    messages: [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: describeEvidence(bundle) },
+    ],
+    response_format: { type: 'json_object' },
+    temperature: 0,
+  });
+
+  const content = completion.choices[0]?.message?.content;
+  if (!content) throw new Error('Dispute review returned no verdict');
+
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch {
+    throw new Error('Dispute review returned invalid JSON');
+  }
+
+  const parsed = ReviewOutputSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error(`Dispute review returned an invalid verdict: ${z.prettifyError(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Review a dispute, or return its existing review - each dispute gets one
+ */
+export async function runDisputePreReview(context: DisputeContext, requestedBy: string): Promise<DisputeReview> {
+  const subjectKey = disputeSubjectKey(context.subject);
+  const existing = await getDisputeReview(subjectKey);
+  if (existing) return existing;
+
+  const bundle = await buildEvidenceBundle(context, { submittedBy: requestedBy });
+  const evidenceUri = await pinEvidenceBundle(bundle);
+  const output = await reviewEvidence(bundle);
+
+  const review = await createDisputeReview({
+    subject_key: subjectKey,
+    subject: context.subject,
+    contract_address: context.contractAddress,
+    client_address: context.parties.client,
+    worker_address: context.parties.worker,
+    requested_by: requestedBy,
+    evidence_uri: evidenceUri,
+    evidence_root_hash: bundle.manifest.rootHash,
+    model: REVIEW_MODEL,
+    verdict: toVerdict(output.clientBps),
+    client_bps: output.clientBps,
+    confidence: output.confidence,
+    summary: output.summary,
+    reasoning: output.reasoning,
+    findings: output.findings,
+    review_uri: null,
+  });
+
+  // The other party asked at the same time and their review was saved first
+  if (!review) return (await getDisputeReview(subjectKey)) as DisputeReview;
+
+  // The review stands without the pinned record, it just isn't on IPFS yet
+  try {
+    const reviewUri = await uploadJSON(
+      {
+        type: 'quickgig-dispute-review',
+        reviewId: review.id,
+        subject: review.subject,
+        model: review.model,
+        verdict: review.verdict,
+        clientBps: review.client_bps,
+        confidence: review.confidence,
+        summary: review.summary,
+        reasoning: review.reasoning,
+        findings: review.findings,
+        evidence: { uri: review.evidence_uri, rootHash: review.evidence_root_hash },
+        createdAt: review.created_at,
+      },
+      `dispute_review_${subjectKey.replace(/:/g, '_')}`
+    );
+    await setDisputeReviewUri(review.id, reviewUri);
+    return { ...review, review_uri: reviewUri };
+  } catch (error) {
+    console.error(`[Dispute Review] Failed to pin review ${review.id}:`, error);
+    return review;
+  }
+}
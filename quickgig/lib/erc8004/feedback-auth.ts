@@ -0,0 +1,161 @@
+/**
+ * ERC-8004 Feedback Authorization
+ * Builds and signs the feedbackAuth a client passes to ReputationRegistry.giveFeedback.
+ * The registry only accepts it from the agent NFT's owner or an address the owner approved,
+ * so it's signed by the agent's own CDP wallet when that qualifies, otherwise by the platform
+ * delegate key (FEEDBACK_AUTH_SIGNER_PRIVATE_KEY, falling back to the deployer that mints
+ * registrations) if the owner approved it.
+ *
+ * feedbackAuth layout:
+ * 1. Struct (224 bytes): agentId, clientAddress, indexLimit, expiry, chainId, identityRegistry, signerAddress
+ * 2. Signature (65 bytes): EIP-191 signature over keccak256 of the struct
+ */
+
+import {
+  encodeAbiParameters,
+  hashMessage,
+  keccak256,
+  parseAbiParameters,
+  type Address,
+  type Hex,
+  type PublicClient,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { getCdpWalletManager } from '../cdp';
+import { getAgentWallet, type AgentProfile } from '../supabase/agents';
+import type { FeedbackSignerType } from '../supabase/feedback-authorizations';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FeedbackAuthParams {
+  agentId: bigint; // ERC-8004 token ID
+  clientAddress: Address;
+  indexLimit: number; // Feedback accepted up to this index
+  expiry: number; // Unix seconds
+  chainId: number;
+  identityRegistry: Address;
+}
+
+export interface FeedbackSigner {
+  address: Address;
+  type: FeedbackSignerType;
+  signHash: (hash: Hex) => Promise<Hex>;
+}
+
+const APPROVAL_ABI = [
+  {
+    type: 'function',
+    name: 'getApproved',
+    inputs: [{ name: 'tokenId', type: 'uint256' }],
+    outputs: [{ name: '', type: 'address' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'isApprovedForAll',
+    inputs: [
+      { name: 'owner', type: 'address' },
+      { name: 'operator', type: 'address' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'view',
+  },
+] as const;
+
+// ============================================================================
+// SIGNERS
+// ============================================================================
+
+/**
+ * Check whether an address owns the token or was approved by its owner
+ */
+async function canSignFor(
+  publicClient: PublicClient,
+  params: { registry: Address; tokenId: bigint; owner: Address },
+  address: Address
+): Promise<boolean> {
+  if (address.toLowerCase() === params.owner.toLowerCase()) return true;
+
+  const [approved, approvedForAll] = await Promise.all([
+    publicClient.readContract({
+      address: params.registry,
+      abi: APPROVAL_ABI,
+      functionName: 'getApproved',
+      args: [params.tokenId],
+    }),
+    publicClient.readContract({
+      address: params.registry,
+      abi: APPROVAL_ABI,
+      functionName: 'isApprovedForAll',
+      args: [params.owner, address],
+    }),
+  ]);
+
+  return approvedForAll || approved.toLowerCase() === address.toLowerCase();
+}
+
+/**
+ * Pick who signs an agent's feedbackAuth: its CDP wallet, else the platform delegate
+ * Returns null if neither owns the token nor is approved by its owner
+ */
+export async function resolveFeedbackSigner(
+  publicClient: PublicClient,
+  agent: AgentProfile,
+  token: { registry: Address; tokenId: bigint; owner: Address }
+): Promise<FeedbackSigner | null> {
+  const wallet = await getAgentWallet(agent.id);
+  if (wallet && (await canSignFor(publicClient, token, wallet.cdp_address))) {
+    return {
+      address: wallet.cdp_address,
+      type: 'agent_wallet',
+      signHash: async (hash) => {
+        const walletProvider = await getCdpWalletManager().getWalletProvider(wallet.cdp_address);
+        return walletProvider.sign(hash);
+      },
+    };
+  }
+
+  const delegateKey = process.env.FEEDBACK_AUTH_SIGNER_PRIVATE_KEY || process.env.PRIVATE_KEY;
+  if (delegateKey) {
+    const account = privateKeyToAccount(delegateKey as Hex);
+    if (await canSignFor(publicClient, token, account.address)) {
+      return {
+        address: account.address,
+        type: 'delegate',
+        signHash: (hash) => account.sign({ hash }),
+      };
+    }
+  }
+
+  return null;
+}
+
+// ============================================================================
+// FEEDBACK AUTH
+// ============================================================================
+
+/**
+ * Encode and sign a feedbackAuth (struct + signature)
+ */
+export async function signFeedbackAuth(params: FeedbackAuthParams, signer: FeedbackSigner): Promise<Hex> {
+  const encodedStruct = encodeAbiParameters(
+    parseAbiParameters('uint256, address, uint64, uint256, uint256, address, address'),
+    [
+      params.agentId,
+      params.clientAddress,
+      BigInt(params.indexLimit),
+      BigInt(params.expiry),
+      BigInt(params.chainId),
+      params.identityRegistry,
+      signer.address,
+    ]
+  );
+
+  // Contract does: keccak256(abi.encode(...)).toEthSignedMessageHash().recover(signature)
+  const digest = hashMessage({ raw: keccak256(encodedStruct) });
+  const signature = await signer.signHash(digest);
+
+  return `${encodedStruct}${signature.slice(2)}` as Hex;
+}
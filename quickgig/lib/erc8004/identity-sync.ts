@@ -0,0 +1,105 @@
+/**
+ * ERC-8004 Identity Reconciliation
+ * Checks every agent profile's identity link against the registry (ownerOf / tokenURI)
+ * and repairs it: refreshes the recorded owner and token URI, and drops links to
+ * tokens that don't exist (never minted, burned, or linked on the wrong registry).
+ */
+
+import type { Address, PublicClient } from 'viem';
+import { getAgentIdentity } from './unified-discovery';
+import { getServerPublicClient } from './server-client';
+import {
+  getLinkedAgents,
+  unlinkAgentErc8004,
+  updateAgentErc8004State,
+} from '../supabase/agents';
+
+export interface IdentityReconcileResult {
+  checked: number;
+  updated: number; // Owner or token URI differed from the profile
+  unlinked: number; // Token doesn't exist, link dropped
+  failed: number; // Registry couldn't be read, left as is
+}
+
+const DEFAULT_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * Reconcile every linked agent once
+ * A failing read is logged and doesn't stop the others
+ */
+export async function reconcileAgentIdentities(
+  publicClient: PublicClient = getServerPublicClient()
+): Promise<IdentityReconcileResult> {
+  const result: IdentityReconcileResult = { checked: 0, updated: 0, unlinked: 0, failed: 0 };
+
+  for (const agent of await getLinkedAgents()) {
+    const tokenId = agent.erc8004_token_id as string;
+    const registry = agent.erc8004_registry as Address;
+    result.checked++;
+
+    try {
+      const identity = await getAgentIdentity(publicClient, tokenId, registry);
+
+      if (!identity) {
+        const reason = `Token ${tokenId} does not exist on ${registry}`;
+        console.warn(`[Identity Sync] ${agent.id}: ${reason}, unlinking`);
+        await unlinkAgentErc8004(agent.id, reason);
+        result.unlinked++;
+        continue;
+      }
+
+      const ownerChanged = agent.erc8004_owner !== identity.owner.toLowerCase();
+      const uriChanged = agent.erc8004_token_uri !== identity.tokenUri;
+
+      if (ownerChanged || uriChanged) {
+        console.log(`[Identity Sync] ${agent.id}: token ${tokenId} now owned by ${identity.owner} (${identity.tokenUri})`);
+        result.updated++;
+      }
+
+      await updateAgentErc8004State(agent.id, identity);
+    } catch (error) {
+      console.error(`[Identity Sync] ${agent.id} check failed:`, error instanceof Error ? error.message : error);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Reconcile on an interval until stopped (ERC8004_RECONCILE_INTERVAL_MS)
+ */
+export function startIdentityReconciler(
+  intervalMs = Number(process.env.ERC8004_RECONCILE_INTERVAL_MS) || DEFAULT_INTERVAL_MS
+): { stop: () => Promise<void> } {
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running: Promise<void> = Promise.resolve();
+
+  const run = () => {
+    running = reconcileAgentIdentities()
+      .then((result) => {
+        if (result.updated || result.unlinked || result.failed) {
+          console.log('[Identity Sync] Reconciled:', result);
+        }
+      })
+      .catch((error) => {
+        console.error('[Identity Sync] Reconciliation failed:', error instanceof Error ? error.message : error);
+      })
+      .finally(() => {
+        if (!stopped) timer = setTimeout(run, intervalMs);
+      });
+  };
+
+  console.log(`[Identity Sync] Started, every ${Math.round(intervalMs / 1000)}s`);
+  run();
+
+  return {
+    stop: async () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      await running;
+      console.log('[Identity Sync] Stopped');
+    },
+  };
+}
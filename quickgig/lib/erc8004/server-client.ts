@@ -8,6 +8,23 @@ import { privateKeyToAccount } from 'viem/accounts';
 import { baseSepolia } from 'viem/chains';
 import { OfficialERC8004Client } from './official-client';
 
+/**
+ * Get server-side public client for the ERC-8004 registries (read-only)
+ */
+export function getServerPublicClient(): PublicClient {
+  const rpcUrl = process.env.NEXT_PUBLIC_ALCHEMY_RPC_URL;
+
+  if (!rpcUrl) {
+    throw new Error('NEXT_PUBLIC_ALCHEMY_RPC_URL not configured in environment');
+  }
+
+  // Type assertion needed due to viem internal type differences
+  return createPublicClient({
+    chain: baseSepolia,
+    transport: http(rpcUrl),
+  }) as PublicClient;
+}
+
 /**
  * Get server-side ERC-8004 client (uses deployer wallet for gas)
  */
@@ -25,10 +42,7 @@ export function getServerERC8004Client(): OfficialERC8004Client {
 
   const account = privateKeyToAccount(privateKey);
 
-  const publicClient = createPublicClient({
-    chain: baseSepolia,
-    transport: http(rpcUrl),
-  });
+  const publicClient = getServerPublicClient();
 
   const walletClient = createWalletClient({
     account,
@@ -37,7 +51,7 @@ export function getServerERC8004Client(): OfficialERC8004Client {
   });
 
   // Type assertion needed due to viem internal type differences
-  return new OfficialERC8004Client(publicClient as PublicClient, walletClient as WalletClient);
+  return new OfficialERC8004Client(publicClient, walletClient as WalletClient);
 }
 
 /**
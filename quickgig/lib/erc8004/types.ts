@@ -4,29 +4,6 @@
 
 import type { Address } from 'viem';
 
-/**
- * Agent capabilities (common skills)
- */
-export const COMMON_CAPABILITIES = [
-  'logo-design',
-  'copywriting',
-  'web-development',
-  'smart-contracts',
-  'data-analysis',
-  'content-writing',
-  'video-editing',
-  'social-media',
-  'seo-optimization',
-  'translation',
-  'graphic-design',
-  'ui-ux-design',
-  '3d-modeling',
-  'animation',
-  'consulting',
-] as const;
-
-export type CommonCapability = (typeof COMMON_CAPABILITIES)[number];
-
 /**
  * Agent Card JSON structure (stored on IPFS)
  */
@@ -3,7 +3,7 @@
  * Combines official ERC-8004 registry data with local capabilities
  */
 
-import { type Address, type PublicClient } from 'viem';
+import { BaseError, ContractFunctionRevertedError, type Address, type PublicClient } from 'viem';
 import { ERC8004_OFFICIAL, type ReputationSummary } from './official-client';
 import { getAgentEndpoint } from '../config/endpoints';
 
@@ -95,6 +95,99 @@ export interface EnhancedAgentData {
   registeredAt?: string;
 }
 
+/**
+ * Identity NFT state read from the registry
+ */
+export interface AgentIdentity {
+  owner: Address;
+  tokenUri: string;
+}
+
+/**
+ * ReputationRegistry.getSummary over all clients and tags
+ */
+export interface AgentReputationSummary {
+  count: number;
+  averageScore: number; // 0-100
+}
+
+/**
+ * Agent profile fields that link it to its ERC-8004 identity
+ */
+export interface AgentIdentityLink {
+  erc8004_token_id?: string | null;
+  erc8004_registry?: string | null;
+}
+
+/**
+ * ERC-8004 token ID of an agent profile, if it's linked to the official identity registry
+ * (reputation is only kept for tokens of that registry)
+ */
+export function getLinkedTokenId(profile: AgentIdentityLink | null | undefined): string | null {
+  if (!profile?.erc8004_token_id || !profile.erc8004_registry) return null;
+  if (profile.erc8004_registry.toLowerCase() !== ERC8004_OFFICIAL.IDENTITY_REGISTRY.toLowerCase()) return null;
+  return profile.erc8004_token_id;
+}
+
+/**
+ * Read ownerOf and tokenURI for an identity NFT
+ * Returns null if the token doesn't exist, throws if the registry can't be read
+ */
+export async function getAgentIdentity(
+  publicClient: PublicClient,
+  agentId: string | bigint,
+  registry: Address = ERC8004_OFFICIAL.IDENTITY_REGISTRY
+): Promise<AgentIdentity | null> {
+  const tokenId = typeof agentId === 'string' ? BigInt(agentId) : agentId;
+
+  try {
+    const [owner, tokenUri] = await Promise.all([
+      publicClient.readContract({
+        address: registry,
+        abi: IDENTITY_REGISTRY_ABI,
+        functionName: 'ownerOf',
+        args: [tokenId],
+      }),
+      publicClient.readContract({
+        address: registry,
+        abi: IDENTITY_REGISTRY_ABI,
+        functionName: 'tokenURI',
+        args: [tokenId],
+      }),
+    ]);
+
+    return { owner, tokenUri };
+  } catch (error) {
+    // ownerOf reverts for tokens that were never minted or were burned
+    if (error instanceof BaseError && error.walk((cause) => cause instanceof ContractFunctionRevertedError)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read an agent's feedback count and average score from the reputation registry
+ */
+export async function getAgentReputationSummary(
+  publicClient: PublicClient,
+  agentId: string | bigint
+): Promise<AgentReputationSummary> {
+  const [count, averageScore] = await publicClient.readContract({
+    address: ERC8004_OFFICIAL.REPUTATION_REGISTRY,
+    abi: REPUTATION_REGISTRY_ABI,
+    functionName: 'getSummary',
+    args: [
+      typeof agentId === 'string' ? BigInt(agentId) : agentId,
+      [],
+      ('0x' + '0'.repeat(64)) as `0x${string}`,
+      ('0x' + '0'.repeat(64)) as `0x${string}`,
+    ],
+  });
+
+  return { count: Number(count), averageScore };
+}
+
 /**
  * Get agent data by ERC-8004 ID
  */
@@ -105,34 +198,13 @@ export async function getAgentById(
   try {
     const agentIdBigInt = typeof agentId === 'string' ? BigInt(agentId) : agentId;
 
-    // Get owner from Identity Registry
-    const owner = await publicClient.readContract({
-      address: ERC8004_OFFICIAL.IDENTITY_REGISTRY,
-      abi: IDENTITY_REGISTRY_ABI,
-      functionName: 'ownerOf',
-      args: [agentIdBigInt],
-    });
-
-    // Get tokenURI
-    const tokenUri = await publicClient.readContract({
-      address: ERC8004_OFFICIAL.IDENTITY_REGISTRY,
-      abi: IDENTITY_REGISTRY_ABI,
-      functionName: 'tokenURI',
-      args: [agentIdBigInt],
-    });
+    // Get owner and tokenURI from Identity Registry
+    const identity = await getAgentIdentity(publicClient, agentIdBigInt);
+    if (!identity) return null;
+    const { owner, tokenUri } = identity;
 
     // Get reputation summary
-    const [count, averageScore] = await publicClient.readContract({
-      address: ERC8004_OFFICIAL.REPUTATION_REGISTRY,
-      abi: REPUTATION_REGISTRY_ABI,
-      functionName: 'getSummary',
-      args: [
-        agentIdBigInt,
-        [],
-        ('0x' + '0'.repeat(64)) as `0x${string}`,
-        ('0x' + '0'.repeat(64)) as `0x${string}`,
-      ],
-    });
+    const { count, averageScore } = await getAgentReputationSummary(publicClient, agentIdBigInt);
 
     const clients = await publicClient.readContract({
       address: ERC8004_OFFICIAL.REPUTATION_REGISTRY,
@@ -173,7 +245,7 @@ export async function getAgentById(
       endpoint,
       pricing: metadata.pricing as { perTask?: number; perMessage?: number; currency?: string } | undefined,
       reputation: {
-        count: Number(count),
+        count,
         averageScore,
         rating,
         tier,
@@ -189,18 +261,16 @@ export async function getAgentById(
 }
 
 /**
- * Get all registered agents (requires event indexing or subgraph)
- * For now, returns hardcoded list of known agents
+ * Get registered agents by ERC-8004 ID
+ * The registry can't be enumerated, so callers pass the token IDs linked on agent profiles
  */
 export async function getAllAgents(
-  publicClient: PublicClient
+  publicClient: PublicClient,
+  agentIds: string[]
 ): Promise<EnhancedAgentData[]> {
-  // Known agent IDs (from migration)
-  const knownAgentIds = ['2', '3', '4']; // LogoMaster, CopyWriter, SocialMedia
-
   const agents: EnhancedAgentData[] = [];
 
-  for (const agentId of knownAgentIds) {
+  for (const agentId of agentIds) {
     const agent = await getAgentById(publicClient, agentId);
     if (agent) {
       agents.push(agent);
@@ -215,9 +285,10 @@ export async function getAllAgents(
  */
 export async function searchAgentsByCapability(
   publicClient: PublicClient,
+  agentIds: string[],
   capability: string
 ): Promise<EnhancedAgentData[]> {
-  const allAgents = await getAllAgents(publicClient);
+  const allAgents = await getAllAgents(publicClient, agentIds);
 
   return allAgents.filter(agent =>
     agent.capabilities.some(cap =>
@@ -231,9 +302,10 @@ export async function searchAgentsByCapability(
  */
 export async function getTopAgentsByReputation(
   publicClient: PublicClient,
+  agentIds: string[],
   limit: number = 10
 ): Promise<EnhancedAgentData[]> {
-  const allAgents = await getAllAgents(publicClient);
+  const allAgents = await getAllAgents(publicClient, agentIds);
 
   return allAgents
     .filter(agent => agent.reputation.count > 0) // Only agents with feedback
@@ -0,0 +1,75 @@
+/**
+ * Indexed Contracts
+ * Which contracts the chain indexer mirrors, where their backfill starts and which
+ * event argument identifies the bounty, gig, mission or arbitration case an event belongs to
+ */
+
+import type { Abi, Address } from 'viem';
+import BountyEscrowABI from '../contracts/abis/BountyEscrow.json';
+import GigEscrowABI from '../contracts/abis/GigEscrow.json';
+import MissionEscrowABI from '../contracts/abis/MissionEscrow.json';
+import SimpleArbitratorABI from '../contracts/abis/SimpleArbitrator.json';
+import type { IndexedContractName } from '../supabase/chain-index';
+
+export interface IndexedContract {
+  name: IndexedContractName;
+  address: Address;
+  abi: Abi;
+  entityArg: 'bountyId' | 'gigId' | 'missionId' | 'caseId'; // Events without it (admin config changes) are skipped
+  startBlock: number;
+}
+
+type AbiJson = { abi?: unknown[] } | unknown[];
+
+function toAbi(json: AbiJson): Abi {
+  return ((json as { abi?: unknown[] }).abi || json) as Abi;
+}
+
+/**
+ * Block to backfill a contract from
+ * INDEXER_START_BLOCK_<CONTRACT> (e.g. INDEXER_START_BLOCK_BOUNTY_ESCROW), then INDEXER_START_BLOCK
+ */
+function getStartBlock(name: IndexedContractName): number {
+  const value = process.env[`INDEXER_START_BLOCK_${name.toUpperCase()}`] || process.env.INDEXER_START_BLOCK;
+  return value ? Number(value) : 0;
+}
+
+/**
+ * Contracts with a configured address
+ */
+export function getIndexedContracts(): IndexedContract[] {
+  const contracts: Array<Omit<IndexedContract, 'startBlock' | 'address'> & { address?: string }> = [
+    {
+      name: 'bounty_escrow',
+      address: process.env.NEXT_PUBLIC_BOUNTY_ESCROW_ADDRESS,
+      abi: toAbi(BountyEscrowABI as AbiJson),
+      entityArg: 'bountyId',
+    },
+    {
+      name: 'gig_escrow',
+      address: process.env.NEXT_PUBLIC_GIG_ESCROW_ADDRESS,
+      abi: toAbi(GigEscrowABI as AbiJson),
+      entityArg: 'gigId',
+    },
+    {
+      name: 'mission_escrow',
+      address: process.env.NEXT_PUBLIC_MISSION_ESCROW_ADDRESS,
+      abi: toAbi(MissionEscrowABI as AbiJson),
+      entityArg: 'missionId',
+    },
+    {
+      name: 'simple_arbitrator',
+      address: process.env.NEXT_PUBLIC_SIMPLE_ARBITRATOR_ADDRESS,
+      abi: toAbi(SimpleArbitratorABI as AbiJson),
+      entityArg: 'caseId',
+    },
+  ];
+
+  return contracts
+    .filter((contract) => !!contract.address && !/^0x0+$/.test(contract.address))
+    .map((contract) => ({
+      ...contract,
+      address: contract.address as Address,
+      startBlock: getStartBlock(contract.name),
+    }));
+}
@@ -0,0 +1,424 @@
+/**
+ * Chain Event Indexer
+ * Backfills and follows BountyEscrow, GigEscrow, MissionEscrow and SimpleArbitrator events
+ * into Supabase (arbitration cases are keyed by their bytes32 ID, so they have their own tables).
+ * Each contract has a cursor; every batch replaces the events of its block range and moves
+ * the cursor in one transaction, then rebuilds the projections of the entities it touched.
+ * Only blocks `confirmations` deep are indexed, and if the block under the cursor changes
+ * hash (a reorg) the last `reorgDepth` blocks are dropped and indexed again.
+ */
+
+import type { Hash, PublicClient } from 'viem';
+import { getDefaultChainId, getX402PublicClient } from '../x402/chains';
+import { getIndexedContracts, type IndexedContract } from './contracts';
+import { projectArbitrationCase, projectBounty, projectGig, projectMission } from './projections';
+import {
+  clearDirtyEntity,
+  createIndexerCursor,
+  getDirtyEntities,
+  getEntityEvents,
+  getIndexerCursor,
+  replaceChainEvents,
+  setIndexerError,
+  saveBountyProjection,
+  saveGigProjection,
+  saveMissionProjection,
+  type ChainEvent,
+  type ChainEventArgs,
+} from '../supabase/chain-index';
+import {
+  clearDirtyCase,
+  getCaseEvents,
+  getDirtyCases,
+  replaceArbitrationEvents,
+  saveCaseProjection,
+  type ArbitrationEvent,
+} from '../supabase/arbitration';
+
+export interface ChainIndexerOptions {
+  chainId?: number;
+  rpcUrl?: string; // Defaults to the chain's X402 RPC URL
+  confirmations?: number; // Blocks behind head to stay (INDEXER_CONFIRMATIONS)
+  blockRange?: number; // Blocks per getLogs call, halved while the RPC refuses it (INDEXER_BLOCK_RANGE)
+  reorgDepth?: number; // Blocks re-indexed after a reorg is detected (INDEXER_REORG_DEPTH)
+  maxBatches?: number; // Batches per contract per sync, so one backfill can't starve the others
+  pollIntervalMs?: number; // Wait between syncs (INDEXER_POLL_INTERVAL_MS)
+}
+
+export interface ContractSyncResult {
+  contract: IndexedContract['name'];
+  fromBlock: number;
+  toBlock: number; // Cursor after the sync
+  events: number;
+  reorged: boolean;
+  caughtUp: boolean; // False while backfilling - more confirmed blocks are waiting
+}
+
+interface DecodedLog {
+  eventName?: string;
+  args?: Record<string, unknown>;
+  blockNumber: bigint | null;
+  blockHash: Hash | null;
+  transactionHash: Hash | null;
+  logIndex: number | null;
+}
+
+type IndexedEvent = ChainEvent | ArbitrationEvent;
+
+const DEFAULT_CONFIRMATIONS = 5;
+const DEFAULT_BLOCK_RANGE = 2000;
+const DEFAULT_REORG_DEPTH = 64;
+const DEFAULT_MAX_BATCHES = 20;
+const DEFAULT_POLL_INTERVAL_MS = 15 * 1000;
+
+function resolveOptions(options: ChainIndexerOptions): Required<Omit<ChainIndexerOptions, 'rpcUrl'>> & { rpcUrl?: string } {
+  return {
+    chainId: options.chainId || getDefaultChainId(),
+    rpcUrl: options.rpcUrl || process.env.INDEXER_RPC_URL || undefined,
+    confirmations: options.confirmations ?? (Number(process.env.INDEXER_CONFIRMATIONS) || DEFAULT_CONFIRMATIONS),
+    blockRange: options.blockRange || Number(process.env.INDEXER_BLOCK_RANGE) || DEFAULT_BLOCK_RANGE,
+    reorgDepth: options.reorgDepth || Number(process.env.INDEXER_REORG_DEPTH) || DEFAULT_REORG_DEPTH,
+    maxBatches: options.maxBatches || DEFAULT_MAX_BATCHES,
+    pollIntervalMs: options.pollIntervalMs || Number(process.env.INDEXER_POLL_INTERVAL_MS) || DEFAULT_POLL_INTERVAL_MS,
+  };
+}
+
+/**
+ * JSON-safe event args (uint256 as decimal strings)
+ */
+function serializeArgs(args: Record<string, unknown>): ChainEventArgs {
+  return JSON.parse(JSON.stringify(args, (_, value) => (typeof value === 'bigint' ? value.toString() : value)));
+}
+
+// ============================================================================
+// FETCHING
+// ============================================================================
+
+/**
+ * Fetch a contract's logs for [fromBlock, toBlock], shrinking the range while the RPC rejects it
+ * Never skips blocks - throws if even a single block can't be fetched
+ */
+async function fetchLogs(
+  client: PublicClient,
+  contract: IndexedContract,
+  fromBlock: number,
+  toBlock: number
+): Promise<{ logs: DecodedLog[]; toBlock: number }> {
+  let range = toBlock - fromBlock + 1;
+
+  for (;;) {
+    const end = fromBlock + range - 1;
+    try {
+      const logs = await client.getContractEvents({
+        address: contract.address,
+        abi: contract.abi,
+        fromBlock: BigInt(fromBlock),
+        toBlock: BigInt(end),
+      });
+      return { logs: logs as unknown as DecodedLog[], toBlock: end };
+    } catch (error) {
+      if (range === 1) throw error;
+      range = Math.ceil(range / 2);
+      console.warn(`[Chain Indexer] ${contract.name} getLogs failed for ${fromBlock}-${end}, retrying with ${range} blocks`);
+    }
+  }
+}
+
+/**
+ * Milestones and arbitration mode of a gig, which GigCreated doesn't include
+ * Read at the creation block, falling back to the latest state (both are immutable)
+ */
+async function readGigDetails(client: PublicClient, contract: IndexedContract, gigId: bigint, blockNumber: bigint) {
+  const read = (atBlock?: bigint) => client.readContract({
+    address: contract.address,
+    abi: contract.abi,
+    functionName: 'getGig',
+    args: [gigId],
+    blockNumber: atBlock,
+  }) as Promise<{ milestones: Array<{ description: string; amount: bigint }>; useUMAArbitration: boolean }>;
+
+  const gig = await read(blockNumber).catch(() => read());
+
+  return {
+    milestones: gig.milestones.map((m) => ({ description: m.description, amount: m.amount.toString() })),
+    useUMAArbitration: gig.useUMAArbitration,
+  };
+}
+
+/**
+ * Escrow and reason of an arbitration case, which DisputeCreated doesn't include
+ * Read at the creation block, falling back to the latest state (both are immutable)
+ */
+async function readDisputeDetails(client: PublicClient, contract: IndexedContract, caseId: Hash, blockNumber: bigint) {
+  const read = (atBlock?: bigint) => client.readContract({
+    address: contract.address,
+    abi: contract.abi,
+    functionName: 'getDispute',
+    args: [caseId],
+    blockNumber: atBlock,
+  }) as Promise<readonly [bigint, string, string, string, bigint, string, ...unknown[]]>;
+
+  const [, escrowContract, , , , reason] = await read(blockNumber).catch(() => read());
+
+  return { escrowContract, reason };
+}
+
+/**
+ * Turn decoded logs into chain_events rows (arbitration_events rows for the arbitrator)
+ */
+async function toChainEvents(
+  client: PublicClient,
+  chainId: number,
+  contract: IndexedContract,
+  logs: DecodedLog[]
+): Promise<IndexedEvent[]> {
+  const relevant = logs.filter((log) => log.eventName && log.args?.[contract.entityArg] !== undefined && log.blockNumber !== null);
+
+  const timestamps = new Map<bigint, string>();
+  for (const blockNumber of new Set(relevant.map((log) => log.blockNumber!))) {
+    const block = await client.getBlock({ blockNumber });
+    timestamps.set(blockNumber, new Date(Number(block.timestamp) * 1000).toISOString());
+  }
+
+  const events: IndexedEvent[] = [];
+  for (const log of relevant) {
+    let args = serializeArgs(log.args!);
+
+    if (contract.name === 'gig_escrow' && log.eventName === 'GigCreated') {
+      args = { ...args, ...(await readGigDetails(client, contract, log.args!.gigId as bigint, log.blockNumber!)) };
+    }
+    if (contract.name === 'simple_arbitrator' && log.eventName === 'DisputeCreated') {
+      args = { ...args, ...(await readDisputeDetails(client, contract, log.args!.caseId as Hash, log.blockNumber!)) };
+    }
+
+    const key = contract.name === 'simple_arbitrator'
+      ? { case_id: String(log.args![contract.entityArg]).toLowerCase() }
+      : { contract: contract.name, entity_id: Number(log.args![contract.entityArg]) };
+
+    events.push({
+      chain_id: chainId,
+      ...key,
+      event_name: log.eventName!,
+      args,
+      block_number: Number(log.blockNumber),
+      block_hash: log.blockHash!,
+      block_timestamp: timestamps.get(log.blockNumber!)!,
+      tx_hash: log.transactionHash!,
+      log_index: log.logIndex!,
+    });
+  }
+
+  return events;
+}
+
+// ============================================================================
+// PROJECTIONS
+// ============================================================================
+
+/**
+ * Replace a contract's events in a block range and move its cursor
+ */
+async function replaceEvents(
+  contract: IndexedContract,
+  params: { fromBlock: number; toBlock: number | null; events: IndexedEvent[]; cursorBlock: number; cursorHash: string | null }
+): Promise<number> {
+  if (contract.name === 'simple_arbitrator') {
+    return replaceArbitrationEvents({ contractAddress: contract.address, ...params, events: params.events as ArbitrationEvent[] });
+  }
+
+  return replaceChainEvents({ contractAddress: contract.address, ...params, events: params.events as ChainEvent[] });
+}
+
+/**
+ * Rebuild the projection of every arbitration case whose events changed
+ */
+async function rebuildDirtyCases(contract: IndexedContract): Promise<number> {
+  let rebuilt = 0;
+
+  for (;;) {
+    const caseIds = await getDirtyCases(contract.address);
+    if (caseIds.length === 0) return rebuilt;
+
+    for (const caseId of caseIds) {
+      const events = await getCaseEvents(contract.address, caseId);
+      await saveCaseProjection(
+        { contractAddress: contract.address, caseId },
+        projectArbitrationCase(contract.address, caseId, events)
+      );
+
+      await clearDirtyCase(contract.address, caseId);
+      rebuilt++;
+    }
+  }
+}
+
+/**
+ * Rebuild the projection of every entity whose events changed
+ */
+async function rebuildDirtyEntities(contract: IndexedContract): Promise<number> {
+  if (contract.name === 'simple_arbitrator') return rebuildDirtyCases(contract);
+
+  let rebuilt = 0;
+
+  for (;;) {
+    const entityIds = await getDirtyEntities(contract.address);
+    if (entityIds.length === 0) return rebuilt;
+
+    for (const entityId of entityIds) {
+      const events = await getEntityEvents(contract.address, entityId);
+
+      switch (contract.name) {
+        case 'bounty_escrow':
+          await saveBountyProjection(
+            { contractAddress: contract.address, bountyId: entityId },
+            projectBounty(contract.address, entityId, events)
+          );
+          break;
+        case 'gig_escrow':
+          await saveGigProjection(
+            { contractAddress: contract.address, gigId: entityId },
+            projectGig(contract.address, entityId, events)
+          );
+          break;
+        case 'mission_escrow':
+          await saveMissionProjection(
+            { contractAddress: contract.address, missionId: entityId },
+            projectMission(contract.address, entityId, events)
+          );
+          break;
+      }
+
+      await clearDirtyEntity(contract.address, entityId);
+      rebuilt++;
+    }
+  }
+}
+
+// ============================================================================
+// SYNC
+// ============================================================================
+
+/**
+ * Index one contract up to the confirmed head (or maxBatches batches)
+ */
+export async function syncContract(contract: IndexedContract, options: ChainIndexerOptions = {}): Promise<ContractSyncResult> {
+  const config = resolveOptions(options);
+  const client = getX402PublicClient(config.chainId, config.rpcUrl);
+
+  const cursor = await getIndexerCursor(contract.address) || await createIndexerCursor({
+    contractAddress: contract.address,
+    contract: contract.name,
+    chainId: config.chainId,
+    startBlock: contract.startBlock,
+  });
+
+  // Finish rebuilds a previous run was interrupted in
+  await rebuildDirtyEntities(contract);
+
+  let lastBlock = Number(cursor.last_block);
+  let reorged = false;
+
+  if (cursor.last_block_hash && lastBlock >= cursor.start_block) {
+    const block = await client.getBlock({ blockNumber: BigInt(lastBlock) });
+
+    if (block.hash !== cursor.last_block_hash) {
+      const forkBlock = Math.max(cursor.start_block - 1, lastBlock - config.reorgDepth);
+      const forkHash = forkBlock >= cursor.start_block
+        ? (await client.getBlock({ blockNumber: BigInt(forkBlock) })).hash
+        : null;
+
+      console.warn(`[Chain Indexer] Reorg detected on ${contract.name} at block ${lastBlock}, re-indexing from ${forkBlock + 1}`);
+
+      await replaceEvents(contract, {
+        fromBlock: forkBlock + 1,
+        toBlock: null,
+        events: [],
+        cursorBlock: forkBlock,
+        cursorHash: forkHash,
+      });
+      await rebuildDirtyEntities(contract);
+
+      lastBlock = forkBlock;
+      reorged = true;
+    }
+  }
+
+  const fromBlock = lastBlock + 1;
+  const head = Number(await client.getBlockNumber()) - config.confirmations;
+  let events = 0;
+
+  for (let batch = 0; batch < config.maxBatches && lastBlock < head; batch++) {
+    const start = lastBlock + 1;
+    const fetched = await fetchLogs(client, contract, start, Math.min(head, start + config.blockRange - 1));
+    const rows = await toChainEvents(client, config.chainId, contract, fetched.logs);
+    const endBlock = await client.getBlock({ blockNumber: BigInt(fetched.toBlock) });
+
+    await replaceEvents(contract, {
+      fromBlock: start,
+      toBlock: fetched.toBlock,
+      events: rows,
+      cursorBlock: fetched.toBlock,
+      cursorHash: endBlock.hash,
+    });
+    await rebuildDirtyEntities(contract);
+
+    lastBlock = fetched.toBlock;
+    events += rows.length;
+  }
+
+  if (events > 0) {
+    console.log(`[Chain Indexer] ${contract.name}: ${events} events in blocks ${fromBlock}-${lastBlock}`);
+  }
+
+  return { contract: contract.name, fromBlock, toBlock: lastBlock, events, reorged, caughtUp: lastBlock >= head };
+}
+
+/**
+ * Sync every configured contract once
+ * A failing contract is recorded on its cursor and doesn't stop the others
+ */
+export async function syncAllContracts(options: ChainIndexerOptions = {}): Promise<ContractSyncResult[]> {
+  const results: ContractSyncResult[] = [];
+
+  for (const contract of getIndexedContracts()) {
+    try {
+      results.push(await syncContract(contract, options));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[Chain Indexer] ${contract.name} sync failed:`, message);
+      await setIndexerError(contract.address, message).catch(() => {});
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Keep syncing until stopped
+ * Syncs again right away while any contract is still backfilling
+ */
+export function startChainIndexer(options: ChainIndexerOptions = {}): { stop: () => Promise<void> } {
+  const config = resolveOptions(options);
+  let stopped = false;
+
+  const loop = (async () => {
+    console.log(`[Chain Indexer] Started on chain ${config.chainId} (${getIndexedContracts().map((c) => c.name).join(', ') || 'no contracts configured'})`);
+
+    while (!stopped) {
+      const results = await syncAllContracts(config);
+
+      if (results.every((result) => result.caughtUp)) {
+        await new Promise((resolve) => setTimeout(resolve, config.pollIntervalMs));
+      }
+    }
+
+    console.log('[Chain Indexer] Stopped');
+  })();
+
+  return {
+    stop: async () => {
+      stopped = true;
+      await loop;
+    },
+  };
+}
@@ -0,0 +1,441 @@
+/**
+ * Escrow Projections
+ * Fold a bounty's, gig's, mission's or arbitration case's events (in chain order) into its
+ * current state, mirroring the status transitions of BountyEscrow.sol, GigEscrow.sol,
+ * MissionEscrow.sol and SimpleArbitrator.sol.
+ * Projections are always rebuilt from the full event history, so applying them is idempotent
+ * and undoing a reorg is just rebuilding from the events that remain.
+ */
+
+import type {
+  ChainBounty,
+  ChainBountyBid,
+  ChainEvent,
+  ChainGig,
+  ChainGigMilestone,
+  ChainMission,
+} from '../supabase/chain-index';
+import type {
+  ArbitrationCase,
+  ArbitrationEvent,
+  ArbitrationEvidence,
+  ArbitrationVote,
+} from '../supabase/arbitration';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function str(value: unknown): string {
+  return String(value ?? '');
+}
+
+function lower(value: unknown): string {
+  return str(value).toLowerCase();
+}
+
+/**
+ * Unix seconds (uint256 as a decimal string) to ISO, null for 0
+ */
+function toTimestamp(value: unknown): string | null {
+  const seconds = Number(value);
+  return seconds > 0 ? new Date(seconds * 1000).toISOString() : null;
+}
+
+function addAmounts(a: string, b: unknown): string {
+  return (BigInt(a) + BigInt(str(b) || '0')).toString();
+}
+
+// ============================================================================
+// BOUNTIES
+// ============================================================================
+
+/**
+ * Current state of a bounty, null if its BountyCreated isn't indexed (yet, or any more)
+ */
+export function projectBounty(
+  contractAddress: string,
+  bountyId: number,
+  events: ChainEvent[]
+): { bounty: ChainBounty; bids: ChainBountyBid[] } | null {
+  let bounty: ChainBounty | null = null;
+  const bids = new Map<number, ChainBountyBid>();
+
+  for (const event of events) {
+    const args = event.args;
+
+    if (event.event_name === 'BountyCreated') {
+      bounty = {
+        contract_address: contractAddress.toLowerCase(),
+        bounty_id: bountyId,
+        client_address: lower(args.client),
+        payment_token: lower(args.paymentToken),
+        escrow_amount: str(args.escrowAmount),
+        deadline: toTimestamp(args.deadline),
+        requirements_uri: str(args.requirementsURI) || null,
+        status: 'open',
+        assigned_worker: null,
+        assigned_bid_amount: null,
+        deliverable_uri: null,
+        submitted_at: null,
+        bid_count: 0,
+        dispute_case_id: null,
+        uma_assertion_id: null,
+        created_block: event.block_number,
+        created_at: event.block_timestamp,
+        updated_block: event.block_number,
+      };
+      continue;
+    }
+
+    if (!bounty) continue;
+    bounty.updated_block = event.block_number;
+
+    switch (event.event_name) {
+      case 'BidSubmitted':
+        bids.set(Number(args.bidIndex), {
+          contract_address: bounty.contract_address,
+          bounty_id: bountyId,
+          bid_index: Number(args.bidIndex),
+          bidder: lower(args.bidder),
+          bid_amount: str(args.bidAmount),
+          proposal_uri: str(args.proposalURI) || null,
+          withdrawn: false,
+          created_at: event.block_timestamp,
+        });
+        break;
+      case 'BidWithdrawn': {
+        const bid = bids.get(Number(args.bidIndex));
+        if (bid) bid.withdrawn = true;
+        break;
+      }
+      case 'WorkerAssigned':
+        bounty.status = 'assigned';
+        bounty.assigned_worker = lower(args.worker);
+        bounty.assigned_bid_amount = str(args.bidAmount);
+        break;
+      case 'DeliverableSubmitted':
+        bounty.status = 'submitted';
+        bounty.deliverable_uri = str(args.deliverableURI) || null;
+        bounty.submitted_at = toTimestamp(args.submittedAt);
+        break;
+      case 'BountyCompleted':
+      case 'DisputeResolved':
+      case 'UMADisputeResolved':
+        bounty.status = 'completed';
+        break;
+      case 'BountyAutoReleased':
+        bounty.status = 'auto_released';
+        break;
+      case 'BountyDisputed':
+        bounty.status = 'disputed';
+        bounty.dispute_case_id = str(args.caseId) || null;
+        break;
+      case 'UMADisputeCreated':
+        bounty.status = 'disputed';
+        bounty.uma_assertion_id = str(args.assertionId) || null;
+        break;
+      case 'BountyCancelled':
+        bounty.status = 'cancelled';
+        break;
+    }
+  }
+
+  if (!bounty) return null;
+
+  const bidList = [...bids.values()];
+  bounty.bid_count = bidList.filter((bid) => !bid.withdrawn).length;
+
+  return { bounty, bids: bidList };
+}
+
+// ============================================================================
+// GIGS
+// ============================================================================
+
+/**
+ * Current state of a gig and its milestones
+ * GigCreated events carry the milestones read from the contract at their block
+ */
+export function projectGig(
+  contractAddress: string,
+  gigId: number,
+  events: ChainEvent[]
+): { gig: ChainGig; milestones: ChainGigMilestone[] } | null {
+  let gig: ChainGig | null = null;
+  let milestones: ChainGigMilestone[] = [];
+
+  for (const [i, event] of events.entries()) {
+    const args = event.args;
+
+    if (event.event_name === 'GigCreated') {
+      const details = (args.milestones as Array<{ description: string; amount: string }> | undefined) || [];
+      const count = Number(args.milestoneCount);
+
+      gig = {
+        contract_address: contractAddress.toLowerCase(),
+        gig_id: gigId,
+        client_address: lower(args.client),
+        worker_address: lower(args.worker),
+        payment_token: lower(args.paymentToken),
+        total_amount: str(args.totalAmount),
+        released_amount: '0',
+        milestone_count: count,
+        completed_milestones: 0,
+        status: 'active',
+        use_uma_arbitration: args.useUMAArbitration === true,
+        created_block: event.block_number,
+        created_at: event.block_timestamp,
+        updated_block: event.block_number,
+      };
+      milestones = Array.from({ length: count }, (_, index) => ({
+        contract_address: contractAddress.toLowerCase(),
+        gig_id: gigId,
+        milestone_index: index,
+        description: details[index]?.description ?? null,
+        amount: details[index]?.amount ?? null,
+        status: 'pending',
+        deliverable_uri: null,
+        submitted_at: null,
+      }));
+      continue;
+    }
+
+    if (!gig) continue;
+    gig.updated_block = event.block_number;
+
+    const milestone = args.milestoneIndex !== undefined ? milestones[Number(args.milestoneIndex)] : undefined;
+
+    switch (event.event_name) {
+      case 'MilestoneSubmitted':
+        if (milestone) {
+          milestone.status = 'submitted';
+          milestone.deliverable_uri = str(args.deliverableURI) || null;
+          milestone.submitted_at = toTimestamp(args.submittedAt);
+        }
+        break;
+      case 'MilestoneApproved':
+        if (milestone) milestone.status = 'approved';
+        gig.released_amount = addAmounts(gig.released_amount, args.amount);
+        break;
+      case 'MilestoneAutoReleased':
+        if (milestone) milestone.status = 'auto_released';
+        gig.released_amount = addAmounts(gig.released_amount, args.amount);
+        break;
+      case 'MilestoneDisputed':
+        if (milestone) milestone.status = 'disputed';
+        gig.status = 'disputed';
+        break;
+      case 'UMADisputeCreated':
+        if (milestone) milestone.status = 'disputed';
+        break;
+      case 'UMADisputeResolved':
+        // The whole milestone amount is paid out, split between client and worker
+        if (milestone) {
+          milestone.status = 'approved';
+          gig.released_amount = addAmounts(gig.released_amount, milestone.amount);
+        }
+        break;
+      case 'GigCompleted': {
+        // Emitted by the same transaction as the release that finished the gig
+        const previous = events[i - 1];
+        const autoReleased = previous?.tx_hash === event.tx_hash && previous.event_name === 'MilestoneAutoReleased';
+        gig.status = autoReleased ? 'auto_released' : 'completed';
+        gig.released_amount = str(args.totalReleased);
+        break;
+      }
+      case 'GigCancelled':
+        gig.status = 'cancelled';
+        break;
+    }
+  }
+
+  if (!gig) return null;
+
+  gig.completed_milestones = milestones.filter(
+    (milestone) => milestone.status === 'approved' || milestone.status === 'auto_released'
+  ).length;
+
+  return { gig, milestones };
+}
+
+// ============================================================================
+// MISSIONS
+// ============================================================================
+
+/**
+ * Current state of an escrowed mission
+ */
+export function projectMission(
+  contractAddress: string,
+  missionId: number,
+  events: ChainEvent[]
+): ChainMission | null {
+  let mission: ChainMission | null = null;
+
+  for (const event of events) {
+    const args = event.args;
+
+    if (event.event_name === 'MissionCreated') {
+      mission = {
+        contract_address: contractAddress.toLowerCase(),
+        mission_id: missionId,
+        client_address: lower(args.client),
+        total_escrow: str(args.totalEscrow),
+        released_amount: '0',
+        agent_count: Number(args.agentCount),
+        status: 'pending',
+        deliverable_uri: null,
+        auto_release_time: null,
+        validation_id: null,
+        dispute_assertion_id: null,
+        created_block: event.block_number,
+        created_at: event.block_timestamp,
+        updated_block: event.block_number,
+      };
+      continue;
+    }
+
+    if (!mission) continue;
+    mission.updated_block = event.block_number;
+
+    switch (event.event_name) {
+      case 'DeliverableSubmitted':
+        mission.status = 'submitted';
+        mission.deliverable_uri = str(args.deliverableURI) || null;
+        mission.auto_release_time = toTimestamp(args.autoReleaseTime);
+        break;
+      case 'DeliverableApproved':
+      case 'DisputeResolved':
+        mission.status = 'completed';
+        break;
+      case 'ValidationRequested':
+        mission.status = 'validating';
+        mission.validation_id = str(args.validationId) || null;
+        break;
+      case 'ValidationCompleted':
+        mission.status = args.approved === true ? 'completed' : 'submitted';
+        break;
+      case 'DisputeCreated':
+        mission.status = 'disputed';
+        mission.dispute_assertion_id = str(args.assertionId) || null;
+        break;
+      case 'MissionAutoReleased':
+        mission.status = 'auto_released';
+        break;
+      case 'MissionCancelled':
+        mission.status = 'cancelled';
+        break;
+      case 'PaymentReleased':
+        mission.released_amount = addAmounts(mission.released_amount, args.amount);
+        break;
+    }
+  }
+
+  return mission;
+}
+
+// ============================================================================
+// ARBITRATION CASES
+// ============================================================================
+
+// SimpleArbitrator.VOTING_PERIOD - a case's deadline is this long after it opens or is appealed
+const VOTING_PERIOD_MS = 7 * 24 * 60 * 60 * 1000;
+
+function addVotingPeriod(timestamp: string): string {
+  return new Date(new Date(timestamp).getTime() + VOTING_PERIOD_MS).toISOString();
+}
+
+/**
+ * Current state of an arbitration case with its evidence and every vote cast on it
+ * DisputeCreated events carry the escrow and reason read from the contract at their block
+ */
+export function projectArbitrationCase(
+  contractAddress: string,
+  caseId: string,
+  events: ArbitrationEvent[]
+): { arbitrationCase: ArbitrationCase; evidence: ArbitrationEvidence[]; votes: ArbitrationVote[] } | null {
+  let arbitrationCase: ArbitrationCase | null = null;
+  const evidence: ArbitrationEvidence[] = [];
+  const votes: ArbitrationVote[] = [];
+
+  for (const event of events) {
+    const args = event.args;
+
+    if (event.event_name === 'DisputeCreated') {
+      arbitrationCase = {
+        contract_address: contractAddress.toLowerCase(),
+        case_id: caseId,
+        escrow_contract: lower(args.escrowContract),
+        entity_id: Number(args.bountyId),
+        client_address: lower(args.client),
+        worker_address: lower(args.worker),
+        amount: str(args.amount),
+        reason: str(args.reason) || null,
+        status: 'active',
+        round: 0,
+        voting_deadline: addVotingPeriod(event.block_timestamp),
+        voters: [],
+        final_client_bps: null,
+        resolved_at: null,
+        appealed: false,
+        appellant: null,
+        appeal_reason: null,
+        appealed_at: null,
+        created_block: event.block_number,
+        created_at: event.block_timestamp,
+        updated_block: event.block_number,
+      };
+      continue;
+    }
+
+    if (!arbitrationCase) continue;
+    arbitrationCase.updated_block = event.block_number;
+
+    switch (event.event_name) {
+      case 'EvidenceSubmitted':
+        evidence.push({
+          contract_address: arbitrationCase.contract_address,
+          case_id: caseId,
+          evidence_index: evidence.length,
+          submitter: lower(args.submitter),
+          evidence_uri: str(args.ipfsURI),
+          submitted_at: event.block_timestamp,
+        });
+        break;
+      case 'VoteCast': {
+        const arbitrator = lower(args.arbitrator);
+        votes.push({
+          contract_address: arbitrationCase.contract_address,
+          case_id: caseId,
+          vote_index: votes.length,
+          round: arbitrationCase.round,
+          arbitrator,
+          client_bps: Number(args.clientBps),
+          cast_at: event.block_timestamp,
+        });
+        if (!arbitrationCase.voters.includes(arbitrator)) arbitrationCase.voters.push(arbitrator);
+        break;
+      }
+      case 'DisputeResolved':
+        arbitrationCase.status = 'resolved';
+        arbitrationCase.final_client_bps = Number(args.clientBps);
+        arbitrationCase.resolved_at = event.block_timestamp;
+        break;
+      case 'DisputeAppealed':
+        // Votes start over with a new deadline; the appeal evidence follows as EvidenceSubmitted
+        arbitrationCase.status = 'active';
+        arbitrationCase.round += 1;
+        arbitrationCase.appealed = true;
+        arbitrationCase.appellant = lower(args.appellant);
+        arbitrationCase.appeal_reason = str(args.reason) || null;
+        arbitrationCase.appealed_at = event.block_timestamp;
+        arbitrationCase.voting_deadline = addVotingPeriod(event.block_timestamp);
+        break;
+    }
+  }
+
+  if (!arbitrationCase) return null;
+
+  return { arbitrationCase, evidence, votes };
+}
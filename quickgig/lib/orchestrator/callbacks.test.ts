@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { verifyTypedData, type Address } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { consumeCallbackNonce } from '../supabase/missions';
+import {
+  isAllowedCallbackTransition,
+  recoverCallbackSigner,
+  signMissionCallback,
+  validateMissionCallback,
+} from './callbacks';
+
+const db = vi.hoisted(() => ({ nonces: new Set<string>() }));
+
+// EOA signatures are checked locally instead of through an RPC node
+vi.mock('../x402/chains', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../x402/chains')>()),
+  getX402PublicClient: () => ({ verifyTypedData }),
+}));
+
+// mission_callback_nonces with its (signer_address, nonce) unique key
+vi.mock('../supabase/client', () => ({
+  supabaseAdmin: {
+    from: () => ({
+      insert: async ([row]: Array<{ signer_address: string; nonce: string }>) => {
+        const key = `${row.signer_address}:${row.nonce}`;
+        if (db.nonces.has(key)) {
+          return { error: { code: '23505', message: 'duplicate key value violates unique constraint' } };
+        }
+        db.nonces.add(key);
+        return { error: null };
+      },
+    }),
+  },
+}));
+
+const agent = privateKeyToAccount('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+const other = privateKeyToAccount('0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a');
+
+const UPDATE = {
+  missionId: 'mission-1',
+  agentId: 'agent-1',
+  status: 'completed' as const,
+  deliverableUri: 'https://gateway.pinata.cloud/ipfs/Qm1',
+  resultData: { content: { taglines: ['Gigs done fast'] } },
+};
+
+beforeEach(() => {
+  db.nonces.clear();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('mission callback signatures', () => {
+  it('recovers the registered address that signed a callback', async () => {
+    const callback = await signMissionCallback(agent, UPDATE);
+
+    expect(validateMissionCallback(callback)).toBeNull();
+    expect(await recoverCallbackSigner('mission-1', callback, [other.address, agent.address])).toBe(agent.address);
+  });
+
+  it('rejects a callback signed by another wallet', async () => {
+    const callback = await signMissionCallback(other, UPDATE);
+
+    expect(await recoverCallbackSigner('mission-1', callback, [agent.address])).toBeNull();
+  });
+
+  it('rejects a callback replayed for another mission or with a changed deliverable', async () => {
+    const callback = await signMissionCallback(agent, UPDATE);
+    const addresses: Address[] = [agent.address];
+
+    expect(await recoverCallbackSigner('mission-2', callback, addresses)).toBeNull();
+    expect(
+      await recoverCallbackSigner('mission-1', { ...callback, deliverableUri: 'https://evil.test/logo.png' }, addresses)
+    ).toBeNull();
+  });
+
+  it('rejects unsigned, malformed and expired callbacks', async () => {
+    const callback = await signMissionCallback(agent, UPDATE);
+
+    expect(validateMissionCallback({ ...callback, signature: undefined })).toBe(
+      'Callback must be signed (signature, nonce, issuedAt)'
+    );
+    expect(validateMissionCallback({ ...callback, nonce: '0x1234' })).toBe('nonce must be 32 bytes of hex');
+    expect(validateMissionCallback({ ...callback, issuedAt: callback.issuedAt - 11 * 60 })).toBe('Callback expired');
+  });
+});
+
+describe('consumeCallbackNonce', () => {
+  it('accepts a nonce once per signer', async () => {
+    const callback = await signMissionCallback(agent, UPDATE);
+    const params = { signerAddress: agent.address, nonce: callback.nonce, missionId: 'mission-1', agentId: 'agent-1', status: 'completed' };
+
+    expect(await consumeCallbackNonce(params)).toBe(true);
+    expect(await consumeCallbackNonce({ ...params, nonce: callback.nonce.toUpperCase().replace('0X', '0x') })).toBe(false);
+    expect(await consumeCallbackNonce({ ...params, signerAddress: other.address })).toBe(true);
+  });
+});
+
+describe('isAllowedCallbackTransition', () => {
+  it('lets running executions finish', () => {
+    expect(isAllowedCallbackTransition('pending', 'executing')).toBe(true);
+    expect(isAllowedCallbackTransition('executing', 'completed')).toBe(true);
+    expect(isAllowedCallbackTransition('executing', 'failed')).toBe(true);
+  });
+
+  it('never changes a finished execution', () => {
+    for (const from of ['completed', 'failed', 'skipped', 'replaced'] as const) {
+      expect(isAllowedCallbackTransition(from, 'executing')).toBe(false);
+      expect(isAllowedCallbackTransition(from, 'completed')).toBe(false);
+    }
+  });
+});
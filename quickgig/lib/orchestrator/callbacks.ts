@@ -0,0 +1,212 @@
+/**
+ * Signed Mission Callbacks
+ * Agents report step progress to /api/missions/[missionId]/update with an EIP-712 signature
+ * from their registered wallet, over the mission, agent, status, a hash of what they deliver
+ * and a single-use nonce. Shared by the agent services (signing) and the update route (verifying).
+ */
+
+import { keccak256, stringToBytes, toHex, type Address, type Hex, type LocalAccount } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { getDefaultChainId, getX402PublicClient } from '../x402/chains';
+import type { MissionExecution } from '../supabase/missions';
+
+export type MissionCallbackStatus = 'executing' | 'completed' | 'failed';
+
+export interface MissionCallbackUpdate {
+  missionId: string;
+  agentId: string;
+  status: MissionCallbackStatus;
+  deliverableUri?: string | null;
+  resultData?: Record<string, unknown> | null;
+  errorMessage?: string | null;
+}
+
+/**
+ * Body POSTed to the update route
+ */
+export interface SignedMissionCallback extends Omit<MissionCallbackUpdate, 'missionId'> {
+  nonce: Hex; // Random bytes32, accepted once per signer
+  issuedAt: number; // Unix seconds
+  signature: Hex;
+}
+
+/**
+ * How old (or how far in the future) a callback may be
+ */
+export const CALLBACK_MAX_AGE_SECONDS = 10 * 60;
+
+export const MISSION_CALLBACK_TYPES = {
+  MissionCallback: [
+    { name: 'missionId', type: 'string' },
+    { name: 'agentId', type: 'string' },
+    { name: 'status', type: 'string' },
+    { name: 'deliverableHash', type: 'bytes32' },
+    { name: 'nonce', type: 'bytes32' },
+    { name: 'issuedAt', type: 'uint256' },
+  ],
+} as const;
+
+const CALLBACK_STATUSES: MissionCallbackStatus[] = ['executing', 'completed', 'failed'];
+
+/**
+ * Status changes an agent may report, by current execution status
+ * The orchestrator marks the execution 'executing' before calling the agent, and moves it
+ * back to 'pending' while a retry is due. Finished executions never change again.
+ */
+const ALLOWED_TRANSITIONS: Record<MissionExecution['status'], MissionCallbackStatus[]> = {
+  pending: ['executing', 'completed', 'failed'],
+  executing: ['executing', 'completed', 'failed'],
+  completed: [],
+  failed: [],
+  skipped: [],
+  replaced: [],
+};
+
+/**
+ * JSON with sorted keys, so both sides hash the same bytes
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Hash of everything a callback delivers (deliverable URI, result data, error message)
+ */
+export function getDeliverableHash(update: Pick<MissionCallbackUpdate, 'deliverableUri' | 'resultData' | 'errorMessage'>): Hex {
+  return keccak256(stringToBytes(canonicalJson({
+    deliverableUri: update.deliverableUri ?? null,
+    resultData: update.resultData ?? null,
+    errorMessage: update.errorMessage ?? null,
+  })));
+}
+
+/**
+ * Build EIP-712 typed data for signing or verifying a callback
+ */
+export function getMissionCallbackTypedData(
+  update: MissionCallbackUpdate,
+  auth: Pick<SignedMissionCallback, 'nonce' | 'issuedAt'>
+) {
+  return {
+    domain: {
+      name: 'QuickGig Mission Callback',
+      version: '1',
+      chainId: getDefaultChainId(),
+    },
+    types: MISSION_CALLBACK_TYPES,
+    primaryType: 'MissionCallback' as const,
+    message: {
+      missionId: update.missionId,
+      agentId: update.agentId,
+      status: update.status,
+      deliverableHash: getDeliverableHash(update),
+      nonce: auth.nonce,
+      issuedAt: BigInt(auth.issuedAt),
+    },
+  };
+}
+
+// ============================================================================
+// AGENT SIDE
+// ============================================================================
+
+/**
+ * Load an agent's callback signing key from env (null if it isn't set)
+ */
+export function getCallbackSigner(envVar: string): LocalAccount | null {
+  const privateKey = process.env[envVar] as Hex | undefined;
+  return privateKey ? privateKeyToAccount(privateKey) : null;
+}
+
+/**
+ * Sign a status update, returning the body to POST to the callback URL
+ */
+export async function signMissionCallback(
+  account: LocalAccount,
+  update: MissionCallbackUpdate
+): Promise<SignedMissionCallback> {
+  const auth = {
+    nonce: toHex(crypto.getRandomValues(new Uint8Array(32))),
+    issuedAt: Math.floor(Date.now() / 1000),
+  };
+  const signature = await account.signTypedData(getMissionCallbackTypedData(update, auth));
+
+  return {
+    agentId: update.agentId,
+    status: update.status,
+    deliverableUri: update.deliverableUri ?? null,
+    resultData: update.resultData ?? null,
+    errorMessage: update.errorMessage ?? null,
+    ...auth,
+    signature,
+  };
+}
+
+// ============================================================================
+// ROUTE SIDE
+// ============================================================================
+
+/**
+ * Check a callback body's shape and freshness, returns an error message or null
+ */
+export function validateMissionCallback(body: Partial<SignedMissionCallback>): string | null {
+  if (!body.agentId || typeof body.agentId !== 'string') return 'agentId is required';
+  if (!body.status || !CALLBACK_STATUSES.includes(body.status)) {
+    return `status must be one of: ${CALLBACK_STATUSES.join(', ')}`;
+  }
+  if (!body.signature || !body.nonce || typeof body.issuedAt !== 'number') {
+    return 'Callback must be signed (signature, nonce, issuedAt)';
+  }
+  if (!/^0x[0-9a-fA-F]{64}$/.test(body.nonce)) return 'nonce must be 32 bytes of hex';
+
+  const now = Math.floor(Date.now() / 1000);
+  if (Math.abs(now - body.issuedAt) > CALLBACK_MAX_AGE_SECONDS) {
+    return 'Callback expired';
+  }
+
+  return null;
+}
+
+/**
+ * Find which of the agent's registered addresses signed the callback (null if none did)
+ * Smart-wallet (ERC-1271) signatures are supported through the public client
+ */
+export async function recoverCallbackSigner(
+  missionId: string,
+  callback: SignedMissionCallback,
+  addresses: Address[]
+): Promise<Address | null> {
+  const typedData = getMissionCallbackTypedData({ ...callback, missionId }, callback);
+  const client = getX402PublicClient();
+
+  for (const address of addresses) {
+    try {
+      if (await client.verifyTypedData({ address, signature: callback.signature, ...typedData })) {
+        return address;
+      }
+    } catch (error) {
+      console.warn(`[Mission Callbacks] Signature check against ${address} failed:`, error);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check that an agent may move its execution from one status to another
+ */
+export function isAllowedCallbackTransition(
+  from: MissionExecution['status'],
+  to: MissionCallbackStatus
+): boolean {
+  return (ALLOWED_TRANSITIONS[from] || []).includes(to);
+}
@@ -0,0 +1,212 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import axios from 'axios';
+import { getAgentsByCapability, type AgentProfile } from '../supabase/agents';
+import type { MissionExecution } from '../supabase/missions';
+import { startMissionOrchestration, type MissionPayload } from './core';
+
+const store = vi.hoisted(() => ({
+  executions: new Map<string, MissionExecution>(),
+  outcomes: new Map<string, 'completed' | 'failed'>(), // What each agent reports after taking a task
+  tasks: [] as Array<{ agentId: string; upstream?: unknown[] }>,
+}));
+
+// Agents take every task unpaid and report through the update callback right away
+vi.mock('axios', () => ({
+  default: {
+    isAxiosError: () => false,
+    post: vi.fn(async (_endpoint: string, task: { agentId: string; upstream?: unknown[] }) => {
+      store.tasks.push(task);
+      const execution = store.executions.get(task.agentId)!;
+      const status = store.outcomes.get(task.agentId) ?? 'completed';
+      Object.assign(execution, status === 'completed'
+        ? { status, result_data: { content: { taglines: [`${task.agentId} tagline`] } } }
+        : { status, error_message: `${task.agentId} broke` });
+      return { status: 200, data: { success: true }, headers: {} };
+    }),
+  },
+}));
+
+vi.mock('../supabase/missions', () => ({
+  addTimelineEvent: vi.fn(),
+  updateMissionStatus: vi.fn(),
+  getExecutionByMissionAndAgent: async (_missionId: string, agentId: string) => store.executions.get(agentId) ?? null,
+  createExecution: async (execution: MissionExecution) => {
+    store.executions.set(execution.agent_id, { ...execution, id: store.executions.size + 1 });
+  },
+  updateExecution: async (id: number, updates: Partial<MissionExecution>) => {
+    const execution = [...store.executions.values()].find((e) => e.id === id)!;
+    Object.assign(execution, updates);
+  },
+}));
+
+vi.mock('../supabase/agents', () => ({
+  getAgent: async () => null,
+  getAgentsByCapability: vi.fn(async () => []),
+}));
+
+vi.mock('../supabase/mission-jobs', () => ({
+  beginStepCheckpoint: vi.fn(),
+  getStepCheckpoint: async () => null,
+  saveStepCheckpoint: vi.fn(),
+}));
+
+vi.mock('./heartbeats', () => ({
+  getAgentCapacity: () => ({ acceptingWork: true }),
+}));
+
+vi.mock('./spend-guard', () => ({
+  authorizeAgentPayment: vi.fn(),
+  settleAgentPayment: vi.fn(),
+}));
+
+function subAgent(agentId: string, extra: Partial<MissionPayload['subAgents'][number]> = {}) {
+  return {
+    agentId,
+    name: agentId,
+    address: '0x0000000000000000000000000000000000000001',
+    endpoint: `http://agents.test/${agentId}`,
+    capability: 'copywriting',
+    payment: 1,
+    ...extra,
+  };
+}
+
+function mission(
+  subAgents: MissionPayload['subAgents'],
+  extra: Partial<MissionPayload> = {}
+): MissionPayload {
+  // Executions exist from deployment on (initializeMissionExecutions)
+  subAgents.forEach((agent) => {
+    store.executions.set(agent.agentId, {
+      id: store.executions.size + 1,
+      mission_id: 'mission-1',
+      agent_id: agent.agentId,
+      status: 'pending',
+    });
+  });
+
+  return {
+    missionId: 'mission-1',
+    description: 'Launch a brand',
+    subAgents,
+    orchestrationMode: 'dag',
+    totalBudget: 10,
+    requirements: {},
+    ...extra,
+  };
+}
+
+const calledAgents = () => store.tasks.map((task) => task.agentId);
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  store.executions.clear();
+  store.outcomes.clear();
+  store.tasks = [];
+  vi.mocked(getAgentsByCapability).mockResolvedValue([]);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('DAG missions', () => {
+  it('passes each agent the outputs of the agents it depends on', async () => {
+    await startMissionOrchestration(mission([
+      subAgent('logo', { dependsOn: ['copy'] }),
+      subAgent('copy'),
+    ]));
+
+    expect(calledAgents()).toEqual(['copy', 'logo']);
+    expect(store.tasks[0].upstream).toBeUndefined();
+    expect(store.tasks[1].upstream).toEqual([
+      expect.objectContaining({ agentId: 'copy', result: { content: { taglines: ['copy tagline'] } } }),
+    ]);
+  });
+
+  it('skips the dependents of a failed step and fails the mission', async () => {
+    store.outcomes.set('copy', 'failed');
+
+    await expect(startMissionOrchestration(mission([
+      subAgent('copy'),
+      subAgent('logo', { dependsOn: ['copy'] }),
+      subAgent('social', { dependsOn: ['logo'] }),
+    ]))).rejects.toThrow('DAG execution failed for agents: copy, logo, social');
+
+    expect(calledAgents()).toEqual(['copy']);
+    expect(store.executions.get('logo')).toMatchObject({
+      status: 'skipped',
+      error_message: 'Skipped: upstream agent copy failed',
+    });
+    expect(store.executions.get('social')?.status).toBe('skipped');
+  });
+
+  it('runs dependents without the output of a step that continues on failure', async () => {
+    store.outcomes.set('copy', 'failed');
+
+    await startMissionOrchestration(mission([
+      subAgent('copy', { policy: { continueOnFailure: true } }),
+      subAgent('logo', { dependsOn: ['copy'] }),
+    ]));
+
+    expect(calledAgents()).toEqual(['copy', 'logo']);
+    expect(store.tasks[1].upstream).toBeUndefined();
+  });
+
+  it('rejects a mission whose dependencies form a cycle before calling any agent', async () => {
+    await expect(startMissionOrchestration(mission([
+      subAgent('copy', { dependsOn: ['logo'] }),
+      subAgent('logo', { dependsOn: ['copy'] }),
+    ]))).rejects.toThrow('Dependency cycle');
+
+    expect(axios.post).not.toHaveBeenCalled();
+  });
+});
+
+describe('step retries and fallbacks', () => {
+  function profile(id: string) {
+    return { id, name: id, address: '0x0000000000000000000000000000000000000002', endpoint_url: `http://agents.test/${id}` };
+  }
+
+  it('retries a failed agent before handing its step to a fallback of the same capability', async () => {
+    store.outcomes.set('copy', 'failed');
+    vi.mocked(getAgentsByCapability).mockResolvedValue([profile('backup')] as AgentProfile[]);
+
+    await startMissionOrchestration(mission(
+      [subAgent('copy')],
+      { policy: { maxRetries: 1, backoffMs: 0, maxFallbacks: 1 } }
+    ));
+
+    expect(calledAgents()).toEqual(['copy', 'copy', 'backup']);
+    expect(getAgentsByCapability).toHaveBeenCalledWith('copywriting', { limit: 20 });
+    expect(store.executions.get('copy')?.status).toBe('replaced');
+    expect(store.executions.get('backup')).toMatchObject({ status: 'completed', fallback_for: 'copy' });
+  });
+
+  it('takes fallbacks from fallbackAgentIds in order and never agents already in the mission', async () => {
+    store.outcomes.set('copy', 'failed');
+    store.outcomes.set('second', 'failed');
+    vi.mocked(getAgentsByCapability).mockResolvedValue(
+      [profile('logo'), profile('first'), profile('second')] as AgentProfile[]
+    );
+
+    await startMissionOrchestration(mission(
+      [subAgent('copy', { policy: { fallbackAgentIds: ['logo', 'second', 'first'] } }), subAgent('logo')],
+      { orchestrationMode: 'sequential' }
+    ));
+
+    expect(calledAgents()).toEqual(['copy', 'second', 'first', 'logo']);
+  });
+
+  it('fails the step without fallbacks once retries run out', async () => {
+    store.outcomes.set('copy', 'failed');
+
+    await expect(startMissionOrchestration(mission(
+      [subAgent('copy', { policy: { maxRetries: 2, backoffMs: 0 } })],
+      { orchestrationMode: 'sequential' }
+    ))).rejects.toThrow('copy broke');
+
+    expect(calledAgents()).toEqual(['copy', 'copy', 'copy']);
+    expect(getAgentsByCapability).not.toHaveBeenCalled();
+    expect(store.executions.get('copy')?.status).toBe('failed');
+  });
+});
@@ -5,9 +5,33 @@
  */
 
 import axios from 'axios';
-import { createPublicClient, createWalletClient, http } from 'viem';
-import { baseSepolia } from 'viem/chains';
+import { createWalletClient, http } from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
+import { acceptsScheme, signTransferAuthorization } from '../x402/authorization';
+import { getChainConfig, getRpcUrl, getX402PublicClient } from '../x402/chains';
+import { getPaymentHeaders } from '../x402/middleware';
+import type { X402Payment, X402PaymentRequest } from '../x402/types';
+import {
+  addTimelineEvent,
+  createExecution,
+  getExecutionByMissionAndAgent,
+  updateExecution,
+  updateMissionStatus,
+  type MissionExecution,
+  type MissionTimelineEventType,
+} from '../supabase/missions';
+import { getAgent, getAgentsByCapability } from '../supabase/agents';
+import {
+  beginStepCheckpoint,
+  getStepCheckpoint,
+  saveStepCheckpoint,
+  type StepCheckpoint,
+  type StepCheckpointKey,
+} from '../supabase/mission-jobs';
+import { getExecutionOrder, type UpstreamOutput } from './dag';
+import { getAgentCapacity } from './heartbeats';
+import { getRetryDelay, resolveStepPolicy, type ResolvedStepPolicy, type StepPolicy } from './policy';
+import { authorizeAgentPayment, settleAgentPayment } from './spend-guard';
 
 const API_BASE = process.env.CALLBACK_BASE_URL ||
                  process.env.NEXT_PUBLIC_SITE_URL ||
@@ -16,23 +40,12 @@ const API_BASE = process.env.CALLBACK_BASE_URL ||
 // Orchestrator wallet for A2A payments (loads from PRIVATE_KEY env var)
 const ORCHESTRATOR_PRIVATE_KEY = process.env.PRIVATE_KEY as `0x${string}`;
 
-// Viem clients for on-chain payments
-const publicClient = createPublicClient({
-  chain: baseSepolia,
-  transport: http(process.env.NEXT_PUBLIC_ALCHEMY_RPC_URL),
-});
-
 const orchestratorAccount = ORCHESTRATOR_PRIVATE_KEY
   ? privateKeyToAccount(ORCHESTRATOR_PRIVATE_KEY)
   : null;
 
-const walletClient = orchestratorAccount
-  ? createWalletClient({
-      account: orchestratorAccount,
-      chain: baseSepolia,
-      transport: http(process.env.NEXT_PUBLIC_ALCHEMY_RPC_URL),
-    })
-  : null;
+// Agents answer the execute call immediately and report their deliverable via the update callback
+const DELIVERABLE_POLL_INTERVAL = 5000;
 
 interface SubAgent {
   agentId: string;
@@ -40,44 +53,97 @@ interface SubAgent {
   address: string;
   endpoint: string;
   capability: string;
-  payment: number;
+  payment: number; // Agreed price in USDC - the most the agent can be paid per attempt
+  dependsOn?: string[]; // DAG mode - agent IDs whose outputs this agent consumes
+  policy?: StepPolicy; // Overrides the mission policy for this agent's step
 }
 
 export interface MissionPayload {
   missionId: string;
   description: string;
   subAgents: SubAgent[];
-  orchestrationMode: 'sequential' | 'parallel';
-  totalBudget: number;
+  orchestrationMode: 'sequential' | 'parallel' | 'dag';
+  totalBudget: number; // USDC - agent payments for the mission never exceed it
   requirements: Record<string, unknown>;
+  policy?: StepPolicy; // Default retry / timeout / fallback policy for every step
+}
+
+/**
+ * State shared by all steps of one mission run
+ */
+interface MissionRun {
+  payload: MissionPayload;
+  claimedAgents: Set<string>; // Agents already working on a step - never picked as fallbacks
+  signal?: AbortSignal;
+}
+
+/**
+ * Payment recorded in a 'paying' checkpoint, before the agent has been paid for sure
+ */
+interface PendingPayment {
+  scheme: 'authorization' | 'transfer';
+  request: X402PaymentRequest;
+  paymentId?: number; // payment_transactions attempt reserved by the spend guard
+  txHash?: `0x${string}`; // Set as soon as a transfer is broadcast
 }
 
 /**
- * Start mission orchestration (call this from deploy route)
- * Executes asynchronously without blocking
+ * Start mission orchestration (called by the mission job worker)
+ * Safe to call again for a mission that was interrupted - steps resume from their checkpoints.
+ * Aborting the signal stops the run between steps without failing the mission.
  */
-export async function startMissionOrchestration(payload: MissionPayload): Promise<void> {
+export async function startMissionOrchestration(
+  payload: MissionPayload,
+  options: { signal?: AbortSignal } = {}
+): Promise<void> {
   console.log('[Orchestrator Core] Starting mission:', payload.missionId);
   console.log('[Orchestrator Core] Mode:', payload.orchestrationMode);
   console.log('[Orchestrator Core] Agents:', payload.subAgents.length);
 
+  const run: MissionRun = {
+    payload,
+    claimedAgents: new Set(payload.subAgents.map((agent) => agent.agentId)),
+    signal: options.signal,
+  };
+
   try {
     if (payload.orchestrationMode === 'sequential') {
-      await executeSequential(payload);
+      await executeSequential(run);
+    } else if (payload.orchestrationMode === 'dag') {
+      await executeDag(run);
     } else {
-      await executeParallel(payload);
+      await executeParallel(run);
     }
     console.log('[Orchestrator Core] Mission completed:', payload.missionId);
   } catch (error) {
+    if (options.signal?.aborted) {
+      console.warn('[Orchestrator Core] Mission run aborted:', payload.missionId);
+      throw error;
+    }
+
     console.error('[Orchestrator Core] Mission failed:', payload.missionId, error);
+
+    try {
+      await updateMissionStatus(payload.missionId, 'failed', {
+        completed_at: new Date().toISOString(),
+      });
+    } catch (statusError) {
+      console.error('[Orchestrator Core] Failed to mark mission as failed:', statusError);
+    }
+    await recordEvent(payload.missionId, 'failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
     throw error;
   }
 }
 
 /**
  * Execute agents sequentially
+ * A failed step aborts the rest of the mission unless its policy continues on failure
  */
-async function executeSequential(payload: MissionPayload) {
+async function executeSequential(run: MissionRun) {
+  const { payload } = run;
   console.log('[Orchestrator Core] Starting sequential execution...');
 
   for (let i = 0; i < payload.subAgents.length; i++) {
@@ -85,11 +151,17 @@ async function executeSequential(payload: MissionPayload) {
     console.log(`[Orchestrator Core] Executing agent ${i + 1}/${payload.subAgents.length}: ${agent.name}`);
 
     try {
-      await executeAgent(payload.missionId, agent, payload.description, payload.requirements);
+      await runStep(run, agent);
       console.log(`[Orchestrator Core] Agent ${agent.name} completed`);
     } catch (error) {
       console.error(`[Orchestrator Core] Agent ${agent.name} failed:`, error);
-      throw error;
+
+      if (!getStepPolicy(run, agent).continueOnFailure) {
+        for (const skipped of payload.subAgents.slice(i + 1)) {
+          await markSkipped(payload.missionId, skipped, `Skipped: ${agent.name} failed`);
+        }
+        throw error;
+      }
     }
   }
 
@@ -98,50 +170,490 @@ async function executeSequential(payload: MissionPayload) {
 
 /**
  * Execute agents in parallel
+ * Every step runs to the end, the mission fails afterwards if a required step failed
  */
-async function executeParallel(payload: MissionPayload) {
+async function executeParallel(run: MissionRun) {
+  const { payload } = run;
   console.log('[Orchestrator Core] Starting parallel execution...');
 
-  const promises = payload.subAgents.map((agent) =>
-    executeAgent(payload.missionId, agent, payload.description, payload.requirements)
+  const results = await Promise.allSettled(
+    payload.subAgents.map((agent) => runStep(run, agent))
   );
 
-  await Promise.all(promises);
+  const failed = payload.subAgents.filter(
+    (agent, index) => results[index].status === 'rejected' && !getStepPolicy(run, agent).continueOnFailure
+  );
+
+  if (failed.length > 0) {
+    throw new Error(`Parallel execution failed for agents: ${failed.map((agent) => agent.agentId).join(', ')}`);
+  }
 
   console.log('[Orchestrator Core] Parallel execution complete');
 }
 
+/**
+ * Execute agents as a dependency graph
+ * Each agent starts as soon as everything it depends on has delivered, and receives
+ * those deliverables in its request. Dependents of a failed step are skipped, unless
+ * that step continues on failure - then they run without its output.
+ */
+async function executeDag(run: MissionRun) {
+  const { payload } = run;
+  console.log('[Orchestrator Core] Starting DAG execution...');
+
+  // Throws on cycles or unknown dependencies
+  const order = getExecutionOrder(payload.subAgents);
+  const agents = payload.subAgents;
+
+  console.log('[Orchestrator Core] Execution order:', order.join(' -> '));
+
+  const outputs = new Map<string, UpstreamOutput>();
+  const failed = new Set<string>(); // Required steps that failed or were skipped
+  const settled = new Set<string>();
+  const running = new Map<string, Promise<void>>();
+
+  const runAgent = async (agent: SubAgent) => {
+    const upstream = (agent.dependsOn || [])
+      .map((agentId) => outputs.get(agentId))
+      .filter((output): output is UpstreamOutput => !!output);
+    outputs.set(agent.agentId, await runStep(run, agent, upstream));
+  };
+
+  while (settled.size < agents.length) {
+    for (const agent of agents) {
+      if (settled.has(agent.agentId) || running.has(agent.agentId)) continue;
+
+      const dependencies = agent.dependsOn || [];
+      const failedDependency = dependencies.find((agentId) => failed.has(agentId));
+
+      if (failedDependency) {
+        console.warn(`[Orchestrator Core] Skipping ${agent.name}: upstream agent ${failedDependency} failed`);
+        settled.add(agent.agentId);
+        if (!getStepPolicy(run, agent).continueOnFailure) {
+          failed.add(agent.agentId);
+        }
+        await markSkipped(payload.missionId, agent, `Skipped: upstream agent ${failedDependency} failed`);
+        continue;
+      }
+
+      if (dependencies.every((agentId) => settled.has(agentId))) {
+        console.log(`[Orchestrator Core] Agent ${agent.name} is ready`);
+
+        const execution = runAgent(agent)
+          .then(() => {
+            console.log(`[Orchestrator Core] Agent ${agent.name} completed`);
+          })
+          .catch((error) => {
+            console.error(`[Orchestrator Core] Agent ${agent.name} failed:`, error);
+            if (!getStepPolicy(run, agent).continueOnFailure) {
+              failed.add(agent.agentId);
+            }
+          })
+          .finally(() => {
+            running.delete(agent.agentId);
+            settled.add(agent.agentId);
+          });
+
+        running.set(agent.agentId, execution);
+      }
+    }
+
+    if (running.size === 0) break;
+    await Promise.race(running.values());
+  }
+
+  if (failed.size > 0) {
+    throw new Error(`DAG execution failed for agents: ${[...failed].join(', ')}`);
+  }
+
+  console.log('[Orchestrator Core] DAG execution complete');
+}
+
+/**
+ * Resolve the policy a step runs with
+ */
+function getStepPolicy(run: MissionRun, agent: SubAgent): ResolvedStepPolicy {
+  return resolveStepPolicy(run.payload.policy, agent.policy);
+}
+
+/**
+ * Run one mission step under its policy
+ * The agent is retried with exponential backoff, then each fallback agent gets the same
+ * number of attempts. Every attempt is a separate paid call to the agent. An agent whose
+ * heartbeat says it is unhealthy, at capacity or gone is passed over for the next fallback.
+ */
+async function runStep(run: MissionRun, agent: SubAgent, upstream?: UpstreamOutput[]): Promise<UpstreamOutput> {
+  const { missionId } = run.payload;
+  const policy = getStepPolicy(run, agent);
+
+  let candidate = agent;
+  let fallbacks: SubAgent[] | null = null;
+  let lastError: unknown;
+
+  while (true) {
+    for (let attempt = 1; attempt <= policy.maxRetries + 1; attempt++) {
+      run.signal?.throwIfAborted();
+
+      const checkpointKey: StepCheckpointKey = {
+        mission_id: missionId,
+        step_agent_id: agent.agentId,
+        agent_id: candidate.agentId,
+        attempt,
+      };
+      const checkpoint = await getStepCheckpoint(checkpointKey);
+
+      // Don't dispatch to an agent that is unhealthy, full or silent - go to the fallbacks
+      if (!checkpoint && attempt === 1) {
+        const unavailable = await getUnavailableReason(candidate);
+        if (unavailable) {
+          console.warn(`[Orchestrator Core] Skipping ${candidate.name}: ${unavailable}`);
+          lastError = new Error(`Agent ${candidate.name} is not taking work: ${unavailable}`);
+          await recordExecution(missionId, candidate, agent, { status: 'failed', error_message: unavailable });
+          await recordEvent(missionId, 'step_skipped', { ...stepEventData(agent, candidate, attempt), reason: unavailable });
+          break;
+        }
+      }
+
+      // Resuming an interrupted mission - never re-run or re-pay finished work
+      if (checkpoint?.state === 'delivered' && checkpoint.output) {
+        console.log(`[Orchestrator Core] ${candidate.name} already delivered (attempt ${attempt})`);
+        return checkpoint.output;
+      }
+      if (checkpoint?.state === 'failed') {
+        lastError = new Error(checkpoint.error || `Agent ${candidate.name} failed`);
+        continue;
+      }
+
+      // Outside the retry handling - if the payment can't be resolved the step must not be paid again
+      const resumedPayment = checkpoint?.state === 'paying'
+        ? await resumeStepPayment(checkpointKey, checkpoint)
+        : checkpoint?.state === 'paid'
+          ? (checkpoint.payment as unknown as X402Payment)
+          : undefined;
+
+      const deadline = Date.now() + policy.timeoutMs;
+
+      if (!checkpoint) {
+        await recordExecution(missionId, candidate, agent, {
+          status: 'executing',
+          attempts: attempt,
+          started_at: new Date().toISOString(),
+          optional: policy.continueOnFailure,
+        });
+        await recordEvent(missionId, 'step_started', stepEventData(agent, candidate, attempt));
+      }
+
+      try {
+        if (checkpoint?.state !== 'accepted') {
+          await executeAgent(run, candidate, upstream, deadline, checkpointKey, resumedPayment);
+        }
+        const output = await waitForDeliverable(missionId, candidate, deadline, run.signal);
+
+        await saveStepCheckpoint(checkpointKey, { state: 'delivered', output });
+        await recordEvent(missionId, 'step_completed', {
+          ...stepEventData(agent, candidate, attempt),
+          deliverableUri: output.deliverableUri,
+        });
+        return output;
+      } catch (error) {
+        if (run.signal?.aborted) throw error;
+
+        lastError = error;
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        const timedOut = Date.now() >= deadline;
+
+        console.error(
+          `[Orchestrator Core] ${candidate.name} attempt ${attempt} ${timedOut ? 'timed out' : 'failed'}:`,
+          message
+        );
+
+        // A transfer that was broadcast but not confirmed may still land - stop here
+        // rather than pay again, the checkpoint keeps the hash for a resume or review
+        const current = await getStepCheckpoint(checkpointKey);
+        if ((current?.payment as unknown as PendingPayment | null)?.txHash && current?.state === 'paying') {
+          await recordExecution(missionId, candidate, agent, { status: 'failed', error_message: message });
+          throw error;
+        }
+
+        await saveStepCheckpoint(checkpointKey, { state: 'failed', error: message });
+
+        // Back to pending while a retry is due, so the mission isn't finalized in between
+        const willRetry = attempt <= policy.maxRetries;
+        await recordExecution(missionId, candidate, agent, {
+          status: willRetry ? 'pending' : 'failed',
+          error_message: message,
+        });
+        await recordEvent(missionId, timedOut ? 'step_timed_out' : 'step_failed', {
+          ...stepEventData(agent, candidate, attempt),
+          error: message,
+        });
+
+        if (willRetry) {
+          const delay = getRetryDelay(policy, attempt);
+          await recordEvent(missionId, 'step_retry', { ...stepEventData(agent, candidate, attempt + 1), delayMs: delay });
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+      }
+    }
+
+    fallbacks ??= await getFallbackAgents(run, agent, policy);
+    const next = fallbacks.shift();
+    if (!next) break;
+
+    console.log(`[Orchestrator Core] Handing ${agent.name}'s step to fallback ${next.name}`);
+
+    await recordExecution(missionId, candidate, agent, {
+      status: 'replaced',
+      completed_at: new Date().toISOString(),
+    });
+    await recordEvent(missionId, 'step_fallback', {
+      agentId: agent.agentId,
+      from: candidate.agentId,
+      to: next.agentId,
+      capability: agent.capability,
+    });
+
+    candidate = next;
+  }
+
+  await recordExecution(missionId, candidate, agent, { completed_at: new Date().toISOString() });
+  throw lastError;
+}
+
+/**
+ * Agents that can take over a failed step - the policy's fallbackAgentIds in order,
+ * otherwise the best-rated agents with the same capability
+ */
+async function getFallbackAgents(run: MissionRun, agent: SubAgent, policy: ResolvedStepPolicy): Promise<SubAgent[]> {
+  const limit = policy.fallbackAgentIds?.length || policy.maxFallbacks;
+  if (limit === 0) return [];
+
+  try {
+    const candidates = (await getAgentsByCapability(agent.capability, { limit: 20 }))
+      .filter((profile) => profile.endpoint_url && !run.claimedAgents.has(profile.id))
+      .filter((profile) => getAgentCapacity(profile).acceptingWork);
+
+    const ordered = policy.fallbackAgentIds?.length
+      ? policy.fallbackAgentIds
+          .map((agentId) => candidates.find((profile) => profile.id === agentId))
+          .filter((profile) => !!profile)
+      : candidates.slice(0, limit);
+
+    // Claim now so concurrent steps don't hand work to the same agent
+    ordered.forEach((profile) => run.claimedAgents.add(profile.id));
+
+    return ordered.map((profile) => ({
+      agentId: profile.id,
+      name: profile.name,
+      address: profile.address,
+      endpoint: profile.endpoint_url!,
+      capability: agent.capability,
+      payment: agent.payment,
+    }));
+  } catch (error) {
+    console.error(`[Orchestrator Core] Failed to find fallback agents for ${agent.capability}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Why an agent shouldn't get a step right now (from its heartbeats), null if it can take it
+ * Agents whose profile can't be read are tried anyway
+ */
+async function getUnavailableReason(candidate: SubAgent): Promise<string | null> {
+  try {
+    const profile = await getAgent(candidate.agentId);
+    if (!profile) return null;
+
+    const capacity = getAgentCapacity(profile);
+    return capacity.acceptingWork ? null : capacity.reason;
+  } catch (error) {
+    console.error(`[Orchestrator Core] Failed to check capacity of ${candidate.name}:`, error);
+    return null;
+  }
+}
+
+function stepEventData(agent: SubAgent, candidate: SubAgent, attempt: number): Record<string, unknown> {
+  return {
+    agentId: agent.agentId,
+    executingAgentId: candidate.agentId,
+    capability: agent.capability,
+    attempt,
+  };
+}
+
+/**
+ * Wait for an agent to report completion through the mission update callback
+ */
+async function waitForDeliverable(
+  missionId: string,
+  agent: SubAgent,
+  deadline: number,
+  signal?: AbortSignal
+): Promise<UpstreamOutput> {
+  while (Date.now() < deadline) {
+    signal?.throwIfAborted();
+
+    const execution = await getExecutionByMissionAndAgent(missionId, agent.agentId);
+
+    if (execution?.status === 'completed') {
+      return {
+        agentId: agent.agentId,
+        name: agent.name,
+        capability: agent.capability,
+        deliverableUri: execution.deliverable_uri,
+        result: execution.result_data,
+      };
+    }
+
+    if (execution?.status === 'failed') {
+      throw new Error(execution.error_message || `Agent ${agent.name} reported failure`);
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, DELIVERABLE_POLL_INTERVAL));
+  }
+
+  throw new Error(`Agent ${agent.name} did not deliver in time`);
+}
+
+/**
+ * Update (or create, for fallback agents) the execution record of a step
+ * Recording is best effort - a database hiccup shouldn't fail the step itself
+ */
+async function recordExecution(
+  missionId: string,
+  candidate: SubAgent,
+  agent: SubAgent,
+  updates: Partial<MissionExecution>
+) {
+  try {
+    const execution = await getExecutionByMissionAndAgent(missionId, candidate.agentId);
+
+    if (execution?.id) {
+      await updateExecution(execution.id, updates);
+    } else {
+      await createExecution({
+        mission_id: missionId,
+        agent_id: candidate.agentId,
+        status: 'pending',
+        ...updates,
+        fallback_for: candidate.agentId !== agent.agentId ? agent.agentId : undefined,
+      });
+    }
+  } catch (error) {
+    console.error(`[Orchestrator Core] Failed to record execution for ${candidate.name}:`, error);
+  }
+}
+
+/**
+ * Add a mission timeline event (best effort)
+ */
+async function recordEvent(missionId: string, eventType: MissionTimelineEventType, eventData: Record<string, unknown>) {
+  try {
+    await addTimelineEvent(missionId, eventType, eventData);
+  } catch (error) {
+    console.error(`[Orchestrator Core] Failed to record ${eventType} event:`, error);
+  }
+}
+
+/**
+ * Mark a step that never ran because the mission was aborted or an upstream step failed
+ */
+async function markSkipped(missionId: string, agent: SubAgent, reason: string) {
+  try {
+    const execution = await getExecutionByMissionAndAgent(missionId, agent.agentId);
+    if (execution?.id) {
+      await updateExecution(execution.id, {
+        status: 'skipped',
+        error_message: reason,
+        completed_at: new Date().toISOString(),
+      });
+    }
+  } catch (error) {
+    console.error(`[Orchestrator Core] Failed to mark ${agent.name} as skipped:`, error);
+  }
+  await recordEvent(missionId, 'step_skipped', { agentId: agent.agentId, reason });
+}
+
+// Paywall reasons for a resent payment that is past its redemption window - it was taken
+// before the restart or never will be, either way it mustn't be replaced with a new payment
+const EXPIRED_PAYMENT_REASONS = ['Payment transaction is too old', 'Authorization expired'];
+
+/**
+ * Whether an agent's answer to a resent payment means it was already redeemed
+ * The paywall answers 409 for a spent proof or used nonce and 400 once the proof is too old
+ * (older agents answered 402)
+ */
+function isRedeemedPaymentResponse(status: number, data: unknown): boolean {
+  if (status === 402 || status === 409) return true;
+  const reason = (data as { message?: unknown } | null)?.message;
+  return status === 400 && typeof reason === 'string' && EXPIRED_PAYMENT_REASONS.includes(reason);
+}
+
 /**
  * Execute single agent with X402 A2A payment support
  * THIS STAYS AS HTTP - Required for X402 protocol!
  */
 async function executeAgent(
-  missionId: string,
+  run: MissionRun,
   agent: SubAgent,
-  description: string,
-  requirements: Record<string, unknown>
+  upstream: UpstreamOutput[] | undefined,
+  deadline: number,
+  checkpoint: StepCheckpointKey,
+  paidWith?: X402Payment
 ) {
+  const { missionId, description, requirements } = run.payload;
   console.log(`[Orchestrator Core] Calling agent ${agent.name} at ${agent.endpoint}`);
 
+  const task = {
+    missionId,
+    agentId: agent.agentId,
+    description,
+    capability: agent.capability,
+    payment: agent.payment,
+    requirements,
+    callbackUrl: `${API_BASE}/api/missions/${missionId}/update`,
+    ...(upstream?.length ? { upstream } : {}),
+  };
+
   try {
+    // Resuming after the agent was paid - resend the same payment, never pay again
+    if (paidWith) {
+      const response = await axios.post(
+        agent.endpoint,
+        task,
+        {
+          headers: getPaymentHeaders(paidWith),
+          timeout: Math.max(deadline - Date.now(), 1),
+          validateStatus: (status) => status < 500,
+        }
+      );
+
+      if (isRedeemedPaymentResponse(response.status, response.data)) {
+        // The payment was already redeemed, so the agent took the task before the restart
+        console.log(`[Orchestrator Core] Agent ${agent.name} already redeemed this payment (${response.status})`);
+      } else if (response.status >= 400) {
+        throw new Error(`Agent ${agent.name} rejected the task (${response.status})`);
+      }
+
+      await saveStepCheckpoint(checkpoint, { state: 'accepted' });
+      return response.data;
+    }
+
     // First request - agent may return 402 Payment Required
     let response = await axios.post(
       agent.endpoint,
+      task,
       {
-        missionId,
-        agentId: agent.agentId,
-        description,
-        capability: agent.capability,
-        payment: agent.payment,
-        requirements,
-        callbackUrl: `${API_BASE}/api/missions/${missionId}/update`,
-      },
-      {
-        timeout: 120000,
+        timeout: Math.max(deadline - Date.now(), 1),
         validateStatus: (status) => status < 500, // Accept 402 status
       }
     );
 
+    if (response.status >= 400 && response.status !== 402) {
+      throw new Error(`Agent ${agent.name} rejected the task (${response.status})`);
+    }
+
     // Handle X402 Payment Required response
     if (response.status === 402) {
       console.log(`[Orchestrator Core] Agent ${agent.name} requires payment (402)`);
@@ -151,43 +663,32 @@ async function executeAgent(
         throw new Error('Agent returned 402 but missing X-Payment-Required header');
       }
 
-      const paymentRequest = JSON.parse(paymentRequired);
+      const paymentRequest: X402PaymentRequest = JSON.parse(paymentRequired);
       console.log(`[Orchestrator Core] Payment request:`, {
         amount: paymentRequest.amount,
         recipient: paymentRequest.recipient,
         token: paymentRequest.token,
+        schemes: paymentRequest.schemes,
       });
 
-      // Execute A2A payment
-      const paymentProof = await executeA2APayment(
-        paymentRequest.recipient,
-        paymentRequest.amount,
-        paymentRequest.token
-      );
+      // Execute A2A payment (signed authorization if the agent accepts it, else a transfer)
+      const payment = await payStep(run, agent, checkpoint, paymentRequest, deadline);
 
-      console.log(`[Orchestrator Core] Payment completed, retrying with proof...`);
+      console.log(`[Orchestrator Core] Payment ready, retrying with payment...`);
 
       // Retry request with payment proof
       response = await axios.post(
         agent.endpoint,
+        task,
         {
-          missionId,
-          agentId: agent.agentId,
-          description,
-          capability: agent.capability,
-          payment: agent.payment,
-          requirements,
-          callbackUrl: `${API_BASE}/api/missions/${missionId}/update`,
-        },
-        {
-          headers: {
-            'X-Payment-Proof': JSON.stringify(paymentProof),
-          },
-          timeout: 120000,
+          headers: getPaymentHeaders(payment),
+          timeout: Math.max(deadline - Date.now(), 1),
         }
       );
     }
 
+    await saveStepCheckpoint(checkpoint, { state: 'accepted' });
+
     console.log(`[Orchestrator Core] Agent ${agent.name} response:`, response.data);
     return response.data;
   } catch (error) {
@@ -203,32 +704,154 @@ async function executeAgent(
   }
 }
 
+/**
+ * Pay an agent for one step attempt, checkpointing before and after so a restart
+ * can't pay it twice
+ * The spend guard checks the amount against the agreed price, mission budget and daily
+ * caps first (and may hold it for manual approval) - rejections fail the attempt.
+ */
+async function payStep(
+  run: MissionRun,
+  agent: SubAgent,
+  checkpoint: StepCheckpointKey,
+  paymentRequest: X402PaymentRequest,
+  deadline: number
+): Promise<X402Payment> {
+  if (!orchestratorAccount) {
+    throw new Error('Orchestrator wallet not configured');
+  }
+
+  const reserved = await authorizeAgentPayment(
+    {
+      step: checkpoint,
+      payer: orchestratorAccount.address,
+      agreedPrice: agent.payment,
+      missionBudget: run.payload.totalBudget,
+      paymentRequest,
+    },
+    { deadline, signal: run.signal }
+  );
+
+  const pending: PendingPayment = {
+    scheme: acceptsScheme(paymentRequest, 'authorization') ? 'authorization' : 'transfer',
+    request: paymentRequest,
+    paymentId: reserved.id,
+  };
+
+  if (!(await beginStepCheckpoint(checkpoint, pending as unknown as Record<string, unknown>))) {
+    await settleAgentPayment(reserved.id, { status: 'failed', reason: 'Payment already started by another run' });
+    throw new Error(`Payment for ${checkpoint.agent_id} (attempt ${checkpoint.attempt}) was already started by another run`);
+  }
+
+  let broadcast = false;
+  let payment: X402Payment;
+
+  try {
+    payment = await executeA2APayment(paymentRequest, async (txHash) => {
+      broadcast = true;
+      await saveStepCheckpoint(checkpoint, {
+        state: 'paying',
+        payment: { ...pending, txHash } as unknown as Record<string, unknown>,
+      });
+    });
+  } catch (error) {
+    // A broadcast transfer may still land, so its reservation stays until it is resolved
+    if (!broadcast) {
+      await settleAgentPayment(reserved.id, {
+        status: 'failed',
+        reason: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+    throw error;
+  }
+
+  await settleAgentPayment(reserved.id, getSettlement(payment));
+  await saveStepCheckpoint(checkpoint, {
+    state: 'paid',
+    payment: payment as unknown as Record<string, unknown>,
+  });
+
+  return payment;
+}
+
+/**
+ * Finish a payment interrupted by a restart
+ * A broadcast transfer is confirmed rather than resent, and an authorization that was
+ * signed but never sent is signed again. Anything else needs a human to check.
+ */
+async function resumeStepPayment(checkpoint: StepCheckpointKey, saved: StepCheckpoint): Promise<X402Payment> {
+  const pending = saved.payment as unknown as PendingPayment | null;
+  let payment: X402Payment;
+
+  if (pending?.request && pending.txHash) {
+    console.log(`[Orchestrator Core] Confirming transfer sent before restart:`, pending.txHash);
+    payment = await confirmA2ATransfer(pending.request, pending.txHash);
+  } else if (pending?.request && pending.scheme === 'authorization') {
+    payment = await executeA2APayment(pending.request);
+  } else {
+    throw new Error(
+      `Payment to agent ${checkpoint.agent_id} may have been sent before a restart - needs manual review`
+    );
+  }
+
+  await settleAgentPayment(pending.paymentId, getSettlement(payment));
+  await saveStepCheckpoint(checkpoint, {
+    state: 'paid',
+    payment: payment as unknown as Record<string, unknown>,
+  });
+
+  return payment;
+}
+
+/**
+ * How a sent payment is recorded - transfers by hash, authorizations by nonce
+ */
+function getSettlement(payment: X402Payment) {
+  return 'txHash' in payment
+    ? { status: 'confirmed' as const, txHash: payment.txHash }
+    : { status: 'confirmed' as const, metadata: { scheme: payment.scheme, nonce: payment.nonce } };
+}
+
 /**
  * Execute Agent-to-Agent payment via X402
- * On-chain USDC transfer using viem
+ * Signs an EIP-3009 authorization when accepted, otherwise sends an on-chain USDC transfer
+ * (onSubmitted is called with the transfer hash as soon as it is broadcast)
  */
 async function executeA2APayment(
-  recipient: string,
-  amount: string,
-  token: string
-): Promise<{
-  from: string;
-  to: string;
-  amount: string;
-  token: string;
-  txHash: `0x${string}`;
-  blockNumber: string;
-  timestamp: number;
-}> {
-  if (!walletClient || !orchestratorAccount) {
+  paymentRequest: X402PaymentRequest,
+  onSubmitted?: (txHash: `0x${string}`) => Promise<void>
+): Promise<X402Payment> {
+  if (!orchestratorAccount) {
     throw new Error('Orchestrator wallet not configured');
   }
 
+  if (acceptsScheme(paymentRequest, 'authorization')) {
+    const authorization = await signTransferAuthorization(orchestratorAccount, paymentRequest);
+    console.log(`[Orchestrator Core] Signed transfer authorization:`, {
+      from: authorization.from,
+      to: authorization.to,
+      value: authorization.value,
+      nonce: authorization.nonce,
+    });
+    return authorization;
+  }
+
+  const { recipient, amount, token, chainId } = paymentRequest;
+
   console.log(`[Orchestrator Core] Executing A2A payment:`, {
     from: orchestratorAccount.address,
     to: recipient,
     amount,
     token,
+    chainId,
+  });
+
+  // Viem client for the chain the agent wants to be paid on
+  const { chain } = getChainConfig(chainId);
+  const walletClient = createWalletClient({
+    account: orchestratorAccount,
+    chain,
+    transport: http(getRpcUrl(chainId)),
   });
 
   // ERC20 Transfer ABI
@@ -245,31 +868,50 @@ async function executeA2APayment(
     },
   ] as const;
 
-  // Execute USDC transfer
+  // Execute token transfer
   const txHash = await walletClient.writeContract({
     address: token as `0x${string}`,
     abi: transferAbi,
     functionName: 'transfer',
     args: [recipient as `0x${string}`, BigInt(amount)],
-    chain: baseSepolia,
+    chain,
     account: orchestratorAccount,
   });
 
   console.log(`[Orchestrator Core] Payment transaction:`, txHash);
+  await onSubmitted?.(txHash);
+
+  return confirmA2ATransfer(paymentRequest, txHash);
+}
+
+/**
+ * Wait for a transfer to confirm and build its X402 payment proof
+ */
+async function confirmA2ATransfer(paymentRequest: X402PaymentRequest, txHash: `0x${string}`): Promise<X402Payment> {
+  if (!orchestratorAccount) {
+    throw new Error('Orchestrator wallet not configured');
+  }
+
+  const { recipient, amount, token, chainId } = paymentRequest;
 
   // Wait for confirmation
-  const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+  const receipt = await getX402PublicClient(chainId).waitForTransactionReceipt({ hash: txHash });
   console.log(`[Orchestrator Core] Payment confirmed in block:`, receipt.blockNumber);
 
+  if (receipt.status !== 'success') {
+    throw new Error(`Payment transaction ${txHash} reverted`);
+  }
+
   // Create payment proof for X402
   const paymentProof = {
     from: orchestratorAccount.address,
     to: recipient,
     amount,
     token,
+    chainId,
     txHash,
     blockNumber: receipt.blockNumber.toString(),
-    timestamp: Math.floor(Date.now() / 1000),
+    timestamp: Date.now(),
   };
 
   return paymentProof;
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { findTagline, formatUpstreamContext, getExecutionOrder, validateMissionGraph } from './dag';
+
+describe('validateMissionGraph', () => {
+  it('groups agents into levels after their dependencies', () => {
+    const validation = validateMissionGraph([
+      { agentId: 'logo', dependsOn: ['copy'] },
+      { agentId: 'copy' },
+      { agentId: 'social', dependsOn: ['copy', 'logo'] },
+    ]);
+
+    expect(validation).toEqual({ valid: true, levels: [['copy'], ['logo'], ['social']] });
+  });
+
+  it('rejects a dependency cycle and reports it in dependency order', () => {
+    const validation = validateMissionGraph([
+      { agentId: 'a', dependsOn: ['c'] },
+      { agentId: 'b', dependsOn: ['a'] },
+      { agentId: 'c', dependsOn: ['b'] },
+    ]);
+
+    expect(validation.valid).toBe(false);
+    expect(validation.cycle).toEqual(['a', 'c', 'b', 'a']);
+    expect(validation.error).toBe('Dependency cycle: a -> c -> b -> a');
+  });
+
+  it('rejects an agent that depends on itself', () => {
+    expect(validateMissionGraph([{ agentId: 'a', dependsOn: ['a'] }])).toMatchObject({
+      valid: false,
+      error: 'Agent a depends on itself',
+      cycle: ['a', 'a'],
+    });
+  });
+
+  it('rejects a dependency outside the mission', () => {
+    expect(validateMissionGraph([{ agentId: 'a', dependsOn: ['ghost'] }])).toMatchObject({
+      valid: false,
+      error: 'Agent a depends on ghost, which is not part of the mission',
+    });
+  });
+
+  it('rejects an agent listed twice', () => {
+    expect(validateMissionGraph([{ agentId: 'a' }, { agentId: 'a' }])).toMatchObject({
+      valid: false,
+      error: 'Agent a appears more than once',
+    });
+  });
+});
+
+describe('getExecutionOrder', () => {
+  it('throws for an invalid graph', () => {
+    expect(() => getExecutionOrder([{ agentId: 'a', dependsOn: ['b'] }, { agentId: 'b', dependsOn: ['a'] }])).toThrow(
+      'Dependency cycle'
+    );
+  });
+});
+
+describe('upstream context', () => {
+  const copy = {
+    agentId: 'copy',
+    name: 'CopyWriter AI',
+    capability: 'copywriting',
+    deliverableUri: 'https://gateway.pinata.cloud/ipfs/Qm1',
+    result: { content: { taglines: ['Gigs done fast', 'Hire in minutes'] } },
+  };
+
+  it('renders upstream deliverables as prompt context', () => {
+    const context = formatUpstreamContext([copy]);
+
+    expect(context).toContain('## CopyWriter AI (copywriting)');
+    expect(context).toContain('Deliverable: https://gateway.pinata.cloud/ipfs/Qm1');
+    expect(context).toContain('"Gigs done fast"');
+    expect(formatUpstreamContext([])).toBe('');
+  });
+
+  it('finds the first tagline of an upstream copywriter', () => {
+    expect(findTagline([{ agentId: 'logo', name: 'Logo', capability: 'design' }, copy])).toBe('Gigs done fast');
+    expect(findTagline()).toBeNull();
+  });
+});
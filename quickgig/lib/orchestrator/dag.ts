@@ -0,0 +1,163 @@
+/**
+ * Mission Dependency Graph
+ * Validation and ordering for missions deployed in 'dag' orchestration mode,
+ * where each sub-agent lists the agents whose outputs it consumes (dependsOn)
+ *
+ * Kept free of app imports so the Express agents can share the upstream types
+ */
+
+export interface MissionGraphNode {
+  agentId: string;
+  dependsOn?: string[]; // Agent IDs that must complete first
+}
+
+export interface MissionGraphValidation {
+  valid: boolean;
+  error?: string;
+  cycle?: string[]; // Agent IDs forming a cycle, first ID repeated at the end
+  levels: string[][]; // Agent IDs grouped by depth - each level only depends on earlier ones
+}
+
+/**
+ * Output of a completed upstream agent, passed to the agents that depend on it
+ */
+export interface UpstreamOutput {
+  agentId: string;
+  name: string;
+  capability: string;
+  deliverableUri?: string;
+  result?: Record<string, unknown>;
+}
+
+const MAX_UPSTREAM_CONTEXT = 2000; // Characters of each upstream result included in prompts
+
+/**
+ * Validate a mission graph: unique agents, known dependencies and no cycles
+ */
+export function validateMissionGraph(nodes: MissionGraphNode[]): MissionGraphValidation {
+  const ids = new Set<string>();
+
+  for (const node of nodes) {
+    if (ids.has(node.agentId)) {
+      return { valid: false, error: `Agent ${node.agentId} appears more than once`, levels: [] };
+    }
+    ids.add(node.agentId);
+  }
+
+  for (const node of nodes) {
+    for (const dependency of node.dependsOn || []) {
+      if (dependency === node.agentId) {
+        return {
+          valid: false,
+          error: `Agent ${node.agentId} depends on itself`,
+          cycle: [node.agentId, node.agentId],
+          levels: [],
+        };
+      }
+      if (!ids.has(dependency)) {
+        return {
+          valid: false,
+          error: `Agent ${node.agentId} depends on ${dependency}, which is not part of the mission`,
+          levels: [],
+        };
+      }
+    }
+  }
+
+  // Kahn's algorithm, one level at a time
+  const remaining = new Map(nodes.map((node) => [node.agentId, new Set(node.dependsOn || [])]));
+  const levels: string[][] = [];
+
+  while (remaining.size > 0) {
+    const ready = [...remaining.entries()]
+      .filter(([, dependencies]) => dependencies.size === 0)
+      .map(([agentId]) => agentId);
+
+    if (ready.length === 0) {
+      const cycle = findCycle(remaining);
+      return {
+        valid: false,
+        error: `Dependency cycle: ${cycle.join(' -> ')}`,
+        cycle,
+        levels: [],
+      };
+    }
+
+    for (const agentId of ready) {
+      remaining.delete(agentId);
+    }
+    for (const dependencies of remaining.values()) {
+      ready.forEach((agentId) => dependencies.delete(agentId));
+    }
+
+    levels.push(ready);
+  }
+
+  return { valid: true, levels };
+}
+
+/**
+ * Walk dependencies from any unresolved node until one repeats
+ * Every unresolved node has an unresolved dependency, so the walk must loop
+ */
+function findCycle(remaining: Map<string, Set<string>>): string[] {
+  const path: string[] = [];
+  let current = remaining.keys().next().value as string;
+
+  while (!path.includes(current)) {
+    path.push(current);
+    current = [...remaining.get(current)!][0];
+  }
+
+  // Report the cycle in dependency order (A -> B means A depends on B)
+  return [...path.slice(path.indexOf(current)), current];
+}
+
+/**
+ * Order nodes so every agent comes after the agents it depends on
+ */
+export function getExecutionOrder(nodes: MissionGraphNode[]): string[] {
+  const validation = validateMissionGraph(nodes);
+  if (!validation.valid) {
+    throw new Error(validation.error);
+  }
+  return validation.levels.flat();
+}
+
+/**
+ * Render upstream outputs as prompt context for a downstream agent
+ */
+export function formatUpstreamContext(upstream: UpstreamOutput[] = []): string {
+  if (upstream.length === 0) return '';
+
+  const sections = upstream.map((output) => {
+    const lines = [`## ${output.name} (${output.capability})`];
+
+    if (output.deliverableUri) {
+      lines.push(`Deliverable: ${output.deliverableUri}`);
+    }
+
+    const content = output.result?.content ?? output.result;
+    if (content) {
+      const text = typeof content === 'string' ? content : JSON.stringify(content);
+      lines.push(text.length > MAX_UPSTREAM_CONTEXT ? `${text.slice(0, MAX_UPSTREAM_CONTEXT)}...` : text);
+    }
+
+    return lines.join('\n');
+  });
+
+  return `Build on the work already delivered by other agents in this mission:\n\n${sections.join('\n\n')}`;
+}
+
+/**
+ * First tagline delivered by an upstream copywriting agent
+ */
+export function findTagline(upstream: UpstreamOutput[] = []): string | null {
+  for (const output of upstream) {
+    const content = output.result?.content as { taglines?: string[] } | undefined;
+    if (content?.taglines?.length) {
+      return content.taglines[0];
+    }
+  }
+  return null;
+}
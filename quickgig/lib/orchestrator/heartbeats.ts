@@ -0,0 +1,281 @@
+/**
+ * Agent Heartbeats
+ * Agents POST to /api/agents/[agentId]/heartbeat on an interval, reporting the jobs they are
+ * running against their declared maximum and a rolling health status, signed (EIP-712) by
+ * their registered wallet. Recommendations, the mission wizard and the orchestrator skip agents
+ * that are unhealthy, at capacity or whose heartbeats stopped.
+ */
+
+import axios from 'axios';
+import type { Address, Hex, LocalAccount } from 'viem';
+import { getDefaultChainId, getX402PublicClient } from '../x402/chains';
+import type { AgentHealthStatus, AgentProfile } from '../supabase/agents';
+
+export interface AgentHeartbeat {
+  agentId: string;
+  activeJobs: number;
+  maxConcurrentJobs: number;
+  health: AgentHealthStatus;
+}
+
+/**
+ * Body POSTed to the heartbeat route
+ */
+export interface SignedAgentHeartbeat extends AgentHeartbeat {
+  issuedAt: number; // Unix seconds - must be later than the last accepted heartbeat
+  signature: Hex;
+}
+
+// unknown - the agent never sent a heartbeat; offline - its heartbeats stopped
+export type AgentCapacityStatus = 'available' | 'degraded' | 'saturated' | 'unhealthy' | 'offline' | 'unknown';
+
+/**
+ * Whether an agent takes new work, from its last heartbeat
+ */
+export interface AgentCapacity {
+  status: AgentCapacityStatus;
+  acceptingWork: boolean; // available, degraded or unknown
+  reason: string; // Shown next to the agent, e.g. "At capacity (3/3 jobs)"
+  activeJobs: number | null;
+  maxConcurrentJobs: number | null;
+  health: AgentHealthStatus | null;
+  lastHeartbeatAt: string | null;
+}
+
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 30_000;
+
+/**
+ * Agents whose last heartbeat is older than this are treated as offline
+ */
+export const HEARTBEAT_TTL_SECONDS = Number(process.env.AGENT_HEARTBEAT_TTL_SECONDS) || 120;
+
+/**
+ * How old (or how far in the future) a heartbeat may be when it arrives
+ */
+export const HEARTBEAT_MAX_AGE_SECONDS = 60;
+
+export const AGENT_HEARTBEAT_TYPES = {
+  AgentHeartbeat: [
+    { name: 'agentId', type: 'string' },
+    { name: 'activeJobs', type: 'uint32' },
+    { name: 'maxConcurrentJobs', type: 'uint32' },
+    { name: 'health', type: 'string' },
+    { name: 'issuedAt', type: 'uint256' },
+  ],
+} as const;
+
+const HEALTH_STATUSES: AgentHealthStatus[] = ['healthy', 'degraded', 'unhealthy'];
+
+// Rolling health - the share of failed jobs among the last HEALTH_WINDOW_SIZE
+const HEALTH_WINDOW_SIZE = 20;
+const HEALTH_MIN_SAMPLES = 4; // A single early failure doesn't make an agent unhealthy
+const DEGRADED_FAILURE_RATE = 0.2;
+const UNHEALTHY_FAILURE_RATE = 0.5;
+
+/**
+ * Build EIP-712 typed data for signing or verifying a heartbeat
+ */
+export function getAgentHeartbeatTypedData(heartbeat: AgentHeartbeat, issuedAt: number) {
+  return {
+    domain: {
+      name: 'QuickGig Agent Heartbeat',
+      version: '1',
+      chainId: getDefaultChainId(),
+    },
+    types: AGENT_HEARTBEAT_TYPES,
+    primaryType: 'AgentHeartbeat' as const,
+    message: {
+      agentId: heartbeat.agentId,
+      activeJobs: heartbeat.activeJobs,
+      maxConcurrentJobs: heartbeat.maxConcurrentJobs,
+      health: heartbeat.health,
+      issuedAt: BigInt(issuedAt),
+    },
+  };
+}
+
+// ============================================================================
+// AGENT SIDE
+// ============================================================================
+
+/**
+ * Track job outcomes for the rolling health status an agent reports
+ */
+export function createHealthTracker(windowSize = HEALTH_WINDOW_SIZE) {
+  const outcomes: boolean[] = [];
+
+  return {
+    record(success: boolean) {
+      outcomes.push(success);
+      if (outcomes.length > windowSize) outcomes.shift();
+    },
+    getStatus(): AgentHealthStatus {
+      if (outcomes.length < HEALTH_MIN_SAMPLES) return 'healthy';
+
+      const failureRate = outcomes.filter((success) => !success).length / outcomes.length;
+      if (failureRate >= UNHEALTHY_FAILURE_RATE) return 'unhealthy';
+      return failureRate >= DEGRADED_FAILURE_RATE ? 'degraded' : 'healthy';
+    },
+  };
+}
+
+/**
+ * Sign a heartbeat, returning the body to POST to the heartbeat route
+ */
+export async function signAgentHeartbeat(
+  account: LocalAccount,
+  heartbeat: AgentHeartbeat
+): Promise<SignedAgentHeartbeat> {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const signature = await account.signTypedData(getAgentHeartbeatTypedData(heartbeat, issuedAt));
+
+  return { ...heartbeat, issuedAt, signature };
+}
+
+/**
+ * Send heartbeats on an interval (AGENT_HEARTBEAT_INTERVAL_MS) until stopped
+ * The platform is reached at CALLBACK_BASE_URL, the same base URL mission callbacks use
+ */
+export function startHeartbeat(options: {
+  account: LocalAccount;
+  agentId: string;
+  agentName: string;
+  maxConcurrentJobs: number;
+  getActiveJobs: () => number;
+  getHealth: () => AgentHealthStatus;
+  apiUrl?: string;
+  intervalMs?: number;
+}): { stop: () => Promise<void> } {
+  const apiUrl = options.apiUrl || process.env.CALLBACK_BASE_URL || process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000';
+  const intervalMs = options.intervalMs || Number(process.env.AGENT_HEARTBEAT_INTERVAL_MS) || DEFAULT_HEARTBEAT_INTERVAL_MS;
+  const url = `${apiUrl}/api/agents/${encodeURIComponent(options.agentId)}/heartbeat`;
+
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running: Promise<void> = Promise.resolve();
+
+  const send = () => {
+    running = signAgentHeartbeat(options.account, {
+      agentId: options.agentId,
+      activeJobs: options.getActiveJobs(),
+      maxConcurrentJobs: options.maxConcurrentJobs,
+      health: options.getHealth(),
+    })
+      .then((heartbeat) => axios.post(url, heartbeat, { timeout: 10_000 }))
+      .then(() => undefined)
+      .catch((error) => {
+        const message = axios.isAxiosError(error) ? error.response?.data?.error || error.message : error;
+        console.warn(`[${options.agentName}] Heartbeat failed:`, message);
+      })
+      .finally(() => {
+        if (!stopped) timer = setTimeout(send, intervalMs);
+      });
+  };
+
+  console.log(`[${options.agentName}] Sending heartbeats every ${Math.round(intervalMs / 1000)}s`);
+  send();
+
+  return {
+    stop: async () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      await running;
+    },
+  };
+}
+
+// ============================================================================
+// ROUTE SIDE
+// ============================================================================
+
+/**
+ * Check a heartbeat body's shape and freshness, returns an error message or null
+ */
+export function validateAgentHeartbeat(body: Partial<SignedAgentHeartbeat>): string | null {
+  if (!body.agentId || typeof body.agentId !== 'string') return 'agentId is required';
+  if (!Number.isInteger(body.maxConcurrentJobs) || body.maxConcurrentJobs! < 1) {
+    return 'maxConcurrentJobs must be a positive integer';
+  }
+  if (!Number.isInteger(body.activeJobs) || body.activeJobs! < 0) {
+    return 'activeJobs must be a non-negative integer';
+  }
+  if (!body.health || !HEALTH_STATUSES.includes(body.health)) {
+    return `health must be one of: ${HEALTH_STATUSES.join(', ')}`;
+  }
+  if (!body.signature || typeof body.issuedAt !== 'number') {
+    return 'Heartbeat must be signed (signature, issuedAt)';
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (Math.abs(now - body.issuedAt) > HEARTBEAT_MAX_AGE_SECONDS) {
+    return 'Heartbeat expired';
+  }
+
+  return null;
+}
+
+/**
+ * Find which of the agent's registered addresses signed the heartbeat (null if none did)
+ */
+export async function recoverHeartbeatSigner(
+  heartbeat: SignedAgentHeartbeat,
+  addresses: Address[]
+): Promise<Address | null> {
+  const typedData = getAgentHeartbeatTypedData(heartbeat, heartbeat.issuedAt);
+  const client = getX402PublicClient();
+
+  for (const address of addresses) {
+    try {
+      if (await client.verifyTypedData({ address, signature: heartbeat.signature, ...typedData })) {
+        return address;
+      }
+    } catch (error) {
+      console.warn(`[Agent Heartbeats] Signature check against ${address} failed:`, error);
+    }
+  }
+
+  return null;
+}
+
+// ============================================================================
+// CAPACITY
+// ============================================================================
+
+/**
+ * Whether an agent takes new work
+ * Agents that never sent a heartbeat (human agents, older services) are assumed to,
+ * the rest have to be heartbeating, not unhealthy and below their declared maximum.
+ */
+export function getAgentCapacity(
+  profile: Pick<AgentProfile, 'active_jobs' | 'max_concurrent_jobs' | 'health_status' | 'last_heartbeat_at'>,
+  now = Date.now()
+): AgentCapacity {
+  const activeJobs = profile.active_jobs ?? null;
+  const maxConcurrentJobs = profile.max_concurrent_jobs ?? null;
+  const health = profile.health_status ?? null;
+  const lastHeartbeatAt = profile.last_heartbeat_at ?? null;
+  const state = { activeJobs, maxConcurrentJobs, health, lastHeartbeatAt };
+
+  if (!lastHeartbeatAt) {
+    return { status: 'unknown', acceptingWork: true, reason: 'No heartbeat reported', ...state };
+  }
+
+  const silentSeconds = (now - new Date(lastHeartbeatAt).getTime()) / 1000;
+  if (silentSeconds > HEARTBEAT_TTL_SECONDS) {
+    const minutes = Math.round(silentSeconds / 60);
+    return { status: 'offline', acceptingWork: false, reason: `No heartbeat for ${minutes} min`, ...state };
+  }
+
+  if (health === 'unhealthy') {
+    return { status: 'unhealthy', acceptingWork: false, reason: 'Reports unhealthy', ...state };
+  }
+
+  const jobs = `${activeJobs ?? 0}/${maxConcurrentJobs ?? '?'} jobs`;
+  if (activeJobs !== null && maxConcurrentJobs !== null && activeJobs >= maxConcurrentJobs) {
+    return { status: 'saturated', acceptingWork: false, reason: `At capacity (${jobs})`, ...state };
+  }
+
+  return health === 'degraded'
+    ? { status: 'degraded', acceptingWork: true, reason: `Degraded, ${jobs}`, ...state }
+    : { status: 'available', acceptingWork: true, reason: jobs, ...state };
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_STEP_POLICY, getRetryDelay, resolveStepPolicy, validateStepPolicy } from './policy';
+
+describe('resolveStepPolicy', () => {
+  it('layers the step policy over the mission policy over the defaults', () => {
+    const policy = resolveStepPolicy(
+      { maxRetries: 2, backoffMs: 1000, fallbackAgentIds: ['agent-b'] },
+      { maxRetries: 1, continueOnFailure: true, backoffMs: undefined }
+    );
+
+    expect(policy).toEqual({
+      ...DEFAULT_STEP_POLICY,
+      maxRetries: 1,
+      backoffMs: 1000,
+      continueOnFailure: true,
+      fallbackAgentIds: ['agent-b'],
+    });
+  });
+
+  it('clamps values to the allowed ranges', () => {
+    const policy = resolveStepPolicy({ maxRetries: 50, backoffMs: -1, timeoutMs: 10, maxFallbacks: 2.7 });
+
+    expect(policy).toMatchObject({ maxRetries: 5, backoffMs: 0, timeoutMs: 1000, maxFallbacks: 2 });
+  });
+});
+
+describe('validateStepPolicy', () => {
+  it('accepts a missing or valid policy', () => {
+    expect(validateStepPolicy(undefined)).toBeNull();
+    expect(validateStepPolicy({ maxRetries: 3, fallbackAgentIds: ['agent-b'] })).toBeNull();
+  });
+
+  it('rejects out of range values and too many fallbacks', () => {
+    expect(validateStepPolicy({ maxRetries: 6 })).toBe('maxRetries must be a number between 0 and 5');
+    expect(validateStepPolicy({ timeoutMs: 'soon' as unknown as number })).toBe(
+      'timeoutMs must be a number between 1000 and 3600000'
+    );
+    expect(validateStepPolicy({ fallbackAgentIds: ['a', 'b', 'c', 'd', 'e', 'f'] })).toBe(
+      'fallbackAgentIds must be a list of at most 5 agent IDs'
+    );
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('doubles the backoff for each retry up to the cap', () => {
+    const policy = resolveStepPolicy({ backoffMs: 1000 });
+
+    expect([1, 2, 3].map((retry) => getRetryDelay(policy, retry))).toEqual([1000, 2000, 4000]);
+    expect(getRetryDelay(resolveStepPolicy({ backoffMs: 5 * 60 * 1000 }), 4)).toBe(5 * 60 * 1000);
+  });
+});
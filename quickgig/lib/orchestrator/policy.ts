@@ -0,0 +1,92 @@
+/**
+ * Mission Step Policies
+ * Retry, timeout and fallback rules for each agent step of a mission
+ *
+ * A mission sets defaults in MissionPayload.policy, each sub-agent can override them
+ */
+
+export interface StepPolicy {
+  maxRetries?: number; // Extra attempts on the same agent after the first one fails
+  backoffMs?: number; // Delay before the first retry, doubled for each retry after it
+  timeoutMs?: number; // Per attempt - covers the execute call and waiting for the deliverable
+  fallbackAgentIds?: string[]; // Agents to hand the step to once retries run out, tried in order
+  maxFallbacks?: number; // Without fallbackAgentIds, try this many agents with the same capability
+  continueOnFailure?: boolean; // Let the rest of the mission run if this step fails
+}
+
+export type ResolvedStepPolicy = Required<Omit<StepPolicy, 'fallbackAgentIds'>> &
+  Pick<StepPolicy, 'fallbackAgentIds'>;
+
+export const DEFAULT_STEP_POLICY: ResolvedStepPolicy = {
+  maxRetries: 0,
+  backoffMs: 5000,
+  timeoutMs: 15 * 60 * 1000,
+  maxFallbacks: 0,
+  continueOnFailure: false,
+};
+
+const MAX_RETRIES = 5;
+const MAX_BACKOFF = 5 * 60 * 1000;
+const MAX_TIMEOUT = 60 * 60 * 1000;
+const MAX_FALLBACKS = 5;
+
+/**
+ * Merge mission defaults and a step's own policy over the built-in defaults
+ */
+export function resolveStepPolicy(missionPolicy?: StepPolicy, stepPolicy?: StepPolicy): ResolvedStepPolicy {
+  const merged = { ...DEFAULT_STEP_POLICY, ...stripUndefined(missionPolicy), ...stripUndefined(stepPolicy) };
+
+  return {
+    ...merged,
+    maxRetries: clamp(merged.maxRetries, 0, MAX_RETRIES),
+    backoffMs: clamp(merged.backoffMs, 0, MAX_BACKOFF),
+    timeoutMs: clamp(merged.timeoutMs, 1000, MAX_TIMEOUT),
+    maxFallbacks: clamp(merged.maxFallbacks, 0, MAX_FALLBACKS),
+  };
+}
+
+/**
+ * Check a policy from a request body, returns an error message or null
+ */
+export function validateStepPolicy(policy: StepPolicy | undefined): string | null {
+  if (!policy) return null;
+
+  const numbers: Array<[keyof StepPolicy, number, number]> = [
+    ['maxRetries', 0, MAX_RETRIES],
+    ['backoffMs', 0, MAX_BACKOFF],
+    ['timeoutMs', 1000, MAX_TIMEOUT],
+    ['maxFallbacks', 0, MAX_FALLBACKS],
+  ];
+
+  for (const [key, min, max] of numbers) {
+    const value = policy[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+      return `${key} must be a number between ${min} and ${max}`;
+    }
+  }
+
+  if (policy.fallbackAgentIds !== undefined &&
+      (!Array.isArray(policy.fallbackAgentIds) || policy.fallbackAgentIds.length > MAX_FALLBACKS)) {
+    return `fallbackAgentIds must be a list of at most ${MAX_FALLBACKS} agent IDs`;
+  }
+
+  return null;
+}
+
+/**
+ * Delay before retry number `retry` (1-based)
+ */
+export function getRetryDelay(policy: ResolvedStepPolicy, retry: number): number {
+  return Math.min(policy.backoffMs * 2 ** (retry - 1), MAX_BACKOFF);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(Math.floor(Number(value) || 0), min), max);
+}
+
+function stripUndefined(policy?: StepPolicy): StepPolicy {
+  return Object.fromEntries(
+    Object.entries(policy || {}).filter(([, value]) => value !== undefined)
+  ) as StepPolicy;
+}
@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Address } from 'viem';
+import { baseSepolia } from 'viem/chains';
+import { getPayment, type PaymentTransaction } from '../supabase/agents';
+import {
+  decidePaymentApproval,
+  getPaymentApproval,
+  recordRejectedPayment,
+  requestPaymentApproval,
+  reserveAgentPayment,
+  type PaymentApproval,
+} from '../supabase/payment-approvals';
+import { authorizeAgentPayment, getSpendLimits, type AgentSpendRequest } from './spend-guard';
+
+const wallet = vi.hoisted(() => ({ balance: 0n }));
+
+// Balances come from the test instead of an RPC node
+vi.mock('../x402/chains', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../x402/chains')>()),
+  getX402PublicClient: () => ({
+    readContract: async () => wallet.balance,
+  }),
+}));
+
+vi.mock('../supabase/agents', () => ({
+  getPayment: vi.fn(),
+  updatePayment: vi.fn(),
+}));
+
+vi.mock('../supabase/payment-approvals', () => ({
+  decidePaymentApproval: vi.fn(),
+  getPaymentApproval: vi.fn(),
+  recordRejectedPayment: vi.fn(),
+  requestPaymentApproval: vi.fn(),
+  reserveAgentPayment: vi.fn(),
+}));
+
+const USDC: Address = '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
+const ORCHESTRATOR: Address = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const AGENT: Address = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+const STEP = { mission_id: 'mission-1', step_agent_id: 'step-1', agent_id: 'agent-1', attempt: 1 };
+
+/**
+ * Spend request for a payment of `amount` USDC
+ */
+function spendRequest(amount: number, agreedPrice = amount): AgentSpendRequest {
+  return {
+    step: STEP,
+    payer: ORCHESTRATOR,
+    agreedPrice,
+    missionBudget: 1000,
+    paymentRequest: {
+      amount: String(amount * 1e6),
+      token: USDC,
+      recipient: AGENT,
+      chainId: baseSepolia.id,
+    },
+  };
+}
+
+function reserved(id: number, amount: number): PaymentTransaction {
+  return { id, from_address: ORCHESTRATOR, to_address: AGENT, amount, token_address: USDC, status: 'reserved' };
+}
+
+function approval(status: PaymentApproval['status'], paymentId = 7): PaymentApproval {
+  return { ...STEP, id: 3, payment_id: paymentId, amount: 150, status } as PaymentApproval;
+}
+
+const OPTIONS = { deadline: Infinity };
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  vi.unstubAllEnvs();
+  wallet.balance = 1000n * 10n ** 6n;
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('authorizeAgentPayment', () => {
+  it('reserves a payment within the agreed price', async () => {
+    vi.mocked(reserveAgentPayment).mockResolvedValue(reserved(1, 50));
+
+    await expect(authorizeAgentPayment(spendRequest(50), OPTIONS)).resolves.toMatchObject({ id: 1 });
+    expect(reserveAgentPayment).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: 50, to: AGENT }),
+      { missionBudget: 1000, dailyCap: 500, recipientCap: 200 },
+      undefined
+    );
+  });
+
+  it('rejects a price above the agreed price', async () => {
+    await expect(authorizeAgentPayment(spendRequest(60, 50), OPTIONS)).rejects.toThrow(
+      'Agent asked for 60 USDC, agreed price is 50'
+    );
+    expect(recordRejectedPayment).toHaveBeenCalledOnce();
+    expect(reserveAgentPayment).not.toHaveBeenCalled();
+  });
+
+  it('rejects a payment the wallet balance cannot cover', async () => {
+    wallet.balance = 10n * 10n ** 6n;
+
+    await expect(authorizeAgentPayment(spendRequest(50), OPTIONS)).rejects.toThrow(
+      'Orchestrator wallet holds 10 USDC, needs 50'
+    );
+    expect(recordRejectedPayment).toHaveBeenCalledOnce();
+    expect(reserveAgentPayment).not.toHaveBeenCalled();
+  });
+
+  it('waits for approval of a payment over the threshold', async () => {
+    vi.useFakeTimers();
+    vi.mocked(requestPaymentApproval).mockResolvedValue(approval('pending'));
+    vi.mocked(getPaymentApproval).mockResolvedValue(approval('approved'));
+    vi.mocked(reserveAgentPayment).mockResolvedValue(reserved(7, 150));
+
+    const result = authorizeAgentPayment(spendRequest(150), OPTIONS);
+    await vi.advanceTimersByTimeAsync(5000);
+
+    await expect(result).resolves.toMatchObject({ id: 7 });
+    expect(reserveAgentPayment).toHaveBeenCalledWith(expect.anything(), expect.anything(), 7);
+  });
+
+  it('expires an approval that is not given before the deadline', async () => {
+    vi.mocked(requestPaymentApproval).mockResolvedValue(approval('pending'));
+    vi.mocked(decidePaymentApproval).mockResolvedValue({ ...approval('expired'), reason: 'Approval timed out' });
+
+    await expect(authorizeAgentPayment(spendRequest(150), { deadline: Date.now() - 1 })).rejects.toThrow(
+      'Payment to agent agent-1 rejected: Approval timed out'
+    );
+    expect(decidePaymentApproval).toHaveBeenCalledWith(3, 'expired', { reason: 'Approval timed out' });
+    expect(reserveAgentPayment).not.toHaveBeenCalled();
+  });
+
+  it('reuses an approved payment another run already reserved', async () => {
+    vi.mocked(requestPaymentApproval).mockResolvedValue(approval('approved'));
+    vi.mocked(reserveAgentPayment).mockResolvedValue(null);
+    vi.mocked(getPayment).mockResolvedValue(reserved(7, 150));
+
+    await expect(authorizeAgentPayment(spendRequest(150), OPTIONS)).resolves.toMatchObject({ id: 7 });
+    expect(getPayment).toHaveBeenCalledWith(7);
+  });
+});
+
+describe('getSpendLimits', () => {
+  it('reads limits from env and disables them with none', () => {
+    vi.stubEnv('ORCHESTRATOR_DAILY_SPEND_CAP', '50');
+    vi.stubEnv('ORCHESTRATOR_APPROVAL_THRESHOLD', 'none');
+
+    expect(getSpendLimits()).toEqual({ dailyCap: 50, recipientDailyCap: 200, approvalThreshold: null });
+  });
+
+  it('throws for an invalid limit', () => {
+    vi.stubEnv('ORCHESTRATOR_RECIPIENT_DAILY_CAP', 'lots');
+
+    expect(() => getSpendLimits()).toThrow("ORCHESTRATOR_RECIPIENT_DAILY_CAP must be a non-negative number or 'none'");
+  });
+});
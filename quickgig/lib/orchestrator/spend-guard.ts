@@ -0,0 +1,240 @@
+/**
+ * Orchestrator Spend Guard
+ * Checks every payment an agent asks the orchestrator wallet for before it is made:
+ * the agreed per-agent price, the mission budget, daily caps and the wallet balance.
+ * Payments above the approval threshold wait for a human decision. Every attempt is
+ * recorded in payment_transactions (purpose 'agent_to_agent'), rejected ones with the reason.
+ */
+
+import { erc20Abi, formatUnits, parseUnits, type Address } from 'viem';
+import { getTokenConfig, getX402PublicClient } from '../x402/chains';
+import type { X402PaymentRequest } from '../x402/types';
+import { getPayment, updatePayment, type PaymentTransaction } from '../supabase/agents';
+import {
+  decidePaymentApproval,
+  getPaymentApproval,
+  recordRejectedPayment,
+  requestPaymentApproval,
+  reserveAgentPayment,
+  type AgentPaymentParams,
+} from '../supabase/payment-approvals';
+import type { StepCheckpointKey } from '../supabase/mission-jobs';
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+/**
+ * Spend limits of the orchestrator wallet, in token units (USDC)
+ * null disables a limit
+ */
+export interface SpendLimits {
+  dailyCap: number | null; // All agent payments in a rolling 24h
+  recipientDailyCap: number | null; // Payments to one recipient in a rolling 24h
+  approvalThreshold: number | null; // Payments above this wait for manual approval
+}
+
+const DEFAULT_SPEND_LIMITS: SpendLimits = {
+  dailyCap: 500,
+  recipientDailyCap: 200,
+  approvalThreshold: 100,
+};
+
+const APPROVAL_POLL_INTERVAL = 5000;
+
+/**
+ * Read a limit from env - unset keeps the default, 'none' disables it
+ */
+function readLimit(name: string, fallback: number | null): number | null {
+  const value = process.env[name]?.trim();
+  if (!value) return fallback;
+  if (value.toLowerCase() === 'none') return null;
+
+  const limit = Number(value);
+  if (!Number.isFinite(limit) || limit < 0) {
+    throw new Error(`${name} must be a non-negative number or 'none'`);
+  }
+  return limit;
+}
+
+/**
+ * Spend limits from env (ORCHESTRATOR_DAILY_SPEND_CAP, ORCHESTRATOR_RECIPIENT_DAILY_CAP,
+ * ORCHESTRATOR_APPROVAL_THRESHOLD)
+ */
+export function getSpendLimits(): SpendLimits {
+  return {
+    dailyCap: readLimit('ORCHESTRATOR_DAILY_SPEND_CAP', DEFAULT_SPEND_LIMITS.dailyCap),
+    recipientDailyCap: readLimit('ORCHESTRATOR_RECIPIENT_DAILY_CAP', DEFAULT_SPEND_LIMITS.recipientDailyCap),
+    approvalThreshold: readLimit('ORCHESTRATOR_APPROVAL_THRESHOLD', DEFAULT_SPEND_LIMITS.approvalThreshold),
+  };
+}
+
+// ============================================================================
+// AUTHORIZATION
+// ============================================================================
+
+export interface AgentSpendRequest {
+  step: StepCheckpointKey; // Step attempt the payment is for
+  payer: Address; // Orchestrator wallet
+  agreedPrice: number; // SubAgent.payment - what the agent was hired for
+  missionBudget: number; // MissionPayload.totalBudget
+  paymentRequest: X402PaymentRequest; // What the agent's 402 asked for
+}
+
+/**
+ * Run a payment through the guardrails
+ * Resolves with the 'reserved' payment attempt to send, throws with the reason if it is
+ * rejected or its approval isn't given before the deadline.
+ */
+export async function authorizeAgentPayment(
+  request: AgentSpendRequest,
+  options: { deadline: number; signal?: AbortSignal }
+): Promise<PaymentTransaction> {
+  const { step, payer, agreedPrice, missionBudget, paymentRequest } = request;
+  const limits = getSpendLimits();
+  const token = getTokenConfig(paymentRequest.chainId, paymentRequest.token);
+
+  const params: AgentPaymentParams = {
+    missionId: step.mission_id,
+    from: payer,
+    to: paymentRequest.recipient,
+    amount: token ? Number(formatUnits(BigInt(paymentRequest.amount), token.decimals)) : 0,
+    token: paymentRequest.token,
+    metadata: {
+      stepAgentId: step.step_agent_id,
+      agentId: step.agent_id,
+      attempt: step.attempt,
+      chainId: paymentRequest.chainId,
+      amountBaseUnits: paymentRequest.amount,
+      agreedPrice,
+    },
+  };
+
+  const reject = async (reason: string): Promise<never> => {
+    await recordRejectedPayment(params, reason);
+    console.warn(`[Spend Guard] Rejected payment to ${step.agent_id}: ${reason}`);
+    throw new Error(`Payment to agent ${step.agent_id} rejected: ${reason}`);
+  };
+
+  if (!token) {
+    return reject(`Unsupported token ${paymentRequest.token} on chain ${paymentRequest.chainId}`);
+  }
+
+  const amount = BigInt(paymentRequest.amount);
+  if (amount > parseUnits(agreedPrice.toString(), token.decimals)) {
+    return reject(`Agent asked for ${params.amount} ${token.symbol}, agreed price is ${agreedPrice}`);
+  }
+
+  let balance: bigint;
+  try {
+    balance = await getX402PublicClient(paymentRequest.chainId).readContract({
+      address: token.address,
+      abi: erc20Abi,
+      functionName: 'balanceOf',
+      args: [payer],
+    });
+  } catch (error) {
+    return reject(`Could not read wallet balance: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  if (balance < amount) {
+    return reject(`Orchestrator wallet holds ${formatUnits(balance, token.decimals)} ${token.symbol}, needs ${params.amount}`);
+  }
+
+  let pendingPaymentId: number | undefined;
+
+  if (limits.approvalThreshold !== null && params.amount > limits.approvalThreshold) {
+    pendingPaymentId = await waitForApproval(step, params, options);
+  }
+
+  const limitParams = {
+    missionBudget,
+    dailyCap: limits.dailyCap,
+    recipientCap: limits.recipientDailyCap,
+  };
+
+  let payment = await reserveAgentPayment(params, limitParams, pendingPaymentId);
+
+  // Approved attempt already reserved by a run that restarted before paying
+  if (!payment && pendingPaymentId) {
+    payment = await getPayment(pendingPaymentId);
+  }
+
+  if (!payment || payment.status !== 'reserved') {
+    const reason = payment?.reason || 'Payment could not be reserved';
+    console.warn(`[Spend Guard] Rejected payment to ${step.agent_id}: ${reason}`);
+    throw new Error(`Payment to agent ${step.agent_id} rejected: ${reason}`);
+  }
+
+  console.log(`[Spend Guard] Reserved ${params.amount} ${token.symbol} for ${step.agent_id} (payment ${payment.id})`);
+  return payment;
+}
+
+/**
+ * Queue a payment for approval and wait for the decision
+ * Returns the pending payment attempt once approved
+ */
+async function waitForApproval(
+  step: StepCheckpointKey,
+  params: AgentPaymentParams,
+  options: { deadline: number; signal?: AbortSignal }
+): Promise<number> {
+  let approval = await requestPaymentApproval(step, params);
+  console.log(`[Spend Guard] Payment of ${params.amount} to ${step.agent_id} awaiting approval ${approval.id}`);
+
+  while (approval.status === 'pending') {
+    options.signal?.throwIfAborted();
+
+    if (Date.now() >= options.deadline) {
+      // null means an approver decided just now - use their decision
+      approval = (await decidePaymentApproval(approval.id, 'expired', { reason: 'Approval timed out' }))
+        || (await getPaymentApproval(approval.id))
+        || { ...approval, status: 'expired' };
+      break;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, APPROVAL_POLL_INTERVAL));
+    approval = (await getPaymentApproval(approval.id)) || approval;
+  }
+
+  if (approval.status !== 'approved') {
+    throw new Error(
+      `Payment to agent ${step.agent_id} rejected: ${approval.reason || `approval ${approval.status}`}`
+    );
+  }
+
+  return approval.payment_id;
+}
+
+// ============================================================================
+// SETTLEMENT
+// ============================================================================
+
+/**
+ * Record the outcome of a reserved payment
+ * 'failed' releases the reservation - only use it when nothing can have been paid
+ */
+export async function settleAgentPayment(
+  paymentId: number | undefined,
+  outcome:
+    | { status: 'confirmed'; txHash?: string; metadata?: Record<string, unknown> }
+    | { status: 'failed'; reason: string }
+): Promise<void> {
+  if (!paymentId) return;
+
+  try {
+    if (outcome.status === 'confirmed') {
+      const payment = await getPayment(paymentId);
+      await updatePayment(paymentId, {
+        status: 'confirmed',
+        tx_hash: outcome.txHash ?? null,
+        metadata: { ...payment?.metadata, ...outcome.metadata },
+      });
+    } else {
+      await updatePayment(paymentId, { status: 'failed', reason: outcome.reason });
+    }
+  } catch (error) {
+    // The reservation stays counted against the caps, which errs on the safe side
+    console.error(`[Spend Guard] Failed to settle payment ${paymentId}:`, error);
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Mission Job Worker
+ * Runs queued mission jobs under a lease, heartbeating while the mission executes.
+ * If a worker dies (or a serverless instance is frozen) its lease runs out and another
+ * worker resumes the mission from its step checkpoints.
+ */
+
+import { hostname } from 'os';
+import { after } from 'next/server';
+import { startMissionOrchestration, type MissionPayload } from './core';
+import {
+  claimMissionJob,
+  enqueueMissionJob,
+  finishMissionJob,
+  heartbeatMissionJob,
+  type MissionJob,
+} from '../supabase/mission-jobs';
+
+export interface MissionWorkerOptions {
+  workerId?: string;
+  leaseSeconds?: number; // How long a job stays claimed without a heartbeat
+  heartbeatMs?: number;
+  pollIntervalMs?: number; // Idle wait between claims when the queue is empty
+}
+
+const DEFAULT_LEASE_SECONDS = 60;
+const DEFAULT_HEARTBEAT_MS = 20 * 1000;
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+/**
+ * Unique ID for this process
+ */
+export function createWorkerId(prefix = 'worker'): string {
+  return `${prefix}:${hostname()}:${process.pid}:${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Run a claimed job to completion, heartbeating its lease
+ * Stops (without failing the mission) if the lease is lost to another worker
+ */
+export async function runMissionJob(job: MissionJob, options: MissionWorkerOptions = {}): Promise<void> {
+  const workerId = options.workerId || createWorkerId();
+  const leaseSeconds = options.leaseSeconds || DEFAULT_LEASE_SECONDS;
+  const controller = new AbortController();
+
+  console.log(`[Mission Worker] Running job ${job.id} for mission ${job.mission_id} (attempt ${job.attempts})`);
+
+  const heartbeat = setInterval(async () => {
+    try {
+      const held = await heartbeatMissionJob(job.id, workerId, leaseSeconds);
+      if (!held) {
+        console.warn(`[Mission Worker] Lost lease on job ${job.id}, stopping`);
+        controller.abort(new Error(`Lease on mission job ${job.id} lost`));
+      }
+    } catch (error) {
+      // Keep going - the lease only lapses if heartbeats keep failing
+      console.error(`[Mission Worker] Heartbeat failed for job ${job.id}:`, error);
+    }
+  }, options.heartbeatMs || DEFAULT_HEARTBEAT_MS);
+
+  try {
+    await startMissionOrchestration(job.payload, { signal: controller.signal });
+    await finishMissionJob(job.id, workerId, 'completed');
+    console.log(`[Mission Worker] Job ${job.id} completed`);
+  } catch (error) {
+    if (controller.signal.aborted) return;
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await finishMissionJob(job.id, workerId, 'failed', message);
+    console.error(`[Mission Worker] Job ${job.id} failed:`, message);
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Claim and run one mission's job right away
+ * Returns false if it is already held by another worker or finished
+ */
+export async function processMissionJob(missionId: string, options: MissionWorkerOptions = {}): Promise<boolean> {
+  const workerId = options.workerId || createWorkerId('inline');
+  const job = await claimMissionJob(workerId, options.leaseSeconds || DEFAULT_LEASE_SECONDS, missionId);
+
+  if (!job) return false;
+
+  await runMissionJob(job, { ...options, workerId });
+  return true;
+}
+
+/**
+ * Queue a mission for orchestration (from a route handler)
+ * Unless a dedicated worker drains the queue (MISSION_WORKER_INLINE=false) the request also runs
+ * it after the response is sent, kept alive with after() - if the function still times out
+ * mid-mission the lease lapses and a worker resumes it
+ */
+export async function queueMissionOrchestration(payload: MissionPayload): Promise<MissionJob> {
+  const job = await enqueueMissionJob(payload);
+  console.log(`[Mission Worker] Queued job ${job.id} for mission ${payload.missionId}`);
+
+  if (process.env.MISSION_WORKER_INLINE !== 'false') {
+    after(async () => {
+      try {
+        await processMissionJob(payload.missionId);
+      } catch (error) {
+        console.error(`[Mission Worker] Inline run failed for mission ${payload.missionId}:`, error);
+      }
+    });
+  }
+
+  return job;
+}
+
+/**
+ * Poll the queue and run jobs one at a time until stopped
+ */
+export function startMissionWorker(options: MissionWorkerOptions = {}): { workerId: string; stop: () => Promise<void> } {
+  const workerId = options.workerId || createWorkerId();
+  const leaseSeconds = options.leaseSeconds || DEFAULT_LEASE_SECONDS;
+  const pollIntervalMs = options.pollIntervalMs || DEFAULT_POLL_INTERVAL_MS;
+  let stopped = false;
+
+  const loop = (async () => {
+    console.log(`[Mission Worker] ${workerId} started`);
+
+    while (!stopped) {
+      try {
+        const job = await claimMissionJob(workerId, leaseSeconds);
+        if (job) {
+          await runMissionJob(job, { ...options, workerId, leaseSeconds });
+          continue;
+        }
+      } catch (error) {
+        console.error('[Mission Worker] Failed to claim job:', error);
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+    }
+
+    console.log(`[Mission Worker] ${workerId} stopped`);
+  })();
+
+  return {
+    workerId,
+    // Finishes the current job first - its lease is released when it ends
+    stop: async () => {
+      stopped = true;
+      await loop;
+    },
+  };
+}
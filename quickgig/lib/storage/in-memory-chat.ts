@@ -11,10 +11,32 @@ export interface ChatSession {
   messages_remaining: number;
   total_paid: string;
   expires_at: string;
+  billing_mode?: SessionBillingMode; // Defaults to 'messages'
+  balance?: string; // Metered sessions: prepaid balance left, in token base units
   created_at?: string;
   updated_at?: string;
 }
 
+/**
+ * How a session is billed
+ * - messages: fixed message allowance (messages_remaining)
+ * - metered: prepaid balance debited per unit consumed (balance)
+ */
+export type SessionBillingMode = 'messages' | 'metered';
+
+export type SessionLedgerKind = 'deposit' | 'debit' | 'refund' | 'carry_over_in' | 'carry_over_out';
+
+export interface SessionLedgerEntry {
+  id?: string;
+  session_id: string;
+  kind: SessionLedgerKind;
+  amount: string; // Token base units
+  unit?: string; // Metered unit for debits ('token' | 'second')
+  quantity?: number; // Units consumed for debits
+  balance_after: string;
+  created_at?: string;
+}
+
 export interface ChatMessage {
   id?: string;
   session_id: string;
@@ -27,6 +49,8 @@ export interface ChatMessage {
 // In-memory storage
 const sessions = new Map<string, ChatSession>();
 const messages = new Map<string, ChatMessage[]>();
+const ledger = new Map<string, SessionLedgerEntry[]>();
+const carryOvers = new Map<string, bigint>(); // `${agentId}:${userAddress}` -> carried-over balance
 
 /**
  * Session management
@@ -71,12 +95,36 @@ export async function updateSession(sessionId: string, updates: Partial<ChatSess
   return updatedSession;
 }
 
+/**
+ * Consume one message from an active session
+ * Check and decrement run in the same tick, so concurrent requests can't overspend
+ */
+export async function consumeSessionMessage(sessionId: string): Promise<ChatSession | null> {
+  const session = sessions.get(sessionId);
+
+  if (!session || session.messages_remaining <= 0 || new Date(session.expires_at) < new Date()) {
+    return null;
+  }
+
+  const updatedSession: ChatSession = {
+    ...session,
+    messages_remaining: session.messages_remaining - 1,
+    updated_at: new Date().toISOString(),
+  };
+
+  sessions.set(sessionId, updatedSession);
+  console.log('[In-Memory Storage] Message used:', sessionId, '-> messages_remaining:', updatedSession.messages_remaining);
+
+  return updatedSession;
+}
+
 export async function deleteExpiredSessions(): Promise<void> {
   const now = new Date();
   let deletedCount = 0;
 
   for (const [sessionId, session] of sessions.entries()) {
-    if (new Date(session.expires_at) < now) {
+    // Keep expired metered sessions until their balance is refunded or carried over
+    if (new Date(session.expires_at) < now && BigInt(session.balance || '0') === 0n) {
       sessions.delete(sessionId);
       messages.delete(sessionId);
       deletedCount++;
@@ -88,6 +136,120 @@ export async function deleteExpiredSessions(): Promise<void> {
   }
 }
 
+/**
+ * Metered balance management
+ * Each function reads and writes the balance in the same tick, so concurrent requests can't overspend
+ */
+
+function appendLedger(entry: Omit<SessionLedgerEntry, 'id' | 'created_at'>): void {
+  const entries = ledger.get(entry.session_id) || [];
+  entries.push({
+    ...entry,
+    id: `ledger_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    created_at: new Date().toISOString(),
+  });
+  ledger.set(entry.session_id, entries);
+}
+
+export async function creditSessionBalance(
+  sessionId: string,
+  amount: bigint,
+  kind: 'deposit' | 'carry_over_in'
+): Promise<ChatSession | null> {
+  const session = sessions.get(sessionId);
+  if (!session) return null;
+
+  const balance = BigInt(session.balance || '0') + amount;
+  const updatedSession: ChatSession = {
+    ...session,
+    balance: balance.toString(),
+    updated_at: new Date().toISOString(),
+  };
+
+  sessions.set(sessionId, updatedSession);
+  appendLedger({ session_id: sessionId, kind, amount: amount.toString(), balance_after: balance.toString() });
+
+  return updatedSession;
+}
+
+/**
+ * Debit up to `amount` from an active session (never below zero)
+ */
+export async function debitSessionBalance(
+  sessionId: string,
+  amount: bigint,
+  usage?: { unit: string; quantity: number }
+): Promise<{ session: ChatSession; debited: bigint } | null> {
+  const session = sessions.get(sessionId);
+  if (!session || new Date(session.expires_at) < new Date()) return null;
+
+  const current = BigInt(session.balance || '0');
+  if (current <= 0n) return null;
+
+  const debited = amount < current ? amount : current;
+  const balance = current - debited;
+  const updatedSession: ChatSession = {
+    ...session,
+    balance: balance.toString(),
+    updated_at: new Date().toISOString(),
+  };
+
+  sessions.set(sessionId, updatedSession);
+  appendLedger({
+    session_id: sessionId,
+    kind: 'debit',
+    amount: debited.toString(),
+    unit: usage?.unit,
+    quantity: usage?.quantity,
+    balance_after: balance.toString(),
+  });
+
+  return { session: updatedSession, debited };
+}
+
+/**
+ * Release a session's whole balance (works after expiry too)
+ */
+export async function closeSessionBalance(
+  sessionId: string,
+  kind: 'refund' | 'carry_over_out'
+): Promise<{ session: ChatSession; amount: bigint } | null> {
+  const session = sessions.get(sessionId);
+  if (!session) return null;
+
+  const amount = BigInt(session.balance || '0');
+  const now = new Date().toISOString();
+  const updatedSession: ChatSession = {
+    ...session,
+    balance: '0',
+    expires_at: new Date(session.expires_at) < new Date() ? session.expires_at : now,
+    updated_at: now,
+  };
+
+  sessions.set(sessionId, updatedSession);
+  if (amount > 0n) {
+    appendLedger({ session_id: sessionId, kind, amount: amount.toString(), balance_after: '0' });
+  }
+
+  return { session: updatedSession, amount };
+}
+
+export async function addCarryOver(userAddress: string, agentId: string, amount: bigint): Promise<void> {
+  const key = `${agentId}:${userAddress.toLowerCase()}`;
+  carryOvers.set(key, (carryOvers.get(key) || 0n) + amount);
+}
+
+export async function claimCarryOver(userAddress: string, agentId: string): Promise<bigint> {
+  const key = `${agentId}:${userAddress.toLowerCase()}`;
+  const amount = carryOvers.get(key) || 0n;
+  carryOvers.delete(key);
+  return amount;
+}
+
+export async function getSessionLedger(sessionId: string): Promise<SessionLedgerEntry[]> {
+  return ledger.get(sessionId) || [];
+}
+
 /**
  * Message management
  */
@@ -139,5 +301,7 @@ export function getStorageStats() {
 export function clearAllStorage() {
   sessions.clear();
   messages.clear();
+  ledger.clear();
+  carryOvers.clear();
   console.log('[In-Memory Storage] All storage cleared');
 }
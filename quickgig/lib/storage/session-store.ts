@@ -0,0 +1,522 @@
+/**
+ * X402 Session Store
+ * Pluggable storage for paid chat sessions (memory, Supabase or Redis)
+ * Backend is picked from X402_SESSION_STORE, falling back to whatever is configured
+ *
+ * NOTE: Only relative imports here - X402SessionManager (lib/x402) loads this file
+ */
+
+import * as memory from './in-memory-chat';
+import type { ChatSession, SessionBillingMode, SessionLedgerEntry } from './in-memory-chat';
+
+export type { ChatSession, SessionBillingMode, SessionLedgerEntry };
+
+export type NewChatSession = Omit<ChatSession, 'created_at' | 'updated_at'>;
+
+export type SessionStoreBackend = 'memory' | 'supabase' | 'redis';
+
+export interface SessionUsage {
+  unit: string; // 'token' | 'second'
+  quantity: number;
+}
+
+export interface SessionStore {
+  readonly backend: SessionStoreBackend;
+  createSession(session: NewChatSession): Promise<ChatSession>;
+  getSession(sessionId: string): Promise<ChatSession | null>;
+  updateSession(sessionId: string, updates: Partial<ChatSession>): Promise<ChatSession>;
+  /**
+   * Atomically use one message from an active session.
+   * Resolves the updated session, or null if it is missing, expired or exhausted.
+   */
+  consumeMessage(sessionId: string): Promise<ChatSession | null>;
+  deleteExpiredSessions(): Promise<void>;
+
+  // Metered billing - every balance change is written to the session ledger atomically
+
+  creditBalance(sessionId: string, amount: bigint, kind: 'deposit' | 'carry_over_in'): Promise<ChatSession | null>;
+  /**
+   * Debit up to `amount` from an active session's balance (never below zero).
+   * Resolves null if the session is missing, expired or has no balance.
+   */
+  debitBalance(
+    sessionId: string,
+    amount: bigint,
+    usage?: SessionUsage
+  ): Promise<{ session: ChatSession; debited: bigint } | null>;
+  /**
+   * Zero a session's balance and close it, resolving the released amount.
+   * Works on expired sessions so leftover balance is never stranded.
+   */
+  closeBalance(
+    sessionId: string,
+    kind: 'refund' | 'carry_over_out'
+  ): Promise<{ session: ChatSession; amount: bigint } | null>;
+  addCarryOver(userAddress: string, agentId: string, amount: bigint): Promise<void>;
+  /**
+   * Take (and clear) a payer's carried-over balance for an agent
+   */
+  claimCarryOver(userAddress: string, agentId: string): Promise<bigint>;
+  getLedger(sessionId: string): Promise<SessionLedgerEntry[]>;
+}
+
+// ============================================================================
+// MEMORY
+// ============================================================================
+
+/**
+ * In-memory store (single process only - resets on restart / cold start)
+ */
+export class InMemorySessionStore implements SessionStore {
+  readonly backend = 'memory' as const;
+
+  createSession(session: NewChatSession) {
+    return memory.createSession(session);
+  }
+
+  getSession(sessionId: string) {
+    return memory.getSession(sessionId);
+  }
+
+  updateSession(sessionId: string, updates: Partial<ChatSession>) {
+    return memory.updateSession(sessionId, updates);
+  }
+
+  consumeMessage(sessionId: string) {
+    return memory.consumeSessionMessage(sessionId);
+  }
+
+  deleteExpiredSessions() {
+    return memory.deleteExpiredSessions();
+  }
+
+  creditBalance(sessionId: string, amount: bigint, kind: 'deposit' | 'carry_over_in') {
+    return memory.creditSessionBalance(sessionId, amount, kind);
+  }
+
+  debitBalance(sessionId: string, amount: bigint, usage?: SessionUsage) {
+    return memory.debitSessionBalance(sessionId, amount, usage);
+  }
+
+  closeBalance(sessionId: string, kind: 'refund' | 'carry_over_out') {
+    return memory.closeSessionBalance(sessionId, kind);
+  }
+
+  addCarryOver(userAddress: string, agentId: string, amount: bigint) {
+    return memory.addCarryOver(userAddress, agentId, amount);
+  }
+
+  claimCarryOver(userAddress: string, agentId: string) {
+    return memory.claimCarryOver(userAddress, agentId);
+  }
+
+  getLedger(sessionId: string) {
+    return memory.getSessionLedger(sessionId);
+  }
+}
+
+// ============================================================================
+// SUPABASE
+// ============================================================================
+
+/**
+ * Supabase-backed store (chat_sessions table, see migration 006)
+ * Decrements go through the use_chat_session_message function
+ */
+export class SupabaseSessionStore implements SessionStore {
+  readonly backend = 'supabase' as const;
+
+  // Loaded lazily - the Supabase client throws at import time when env vars are missing
+  private async chat() {
+    return import('../supabase/chat');
+  }
+
+  async createSession(session: NewChatSession) {
+    return (await this.chat()).createSession(session);
+  }
+
+  async getSession(sessionId: string) {
+    return (await this.chat()).getSession(sessionId);
+  }
+
+  async updateSession(sessionId: string, updates: Partial<ChatSession>) {
+    return (await this.chat()).updateSession(sessionId, updates);
+  }
+
+  async consumeMessage(sessionId: string) {
+    return (await this.chat()).consumeSessionMessage(sessionId);
+  }
+
+  async deleteExpiredSessions() {
+    return (await this.chat()).deleteExpiredSessions();
+  }
+
+  async creditBalance(sessionId: string, amount: bigint, kind: 'deposit' | 'carry_over_in') {
+    return (await this.chat()).creditSessionBalance(sessionId, amount, kind);
+  }
+
+  async debitBalance(sessionId: string, amount: bigint, usage?: SessionUsage) {
+    return (await this.chat()).debitSessionBalance(sessionId, amount, usage);
+  }
+
+  async closeBalance(sessionId: string, kind: 'refund' | 'carry_over_out') {
+    return (await this.chat()).closeSessionBalance(sessionId, kind);
+  }
+
+  async addCarryOver(userAddress: string, agentId: string, amount: bigint) {
+    return (await this.chat()).addCarryOver(userAddress, agentId, amount);
+  }
+
+  async claimCarryOver(userAddress: string, agentId: string) {
+    return (await this.chat()).claimCarryOver(userAddress, agentId);
+  }
+
+  async getLedger(sessionId: string) {
+    return (await this.chat()).getSessionLedger(sessionId);
+  }
+}
+
+// ============================================================================
+// REDIS
+// ============================================================================
+
+/**
+ * Minimal Redis command transport
+ * Takes a command as an argument list (e.g. ['HGETALL', key]) and resolves its reply
+ */
+export interface RedisCommandClient {
+  command(args: (string | number)[]): Promise<unknown>;
+}
+
+/**
+ * Redis over the REST protocol (Upstash and compatible proxies)
+ * Works from serverless functions without holding a TCP connection
+ */
+export class RedisRestClient implements RedisCommandClient {
+  constructor(private url: string, private token?: string) {}
+
+  async command(args: (string | number)[]): Promise<unknown> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+      },
+      body: JSON.stringify(args.map(String)),
+    });
+
+    const data = await response.json();
+    if (!response.ok || data.error) {
+      throw new Error(`Redis command ${args[0]} failed: ${data.error || response.status}`);
+    }
+
+    return data.result;
+  }
+}
+
+// Writes every field then sets the key to expire with the session
+const CREATE_SESSION_SCRIPT = `
+redis.call('DEL', KEYS[1])
+redis.call('HSET', KEYS[1], unpack(ARGV, 2))
+redis.call('EXPIREAT', KEYS[1], ARGV[1])
+return redis.call('HGETALL', KEYS[1])
+`;
+
+// Updates fields of an existing session only (ARGV[1] is the new expiry or '')
+const UPDATE_SESSION_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 0 then return false end
+redis.call('HSET', KEYS[1], unpack(ARGV, 2))
+if ARGV[1] ~= '' then redis.call('EXPIREAT', KEYS[1], ARGV[1]) end
+return redis.call('HGETALL', KEYS[1])
+`;
+
+// Check and decrement in one script - Redis runs scripts atomically
+const CONSUME_MESSAGE_SCRIPT = `
+local remaining = tonumber(redis.call('HGET', KEYS[1], 'messages_remaining'))
+if not remaining or remaining <= 0 then return false end
+redis.call('HINCRBY', KEYS[1], 'messages_remaining', -1)
+redis.call('HSET', KEYS[1], 'updated_at', ARGV[1])
+return redis.call('HGETALL', KEYS[1])
+`;
+
+// Balance scripts append a JSON ledger entry to KEYS[2] in the same script
+// ARGV[1] is the current time (ISO), ARGV[2] the amount
+
+const CREDIT_BALANCE_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 0 then return false end
+local balance = redis.call('HINCRBY', KEYS[1], 'balance', ARGV[2])
+redis.call('HSET', KEYS[1], 'updated_at', ARGV[1])
+redis.call('RPUSH', KEYS[2], cjson.encode({
+  session_id = ARGV[4], kind = ARGV[3], amount = ARGV[2], balance_after = tostring(balance), created_at = ARGV[1]
+}))
+return redis.call('HGETALL', KEYS[1])
+`;
+
+// Debits are capped at the remaining balance; returns [debited, ...session hash]
+const DEBIT_BALANCE_SCRIPT = `
+local expires = redis.call('HGET', KEYS[1], 'expires_at')
+if not expires or expires < ARGV[1] then return false end
+local current = tonumber(redis.call('HGET', KEYS[1], 'balance') or '0')
+if current <= 0 then return false end
+local debited = math.min(current, tonumber(ARGV[2]))
+local balance = redis.call('HINCRBY', KEYS[1], 'balance', -debited)
+redis.call('HSET', KEYS[1], 'updated_at', ARGV[1])
+redis.call('RPUSH', KEYS[2], cjson.encode({
+  session_id = ARGV[5], kind = 'debit', amount = tostring(debited), unit = ARGV[3],
+  quantity = tonumber(ARGV[4]), balance_after = tostring(balance), created_at = ARGV[1]
+}))
+local reply = redis.call('HGETALL', KEYS[1])
+table.insert(reply, 1, tostring(debited))
+return reply
+`;
+
+// Zeroes the balance and ends the session; returns [amount, ...session hash]
+const CLOSE_BALANCE_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 0 then return false end
+local amount = tonumber(redis.call('HGET', KEYS[1], 'balance') or '0')
+redis.call('HSET', KEYS[1], 'balance', '0', 'updated_at', ARGV[1])
+if redis.call('HGET', KEYS[1], 'expires_at') > ARGV[1] then
+  redis.call('HSET', KEYS[1], 'expires_at', ARGV[1])
+end
+if amount > 0 then
+  redis.call('RPUSH', KEYS[2], cjson.encode({
+    session_id = ARGV[3], kind = ARGV[2], amount = tostring(amount), balance_after = '0', created_at = ARGV[1]
+  }))
+end
+local reply = redis.call('HGETALL', KEYS[1])
+table.insert(reply, 1, tostring(amount))
+return reply
+`;
+
+// GETDEL without requiring Redis 6.2
+const CLAIM_CARRY_OVER_SCRIPT = `
+local amount = redis.call('GET', KEYS[1])
+redis.call('DEL', KEYS[1])
+return amount
+`;
+
+/**
+ * Metered sessions are kept this long past expiry so leftover balance can still be refunded or carried over
+ */
+const METERED_RETENTION_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * Redis-backed store
+ * Each session is a hash that expires with the session, so expired sessions clean themselves up
+ */
+export class RedisSessionStore implements SessionStore {
+  readonly backend = 'redis' as const;
+
+  constructor(private client: RedisCommandClient, private keyPrefix: string = 'x402:chat_session:') {}
+
+  private key(sessionId: string) {
+    return `${this.keyPrefix}${sessionId}`;
+  }
+
+  private ledgerKey(sessionId: string) {
+    return `${this.keyPrefix}${sessionId}:ledger`;
+  }
+
+  private carryOverKey(userAddress: string, agentId: string) {
+    return `${this.keyPrefix}carry_over:${agentId}:${userAddress.toLowerCase()}`;
+  }
+
+  private async eval(script: string, sessionId: string, args: (string | number)[]) {
+    const reply = await this.client.command(['EVAL', script, 1, this.key(sessionId), ...args]);
+    return parseSessionHash(reply);
+  }
+
+  /**
+   * Run a balance script (session + ledger keys), returning its leading amount and the session
+   */
+  private async evalBalance(script: string, sessionId: string, args: (string | number)[]) {
+    return this.client.command([
+      'EVAL', script, 2, this.key(sessionId), this.ledgerKey(sessionId), new Date().toISOString(), ...args,
+    ]);
+  }
+
+  private getKeyExpiry(session: Pick<ChatSession, 'expires_at' | 'billing_mode'>): number {
+    const expiry = toUnixSeconds(session.expires_at);
+    return session.billing_mode === 'metered' ? expiry + METERED_RETENTION_SECONDS : expiry;
+  }
+
+  async createSession(session: NewChatSession) {
+    const now = new Date().toISOString();
+    const created = await this.eval(CREATE_SESSION_SCRIPT, session.session_id, [
+      this.getKeyExpiry(session),
+      ...toHashFields({ ...session, created_at: now, updated_at: now }),
+    ]);
+
+    if (!created) {
+      throw new Error(`Failed to create session ${session.session_id}`);
+    }
+    return created;
+  }
+
+  async getSession(sessionId: string) {
+    const reply = await this.client.command(['HGETALL', this.key(sessionId)]);
+    return parseSessionHash(reply);
+  }
+
+  async updateSession(sessionId: string, updates: Partial<ChatSession>) {
+    const current = updates.expires_at ? await this.getSession(sessionId) : null;
+    const updated = await this.eval(UPDATE_SESSION_SCRIPT, sessionId, [
+      updates.expires_at
+        ? this.getKeyExpiry({ expires_at: updates.expires_at, billing_mode: updates.billing_mode || current?.billing_mode })
+        : '',
+      ...toHashFields({ ...updates, session_id: undefined, updated_at: new Date().toISOString() }),
+    ]);
+
+    if (!updated) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    return updated;
+  }
+
+  async consumeMessage(sessionId: string) {
+    return this.eval(CONSUME_MESSAGE_SCRIPT, sessionId, [new Date().toISOString()]);
+  }
+
+  async deleteExpiredSessions() {
+    // Keys expire on their own (EXPIREAT expires_at, plus retention for metered sessions)
+  }
+
+  async creditBalance(sessionId: string, amount: bigint, kind: 'deposit' | 'carry_over_in') {
+    const reply = await this.evalBalance(CREDIT_BALANCE_SCRIPT, sessionId, [amount.toString(), kind, sessionId]);
+    return parseSessionHash(reply);
+  }
+
+  async debitBalance(sessionId: string, amount: bigint, usage?: SessionUsage) {
+    const reply = await this.evalBalance(DEBIT_BALANCE_SCRIPT, sessionId, [
+      amount.toString(),
+      usage?.unit || '',
+      usage?.quantity ?? 0,
+      sessionId,
+    ]);
+    if (!Array.isArray(reply)) return null;
+
+    const session = parseSessionHash(reply.slice(1));
+    return session ? { session, debited: BigInt(reply[0]) } : null;
+  }
+
+  async closeBalance(sessionId: string, kind: 'refund' | 'carry_over_out') {
+    const reply = await this.evalBalance(CLOSE_BALANCE_SCRIPT, sessionId, [kind, sessionId]);
+    if (!Array.isArray(reply)) return null;
+
+    const session = parseSessionHash(reply.slice(1));
+    return session ? { session, amount: BigInt(reply[0]) } : null;
+  }
+
+  async addCarryOver(userAddress: string, agentId: string, amount: bigint) {
+    await this.client.command(['INCRBY', this.carryOverKey(userAddress, agentId), amount.toString()]);
+  }
+
+  async claimCarryOver(userAddress: string, agentId: string) {
+    const reply = await this.client.command([
+      'EVAL', CLAIM_CARRY_OVER_SCRIPT, 1, this.carryOverKey(userAddress, agentId),
+    ]);
+    return reply ? BigInt(String(reply)) : 0n;
+  }
+
+  async getLedger(sessionId: string) {
+    const reply = await this.client.command(['LRANGE', this.ledgerKey(sessionId), 0, -1]);
+    return Array.isArray(reply)
+      ? reply.map((entry) => JSON.parse(String(entry)) as SessionLedgerEntry)
+      : [];
+  }
+}
+
+function toUnixSeconds(isoDate: string): number {
+  return Math.floor(new Date(isoDate).getTime() / 1000);
+}
+
+function toHashFields(fields: Partial<ChatSession>): string[] {
+  return Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .flatMap(([field, value]) => [field, String(value)]);
+}
+
+/**
+ * Parse an HGETALL reply (flat [field, value, ...] list) into a session
+ */
+function parseSessionHash(reply: unknown): ChatSession | null {
+  if (!Array.isArray(reply) || reply.length === 0) return null;
+
+  const hash: Record<string, string> = {};
+  for (let i = 0; i < reply.length; i += 2) {
+    hash[String(reply[i])] = String(reply[i + 1]);
+  }
+
+  return {
+    session_id: hash.session_id,
+    user_address: hash.user_address,
+    agent_id: hash.agent_id,
+    messages_remaining: Number(hash.messages_remaining),
+    total_paid: hash.total_paid,
+    expires_at: hash.expires_at,
+    billing_mode: (hash.billing_mode as SessionBillingMode) || 'messages',
+    balance: hash.balance || '0',
+    created_at: hash.created_at,
+    updated_at: hash.updated_at,
+  };
+}
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+let store: SessionStore | null = null;
+
+/**
+ * Resolve the configured backend
+ * X402_SESSION_STORE wins; otherwise Redis, then Supabase, then memory
+ */
+export function getSessionStoreBackend(): SessionStoreBackend {
+  const configured = process.env.X402_SESSION_STORE as SessionStoreBackend | undefined;
+  if (configured === 'memory' || configured === 'supabase' || configured === 'redis') {
+    return configured;
+  }
+
+  if (getRedisRestUrl()) return 'redis';
+  if (process.env.NEXT_PUBLIC_SUPABASE_URL && process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) return 'supabase';
+  return 'memory';
+}
+
+function getRedisRestUrl(): string | undefined {
+  return process.env.REDIS_REST_URL || process.env.UPSTASH_REDIS_REST_URL;
+}
+
+/**
+ * Get the shared session store
+ */
+export function getSessionStore(): SessionStore {
+  if (!store) {
+    const backend = getSessionStoreBackend();
+
+    if (backend === 'redis') {
+      const url = getRedisRestUrl();
+      if (!url) {
+        throw new Error('X402_SESSION_STORE=redis requires REDIS_REST_URL');
+      }
+      store = new RedisSessionStore(
+        new RedisRestClient(url, process.env.REDIS_REST_TOKEN || process.env.UPSTASH_REDIS_REST_TOKEN)
+      );
+    } else if (backend === 'supabase') {
+      store = new SupabaseSessionStore();
+    } else {
+      console.warn('[X402] No session store configured - chat sessions are kept in memory only');
+      store = new InMemorySessionStore();
+    }
+
+    console.log('[X402] Session store:', store.backend);
+  }
+
+  return store;
+}
+
+/**
+ * Override the session store (e.g. for local scripts)
+ */
+export function setSessionStore(next: SessionStore): void {
+  store = next;
+}
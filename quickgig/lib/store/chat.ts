@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import type { PendingAction } from '@/lib/ai/chat-tools';
 
 export interface Message {
   id: string;
@@ -12,10 +13,8 @@ export interface Message {
     txHash?: string;
     paid?: boolean;
     messagesRemaining?: number;
-    functionCall?: {
-      name: string;
-      arguments: Record<string, unknown>;
-    };
+    pendingActions?: PendingAction[]; // Tool calls awaiting the user's confirmation
+    resolvedActions?: string[]; // Tool call IDs the user confirmed or cancelled
     action?: {
       type: string;
       data?: Record<string, unknown>;
@@ -38,6 +37,7 @@ interface ChatState {
   currentSessionId: string | null;
   sessions: Record<string, ChatSession>;
   isLoading: boolean;
+  streamingMessageId: string | null; // Assistant message being streamed in
   needsSessionCheck: boolean;
   bountyFormData: unknown | null;
 
@@ -52,12 +52,15 @@ interface ChatState {
   deleteSession: (sessionId: string) => void;
 
   // Message management
-  addMessage: (message: Omit<Message, 'id' | 'timestamp'>) => void;
+  addMessage: (message: Omit<Message, 'id' | 'timestamp'>) => string;
   updateMessageMetadata: (messageId: string, metadata: Message['metadata']) => void;
+  appendMessageContent: (messageId: string, content: string) => void;
+  setMessageContent: (messageId: string, content: string) => void;
   updateMessagesRemaining: (count: number) => void;
 
   // State management
   setLoading: (loading: boolean) => void;
+  setStreamingMessage: (messageId: string | null) => void;
   checkSession: () => void;
   setBountyFormData: (data: unknown) => void;
 }
@@ -68,6 +71,7 @@ export const useChatStore = create<ChatState>()(
       currentSessionId: null,
       sessions: {},
       isLoading: false,
+      streamingMessageId: null,
       needsSessionCheck: false,
       bountyFormData: null,
 
@@ -158,13 +162,15 @@ export const useChatStore = create<ChatState>()(
 
       // Message management
       addMessage: (message) => {
+        const id = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
         set((state) => {
           const session = state.getCurrentSession();
           if (!session) return state;
 
           const newMessage: Message = {
             ...message,
-            id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            id,
             timestamp: Date.now(),
           };
 
@@ -194,6 +200,8 @@ export const useChatStore = create<ChatState>()(
             },
           };
         });
+
+        return id;
       },
 
       updateMessageMetadata: (messageId, metadata) => {
@@ -219,6 +227,48 @@ export const useChatStore = create<ChatState>()(
         });
       },
 
+      appendMessageContent: (messageId, content) => {
+        set((state) => {
+          const session = state.getCurrentSession();
+          if (!session) return state;
+
+          const updatedMessages = session.messages.map((msg) =>
+            msg.id === messageId ? { ...msg, content: msg.content + content } : msg
+          );
+
+          return {
+            sessions: {
+              ...state.sessions,
+              [session.id]: {
+                ...session,
+                messages: updatedMessages,
+              },
+            },
+          };
+        });
+      },
+
+      setMessageContent: (messageId, content) => {
+        set((state) => {
+          const session = state.getCurrentSession();
+          if (!session) return state;
+
+          const updatedMessages = session.messages.map((msg) =>
+            msg.id === messageId ? { ...msg, content } : msg
+          );
+
+          return {
+            sessions: {
+              ...state.sessions,
+              [session.id]: {
+                ...session,
+                messages: updatedMessages,
+              },
+            },
+          };
+        });
+      },
+
       updateMessagesRemaining: (count) => {
         set((state) => {
           const session = state.getCurrentSession();
@@ -239,6 +289,8 @@ export const useChatStore = create<ChatState>()(
       // State management
       setLoading: (loading) => set({ isLoading: loading }),
 
+      setStreamingMessage: (messageId) => set({ streamingMessageId: messageId }),
+
       checkSession: () => set({ needsSessionCheck: true }),
 
       setBountyFormData: (data) => set({ bountyFormData: data }),
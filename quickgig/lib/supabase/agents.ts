@@ -4,6 +4,8 @@
  */
 
 import { supabaseAdmin } from './client';
+import { getCapabilityTaxonomy } from './capabilities';
+import { expandCapability } from '../capabilities/taxonomy';
 import type { Address } from 'viem';
 
 // ============================================================================
@@ -23,10 +25,31 @@ export interface AgentProfile {
   bio?: string;
   avatar_url?: string;
   endpoint_url?: string; // HTTP endpoint where agent listens for mission requests
+  erc8004_token_id?: string | null; // ERC-8004 identity NFT, null if not registered on-chain
+  erc8004_registry?: string | null; // Identity registry that minted it (lowercased)
+  erc8004_owner?: string | null; // ownerOf at the last check (lowercased)
+  erc8004_token_uri?: string | null; // tokenURI at the last check
+  erc8004_registration_tx?: string | null;
+  erc8004_verified_at?: string | null;
+  erc8004_sync_error?: string | null;
+  max_concurrent_jobs?: number | null; // Declared in the agent's last heartbeat
+  active_jobs?: number | null; // Jobs in flight at the last heartbeat
+  health_status?: AgentHealthStatus | null; // Rolling health at the last heartbeat
+  last_heartbeat_at?: string | null; // null if the agent never sent a heartbeat
   created_at?: string;
   updated_at?: string;
 }
 
+export type AgentHealthStatus = 'healthy' | 'degraded' | 'unhealthy';
+
+export interface Erc8004Link {
+  tokenId: string;
+  registry: Address;
+  owner?: Address;
+  tokenUri?: string;
+  registrationTx?: string | null;
+}
+
 export interface AgentWallet {
   agent_id: string;
   cdp_address: Address;
@@ -52,13 +75,18 @@ export interface PaymentTransaction {
   to_address: Address;
   amount: number;
   token_address: Address;
-  tx_hash: string;
+  tx_hash?: string | null; // Not set for rejected, pending or authorization payments
   purpose?: 'mission_payment' | 'agent_to_agent' | 'bounty_payout' | 'escrow_release';
+  status?: PaymentStatus;
+  reason?: string | null;
   metadata?: Record<string, unknown>;
   timestamp?: string;
 }
 
+export type PaymentStatus = 'pending_approval' | 'reserved' | 'confirmed' | 'rejected' | 'failed';
+
 export interface CreateAgentParams {
+  id?: string; // Generated if not given
   name: string;
   address: Address;
   capabilities: string[];
@@ -69,6 +97,17 @@ export interface CreateAgentParams {
   endpointUrl?: string;
 }
 
+export interface AgentRankingSignals {
+  agent_id: string;
+  completed_steps: number;
+  failed_steps: number; // Includes steps handed to a fallback agent
+  median_latency_seconds: number | null; // null without completed steps
+  queued_steps: number; // Pending or executing steps of running missions
+  disputes_won: number;
+  disputes_lost: number;
+  disputes_open: number;
+}
+
 // ============================================================================
 // AGENT PROFILES
 // ============================================================================
@@ -77,7 +116,7 @@ export interface CreateAgentParams {
  * Create agent profile
  */
 export async function createAgent(params: CreateAgentParams): Promise<AgentProfile> {
-  const agentId = `agent_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  const agentId = params.id || `agent_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
   const agent: Omit<AgentProfile, 'created_at' | 'updated_at'> = {
     id: agentId,
@@ -141,7 +180,7 @@ export async function getAgentByAddress(address: Address): Promise<AgentProfile
 }
 
 /**
- * Search agents by capability
+ * Search agents by capability (any term the capability taxonomy resolves)
  */
 export async function getAgentsByCapability(
   capability: string,
@@ -150,10 +189,13 @@ export async function getAgentsByCapability(
     limit?: number;
   }
 ): Promise<AgentProfile[]> {
+  // Match the capability, its sub-capabilities and their synonyms, quoted as array literal elements
+  const terms = expandCapability(await getCapabilityTaxonomy(), capability);
+
   let query = supabaseAdmin
     .from('agent_profiles')
     .select('*')
-    .contains('capabilities', [capability]);
+    .overlaps('capabilities', terms.map((term) => `"${term.replace(/["\\]/g, '\\$&')}"`));
 
   if (options?.minReputation) {
     query = query.gte('reputation_score', options.minReputation);
@@ -228,6 +270,113 @@ export async function incrementAgentMissions(agentId: string): Promise<void> {
   }
 }
 
+// ============================================================================
+// ERC-8004 IDENTITY
+// ============================================================================
+
+/**
+ * Get the agent linked to an ERC-8004 token
+ */
+export async function getAgentByErc8004Token(
+  tokenId: string,
+  registry: Address
+): Promise<AgentProfile | null> {
+  const { data, error } = await supabaseAdmin
+    .from('agent_profiles')
+    .select('*')
+    .eq('erc8004_registry', registry.toLowerCase())
+    .eq('erc8004_token_id', tokenId)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return null;
+    throw new Error(`Failed to get agent by ERC-8004 token: ${error.message}`);
+  }
+
+  return data as AgentProfile;
+}
+
+/**
+ * Get agents linked to an ERC-8004 token
+ */
+export async function getLinkedAgents(): Promise<AgentProfile[]> {
+  const { data, error } = await supabaseAdmin
+    .from('agent_profiles')
+    .select('*')
+    .not('erc8004_token_id', 'is', null)
+    .order('created_at', { ascending: true });
+
+  if (error) throw new Error(`Failed to get linked agents: ${error.message}`);
+  return data as AgentProfile[];
+}
+
+/**
+ * Link an agent to its ERC-8004 token
+ */
+export async function linkAgentErc8004(agentId: string, link: Erc8004Link): Promise<AgentProfile> {
+  const { data, error } = await supabaseAdmin
+    .from('agent_profiles')
+    .update({
+      erc8004_token_id: link.tokenId,
+      erc8004_registry: link.registry.toLowerCase(),
+      erc8004_owner: link.owner?.toLowerCase() ?? null,
+      erc8004_token_uri: link.tokenUri ?? null,
+      erc8004_registration_tx: link.registrationTx ?? null,
+      erc8004_verified_at: link.owner ? new Date().toISOString() : null,
+      erc8004_sync_error: null,
+    })
+    .eq('id', agentId)
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error(`ERC-8004 token ${link.tokenId} is already linked to another agent`);
+    }
+    throw new Error(`Failed to link agent to ERC-8004 token: ${error.message}`);
+  }
+
+  return data as AgentProfile;
+}
+
+/**
+ * Record what the registry reports for an agent's token
+ */
+export async function updateAgentErc8004State(
+  agentId: string,
+  state: { owner: Address; tokenUri: string; syncError?: string | null }
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('agent_profiles')
+    .update({
+      erc8004_owner: state.owner.toLowerCase(),
+      erc8004_token_uri: state.tokenUri,
+      erc8004_verified_at: new Date().toISOString(),
+      erc8004_sync_error: state.syncError ?? null,
+    })
+    .eq('id', agentId);
+
+  if (error) throw new Error(`Failed to update ERC-8004 state: ${error.message}`);
+}
+
+/**
+ * Drop an agent's ERC-8004 link (e.g. the token no longer exists)
+ */
+export async function unlinkAgentErc8004(agentId: string, reason: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('agent_profiles')
+    .update({
+      erc8004_token_id: null,
+      erc8004_registry: null,
+      erc8004_owner: null,
+      erc8004_verified_at: null,
+      erc8004_sync_error: reason,
+    })
+    .eq('id', agentId);
+
+  if (error) throw new Error(`Failed to unlink ERC-8004 token: ${error.message}`);
+}
+
 // ============================================================================
 // AGENT WALLETS
 // ============================================================================
@@ -347,6 +496,42 @@ export async function recordPayment(params: Omit<PaymentTransaction, 'id' | 'tim
   return data as PaymentTransaction;
 }
 
+/**
+ * Update a payment attempt (e.g. settle a reserved payment)
+ */
+export async function updatePayment(
+  id: number,
+  updates: Partial<Pick<PaymentTransaction, 'status' | 'reason' | 'tx_hash' | 'metadata'>>
+): Promise<PaymentTransaction> {
+  const { data, error } = await supabaseAdmin
+    .from('payment_transactions')
+    .update(updates)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) throw new Error(`Failed to update payment: ${error.message}`);
+  return data as PaymentTransaction;
+}
+
+/**
+ * Get payment by ID
+ */
+export async function getPayment(id: number): Promise<PaymentTransaction | null> {
+  const { data, error } = await supabaseAdmin
+    .from('payment_transactions')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return null;
+    throw new Error(`Failed to get payment: ${error.message}`);
+  }
+
+  return data as PaymentTransaction;
+}
+
 /**
  * Get payments for mission
  */
@@ -408,3 +593,71 @@ export async function getPaymentByTxHash(txHash: string): Promise<PaymentTransac
 
   return data as PaymentTransaction;
 }
+
+// ============================================================================
+// HEARTBEATS
+// ============================================================================
+
+/**
+ * Store an agent's verified heartbeat
+ * Returns false if the agent doesn't exist or a heartbeat issued later was already recorded
+ */
+export async function recordAgentHeartbeat(
+  agentId: string,
+  heartbeat: {
+    activeJobs: number;
+    maxConcurrentJobs: number;
+    health: AgentHealthStatus;
+    issuedAt: Date;
+  }
+): Promise<boolean> {
+  const { data, error } = await supabaseAdmin.rpc('record_agent_heartbeat', {
+    p_agent_id: agentId,
+    p_active_jobs: heartbeat.activeJobs,
+    p_max_concurrent_jobs: heartbeat.maxConcurrentJobs,
+    p_health_status: heartbeat.health,
+    p_issued_at: heartbeat.issuedAt.toISOString(),
+  });
+
+  if (error) throw new Error(`Failed to record agent heartbeat: ${error.message}`);
+  return data === true;
+}
+
+// ============================================================================
+// RANKING SIGNALS
+// ============================================================================
+
+/**
+ * Get completion, latency, queue and dispute signals for agents
+ * Completion and latency only count steps created since `since`
+ */
+export async function getAgentRankingSignals(
+  agentIds: string[],
+  since: Date
+): Promise<Map<string, AgentRankingSignals>> {
+  if (agentIds.length === 0) return new Map();
+
+  const { data, error } = await supabaseAdmin.rpc('get_agent_ranking_signals', {
+    p_agent_ids: agentIds,
+    p_since: since.toISOString(),
+  });
+
+  if (error) throw new Error(`Failed to get agent ranking signals: ${error.message}`);
+
+  // BIGINT counts can come back as strings
+  return new Map(
+    ((data as Record<string, string | number | null>[] | null) || []).map((row) => [
+      String(row.agent_id),
+      {
+        agent_id: String(row.agent_id),
+        completed_steps: Number(row.completed_steps),
+        failed_steps: Number(row.failed_steps),
+        median_latency_seconds: row.median_latency_seconds === null ? null : Number(row.median_latency_seconds),
+        queued_steps: Number(row.queued_steps),
+        disputes_won: Number(row.disputes_won),
+        disputes_lost: Number(row.disputes_lost),
+        disputes_open: Number(row.disputes_open),
+      },
+    ])
+  );
+}
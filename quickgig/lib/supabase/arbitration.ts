@@ -0,0 +1,323 @@
+/**
+ * Arbitration Database Operations
+ * Indexed SimpleArbitrator events, their case projections and the case docket
+ * (arbitration_events, arbitration_dirty_cases, arbitration_cases, arbitration_case_evidence,
+ * arbitration_case_votes, arbitration_docket)
+ */
+
+import { supabaseAdmin } from './client';
+import type { ChainEventArgs } from './chain-index';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ArbitrationEvent {
+  id?: number;
+  chain_id: number;
+  case_id: string; // bytes32 hex, lowercased
+  event_name: string;
+  args: ChainEventArgs;
+  block_number: number;
+  block_hash: string;
+  block_timestamp: string;
+  tx_hash: string;
+  log_index: number;
+}
+
+export type ArbitrationStatus = 'active' | 'resolved'; // An appeal makes a case active again
+
+export interface ArbitrationCase {
+  contract_address: string;
+  case_id: string;
+  escrow_contract: string;
+  entity_id: number;
+  client_address: string;
+  worker_address: string;
+  amount: string; // Raw units
+  reason: string | null;
+  status: ArbitrationStatus;
+  round: number; // 0 for the original vote, 1 after an appeal
+  voting_deadline: string;
+  voters: string[]; // Everyone who voted in any round
+  final_client_bps: number | null;
+  resolved_at: string | null;
+  appealed: boolean;
+  appellant: string | null;
+  appeal_reason: string | null;
+  appealed_at: string | null;
+  created_block: number;
+  created_at: string;
+  updated_block: number;
+}
+
+export interface ArbitrationEvidence {
+  contract_address: string;
+  case_id: string;
+  evidence_index: number;
+  submitter: string;
+  evidence_uri: string;
+  submitted_at: string;
+}
+
+export interface ArbitrationVote {
+  contract_address: string;
+  case_id: string;
+  vote_index: number;
+  round: number;
+  arbitrator: string;
+  client_bps: number;
+  cast_at: string;
+}
+
+export type DocketEntityType = 'bounty' | 'gig' | 'mission';
+
+export interface DocketCase extends ArbitrationCase {
+  entity_type: DocketEntityType | null; // Null if the escrow that opened the case isn't indexed
+  evidence: Array<{ submitter: string; uri: string; submitted_at: string }>;
+  votes: Array<{ round: number; arbitrator: string; client_bps: number; cast_at: string }>; // All rounds
+  round_votes: number; // Votes in the current round
+  seconds_left: number | null; // Until voting closes and finalizeIfExpired can run, null once resolved
+  can_finalize: boolean; // Voting closed with quorum but nobody finalized yet
+  can_appeal: boolean; // Resolved and not appealed yet
+  has_voted?: boolean; // Whether the arbitrator from the filters voted (in any round)
+}
+
+export type DocketFilter = 'needs_vote' | 'expiring' | 'resolved';
+
+export interface DocketFilters {
+  filter?: DocketFilter;
+  arbitrator?: string; // Required for needs_vote
+  expiringWithinHours?: number; // Window for expiring, default 24
+}
+
+export type DocketCounts = Record<DocketFilter | 'all', number>;
+
+const DEFAULT_EXPIRING_WINDOW_HOURS = 24;
+
+// SimpleArbitrator.QUORUM
+const QUORUM = 2;
+
+// ============================================================================
+// EVENTS
+// ============================================================================
+
+/**
+ * Replace the arbitrator's events in a block range and move its cursor, in one transaction
+ * A null toBlock clears everything from fromBlock on (undoing a reorg)
+ */
+export async function replaceArbitrationEvents(params: {
+  contractAddress: string;
+  fromBlock: number;
+  toBlock: number | null;
+  events: ArbitrationEvent[];
+  cursorBlock: number;
+  cursorHash: string | null;
+}): Promise<number> {
+  const { data, error } = await supabaseAdmin.rpc('replace_arbitration_events', {
+    p_contract_address: params.contractAddress.toLowerCase(),
+    p_from_block: params.fromBlock,
+    p_to_block: params.toBlock,
+    p_events: params.events,
+    p_cursor_block: params.cursorBlock,
+    p_cursor_hash: params.cursorHash,
+  });
+
+  if (error) throw new Error(`Failed to replace arbitration events: ${error.message}`);
+  return data as number;
+}
+
+/**
+ * Get every event of one case in chain order
+ */
+export async function getCaseEvents(contractAddress: string, caseId: string): Promise<ArbitrationEvent[]> {
+  const { data, error } = await supabaseAdmin
+    .from('arbitration_events')
+    .select('*')
+    .eq('contract_address', contractAddress.toLowerCase())
+    .eq('case_id', caseId)
+    .order('block_number', { ascending: true })
+    .order('log_index', { ascending: true });
+
+  if (error) throw new Error(`Failed to get case events: ${error.message}`);
+  return (data || []) as ArbitrationEvent[];
+}
+
+/**
+ * Get cases waiting for their projection to be rebuilt
+ */
+export async function getDirtyCases(contractAddress: string, limit = 500): Promise<string[]> {
+  const { data, error } = await supabaseAdmin
+    .from('arbitration_dirty_cases')
+    .select('case_id')
+    .eq('contract_address', contractAddress.toLowerCase())
+    .order('case_id')
+    .limit(limit);
+
+  if (error) throw new Error(`Failed to get dirty cases: ${error.message}`);
+  return (data || []).map((row) => row.case_id as string);
+}
+
+/**
+ * Mark a case's projection as rebuilt
+ */
+export async function clearDirtyCase(contractAddress: string, caseId: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('arbitration_dirty_cases')
+    .delete()
+    .eq('contract_address', contractAddress.toLowerCase())
+    .eq('case_id', caseId);
+
+  if (error) throw new Error(`Failed to clear dirty case: ${error.message}`);
+}
+
+// ============================================================================
+// PROJECTIONS
+// ============================================================================
+
+/**
+ * Replace a case with its evidence and votes (null removes it - its creation was reorged out)
+ */
+export async function saveCaseProjection(
+  key: { contractAddress: string; caseId: string },
+  projection: { arbitrationCase: ArbitrationCase; evidence: ArbitrationEvidence[]; votes: ArbitrationVote[] } | null
+): Promise<void> {
+  const contractAddress = key.contractAddress.toLowerCase();
+
+  if (!projection) {
+    // Evidence and votes cascade
+    const { error } = await supabaseAdmin
+      .from('arbitration_cases')
+      .delete()
+      .eq('contract_address', contractAddress)
+      .eq('case_id', key.caseId);
+
+    if (error) throw new Error(`Failed to clear case projection: ${error.message}`);
+    return;
+  }
+
+  const { error } = await supabaseAdmin
+    .from('arbitration_cases')
+    .upsert([projection.arbitrationCase], { onConflict: 'contract_address,case_id' });
+
+  if (error) throw new Error(`Failed to save case projection: ${error.message}`);
+
+  for (const table of ['arbitration_case_evidence', 'arbitration_case_votes'] as const) {
+    const { error: deleteError } = await supabaseAdmin
+      .from(table)
+      .delete()
+      .eq('contract_address', contractAddress)
+      .eq('case_id', key.caseId);
+
+    if (deleteError) throw new Error(`Failed to clear ${table}: ${deleteError.message}`);
+  }
+
+  if (projection.evidence.length > 0) {
+    const { error: evidenceError } = await supabaseAdmin.from('arbitration_case_evidence').insert(projection.evidence);
+    if (evidenceError) throw new Error(`Failed to save case evidence: ${evidenceError.message}`);
+  }
+
+  if (projection.votes.length > 0) {
+    const { error: votesError } = await supabaseAdmin.from('arbitration_case_votes').insert(projection.votes);
+    if (votesError) throw new Error(`Failed to save case votes: ${votesError.message}`);
+  }
+}
+
+// ============================================================================
+// DOCKET
+// ============================================================================
+
+/**
+ * Get one page of the case docket with the total matching the filter
+ * needs_vote and expiring list the soonest deadline first, resolved the latest decision first,
+ * and everything else is newest first
+ */
+export async function listDocket(
+  filters: DocketFilters,
+  page = 1,
+  limit = 20
+): Promise<{ cases: DocketCase[]; total: number }> {
+  const now = new Date();
+  let query = supabaseAdmin
+    .from('arbitration_docket')
+    .select('*', { count: 'exact' });
+
+  switch (filters.filter) {
+    case 'needs_vote':
+      if (!filters.arbitrator) throw new Error('An arbitrator address is required for needs_vote');
+      query = query
+        .eq('status', 'active')
+        .gt('voting_deadline', now.toISOString())
+        .not('voters', 'cs', `{${filters.arbitrator.toLowerCase()}}`)
+        .order('voting_deadline', { ascending: true });
+      break;
+    case 'expiring': {
+      const hours = filters.expiringWithinHours ?? DEFAULT_EXPIRING_WINDOW_HOURS;
+      query = query
+        .eq('status', 'active')
+        .gt('voting_deadline', now.toISOString())
+        .lte('voting_deadline', new Date(now.getTime() + hours * 60 * 60 * 1000).toISOString())
+        .order('voting_deadline', { ascending: true });
+      break;
+    }
+    case 'resolved':
+      query = query
+        .eq('status', 'resolved')
+        .order('resolved_at', { ascending: false });
+      break;
+    default:
+      query = query.order('created_at', { ascending: false });
+  }
+
+  const from = (page - 1) * limit;
+  const { data, error, count } = await query
+    .order('case_id', { ascending: true })
+    .range(from, from + limit - 1);
+
+  if (error) throw new Error(`Failed to list arbitration docket: ${error.message}`);
+
+  return {
+    cases: (data || []).map((row) => toDocketCase(row, now, filters.arbitrator)),
+    total: count || 0,
+  };
+}
+
+/**
+ * Add what the dashboard needs to act on a case: votes this round, time left and which calls are open
+ */
+function toDocketCase(row: Record<string, unknown>, now: Date, arbitrator?: string): DocketCase {
+  const docketCase = { ...row, entity_id: Number(row.entity_id) } as DocketCase;
+  const active = docketCase.status === 'active';
+  const secondsLeft = Math.max(0, Math.floor((new Date(docketCase.voting_deadline).getTime() - now.getTime()) / 1000));
+  const roundVotes = docketCase.votes.filter((vote) => vote.round === docketCase.round).length;
+
+  return {
+    ...docketCase,
+    round_votes: roundVotes,
+    seconds_left: active ? secondsLeft : null,
+    can_finalize: active && secondsLeft === 0 && roundVotes >= QUORUM,
+    can_appeal: docketCase.status === 'resolved' && !docketCase.appealed,
+    has_voted: arbitrator ? docketCase.voters.includes(arbitrator.toLowerCase()) : undefined,
+  };
+}
+
+/**
+ * Number of cases under each docket filter (needs_vote only with an arbitrator)
+ */
+export async function getDocketCounts(arbitrator?: string, expiringWithinHours?: number): Promise<DocketCounts> {
+  const filters: Array<DocketFilter | 'all'> = ['all', 'expiring', 'resolved'];
+  if (arbitrator) filters.push('needs_vote');
+
+  const totals = await Promise.all(
+    filters.map(async (filter) => {
+      const { total } = await listDocket(
+        { filter: filter === 'all' ? undefined : filter, arbitrator, expiringWithinHours },
+        1,
+        1
+      );
+      return [filter, total] as const;
+    })
+  );
+
+  return { all: 0, needs_vote: 0, expiring: 0, resolved: 0, ...Object.fromEntries(totals) };
+}
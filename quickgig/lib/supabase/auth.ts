@@ -0,0 +1,32 @@
+/**
+ * Auth Database Operations
+ * Sign-In with Ethereum nonces (siwe_nonces)
+ */
+
+import { supabaseAdmin } from './client';
+import type { Address } from 'viem';
+
+/**
+ * Store a freshly issued login nonce
+ */
+export async function createSiweNonce(nonce: string, expiresAt: Date): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('siwe_nonces')
+    .insert([{ nonce, expires_at: expiresAt.toISOString() }]);
+
+  if (error) throw new Error(`Failed to create SIWE nonce: ${error.message}`);
+}
+
+/**
+ * Use a login nonce
+ * Returns false if it is unknown, expired or was already used
+ */
+export async function consumeSiweNonce(nonce: string, address: Address): Promise<boolean> {
+  const { data, error } = await supabaseAdmin.rpc('consume_siwe_nonce', {
+    p_nonce: nonce,
+    p_address: address,
+  });
+
+  if (error) throw new Error(`Failed to consume SIWE nonce: ${error.message}`);
+  return data === true;
+}
@@ -0,0 +1,141 @@
+/**
+ * Capability Taxonomy Database Operations
+ * The capabilities table, a cached taxonomy built from it, and the admin token that may edit it
+ */
+
+import { supabaseAdmin } from './client';
+import { buildTaxonomy, type CapabilityTaxonomy } from '../capabilities/taxonomy';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface Capability {
+  slug: string;
+  name: string;
+  parent_slug: string | null;
+  description: string | null;
+  synonyms: string[]; // Lowercased
+  deliverable_types: string[];
+  price_min: number | null; // USDC
+  price_max: number | null;
+  turnaround: string | null;
+  active: boolean;
+  sort_order: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type CapabilityParams = Pick<Capability, 'slug' | 'name'> &
+  Partial<Omit<Capability, 'slug' | 'name' | 'created_at' | 'updated_at'>>;
+
+export type CapabilityUpdate = Partial<Omit<Capability, 'slug' | 'created_at' | 'updated_at'>>;
+
+// Other processes see admin edits once their copy expires
+const TAXONOMY_TTL_MS = 60 * 1000;
+
+let cachedTaxonomy: { taxonomy: CapabilityTaxonomy; loadedAt: number } | null = null;
+
+// ============================================================================
+// CAPABILITIES
+// ============================================================================
+
+/**
+ * List capabilities, active only unless includeInactive
+ */
+export async function listCapabilities(options?: { includeInactive?: boolean }): Promise<Capability[]> {
+  let query = supabaseAdmin
+    .from('capabilities')
+    .select('*')
+    .order('sort_order', { ascending: true });
+
+  if (!options?.includeInactive) {
+    query = query.eq('active', true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw new Error(`Failed to list capabilities: ${error.message}`);
+  return data as Capability[];
+}
+
+/**
+ * Get a capability by slug
+ */
+export async function getCapability(slug: string): Promise<Capability | null> {
+  const { data, error } = await supabaseAdmin
+    .from('capabilities')
+    .select('*')
+    .eq('slug', slug)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return null; // Not found
+    throw new Error(`Failed to get capability: ${error.message}`);
+  }
+
+  return data as Capability;
+}
+
+/**
+ * Add a capability
+ */
+export async function createCapability(params: CapabilityParams): Promise<Capability> {
+  const { data, error } = await supabaseAdmin
+    .from('capabilities')
+    .insert([params])
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') throw new Error(`Capability ${params.slug} already exists`);
+    throw new Error(`Failed to create capability: ${error.message}`);
+  }
+
+  invalidateCapabilityTaxonomy();
+  return data as Capability;
+}
+
+/**
+ * Update a capability - deactivate it rather than deleting, agents still list it
+ */
+export async function updateCapability(slug: string, updates: CapabilityUpdate): Promise<Capability | null> {
+  const { data, error } = await supabaseAdmin
+    .from('capabilities')
+    .update(updates)
+    .eq('slug', slug)
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return null; // Not found
+    throw new Error(`Failed to update capability: ${error.message}`);
+  }
+
+  invalidateCapabilityTaxonomy();
+  return data as Capability;
+}
+
+// ============================================================================
+// TAXONOMY
+// ============================================================================
+
+/**
+ * Get the taxonomy of all capabilities, inactive ones included so old terms still resolve
+ */
+export async function getCapabilityTaxonomy(): Promise<CapabilityTaxonomy> {
+  if (cachedTaxonomy && Date.now() - cachedTaxonomy.loadedAt < TAXONOMY_TTL_MS) {
+    return cachedTaxonomy.taxonomy;
+  }
+
+  const taxonomy = buildTaxonomy(await listCapabilities({ includeInactive: true }));
+  cachedTaxonomy = { taxonomy, loadedAt: Date.now() };
+  return taxonomy;
+}
+
+/**
+ * Drop the cached taxonomy so the next lookup reloads it
+ */
+export function invalidateCapabilityTaxonomy(): void {
+  cachedTaxonomy = null;
+}
@@ -0,0 +1,535 @@
+/**
+ * Chain Index Database Operations
+ * Indexer cursors, raw escrow events and their projections
+ * (indexer_cursors, chain_events, indexer_dirty_entities, chain_bounties, chain_gigs, chain_missions)
+ */
+
+import { supabaseAdmin } from './client';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type IndexedContractName = 'bounty_escrow' | 'gig_escrow' | 'mission_escrow' | 'simple_arbitrator';
+
+export interface IndexerCursor {
+  contract_address: string;
+  contract: IndexedContractName;
+  chain_id: number;
+  start_block: number;
+  last_block: number;
+  last_block_hash?: string | null;
+  active: boolean;
+  last_error?: string | null;
+  synced_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type ChainEventArgs = Record<string, unknown>; // uint256 values as decimal strings
+
+export interface ChainEvent {
+  id?: number;
+  chain_id: number;
+  contract: IndexedContractName;
+  entity_id: number;
+  event_name: string;
+  args: ChainEventArgs;
+  block_number: number;
+  block_hash: string;
+  block_timestamp: string;
+  tx_hash: string;
+  log_index: number;
+}
+
+export interface ChainBounty {
+  contract_address: string;
+  bounty_id: number;
+  client_address: string;
+  payment_token: string;
+  escrow_amount: string;
+  deadline: string | null;
+  requirements_uri: string | null;
+  status: 'open' | 'assigned' | 'submitted' | 'completed' | 'disputed' | 'cancelled' | 'auto_released';
+  assigned_worker: string | null;
+  assigned_bid_amount: string | null;
+  deliverable_uri: string | null;
+  submitted_at: string | null;
+  bid_count: number;
+  dispute_case_id: string | null;
+  uma_assertion_id: string | null;
+  created_block: number;
+  created_at: string;
+  updated_block: number;
+}
+
+export interface ChainBountyBid {
+  contract_address: string;
+  bounty_id: number;
+  bid_index: number;
+  bidder: string;
+  bid_amount: string;
+  proposal_uri: string | null;
+  withdrawn: boolean;
+  created_at: string;
+}
+
+export interface ChainGig {
+  contract_address: string;
+  gig_id: number;
+  client_address: string;
+  worker_address: string;
+  payment_token: string;
+  total_amount: string;
+  released_amount: string;
+  milestone_count: number;
+  completed_milestones: number;
+  status: 'active' | 'completed' | 'disputed' | 'cancelled' | 'auto_released';
+  use_uma_arbitration: boolean;
+  created_block: number;
+  created_at: string;
+  updated_block: number;
+}
+
+export interface ChainGigMilestone {
+  contract_address: string;
+  gig_id: number;
+  milestone_index: number;
+  description: string | null;
+  amount: string | null;
+  status: 'pending' | 'submitted' | 'approved' | 'disputed' | 'auto_released';
+  deliverable_uri: string | null;
+  submitted_at: string | null;
+}
+
+export interface ChainMission {
+  contract_address: string;
+  mission_id: number;
+  client_address: string;
+  total_escrow: string;
+  released_amount: string;
+  agent_count: number;
+  status: 'pending' | 'in_progress' | 'submitted' | 'validating' | 'disputed' | 'completed' | 'auto_released' | 'cancelled';
+  deliverable_uri: string | null;
+  auto_release_time: string | null;
+  validation_id: string | null;
+  dispute_assertion_id: string | null;
+  created_block: number;
+  created_at: string;
+  updated_block: number;
+}
+
+// ============================================================================
+// CURSORS
+// ============================================================================
+
+/**
+ * Get a contract's cursor
+ */
+export async function getIndexerCursor(contractAddress: string): Promise<IndexerCursor | null> {
+  const { data, error } = await supabaseAdmin
+    .from('indexer_cursors')
+    .select('*')
+    .eq('contract_address', contractAddress.toLowerCase())
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return null; // Not found
+    throw new Error(`Failed to get indexer cursor: ${error.message}`);
+  }
+
+  return data as IndexerCursor;
+}
+
+/**
+ * Start indexing a contract deployment from its start block
+ * Older deployments of the same contract stop being listed
+ */
+export async function createIndexerCursor(params: {
+  contractAddress: string;
+  contract: IndexedContractName;
+  chainId: number;
+  startBlock: number;
+}): Promise<IndexerCursor> {
+  const contractAddress = params.contractAddress.toLowerCase();
+
+  const { error: deactivateError } = await supabaseAdmin
+    .from('indexer_cursors')
+    .update({ active: false })
+    .eq('contract', params.contract)
+    .neq('contract_address', contractAddress);
+
+  if (deactivateError) throw new Error(`Failed to deactivate old cursors: ${deactivateError.message}`);
+
+  const { data, error } = await supabaseAdmin
+    .from('indexer_cursors')
+    .upsert([{
+      contract_address: contractAddress,
+      contract: params.contract,
+      chain_id: params.chainId,
+      start_block: params.startBlock,
+      last_block: params.startBlock - 1,
+      active: true,
+    }], { onConflict: 'contract_address', ignoreDuplicates: true })
+    .select()
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to create indexer cursor: ${error.message}`);
+
+  // Another indexer created it first
+  return (data as IndexerCursor | null) || (await getIndexerCursor(contractAddress))!;
+}
+
+/**
+ * Record why the last sync of a contract failed
+ */
+export async function setIndexerError(contractAddress: string, message: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('indexer_cursors')
+    .update({ last_error: message })
+    .eq('contract_address', contractAddress.toLowerCase());
+
+  if (error) throw new Error(`Failed to record indexer error: ${error.message}`);
+}
+
+/**
+ * List all cursors
+ */
+export async function listIndexerCursors(): Promise<IndexerCursor[]> {
+  const { data, error } = await supabaseAdmin
+    .from('indexer_cursors')
+    .select('*')
+    .order('contract');
+
+  if (error) throw new Error(`Failed to list indexer cursors: ${error.message}`);
+  return (data || []) as IndexerCursor[];
+}
+
+// ============================================================================
+// EVENTS
+// ============================================================================
+
+/**
+ * Replace a contract's events in a block range and move its cursor, in one transaction
+ * A null toBlock clears everything from fromBlock on (undoing a reorg)
+ */
+export async function replaceChainEvents(params: {
+  contractAddress: string;
+  fromBlock: number;
+  toBlock: number | null;
+  events: ChainEvent[];
+  cursorBlock: number;
+  cursorHash: string | null;
+}): Promise<number> {
+  const { data, error } = await supabaseAdmin.rpc('replace_chain_events', {
+    p_contract_address: params.contractAddress.toLowerCase(),
+    p_from_block: params.fromBlock,
+    p_to_block: params.toBlock,
+    p_events: params.events,
+    p_cursor_block: params.cursorBlock,
+    p_cursor_hash: params.cursorHash,
+  });
+
+  if (error) throw new Error(`Failed to replace chain events: ${error.message}`);
+  return data as number;
+}
+
+/**
+ * Get every event of one bounty, gig or mission in chain order
+ */
+export async function getEntityEvents(contractAddress: string, entityId: number): Promise<ChainEvent[]> {
+  const { data, error } = await supabaseAdmin
+    .from('chain_events')
+    .select('*')
+    .eq('contract_address', contractAddress.toLowerCase())
+    .eq('entity_id', entityId)
+    .order('block_number', { ascending: true })
+    .order('log_index', { ascending: true });
+
+  if (error) throw new Error(`Failed to get entity events: ${error.message}`);
+  return (data || []) as ChainEvent[];
+}
+
+/**
+ * Get a contract's events of one kind indexed after an event ID, in insertion order
+ * Events re-indexed after a reorg get new IDs, so they come up again
+ */
+export async function getEventsByName(
+  contractAddress: string,
+  eventName: string,
+  afterId = 0,
+  limit = 500
+): Promise<ChainEvent[]> {
+  const { data, error } = await supabaseAdmin
+    .from('chain_events')
+    .select('*')
+    .eq('contract_address', contractAddress.toLowerCase())
+    .eq('event_name', eventName)
+    .gt('id', afterId)
+    .order('id', { ascending: true })
+    .limit(limit);
+
+  if (error) throw new Error(`Failed to get ${eventName} events: ${error.message}`);
+  return (data || []) as ChainEvent[];
+}
+
+/**
+ * Get entities waiting for their projection to be rebuilt
+ */
+export async function getDirtyEntities(contractAddress: string, limit = 500): Promise<number[]> {
+  const { data, error } = await supabaseAdmin
+    .from('indexer_dirty_entities')
+    .select('entity_id')
+    .eq('contract_address', contractAddress.toLowerCase())
+    .order('entity_id')
+    .limit(limit);
+
+  if (error) throw new Error(`Failed to get dirty entities: ${error.message}`);
+  return (data || []).map((row) => Number(row.entity_id));
+}
+
+/**
+ * Mark an entity's projection as rebuilt
+ */
+export async function clearDirtyEntity(contractAddress: string, entityId: number): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('indexer_dirty_entities')
+    .delete()
+    .eq('contract_address', contractAddress.toLowerCase())
+    .eq('entity_id', entityId);
+
+  if (error) throw new Error(`Failed to clear dirty entity: ${error.message}`);
+}
+
+// ============================================================================
+// PROJECTIONS
+// ============================================================================
+
+/**
+ * Replace a bounty and its bids (null removes it - its creation was reorged out)
+ */
+export async function saveBountyProjection(
+  key: { contractAddress: string; bountyId: number },
+  projection: { bounty: ChainBounty; bids: ChainBountyBid[] } | null
+): Promise<void> {
+  const contractAddress = key.contractAddress.toLowerCase();
+
+  if (!projection) {
+    // Bids cascade
+    const { error } = await supabaseAdmin
+      .from('chain_bounties')
+      .delete()
+      .eq('contract_address', contractAddress)
+      .eq('bounty_id', key.bountyId);
+
+    if (error) throw new Error(`Failed to clear bounty projection: ${error.message}`);
+    return;
+  }
+
+  const { error } = await supabaseAdmin
+    .from('chain_bounties')
+    .upsert([projection.bounty], { onConflict: 'contract_address,bounty_id' });
+
+  if (error) throw new Error(`Failed to save bounty projection: ${error.message}`);
+
+  const { error: deleteError } = await supabaseAdmin
+    .from('chain_bounty_bids')
+    .delete()
+    .eq('contract_address', contractAddress)
+    .eq('bounty_id', key.bountyId);
+
+  if (deleteError) throw new Error(`Failed to clear bounty bids: ${deleteError.message}`);
+
+  if (projection.bids.length > 0) {
+    const { error: bidsError } = await supabaseAdmin.from('chain_bounty_bids').insert(projection.bids);
+    if (bidsError) throw new Error(`Failed to save bounty bids: ${bidsError.message}`);
+  }
+}
+
+/**
+ * Get an indexed bounty
+ */
+export async function getChainBounty(contractAddress: string, bountyId: number): Promise<ChainBounty | null> {
+  const { data, error } = await supabaseAdmin
+    .from('chain_bounties')
+    .select('*')
+    .eq('contract_address', contractAddress.toLowerCase())
+    .eq('bounty_id', bountyId)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return null;
+    throw new Error(`Failed to get bounty: ${error.message}`);
+  }
+
+  return data as ChainBounty;
+}
+
+/**
+ * Get a bounty's bids in bid order (withdrawn ones included)
+ */
+export async function getChainBountyBids(contractAddress: string, bountyId: number): Promise<ChainBountyBid[]> {
+  const { data, error } = await supabaseAdmin
+    .from('chain_bounty_bids')
+    .select('*')
+    .eq('contract_address', contractAddress.toLowerCase())
+    .eq('bounty_id', bountyId)
+    .order('bid_index', { ascending: true });
+
+  if (error) throw new Error(`Failed to get bounty bids: ${error.message}`);
+  return (data || []) as ChainBountyBid[];
+}
+
+/**
+ * Get an indexed gig
+ */
+export async function getChainGig(contractAddress: string, gigId: number): Promise<ChainGig | null> {
+  const { data, error } = await supabaseAdmin
+    .from('chain_gigs')
+    .select('*')
+    .eq('contract_address', contractAddress.toLowerCase())
+    .eq('gig_id', gigId)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return null;
+    throw new Error(`Failed to get gig: ${error.message}`);
+  }
+
+  return data as ChainGig;
+}
+
+/**
+ * Get a gig's milestones in order
+ */
+export async function getChainGigMilestones(contractAddress: string, gigId: number): Promise<ChainGigMilestone[]> {
+  const { data, error } = await supabaseAdmin
+    .from('chain_gig_milestones')
+    .select('*')
+    .eq('contract_address', contractAddress.toLowerCase())
+    .eq('gig_id', gigId)
+    .order('milestone_index', { ascending: true });
+
+  if (error) throw new Error(`Failed to get gig milestones: ${error.message}`);
+  return (data || []) as ChainGigMilestone[];
+}
+
+/**
+ * Replace a gig and its milestones (null removes it)
+ */
+export async function saveGigProjection(
+  key: { contractAddress: string; gigId: number },
+  projection: { gig: ChainGig; milestones: ChainGigMilestone[] } | null
+): Promise<void> {
+  const contractAddress = key.contractAddress.toLowerCase();
+
+  if (!projection) {
+    // Milestones cascade
+    const { error } = await supabaseAdmin
+      .from('chain_gigs')
+      .delete()
+      .eq('contract_address', contractAddress)
+      .eq('gig_id', key.gigId);
+
+    if (error) throw new Error(`Failed to clear gig projection: ${error.message}`);
+    return;
+  }
+
+  const { error } = await supabaseAdmin
+    .from('chain_gigs')
+    .upsert([projection.gig], { onConflict: 'contract_address,gig_id' });
+
+  if (error) throw new Error(`Failed to save gig projection: ${error.message}`);
+
+  const { error: milestonesError } = await supabaseAdmin
+    .from('chain_gig_milestones')
+    .upsert(projection.milestones, { onConflict: 'contract_address,gig_id,milestone_index' });
+
+  if (milestonesError) throw new Error(`Failed to save gig milestones: ${milestonesError.message}`);
+}
+
+/**
+ * Bounties waiting on the client since before a time, oldest first
+ */
+export async function getBountiesSubmittedBefore(
+  contractAddress: string,
+  submittedBefore: string,
+  limit = 100
+): Promise<ChainBounty[]> {
+  const { data, error } = await supabaseAdmin
+    .from('chain_bounties')
+    .select('*')
+    .eq('contract_address', contractAddress.toLowerCase())
+    .eq('status', 'submitted')
+    .lte('submitted_at', submittedBefore)
+    .order('submitted_at', { ascending: true })
+    .limit(limit);
+
+  if (error) throw new Error(`Failed to get submitted bounties: ${error.message}`);
+  return (data || []) as ChainBounty[];
+}
+
+/**
+ * Gig milestones waiting on the client since before a time, oldest first
+ */
+export async function getMilestonesSubmittedBefore(
+  contractAddress: string,
+  submittedBefore: string,
+  limit = 100
+): Promise<ChainGigMilestone[]> {
+  const { data, error } = await supabaseAdmin
+    .from('chain_gig_milestones')
+    .select('*')
+    .eq('contract_address', contractAddress.toLowerCase())
+    .eq('status', 'submitted')
+    .lte('submitted_at', submittedBefore)
+    .order('submitted_at', { ascending: true })
+    .limit(limit);
+
+  if (error) throw new Error(`Failed to get submitted milestones: ${error.message}`);
+  return (data || []) as ChainGigMilestone[];
+}
+
+/**
+ * Submitted missions with their auto-release time, soonest first
+ */
+export async function getSubmittedChainMissions(contractAddress: string, limit = 500): Promise<ChainMission[]> {
+  const { data, error } = await supabaseAdmin
+    .from('chain_missions')
+    .select('*')
+    .eq('contract_address', contractAddress.toLowerCase())
+    .eq('status', 'submitted')
+    .not('auto_release_time', 'is', null)
+    .order('auto_release_time', { ascending: true })
+    .limit(limit);
+
+  if (error) throw new Error(`Failed to get submitted missions: ${error.message}`);
+  return (data || []) as ChainMission[];
+}
+
+/**
+ * Replace an escrowed mission (null removes it)
+ */
+export async function saveMissionProjection(
+  key: { contractAddress: string; missionId: number },
+  mission: ChainMission | null
+): Promise<void> {
+  const contractAddress = key.contractAddress.toLowerCase();
+
+  if (!mission) {
+    const { error } = await supabaseAdmin
+      .from('chain_missions')
+      .delete()
+      .eq('contract_address', contractAddress)
+      .eq('mission_id', key.missionId);
+
+    if (error) throw new Error(`Failed to clear mission projection: ${error.message}`);
+    return;
+  }
+
+  const { error } = await supabaseAdmin
+    .from('chain_missions')
+    .upsert([mission], { onConflict: 'contract_address,mission_id' });
+
+  if (error) throw new Error(`Failed to save mission projection: ${error.message}`);
+}
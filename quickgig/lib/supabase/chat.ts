@@ -5,6 +5,7 @@
 
 import { supabaseAdmin } from './client';
 import type { Message } from '@/lib/store/chat';
+import type { SessionBillingMode, SessionLedgerEntry } from '@/lib/storage/in-memory-chat';
 
 /**
  * Session management
@@ -17,6 +18,8 @@ export interface ChatSession {
   messages_remaining: number;
   total_paid: string;
   expires_at: string;
+  billing_mode?: SessionBillingMode;
+  balance?: string;
   created_at?: string;
   updated_at?: string;
 }
@@ -58,13 +61,107 @@ export async function updateSession(sessionId: string, updates: Partial<ChatSess
   return data as ChatSession;
 }
 
+/**
+ * Atomically consume one message from an active session
+ * Returns null if the session is missing, expired or has no messages left
+ */
+export async function consumeSessionMessage(sessionId: string): Promise<ChatSession | null> {
+  const { data, error } = await supabaseAdmin
+    .rpc('use_chat_session_message', { p_session_id: sessionId });
+
+  if (error) throw error;
+  const rows = data as ChatSession[] | null;
+  return rows && rows.length > 0 ? rows[0] : null;
+}
+
 export async function deleteExpiredSessions() {
+  // Metered sessions with a balance left are kept until it is refunded or carried over
   const { error } = await supabaseAdmin
     .from('chat_sessions')
     .delete()
-    .lt('expires_at', new Date().toISOString());
+    .lt('expires_at', new Date().toISOString())
+    .eq('balance', 0);
+
+  if (error) throw error;
+}
+
+/**
+ * Metered balance management (functions from migration 007)
+ */
+
+export async function creditSessionBalance(
+  sessionId: string,
+  amount: bigint,
+  kind: 'deposit' | 'carry_over_in'
+): Promise<ChatSession | null> {
+  const { data, error } = await supabaseAdmin
+    .rpc('credit_chat_session', { p_session_id: sessionId, p_amount: amount.toString(), p_kind: kind });
+
+  if (error) throw error;
+  const rows = data as ChatSession[] | null;
+  return rows && rows.length > 0 ? rows[0] : null;
+}
+
+export async function debitSessionBalance(
+  sessionId: string,
+  amount: bigint,
+  usage?: { unit: string; quantity: number }
+): Promise<{ session: ChatSession; debited: bigint } | null> {
+  const { data, error } = await supabaseAdmin.rpc('debit_chat_session', {
+    p_session_id: sessionId,
+    p_amount: amount.toString(),
+    p_unit: usage?.unit ?? null,
+    p_quantity: usage?.quantity ?? null,
+  });
+
+  if (error) throw error;
+  const rows = data as { session: ChatSession; debited: string | number }[] | null;
+  if (!rows || rows.length === 0) return null;
+
+  return { session: rows[0].session, debited: BigInt(rows[0].debited) };
+}
+
+export async function closeSessionBalance(
+  sessionId: string,
+  kind: 'refund' | 'carry_over_out'
+): Promise<{ session: ChatSession; amount: bigint } | null> {
+  const { data, error } = await supabaseAdmin
+    .rpc('close_chat_session_balance', { p_session_id: sessionId, p_kind: kind });
+
+  if (error) throw error;
+  const rows = data as { session: ChatSession; amount: string | number }[] | null;
+  if (!rows || rows.length === 0) return null;
+
+  return { session: rows[0].session, amount: BigInt(rows[0].amount) };
+}
+
+export async function addCarryOver(userAddress: string, agentId: string, amount: bigint) {
+  const { error } = await supabaseAdmin.rpc('add_chat_carry_over', {
+    p_user_address: userAddress,
+    p_agent_id: agentId,
+    p_amount: amount.toString(),
+  });
+
+  if (error) throw error;
+}
+
+export async function claimCarryOver(userAddress: string, agentId: string): Promise<bigint> {
+  const { data, error } = await supabaseAdmin
+    .rpc('claim_chat_carry_over', { p_user_address: userAddress, p_agent_id: agentId });
+
+  if (error) throw error;
+  return BigInt(data ?? 0);
+}
+
+export async function getSessionLedger(sessionId: string): Promise<SessionLedgerEntry[]> {
+  const { data, error } = await supabaseAdmin
+    .from('chat_session_ledger')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: true });
 
   if (error) throw error;
+  return data as SessionLedgerEntry[];
 }
 
 /**
@@ -74,7 +171,7 @@ export async function deleteExpiredSessions() {
 export interface ChatMessage {
   id?: string;
   session_id: string;
-  role: 'user' | 'assistant' | 'system';
+  role: 'user' | 'assistant' | 'system' | 'tool'; // tool - a tool result, only sent to the model
   content: string;
   metadata?: unknown;
   created_at?: string;
@@ -91,16 +188,63 @@ export async function saveMessage(message: Omit<ChatMessage, 'id' | 'created_at'
   return data as ChatMessage;
 }
 
-export async function getMessages(sessionId: string, limit: number = 100): Promise<ChatMessage[]> {
+/**
+ * Messages shown in the chat, oldest first (tool results are left out)
+ */
+export async function getMessages(sessionId: string, limit: number = 100): Promise<DisplayedChatMessage[]> {
   const { data, error } = await supabaseAdmin
     .from('chat_messages')
     .select('*')
     .eq('session_id', sessionId)
+    .neq('role', 'tool')
     .order('created_at', { ascending: true })
     .limit(limit);
 
   if (error) throw error;
-  return data as ChatMessage[];
+  return data as DisplayedChatMessage[];
+}
+
+/**
+ * The latest messages of a session including tool results, oldest first - the history sent to the model
+ */
+export async function getRecentMessages(sessionId: string, limit: number = 40): Promise<ChatMessage[]> {
+  const { data, error } = await supabaseAdmin
+    .from('chat_messages')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data as ChatMessage[]).reverse();
+}
+
+/**
+ * Sessions with a tool result naming a bounty or gig (created or bid on from the chat), newest first
+ */
+export async function getSessionsWithToolResult(field: 'bountyId' | 'gigId', id: number, limit: number = 20): Promise<string[]> {
+  const { data, error } = await supabaseAdmin
+    .from('chat_messages')
+    .select('session_id, content')
+    .eq('role', 'tool')
+    .like('content', `%"${field}":${id}%`)
+    .order('created_at', { ascending: false })
+    .limit(limit * 5);
+
+  if (error) throw error;
+
+  // The LIKE also matches longer IDs (3 matches 30), so check the parsed value
+  const sessionIds = (data || [])
+    .filter((row) => {
+      try {
+        return JSON.parse(row.content)[field] === id;
+      } catch {
+        return false;
+      }
+    })
+    .map((row) => row.session_id as string);
+
+  return [...new Set(sessionIds)].slice(0, limit);
 }
 
 export async function deleteMessagesForSession(sessionId: string) {
@@ -116,7 +260,9 @@ export async function deleteMessagesForSession(sessionId: string) {
  * Convert between Supabase format and app format
  */
 
-export function toAppMessage(dbMessage: ChatMessage): Message {
+export type DisplayedChatMessage = ChatMessage & { role: Message['role'] };
+
+export function toAppMessage(dbMessage: DisplayedChatMessage): Message {
   return {
     id: dbMessage.id || `msg_${Date.now()}`,
     role: dbMessage.role,
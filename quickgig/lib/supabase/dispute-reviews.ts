@@ -0,0 +1,158 @@
+/**
+ * Dispute Review Database Operations
+ * Automated pre-reviews of disputed deliverables and the parties' answers (dispute_reviews)
+ */
+
+import { supabaseAdmin } from './client';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DisputeReviewVerdict = 'client' | 'worker' | 'split';
+
+export type DisputeReviewStatus = 'open' | 'accepted' | 'escalated';
+
+export type DisputeReviewResponse = 'accept' | 'escalate';
+
+export interface DisputeReviewFinding {
+  requirement: string;
+  met: 'yes' | 'partial' | 'no';
+  notes: string;
+}
+
+export interface DisputeReview {
+  id: string;
+  subject_key: string;
+  subject: Record<string, unknown>;
+  contract_address: string | null;
+  client_address: string;
+  worker_address: string | null; // Null for missions - only the client answers
+  requested_by: string;
+  evidence_uri: string;
+  evidence_root_hash: string;
+  model: string;
+  verdict: DisputeReviewVerdict;
+  client_bps: number; // 0-10000, as in SimpleArbitrator.vote
+  confidence: number; // 0-1
+  summary: string;
+  reasoning: string;
+  findings: DisputeReviewFinding[];
+  review_uri: string | null;
+  status: DisputeReviewStatus;
+  client_response: DisputeReviewResponse | null;
+  client_responded_at: string | null;
+  worker_response: DisputeReviewResponse | null;
+  worker_responded_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type NewDisputeReview = Omit<
+  DisputeReview,
+  | 'id'
+  | 'status'
+  | 'client_response'
+  | 'client_responded_at'
+  | 'worker_response'
+  | 'worker_responded_at'
+  | 'created_at'
+  | 'updated_at'
+>;
+
+// ============================================================================
+// REVIEWS
+// ============================================================================
+
+/**
+ * Save a review - returns null if the dispute already has one (a parallel request won)
+ */
+export async function createDisputeReview(review: NewDisputeReview): Promise<DisputeReview | null> {
+  const { data, error } = await supabaseAdmin
+    .from('dispute_reviews')
+    .insert([
+      {
+        ...review,
+        client_address: review.client_address.toLowerCase(),
+        worker_address: review.worker_address?.toLowerCase() ?? null,
+        requested_by: review.requested_by.toLowerCase(),
+      },
+    ])
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') return null; // subject_key taken
+    throw new Error(`Failed to create dispute review: ${error.message}`);
+  }
+
+  return data as DisputeReview;
+}
+
+/**
+ * Get the review of a dispute by its subject key (bounty:3, gig:2:0, mission:<uuid>)
+ */
+export async function getDisputeReview(subjectKey: string): Promise<DisputeReview | null> {
+  const { data, error } = await supabaseAdmin
+    .from('dispute_reviews')
+    .select('*')
+    .eq('subject_key', subjectKey)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return null;
+    throw new Error(`Failed to get dispute review: ${error.message}`);
+  }
+
+  return data as DisputeReview;
+}
+
+/**
+ * Get a review by ID
+ */
+export async function getDisputeReviewById(reviewId: string): Promise<DisputeReview | null> {
+  const { data, error } = await supabaseAdmin
+    .from('dispute_reviews')
+    .select('*')
+    .eq('id', reviewId)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return null;
+    throw new Error(`Failed to get dispute review: ${error.message}`);
+  }
+
+  return data as DisputeReview;
+}
+
+/**
+ * Set where the review's verdict record was pinned
+ */
+export async function setDisputeReviewUri(reviewId: string, reviewUri: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('dispute_reviews')
+    .update({ review_uri: reviewUri })
+    .eq('id', reviewId);
+
+  if (error) throw new Error(`Failed to update dispute review: ${error.message}`);
+}
+
+/**
+ * Record a party accepting or escalating an open review
+ * Returns null if the address isn't a party, already answered or the review is settled
+ */
+export async function respondToDisputeReview(
+  reviewId: string,
+  address: string,
+  response: DisputeReviewResponse
+): Promise<DisputeReview | null> {
+  const { data, error } = await supabaseAdmin.rpc('respond_to_dispute_review', {
+    p_review_id: reviewId,
+    p_address: address.toLowerCase(),
+    p_response: response,
+  });
+
+  if (error) throw new Error(`Failed to respond to dispute review: ${error.message}`);
+  const rows = data as DisputeReview[] | null;
+  return rows && rows.length > 0 ? rows[0] : null;
+}
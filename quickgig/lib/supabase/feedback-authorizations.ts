@@ -0,0 +1,60 @@
+/**
+ * Feedback Authorization Database Operations
+ * Record of every ERC-8004 feedbackAuth issued to a client (feedback_authorizations)
+ */
+
+import { supabaseAdmin } from './client';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type FeedbackSource = 'mission' | 'gig';
+export type FeedbackSignerType = 'agent_wallet' | 'delegate';
+
+export interface FeedbackAuthorization {
+  id: number;
+  agent_id: string;
+  erc8004_token_id: string;
+  identity_registry: string; // Lowercased
+  client_address: string; // Lowercased
+  source: FeedbackSource;
+  mission_id: string | null;
+  gig_contract: string | null;
+  gig_id: number | null;
+  index_limit: number;
+  expires_at: string;
+  chain_id: number;
+  signer_address: string; // Lowercased
+  signer_type: FeedbackSignerType;
+  feedback_auth: string;
+  created_at: string;
+}
+
+export type RecordFeedbackAuthorizationParams = Omit<FeedbackAuthorization, 'id' | 'created_at'>;
+
+// ============================================================================
+// FEEDBACK AUTHORIZATIONS
+// ============================================================================
+
+/**
+ * Record an issued feedbackAuth
+ */
+export async function recordFeedbackAuthorization(
+  params: RecordFeedbackAuthorizationParams
+): Promise<FeedbackAuthorization> {
+  const { data, error } = await supabaseAdmin
+    .from('feedback_authorizations')
+    .insert([{
+      ...params,
+      identity_registry: params.identity_registry.toLowerCase(),
+      client_address: params.client_address.toLowerCase(),
+      gig_contract: params.gig_contract?.toLowerCase() ?? null,
+      signer_address: params.signer_address.toLowerCase(),
+    }])
+    .select()
+    .single();
+
+  if (error) throw new Error(`Failed to record feedback authorization: ${error.message}`);
+  return data as FeedbackAuthorization;
+}
@@ -0,0 +1,94 @@
+/**
+ * Marketplace Database Operations
+ * Paginated listings of indexed bounties and gigs plus orchestrated missions (marketplace_listings)
+ */
+
+import { supabaseAdmin } from './client';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ListingSource = 'contract' | 'gig' | 'database'; // Bounty, gig, orchestrated mission
+export type ListingStatus = 'open' | 'assigned' | 'completed' | 'cancelled';
+
+export interface MarketplaceListing {
+  id: string; // bounty_<id>, gig_<id> or the mission ID
+  source: ListingSource;
+  entity_id: string;
+  client_address: string; // Lowercased
+  amount: number; // USDC
+  created_at: string;
+  deadline: string | null;
+  description: string;
+  status: ListingStatus;
+  requirements_uri: string | null;
+  bid_count: number | null;
+  assigned_worker: string | null;
+  milestone_count: number | null;
+  completed_milestones: number | null;
+  use_uma_arbitration: boolean | null;
+}
+
+export interface MarketplaceFilters {
+  status?: ListingStatus;
+  source?: ListingSource;
+  client?: string;
+  participant?: string; // Client or assigned worker
+}
+
+export interface MarketplaceCount {
+  source: ListingSource;
+  status: ListingStatus;
+  total: number;
+}
+
+// ============================================================================
+// LISTINGS
+// ============================================================================
+
+/**
+ * Get one page of listings, newest first, with the total matching the filters
+ */
+export async function listMarketplace(
+  filters: MarketplaceFilters,
+  page = 1,
+  limit = 50
+): Promise<{ listings: MarketplaceListing[]; total: number }> {
+  let query = supabaseAdmin
+    .from('marketplace_listings')
+    .select('*', { count: 'exact' });
+
+  if (filters.status) query = query.eq('status', filters.status);
+  if (filters.source) query = query.eq('source', filters.source);
+  if (filters.client) query = query.eq('client_address', filters.client.toLowerCase());
+  if (filters.participant) {
+    const participant = filters.participant.toLowerCase();
+    query = query.or(`client_address.eq.${participant},assigned_worker.eq.${participant}`);
+  }
+
+  const from = (page - 1) * limit;
+  const { data, error, count } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: true })
+    .range(from, from + limit - 1);
+
+  if (error) throw new Error(`Failed to list marketplace: ${error.message}`);
+
+  return {
+    listings: (data || []).map((row) => ({ ...row, amount: Number(row.amount) })) as MarketplaceListing[],
+    total: count || 0,
+  };
+}
+
+/**
+ * Count listings per source and status (for filter tabs), optionally for one wallet
+ */
+export async function getMarketplaceCounts(participant?: string): Promise<MarketplaceCount[]> {
+  const { data, error } = await supabaseAdmin.rpc('get_marketplace_counts', {
+    p_participant: participant || null,
+  });
+
+  if (error) throw new Error(`Failed to count marketplace listings: ${error.message}`);
+  return ((data || []) as MarketplaceCount[]).map((row) => ({ ...row, total: Number(row.total) }));
+}
@@ -0,0 +1,218 @@
+/**
+ * Mission Job Queue Operations
+ * Leased orchestration jobs and per-step checkpoints (mission_jobs, mission_step_checkpoints)
+ */
+
+import { supabaseAdmin } from './client';
+import type { MissionPayload } from '../orchestrator/core';
+import type { UpstreamOutput } from '../orchestrator/dag';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MissionJob {
+  id: number;
+  mission_id: string;
+  payload: MissionPayload;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  attempts: number;
+  max_attempts: number;
+  lease_owner?: string | null;
+  lease_expires_at?: string | null;
+  heartbeat_at?: string | null;
+  last_error?: string | null;
+  created_at?: string;
+  updated_at?: string;
+  completed_at?: string | null;
+}
+
+export type StepCheckpointState = 'paying' | 'paid' | 'accepted' | 'delivered' | 'failed';
+
+/**
+ * Identifies one call to an agent within a mission step
+ */
+export interface StepCheckpointKey {
+  mission_id: string;
+  step_agent_id: string; // Mission agent that owns the step
+  agent_id: string; // Agent called - a fallback agent when it differs from step_agent_id
+  attempt: number;
+}
+
+export interface StepCheckpoint extends StepCheckpointKey {
+  state: StepCheckpointState;
+  payment?: Record<string, unknown> | null;
+  output?: UpstreamOutput | null;
+  error?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// ============================================================================
+// JOBS
+// ============================================================================
+
+/**
+ * Queue a mission for orchestration (one job per mission)
+ */
+export async function enqueueMissionJob(payload: MissionPayload): Promise<MissionJob> {
+  const { data, error } = await supabaseAdmin
+    .from('mission_jobs')
+    .insert([{ mission_id: payload.missionId, payload }])
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      const existing = await getMissionJob(payload.missionId);
+      if (existing) return existing;
+    }
+    throw new Error(`Failed to enqueue mission job: ${error.message}`);
+  }
+
+  return data as MissionJob;
+}
+
+/**
+ * Get a mission's job
+ */
+export async function getMissionJob(missionId: string): Promise<MissionJob | null> {
+  const { data, error } = await supabaseAdmin
+    .from('mission_jobs')
+    .select('*')
+    .eq('mission_id', missionId)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return null;
+    throw new Error(`Failed to get mission job: ${error.message}`);
+  }
+
+  return data as MissionJob;
+}
+
+/**
+ * Lease the next job to run - queued, or abandoned by a worker whose lease ran out
+ * Pass a missionId to only claim that mission's job
+ */
+export async function claimMissionJob(
+  workerId: string,
+  leaseSeconds: number,
+  missionId?: string
+): Promise<MissionJob | null> {
+  const { data, error } = await supabaseAdmin.rpc('claim_mission_job', {
+    p_worker: workerId,
+    p_lease_seconds: leaseSeconds,
+    p_mission_id: missionId ?? null,
+  });
+
+  if (error) throw new Error(`Failed to claim mission job: ${error.message}`);
+  return ((data as MissionJob[] | null) || [])[0] || null;
+}
+
+/**
+ * Extend a job's lease, returns false if the worker lost it
+ */
+export async function heartbeatMissionJob(jobId: number, workerId: string, leaseSeconds: number): Promise<boolean> {
+  const { data, error } = await supabaseAdmin.rpc('heartbeat_mission_job', {
+    p_job_id: jobId,
+    p_worker: workerId,
+    p_lease_seconds: leaseSeconds,
+  });
+
+  if (error) throw new Error(`Failed to heartbeat mission job: ${error.message}`);
+  return data === true;
+}
+
+/**
+ * Release a job as completed or failed, returns false if the worker no longer held it
+ */
+export async function finishMissionJob(
+  jobId: number,
+  workerId: string,
+  status: 'completed' | 'failed',
+  errorMessage?: string
+): Promise<boolean> {
+  const { data, error } = await supabaseAdmin.rpc('finish_mission_job', {
+    p_job_id: jobId,
+    p_worker: workerId,
+    p_status: status,
+    p_error: errorMessage ?? null,
+  });
+
+  if (error) throw new Error(`Failed to finish mission job: ${error.message}`);
+  return data === true;
+}
+
+// ============================================================================
+// STEP CHECKPOINTS
+// ============================================================================
+
+/**
+ * Get the checkpoint of one agent call
+ */
+export async function getStepCheckpoint(key: StepCheckpointKey): Promise<StepCheckpoint | null> {
+  const { data, error } = await supabaseAdmin
+    .from('mission_step_checkpoints')
+    .select('*')
+    .match(key)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return null;
+    throw new Error(`Failed to get step checkpoint: ${error.message}`);
+  }
+
+  return data as StepCheckpoint;
+}
+
+/**
+ * Open a checkpoint before paying an agent
+ * Returns false if it already exists - another run got there first and may have paid
+ */
+export async function beginStepCheckpoint(
+  key: StepCheckpointKey,
+  payment: Record<string, unknown>
+): Promise<boolean> {
+  const { error } = await supabaseAdmin
+    .from('mission_step_checkpoints')
+    .insert([{ ...key, state: 'paying', payment }]);
+
+  if (error) {
+    if (error.code === '23505') return false;
+    throw new Error(`Failed to create step checkpoint: ${error.message}`);
+  }
+
+  return true;
+}
+
+/**
+ * Advance a checkpoint, creating it for agents that accepted without payment
+ */
+export async function saveStepCheckpoint(
+  key: StepCheckpointKey,
+  updates: Pick<StepCheckpoint, 'state'> & Partial<Pick<StepCheckpoint, 'payment' | 'output' | 'error'>>
+): Promise<StepCheckpoint> {
+  const { data, error } = await supabaseAdmin
+    .from('mission_step_checkpoints')
+    .upsert([{ ...key, ...updates }], { onConflict: 'mission_id,step_agent_id,agent_id,attempt' })
+    .select()
+    .single();
+
+  if (error) throw new Error(`Failed to save step checkpoint: ${error.message}`);
+  return data as StepCheckpoint;
+}
+
+/**
+ * Get every checkpoint of a mission
+ */
+export async function getMissionCheckpoints(missionId: string): Promise<StepCheckpoint[]> {
+  const { data, error } = await supabaseAdmin
+    .from('mission_step_checkpoints')
+    .select('*')
+    .eq('mission_id', missionId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw new Error(`Failed to get step checkpoints: ${error.message}`);
+  return data as StepCheckpoint[];
+}
@@ -5,6 +5,7 @@
 
 import { supabaseAdmin } from './client';
 import type { Address } from 'viem';
+import type { StepPolicy } from '../orchestrator/policy';
 
 // ============================================================================
 // TYPES
@@ -15,10 +16,15 @@ export interface Mission {
   client_address: string;
   description?: string;
   total_budget: number;
-  orchestration_mode: 'sequential' | 'parallel';
+  orchestration_mode: 'sequential' | 'parallel' | 'dag';
   status: 'pending' | 'funded' | 'in_progress' | 'submitted' | 'validating' | 'disputing' | 'approved' | 'completed' | 'auto_released' | 'rejected' | 'failed' | 'cancelled';
   escrow_tx_hash?: string;
   requirements_ipfs?: string;
+  escrow_contract_id?: number | null; // MissionEscrow mission ID
+  deliverable_uri?: string | null;
+  auto_release_time?: string | null; // Submitted work is released to the agents after this (MissionEscrow)
+  dispute_status?: 'pending' | 'resolved' | 'none' | null; // UMA dispute
+  dispute_result?: boolean | null; // True = agents won, false = client won
   created_at?: string;
   started_at?: string;
   completed_at?: string;
@@ -32,6 +38,8 @@ export interface MissionAgent {
   payment_amount: number;
   requirements?: string;
   position?: number;
+  depends_on?: string[];
+  policy?: StepPolicy;
   created_at?: string;
 }
 
@@ -39,22 +47,61 @@ export interface MissionExecution {
   id?: number;
   mission_id: string;
   agent_id: string;
-  status: 'pending' | 'executing' | 'completed' | 'failed';
+  status: 'pending' | 'executing' | 'completed' | 'failed' | 'skipped' | 'replaced';
   result_data?: Record<string, unknown>;
   deliverable_uri?: string;
   tx_hash?: string;
   paid_amount?: number;
   error_message?: string;
+  attempts?: number;
+  fallback_for?: string; // Agent whose step this execution took over
+  optional?: boolean; // Failure doesn't fail the mission (continueOnFailure)
   started_at?: string;
   completed_at?: string;
   created_at?: string;
 }
 
+export type MissionTimelineEventType =
+  | 'created'
+  | 'funded'
+  | 'started'
+  | 'submitted'
+  | 'validation_requested'
+  | 'validation_completed'
+  | 'dispute_initiated'
+  | 'dispute_resolved'
+  | 'approved'
+  | 'rejected'
+  | 'auto_released'
+  | 'completed'
+  | 'cancelled'
+  | 'pending'
+  | 'in_progress'
+  | 'validating'
+  | 'disputing'
+  | 'failed'
+  | 'step_started'
+  | 'step_completed'
+  | 'step_failed'
+  | 'step_timed_out'
+  | 'step_retry'
+  | 'step_fallback'
+  | 'step_skipped';
+
+export interface MissionTimelineEvent {
+  id?: number;
+  mission_id: string;
+  event_type: MissionTimelineEventType;
+  event_data?: Record<string, unknown>;
+  tx_hash?: string;
+  created_at?: string;
+}
+
 export interface CreateMissionParams {
   clientAddress: Address;
   description?: string;
   totalBudget: number;
-  orchestrationMode: 'sequential' | 'parallel';
+  orchestrationMode: 'sequential' | 'parallel' | 'dag';
   requirementsIpfs?: string;
 }
 
@@ -65,6 +112,8 @@ export interface AddAgentToMissionParams {
   paymentAmount: number;
   requirements?: string;
   position?: number;
+  dependsOn?: string[];
+  policy?: StepPolicy;
 }
 
 // ============================================================================
@@ -115,6 +164,22 @@ export async function getMission(missionId: string): Promise<Mission | null> {
   return data as Mission;
 }
 
+/**
+ * Get the mission escrowed under a MissionEscrow mission ID
+ */
+export async function getMissionByEscrowId(escrowContractId: number): Promise<Mission | null> {
+  const { data, error } = await supabaseAdmin
+    .from('missions')
+    .select('*')
+    .eq('escrow_contract_id', escrowContractId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to get mission: ${error.message}`);
+  return (data as Mission) || null;
+}
+
 /**
  * Get missions by client address
  */
@@ -149,6 +214,35 @@ export async function updateMissionStatus(
   return data as Mission;
 }
 
+/**
+ * Mirror the escrow's auto-release time onto the mission
+ */
+export async function setMissionAutoReleaseTime(missionId: string, autoReleaseTime: string | null): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('missions')
+    .update({ auto_release_time: autoReleaseTime })
+    .eq('id', missionId);
+
+  if (error) throw new Error(`Failed to set mission auto-release time: ${error.message}`);
+}
+
+/**
+ * Record the state of a mission's UMA dispute
+ * disputeResult: true = the agents won, false = the client won (null while pending)
+ */
+export async function updateMissionDispute(
+  missionId: string,
+  disputeStatus: NonNullable<Mission['dispute_status']>,
+  disputeResult: boolean | null
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('missions')
+    .update({ dispute_status: disputeStatus, dispute_result: disputeResult })
+    .eq('id', missionId);
+
+  if (error) throw new Error(`Failed to update mission dispute: ${error.message}`);
+}
+
 /**
  * Get recent missions
  */
@@ -178,6 +272,8 @@ export async function addAgentToMission(params: AddAgentToMissionParams): Promis
     payment_amount: params.paymentAmount,
     requirements: params.requirements,
     position: params.position,
+    depends_on: params.dependsOn,
+    policy: params.policy,
   };
 
   const { data, error } = await supabaseAdmin
@@ -257,6 +353,27 @@ export async function updateExecution(
   return data as MissionExecution;
 }
 
+/**
+ * Update an execution only if it is still in the given status
+ * Returns null when another update changed the status first
+ */
+export async function transitionExecution(
+  executionId: number,
+  fromStatus: MissionExecution['status'],
+  updates: Partial<MissionExecution>
+): Promise<MissionExecution | null> {
+  const { data, error } = await supabaseAdmin
+    .from('mission_executions')
+    .update(updates)
+    .eq('id', executionId)
+    .eq('status', fromStatus)
+    .select()
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to update execution: ${error.message}`);
+  return (data as MissionExecution | null) ?? null;
+}
+
 /**
  * Get executions for a mission
  */
@@ -295,6 +412,81 @@ export async function getExecutionByMissionAndAgent(
   return data as MissionExecution;
 }
 
+// ============================================================================
+// MISSION TIMELINE
+// ============================================================================
+
+/**
+ * Record a mission lifecycle event
+ */
+export async function addTimelineEvent(
+  missionId: string,
+  eventType: MissionTimelineEventType,
+  eventData?: Record<string, unknown>,
+  txHash?: string
+): Promise<MissionTimelineEvent> {
+  const { data, error } = await supabaseAdmin
+    .from('mission_timeline')
+    .insert([{
+      mission_id: missionId,
+      event_type: eventType,
+      event_data: eventData,
+      tx_hash: txHash,
+    }])
+    .select()
+    .single();
+
+  if (error) throw new Error(`Failed to add timeline event: ${error.message}`);
+  return data as MissionTimelineEvent;
+}
+
+/**
+ * Get a mission's timeline, oldest first
+ */
+export async function getMissionTimeline(missionId: string): Promise<MissionTimelineEvent[]> {
+  const { data, error } = await supabaseAdmin
+    .from('mission_timeline')
+    .select('*')
+    .eq('mission_id', missionId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw new Error(`Failed to get mission timeline: ${error.message}`);
+  return data as MissionTimelineEvent[];
+}
+
+// ============================================================================
+// CALLBACK NONCES
+// ============================================================================
+
+/**
+ * Accept a signed callback's nonce
+ * Returns false if the signer already used it (a replayed callback)
+ */
+export async function consumeCallbackNonce(params: {
+  signerAddress: Address;
+  nonce: string;
+  missionId: string;
+  agentId: string;
+  status: string;
+}): Promise<boolean> {
+  const { error } = await supabaseAdmin
+    .from('mission_callback_nonces')
+    .insert([{
+      signer_address: params.signerAddress.toLowerCase(),
+      nonce: params.nonce.toLowerCase(),
+      mission_id: params.missionId,
+      agent_id: params.agentId,
+      status: params.status,
+    }]);
+
+  if (error) {
+    if (error.code === '23505') return false;
+    throw new Error(`Failed to record callback nonce: ${error.message}`);
+  }
+
+  return true;
+}
+
 // ============================================================================
 // COMBINED OPERATIONS
 // ============================================================================
@@ -328,6 +520,7 @@ export async function initializeMissionExecutions(missionId: string): Promise<Mi
     mission_id: missionId,
     agent_id: agent.agent_id,
     status: 'pending' as const,
+    optional: !!agent.policy?.continueOnFailure,
   }));
 
   const { data, error } = await supabaseAdmin
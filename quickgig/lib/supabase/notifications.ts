@@ -63,12 +63,19 @@ export async function getUnreadCount(userAddress: string): Promise<number> {
 /**
  * Mark notification as read
  */
-export async function markAsRead(notificationId: string) {
-  const { error } = await supabaseAdmin
+export async function markAsRead(notificationId: string, userAddress?: string) {
+  let query = supabaseAdmin
     .from('notifications')
     .update({ read: true })
     .eq('id', notificationId);
 
+  // Only touch the notification if it belongs to this user
+  if (userAddress) {
+    query = query.eq('user_address', userAddress);
+  }
+
+  const { error } = await query;
+
   if (error) throw error;
 }
 
@@ -0,0 +1,242 @@
+/**
+ * Agent Payment Guardrail Operations
+ * Spend reservations (payment_transactions) and the manual approval queue (payment_approvals)
+ */
+
+import { supabaseAdmin } from './client';
+import { recordPayment, updatePayment, type PaymentTransaction } from './agents';
+import type { StepCheckpointKey } from './mission-jobs';
+import type { Address } from 'viem';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PaymentApprovalStatus = 'pending' | 'approved' | 'rejected' | 'expired';
+
+export interface PaymentApproval extends StepCheckpointKey {
+  id: number;
+  payment_id: number;
+  amount: number;
+  to_address: Address;
+  status: PaymentApprovalStatus;
+  reason?: string | null;
+  decided_by?: string | null;
+  decided_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface AgentPaymentParams {
+  missionId: string;
+  from: Address;
+  to: Address;
+  amount: number; // Token units (e.g. 1.5 USDC)
+  token: Address;
+  metadata?: Record<string, unknown>;
+}
+
+export interface SpendLimitParams {
+  missionBudget?: number | null;
+  dailyCap?: number | null;
+  recipientCap?: number | null;
+}
+
+// ============================================================================
+// RESERVATIONS
+// ============================================================================
+
+/**
+ * Reserve an agent payment against the mission budget and daily caps
+ * Returns the recorded attempt - 'reserved', or 'rejected' with the reason.
+ * With paymentId, settles that 'pending_approval' attempt instead (null if it already was).
+ */
+export async function reserveAgentPayment(
+  params: AgentPaymentParams,
+  limits: SpendLimitParams,
+  paymentId?: number
+): Promise<PaymentTransaction | null> {
+  const { data, error } = await supabaseAdmin.rpc('reserve_agent_payment', {
+    p_mission_id: params.missionId,
+    p_from: params.from,
+    p_to: params.to,
+    p_amount: params.amount,
+    p_token: params.token,
+    p_mission_budget: limits.missionBudget ?? null,
+    p_daily_cap: limits.dailyCap ?? null,
+    p_recipient_cap: limits.recipientCap ?? null,
+    p_metadata: params.metadata ?? null,
+    p_payment_id: paymentId ?? null,
+  });
+
+  if (error) throw new Error(`Failed to reserve agent payment: ${error.message}`);
+  return ((data as PaymentTransaction[] | null) || [])[0] || null;
+}
+
+/**
+ * Record an agent payment that was rejected before reaching the spend caps
+ */
+export async function recordRejectedPayment(params: AgentPaymentParams, reason: string): Promise<PaymentTransaction> {
+  return recordPayment({
+    mission_id: params.missionId,
+    from_address: params.from,
+    to_address: params.to,
+    amount: params.amount,
+    token_address: params.token,
+    purpose: 'agent_to_agent',
+    status: 'rejected',
+    reason,
+    metadata: params.metadata,
+  });
+}
+
+// ============================================================================
+// APPROVAL QUEUE
+// ============================================================================
+
+/**
+ * Queue a payment for manual approval
+ * Returns the step attempt's existing request if there is one (e.g. after a restart)
+ */
+export async function requestPaymentApproval(
+  key: StepCheckpointKey,
+  params: AgentPaymentParams
+): Promise<PaymentApproval> {
+  const existing = await getStepPaymentApproval(key);
+  if (existing) return existing;
+
+  const payment = await recordPayment({
+    mission_id: params.missionId,
+    from_address: params.from,
+    to_address: params.to,
+    amount: params.amount,
+    token_address: params.token,
+    purpose: 'agent_to_agent',
+    status: 'pending_approval',
+    metadata: params.metadata,
+  });
+
+  const { data, error } = await supabaseAdmin
+    .from('payment_approvals')
+    .insert([{
+      ...key,
+      payment_id: payment.id,
+      amount: params.amount,
+      to_address: params.to,
+    }])
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      // Another run queued it first - drop our duplicate attempt
+      await updatePayment(payment.id!, { status: 'rejected', reason: 'Duplicate approval request' });
+      const queued = await getStepPaymentApproval(key);
+      if (queued) return queued;
+    }
+    throw new Error(`Failed to request payment approval: ${error.message}`);
+  }
+
+  return data as PaymentApproval;
+}
+
+/**
+ * Get an approval request by ID
+ */
+export async function getPaymentApproval(id: number): Promise<PaymentApproval | null> {
+  const { data, error } = await supabaseAdmin
+    .from('payment_approvals')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return null;
+    throw new Error(`Failed to get payment approval: ${error.message}`);
+  }
+
+  return data as PaymentApproval;
+}
+
+/**
+ * Get the approval request of one step attempt
+ */
+export async function getStepPaymentApproval(key: StepCheckpointKey): Promise<PaymentApproval | null> {
+  const { data, error } = await supabaseAdmin
+    .from('payment_approvals')
+    .select('*')
+    .match(key)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return null;
+    throw new Error(`Failed to get payment approval: ${error.message}`);
+  }
+
+  return data as PaymentApproval;
+}
+
+/**
+ * List approval requests, oldest first
+ */
+export async function listPaymentApprovals(options?: {
+  status?: PaymentApprovalStatus;
+  missionId?: string;
+  limit?: number;
+}): Promise<PaymentApproval[]> {
+  let query = supabaseAdmin.from('payment_approvals').select('*');
+
+  if (options?.status) {
+    query = query.eq('status', options.status);
+  }
+  if (options?.missionId) {
+    query = query.eq('mission_id', options.missionId);
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: true })
+    .limit(options?.limit || 50);
+
+  if (error) throw new Error(`Failed to list payment approvals: ${error.message}`);
+  return data as PaymentApproval[];
+}
+
+/**
+ * Decide a pending request ('approved', 'rejected', or 'expired' when nobody decided in time)
+ * Returns null if it was no longer pending. A refusal also rejects the payment attempt;
+ * an approval leaves it to the orchestrator, which still checks the spend caps.
+ */
+export async function decidePaymentApproval(
+  id: number,
+  status: Exclude<PaymentApprovalStatus, 'pending'>,
+  options?: { decidedBy?: string; reason?: string }
+): Promise<PaymentApproval | null> {
+  const { data, error } = await supabaseAdmin
+    .from('payment_approvals')
+    .update({
+      status,
+      reason: options?.reason ?? null,
+      decided_by: options?.decidedBy ?? null,
+      decided_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .eq('status', 'pending')
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return null;
+    throw new Error(`Failed to decide payment approval: ${error.message}`);
+  }
+
+  const approval = data as PaymentApproval;
+
+  if (status !== 'approved') {
+    await updatePayment(approval.payment_id, {
+      status: 'rejected',
+      reason: options?.reason || (status === 'expired' ? 'Approval timed out' : 'Rejected by approver'),
+    });
+  }
+
+  return approval;
+}
@@ -0,0 +1,172 @@
+/**
+ * UMA Assertion Database Operations
+ * Lifecycle of the UMA assertions the escrows opened, as tracked by the UMA keeper (uma_assertions)
+ */
+
+import { supabaseAdmin } from './client';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type UMAAssertionStatus = 'open' | 'disputed' | 'settled' | 'resolved';
+
+export interface UMAAssertion {
+  assertion_id: string;
+  chain_id: number;
+  contract: 'bounty_escrow' | 'gig_escrow' | 'mission_escrow';
+  contract_address: string;
+  entity_id: number;
+  milestone_index: number | null; // Gigs only
+  mission_id: string | null; // missions row of a MissionEscrow mission
+  oracle_address: string;
+  client_address: string;
+  worker_address: string | null; // Null for missions - agents are looked up from mission_agents
+  created_tx_hash: string;
+  asserted_at: string;
+  expiration_time: string | null;
+  status: UMAAssertionStatus;
+  disputer_address: string | null;
+  settled_true: boolean | null; // True = the client's claim was upheld
+  settle_tx_hash: string | null;
+  settled_at: string | null;
+  resolve_tx_hash: string | null;
+  resolved_at: string | null;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type NewUMAAssertion = Pick<
+  UMAAssertion,
+  | 'assertion_id'
+  | 'chain_id'
+  | 'contract'
+  | 'contract_address'
+  | 'entity_id'
+  | 'milestone_index'
+  | 'mission_id'
+  | 'oracle_address'
+  | 'client_address'
+  | 'worker_address'
+  | 'created_tx_hash'
+  | 'asserted_at'
+>;
+
+// ============================================================================
+// OPERATIONS
+// ============================================================================
+
+/**
+ * Start tracking an assertion (null if it is already tracked)
+ */
+export async function createUMAAssertion(assertion: NewUMAAssertion): Promise<UMAAssertion | null> {
+  const { data, error } = await supabaseAdmin
+    .from('uma_assertions')
+    .insert([
+      {
+        ...assertion,
+        assertion_id: assertion.assertion_id.toLowerCase(),
+        contract_address: assertion.contract_address.toLowerCase(),
+        oracle_address: assertion.oracle_address.toLowerCase(),
+        client_address: assertion.client_address.toLowerCase(),
+        worker_address: assertion.worker_address?.toLowerCase() ?? null,
+      },
+    ])
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') return null; // Already tracked
+    throw new Error(`Failed to create UMA assertion: ${error.message}`);
+  }
+
+  return data as UMAAssertion;
+}
+
+/**
+ * Get assertions that aren't resolved yet and aren't backing off after a failure, oldest first
+ */
+export async function getPendingUMAAssertions(limit = 100): Promise<UMAAssertion[]> {
+  const { data, error } = await supabaseAdmin
+    .from('uma_assertions')
+    .select('*')
+    .neq('status', 'resolved')
+    .or(`next_attempt_at.is.null,next_attempt_at.lte.${new Date().toISOString()}`)
+    .order('asserted_at', { ascending: true })
+    .limit(limit);
+
+  if (error) throw new Error(`Failed to get pending UMA assertions: ${error.message}`);
+  return (data || []) as UMAAssertion[];
+}
+
+/**
+ * List tracked assertions, newest first
+ */
+export async function listUMAAssertions(
+  params: { status?: UMAAssertionStatus; limit?: number } = {}
+): Promise<UMAAssertion[]> {
+  let query = supabaseAdmin
+    .from('uma_assertions')
+    .select('*')
+    .order('asserted_at', { ascending: false })
+    .limit(params.limit || 50);
+
+  if (params.status) query = query.eq('status', params.status);
+
+  const { data, error } = await query;
+
+  if (error) throw new Error(`Failed to list UMA assertions: ${error.message}`);
+  return (data || []) as UMAAssertion[];
+}
+
+/**
+ * Record progress - clears the failure backoff
+ */
+export async function updateUMAAssertion(
+  assertionId: string,
+  updates: Partial<
+    Pick<
+      UMAAssertion,
+      | 'status'
+      | 'expiration_time'
+      | 'disputer_address'
+      | 'settled_true'
+      | 'settle_tx_hash'
+      | 'settled_at'
+      | 'resolve_tx_hash'
+      | 'resolved_at'
+    >
+  >
+): Promise<UMAAssertion> {
+  const { data, error } = await supabaseAdmin
+    .from('uma_assertions')
+    .update({ ...updates, attempts: 0, last_error: null, next_attempt_at: null })
+    .eq('assertion_id', assertionId.toLowerCase())
+    .select()
+    .single();
+
+  if (error) throw new Error(`Failed to update UMA assertion: ${error.message}`);
+  return data as UMAAssertion;
+}
+
+/**
+ * Record a failed settle/resolve attempt and when to try again
+ */
+export async function setUMAAssertionError(
+  assertionId: string,
+  params: { attempts: number; message: string; retryAt: Date }
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('uma_assertions')
+    .update({
+      attempts: params.attempts,
+      last_error: params.message,
+      next_attempt_at: params.retryAt.toISOString(),
+    })
+    .eq('assertion_id', assertionId.toLowerCase());
+
+  if (error) throw new Error(`Failed to record UMA assertion error: ${error.message}`);
+}
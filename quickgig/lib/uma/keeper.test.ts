@@ -0,0 +1,276 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { zeroAddress, type Address, type Hex } from 'viem';
+import { baseSepolia } from 'viem/chains';
+import type { ChainEvent } from '../supabase/chain-index';
+import { createNotification } from '../supabase/notifications';
+import { updateMissionDispute } from '../supabase/missions';
+import type { UMAAssertion } from '../supabase/uma-assertions';
+import { runUMAKeeper } from './keeper';
+
+const ORACLE: Address = '0x00000000000000000000000000000000000000AA';
+const ESCROW: Address = '0x00000000000000000000000000000000000000EE';
+const CLIENT: Address = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const AGENT: Address = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const DISPUTER: Address = '0x90F79bf6EB2c4f870365E785982E1f101E93b906';
+const KEEPER_KEY: Hex = '0x7c852118294e51e653712a81e05800f419141751be58f605c371e15141b007a6';
+
+const LIVENESS = 7200n;
+
+/**
+ * Local chain for one test: MockOptimisticOracleV3 and a MissionEscrow, with the same
+ * rules as the Solidity contracts the keeper talks to
+ */
+const chain = vi.hoisted(() => {
+  interface OracleAssertion {
+    asserter: string;
+    settled: boolean;
+    expirationTime: bigint;
+    settlementResolution: boolean;
+    disputer: string;
+    vote?: boolean; // Owner's decision on a disputed assertion (the DVM's, on OOv3)
+  }
+
+  const state = {
+    now: 0n,
+    assertions: new Map<string, OracleAssertion>(),
+    missions: new Map<bigint, { client: string; status: number; assertionId: string }>(),
+    calls: [] as string[], // Transactions the keeper sent
+  };
+
+  const contractCall = (functionName: string, args: readonly unknown[], write: boolean): unknown => {
+    switch (functionName) {
+      case 'settleAndGetAssertionResult': {
+        const assertion = state.assertions.get(args[0] as string);
+        if (!assertion) throw new Error('Assertion does not exist');
+        if (assertion.settled) return assertion.settlementResolution;
+        if (assertion.disputer === '0x0000000000000000000000000000000000000000') {
+          if (assertion.expirationTime > state.now) throw new Error('Assertion not expired');
+          if (write) Object.assign(assertion, { settled: true, settlementResolution: true });
+        } else {
+          if (assertion.vote === undefined) throw new Error('Dispute not resolved');
+          if (write) Object.assign(assertion, { settled: true, settlementResolution: assertion.vote });
+        }
+        return assertion.settlementResolution;
+      }
+      case 'resolveUMADispute': {
+        const mission = state.missions.get(args[0] as bigint)!;
+        const assertion = state.assertions.get(mission.assertionId)!;
+        if (mission.status !== 4) throw new Error('MissionEscrow: not disputed');
+        if (!assertion.settled) throw new Error('MissionEscrow: dispute not resolved');
+        // Splits the escrow between client and agents and closes the mission (Completed)
+        if (write) mission.status = 5;
+        return undefined;
+      }
+      default:
+        throw new Error(`Unexpected call ${functionName}`);
+    }
+  };
+
+  return {
+    state,
+    publicClient: {
+      getBlock: async () => ({ timestamp: state.now }),
+      readContract: async ({ functionName, args = [] }: { functionName: string; args?: readonly unknown[] }) => {
+        switch (functionName) {
+          case 'optimisticOracle':
+            return '0x00000000000000000000000000000000000000AA';
+          case 'getMission': {
+            const mission = state.missions.get(args[0] as bigint)!;
+            return [mission.client, 0n, 0n, 0n, 0n, 0n, 0n, 0n, mission.status] as const;
+          }
+          case 'getAssertion': {
+            const assertion = state.assertions.get(args[0] as string);
+            return assertion ?? { asserter: '0x0000000000000000000000000000000000000000', disputer: '0x0000000000000000000000000000000000000000' };
+          }
+          default:
+            throw new Error(`Unexpected read ${functionName}`);
+        }
+      },
+      simulateContract: async (call: { functionName: string; args: readonly unknown[] }) => {
+        contractCall(call.functionName, call.args, false);
+        return { request: call };
+      },
+      waitForTransactionReceipt: async () => ({ status: 'success' }),
+    },
+    walletClient: {
+      writeContract: async (request: { functionName: string; args: readonly unknown[] }) => {
+        contractCall(request.functionName, request.args, true);
+        state.calls.push(request.functionName);
+        return `0x${state.calls.length.toString(16).padStart(64, '0')}`;
+      },
+    },
+  };
+});
+
+const db = vi.hoisted(() => ({
+  events: [] as ChainEvent[],
+  assertions: new Map<string, UMAAssertion>(),
+}));
+
+vi.mock('viem', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('viem')>()),
+  createWalletClient: () => chain.walletClient,
+}));
+
+vi.mock('../x402/chains', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../x402/chains')>()),
+  getX402PublicClient: () => chain.publicClient,
+}));
+
+vi.mock('../indexer/contracts', () => ({
+  getIndexedContracts: () => [
+    { name: 'mission_escrow', address: '0x00000000000000000000000000000000000000EE', abi: [], entityArg: 'missionId', startBlock: 0 },
+  ],
+}));
+
+vi.mock('../supabase/chain-index', () => ({
+  getChainBounty: vi.fn(),
+  getChainGig: vi.fn(),
+  getEventsByName: async (_address: string, eventName: string, afterId = 0) =>
+    db.events.filter((event) => event.event_name === eventName && (event.id as number) > afterId),
+}));
+
+vi.mock('../supabase/missions', () => ({
+  getMissionByEscrowId: async (escrowId: number) => ({ id: `mission-${escrowId}` }),
+  getMissionAgents: async () => [{ agent_id: 'agent-1' }],
+  updateMissionDispute: vi.fn(),
+}));
+
+vi.mock('../supabase/agents', () => ({
+  getAgent: async () => ({ id: 'agent-1', address: '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC' }),
+}));
+
+vi.mock('../supabase/notifications', () => ({ createNotification: vi.fn() }));
+
+// uma_assertions, in memory
+vi.mock('../supabase/uma-assertions', () => ({
+  createUMAAssertion: async (assertion: UMAAssertion) => {
+    if (db.assertions.has(assertion.assertion_id)) return null;
+    const row = { ...assertion, status: 'open', expiration_time: null, disputer_address: null, settled_true: null, attempts: 0 };
+    db.assertions.set(assertion.assertion_id, row as UMAAssertion);
+    return row;
+  },
+  getPendingUMAAssertions: async () => [...db.assertions.values()].filter((a) => a.status !== 'resolved'),
+  updateUMAAssertion: async (assertionId: string, updates: Partial<UMAAssertion>) => {
+    const row = Object.assign(db.assertions.get(assertionId)!, updates, { attempts: 0, last_error: null });
+    return { ...row };
+  },
+  setUMAAssertionError: async (assertionId: string, params: { attempts: number; message: string }) => {
+    Object.assign(db.assertions.get(assertionId)!, { attempts: params.attempts, last_error: params.message });
+  },
+}));
+
+let nextEventId = 1;
+
+/**
+ * The client disputes mission #id on the escrow, which asserts on the oracle
+ */
+function disputeMission(id: number): string {
+  const assertionId = `0x${id.toString(16).padStart(64, '0')}`;
+
+  chain.state.assertions.set(assertionId, {
+    asserter: CLIENT,
+    settled: false,
+    expirationTime: chain.state.now + LIVENESS,
+    settlementResolution: false,
+    disputer: zeroAddress,
+  });
+  chain.state.missions.set(BigInt(id), { client: CLIENT, status: 4, assertionId });
+  db.events.push({
+    id: nextEventId++,
+    chain_id: baseSepolia.id,
+    contract: 'mission_escrow',
+    entity_id: id,
+    event_name: 'DisputeCreated',
+    args: { missionId: String(id), assertionId },
+    block_number: 1,
+    block_hash: '0x00',
+    block_timestamp: new Date().toISOString(),
+    tx_hash: '0x00',
+    log_index: 0,
+  });
+
+  return assertionId;
+}
+
+const KEEPER_OPTIONS = { chainId: baseSepolia.id, privateKey: KEEPER_KEY };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  chain.state.now = 1_000_000n;
+  chain.state.assertions.clear();
+  chain.state.missions.clear();
+  chain.state.calls = [];
+  db.events = [];
+  db.assertions.clear();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('runUMAKeeper', () => {
+  it('tracks a dispute, then settles and resolves it once liveness expires', async () => {
+    const assertionId = disputeMission(1);
+
+    // Within liveness - only tracked
+    expect(await runUMAKeeper(KEEPER_OPTIONS)).toEqual({ tracked: 1, settled: 0, resolved: 0, failed: 0 });
+    expect(db.assertions.get(assertionId)).toMatchObject({
+      status: 'open',
+      mission_id: 'mission-1',
+      oracle_address: ORACLE,
+      contract_address: ESCROW,
+      client_address: CLIENT,
+    });
+    expect(updateMissionDispute).toHaveBeenCalledWith('mission-1', 'pending', null);
+    expect(chain.state.calls).toEqual([]);
+
+    chain.state.now += LIVENESS;
+
+    expect(await runUMAKeeper(KEEPER_OPTIONS)).toEqual({ tracked: 0, settled: 1, resolved: 1, failed: 0 });
+    expect(chain.state.calls).toEqual(['settleAndGetAssertionResult', 'resolveUMADispute']);
+    expect(chain.state.missions.get(1n)?.status).toBe(5);
+    expect(db.assertions.get(assertionId)).toMatchObject({ status: 'resolved', settled_true: true });
+
+    // Claim upheld - from the agents' side the dispute was lost
+    expect(updateMissionDispute).toHaveBeenLastCalledWith('mission-1', 'resolved', false);
+    expect(createNotification).toHaveBeenCalledWith(expect.objectContaining({
+      user_address: CLIENT,
+      type: 'uma_dispute_resolved',
+      title: 'UMA dispute won: mission #1',
+      link: '/missions/mission-1',
+    }));
+    expect(createNotification).toHaveBeenCalledWith(expect.objectContaining({
+      user_address: AGENT.toLowerCase(),
+      title: 'UMA dispute lost: mission #1',
+    }));
+  });
+
+  it('waits for the vote on a challenged assertion before settling', async () => {
+    const assertionId = disputeMission(2);
+    chain.state.assertions.get(assertionId)!.disputer = DISPUTER;
+
+    expect(await runUMAKeeper(KEEPER_OPTIONS)).toMatchObject({ tracked: 1, settled: 0, resolved: 0 });
+    expect(db.assertions.get(assertionId)).toMatchObject({ status: 'disputed', disputer_address: DISPUTER.toLowerCase() });
+
+    // The vote rejects the client's claim - the agents are paid
+    chain.state.assertions.get(assertionId)!.vote = false;
+
+    expect(await runUMAKeeper(KEEPER_OPTIONS)).toMatchObject({ settled: 1, resolved: 1, failed: 0 });
+    expect(chain.state.missions.get(2n)?.status).toBe(5);
+    expect(updateMissionDispute).toHaveBeenLastCalledWith('mission-2', 'resolved', true);
+  });
+
+  it('only tracks without a keeper key and picks up a settlement someone else sent', async () => {
+    const assertionId = disputeMission(3);
+    chain.state.now += LIVENESS;
+
+    expect(await runUMAKeeper({ chainId: baseSepolia.id })).toMatchObject({ tracked: 1, settled: 0, resolved: 0 });
+    expect(chain.state.calls).toEqual([]);
+
+    // Settled and paid out by another caller
+    Object.assign(chain.state.assertions.get(assertionId)!, { settled: true, settlementResolution: true });
+    chain.state.missions.get(3n)!.status = 5;
+
+    expect(await runUMAKeeper({ chainId: baseSepolia.id })).toMatchObject({ settled: 0, resolved: 1 });
+    expect(db.assertions.get(assertionId)).toMatchObject({ status: 'resolved', resolve_tx_hash: null });
+  });
+});
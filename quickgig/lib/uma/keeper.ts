@@ -0,0 +1,584 @@
+/**
+ * UMA Dispute Keeper
+ * Tracks every UMA assertion BountyEscrow, GigEscrow and MissionEscrow open (picked up from the
+ * indexed UMADisputeCreated / DisputeCreated events) and carries it through to the payout:
+ * settleAndGetAssertionResult on the optimistic oracle once liveness expires (or once the DVM
+ * voted on a challenged assertion), then resolveUMADispute on the escrow. Mission disputes are
+ * mirrored into missions.dispute_status / dispute_result, and both parties are notified.
+ *
+ * Without a keeper key assertions are only tracked - settlements and resolutions someone else
+ * sent are picked up on the next pass either way. Liveness is checked against the latest block's
+ * timestamp, so a local chain fast-forwarded past it (evm_increaseTime) settles right away.
+ */
+
+import {
+  createWalletClient,
+  http,
+  zeroAddress,
+  type Abi,
+  type Address,
+  type Hash,
+  type Hex,
+  type PublicClient,
+  type WalletClient,
+} from 'viem';
+import { privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts';
+import { getChainConfig, getDefaultChainId, getRpcUrl, getX402PublicClient } from '../x402/chains';
+import { getIndexedContracts, type IndexedContract } from '../indexer/contracts';
+import { getChainBounty, getChainGig, getEventsByName, type ChainEvent } from '../supabase/chain-index';
+import { getMissionAgents, getMissionByEscrowId, updateMissionDispute } from '../supabase/missions';
+import { getAgent } from '../supabase/agents';
+import { createNotification } from '../supabase/notifications';
+import {
+  createUMAAssertion,
+  getPendingUMAAssertions,
+  setUMAAssertionError,
+  updateUMAAssertion,
+  type UMAAssertion,
+} from '../supabase/uma-assertions';
+
+export interface UMAKeeperOptions {
+  chainId?: number;
+  rpcUrl?: string; // UMA_KEEPER_RPC_URL, defaults to the chain's X402 RPC URL
+  privateKey?: Hex; // Pays for settle/resolve transactions (UMA_KEEPER_PRIVATE_KEY) - without one, assertions are only tracked
+  pollIntervalMs?: number; // Wait between passes (UMA_KEEPER_POLL_INTERVAL_MS)
+  retryDelayMs?: number; // Wait after a failed pass over an assertion, doubling per failure up to an hour (UMA_KEEPER_RETRY_DELAY_MS)
+}
+
+export interface UMAKeeperResult {
+  tracked: number; // New assertions picked up
+  settled: number; // Settled on the oracle by the keeper
+  resolved: number; // Finished - paid out by the keeper or by someone else
+  failed: number;
+}
+
+interface Keeper {
+  chainId: number;
+  publicClient: PublicClient;
+  walletClient: WalletClient | null;
+  account: PrivateKeyAccount | null;
+  retryDelayMs: number;
+}
+
+// Layout of OptimisticOracleV3.getAssertion - the mock oracle returns the same
+interface OracleAssertion {
+  asserter: Address;
+  settled: boolean;
+  expirationTime: bigint;
+  settlementResolution: boolean;
+  disputer: Address;
+}
+
+const ORACLE_ABI = [
+  {
+    inputs: [{ name: 'assertionId', type: 'bytes32' }],
+    name: 'getAssertion',
+    outputs: [
+      {
+        components: [
+          {
+            components: [
+              { name: 'arbitrateViaEscalationManager', type: 'bool' },
+              { name: 'discardOracle', type: 'bool' },
+              { name: 'validateDisputers', type: 'bool' },
+              { name: 'assertingCaller', type: 'address' },
+              { name: 'escalationManager', type: 'address' },
+            ],
+            name: 'escalationManagerSettings',
+            type: 'tuple',
+          },
+          { name: 'asserter', type: 'address' },
+          { name: 'assertionTime', type: 'uint64' },
+          { name: 'settled', type: 'bool' },
+          { name: 'currency', type: 'address' },
+          { name: 'expirationTime', type: 'uint64' },
+          { name: 'settlementResolution', type: 'bool' },
+          { name: 'domainId', type: 'bytes32' },
+          { name: 'identifier', type: 'bytes32' },
+          { name: 'bond', type: 'uint256' },
+          { name: 'callbackRecipient', type: 'address' },
+          { name: 'disputer', type: 'address' },
+        ],
+        name: '',
+        type: 'tuple',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: 'assertionId', type: 'bytes32' }],
+    name: 'settleAndGetAssertionResult',
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const;
+
+// Event each escrow emits when it opens an assertion
+const DISPUTE_EVENTS: Partial<Record<IndexedContract['name'], string>> = {
+  bounty_escrow: 'UMADisputeCreated',
+  gig_escrow: 'UMADisputeCreated',
+  mission_escrow: 'DisputeCreated',
+};
+
+// Status of a disputed bounty, gig milestone or mission in the escrows' enums
+const DISPUTED_STATUS = {
+  bounty_escrow: 4, // BountyStatus.Disputed
+  gig_escrow: 3, // MilestoneStatus.Disputed
+  mission_escrow: 4, // MissionStatus.Disputed
+} as const;
+
+const DEFAULT_POLL_INTERVAL_MS = 60 * 1000;
+const DEFAULT_RETRY_DELAY_MS = 5 * 60 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const EVENT_PAGE_SIZE = 500;
+
+// Last dispute event tracked per escrow - restarts re-read them all, which tracking skips
+const eventCursors = new Map<string, number>();
+
+function resolveOptions(options: UMAKeeperOptions): Required<Omit<UMAKeeperOptions, 'rpcUrl' | 'privateKey'>> & Pick<UMAKeeperOptions, 'rpcUrl' | 'privateKey'> {
+  return {
+    chainId: options.chainId || getDefaultChainId(),
+    rpcUrl: options.rpcUrl || process.env.UMA_KEEPER_RPC_URL || undefined,
+    privateKey: options.privateKey || (process.env.UMA_KEEPER_PRIVATE_KEY as Hex | undefined),
+    pollIntervalMs: options.pollIntervalMs || Number(process.env.UMA_KEEPER_POLL_INTERVAL_MS) || DEFAULT_POLL_INTERVAL_MS,
+    retryDelayMs: options.retryDelayMs || Number(process.env.UMA_KEEPER_RETRY_DELAY_MS) || DEFAULT_RETRY_DELAY_MS,
+  };
+}
+
+function createKeeper(options: UMAKeeperOptions): Keeper {
+  const config = resolveOptions(options);
+  const account = config.privateKey ? privateKeyToAccount(config.privateKey) : null;
+
+  return {
+    chainId: config.chainId,
+    publicClient: getX402PublicClient(config.chainId, config.rpcUrl),
+    walletClient: account
+      ? createWalletClient({
+          account,
+          chain: getChainConfig(config.chainId).chain,
+          transport: http(getRpcUrl(config.chainId, config.rpcUrl)),
+        })
+      : null,
+    account,
+    retryDelayMs: config.retryDelayMs,
+  };
+}
+
+function getEscrow(name: UMAAssertion['contract']): IndexedContract {
+  const contract = getIndexedContracts().find((c) => c.name === name);
+  if (!contract) throw new Error(`${name} is not configured`);
+  return contract;
+}
+
+/**
+ * Simulate, send and confirm a transaction from the keeper wallet
+ */
+async function sendTransaction(
+  keeper: Keeper,
+  call: { address: Address; abi: Abi; functionName: string; args: readonly unknown[] }
+): Promise<Hash> {
+  if (!keeper.walletClient || !keeper.account) {
+    throw new Error('UMA keeper wallet not configured');
+  }
+
+  const { request } = await keeper.publicClient.simulateContract({ ...call, account: keeper.account });
+  const hash = await keeper.walletClient.writeContract(request);
+  const receipt = await keeper.publicClient.waitForTransactionReceipt({ hash });
+
+  if (receipt.status !== 'success') {
+    throw new Error(`Transaction ${hash} reverted`);
+  }
+  return hash;
+}
+
+// ============================================================================
+// TRACKING
+// ============================================================================
+
+/**
+ * Start tracking the assertion a dispute event opened
+ * Returns false if it was already tracked; throws if the bounty or gig isn't projected yet
+ */
+async function trackAssertion(keeper: Keeper, contract: IndexedContract, event: ChainEvent): Promise<boolean> {
+  const entityId = Number(event.entity_id);
+  let clientAddress: string;
+  let workerAddress: string | null = null;
+  let milestoneIndex: number | null = null;
+  let missionId: string | null = null;
+
+  switch (contract.name) {
+    case 'bounty_escrow': {
+      const bounty = await getChainBounty(contract.address, entityId);
+      if (!bounty) throw new Error(`Bounty ${entityId} is not indexed yet`);
+      clientAddress = bounty.client_address;
+      workerAddress = bounty.assigned_worker;
+      break;
+    }
+    case 'gig_escrow': {
+      const gig = await getChainGig(contract.address, entityId);
+      if (!gig) throw new Error(`Gig ${entityId} is not indexed yet`);
+      clientAddress = gig.client_address;
+      workerAddress = gig.worker_address;
+      milestoneIndex = Number(event.args.milestoneIndex);
+      break;
+    }
+    default: {
+      const [client] = (await keeper.publicClient.readContract({
+        address: contract.address,
+        abi: contract.abi,
+        functionName: 'getMission',
+        args: [BigInt(entityId)],
+      })) as readonly [Address, ...unknown[]];
+      clientAddress = client;
+      missionId = (await getMissionByEscrowId(entityId))?.id ?? null;
+    }
+  }
+
+  const oracleAddress = (await keeper.publicClient.readContract({
+    address: contract.address,
+    abi: contract.abi,
+    functionName: 'optimisticOracle',
+  })) as Address;
+
+  const assertion = await createUMAAssertion({
+    assertion_id: String(event.args.assertionId),
+    chain_id: keeper.chainId,
+    contract: contract.name as UMAAssertion['contract'],
+    contract_address: contract.address,
+    entity_id: entityId,
+    milestone_index: milestoneIndex,
+    mission_id: missionId,
+    oracle_address: oracleAddress,
+    client_address: clientAddress,
+    worker_address: workerAddress,
+    created_tx_hash: event.tx_hash,
+    asserted_at: event.block_timestamp,
+  });
+  if (!assertion) return false;
+
+  if (missionId) await updateMissionDispute(missionId, 'pending', null);
+
+  console.log(`[UMA Keeper] Tracking assertion ${assertion.assertion_id} (${describeSubject(assertion)})`);
+  return true;
+}
+
+/**
+ * Track the assertions of dispute events indexed since the last pass
+ */
+async function trackNewAssertions(keeper: Keeper, contract: IndexedContract): Promise<number> {
+  const eventName = DISPUTE_EVENTS[contract.name];
+  if (!eventName) return 0;
+
+  const key = contract.address.toLowerCase();
+  let tracked = 0;
+
+  for (;;) {
+    const events = await getEventsByName(contract.address, eventName, eventCursors.get(key) || 0, EVENT_PAGE_SIZE);
+
+    for (const event of events) {
+      if (await trackAssertion(keeper, contract, event)) tracked++;
+      eventCursors.set(key, event.id as number);
+    }
+
+    if (events.length < EVENT_PAGE_SIZE) return tracked;
+  }
+}
+
+// ============================================================================
+// SETTLING & RESOLVING
+// ============================================================================
+
+async function readAssertion(keeper: Keeper, assertion: UMAAssertion): Promise<OracleAssertion> {
+  const result = await keeper.publicClient.readContract({
+    address: assertion.oracle_address as Address,
+    abi: ORACLE_ABI,
+    functionName: 'getAssertion',
+    args: [assertion.assertion_id as Hex],
+  });
+
+  if (result.asserter === zeroAddress) {
+    throw new Error(`Assertion not found on oracle ${assertion.oracle_address}`);
+  }
+  return result;
+}
+
+/**
+ * Whether the escrow still holds the disputed funds (resolveUMADispute not called yet)
+ */
+async function isEscrowDisputed(keeper: Keeper, assertion: UMAAssertion): Promise<boolean> {
+  const contract = getEscrow(assertion.contract);
+  const id = BigInt(assertion.entity_id);
+  const read = (functionName: string, args: readonly unknown[]) =>
+    keeper.publicClient.readContract({ address: contract.address, abi: contract.abi, functionName, args });
+
+  switch (assertion.contract) {
+    case 'bounty_escrow': {
+      const bounty = (await read('getBounty', [id])) as { status: number };
+      return bounty.status === DISPUTED_STATUS.bounty_escrow;
+    }
+    case 'gig_escrow': {
+      const milestone = (await read('getMilestone', [id, BigInt(assertion.milestone_index ?? 0)])) as { status: number };
+      return milestone.status === DISPUTED_STATUS.gig_escrow;
+    }
+    case 'mission_escrow': {
+      const mission = (await read('getMission', [id])) as readonly unknown[];
+      return mission[8] === DISPUTED_STATUS.mission_escrow;
+    }
+  }
+}
+
+function resolveCall(assertion: UMAAssertion): { args: readonly unknown[] } {
+  const id = BigInt(assertion.entity_id);
+  return assertion.contract === 'gig_escrow'
+    ? { args: [id, BigInt(assertion.milestone_index ?? 0)] }
+    : { args: [id] };
+}
+
+/**
+ * Move one assertion as far along as it can go right now
+ */
+async function processAssertion(
+  keeper: Keeper,
+  tracked: UMAAssertion,
+  now: bigint,
+  result: UMAKeeperResult
+): Promise<void> {
+  let assertion = tracked;
+
+  if (assertion.status === 'open' || assertion.status === 'disputed') {
+    let onChain = await readAssertion(keeper, assertion);
+    const disputer = onChain.disputer === zeroAddress ? null : onChain.disputer.toLowerCase();
+    const expirationTime = new Date(Number(onChain.expirationTime) * 1000).toISOString();
+    let settleTxHash: Hash | null = null;
+
+    if (!onChain.settled) {
+      if (disputer && assertion.status === 'open') {
+        console.log(`[UMA Keeper] Assertion ${assertion.assertion_id} was disputed by ${disputer}, waiting for the vote`);
+        assertion = await updateUMAAssertion(assertion.assertion_id, { status: 'disputed', disputer_address: disputer, expiration_time: expirationTime });
+      } else if (!assertion.expiration_time) {
+        assertion = await updateUMAAssertion(assertion.assertion_id, { expiration_time: expirationTime });
+      }
+
+      if (!keeper.walletClient) return;
+      if (!disputer && now < onChain.expirationTime) return; // Still in liveness
+
+      const settle = {
+        address: assertion.oracle_address as Address,
+        abi: ORACLE_ABI as Abi,
+        functionName: 'settleAndGetAssertionResult',
+        args: [assertion.assertion_id as Hex],
+      };
+
+      if (disputer) {
+        // Only the oracle knows whether the DVM voted - settling reverts until then
+        const ready = await keeper.publicClient
+          .simulateContract({ ...settle, account: keeper.account as PrivateKeyAccount })
+          .then(() => true, () => false);
+        if (!ready) return;
+      }
+
+      settleTxHash = await sendTransaction(keeper, settle);
+      onChain = await readAssertion(keeper, assertion);
+      result.settled++;
+      console.log(`[UMA Keeper] Settled assertion ${assertion.assertion_id} (${onChain.settlementResolution ? 'claim upheld' : 'claim rejected'}): ${settleTxHash}`);
+    }
+
+    assertion = await updateUMAAssertion(assertion.assertion_id, {
+      status: 'settled',
+      expiration_time: expirationTime,
+      disputer_address: disputer,
+      settled_true: onChain.settlementResolution,
+      settle_tx_hash: settleTxHash,
+      settled_at: new Date().toISOString(),
+    });
+  }
+
+  // Settled on the oracle - pay out the escrow
+  let resolveTxHash: Hash | null = null;
+
+  if (await isEscrowDisputed(keeper, assertion)) {
+    if (!keeper.walletClient) return;
+
+    const contract = getEscrow(assertion.contract);
+    resolveTxHash = await sendTransaction(keeper, {
+      address: contract.address,
+      abi: contract.abi,
+      functionName: 'resolveUMADispute',
+      ...resolveCall(assertion),
+    });
+    console.log(`[UMA Keeper] Resolved ${describeSubject(assertion)}: ${resolveTxHash}`);
+  }
+
+  assertion = await updateUMAAssertion(assertion.assertion_id, {
+    status: 'resolved',
+    resolve_tx_hash: resolveTxHash,
+    resolved_at: new Date().toISOString(),
+  });
+  result.resolved++;
+
+  if (assertion.mission_id) {
+    // dispute_result is from the agents' side: true = the client's claim was rejected
+    await updateMissionDispute(assertion.mission_id, 'resolved', assertion.settled_true === false);
+  }
+
+  await notifyParties(assertion);
+}
+
+// ============================================================================
+// NOTIFICATIONS
+// ============================================================================
+
+function describeSubject(assertion: UMAAssertion): string {
+  switch (assertion.contract) {
+    case 'bounty_escrow':
+      return `bounty #${assertion.entity_id}`;
+    case 'gig_escrow':
+      return `gig #${assertion.entity_id} milestone ${(assertion.milestone_index ?? 0) + 1}`;
+    case 'mission_escrow':
+      return `mission #${assertion.entity_id}`;
+  }
+}
+
+function subjectLink(assertion: UMAAssertion): string | undefined {
+  switch (assertion.contract) {
+    case 'bounty_escrow':
+      return `/bounties/${assertion.entity_id}`;
+    case 'gig_escrow':
+      return `/gigs/${assertion.entity_id}`;
+    case 'mission_escrow':
+      return assertion.mission_id ? `/missions/${assertion.mission_id}` : undefined;
+  }
+}
+
+/**
+ * Tell the client and the worker (or the mission's agents) how the dispute ended
+ * A failed notification is logged - the dispute is resolved either way
+ */
+async function notifyParties(assertion: UMAAssertion): Promise<void> {
+  const clientWon = assertion.settled_true === true;
+  const subject = describeSubject(assertion);
+  const outcome = clientWon
+    ? 'The client\'s claim was upheld and the escrow was refunded to the client.'
+    : 'The client\'s claim was rejected and the escrow was paid out to the worker.';
+
+  const workers = assertion.worker_address ? [assertion.worker_address] : [];
+  if (assertion.contract === 'mission_escrow' && assertion.mission_id) {
+    for (const missionAgent of await getMissionAgents(assertion.mission_id)) {
+      const agent = await getAgent(missionAgent.agent_id);
+      if (agent && !workers.includes(agent.address.toLowerCase())) workers.push(agent.address.toLowerCase());
+    }
+  }
+
+  const recipients = [
+    { address: assertion.client_address, won: clientWon },
+    ...workers.map((address) => ({ address, won: !clientWon })),
+  ];
+
+  for (const recipient of recipients) {
+    try {
+      await createNotification({
+        user_address: recipient.address,
+        type: 'uma_dispute_resolved',
+        title: `UMA dispute ${recipient.won ? 'won' : 'lost'}: ${subject}`,
+        message: outcome,
+        link: subjectLink(assertion),
+        data: {
+          assertionId: assertion.assertion_id,
+          contract: assertion.contract,
+          entityId: assertion.entity_id,
+          milestoneIndex: assertion.milestone_index,
+          clientWon,
+          resolveTxHash: assertion.resolve_tx_hash,
+        },
+      });
+    } catch (error) {
+      console.error(`[UMA Keeper] Failed to notify ${recipient.address}:`, error instanceof Error ? error.message : error);
+    }
+  }
+}
+
+// ============================================================================
+// KEEPER LOOP
+// ============================================================================
+
+/**
+ * Track new assertions and move every pending one along once
+ * A failing assertion backs off and doesn't stop the others
+ */
+export async function runUMAKeeper(options: UMAKeeperOptions = {}): Promise<UMAKeeperResult> {
+  const keeper = createKeeper(options);
+  const result: UMAKeeperResult = { tracked: 0, settled: 0, resolved: 0, failed: 0 };
+
+  for (const contract of getIndexedContracts()) {
+    try {
+      result.tracked += await trackNewAssertions(keeper, contract);
+    } catch (error) {
+      console.error(`[UMA Keeper] ${contract.name} tracking failed:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  const pending = await getPendingUMAAssertions();
+  if (pending.length === 0) return result;
+
+  const { timestamp: now } = await keeper.publicClient.getBlock();
+
+  for (const assertion of pending) {
+    try {
+      await processAssertion(keeper, assertion, now, result);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const attempts = assertion.attempts + 1;
+      const delay = Math.min(keeper.retryDelayMs * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+
+      console.error(`[UMA Keeper] ${describeSubject(assertion)} failed (attempt ${attempts}):`, message);
+      result.failed++;
+      await setUMAAssertionError(assertion.assertion_id, {
+        attempts,
+        message,
+        retryAt: new Date(Date.now() + delay),
+      }).catch(() => {});
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Run the keeper on an interval until stopped
+ */
+export function startUMAKeeper(options: UMAKeeperOptions = {}): { stop: () => Promise<void> } {
+  const config = resolveOptions(options);
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running: Promise<void> = Promise.resolve();
+
+  const run = () => {
+    running = runUMAKeeper(config)
+      .then((result) => {
+        if (result.tracked || result.settled || result.resolved || result.failed) {
+          console.log('[UMA Keeper] Pass:', result);
+        }
+      })
+      .catch((error) => {
+        console.error('[UMA Keeper] Pass failed:', error instanceof Error ? error.message : error);
+      })
+      .finally(() => {
+        if (!stopped) timer = setTimeout(run, config.pollIntervalMs);
+      });
+  };
+
+  const mode = config.privateKey ? `settling as ${privateKeyToAccount(config.privateKey).address}` : 'tracking only (no UMA_KEEPER_PRIVATE_KEY)';
+  console.log(`[UMA Keeper] Started on chain ${config.chainId}, ${mode}, every ${Math.round(config.pollIntervalMs / 1000)}s`);
+  run();
+
+  return {
+    stop: async () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      await running;
+      console.log('[UMA Keeper] Stopped');
+    },
+  };
+}
@@ -3,11 +3,12 @@
  * Enables agents to pay other agents for sub-tasks
  */
 
-import { createWalletClient, createPublicClient, http, parseUnits, type Address } from 'viem';
-import { privateKeyToAccount } from 'viem/accounts';
-import { baseSepolia } from 'viem/chains';
+import { createWalletClient, http, type Address } from 'viem';
+import { privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts';
 import { x402Fetch, createPaymentProof } from './middleware';
-import type { X402PaymentRequest, X402PaymentProof } from './types';
+import { acceptsScheme, signTransferAuthorization } from './authorization';
+import { getChainConfig, getDefaultChainId, getRpcUrl, getX402PublicClient } from './chains';
+import type { X402Payment, X402PaymentRequest } from './types';
 
 export interface AgentCredentials {
   privateKey: `0x${string}`;
@@ -34,29 +35,31 @@ export interface SubTaskResult {
  */
 export class A2APaymentClient {
   private credentials: AgentCredentials;
+  private account: PrivateKeyAccount;
   private publicClient;
   private walletClient;
   private usdcAddress: Address;
+  private chainId: number;
 
   constructor(
     credentials: AgentCredentials,
     usdcAddress: Address,
-    rpcUrl?: string
+    rpcUrl?: string,
+    chainId: number = getDefaultChainId()
   ) {
     this.credentials = credentials;
     this.usdcAddress = usdcAddress;
+    this.chainId = chainId;
 
     const account = privateKeyToAccount(credentials.privateKey);
+    this.account = account;
 
-    this.publicClient = createPublicClient({
-      chain: baseSepolia,
-      transport: http(rpcUrl || `https://base-sepolia.g.alchemy.com/v2/${process.env.NEXT_PUBLIC_ALCHEMY_API_KEY}`),
-    });
+    this.publicClient = getX402PublicClient(chainId, rpcUrl);
 
     this.walletClient = createWalletClient({
       account,
-      chain: baseSepolia,
-      transport: http(rpcUrl || `https://base-sepolia.g.alchemy.com/v2/${process.env.NEXT_PUBLIC_ALCHEMY_API_KEY}`),
+      chain: getChainConfig(chainId).chain,
+      transport: http(getRpcUrl(chainId, rpcUrl)),
     });
   }
 
@@ -106,11 +109,12 @@ export class A2APaymentClient {
 
   /**
    * Handle payment request from target agent
+   * Prefers a signed EIP-3009 authorization (no gas, no waiting) when the target accepts it
    */
   private async handlePaymentRequest(
     paymentRequest: X402PaymentRequest,
     maxPayment: bigint
-  ): Promise<X402PaymentProof> {
+  ): Promise<X402Payment> {
     const requestedAmount = BigInt(paymentRequest.amount);
 
     // Check if payment is within budget
@@ -120,22 +124,25 @@ export class A2APaymentClient {
       );
     }
 
-    console.log(
-      `[A2A] Paying ${requestedAmount} USDC to ${paymentRequest.recipient}`
-    );
+    if (paymentRequest.chainId !== this.chainId) {
+      throw new Error(
+        `Payment requested on chain ${paymentRequest.chainId}, agent wallet is on chain ${this.chainId}`
+      );
+    }
 
-    // Approve USDC spending
-    const approveHash = await this.approveUSDC(
-      paymentRequest.recipient,
-      requestedAmount
+    console.log(
+      `[A2A] Paying ${requestedAmount} ${paymentRequest.symbol || 'USDC'} to ${paymentRequest.recipient}`
     );
-    console.log(`[A2A] Approval tx: ${approveHash}`);
 
-    // Wait for approval
-    await this.publicClient.waitForTransactionReceipt({ hash: approveHash });
+    if (acceptsScheme(paymentRequest, 'authorization')) {
+      const authorization = await signTransferAuthorization(this.account, paymentRequest);
+      console.log(`[A2A] Signed transfer authorization (nonce ${authorization.nonce})`);
+      return authorization;
+    }
 
-    // Transfer USDC
-    const transferHash = await this.transferUSDC(
+    // Transfer the requested token (a plain transfer needs no approval)
+    const transferHash = await this.transferToken(
+      paymentRequest.token,
       paymentRequest.recipient,
       requestedAmount
     );
@@ -150,7 +157,8 @@ export class A2APaymentClient {
       this.credentials.address,
       paymentRequest.recipient,
       paymentRequest.amount,
-      paymentRequest.token
+      paymentRequest.token,
+      paymentRequest.chainId
     );
 
     console.log(`[A2A] Payment complete: ${transferHash}`);
@@ -159,36 +167,9 @@ export class A2APaymentClient {
   }
 
   /**
-   * Approve USDC spending
-   */
-  private async approveUSDC(spender: Address, amount: bigint): Promise<`0x${string}`> {
-    const ERC20_ABI = [
-      {
-        constant: false,
-        inputs: [
-          { name: '_spender', type: 'address' },
-          { name: '_value', type: 'uint256' },
-        ],
-        name: 'approve',
-        outputs: [{ name: '', type: 'bool' }],
-        type: 'function',
-      },
-    ] as const;
-
-    const hash = await this.walletClient.writeContract({
-      address: this.usdcAddress,
-      abi: ERC20_ABI,
-      functionName: 'approve',
-      args: [spender, amount],
-    });
-
-    return hash;
-  }
-
-  /**
-   * Transfer USDC
+   * Transfer an ERC20 token (USDC or any registered token)
    */
-  private async transferUSDC(to: Address, amount: bigint): Promise<`0x${string}`> {
+  private async transferToken(token: Address, to: Address, amount: bigint): Promise<`0x${string}`> {
     const ERC20_ABI = [
       {
         constant: false,
@@ -203,7 +184,7 @@ export class A2APaymentClient {
     ] as const;
 
     const hash = await this.walletClient.writeContract({
-      address: this.usdcAddress,
+      address: token,
       abi: ERC20_ABI,
       functionName: 'transfer',
       args: [to, amount],
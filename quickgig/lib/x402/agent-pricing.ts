@@ -0,0 +1,60 @@
+/**
+ * Registered Agent Pricing
+ * Task prices for the agents' paywalls, taken from their registered profile
+ * (agent_profiles.pricing_per_task) - never from the request body
+ *
+ * NOTE: Only relative imports here - Express agents load this file outside the Next.js path alias
+ */
+
+import type { Address } from 'viem';
+import type { AgentPricing } from './types';
+import { taskPricing } from './paywall';
+import { getDefaultChainId, getDefaultToken, getTokenConfig } from './chains';
+
+// Profiles are re-read after this long, so price updates apply without a restart
+const PRICING_CACHE_MS = 60 * 1000;
+
+const pricingCache = new Map<string, { pricing: AgentPricing; expiresAt: number }>();
+
+// Supabase reads env at import time - Express agents only load dotenv after their imports
+const loadAgents = () => import('../supabase/agents');
+
+/**
+ * Per-task pricing an agent registered for its wallet, in base units of the paywall's token
+ * Throws if the agent has no profile or no price, so its paywall can't be paid less
+ */
+export async function getRegisteredTaskPricing(
+  wallet: Address,
+  options: { chainId?: number; token?: Address } = {}
+): Promise<AgentPricing> {
+  const chainId = options.chainId || getDefaultChainId();
+  const token = options.token ? getTokenConfig(chainId, options.token) : getDefaultToken(chainId);
+  if (!token) {
+    throw new Error(`Token ${options.token} is not registered on chain ${chainId}`);
+  }
+
+  const cacheKey = `${wallet.toLowerCase()}:${chainId}:${token.address.toLowerCase()}`;
+  const cached = pricingCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) return cached.pricing;
+
+  const { getAgentByAddress } = await loadAgents();
+  const profile = await getAgentByAddress(wallet);
+  const price = Number(profile?.pricing_per_task);
+  if (!profile || !Number.isFinite(price) || price <= 0) {
+    throw new Error(`Agent ${wallet} has no registered task price`);
+  }
+
+  const pricing = taskPricing(price, token.decimals);
+  pricingCache.set(cacheKey, { pricing, expiresAt: Date.now() + PRICING_CACHE_MS });
+  return pricing;
+}
+
+/**
+ * Reject a task without a usable agreed payment (paywall validate hook)
+ */
+export function validateTaskPayment(task: { payment?: unknown }): string | undefined {
+  if (typeof task.payment !== 'number' || !Number.isFinite(task.payment) || task.payment <= 0) {
+    return 'payment must be a positive number';
+  }
+  return undefined;
+}
@@ -0,0 +1,326 @@
+/**
+ * EIP-3009 Payment Authorizations
+ * Build, sign, verify and settle signed USDC transferWithAuthorization payments
+ * so X402 payers don't have to broadcast a transfer themselves
+ */
+
+import {
+  createWalletClient,
+  http,
+  parseSignature,
+  toHex,
+  type Address,
+  type LocalAccount,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { getChainConfig, getRpcUrl, getTokenConfig, getX402PublicClient, type X402TokenConfig } from './chains';
+import type {
+  X402PaymentAuthorization,
+  X402PaymentRequest,
+  X402PaymentScheme,
+  X402TokenDomain,
+} from './types';
+
+/**
+ * Default authorization lifetime (5 minutes)
+ */
+const DEFAULT_VALID_FOR_SECONDS = 5 * 60;
+
+/**
+ * Fallback EIP-712 domain (Circle USDC, FiatToken v2)
+ * Registered tokens carry their own domain in ./chains.ts
+ */
+export const DEFAULT_TOKEN_DOMAIN: X402TokenDomain = {
+  name: process.env.X402_TOKEN_NAME || 'USDC',
+  version: process.env.X402_TOKEN_VERSION || '2',
+};
+
+export const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'validAfter', type: 'uint256' },
+    { name: 'validBefore', type: 'uint256' },
+    { name: 'nonce', type: 'bytes32' },
+  ],
+} as const;
+
+export const EIP3009_ABI = [
+  {
+    name: 'transferWithAuthorization',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'from', type: 'address' },
+      { name: 'to', type: 'address' },
+      { name: 'value', type: 'uint256' },
+      { name: 'validAfter', type: 'uint256' },
+      { name: 'validBefore', type: 'uint256' },
+      { name: 'nonce', type: 'bytes32' },
+      { name: 'v', type: 'uint8' },
+      { name: 'r', type: 'bytes32' },
+      { name: 's', type: 'bytes32' },
+    ],
+    outputs: [],
+  },
+  {
+    // FiatToken v2.2 overload - accepts ERC-1271 smart-wallet signatures
+    name: 'transferWithAuthorization',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'from', type: 'address' },
+      { name: 'to', type: 'address' },
+      { name: 'value', type: 'uint256' },
+      { name: 'validAfter', type: 'uint256' },
+      { name: 'validBefore', type: 'uint256' },
+      { name: 'nonce', type: 'bytes32' },
+      { name: 'signature', type: 'bytes' },
+    ],
+    outputs: [],
+  },
+  {
+    name: 'authorizationState',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'authorizer', type: 'address' },
+      { name: 'nonce', type: 'bytes32' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+] as const;
+
+/**
+ * Check if the payment request accepts a given scheme
+ */
+export function acceptsScheme(request: X402PaymentRequest, scheme: X402PaymentScheme): boolean {
+  return (request.schemes || ['exact']).includes(scheme);
+}
+
+/**
+ * Check if this server can settle authorizations (facilitator or settler wallet)
+ */
+export function isAuthorizationSettlementEnabled(): boolean {
+  return !!process.env.X402_FACILITATOR_URL || !!process.env.X402_SETTLER_PRIVATE_KEY;
+}
+
+/**
+ * Schemes this server can accept for a token, for the X-Payment-Required header
+ * Signed authorizations need a settler and a token that implements EIP-3009
+ */
+export function getSupportedSchemes(token?: X402TokenConfig): X402PaymentScheme[] {
+  const tokenSupportsAuthorization = !token || !!token.domain;
+  return isAuthorizationSettlementEnabled() && tokenSupportsAuthorization
+    ? ['exact', 'authorization']
+    : ['exact'];
+}
+
+/**
+ * EIP-712 domain of a token (registry entry, else the fallback domain)
+ */
+export function getTokenDomain(chainId: number, token: Address): X402TokenDomain {
+  return getTokenConfig(chainId, token)?.domain || DEFAULT_TOKEN_DOMAIN;
+}
+
+/**
+ * Create an unsigned authorization for a payment request
+ */
+export function createTransferAuthorization(
+  request: X402PaymentRequest,
+  from: Address,
+  validForSeconds: number = DEFAULT_VALID_FOR_SECONDS
+): Omit<X402PaymentAuthorization, 'signature'> {
+  const now = Math.floor(Date.now() / 1000);
+  const nonce = toHex(crypto.getRandomValues(new Uint8Array(32)));
+
+  return {
+    scheme: 'authorization',
+    chainId: request.chainId,
+    token: request.token,
+    from,
+    to: request.recipient,
+    value: request.amount,
+    validAfter: '0',
+    validBefore: (now + validForSeconds).toString(),
+    nonce,
+  };
+}
+
+/**
+ * Build EIP-712 typed data for signing or verifying an authorization
+ */
+export function getAuthorizationTypedData(
+  authorization: Omit<X402PaymentAuthorization, 'signature'>,
+  tokenDomain: X402TokenDomain = DEFAULT_TOKEN_DOMAIN
+) {
+  return {
+    domain: {
+      name: tokenDomain.name,
+      version: tokenDomain.version,
+      chainId: authorization.chainId,
+      verifyingContract: authorization.token,
+    },
+    types: TRANSFER_WITH_AUTHORIZATION_TYPES,
+    primaryType: 'TransferWithAuthorization' as const,
+    message: {
+      from: authorization.from,
+      to: authorization.to,
+      value: BigInt(authorization.value),
+      validAfter: BigInt(authorization.validAfter),
+      validBefore: BigInt(authorization.validBefore),
+      nonce: authorization.nonce,
+    },
+  };
+}
+
+/**
+ * Sign an authorization with a local account (used by agents and the orchestrator)
+ */
+export async function signTransferAuthorization(
+  account: LocalAccount,
+  request: X402PaymentRequest
+): Promise<X402PaymentAuthorization> {
+  const authorization = createTransferAuthorization(request, account.address);
+  const signature = await account.signTypedData(
+    getAuthorizationTypedData(
+      authorization,
+      request.tokenDomain || getTokenDomain(request.chainId, request.token)
+    )
+  );
+
+  return { ...authorization, signature };
+}
+
+/**
+ * Verify an authorization signature, validity window and nonce state
+ * Smart-wallet (ERC-1271) signatures are supported through the public client
+ */
+export async function verifyTransferAuthorization(
+  authorization: X402PaymentAuthorization,
+  tokenDomain: X402TokenDomain = getTokenDomain(authorization.chainId, authorization.token),
+  rpcUrl?: string
+): Promise<{ valid: boolean; reason?: string }> {
+  try {
+    const now = Math.floor(Date.now() / 1000);
+
+    if (BigInt(authorization.validAfter) > BigInt(now)) {
+      return { valid: false, reason: 'Authorization not yet valid' };
+    }
+
+    if (BigInt(authorization.validBefore) <= BigInt(now)) {
+      return { valid: false, reason: 'Authorization expired' };
+    }
+
+    const client = getX402PublicClient(authorization.chainId, rpcUrl);
+
+    const isValidSignature = await client.verifyTypedData({
+      address: authorization.from,
+      signature: authorization.signature,
+      ...getAuthorizationTypedData(authorization, tokenDomain),
+    });
+
+    if (!isValidSignature) {
+      return { valid: false, reason: 'Invalid authorization signature' };
+    }
+
+    const nonceUsed = await client.readContract({
+      address: authorization.token,
+      abi: EIP3009_ABI,
+      functionName: 'authorizationState',
+      args: [authorization.from, authorization.nonce],
+    });
+
+    if (nonceUsed) {
+      return { valid: false, reason: 'Authorization nonce already used' };
+    }
+
+    return { valid: true };
+  } catch (error) {
+    console.error('Authorization verification failed:', error);
+    return { valid: false, reason: 'Authorization verification failed' };
+  }
+}
+
+/**
+ * Settle an authorization on-chain
+ * Uses the configured facilitator if present, otherwise submits from the settler wallet
+ * Returns the settlement transaction hash once it is confirmed
+ */
+export async function settleTransferAuthorization(
+  authorization: X402PaymentAuthorization,
+  rpcUrl?: string
+): Promise<`0x${string}`> {
+  const facilitatorUrl = process.env.X402_FACILITATOR_URL;
+
+  if (facilitatorUrl) {
+    const response = await fetch(`${facilitatorUrl.replace(/\/$/, '')}/settle`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ authorization }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Facilitator settlement failed: ${response.status} ${await response.text()}`);
+    }
+
+    const { txHash } = await response.json();
+    if (!txHash) {
+      throw new Error('Facilitator did not return a transaction hash');
+    }
+    return txHash as `0x${string}`;
+  }
+
+  const settlerKey = process.env.X402_SETTLER_PRIVATE_KEY as `0x${string}` | undefined;
+  if (!settlerKey) {
+    throw new Error('No X402 facilitator or settler wallet configured');
+  }
+
+  const account = privateKeyToAccount(settlerKey);
+  const publicClient = getX402PublicClient(authorization.chainId, rpcUrl);
+  const walletClient = createWalletClient({
+    account,
+    chain: getChainConfig(authorization.chainId).chain,
+    transport: http(getRpcUrl(authorization.chainId, rpcUrl)),
+  });
+
+  const baseArgs = [
+    authorization.from,
+    authorization.to,
+    BigInt(authorization.value),
+    BigInt(authorization.validAfter),
+    BigInt(authorization.validBefore),
+    authorization.nonce,
+  ] as const;
+
+  // 65-byte ECDSA signatures use the v/r/s form, anything else (ERC-1271) the bytes form
+  const isEcdsaSignature = authorization.signature.length === 132;
+  let txHash: `0x${string}`;
+
+  if (isEcdsaSignature) {
+    const { v, r, s, yParity } = parseSignature(authorization.signature);
+    txHash = await walletClient.writeContract({
+      address: authorization.token,
+      abi: EIP3009_ABI,
+      functionName: 'transferWithAuthorization',
+      args: [...baseArgs, Number(v ?? BigInt(yParity + 27)), r, s],
+    });
+  } else {
+    txHash = await walletClient.writeContract({
+      address: authorization.token,
+      abi: EIP3009_ABI,
+      functionName: 'transferWithAuthorization',
+      args: [...baseArgs, authorization.signature],
+    });
+  }
+
+  const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+  if (receipt.status !== 'success') {
+    throw new Error(`Settlement transaction reverted: ${txHash}`);
+  }
+
+  console.log('[X402] Authorization settled:', { txHash, from: authorization.from, to: authorization.to });
+
+  return txHash;
+}
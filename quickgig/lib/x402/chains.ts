@@ -0,0 +1,173 @@
+/**
+ * X402 Chain & Token Registry
+ * Networks and ERC-20 tokens X402 payments can be made in, keyed by chainId
+ * Verification, settlement and pricing all resolve their RPC client and token details here
+ */
+
+import { createPublicClient, http, type Address, type Chain, type PublicClient } from 'viem';
+import { base, baseSepolia, foundry } from 'viem/chains';
+import type { X402TokenDomain } from './types';
+
+export interface X402TokenConfig {
+  address: Address;
+  symbol: string;
+  decimals: number;
+  domain?: X402TokenDomain; // EIP-712 domain - set only for tokens that support EIP-3009
+}
+
+export interface X402ChainConfig {
+  chain: Chain;
+  rpcUrl: string;
+  explorerUrl?: string;
+  tokens: X402TokenConfig[]; // First token is the default for pricing
+}
+
+const alchemyKey = process.env.NEXT_PUBLIC_ALCHEMY_API_KEY;
+
+const BASE_SEPOLIA_USDC: Address = '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
+
+const registry = new Map<number, X402ChainConfig>([
+  [
+    base.id,
+    {
+      chain: base,
+      rpcUrl: process.env.NEXT_PUBLIC_BASE_RPC_URL || `https://base-mainnet.g.alchemy.com/v2/${alchemyKey}`,
+      explorerUrl: 'https://basescan.org',
+      tokens: [
+        {
+          address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+          symbol: 'USDC',
+          decimals: 6,
+          domain: { name: 'USD Coin', version: '2' },
+        },
+      ],
+    },
+  ],
+  [
+    baseSepolia.id,
+    {
+      chain: baseSepolia,
+      rpcUrl: process.env.NEXT_PUBLIC_BASE_SEPOLIA_RPC_URL ||
+              process.env.NEXT_PUBLIC_ALCHEMY_RPC_URL ||
+              `https://base-sepolia.g.alchemy.com/v2/${alchemyKey}`,
+      explorerUrl: 'https://sepolia.basescan.org',
+      tokens: [
+        {
+          address: BASE_SEPOLIA_USDC,
+          symbol: 'USDC',
+          decimals: 6,
+          domain: { name: 'USDC', version: '2' },
+        },
+      ],
+    },
+  ],
+  [
+    foundry.id,
+    {
+      // Local Anvil node - defaults assume `anvil --fork-url <base sepolia rpc>`
+      chain: foundry,
+      rpcUrl: process.env.NEXT_PUBLIC_ANVIL_RPC_URL || 'http://127.0.0.1:8545',
+      tokens: [
+        {
+          address: (process.env.NEXT_PUBLIC_ANVIL_USDC_ADDRESS as Address) || BASE_SEPOLIA_USDC,
+          symbol: 'USDC',
+          decimals: 6,
+          domain: { name: 'USDC', version: '2' },
+        },
+      ],
+    },
+  ],
+]);
+
+const publicClients = new Map<string, PublicClient>();
+
+/**
+ * Chain used when a request or proof doesn't say (NEXT_PUBLIC_X402_CHAIN_ID, defaults to Base Sepolia)
+ */
+export function getDefaultChainId(): number {
+  return Number(process.env.NEXT_PUBLIC_X402_CHAIN_ID) || baseSepolia.id;
+}
+
+/**
+ * Check if a chain is registered
+ */
+export function isSupportedChain(chainId: number): boolean {
+  return registry.has(chainId);
+}
+
+/**
+ * Get a registered chain, throws for unknown chain IDs
+ */
+export function getChainConfig(chainId: number = getDefaultChainId()): X402ChainConfig {
+  const config = registry.get(chainId);
+  if (!config) {
+    throw new Error(`Unsupported X402 chain: ${chainId}`);
+  }
+  return config;
+}
+
+/**
+ * Look up a registered token on a chain (null if it isn't registered)
+ */
+export function getTokenConfig(chainId: number, token: Address): X402TokenConfig | null {
+  const config = registry.get(chainId);
+  return config?.tokens.find((t) => t.address.toLowerCase() === token.toLowerCase()) || null;
+}
+
+/**
+ * Default pricing token for a chain (USDC)
+ * NEXT_PUBLIC_USDC_ADDRESS overrides it on the default chain
+ */
+export function getDefaultToken(chainId: number = getDefaultChainId()): X402TokenConfig {
+  const config = getChainConfig(chainId);
+  const override = process.env.NEXT_PUBLIC_USDC_ADDRESS as Address | undefined;
+
+  if (override && chainId === getDefaultChainId()) {
+    const registered = getTokenConfig(chainId, override);
+    if (registered) return registered;
+
+    // Unlisted address (e.g. a redeployed test token) - register it as USDC so payments in it verify
+    const token = { ...config.tokens[0], address: override };
+    registerToken(chainId, token);
+    return token;
+  }
+
+  return config.tokens[0];
+}
+
+/**
+ * Register an additional ERC-20 token (e.g. a stablecoin other than USDC)
+ */
+export function registerToken(chainId: number, token: X402TokenConfig): void {
+  const config = getChainConfig(chainId);
+  config.tokens = [
+    ...config.tokens.filter((t) => t.address.toLowerCase() !== token.address.toLowerCase()),
+    token,
+  ];
+}
+
+/**
+ * Get the RPC URL for a chain (explicit override wins)
+ */
+export function getRpcUrl(chainId: number, rpcUrl?: string): string {
+  return rpcUrl || getChainConfig(chainId).rpcUrl;
+}
+
+/**
+ * Shared public client for a chain
+ */
+export function getX402PublicClient(chainId: number = getDefaultChainId(), rpcUrl?: string): PublicClient {
+  const url = getRpcUrl(chainId, rpcUrl);
+  const key = `${chainId}:${url}`;
+
+  let client = publicClients.get(key);
+  if (!client) {
+    client = createPublicClient({
+      chain: getChainConfig(chainId).chain,
+      transport: http(url),
+    }) as PublicClient;
+    publicClients.set(key, client);
+  }
+
+  return client;
+}
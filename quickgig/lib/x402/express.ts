@@ -0,0 +1,66 @@
+/**
+ * X402 Paywall for Express agents
+ * Matches withX402Paywall (./next.ts) for the standalone agents in agents/*
+ *
+ * Typed structurally so the Next.js app doesn't need express as a dependency
+ */
+
+import { processX402Payment, type VerifiedPayment, type X402PaywallPricing } from './paywall';
+
+interface PaywallRequest {
+  headers: Record<string, string | string[] | undefined>;
+  body: unknown;
+  x402Payment?: VerifiedPayment | null;
+}
+
+interface PaywallResponse {
+  status(code: number): PaywallResponse;
+  set(field: string, value: string): PaywallResponse;
+  json(body: unknown): unknown;
+}
+
+/**
+ * Convert Node request headers to a Fetch API Headers object
+ */
+function toHeaders(raw: PaywallRequest['headers']): Headers {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(raw)) {
+    if (value === undefined) continue;
+    headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+  }
+  return headers;
+}
+
+/**
+ * Express middleware that requires a verified X402 payment
+ * The verified payment is attached to req.x402Payment
+ *
+ * Usage:
+ * app.post('/execute', x402Paywall({ agentId, recipient, pricing }), handler);
+ */
+export function x402Paywall<TBody = Record<string, unknown>>(pricing: X402PaywallPricing<TBody>) {
+  return async (req: PaywallRequest, res: PaywallResponse, next: (error?: unknown) => void) => {
+    try {
+      const body = req.body as TBody;
+      const outcome = await processX402Payment(pricing, toHeaders(req.headers), body);
+
+      if (outcome.type === 'payment_required') {
+        res
+          .status(402)
+          .set('X-Payment-Required', JSON.stringify(outcome.paymentRequest))
+          .json(outcome.body);
+        return;
+      }
+
+      if (outcome.type === 'rejected') {
+        res.status(outcome.status).json(outcome.body);
+        return;
+      }
+
+      req.x402Payment = outcome.payment;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,181 @@
+/**
+ * X402 Metered Billing
+ * The client pre-funds a session balance, each response reports the units it consumed
+ * (LLM tokens or seconds of work) and the cost is debited from the session ledger
+ *
+ * Balances live in the configured SessionStore, so debits are atomic on every backend
+ */
+
+import type { AgentPricing } from './types';
+import { getSessionStore, type ChatSession, type SessionStore } from '../storage/session-store';
+
+export type MeteredUnit = 'token' | 'second';
+
+export interface MeteredUsage {
+  unit: MeteredUnit;
+  quantity: number; // Tokens consumed, or seconds of work
+}
+
+export interface MeteredCharge {
+  session: ChatSession;
+  cost: bigint; // What the usage cost at the agent's price
+  debited: bigint; // What was taken from the balance (less than cost if it ran out)
+  balance: bigint; // Balance left after the debit
+  exhausted: boolean; // No balance left - the next request needs a new deposit
+}
+
+/**
+ * What happens to unused balance when a session closes
+ * - refund: recorded in the ledger as owed to the payer (not paid out automatically)
+ * - carry_over: credited to the payer's next metered session with the same agent
+ */
+export type BalanceDisposition = 'refund' | 'carry_over';
+
+/**
+ * Price a unit of usage with the agent's metered pricing
+ * Per-minute prices are billed per started second
+ */
+export function getMeteredCost(pricing: AgentPricing, usage: MeteredUsage): bigint {
+  const quantity = BigInt(Math.ceil(Math.max(usage.quantity, 0)));
+
+  if (usage.unit === 'token') {
+    if (pricing.perToken === undefined) {
+      throw new Error('Agent has no perToken price configured');
+    }
+    return pricing.perToken * quantity;
+  }
+
+  if (pricing.perMinute === undefined) {
+    throw new Error('Agent has no perMinute price configured');
+  }
+  return (pricing.perMinute * quantity + 59n) / 60n; // Round up to the next base unit
+}
+
+/**
+ * Check if a session is metered and can still be debited
+ */
+export function hasMeteredBalance(session: ChatSession | null): boolean {
+  return !!session &&
+    session.billing_mode === 'metered' &&
+    BigInt(session.balance || '0') > 0n &&
+    new Date(session.expires_at) > new Date();
+}
+
+/**
+ * Open a metered session funded by a verified deposit
+ * Any balance the payer carried over from a closed session is credited on top
+ */
+export async function openMeteredSession(
+  params: {
+    sessionId: string;
+    payer: string;
+    agentId: string;
+    deposit: string; // Token base units
+    durationMs?: number;
+  },
+  store: SessionStore = getSessionStore()
+): Promise<{ session: ChatSession; carriedOver: bigint }> {
+  const { sessionId, payer, agentId, deposit, durationMs = 24 * 60 * 60 * 1000 } = params;
+
+  await store.createSession({
+    session_id: sessionId,
+    user_address: payer,
+    agent_id: agentId,
+    messages_remaining: 0,
+    total_paid: deposit,
+    expires_at: new Date(Date.now() + durationMs).toISOString(),
+    billing_mode: 'metered',
+    balance: '0',
+  });
+
+  let session = await store.creditBalance(sessionId, BigInt(deposit), 'deposit');
+
+  const carriedOver = await store.claimCarryOver(payer, agentId);
+  if (carriedOver > 0n) {
+    session = await store.creditBalance(sessionId, carriedOver, 'carry_over_in');
+  }
+
+  if (!session) {
+    throw new Error(`Failed to fund metered session ${sessionId}`);
+  }
+
+  console.log('[X402 Metering] Session opened:', {
+    sessionId,
+    deposit,
+    carriedOver: carriedOver.toString(),
+    balance: session.balance,
+  });
+
+  return { session, carriedOver };
+}
+
+/**
+ * Debit the cost of reported usage from a session
+ * Returns null if the session is missing, expired or already empty
+ */
+export async function chargeMeteredUsage(
+  sessionId: string,
+  pricing: AgentPricing,
+  usage: MeteredUsage,
+  store: SessionStore = getSessionStore()
+): Promise<MeteredCharge | null> {
+  const cost = getMeteredCost(pricing, usage);
+
+  if (cost === 0n) {
+    const session = await store.getSession(sessionId);
+    if (!hasMeteredBalance(session)) return null;
+
+    const balance = BigInt(session!.balance || '0');
+    return { session: session!, cost, debited: 0n, balance, exhausted: false };
+  }
+
+  const result = await store.debitBalance(sessionId, cost, usage);
+  if (!result) return null;
+
+  const balance = BigInt(result.session.balance || '0');
+
+  console.log('[X402 Metering] Usage charged:', {
+    sessionId,
+    usage,
+    cost: cost.toString(),
+    debited: result.debited.toString(),
+    balance: balance.toString(),
+  });
+
+  return {
+    session: result.session,
+    cost,
+    debited: result.debited,
+    balance,
+    exhausted: balance === 0n,
+  };
+}
+
+/**
+ * Close a metered session and refund or carry over its unused balance
+ * Returns null for missing or non-metered sessions
+ */
+export async function closeMeteredSession(
+  sessionId: string,
+  disposition: BalanceDisposition,
+  store: SessionStore = getSessionStore()
+): Promise<{ session: ChatSession; amount: bigint } | null> {
+  const session = await store.getSession(sessionId);
+  if (!session || session.billing_mode !== 'metered') return null;
+
+  const closed = await store.closeBalance(sessionId, disposition === 'refund' ? 'refund' : 'carry_over_out');
+  if (!closed) return null;
+
+  if (disposition === 'carry_over' && closed.amount > 0n) {
+    await store.addCarryOver(closed.session.user_address, closed.session.agent_id, closed.amount);
+  }
+
+  console.log('[X402 Metering] Session closed:', {
+    sessionId,
+    disposition,
+    amount: closed.amount.toString(),
+    payer: closed.session.user_address,
+  });
+
+  return closed;
+}
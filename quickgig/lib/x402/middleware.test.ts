@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { encodeAbiParameters, encodeEventTopics, erc20Abi, type Address, type Hash } from 'viem';
+import { baseSepolia } from 'viem/chains';
+import type { X402PaymentProof } from './types';
+import { redeemPaymentProof } from './middleware';
+import { claimPaymentProof, InMemorySpentProofStore, setSpentProofStore } from './spent-proofs';
+
+const chain = vi.hoisted(() => ({
+  receipts: new Map<string, unknown>(),
+  blockTimestamp: 0n,
+}));
+
+// Receipts and blocks come from the test instead of an RPC node
+vi.mock('./chains', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./chains')>()),
+  getX402PublicClient: () => ({
+    getTransactionReceipt: async ({ hash }: { hash: Hash }) => chain.receipts.get(hash) ?? null,
+    getBlock: async () => ({ timestamp: chain.blockTimestamp }),
+  }),
+}));
+
+const USDC: Address = '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
+const PAYER: Address = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const AGENT: Address = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const OTHER: Address = '0x90F79bf6EB2c4f870365E785982E1f101E93b906';
+
+const OPTIONS = { redeemedBy: 'test-agent', recipient: AGENT, minAmount: 100000n, token: USDC, chainId: baseSepolia.id };
+
+let nextHash = 1;
+
+function transferLog(from: Address, to: Address, value: bigint, token: Address = USDC) {
+  return {
+    address: token,
+    topics: encodeEventTopics({ abi: erc20Abi, eventName: 'Transfer', args: { from, to } }),
+    data: encodeAbiParameters([{ type: 'uint256' }], [value]),
+    blockNumber: 100n,
+    logIndex: 0,
+    transactionIndex: 0,
+    transactionHash: '0x00',
+    blockHash: '0x00',
+    removed: false,
+  };
+}
+
+/**
+ * Mine a payment - its receipt holds the given Transfer logs
+ */
+function mineTransfer(logs = [transferLog(PAYER, AGENT, 100000n)]): X402PaymentProof {
+  const txHash = `0x${(nextHash++).toString(16).padStart(64, '0')}`;
+  chain.receipts.set(txHash, { status: 'success', blockNumber: 100n, logs });
+
+  return { txHash, from: PAYER, to: AGENT, amount: '100000', token: USDC, chainId: baseSepolia.id, timestamp: Date.now() };
+}
+
+beforeEach(() => {
+  setSpentProofStore(new InMemorySpentProofStore());
+  chain.receipts.clear();
+  chain.blockTimestamp = BigInt(Math.floor(Date.now() / 1000));
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('redeemPaymentProof', () => {
+  it('redeems a valid proof once and rejects the second redemption with 409', async () => {
+    const proof = mineTransfer();
+
+    const first = await redeemPaymentProof(proof, OPTIONS);
+    expect(first).toMatchObject({ ok: true, payer: PAYER, amount: '100000', txHash: proof.txHash });
+
+    const second = await redeemPaymentProof(proof, OPTIONS);
+    expect(second).toEqual({ ok: false, status: 409, reason: 'Payment proof already redeemed' });
+  });
+
+  it('rejects a payment from a stale block with 400', async () => {
+    const proof = mineTransfer();
+    chain.blockTimestamp = BigInt(Math.floor(Date.now() / 1000) - 10 * 60);
+
+    const result = await redeemPaymentProof(proof, OPTIONS);
+    expect(result).toEqual({ ok: false, status: 400, reason: 'Payment transaction is too old' });
+  });
+
+  it('lets exactly one of two concurrent redemptions of the same hash succeed', async () => {
+    const proof = mineTransfer();
+
+    const results = await Promise.all([redeemPaymentProof(proof, OPTIONS), redeemPaymentProof(proof, OPTIONS)]);
+
+    expect(results.filter((result) => result.ok)).toHaveLength(1);
+    expect(results.filter((result) => !result.ok)).toEqual([
+      { ok: false, status: 409, reason: 'Payment proof already redeemed' },
+    ]);
+  });
+
+  it('rejects a non-numeric amount with 400', async () => {
+    const proof = { ...mineTransfer(), amount: 'lots' };
+
+    const result = await redeemPaymentProof(proof, OPTIONS);
+    expect(result).toEqual({ ok: false, status: 400, reason: 'Invalid payment amount' });
+  });
+
+  it('matches the Transfer of the proof rather than the first one in the receipt', async () => {
+    const matching = mineTransfer([transferLog(PAYER, OTHER, 5000n), transferLog(PAYER, AGENT, 100000n)]);
+    expect(await redeemPaymentProof(matching, OPTIONS)).toMatchObject({ ok: true });
+
+    const unrelated = mineTransfer([transferLog(PAYER, OTHER, 100000n)]);
+    expect(await redeemPaymentProof(unrelated, OPTIONS)).toEqual({
+      ok: false,
+      status: 400,
+      reason: 'No Transfer matches the payment proof',
+    });
+  });
+});
+
+describe('claimPaymentProof', () => {
+  it('claims a hash once', async () => {
+    const proof = mineTransfer();
+
+    expect(await claimPaymentProof(proof, 'test-agent')).toBe(true);
+    expect(await claimPaymentProof(proof, 'test-agent')).toBe(false);
+  });
+
+  it('lets exactly one of concurrent claims of the same hash win', async () => {
+    const proof = mineTransfer();
+
+    const claims = await Promise.all(Array.from({ length: 5 }, () => claimPaymentProof(proof, 'test-agent')));
+    expect(claims.filter(Boolean)).toHaveLength(1);
+  });
+});
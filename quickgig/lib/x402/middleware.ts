@@ -3,10 +3,18 @@
  * Handles HTTP 402 Payment Required responses and payment authorization
  */
 
-import { Address, createPublicClient, createWalletClient, http, parseUnits } from 'viem';
-import { baseSepolia } from 'viem/chains';
-import type { X402PaymentRequest, X402PaymentProof, X402Response } from './types';
-import { CONTRACTS } from '@/lib/contracts/addresses';
+import { erc20Abi, parseEventLogs, type Address } from 'viem';
+import type {
+  X402Payment,
+  X402PaymentAuthorization,
+  X402PaymentRequest,
+  X402PaymentProof,
+  X402Response,
+} from './types';
+import { claimPaymentProof, getSpentProofStore } from './spent-proofs';
+import { settleTransferAuthorization, verifyTransferAuthorization } from './authorization';
+import { getDefaultChainId, getTokenConfig, getX402PublicClient, isSupportedChain } from './chains';
+import { getSessionStore, type SessionStore } from '../storage/session-store';
 
 /**
  * Check if response is X402 Payment Required
@@ -32,8 +40,12 @@ export async function extractPaymentRequest(response: Response): Promise<X402Pay
       amount: paymentData.amount,
       token: paymentData.token as Address,
       recipient: paymentData.recipient as Address,
-      chainId: paymentData.chainId || 84532, // Base Sepolia default
+      chainId: paymentData.chainId || getDefaultChainId(),
+      decimals: paymentData.decimals,
+      symbol: paymentData.symbol,
       description: paymentData.description,
+      schemes: paymentData.schemes || ['exact'],
+      tokenDomain: paymentData.tokenDomain,
     };
   } catch (error) {
     throw new Error(`Failed to parse X-Payment-Required header: ${error}`);
@@ -48,7 +60,8 @@ export function createPaymentProof(
   from: Address,
   to: Address,
   amount: string,
-  token: Address
+  token: Address,
+  chainId: number = getDefaultChainId()
 ): X402PaymentProof {
   return {
     txHash,
@@ -56,27 +69,266 @@ export function createPaymentProof(
     to,
     amount,
     token,
+    chainId,
     timestamp: Date.now(),
   };
 }
 
+/**
+ * Maximum age of the payment block (5 minutes)
+ */
+const MAX_PAYMENT_AGE_SECONDS = 5 * 60;
+
+/**
+ * Tries at recording a settled authorization as spent before giving up
+ */
+const SETTLEMENT_CLAIM_ATTEMPTS = 3;
+
+export interface PaymentProofCheck {
+  valid: boolean;
+  reason?: string;
+  blockNumber?: bigint;
+}
+
+export interface RedeemPaymentOptions {
+  redeemedBy: string; // Route or agent accepting the proof (recorded in the ledger)
+  recipient?: Address; // Expected payee
+  minAmount?: bigint; // Minimum amount in token base units
+  token?: Address; // Expected token (minAmount is in its base units)
+  chainId?: number; // Expected chain
+  rpcUrl?: string;
+}
+
+export type RedeemPaymentResult =
+  | { ok: true; payer: Address; amount: string; txHash: string; blockNumber?: bigint }
+  | { ok: false; status: 400 | 409; reason: string };
+
+/**
+ * Check if a payment is a signed EIP-3009 authorization
+ */
+export function isPaymentAuthorization(payment: X402Payment): payment is X402PaymentAuthorization {
+  return (payment as X402PaymentAuthorization).scheme === 'authorization';
+}
+
+/**
+ * Build request headers carrying a payment
+ * Transfer proofs go in X-Payment-Proof, signed authorizations in X-Payment
+ */
+export function getPaymentHeaders(payment: X402Payment): Record<string, string> {
+  return isPaymentAuthorization(payment)
+    ? { 'X-Payment': JSON.stringify(payment) }
+    : { 'X-Payment-Proof': JSON.stringify(payment) };
+}
+
+/**
+ * Read a payment from request headers
+ * Returns null if the request carries no payment, throws on malformed JSON
+ */
+export function parsePaymentHeaders(headers: Headers): X402Payment | null {
+  const authorizationHeader = headers.get('X-Payment');
+  if (authorizationHeader) {
+    return { ...JSON.parse(authorizationHeader), scheme: 'authorization' } as X402PaymentAuthorization;
+  }
+
+  const proofHeader = headers.get('X-Payment-Proof');
+  if (proofHeader) {
+    return JSON.parse(proofHeader) as X402PaymentProof;
+  }
+
+  return null;
+}
+
+/**
+ * Redeem any supported payment (transfer proof or signed authorization)
+ */
+export async function redeemPayment(
+  payment: X402Payment,
+  options: RedeemPaymentOptions
+): Promise<RedeemPaymentResult> {
+  return isPaymentAuthorization(payment)
+    ? redeemPaymentAuthorization(payment, options)
+    : redeemPaymentProof(payment, options);
+}
+
 /**
  * Verify payment proof on-chain
- * SECURITY: Verifies amount, recipient, sender, and token
+ * SECURITY: Verifies amount, recipient, sender, token and block age
  */
 export async function verifyPaymentProof(
   proof: X402PaymentProof,
   rpcUrl?: string
 ): Promise<boolean> {
+  const check = await checkPaymentProof(proof, rpcUrl);
+  return check.valid;
+}
+
+/**
+ * Verify a payment proof and mark it as spent in one step
+ * Use this in every 402-protected route before granting access
+ */
+export async function redeemPaymentProof(
+  proof: X402PaymentProof,
+  options: RedeemPaymentOptions
+): Promise<RedeemPaymentResult> {
+  if (!proof?.txHash || !proof.from || !proof.to || !proof.amount || !proof.token) {
+    return { ok: false, status: 400, reason: 'Invalid payment proof format' };
+  }
+
+  const mismatch = checkPaymentTerms(
+    { to: proof.to, amount: proof.amount, token: proof.token, chainId: proof.chainId ?? getDefaultChainId() },
+    options
+  );
+  if (mismatch) {
+    return { ok: false, status: 400, reason: mismatch };
+  }
+
+  // Cheap pre-check so replays don't cost an RPC round-trip
+  const spentStore = getSpentProofStore();
+  if (await spentStore.isSpent(proof.txHash)) {
+    return { ok: false, status: 409, reason: 'Payment proof already redeemed' };
+  }
+
+  const check = await checkPaymentProof(proof, options.rpcUrl);
+  if (!check.valid) {
+    return { ok: false, status: 400, reason: check.reason || 'Payment proof verification failed' };
+  }
+
+  // Atomic claim - only one concurrent request can win for a given txHash
+  const claimed = await claimPaymentProof(proof, options.redeemedBy, check.blockNumber);
+  if (!claimed) {
+    return { ok: false, status: 409, reason: 'Payment proof already redeemed' };
+  }
+
+  return { ok: true, payer: proof.from, amount: proof.amount, txHash: proof.txHash, blockNumber: check.blockNumber };
+}
+
+/**
+ * Verify a signed EIP-3009 authorization, settle it and mark the settlement as spent
+ * The token contract rejects a reused nonce, so only one settlement can succeed
+ */
+export async function redeemPaymentAuthorization(
+  authorization: X402PaymentAuthorization,
+  options: RedeemPaymentOptions
+): Promise<RedeemPaymentResult> {
+  const { from, to, value, token, nonce, signature } = authorization;
+  if (!from || !to || !value || !token || !nonce || !signature) {
+    return { ok: false, status: 400, reason: 'Invalid payment authorization format' };
+  }
+
+  const mismatch = checkPaymentTerms({ to, amount: value, token, chainId: authorization.chainId }, options);
+  if (mismatch) {
+    return { ok: false, status: 400, reason: mismatch };
+  }
+
+  const tokenDomain = getTokenConfig(authorization.chainId, token)?.domain;
+  if (!tokenDomain) {
+    return { ok: false, status: 400, reason: 'Token does not support signed authorizations' };
+  }
+
+  const check = await verifyTransferAuthorization(authorization, tokenDomain, options.rpcUrl);
+  if (!check.valid) {
+    const status = check.reason === 'Authorization nonce already used' ? 409 : 400;
+    return { ok: false, status, reason: check.reason || 'Payment authorization verification failed' };
+  }
+
+  let txHash: `0x${string}`;
   try {
-    // Use public RPC if available, otherwise fall back to Alchemy
-    const defaultRpcUrl = process.env.NEXT_PUBLIC_BASE_SEPOLIA_RPC_URL ||
-                          `https://base-sepolia.g.alchemy.com/v2/${process.env.NEXT_PUBLIC_ALCHEMY_API_KEY}`;
+    txHash = await settleTransferAuthorization(authorization, options.rpcUrl);
+  } catch (error) {
+    console.error('Payment authorization settlement failed:', error);
+    return { ok: false, status: 400, reason: 'Payment authorization settlement failed' };
+  }
 
-    const client = createPublicClient({
-      chain: baseSepolia,
-      transport: http(rpcUrl || defaultRpcUrl),
-    });
+  // Record the settlement so it can't also be presented as a transfer proof
+  const settlement = { txHash, from, to, amount: value, token, chainId: authorization.chainId, timestamp: Date.now() };
+  let claimed = false;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      claimed = await claimPaymentProof(settlement, options.redeemedBy);
+      break;
+    } catch (error) {
+      if (attempt < SETTLEMENT_CLAIM_ATTEMPTS) continue;
+
+      // The funds already moved and the nonce is spent on-chain, so the payer gets what they
+      // paid for - the settlement is logged for the ledger to be backfilled by hand
+      console.error('Payment authorization settled but not recorded as spent:', {
+        txHash,
+        from,
+        to,
+        amount: value,
+        token,
+        chainId: authorization.chainId,
+        redeemedBy: options.redeemedBy,
+        error: error instanceof Error ? error.message : error,
+      });
+      return { ok: true, payer: from, amount: value, txHash };
+    }
+  }
+  if (!claimed) {
+    return { ok: false, status: 409, reason: 'Payment proof already redeemed' };
+  }
+
+  return { ok: true, payer: from, amount: value, txHash };
+}
+
+/**
+ * Check a payment against the expected terms and the chain/token registry
+ * Returns the rejection reason, or null if the terms match
+ */
+function checkPaymentTerms(
+  payment: { to: Address; amount: string; token: Address; chainId: number },
+  options: RedeemPaymentOptions
+): string | null {
+  if (!/^\d+$/.test(String(payment.amount))) {
+    return 'Invalid payment amount';
+  }
+
+  if (!isSupportedChain(payment.chainId)) {
+    return `Unsupported chain: ${payment.chainId}`;
+  }
+
+  if (!getTokenConfig(payment.chainId, payment.token)) {
+    return 'Unsupported payment token';
+  }
+
+  if (options.chainId !== undefined && payment.chainId !== options.chainId) {
+    return 'Payment made on wrong chain';
+  }
+
+  if (options.token && payment.token.toLowerCase() !== options.token.toLowerCase()) {
+    return 'Payment made in wrong token';
+  }
+
+  if (options.recipient && payment.to.toLowerCase() !== options.recipient.toLowerCase()) {
+    return 'Payment sent to wrong recipient';
+  }
+
+  if (options.minAmount !== undefined && BigInt(payment.amount) < options.minAmount) {
+    return 'Payment amount too low';
+  }
+
+  return null;
+}
+
+/**
+ * Check payment proof against the transaction receipt and block
+ */
+async function checkPaymentProof(
+  proof: X402PaymentProof,
+  rpcUrl?: string
+): Promise<PaymentProofCheck> {
+  const chainId = proof.chainId ?? getDefaultChainId();
+  if (!isSupportedChain(chainId)) {
+    return { valid: false, reason: `Unsupported chain: ${chainId}` };
+  }
+
+  if (!getTokenConfig(chainId, proof.token)) {
+    return { valid: false, reason: 'Unsupported payment token' };
+  }
+
+  try {
+    // RPC client for the chain the payment was made on
+    const client = getX402PublicClient(chainId, rpcUrl);
 
     // Get transaction receipt
     const receipt = await client.getTransactionReceipt({
@@ -85,80 +337,58 @@ export async function verifyPaymentProof(
 
     if (!receipt) {
       console.error('Payment proof verification failed: receipt not found');
-      return false;
+      return { valid: false, reason: 'Transaction receipt not found' };
     }
 
     // Verify transaction succeeded
     if (receipt.status !== 'success') {
       console.error('Payment proof verification failed: transaction failed');
-      return false;
+      return { valid: false, reason: 'Transaction failed' };
     }
 
-    // Verify transaction is recent (within 5 minutes)
-    const fiveMinutesAgo = Date.now() - 5 * 60 * 1000;
-    if (proof.timestamp < fiveMinutesAgo) {
-      console.error('Payment proof verification failed: timestamp too old');
-      return false;
+    // Verify transaction is recent using the block timestamp (proof.timestamp is client-supplied)
+    const block = await client.getBlock({ blockNumber: receipt.blockNumber });
+    const nowSeconds = BigInt(Math.floor(Date.now() / 1000));
+    if (nowSeconds - block.timestamp > BigInt(MAX_PAYMENT_AGE_SECONDS)) {
+      console.error('Payment proof verification failed: block too old', {
+        blockNumber: receipt.blockNumber.toString(),
+        blockTimestamp: block.timestamp.toString(),
+      });
+      return { valid: false, reason: 'Payment transaction is too old' };
     }
 
-    // Find Transfer event in logs
-    const transferEvent = receipt.logs.find(
-      (log) =>
-        log.topics[0] === '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef' && // Transfer event signature
-        log.address.toLowerCase() === proof.token.toLowerCase()
-    );
+    // Find the Transfer of this token that matches the proof - a receipt can hold several
+    // (batched payments, fee transfers), so the first one isn't necessarily the payment
+    const transfers = parseEventLogs({ abi: erc20Abi, eventName: 'Transfer', logs: receipt.logs })
+      .filter((log) => log.address.toLowerCase() === proof.token.toLowerCase());
 
-    if (!transferEvent) {
+    if (transfers.length === 0) {
       console.error('Payment proof verification failed: Transfer event not found');
-      return false;
+      return { valid: false, reason: 'Transfer event not found' };
     }
 
-    // Decode Transfer event: Transfer(address indexed from, address indexed to, uint256 value)
-    // topics[0] = event signature
-    // topics[1] = from (indexed)
-    // topics[2] = to (indexed)
-    // data = value (not indexed)
-    
-    if (transferEvent.topics.length < 3 || !transferEvent.topics[1] || !transferEvent.topics[2]) {
-      console.error('Payment proof verification failed: invalid Transfer event');
-      return false;
-    }
-
-    // Extract from address (topics[1])
-    const fromAddress = ('0x' + transferEvent.topics[1].slice(26)) as Address; // Remove padding
-
-    // Extract to address (topics[2])
-    const toAddress = ('0x' + transferEvent.topics[2].slice(26)) as Address; // Remove padding
-
-    // Extract value from data (uint256)
-    const value = BigInt(transferEvent.data);
-
-    // Verify sender matches proof
-    if (fromAddress.toLowerCase() !== proof.from.toLowerCase()) {
-      console.error('Payment proof verification failed: sender mismatch', {
-        expected: proof.from,
-        actual: fromAddress,
-      });
-      return false;
-    }
+    const transfer = transfers.find(
+      (log) =>
+        log.args.from.toLowerCase() === proof.from.toLowerCase() &&
+        log.args.to.toLowerCase() === proof.to.toLowerCase() &&
+        log.args.value === BigInt(proof.amount)
+    );
 
-    // Verify recipient matches proof
-    if (toAddress.toLowerCase() !== proof.to.toLowerCase()) {
-      console.error('Payment proof verification failed: recipient mismatch', {
-        expected: proof.to,
-        actual: toAddress,
+    if (!transfer) {
+      console.error('Payment proof verification failed: no Transfer matches the proof', {
+        from: proof.from,
+        to: proof.to,
+        amount: proof.amount,
+        transfers: transfers.map((log) => ({
+          from: log.args.from,
+          to: log.args.to,
+          value: log.args.value.toString(),
+        })),
       });
-      return false;
+      return { valid: false, reason: 'No Transfer matches the payment proof' };
     }
 
-    // Verify amount matches proof
-    if (value !== BigInt(proof.amount)) {
-      console.error('Payment proof verification failed: amount mismatch', {
-        expected: proof.amount,
-        actual: value.toString(),
-      });
-      return false;
-    }
+    const { from: fromAddress, to: toAddress, value } = transfer.args;
 
     console.log('Payment proof verified successfully:', {
       from: fromAddress,
@@ -167,23 +397,25 @@ export async function verifyPaymentProof(
       token: proof.token,
     });
 
-    return true;
+    return { valid: true, blockNumber: receipt.blockNumber };
   } catch (error) {
     console.error('Payment proof verification failed:', error);
-    return false;
+    return { valid: false, reason: 'Payment proof verification failed' };
   }
 }
 
 /**
- * Retry fetch with payment proof
+ * Retry fetch with payment (transfer proof or signed authorization)
  */
 export async function retryWithPayment(
   url: string,
   options: RequestInit,
-  proof: X402PaymentProof
+  payment: X402Payment
 ): Promise<Response> {
   const headers = new Headers(options.headers);
-  headers.set('X-Payment-Proof', JSON.stringify(proof));
+  for (const [name, value] of Object.entries(getPaymentHeaders(payment))) {
+    headers.set(name, value);
+  }
 
   return fetch(url, {
     ...options,
@@ -197,7 +429,7 @@ export async function retryWithPayment(
 export async function x402Fetch(
   url: string,
   options: RequestInit = {},
-  onPaymentRequired?: (request: X402PaymentRequest) => Promise<X402PaymentProof>
+  onPaymentRequired?: (request: X402PaymentRequest) => Promise<X402Payment>
 ): Promise<Response> {
   // Initial request
   const response = await fetch(url, options);
@@ -211,17 +443,19 @@ export async function x402Fetch(
     // Extract payment request
     const paymentRequest = await extractPaymentRequest(response);
 
-    // Get payment proof from handler (this will trigger payment modal)
-    const proof = await onPaymentRequired(paymentRequest);
+    // Get payment from handler (this will trigger payment modal)
+    const payment = await onPaymentRequired(paymentRequest);
 
-    // Verify payment proof
-    const isValid = await verifyPaymentProof(proof);
-    if (!isValid) {
-      throw new Error('Payment proof verification failed');
+    // Verify transfer proofs up front - signed authorizations are settled by the server
+    if (!isPaymentAuthorization(payment)) {
+      const isValid = await verifyPaymentProof(payment);
+      if (!isValid) {
+        throw new Error('Payment proof verification failed');
+      }
     }
 
-    // Retry request with payment proof
-    return retryWithPayment(url, options, proof);
+    // Retry request with payment
+    return retryWithPayment(url, options, payment);
   }
 
   return response;
@@ -229,59 +463,52 @@ export async function x402Fetch(
 
 /**
  * Session-based payment manager
+ * Backed by the configured SessionStore so sessions survive restarts and are shared between instances
  */
 export class X402SessionManager {
-  private sessions: Map<string, { messagesRemaining: number; expiresAt: number }> = new Map();
+  constructor(private store: SessionStore = getSessionStore()) {}
 
   /**
    * Check if session has remaining messages
    */
-  hasRemainingMessages(sessionId: string): boolean {
-    const session = this.sessions.get(sessionId);
-    if (!session) return false;
-
-    // Check if expired
-    if (Date.now() > session.expiresAt) {
-      this.sessions.delete(sessionId);
-      return false;
-    }
-
-    return session.messagesRemaining > 0;
+  async hasRemainingMessages(sessionId: string): Promise<boolean> {
+    return (await this.getRemainingMessages(sessionId)) > 0;
   }
 
   /**
-   * Use one message from session
+   * Use one message from session (atomic)
    */
-  useMessage(sessionId: string): boolean {
-    const session = this.sessions.get(sessionId);
-    if (!session || session.messagesRemaining <= 0) {
-      return false;
-    }
-
-    session.messagesRemaining--;
-    this.sessions.set(sessionId, session);
-    return true;
+  async useMessage(sessionId: string): Promise<boolean> {
+    return (await this.store.consumeMessage(sessionId)) !== null;
   }
 
   /**
    * Create new session (after payment)
    */
-  createSession(sessionId: string, messageCount: number = 10, durationMs: number = 24 * 60 * 60 * 1000): void {
-    this.sessions.set(sessionId, {
-      messagesRemaining: messageCount,
-      expiresAt: Date.now() + durationMs,
+  async createSession(
+    sessionId: string,
+    payment: { payer: string; amount: string; agentId: string },
+    messageCount: number = 10,
+    durationMs: number = 24 * 60 * 60 * 1000
+  ): Promise<void> {
+    await this.store.createSession({
+      session_id: sessionId,
+      user_address: payment.payer,
+      agent_id: payment.agentId,
+      messages_remaining: messageCount,
+      total_paid: payment.amount,
+      expires_at: new Date(Date.now() + durationMs).toISOString(),
     });
   }
 
   /**
    * Get remaining messages for session
    */
-  getRemainingMessages(sessionId: string): number {
-    const session = this.sessions.get(sessionId);
-    if (!session || Date.now() > session.expiresAt) {
+  async getRemainingMessages(sessionId: string): Promise<number> {
+    const session = await this.store.getSession(sessionId);
+    if (!session || new Date(session.expires_at) < new Date()) {
       return 0;
     }
-    return session.messagesRemaining;
+    return session.messages_remaining;
   }
 }
-
@@ -0,0 +1,67 @@
+/**
+ * X402 Paywall for Next.js App Router route handlers
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { processX402Payment, type VerifiedPayment, type X402PaywallPricing } from './paywall';
+
+export interface X402PaywallContext<TBody> {
+  body: TBody; // Parsed JSON body (the request stream is already consumed)
+  payment: VerifiedPayment | null; // Null when isPaid let the request through
+}
+
+export type X402PaywallHandler<TBody> = (
+  request: NextRequest,
+  context: X402PaywallContext<TBody>
+) => Promise<Response>;
+
+/**
+ * Wrap a route handler so it only runs after a verified X402 payment
+ *
+ * Usage:
+ * export const POST = withX402Paywall(async (request, { body, payment }) => {
+ *   ...
+ * }, { agentId, recipient, pricing });
+ */
+export function withX402Paywall<TBody = Record<string, unknown>>(
+  handler: X402PaywallHandler<TBody>,
+  pricing: X402PaywallPricing<TBody>
+) {
+  return async (request: NextRequest): Promise<Response> => {
+    let body: TBody;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    try {
+      const outcome = await processX402Payment(pricing, request.headers, body);
+
+      if (outcome.type === 'payment_required') {
+        return NextResponse.json(outcome.body, {
+          status: 402,
+          headers: {
+            'X-Payment-Required': JSON.stringify(outcome.paymentRequest),
+          },
+        });
+      }
+
+      if (outcome.type === 'rejected') {
+        return NextResponse.json(outcome.body, { status: outcome.status });
+      }
+
+      // Awaited so a rejected handler lands in the catch below
+      return await handler(request, { body, payment: outcome.payment });
+    } catch (error) {
+      console.error(`[X402 Paywall] ${pricing.agentName || pricing.agentId} error:`, error);
+      return NextResponse.json(
+        {
+          error: 'Invalid request',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+        { status: 500 }
+      );
+    }
+  };
+}
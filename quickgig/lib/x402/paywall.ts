@@ -0,0 +1,204 @@
+/**
+ * X402 Paywall Core
+ * Framework-agnostic 402 handshake shared by the Next.js route wrapper
+ * (./next.ts) and the Express agent middleware (./express.ts)
+ *
+ * NOTE: Only relative imports here - Express agents load this file outside the Next.js path alias
+ */
+
+import { parseUnits, type Address } from 'viem';
+import type { AgentPricing, X402PaymentRequest, X402PaymentScheme } from './types';
+import { isPaymentAuthorization, parsePaymentHeaders, redeemPayment } from './middleware';
+import { getSupportedSchemes } from './authorization';
+import { getDefaultChainId, getDefaultToken, getTokenConfig, type X402TokenConfig } from './chains';
+
+/**
+ * Which AgentPricing field a paywalled endpoint charges
+ */
+export type PaywallCharge = 'perTask' | 'perSession' | 'perMessage';
+
+export interface X402PaywallPricing<TBody = unknown> {
+  agentId: string;
+  agentName?: string;
+  recipient: Address; // Agent wallet receiving payment
+  pricing: AgentPricing | ((body: TBody) => AgentPricing | Promise<AgentPricing>);
+  charge?: PaywallCharge; // Defaults to 'perTask'
+  description?: string | ((body: TBody) => string);
+  paymentMessage?: string | ((body: TBody) => string); // Human-readable message in the 402 body
+  token?: Address; // Any token registered for the chain, defaults to its USDC
+  chainId?: number; // Defaults to NEXT_PUBLIC_X402_CHAIN_ID (Base Sepolia)
+  /**
+   * Reject malformed requests before asking for (or taking) payment
+   * Return an error message to respond 400
+   */
+  validate?: (body: TBody) => string | undefined;
+  /**
+   * Let the request through without payment (e.g. an existing paid session)
+   */
+  isPaid?: (body: TBody, headers: Headers) => Promise<boolean>;
+}
+
+export interface VerifiedPayment {
+  payer: Address;
+  amount: string;
+  txHash: string;
+  scheme: X402PaymentScheme;
+}
+
+export type PaywallOutcome =
+  | { type: 'payment_required'; paymentRequest: X402PaymentRequest; body: Record<string, unknown> }
+  | { type: 'rejected'; status: number; body: Record<string, unknown> }
+  | { type: 'paid'; payment: VerifiedPayment | null };
+
+/**
+ * Flat per-task pricing from a decimal token amount (e.g. a mission's agent payment)
+ * Decimals default to USDC's 6 - pass the paywall token's decimals for other tokens
+ */
+export function taskPricing(amount: number | string, decimals: number = 6): AgentPricing {
+  return {
+    perMessage: 0n,
+    perSession: 0n,
+    perTask: parseUnits(amount.toString(), decimals),
+  };
+}
+
+/**
+ * Resolve the chain and registered token a paywall charges in
+ */
+export function getPaywallToken<TBody>(
+  config: X402PaywallPricing<TBody>
+): { chainId: number; token: X402TokenConfig } {
+  const chainId = config.chainId || getDefaultChainId();
+
+  if (!config.token) {
+    return { chainId, token: getDefaultToken(chainId) };
+  }
+
+  const token = getTokenConfig(chainId, config.token);
+  if (!token) {
+    throw new Error(`Token ${config.token} is not registered on chain ${chainId}`);
+  }
+  return { chainId, token };
+}
+
+/**
+ * Resolve the price for a request from AgentPricing
+ */
+export async function getPaywallAmount<TBody>(config: X402PaywallPricing<TBody>, body: TBody): Promise<bigint> {
+  const pricing = typeof config.pricing === 'function' ? await config.pricing(body) : config.pricing;
+  const amount = pricing[config.charge || 'perTask'];
+
+  if (amount === undefined) {
+    throw new Error(`Agent ${config.agentId} has no ${config.charge || 'perTask'} price configured`);
+  }
+
+  return amount;
+}
+
+/**
+ * Build the X-Payment-Required payload for a request
+ */
+export async function buildPaymentRequest<TBody>(
+  config: X402PaywallPricing<TBody>,
+  body: TBody
+): Promise<X402PaymentRequest> {
+  const description = typeof config.description === 'function'
+    ? config.description(body)
+    : config.description;
+
+  const { chainId, token } = getPaywallToken(config);
+
+  return {
+    amount: (await getPaywallAmount(config, body)).toString(),
+    token: token.address,
+    recipient: config.recipient,
+    chainId,
+    decimals: token.decimals,
+    symbol: token.symbol,
+    description,
+    schemes: getSupportedSchemes(token),
+    tokenDomain: token.domain,
+  };
+}
+
+/**
+ * Run the 402 handshake for a request
+ * Returns a 402 payload, a rejection, or the verified payment (null when isPaid let it through)
+ */
+export async function processX402Payment<TBody>(
+  config: X402PaywallPricing<TBody>,
+  headers: Headers,
+  body: TBody
+): Promise<PaywallOutcome> {
+  const label = config.agentName || config.agentId;
+
+  const validationError = config.validate?.(body);
+  if (validationError) {
+    return { type: 'rejected', status: 400, body: { error: validationError } };
+  }
+
+  if (config.isPaid && (await config.isPaid(body, headers))) {
+    return { type: 'paid', payment: null };
+  }
+
+  let payment;
+  try {
+    payment = parsePaymentHeaders(headers);
+  } catch {
+    return {
+      type: 'rejected',
+      status: 400,
+      body: { error: 'Invalid payment proof', message: 'Malformed payment header' },
+    };
+  }
+
+  if (!payment) {
+    console.log(`[X402 Paywall] ${label}: no payment - returning 402 Payment Required`);
+    return {
+      type: 'payment_required',
+      paymentRequest: await buildPaymentRequest(config, body),
+      body: {
+        error: 'Payment required',
+        message: (typeof config.paymentMessage === 'function'
+          ? config.paymentMessage(body)
+          : config.paymentMessage) || 'Please provide payment to execute this task',
+        agentId: config.agentId,
+        agentName: config.agentName,
+      },
+    };
+  }
+
+  const { chainId, token } = getPaywallToken(config);
+  const redemption = await redeemPayment(payment, {
+    redeemedBy: config.agentId,
+    recipient: config.recipient,
+    minAmount: await getPaywallAmount(config, body),
+    token: token.address,
+    chainId,
+  });
+
+  if (!redemption.ok) {
+    console.error(`[X402 Paywall] ${label}: payment rejected:`, redemption.reason);
+    return {
+      type: 'rejected',
+      status: redemption.status,
+      body: { error: 'Invalid payment proof', message: redemption.reason },
+    };
+  }
+
+  console.log(`[X402 Paywall] ${label}: payment verified`, {
+    payer: redemption.payer,
+    amount: redemption.amount,
+    txHash: redemption.txHash,
+  });
+
+  return {
+    type: 'paid',
+    payment: {
+      payer: redemption.payer,
+      amount: redemption.amount,
+      txHash: redemption.txHash,
+      scheme: isPaymentAuthorization(payment) ? 'authorization' : 'exact',
+    },
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * X402 Spent Proof Ledger
+ * Records redeemed payment proofs so a single on-chain transfer
+ * can only unlock one session or task execution
+ */
+
+import type { X402PaymentProof } from './types';
+import { getDefaultChainId } from './chains';
+
+export interface SpentProofRecord {
+  tx_hash: string;
+  payer_address: string;
+  recipient_address: string;
+  token_address: string;
+  amount: string;
+  chain_id: number;
+  block_number?: string;
+  redeemed_by: string;
+  redeemed_at?: string;
+}
+
+export interface SpentProofStore {
+  /**
+   * Atomically mark a proof as spent.
+   * Resolves true if this call redeemed it, false if it was already spent.
+   */
+  claim(record: SpentProofRecord): Promise<boolean>;
+  isSpent(txHash: string): Promise<boolean>;
+}
+
+/**
+ * In-memory store (single process only - used when Supabase is not configured)
+ * The check and the insert happen in the same tick, so concurrent claims
+ * within one process cannot both succeed.
+ */
+export class InMemorySpentProofStore implements SpentProofStore {
+  private spent = new Map<string, SpentProofRecord>();
+
+  async claim(record: SpentProofRecord): Promise<boolean> {
+    const key = record.tx_hash.toLowerCase();
+    if (this.spent.has(key)) {
+      return false;
+    }
+
+    this.spent.set(key, { ...record, tx_hash: key, redeemed_at: new Date().toISOString() });
+    return true;
+  }
+
+  async isSpent(txHash: string): Promise<boolean> {
+    return this.spent.has(txHash.toLowerCase());
+  }
+
+  clear(): void {
+    this.spent.clear();
+  }
+}
+
+/**
+ * Supabase store backed by the x402_spent_proofs table
+ * tx_hash is the primary key, so the database rejects a second redemption.
+ */
+export class SupabaseSpentProofStore implements SpentProofStore {
+  async claim(record: SpentProofRecord): Promise<boolean> {
+    const { supabaseAdmin } = await import('../supabase/client');
+
+    const { error } = await supabaseAdmin
+      .from('x402_spent_proofs')
+      .insert([{ ...record, tx_hash: record.tx_hash.toLowerCase() }]);
+
+    if (error) {
+      if (error.code === '23505') return false; // Unique violation - already spent
+      throw new Error(`Failed to record spent proof: ${error.message}`);
+    }
+
+    return true;
+  }
+
+  async isSpent(txHash: string): Promise<boolean> {
+    const { supabaseAdmin } = await import('../supabase/client');
+
+    const { data, error } = await supabaseAdmin
+      .from('x402_spent_proofs')
+      .select('tx_hash')
+      .eq('tx_hash', txHash.toLowerCase())
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to look up spent proof: ${error.message}`);
+    return !!data;
+  }
+}
+
+let store: SpentProofStore | null = null;
+
+/**
+ * Get the configured spent proof store
+ * Uses Supabase when configured, otherwise falls back to process memory
+ */
+export function getSpentProofStore(): SpentProofStore {
+  if (!store) {
+    const hasSupabase = !!process.env.NEXT_PUBLIC_SUPABASE_URL && !!process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+    if (hasSupabase && process.env.X402_PROOF_STORE !== 'memory') {
+      store = new SupabaseSpentProofStore();
+    } else {
+      console.warn('[X402] Supabase not configured - spent proofs are tracked in memory only');
+      store = new InMemorySpentProofStore();
+    }
+  }
+
+  return store;
+}
+
+/**
+ * Override the spent proof store (e.g. for local scripts)
+ */
+export function setSpentProofStore(next: SpentProofStore): void {
+  store = next;
+}
+
+/**
+ * Mark a verified proof as spent
+ * Returns false if the transaction hash was already redeemed
+ */
+export async function claimPaymentProof(
+  proof: X402PaymentProof,
+  redeemedBy: string,
+  blockNumber?: bigint
+): Promise<boolean> {
+  return getSpentProofStore().claim({
+    tx_hash: proof.txHash,
+    payer_address: proof.from.toLowerCase(),
+    recipient_address: proof.to.toLowerCase(),
+    token_address: proof.token.toLowerCase(),
+    amount: proof.amount,
+    chain_id: proof.chainId ?? getDefaultChainId(),
+    block_number: blockNumber?.toString(),
+    redeemed_by: redeemedBy,
+  });
+}
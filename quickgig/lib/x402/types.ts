@@ -5,12 +5,28 @@
 
 import { Address } from 'viem';
 
+/**
+ * Supported payment schemes
+ * - exact: payer broadcasts an ERC20 transfer and sends the receipt as X-Payment-Proof
+ * - authorization: payer signs an EIP-3009 transferWithAuthorization and sends it as X-Payment
+ */
+export type X402PaymentScheme = 'exact' | 'authorization';
+
 export interface X402PaymentRequest {
   amount: string; // Amount in token base units (e.g., USDC wei)
   token: Address; // ERC20 token address
   recipient: Address; // Agent wallet receiving payment
   chainId: number; // Network chain ID
+  decimals?: number; // Token decimals, for display (defaults to the registry entry)
+  symbol?: string; // Token symbol, for display (e.g., "USDC")
   description?: string; // Optional description of what payment is for
+  schemes?: X402PaymentScheme[]; // Accepted schemes (defaults to ['exact'])
+  tokenDomain?: X402TokenDomain; // EIP-712 domain of the token, required for 'authorization'
+}
+
+export interface X402TokenDomain {
+  name: string; // EIP-712 domain name (e.g., "USDC")
+  version: string; // EIP-712 domain version (e.g., "2")
 }
 
 export interface X402PaymentProof {
@@ -19,10 +35,29 @@ export interface X402PaymentProof {
   to: Address; // Recipient address
   amount: string; // Amount paid
   token: Address; // Token used
+  chainId?: number; // Network the transfer was made on (defaults to the X402 default chain)
   timestamp: number; // When payment was made
   signature?: string; // Optional signature for verification
 }
 
+/**
+ * Signed EIP-3009 transferWithAuthorization (sent in X-Payment header)
+ */
+export interface X402PaymentAuthorization {
+  scheme: 'authorization';
+  chainId: number;
+  token: Address;
+  from: Address; // Payer (token holder)
+  to: Address; // Recipient
+  value: string; // Amount in token base units
+  validAfter: string; // Unix seconds
+  validBefore: string; // Unix seconds
+  nonce: `0x${string}`; // Random bytes32
+  signature: `0x${string}`;
+}
+
+export type X402Payment = X402PaymentProof | X402PaymentAuthorization;
+
 export interface X402Response {
   status: 402;
   paymentRequired: X402PaymentRequest;
@@ -38,9 +73,14 @@ export interface X402Session {
   expiresAt: number;
 }
 
+/**
+ * Prices are in base units of the paywall's token (USDC unless configured otherwise)
+ */
 export interface AgentPricing {
   perMessage: bigint; // Cost per message in USDC wei
   perSession: bigint; // Cost for session (30 messages)
-  perMinute?: bigint; // Optional time-based pricing
+  perMinute?: bigint; // Optional time-based pricing (metered, billed per second used)
+  perToken?: bigint; // Optional per-LLM-token pricing (metered)
+  perTask?: bigint; // Optional flat price per task execution
 }
 
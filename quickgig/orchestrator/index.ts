@@ -1,16 +1,18 @@
 /**
  * Mission Orchestrator Service
  * Coordinates multi-agent mission execution
+ * Runs the mission job worker - claims queued missions, resumes interrupted ones
+ * Runs the chain indexer - mirrors escrow contract events into Supabase
+ * Runs ERC-8004 identity reconciliation - keeps agent profiles' token links in line with the registry
+ * Runs the UMA keeper - settles expired UMA assertions and resolves the escrow disputes they back
+ * Runs the auto-release keeper - pays out submitted work the client left unreviewed past 48h
  * Runs on port 3002
  */
 
 import { config } from 'dotenv';
 import { join } from 'path';
 import express from 'express';
-import axios from 'axios';
-import { createPublicClient, createWalletClient, http, parseUnits } from 'viem';
-import { baseSepolia } from 'viem/chains';
-import { privateKeyToAccount } from 'viem/accounts';
+import type { UMAAssertionStatus } from '../lib/supabase/uma-assertions';
 
 // Load env from parent directory
 config({ path: join(__dirname, '../.env.local') });
@@ -47,67 +49,47 @@ const API_BASE = process.env.CALLBACK_BASE_URL ||
                  process.env.NEXT_PUBLIC_SITE_URL ||
                  'http://localhost:3000';
 
-// Orchestrator wallet for A2A payments (loads from PRIVATE_KEY env var)
-const ORCHESTRATOR_PRIVATE_KEY = process.env.PRIVATE_KEY as `0x${string}`;
-const USDC_ADDRESS = '0x036CbD53842c5426634e7929541eC2318f3dCF7e' as `0x${string}`;
+const LEASE_SECONDS = Number(process.env.MISSION_JOB_LEASE_SECONDS) || 60;
 
-// Viem clients for on-chain payments
-const publicClient = createPublicClient({
-  chain: baseSepolia,
-  transport: http(process.env.NEXT_PUBLIC_ALCHEMY_RPC_URL),
-});
-
-const orchestratorAccount = ORCHESTRATOR_PRIVATE_KEY
-  ? privateKeyToAccount(ORCHESTRATOR_PRIVATE_KEY)
-  : null;
+// Shared orchestration modules read env at import time, so load them after dotenv
+const loadWorker = () => import('../lib/orchestrator/worker');
+const loadJobs = () => import('../lib/supabase/mission-jobs');
+const loadIndexer = () => import('../lib/indexer/indexer');
+const loadChainIndex = () => import('../lib/supabase/chain-index');
+const loadIdentitySync = () => import('../lib/erc8004/identity-sync');
+const loadUMAKeeper = () => import('../lib/uma/keeper');
+const loadUMAAssertions = () => import('../lib/supabase/uma-assertions');
+const loadAutoReleaseKeeper = () => import('../lib/auto-release/keeper');
 
-const walletClient = orchestratorAccount
-  ? createWalletClient({
-      account: orchestratorAccount,
-      chain: baseSepolia,
-      transport: http(process.env.NEXT_PUBLIC_ALCHEMY_RPC_URL),
-    })
-  : null;
+const UMA_STATUSES: UMAAssertionStatus[] = ['open', 'disputed', 'settled', 'resolved'];
 
-interface SubAgent {
-  agentId: string;
-  name: string;
-  address: string;
-  endpoint: string;
-  capability: string;
-  payment: number;
-}
-
-interface MissionPayload {
-  missionId: string;
-  description: string;
-  subAgents: SubAgent[];
-  orchestrationMode: 'sequential' | 'parallel';
-  totalBudget: number;
-  requirements: any;
-}
+let worker: { workerId: string; stop: () => Promise<void> } | null = null;
+let indexer: { stop: () => Promise<void> } | null = null;
+let identitySync: { stop: () => Promise<void> } | null = null;
+let umaKeeper: { stop: () => Promise<void> } | null = null;
+let autoReleaseKeeper: { stop: () => Promise<void> } | null = null;
 
 /**
  * Execute mission endpoint
+ * Queues the mission - the worker picks it up on its next poll
  */
 app.post('/execute', async (req, res) => {
-  const payload: MissionPayload = req.body;
+  const payload = req.body;
 
   console.log('[Orchestrator] Received mission:', payload.missionId);
   console.log('[Orchestrator] Mode:', payload.orchestrationMode);
-  console.log('[Orchestrator] Agents:', payload.subAgents.length);
+  console.log('[Orchestrator] Agents:', payload.subAgents?.length);
 
   try {
-    if (payload.orchestrationMode === 'sequential') {
-      await executeSequential(payload);
-    } else {
-      await executeParallel(payload);
-    }
+    const { enqueueMissionJob } = await loadJobs();
+    const job = await enqueueMissionJob(payload);
 
     res.json({
       success: true,
-      message: 'Mission execution started',
+      message: 'Mission execution queued',
       missionId: payload.missionId,
+      jobId: job.id,
+      jobStatus: job.status,
     });
   } catch (error) {
     console.error('[Orchestrator] Error:', error);
@@ -119,195 +101,58 @@ app.post('/execute', async (req, res) => {
 });
 
 /**
- * Execute agents sequentially
+ * Mission job status
  */
-async function executeSequential(payload: MissionPayload) {
-  console.log('[Orchestrator] Starting sequential execution...');
-
-  for (let i = 0; i < payload.subAgents.length; i++) {
-    const agent = payload.subAgents[i];
-    console.log(`[Orchestrator] Executing agent ${i + 1}/${payload.subAgents.length}: ${agent.name}`);
+app.get('/jobs/:missionId', async (req, res) => {
+  try {
+    const { getMissionJob, getMissionCheckpoints } = await loadJobs();
+    const job = await getMissionJob(req.params.missionId);
 
-    try {
-      await executeAgent(payload.missionId, agent, payload.description, payload.requirements);
-      console.log(`[Orchestrator] Agent ${agent.name} completed`);
-    } catch (error) {
-      console.error(`[Orchestrator] Agent ${agent.name} failed:`, error);
-      throw error;
+    if (!job) {
+      return res.status(404).json({ error: 'Mission job not found' });
     }
-  }
 
-  console.log('[Orchestrator] Sequential execution complete');
-}
-
-/**
- * Execute agents in parallel
- */
-async function executeParallel(payload: MissionPayload) {
-  console.log('[Orchestrator] Starting parallel execution...');
-
-  const promises = payload.subAgents.map((agent) =>
-    executeAgent(payload.missionId, agent, payload.description, payload.requirements)
-  );
-
-  await Promise.all(promises);
-
-  console.log('[Orchestrator] Parallel execution complete');
-}
+    const checkpoints = await getMissionCheckpoints(req.params.missionId);
+    res.json({ success: true, job, checkpoints });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
 
 /**
- * Execute single agent with X402 A2A payment support
+ * Chain indexer progress per contract
  */
-async function executeAgent(
-  missionId: string,
-  agent: SubAgent,
-  description: string,
-  requirements: any
-) {
-  console.log(`[Orchestrator] Calling agent ${agent.name} at ${agent.endpoint}`);
-
+app.get('/indexer', async (req, res) => {
   try {
-    // First request - agent may return 402 Payment Required
-    let response = await axios.post(
-      agent.endpoint,
-      {
-        missionId,
-        agentId: agent.agentId,
-        description,
-        capability: agent.capability,
-        payment: agent.payment,
-        requirements,
-        callbackUrl: `${API_BASE}/api/missions/${missionId}/update`,
-      },
-      {
-        timeout: 120000,
-        validateStatus: (status) => status < 500, // Accept 402 status
-      }
-    );
-
-    // Handle X402 Payment Required response
-    if (response.status === 402) {
-      console.log(`[Orchestrator] Agent ${agent.name} requires payment (402)`);
-
-      const paymentRequired = response.headers['x-payment-required'];
-      if (!paymentRequired) {
-        throw new Error('Agent returned 402 but missing X-Payment-Required header');
-      }
-
-      const paymentRequest = JSON.parse(paymentRequired);
-      console.log(`[Orchestrator] Payment request:`, {
-        amount: paymentRequest.amount,
-        recipient: paymentRequest.recipient,
-        token: paymentRequest.token,
-      });
-
-      // Execute A2A payment
-      const paymentProof = await executeA2APayment(
-        paymentRequest.recipient,
-        paymentRequest.amount,
-        paymentRequest.token
-      );
-
-      console.log(`[Orchestrator] Payment completed, retrying with proof...`);
-
-      // Retry request with payment proof
-      response = await axios.post(
-        agent.endpoint,
-        {
-          missionId,
-          agentId: agent.agentId,
-          description,
-          capability: agent.capability,
-          payment: agent.payment,
-          requirements,
-          callbackUrl: `${API_BASE}/api/missions/${missionId}/update`,
-        },
-        {
-          headers: {
-            'X-Payment-Proof': JSON.stringify(paymentProof),
-          },
-          timeout: 120000,
-        }
-      );
-    }
-
-    console.log(`[Orchestrator] Agent ${agent.name} response:`, response.data);
-    return response.data;
+    const { listIndexerCursors } = await loadChainIndex();
+    res.json({ success: true, running: !!indexer, cursors: await listIndexerCursors() });
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      console.error(`[Orchestrator] Agent ${agent.name} HTTP error:`, {
-        status: error.response?.status,
-        message: error.message,
-      });
-    } else {
-      console.error(`[Orchestrator] Agent ${agent.name} error:`, error);
-    }
-    throw error;
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
   }
-}
+});
 
 /**
- * Execute Agent-to-Agent payment via X402
+ * UMA assertions the keeper tracks, newest first (?status=open|disputed|settled|resolved)
  */
-async function executeA2APayment(
-  recipient: string,
-  amount: string,
-  token: string
-): Promise<any> {
-  if (!walletClient || !orchestratorAccount) {
-    throw new Error('Orchestrator wallet not configured');
+app.get('/uma', async (req, res) => {
+  try {
+    const { listUMAAssertions } = await loadUMAAssertions();
+    const status = UMA_STATUSES.find((s) => s === req.query.status);
+    const assertions = await listUMAAssertions({ status });
+    res.json({ success: true, running: !!umaKeeper, assertions });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
   }
-
-  console.log(`[Orchestrator] Executing A2A payment:`, {
-    from: orchestratorAccount.address,
-    to: recipient,
-    amount,
-    token,
-  });
-
-  // ERC20 Transfer ABI
-  const transferAbi = [
-    {
-      name: 'transfer',
-      type: 'function',
-      stateMutability: 'nonpayable',
-      inputs: [
-        { name: 'to', type: 'address' },
-        { name: 'amount', type: 'uint256' },
-      ],
-      outputs: [{ name: '', type: 'bool' }],
-    },
-  ] as const;
-
-  // Execute USDC transfer
-  const txHash = await walletClient.writeContract({
-    address: token as `0x${string}`,
-    abi: transferAbi,
-    functionName: 'transfer',
-    args: [recipient as `0x${string}`, BigInt(amount)],
-    chain: baseSepolia,
-    account: orchestratorAccount,
-  });
-
-  console.log(`[Orchestrator] Payment transaction:`, txHash);
-
-  // Wait for confirmation
-  const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
-  console.log(`[Orchestrator] Payment confirmed in block:`, receipt.blockNumber);
-
-  // Create payment proof for X402
-  const paymentProof = {
-    from: orchestratorAccount.address,
-    to: recipient,
-    amount,
-    token,
-    txHash,
-    blockNumber: receipt.blockNumber.toString(),
-    timestamp: Math.floor(Date.now() / 1000),
-  };
-
-  return paymentProof;
-}
+});
 
 /**
  * Health check
@@ -316,14 +161,50 @@ app.get('/health', (req, res) => {
   res.json({
     status: 'ok',
     service: 'orchestrator',
+    workerId: worker?.workerId,
     timestamp: new Date().toISOString(),
   });
 });
 
+/**
+ * Stop taking jobs and let the current one finish
+ */
+async function shutdown(signal: string) {
+  console.log(`[Orchestrator] ${signal} received, stopping worker...`);
+  await Promise.all([worker?.stop(), indexer?.stop(), identitySync?.stop(), umaKeeper?.stop(), autoReleaseKeeper?.stop()]);
+  process.exit(0);
+}
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+
 /**
  * Start server
  */
-app.listen(PORT, () => {
+app.listen(PORT, async () => {
   console.log(`[Orchestrator] Running on http://localhost:${PORT}`);
   console.log(`[Orchestrator] API Base: ${API_BASE}`);
+
+  const { startMissionWorker } = await loadWorker();
+  worker = startMissionWorker({ leaseSeconds: LEASE_SECONDS });
+
+  if (process.env.CHAIN_INDEXER_ENABLED !== 'false') {
+    const { startChainIndexer } = await loadIndexer();
+    indexer = startChainIndexer();
+  }
+
+  if (process.env.ERC8004_RECONCILE_ENABLED !== 'false') {
+    const { startIdentityReconciler } = await loadIdentitySync();
+    identitySync = startIdentityReconciler();
+  }
+
+  if (process.env.UMA_KEEPER_ENABLED !== 'false') {
+    const { startUMAKeeper } = await loadUMAKeeper();
+    umaKeeper = startUMAKeeper();
+  }
+
+  if (process.env.AUTO_RELEASE_ENABLED !== 'false') {
+    const { startAutoReleaseKeeper } = await loadAutoReleaseKeeper();
+    autoReleaseKeeper = startAutoReleaseKeeper();
+  }
 });
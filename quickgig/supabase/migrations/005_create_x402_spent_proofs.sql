@@ -0,0 +1,35 @@
+-- Migration 005: X402 Spent Proof Ledger
+-- Created: 2025-10-24
+-- Purpose: Record every redeemed X402 payment proof so one transfer can only unlock one session/task
+
+-- ============================================================================
+-- 1. SPENT PROOFS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS x402_spent_proofs (
+  tx_hash TEXT PRIMARY KEY, -- Lowercased; the primary key makes redemption atomic
+  payer_address TEXT NOT NULL,
+  recipient_address TEXT NOT NULL,
+  token_address TEXT NOT NULL,
+  amount DECIMAL(78,0) NOT NULL CHECK (amount >= 0), -- Token base units
+  chain_id INTEGER NOT NULL,
+  block_number BIGINT,
+  redeemed_by TEXT NOT NULL, -- Route or agent that accepted the proof
+  redeemed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_x402_spent_proofs_payer ON x402_spent_proofs(payer_address);
+CREATE INDEX IF NOT EXISTS idx_x402_spent_proofs_recipient ON x402_spent_proofs(recipient_address);
+CREATE INDEX IF NOT EXISTS idx_x402_spent_proofs_redeemed ON x402_spent_proofs(redeemed_at DESC);
+
+-- ============================================================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE x402_spent_proofs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to x402_spent_proofs"
+  ON x402_spent_proofs FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE x402_spent_proofs IS 'Ledger of redeemed X402 payment proofs (replay protection)';
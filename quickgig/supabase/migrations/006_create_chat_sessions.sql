@@ -0,0 +1,81 @@
+-- Migration 006: Persistent X402 Chat Sessions
+-- Created: 2025-10-25
+-- Purpose: Store paid chat sessions and messages in Supabase so they survive
+--          cold starts and are shared between instances (lib/storage/session-store.ts)
+
+-- ============================================================================
+-- 1. CHAT SESSIONS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS chat_sessions (
+  session_id TEXT PRIMARY KEY,
+  user_address TEXT NOT NULL,
+  agent_id TEXT NOT NULL,
+  messages_remaining INTEGER NOT NULL DEFAULT 0 CHECK (messages_remaining >= 0),
+  total_paid DECIMAL(78,0) NOT NULL DEFAULT 0, -- USDC base units
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_user ON chat_sessions(user_address);
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_expires ON chat_sessions(expires_at);
+
+CREATE TRIGGER update_chat_sessions_updated_at
+  BEFORE UPDATE ON chat_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. CHAT MESSAGES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS chat_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id TEXT NOT NULL REFERENCES chat_sessions(session_id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant', 'system')),
+  content TEXT NOT NULL,
+  metadata JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_session ON chat_messages(session_id, created_at);
+
+-- ============================================================================
+-- 3. ATOMIC MESSAGE DECREMENT
+-- ============================================================================
+
+-- Use one message from a session in a single statement
+-- Returns the updated session, or no row if it is missing, expired or exhausted
+CREATE OR REPLACE FUNCTION use_chat_session_message(p_session_id TEXT)
+RETURNS SETOF chat_sessions AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE chat_sessions
+  SET messages_remaining = messages_remaining - 1
+  WHERE session_id = p_session_id
+    AND messages_remaining > 0
+    AND expires_at > NOW()
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION use_chat_session_message IS 'Atomically decrement messages_remaining for an active session';
+
+-- ============================================================================
+-- 4. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE chat_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chat_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to chat_sessions"
+  ON chat_sessions FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role has full access to chat_messages"
+  ON chat_messages FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE chat_sessions IS 'Paid X402 chat sessions (message allowance per payment)';
+COMMENT ON TABLE chat_messages IS 'Chat history for X402 sessions';
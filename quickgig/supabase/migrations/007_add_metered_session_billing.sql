@@ -0,0 +1,178 @@
+-- Migration 007: Metered X402 Session Billing
+-- Created: 2025-10-26
+-- Purpose: Prepaid balances on chat sessions, debited per token / second consumed,
+--          with a ledger of every movement and carry-over credit between sessions
+
+-- ============================================================================
+-- 1. SESSION BALANCE
+-- ============================================================================
+
+ALTER TABLE chat_sessions
+  ADD COLUMN IF NOT EXISTS billing_mode TEXT NOT NULL DEFAULT 'messages'
+    CHECK (billing_mode IN ('messages', 'metered')),
+  ADD COLUMN IF NOT EXISTS balance DECIMAL(78,0) NOT NULL DEFAULT 0 CHECK (balance >= 0); -- Token base units
+
+-- ============================================================================
+-- 2. LEDGER
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS chat_session_ledger (
+  id BIGSERIAL PRIMARY KEY,
+  session_id TEXT NOT NULL REFERENCES chat_sessions(session_id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('deposit', 'debit', 'refund', 'carry_over_in', 'carry_over_out')),
+  amount DECIMAL(78,0) NOT NULL CHECK (amount >= 0),
+  unit TEXT, -- 'token' | 'second' for debits
+  quantity NUMERIC,
+  balance_after DECIMAL(78,0) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_session_ledger_session ON chat_session_ledger(session_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_chat_session_ledger_refunds ON chat_session_ledger(kind) WHERE kind = 'refund';
+
+-- Balance carried over from closed sessions, claimed by the payer's next metered session
+CREATE TABLE IF NOT EXISTS chat_carry_over_credits (
+  user_address TEXT NOT NULL,
+  agent_id TEXT NOT NULL,
+  amount DECIMAL(78,0) NOT NULL DEFAULT 0 CHECK (amount >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (user_address, agent_id)
+);
+
+-- ============================================================================
+-- 3. ATOMIC BALANCE FUNCTIONS
+-- ============================================================================
+
+-- Add to a session balance ('deposit' or 'carry_over_in')
+CREATE OR REPLACE FUNCTION credit_chat_session(p_session_id TEXT, p_amount DECIMAL, p_kind TEXT)
+RETURNS SETOF chat_sessions AS $$
+DECLARE
+  v_session chat_sessions;
+BEGIN
+  UPDATE chat_sessions
+  SET balance = balance + p_amount
+  WHERE session_id = p_session_id
+  RETURNING * INTO v_session;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO chat_session_ledger (session_id, kind, amount, balance_after)
+  VALUES (p_session_id, p_kind, p_amount, v_session.balance);
+
+  RETURN NEXT v_session;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Debit up to p_amount from an active session (never below zero)
+CREATE OR REPLACE FUNCTION debit_chat_session(
+  p_session_id TEXT,
+  p_amount DECIMAL,
+  p_unit TEXT DEFAULT NULL,
+  p_quantity NUMERIC DEFAULT NULL
+)
+RETURNS TABLE (session JSONB, debited DECIMAL) AS $$
+DECLARE
+  v_balance DECIMAL;
+  v_debited DECIMAL;
+  v_session chat_sessions;
+BEGIN
+  SELECT balance INTO v_balance
+  FROM chat_sessions
+  WHERE session_id = p_session_id
+    AND expires_at > NOW()
+    AND balance > 0
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  v_debited := LEAST(v_balance, p_amount);
+
+  UPDATE chat_sessions
+  SET balance = balance - v_debited
+  WHERE session_id = p_session_id
+  RETURNING * INTO v_session;
+
+  INSERT INTO chat_session_ledger (session_id, kind, amount, unit, quantity, balance_after)
+  VALUES (p_session_id, 'debit', v_debited, p_unit, p_quantity, v_session.balance);
+
+  RETURN QUERY SELECT to_jsonb(v_session), v_debited;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Release a session's whole balance ('refund' or 'carry_over_out'), also after expiry
+CREATE OR REPLACE FUNCTION close_chat_session_balance(p_session_id TEXT, p_kind TEXT)
+RETURNS TABLE (session JSONB, amount DECIMAL) AS $$
+DECLARE
+  v_amount DECIMAL;
+  v_session chat_sessions;
+BEGIN
+  SELECT balance INTO v_amount
+  FROM chat_sessions
+  WHERE session_id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE chat_sessions
+  SET balance = 0,
+      expires_at = LEAST(expires_at, NOW())
+  WHERE session_id = p_session_id
+  RETURNING * INTO v_session;
+
+  IF v_amount > 0 THEN
+    INSERT INTO chat_session_ledger (session_id, kind, amount, balance_after)
+    VALUES (p_session_id, p_kind, v_amount, 0);
+  END IF;
+
+  RETURN QUERY SELECT to_jsonb(v_session), v_amount;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add carried-over balance for a payer
+CREATE OR REPLACE FUNCTION add_chat_carry_over(p_user_address TEXT, p_agent_id TEXT, p_amount DECIMAL)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO chat_carry_over_credits (user_address, agent_id, amount)
+  VALUES (LOWER(p_user_address), p_agent_id, p_amount)
+  ON CONFLICT (user_address, agent_id)
+  DO UPDATE SET amount = chat_carry_over_credits.amount + EXCLUDED.amount, updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql;
+
+-- Take (and clear) a payer's carried-over balance
+CREATE OR REPLACE FUNCTION claim_chat_carry_over(p_user_address TEXT, p_agent_id TEXT)
+RETURNS DECIMAL AS $$
+DECLARE
+  v_amount DECIMAL;
+BEGIN
+  DELETE FROM chat_carry_over_credits
+  WHERE user_address = LOWER(p_user_address) AND agent_id = p_agent_id
+  RETURNING amount INTO v_amount;
+
+  RETURN COALESCE(v_amount, 0);
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- 4. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE chat_session_ledger ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chat_carry_over_credits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to chat_session_ledger"
+  ON chat_session_ledger FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role has full access to chat_carry_over_credits"
+  ON chat_carry_over_credits FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE chat_session_ledger IS 'Every credit, debit, refund and carry-over of metered session balances';
+COMMENT ON TABLE chat_carry_over_credits IS 'Unused metered balance waiting for the payer''s next session';
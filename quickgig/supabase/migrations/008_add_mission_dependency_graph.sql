@@ -0,0 +1,26 @@
+-- Migration 008: Mission Dependency Graph
+-- Created: 2025-10-27
+-- Purpose: Allow 'dag' orchestration, where each mission agent lists the agents whose outputs it consumes
+
+-- ============================================================================
+-- 1. UPDATE MISSIONS ORCHESTRATION_MODE CONSTRAINT
+-- ============================================================================
+
+ALTER TABLE missions DROP CONSTRAINT IF EXISTS missions_orchestration_mode_check;
+
+ALTER TABLE missions ADD CONSTRAINT missions_orchestration_mode_check
+CHECK (orchestration_mode IN ('sequential', 'parallel', 'dag'));
+
+-- ============================================================================
+-- 2. MISSION AGENT DEPENDENCIES
+-- ============================================================================
+
+ALTER TABLE mission_agents
+  ADD COLUMN IF NOT EXISTS depends_on TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN mission_agents.depends_on IS 'Agent IDs in the same mission that must complete first (dag mode)';
+COMMENT ON COLUMN mission_agents.position IS 'Execution order - sequential index, or topological order in dag mode';
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
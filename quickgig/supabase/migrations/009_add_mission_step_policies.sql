@@ -0,0 +1,80 @@
+-- Migration 009: Mission Step Policies
+-- Created: 2025-10-27
+-- Purpose: Retry / timeout / fallback policies per mission agent, and the execution and
+--          timeline records needed to audit every attempt
+
+-- ============================================================================
+-- 1. MISSION AGENT POLICY
+-- ============================================================================
+
+ALTER TABLE mission_agents
+  ADD COLUMN IF NOT EXISTS policy JSONB;
+
+COMMENT ON COLUMN mission_agents.policy IS 'Step policy: maxRetries, backoffMs, timeoutMs, fallbackAgentIds, maxFallbacks, continueOnFailure';
+
+-- ============================================================================
+-- 2. EXECUTION ATTEMPTS AND FALLBACKS
+-- ============================================================================
+
+ALTER TABLE mission_executions
+  ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS fallback_for TEXT REFERENCES agent_profiles(id),
+  ADD COLUMN IF NOT EXISTS optional BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE mission_executions DROP CONSTRAINT IF EXISTS mission_executions_status_check;
+
+ALTER TABLE mission_executions ADD CONSTRAINT mission_executions_status_check
+CHECK (status IN (
+  'pending',
+  'executing',
+  'completed',
+  'failed',
+  'skipped',   -- Never ran: an upstream step failed or the mission was aborted
+  'replaced'   -- Failed and handed over to a fallback agent
+));
+
+COMMENT ON COLUMN mission_executions.attempts IS 'Number of times the agent was called for this step';
+COMMENT ON COLUMN mission_executions.fallback_for IS 'Agent whose failed step this execution took over';
+COMMENT ON COLUMN mission_executions.optional IS 'Step runs with continueOnFailure - its failure does not fail the mission';
+
+-- ============================================================================
+-- 3. UPDATE MISSION_TIMELINE EVENT_TYPE CONSTRAINT
+-- ============================================================================
+
+ALTER TABLE mission_timeline DROP CONSTRAINT IF EXISTS mission_timeline_event_type_check;
+
+ALTER TABLE mission_timeline ADD CONSTRAINT mission_timeline_event_type_check
+CHECK (event_type IN (
+  -- Mission lifecycle (migration 004)
+  'created',
+  'funded',
+  'started',
+  'submitted',
+  'validation_requested',
+  'validation_completed',
+  'dispute_initiated',
+  'dispute_resolved',
+  'approved',
+  'rejected',
+  'auto_released',
+  'completed',
+  'cancelled',
+  'pending',
+  'in_progress',
+  'validating',
+  'disputing',
+  'failed',
+
+  -- Agent steps
+  'step_started',
+  'step_completed',
+  'step_failed',
+  'step_timed_out',
+  'step_retry',
+  'step_fallback',
+  'step_skipped'
+));
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
@@ -0,0 +1,155 @@
+-- Migration 010: Durable Mission Job Queue
+-- Created: 2025-10-28
+-- Purpose: Persist mission orchestration as leased jobs so a worker can resume it after a
+--          restart, with per-step checkpoints that stop agents from being paid twice
+
+-- ============================================================================
+-- 1. MISSION JOBS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS mission_jobs (
+  id BIGSERIAL PRIMARY KEY,
+  mission_id TEXT NOT NULL UNIQUE REFERENCES missions(id) ON DELETE CASCADE,
+  payload JSONB NOT NULL, -- Orchestrator MissionPayload
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0, -- Times a worker has claimed the job
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  lease_owner TEXT, -- Worker currently holding the job
+  lease_expires_at TIMESTAMP WITH TIME ZONE,
+  heartbeat_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_mission_jobs_claimable ON mission_jobs(status, lease_expires_at)
+  WHERE status IN ('queued', 'running');
+
+CREATE TRIGGER update_mission_jobs_updated_at
+  BEFORE UPDATE ON mission_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. STEP CHECKPOINTS
+-- ============================================================================
+
+-- One row per call to an agent (step attempt), advanced as the attempt progresses:
+-- paying -> paid -> accepted -> delivered (or failed)
+CREATE TABLE IF NOT EXISTS mission_step_checkpoints (
+  mission_id TEXT NOT NULL REFERENCES missions(id) ON DELETE CASCADE,
+  step_agent_id TEXT NOT NULL, -- Mission agent that owns the step
+  agent_id TEXT NOT NULL, -- Agent called (differs from step_agent_id for fallbacks)
+  attempt INTEGER NOT NULL,
+  state TEXT NOT NULL CHECK (state IN ('paying', 'paid', 'accepted', 'delivered', 'failed')),
+  payment JSONB, -- X402 payment proof or signed authorization sent to the agent
+  output JSONB, -- Deliverable passed on to dependent steps
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (mission_id, step_agent_id, agent_id, attempt)
+);
+
+CREATE TRIGGER update_mission_step_checkpoints_updated_at
+  BEFORE UPDATE ON mission_step_checkpoints
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 3. LEASE FUNCTIONS
+-- ============================================================================
+
+-- Claim the oldest queued job, or a running job whose worker stopped heartbeating
+-- (optionally only a given mission's job)
+CREATE OR REPLACE FUNCTION claim_mission_job(p_worker TEXT, p_lease_seconds INTEGER, p_mission_id TEXT DEFAULT NULL)
+RETURNS SETOF mission_jobs AS $$
+DECLARE
+  v_job mission_jobs;
+BEGIN
+  -- Jobs that keep losing their worker are given up on
+  UPDATE mission_jobs
+  SET status = 'failed',
+      last_error = COALESCE(last_error, 'Lease expired too many times'),
+      lease_owner = NULL,
+      completed_at = NOW()
+  WHERE status = 'running'
+    AND lease_expires_at < NOW()
+    AND attempts >= max_attempts;
+
+  SELECT * INTO v_job
+  FROM mission_jobs
+  WHERE (status = 'queued' OR (status = 'running' AND lease_expires_at < NOW()))
+    AND (p_mission_id IS NULL OR mission_id = p_mission_id)
+  ORDER BY created_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE mission_jobs
+  SET status = 'running',
+      attempts = attempts + 1,
+      lease_owner = p_worker,
+      lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+      heartbeat_at = NOW()
+  WHERE id = v_job.id
+  RETURNING * INTO v_job;
+
+  RETURN NEXT v_job;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Extend a lease, returns false if the worker no longer holds it
+CREATE OR REPLACE FUNCTION heartbeat_mission_job(p_job_id BIGINT, p_worker TEXT, p_lease_seconds INTEGER)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE mission_jobs
+  SET lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+      heartbeat_at = NOW()
+  WHERE id = p_job_id
+    AND lease_owner = p_worker
+    AND status = 'running';
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Finish a job held by the worker ('completed' or 'failed')
+CREATE OR REPLACE FUNCTION finish_mission_job(p_job_id BIGINT, p_worker TEXT, p_status TEXT, p_error TEXT DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE mission_jobs
+  SET status = p_status,
+      last_error = p_error,
+      lease_owner = NULL,
+      lease_expires_at = NULL,
+      completed_at = NOW()
+  WHERE id = p_job_id
+    AND lease_owner = p_worker
+    AND status = 'running';
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- 4. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE mission_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE mission_step_checkpoints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to mission_jobs"
+  ON mission_jobs FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role has full access to mission_step_checkpoints"
+  ON mission_step_checkpoints FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE mission_jobs IS 'Leased mission orchestration jobs - survive serverless restarts';
+COMMENT ON TABLE mission_step_checkpoints IS 'Progress of every agent call, so resumed missions never pay or run a step twice';
+COMMENT ON COLUMN mission_jobs.lease_expires_at IS 'Another worker may take the job over once this passes';
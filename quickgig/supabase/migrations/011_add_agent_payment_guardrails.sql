@@ -0,0 +1,155 @@
+-- Migration 011: Agent Payment Guardrails
+-- Created: 2025-10-29
+-- Purpose: Record every orchestrator -> agent payment attempt (including rejected ones),
+--          reserve spend against mission budgets and daily caps atomically, and queue
+--          payments above the approval threshold for a human decision
+
+-- ============================================================================
+-- 1. PAYMENT ATTEMPTS
+-- ============================================================================
+
+-- Rejected, pending and authorization payments have no transaction hash (UNIQUE still applies to the rest)
+ALTER TABLE payment_transactions ALTER COLUMN tx_hash DROP NOT NULL;
+
+ALTER TABLE payment_transactions
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'confirmed'
+    CHECK (status IN (
+      'pending_approval', -- Above the approval threshold, waiting in payment_approvals
+      'reserved',         -- Passed the guardrails, counted against budgets while it is sent
+      'confirmed',        -- Paid (transfer confirmed or authorization handed to the agent)
+      'rejected',         -- Blocked by a guardrail or an approver
+      'failed'            -- Sending failed, nothing was paid
+    )),
+  ADD COLUMN IF NOT EXISTS reason TEXT; -- Why a payment was rejected or failed
+
+CREATE INDEX IF NOT EXISTS idx_payment_transactions_a2a_spend
+  ON payment_transactions(from_address, timestamp DESC)
+  WHERE purpose = 'agent_to_agent' AND status IN ('reserved', 'confirmed');
+
+COMMENT ON COLUMN payment_transactions.status IS 'Lifecycle of the payment attempt - only reserved and confirmed count as spent';
+COMMENT ON COLUMN payment_transactions.reason IS 'Guardrail or approver reason for rejected payments, error for failed ones';
+
+-- ============================================================================
+-- 2. APPROVAL QUEUE
+-- ============================================================================
+
+-- One request per step attempt, so a resumed mission waits on the same approval
+CREATE TABLE IF NOT EXISTS payment_approvals (
+  id BIGSERIAL PRIMARY KEY,
+  payment_id BIGINT NOT NULL REFERENCES payment_transactions(id) ON DELETE CASCADE,
+  mission_id TEXT NOT NULL REFERENCES missions(id) ON DELETE CASCADE,
+  step_agent_id TEXT NOT NULL,
+  agent_id TEXT NOT NULL,
+  attempt INTEGER NOT NULL,
+  amount DECIMAL(18,6) NOT NULL CHECK (amount >= 0),
+  to_address TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'expired')),
+  reason TEXT,
+  decided_by TEXT,
+  decided_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (mission_id, step_agent_id, agent_id, attempt)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_approvals_pending ON payment_approvals(created_at)
+  WHERE status = 'pending';
+
+CREATE TRIGGER update_payment_approvals_updated_at
+  BEFORE UPDATE ON payment_approvals
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 3. SPEND RESERVATION
+-- ============================================================================
+
+-- Check a payment against the mission budget and the payer's rolling 24h caps (overall and
+-- per recipient) and record it as 'reserved', or 'rejected' with the reason. A NULL limit
+-- means no limit. Payments from one wallet are serialized so parallel steps can't overspend.
+-- Pass p_payment_id to settle an existing 'pending_approval' row instead of inserting one.
+CREATE OR REPLACE FUNCTION reserve_agent_payment(
+  p_mission_id TEXT,
+  p_from TEXT,
+  p_to TEXT,
+  p_amount DECIMAL,
+  p_token TEXT,
+  p_mission_budget DECIMAL,
+  p_daily_cap DECIMAL,
+  p_recipient_cap DECIMAL,
+  p_metadata JSONB DEFAULT NULL,
+  p_payment_id BIGINT DEFAULT NULL
+)
+RETURNS SETOF payment_transactions AS $$
+DECLARE
+  v_mission_spent DECIMAL;
+  v_daily_spent DECIMAL;
+  v_recipient_spent DECIMAL;
+  v_reason TEXT;
+  v_payment payment_transactions;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(lower(p_from)));
+
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE mission_id = p_mission_id), 0),
+    COALESCE(SUM(amount) FILTER (WHERE timestamp > NOW() - INTERVAL '24 hours'), 0),
+    COALESCE(SUM(amount) FILTER (WHERE timestamp > NOW() - INTERVAL '24 hours' AND lower(to_address) = lower(p_to)), 0)
+  INTO v_mission_spent, v_daily_spent, v_recipient_spent
+  FROM payment_transactions
+  WHERE purpose = 'agent_to_agent'
+    AND status IN ('reserved', 'confirmed')
+    AND lower(from_address) = lower(p_from)
+    AND (p_payment_id IS NULL OR id <> p_payment_id);
+
+  IF p_mission_budget IS NOT NULL AND v_mission_spent + p_amount > p_mission_budget THEN
+    v_reason := format('Mission budget exceeded: %s already spent of %s', v_mission_spent, p_mission_budget);
+  ELSIF p_daily_cap IS NOT NULL AND v_daily_spent + p_amount > p_daily_cap THEN
+    v_reason := format('Daily spend cap exceeded: %s spent in the last 24h, cap %s', v_daily_spent, p_daily_cap);
+  ELSIF p_recipient_cap IS NOT NULL AND v_recipient_spent + p_amount > p_recipient_cap THEN
+    v_reason := format('Recipient daily cap exceeded: %s paid to %s in the last 24h, cap %s', v_recipient_spent, p_to, p_recipient_cap);
+  END IF;
+
+  IF p_payment_id IS NOT NULL THEN
+    UPDATE payment_transactions
+    SET status = CASE WHEN v_reason IS NULL THEN 'reserved' ELSE 'rejected' END,
+        reason = v_reason,
+        metadata = COALESCE(metadata, '{}'::jsonb) || COALESCE(p_metadata, '{}'::jsonb)
+    WHERE id = p_payment_id
+      AND status = 'pending_approval'
+    RETURNING * INTO v_payment;
+
+    IF NOT FOUND THEN
+      RETURN;
+    END IF;
+  ELSE
+    INSERT INTO payment_transactions (
+      mission_id, from_address, to_address, amount, token_address, purpose, status, reason, metadata
+    )
+    VALUES (
+      p_mission_id, p_from, p_to, p_amount, p_token, 'agent_to_agent',
+      CASE WHEN v_reason IS NULL THEN 'reserved' ELSE 'rejected' END,
+      v_reason, p_metadata
+    )
+    RETURNING * INTO v_payment;
+  END IF;
+
+  RETURN NEXT v_payment;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- 4. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE payment_approvals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to payment_approvals"
+  ON payment_approvals FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE payment_approvals IS 'Agent payments above the approval threshold, waiting for a human decision';
+COMMENT ON COLUMN payment_approvals.payment_id IS 'payment_transactions row that is reserved (or rejected) once decided';
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
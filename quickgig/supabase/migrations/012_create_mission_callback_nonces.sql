@@ -0,0 +1,32 @@
+-- Migration 012: Signed Mission Callbacks
+-- Created: 2025-10-30
+-- Purpose: Record the nonce of every accepted agent status callback so a signed
+--          callback can't be replayed against /api/missions/[missionId]/update
+
+-- ============================================================================
+-- 1. CALLBACK NONCES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS mission_callback_nonces (
+  signer_address TEXT NOT NULL, -- Lowercased agent wallet that signed the callback
+  nonce TEXT NOT NULL, -- bytes32 hex; the primary key makes acceptance atomic
+  mission_id TEXT NOT NULL REFERENCES missions(id) ON DELETE CASCADE,
+  agent_id TEXT NOT NULL,
+  status TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (signer_address, nonce)
+);
+
+CREATE INDEX IF NOT EXISTS idx_mission_callback_nonces_mission ON mission_callback_nonces(mission_id);
+
+-- ============================================================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE mission_callback_nonces ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to mission_callback_nonces"
+  ON mission_callback_nonces FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE mission_callback_nonces IS 'Nonces of accepted signed agent callbacks (replay protection)';
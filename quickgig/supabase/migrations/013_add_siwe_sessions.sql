@@ -0,0 +1,56 @@
+-- Migration 013: Sign-In with Ethereum Sessions
+-- Created: 2025-10-31
+-- Purpose: Single-use SIWE (EIP-4361) login nonces, and RLS policies that match the
+--          wallet address in the session JWT (sub) regardless of address casing
+
+-- ============================================================================
+-- 1. SIWE NONCES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS siwe_nonces (
+  nonce TEXT PRIMARY KEY,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE, -- Set when a login consumed it
+  used_by TEXT, -- Address that signed in with it
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_siwe_nonces_expires ON siwe_nonces(expires_at);
+
+-- Use a nonce exactly once, before it expires
+CREATE OR REPLACE FUNCTION consume_siwe_nonce(p_nonce TEXT, p_address TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE siwe_nonces
+  SET used_at = NOW(),
+      used_by = lower(p_address)
+  WHERE nonce = p_nonce
+    AND used_at IS NULL
+    AND expires_at > NOW();
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- 2. SESSION-KEYED RLS
+-- ============================================================================
+
+-- Session JWTs carry the checksummed address, rows may hold any casing
+DROP POLICY IF EXISTS "Users can view their missions" ON missions;
+
+CREATE POLICY "Users can view their missions"
+  ON missions FOR SELECT
+  USING (lower(client_address) = lower(auth.jwt()->>'sub') OR auth.role() = 'service_role');
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE siwe_nonces ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to siwe_nonces"
+  ON siwe_nonces FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE siwe_nonces IS 'Sign-In with Ethereum nonces - each can log in once';
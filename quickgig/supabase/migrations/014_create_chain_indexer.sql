@@ -0,0 +1,388 @@
+-- Migration 014: Chain Event Indexer
+-- Created: 2025-11-01
+-- Purpose: Mirror BountyEscrow, GigEscrow and MissionEscrow events into Supabase so the
+--          marketplace can filter and paginate server-side instead of reading every ID
+--          from the browser. Raw events are the source of truth; the chain_* tables are
+--          projections rebuilt from them, which is how reorged blocks are undone.
+
+-- ============================================================================
+-- 1. INDEXER CURSORS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS indexer_cursors (
+  contract_address TEXT PRIMARY KEY, -- Lowercased
+  contract TEXT NOT NULL CHECK (contract IN ('bounty_escrow', 'gig_escrow', 'mission_escrow')),
+  chain_id INTEGER NOT NULL,
+  start_block BIGINT NOT NULL, -- Backfill starts here (deployment block)
+  last_block BIGINT NOT NULL, -- Last block fully indexed
+  last_block_hash TEXT, -- Hash of last_block when it was indexed - a mismatch means a reorg
+  active BOOLEAN NOT NULL DEFAULT true, -- False for older deployments of the same contract
+  last_error TEXT,
+  synced_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_indexer_cursors_updated_at
+  BEFORE UPDATE ON indexer_cursors
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. RAW EVENTS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS chain_events (
+  id BIGSERIAL PRIMARY KEY,
+  chain_id INTEGER NOT NULL,
+  contract TEXT NOT NULL,
+  contract_address TEXT NOT NULL REFERENCES indexer_cursors(contract_address) ON DELETE CASCADE,
+  entity_id BIGINT NOT NULL, -- bountyId, gigId or missionId
+  event_name TEXT NOT NULL,
+  args JSONB NOT NULL, -- Decoded args, uint256 values as decimal strings
+  block_number BIGINT NOT NULL,
+  block_hash TEXT NOT NULL,
+  block_timestamp TIMESTAMP WITH TIME ZONE NOT NULL,
+  tx_hash TEXT NOT NULL,
+  log_index INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (contract_address, tx_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chain_events_entity ON chain_events(contract_address, entity_id, block_number, log_index);
+CREATE INDEX IF NOT EXISTS idx_chain_events_block ON chain_events(contract_address, block_number);
+
+-- Entities whose events changed and whose projection still has to be rebuilt
+CREATE TABLE IF NOT EXISTS indexer_dirty_entities (
+  contract_address TEXT NOT NULL REFERENCES indexer_cursors(contract_address) ON DELETE CASCADE,
+  entity_id BIGINT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (contract_address, entity_id)
+);
+
+-- ============================================================================
+-- 3. PROJECTIONS
+-- ============================================================================
+
+-- Token amounts are raw units (USDC has 6 decimals)
+
+CREATE TABLE IF NOT EXISTS chain_bounties (
+  contract_address TEXT NOT NULL,
+  bounty_id BIGINT NOT NULL,
+  client_address TEXT NOT NULL,
+  payment_token TEXT NOT NULL,
+  escrow_amount NUMERIC(78,0) NOT NULL,
+  deadline TIMESTAMP WITH TIME ZONE,
+  requirements_uri TEXT,
+  status TEXT NOT NULL CHECK (status IN ('open', 'assigned', 'submitted', 'completed', 'disputed', 'cancelled', 'auto_released')),
+  assigned_worker TEXT,
+  assigned_bid_amount NUMERIC(78,0),
+  deliverable_uri TEXT,
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  bid_count INTEGER NOT NULL DEFAULT 0, -- Bids not withdrawn
+  dispute_case_id TEXT,
+  uma_assertion_id TEXT,
+  created_block BIGINT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL, -- Block time of BountyCreated
+  updated_block BIGINT NOT NULL,
+  PRIMARY KEY (contract_address, bounty_id)
+);
+
+CREATE TABLE IF NOT EXISTS chain_bounty_bids (
+  contract_address TEXT NOT NULL,
+  bounty_id BIGINT NOT NULL,
+  bid_index INTEGER NOT NULL,
+  bidder TEXT NOT NULL,
+  bid_amount NUMERIC(78,0) NOT NULL,
+  proposal_uri TEXT,
+  withdrawn BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  PRIMARY KEY (contract_address, bounty_id, bid_index),
+  FOREIGN KEY (contract_address, bounty_id) REFERENCES chain_bounties(contract_address, bounty_id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS chain_gigs (
+  contract_address TEXT NOT NULL,
+  gig_id BIGINT NOT NULL,
+  client_address TEXT NOT NULL,
+  worker_address TEXT NOT NULL,
+  payment_token TEXT NOT NULL,
+  total_amount NUMERIC(78,0) NOT NULL,
+  released_amount NUMERIC(78,0) NOT NULL DEFAULT 0,
+  milestone_count INTEGER NOT NULL,
+  completed_milestones INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL CHECK (status IN ('active', 'completed', 'disputed', 'cancelled', 'auto_released')),
+  use_uma_arbitration BOOLEAN NOT NULL DEFAULT false,
+  created_block BIGINT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  updated_block BIGINT NOT NULL,
+  PRIMARY KEY (contract_address, gig_id)
+);
+
+CREATE TABLE IF NOT EXISTS chain_gig_milestones (
+  contract_address TEXT NOT NULL,
+  gig_id BIGINT NOT NULL,
+  milestone_index INTEGER NOT NULL,
+  description TEXT,
+  amount NUMERIC(78,0),
+  status TEXT NOT NULL CHECK (status IN ('pending', 'submitted', 'approved', 'disputed', 'auto_released')),
+  deliverable_uri TEXT,
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  PRIMARY KEY (contract_address, gig_id, milestone_index),
+  FOREIGN KEY (contract_address, gig_id) REFERENCES chain_gigs(contract_address, gig_id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS chain_missions (
+  contract_address TEXT NOT NULL,
+  mission_id BIGINT NOT NULL,
+  client_address TEXT NOT NULL,
+  total_escrow NUMERIC(78,0) NOT NULL,
+  released_amount NUMERIC(78,0) NOT NULL DEFAULT 0, -- Sum of PaymentReleased (agents and fees)
+  agent_count INTEGER NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('pending', 'in_progress', 'submitted', 'validating', 'disputed', 'completed', 'auto_released', 'cancelled')),
+  deliverable_uri TEXT,
+  auto_release_time TIMESTAMP WITH TIME ZONE,
+  validation_id TEXT,
+  dispute_assertion_id TEXT,
+  created_block BIGINT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  updated_block BIGINT NOT NULL,
+  PRIMARY KEY (contract_address, mission_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chain_bounties_status ON chain_bounties(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_chain_bounties_client ON chain_bounties(client_address);
+CREATE INDEX IF NOT EXISTS idx_chain_gigs_status ON chain_gigs(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_chain_gigs_client ON chain_gigs(client_address);
+CREATE INDEX IF NOT EXISTS idx_chain_gigs_worker ON chain_gigs(worker_address);
+CREATE INDEX IF NOT EXISTS idx_chain_missions_client ON chain_missions(client_address);
+
+-- ============================================================================
+-- 4. EVENT REPLACEMENT
+-- ============================================================================
+
+-- Atomically replace a contract's events in [p_from_block, p_to_block] (open-ended when
+-- p_to_block is NULL, used to undo a reorg) and move its cursor. Every entity that had or
+-- now has events in the range is marked dirty so its projection gets rebuilt.
+CREATE OR REPLACE FUNCTION replace_chain_events(
+  p_contract_address TEXT,
+  p_from_block BIGINT,
+  p_to_block BIGINT,
+  p_events JSONB,
+  p_cursor_block BIGINT,
+  p_cursor_hash TEXT
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_inserted INTEGER;
+BEGIN
+  INSERT INTO indexer_dirty_entities (contract_address, entity_id)
+  SELECT DISTINCT p_contract_address, entity_id
+  FROM chain_events
+  WHERE contract_address = p_contract_address
+    AND block_number >= p_from_block
+    AND (p_to_block IS NULL OR block_number <= p_to_block)
+  UNION
+  SELECT DISTINCT p_contract_address, (e->>'entity_id')::BIGINT
+  FROM jsonb_array_elements(p_events) e
+  ON CONFLICT DO NOTHING;
+
+  DELETE FROM chain_events
+  WHERE contract_address = p_contract_address
+    AND block_number >= p_from_block
+    AND (p_to_block IS NULL OR block_number <= p_to_block);
+
+  INSERT INTO chain_events (
+    chain_id, contract, contract_address, entity_id, event_name, args,
+    block_number, block_hash, block_timestamp, tx_hash, log_index
+  )
+  SELECT e.chain_id, e.contract, p_contract_address, e.entity_id, e.event_name, e.args,
+         e.block_number, e.block_hash, e.block_timestamp, e.tx_hash, e.log_index
+  FROM jsonb_to_recordset(p_events) AS e(
+    chain_id INTEGER,
+    contract TEXT,
+    entity_id BIGINT,
+    event_name TEXT,
+    args JSONB,
+    block_number BIGINT,
+    block_hash TEXT,
+    block_timestamp TIMESTAMP WITH TIME ZONE,
+    tx_hash TEXT,
+    log_index INTEGER
+  );
+
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+  UPDATE indexer_cursors
+  SET last_block = p_cursor_block,
+      last_block_hash = p_cursor_hash,
+      last_error = NULL,
+      synced_at = NOW()
+  WHERE contract_address = p_contract_address;
+
+  RETURN v_inserted;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- 5. MARKETPLACE VIEW
+-- ============================================================================
+
+-- Bounties, gigs and orchestrated missions in one shape for /api/missions/list.
+-- Only the active deployment of each contract is listed.
+CREATE OR REPLACE VIEW marketplace_listings AS
+SELECT
+  'bounty_' || b.bounty_id AS id,
+  'contract' AS source,
+  b.bounty_id::TEXT AS entity_id,
+  b.client_address,
+  b.escrow_amount / 1000000 AS amount,
+  b.created_at,
+  b.deadline,
+  COALESCE(b.requirements_uri, '') AS description,
+  CASE
+    WHEN b.status = 'open' THEN 'open'
+    WHEN b.status IN ('assigned', 'submitted', 'disputed') THEN 'assigned'
+    WHEN b.status IN ('completed', 'auto_released') THEN 'completed'
+    ELSE 'cancelled'
+  END AS status,
+  b.requirements_uri,
+  b.bid_count,
+  b.assigned_worker,
+  NULL::INTEGER AS milestone_count,
+  NULL::INTEGER AS completed_milestones,
+  NULL::BOOLEAN AS use_uma_arbitration
+FROM chain_bounties b
+JOIN indexer_cursors c ON c.contract_address = b.contract_address AND c.active
+UNION ALL
+SELECT
+  'gig_' || g.gig_id,
+  'gig',
+  g.gig_id::TEXT,
+  g.client_address,
+  g.total_amount / 1000000,
+  g.created_at,
+  NULL,
+  COALESCE((
+    SELECT string_agg(m.description, '; ' ORDER BY m.milestone_index)
+    FROM chain_gig_milestones m
+    WHERE m.contract_address = g.contract_address AND m.gig_id = g.gig_id
+  ), ''),
+  CASE
+    WHEN g.status IN ('active', 'disputed') THEN 'assigned'
+    WHEN g.status IN ('completed', 'auto_released') THEN 'completed'
+    ELSE 'cancelled'
+  END,
+  NULL,
+  NULL,
+  g.worker_address,
+  g.milestone_count,
+  g.completed_milestones,
+  g.use_uma_arbitration
+FROM chain_gigs g
+JOIN indexer_cursors c ON c.contract_address = g.contract_address AND c.active
+UNION ALL
+SELECT
+  m.id,
+  'database',
+  m.id,
+  lower(m.client_address),
+  m.total_budget,
+  m.created_at,
+  NULL,
+  COALESCE(m.description, 'AI-deployed mission'),
+  CASE
+    WHEN m.status IN ('completed', 'approved', 'auto_released') THEN 'completed'
+    WHEN m.status IN ('cancelled', 'failed', 'rejected') THEN 'cancelled'
+    ELSE 'open'
+  END,
+  m.requirements_ipfs,
+  0,
+  NULL,
+  NULL,
+  NULL,
+  NULL
+FROM missions m;
+
+-- Listing counts per source and status, optionally for one wallet (client or worker)
+CREATE OR REPLACE FUNCTION get_marketplace_counts(p_participant TEXT DEFAULT NULL)
+RETURNS TABLE (source TEXT, status TEXT, total BIGINT) AS $$
+  SELECT l.source, l.status, COUNT(*)
+  FROM marketplace_listings l
+  WHERE p_participant IS NULL
+     OR l.client_address = lower(p_participant)
+     OR l.assigned_worker = lower(p_participant)
+  GROUP BY l.source, l.status;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- 6. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE indexer_cursors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chain_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE indexer_dirty_entities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chain_bounties ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chain_bounty_bids ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chain_gigs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chain_gig_milestones ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chain_missions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to indexer_cursors"
+  ON indexer_cursors FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role has full access to chain_events"
+  ON chain_events FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role has full access to indexer_dirty_entities"
+  ON indexer_dirty_entities FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- Projections only hold public chain data
+CREATE POLICY "Public can view chain_bounties"
+  ON chain_bounties FOR SELECT
+  USING (true);
+
+CREATE POLICY "Service role has full access to chain_bounties"
+  ON chain_bounties FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Public can view chain_bounty_bids"
+  ON chain_bounty_bids FOR SELECT
+  USING (true);
+
+CREATE POLICY "Service role has full access to chain_bounty_bids"
+  ON chain_bounty_bids FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Public can view chain_gigs"
+  ON chain_gigs FOR SELECT
+  USING (true);
+
+CREATE POLICY "Service role has full access to chain_gigs"
+  ON chain_gigs FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Public can view chain_gig_milestones"
+  ON chain_gig_milestones FOR SELECT
+  USING (true);
+
+CREATE POLICY "Service role has full access to chain_gig_milestones"
+  ON chain_gig_milestones FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Public can view chain_missions"
+  ON chain_missions FOR SELECT
+  USING (true);
+
+CREATE POLICY "Service role has full access to chain_missions"
+  ON chain_missions FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE indexer_cursors IS 'Indexing progress per escrow contract deployment';
+COMMENT ON TABLE chain_events IS 'Decoded escrow contract events - projections are rebuilt from these';
+COMMENT ON TABLE indexer_dirty_entities IS 'Bounties, gigs and missions whose projection must be rebuilt after their events changed';
+COMMENT ON VIEW marketplace_listings IS 'Bounties, gigs and orchestrated missions for the marketplace pages';
+COMMENT ON COLUMN indexer_cursors.last_block_hash IS 'Compared with the chain on every sync to detect reorgs';
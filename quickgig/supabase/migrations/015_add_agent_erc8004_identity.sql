@@ -0,0 +1,49 @@
+-- Migration 015: Agent ERC-8004 Identity Link
+-- Created: 2025-11-02
+-- Purpose: Link each agent profile to its ERC-8004 identity NFT (token ID + identity registry),
+--          written at registration and kept in line with ownerOf/tokenURI by reconciliation
+
+-- ============================================================================
+-- 1. IDENTITY COLUMNS
+-- ============================================================================
+
+ALTER TABLE agent_profiles
+  ADD COLUMN IF NOT EXISTS erc8004_token_id TEXT CHECK (erc8004_token_id ~ '^[0-9]+$'), -- uint256 as a decimal string
+  ADD COLUMN IF NOT EXISTS erc8004_registry TEXT, -- Identity registry address, lowercased
+  ADD COLUMN IF NOT EXISTS erc8004_owner TEXT, -- ownerOf(token) at the last check, lowercased
+  ADD COLUMN IF NOT EXISTS erc8004_token_uri TEXT, -- tokenURI(token) at the last check
+  ADD COLUMN IF NOT EXISTS erc8004_registration_tx TEXT,
+  ADD COLUMN IF NOT EXISTS erc8004_verified_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS erc8004_sync_error TEXT; -- Why the last reconciliation changed or dropped the link
+
+ALTER TABLE agent_profiles
+  DROP CONSTRAINT IF EXISTS agent_profiles_erc8004_link_check;
+
+ALTER TABLE agent_profiles
+  ADD CONSTRAINT agent_profiles_erc8004_link_check
+  CHECK ((erc8004_token_id IS NULL) = (erc8004_registry IS NULL));
+
+-- A token identifies one agent
+CREATE UNIQUE INDEX IF NOT EXISTS idx_agent_profiles_erc8004_token
+  ON agent_profiles(erc8004_registry, erc8004_token_id)
+  WHERE erc8004_token_id IS NOT NULL;
+
+-- ============================================================================
+-- 2. BACKFILL
+-- ============================================================================
+
+-- The seeded agents were registered on the Base Sepolia identity registry before the link existed
+UPDATE agent_profiles
+SET erc8004_token_id = seeded.token_id,
+    erc8004_registry = '0x8004aa63c570c570ebf15376c0db199918bfe9fb'
+FROM (VALUES
+  ('0x742d35cc6634c0532925a3b844bc454e4438f44e', '2'), -- LogoMaster AI
+  ('0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc', '3'), -- CopyWriter AI
+  ('0x90f79bf6eb2c4f870365e785982e1f101e93b906', '4')  -- SocialMedia AI
+) AS seeded(address, token_id)
+WHERE lower(agent_profiles.address) = seeded.address
+  AND agent_profiles.erc8004_token_id IS NULL;
+
+COMMENT ON COLUMN agent_profiles.erc8004_token_id IS 'ERC-8004 identity NFT token ID (NULL if the agent is not registered on-chain)';
+COMMENT ON COLUMN agent_profiles.erc8004_registry IS 'ERC-8004 identity registry that minted erc8004_token_id';
+COMMENT ON COLUMN agent_profiles.erc8004_verified_at IS 'When reconciliation last confirmed the token against the registry';
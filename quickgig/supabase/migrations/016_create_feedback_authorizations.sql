@@ -0,0 +1,50 @@
+-- Migration 016: ERC-8004 Feedback Authorizations
+-- Created: 2025-11-02
+-- Purpose: Record every feedbackAuth issued by /api/reputation/generate-auth - which client may
+--          rate which agent, for which completed mission or gig, up to which feedback index,
+--          until when, and which wallet (the agent's own or an owner-approved delegate) signed it
+
+-- ============================================================================
+-- 1. FEEDBACK AUTHORIZATIONS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS feedback_authorizations (
+  id BIGSERIAL PRIMARY KEY,
+  agent_id TEXT NOT NULL REFERENCES agent_profiles(id) ON DELETE CASCADE,
+  erc8004_token_id TEXT NOT NULL,
+  identity_registry TEXT NOT NULL, -- Lowercased
+  client_address TEXT NOT NULL, -- Lowercased wallet allowed to give feedback
+  source TEXT NOT NULL CHECK (source IN ('mission', 'gig')),
+  mission_id TEXT REFERENCES missions(id) ON DELETE SET NULL,
+  gig_contract TEXT, -- Lowercased GigEscrow address
+  gig_id BIGINT,
+  index_limit INTEGER NOT NULL CHECK (index_limit > 0),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  chain_id INTEGER NOT NULL,
+  signer_address TEXT NOT NULL, -- Lowercased
+  signer_type TEXT NOT NULL CHECK (signer_type IN ('agent_wallet', 'delegate')),
+  feedback_auth TEXT NOT NULL, -- Encoded struct + signature as passed to giveFeedback
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (source <> 'gig' OR (gig_contract IS NOT NULL AND gig_id IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_feedback_authorizations_client ON feedback_authorizations(client_address, agent_id);
+CREATE INDEX IF NOT EXISTS idx_feedback_authorizations_agent ON feedback_authorizations(agent_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_feedback_authorizations_mission ON feedback_authorizations(mission_id);
+
+-- ============================================================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE feedback_authorizations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to feedback_authorizations"
+  ON feedback_authorizations FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Users can view their feedback authorizations"
+  ON feedback_authorizations FOR SELECT
+  USING (client_address = lower(auth.jwt()->>'sub'));
+
+COMMENT ON TABLE feedback_authorizations IS 'Issued ERC-8004 feedbackAuth signatures, each tied to a completed mission or gig';
+COMMENT ON COLUMN feedback_authorizations.index_limit IS 'Feedback from this client is accepted up to this index';
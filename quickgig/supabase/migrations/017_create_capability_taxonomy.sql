@@ -0,0 +1,87 @@
+-- Migration 017: Capability Taxonomy
+-- Created: 2025-11-03
+-- Purpose: Replace the hard-coded COMMON_CAPABILITIES list with a taxonomy admins can extend -
+--          parent/child capabilities (design -> logo-design), synonyms that resolve to a capability,
+--          and per-capability defaults: deliverable types, typical price range and turnaround
+
+-- ============================================================================
+-- 1. CAPABILITIES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS capabilities (
+  slug TEXT PRIMARY KEY CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'), -- What agent_profiles.capabilities stores
+  name TEXT NOT NULL,
+  parent_slug TEXT REFERENCES capabilities(slug) ON UPDATE CASCADE ON DELETE SET NULL,
+  description TEXT,
+  synonyms TEXT[] NOT NULL DEFAULT '{}', -- Lowercased terms that resolve to this capability
+  deliverable_types TEXT[] NOT NULL DEFAULT '{}', -- e.g. image, text, code
+  price_min DECIMAL(18,6) CHECK (price_min >= 0), -- Typical price in USDC, inherited from the parent if null
+  price_max DECIMAL(18,6) CHECK (price_max >= 0),
+  turnaround TEXT, -- e.g. '1-2 hours', inherited from the parent if null
+  active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (parent_slug IS NULL OR parent_slug <> slug),
+  CHECK (price_min IS NULL OR price_max IS NULL OR price_min <= price_max)
+);
+
+CREATE INDEX IF NOT EXISTS idx_capabilities_parent ON capabilities(parent_slug);
+CREATE INDEX IF NOT EXISTS idx_capabilities_synonyms ON capabilities USING GIN(synonyms);
+
+CREATE TRIGGER update_capabilities_updated_at
+  BEFORE UPDATE ON capabilities
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. SEED TAXONOMY
+-- ============================================================================
+
+-- Parents first so children can reference them
+INSERT INTO capabilities (slug, name, parent_slug, synonyms, deliverable_types, price_min, price_max, turnaround, sort_order) VALUES
+  ('design', 'Design', NULL, '{designer,visual design}', '{image}', 10, 200, '2-4 hours', 10),
+  ('writing', 'Writing', NULL, '{writer}', '{text}', 5, 100, '1-2 hours', 20),
+  ('marketing', 'Marketing', NULL, '{marketer,growth,campaign}', '{text,document}', 10, 200, '1 day', 30),
+  ('development', 'Development', NULL, '{developer,programming,coding}', '{code}', 50, 1000, '1-3 days', 40),
+  ('media', 'Media', NULL, '{multimedia}', '{video,audio}', 15, 300, '4-8 hours', 50),
+  ('data', 'Data', NULL, '{}', '{document}', 20, 300, '1 day', 60),
+  ('consulting', 'Consulting', NULL, '{consultant,advice,strategy}', '{document,text}', 25, 300, '1 day', 70)
+ON CONFLICT (slug) DO NOTHING;
+
+INSERT INTO capabilities (slug, name, parent_slug, synonyms, deliverable_types, price_min, price_max, turnaround, sort_order) VALUES
+  ('logo-design', 'Logo Design', 'design', '{logo,logos,brand mark,logo mark,icon design}', '{image}', 10, 100, '1-2 hours', 11),
+  ('graphic-design', 'Graphic Design', 'design', '{graphics,graphic,banner,poster,flyer,illustration}', '{image}', 10, 80, '2-4 hours', 12),
+  ('branding', 'Branding', 'design', '{brand identity,brand kit,brand guidelines,visual identity}', '{image,document}', 25, 250, '2-5 hours', 13),
+  ('ui-ux-design', 'UI/UX Design', 'design', '{ui,ux,ui design,ux design,user interface,wireframe,mockup}', '{image,document}', 25, 300, '1-2 days', 14),
+  ('3d-modeling', '3D Modeling', 'design', '{3d,3d model,3d design}', '{image,file}', 30, 300, '1-2 days', 15),
+  ('animation', 'Animation', 'design', '{animated,motion graphics,gif}', '{video}', 25, 250, '1-2 days', 16),
+  ('copywriting', 'Copywriting', 'writing', '{copy,tagline,slogan,ad copy,headline}', '{text}', 5, 50, '30 minutes - 1 hour', 21),
+  ('content-writing', 'Content Writing', 'writing', '{content,blog,blog post,article,newsletter}', '{text,document}', 10, 100, '2-4 hours', 22),
+  ('translation', 'Translation', 'writing', '{translate,translator,localization}', '{text,document}', 5, 80, '1-3 hours', 23),
+  ('social-media', 'Social Media', 'marketing', '{social,social posts,twitter,instagram,facebook,linkedin,tiktok}', '{text,image}', 5, 80, '1-2 hours', 31),
+  ('seo-optimization', 'SEO Optimization', 'marketing', '{seo,search engine optimization}', '{document}', 15, 150, '1 day', 32),
+  ('web-development', 'Web Development', 'development', '{website,web app,landing page,frontend,site}', '{code,url}', 50, 800, '1-3 days', 41),
+  ('smart-contracts', 'Smart Contracts', 'development', '{smart contract,solidity,contract audit}', '{code}', 100, 1000, '1-2 days', 42),
+  ('video-editing', 'Video Editing', 'media', '{video,edit video,footage,video production}', '{video}', 20, 300, '4-8 hours', 51),
+  ('voice-over', 'Voice Over', 'media', '{voiceover,voice,narration}', '{audio}', 10, 100, '2-3 hours', 52),
+  ('data-analysis', 'Data Analysis', 'data', '{analytics,data science,dashboard}', '{document,file}', 20, 300, '1 day', 61)
+ON CONFLICT (slug) DO NOTHING;
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE capabilities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can view capabilities"
+  ON capabilities FOR SELECT
+  USING (true);
+
+CREATE POLICY "Service role has full access to capabilities"
+  ON capabilities FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE capabilities IS 'Capability taxonomy agents register under and clients search by';
+COMMENT ON COLUMN capabilities.synonyms IS 'Lowercased terms (e.g. logo, brand mark) that resolve to this capability';
+COMMENT ON COLUMN capabilities.active IS 'Inactive capabilities still resolve but are not offered for registration or search';
@@ -0,0 +1,77 @@
+-- Migration 018: Agent Ranking Signals
+-- Created: 2025-11-03
+-- Purpose: Aggregate what recommendAgents ranks agents on besides on-chain reputation -
+--          step completion rate and delivery time (mission_executions), dispute outcomes
+--          (missions.dispute_status / dispute_result) and current queue depth
+
+-- ============================================================================
+-- 1. INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_mission_executions_agent_created ON mission_executions(agent_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_missions_dispute_status ON missions(dispute_status) WHERE dispute_status IN ('pending', 'resolved');
+
+-- ============================================================================
+-- 2. SIGNALS
+-- ============================================================================
+
+-- One row per requested agent; completion and latency count steps created since p_since,
+-- the queue and disputes are all-time
+CREATE OR REPLACE FUNCTION get_agent_ranking_signals(
+  p_agent_ids TEXT[],
+  p_since TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+  agent_id TEXT,
+  completed_steps BIGINT,
+  failed_steps BIGINT, -- Failed, or failed and handed to a fallback agent
+  median_latency_seconds DOUBLE PRECISION, -- started_at -> completed_at of completed steps
+  queued_steps BIGINT, -- Pending or executing steps of funded or running missions
+  disputes_won BIGINT,
+  disputes_lost BIGINT,
+  disputes_open BIGINT
+) AS $$
+  WITH requested AS (
+    SELECT DISTINCT unnest(p_agent_ids) AS agent_id
+  ),
+  executions AS (
+    SELECT
+      e.agent_id,
+      COUNT(*) FILTER (WHERE e.status = 'completed' AND e.created_at >= p_since) AS completed_steps,
+      COUNT(*) FILTER (WHERE e.status IN ('failed', 'replaced') AND e.created_at >= p_since) AS failed_steps,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM e.completed_at - e.started_at))
+        FILTER (WHERE e.status = 'completed' AND e.created_at >= p_since
+                AND e.started_at IS NOT NULL AND e.completed_at >= e.started_at) AS median_latency_seconds,
+      COUNT(*) FILTER (WHERE e.status IN ('pending', 'executing') AND m.status IN ('funded', 'in_progress')) AS queued_steps
+    FROM mission_executions e
+    JOIN missions m ON m.id = e.mission_id
+    WHERE e.agent_id = ANY(p_agent_ids)
+    GROUP BY e.agent_id
+  ),
+  disputes AS (
+    SELECT
+      ma.agent_id,
+      COUNT(*) FILTER (WHERE m.dispute_status = 'resolved' AND m.dispute_result IS TRUE) AS disputes_won,
+      COUNT(*) FILTER (WHERE m.dispute_status = 'resolved' AND m.dispute_result IS FALSE) AS disputes_lost,
+      COUNT(*) FILTER (WHERE m.dispute_status = 'pending') AS disputes_open
+    FROM mission_agents ma
+    JOIN missions m ON m.id = ma.mission_id
+    WHERE ma.agent_id = ANY(p_agent_ids)
+      AND m.dispute_status IN ('pending', 'resolved')
+    GROUP BY ma.agent_id
+  )
+  SELECT
+    r.agent_id,
+    COALESCE(e.completed_steps, 0),
+    COALESCE(e.failed_steps, 0),
+    e.median_latency_seconds,
+    COALESCE(e.queued_steps, 0),
+    COALESCE(d.disputes_won, 0),
+    COALESCE(d.disputes_lost, 0),
+    COALESCE(d.disputes_open, 0)
+  FROM requested r
+  LEFT JOIN executions e ON e.agent_id = r.agent_id
+  LEFT JOIN disputes d ON d.agent_id = r.agent_id;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION get_agent_ranking_signals IS 'Per-agent completion, latency, queue and dispute signals used to rank recommendations';
@@ -0,0 +1,55 @@
+-- Migration 019: Agent Heartbeats
+-- Created: 2025-11-03
+-- Purpose: Track what each agent last reported through its signed heartbeat - jobs in flight
+--          against its declared maximum and a rolling health status - so recommendations,
+--          the mission wizard and the orchestrator can skip agents that are unhealthy,
+--          at capacity or no longer answering
+
+-- ============================================================================
+-- 1. HEARTBEAT COLUMNS
+-- ============================================================================
+
+ALTER TABLE agent_profiles
+  ADD COLUMN IF NOT EXISTS max_concurrent_jobs INTEGER CHECK (max_concurrent_jobs > 0),
+  ADD COLUMN IF NOT EXISTS active_jobs INTEGER CHECK (active_jobs >= 0),
+  ADD COLUMN IF NOT EXISTS health_status TEXT CHECK (health_status IN ('healthy', 'degraded', 'unhealthy')),
+  ADD COLUMN IF NOT EXISTS last_heartbeat_at TIMESTAMP WITH TIME ZONE; -- issuedAt of the last accepted heartbeat
+
+CREATE INDEX IF NOT EXISTS idx_agent_profiles_last_heartbeat ON agent_profiles(last_heartbeat_at DESC)
+  WHERE last_heartbeat_at IS NOT NULL;
+
+-- ============================================================================
+-- 2. RECORD HEARTBEAT
+-- ============================================================================
+
+-- Heartbeats only move forward - one issued at or before the last accepted heartbeat
+-- (a replay, or a delayed request) is ignored. Returns whether it was recorded.
+CREATE OR REPLACE FUNCTION record_agent_heartbeat(
+  p_agent_id TEXT,
+  p_active_jobs INTEGER,
+  p_max_concurrent_jobs INTEGER,
+  p_health_status TEXT,
+  p_issued_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  UPDATE agent_profiles
+  SET active_jobs = p_active_jobs,
+      max_concurrent_jobs = p_max_concurrent_jobs,
+      health_status = p_health_status,
+      last_heartbeat_at = p_issued_at
+  WHERE id = p_agent_id
+    AND (last_heartbeat_at IS NULL OR last_heartbeat_at < p_issued_at);
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated > 0;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON COLUMN agent_profiles.max_concurrent_jobs IS 'Jobs the agent takes at once, as declared in its last heartbeat';
+COMMENT ON COLUMN agent_profiles.active_jobs IS 'Jobs in flight at the last heartbeat';
+COMMENT ON COLUMN agent_profiles.health_status IS 'Rolling health the agent reported (healthy, degraded, unhealthy)';
+COMMENT ON COLUMN agent_profiles.last_heartbeat_at IS 'When the last accepted heartbeat was signed (NULL if the agent never sent one)';
+COMMENT ON FUNCTION record_agent_heartbeat IS 'Store a verified heartbeat unless a newer one was already recorded';
@@ -0,0 +1,21 @@
+-- Migration 020: Chat Tool Messages
+-- Created: 2025-11-03
+-- Purpose: Keep tool results in the chat history (lib/ai/chat-engine.ts) so the assistant
+--          sees what its tool calls returned - bounty lists, created IDs, transaction
+--          hashes - on the next turn
+
+-- ============================================================================
+-- 1. TOOL ROLE
+-- ============================================================================
+
+ALTER TABLE chat_messages DROP CONSTRAINT IF EXISTS chat_messages_role_check;
+
+ALTER TABLE chat_messages ADD CONSTRAINT chat_messages_role_check
+CHECK (role IN (
+  'user',
+  'assistant',
+  'system',
+  'tool'            -- Result of a tool call, metadata holds { toolCallId, name }
+));
+
+COMMENT ON COLUMN chat_messages.metadata IS 'UI metadata; assistant rows keep their toolCalls and pendingActions, tool rows their toolCallId and name';
@@ -0,0 +1,256 @@
+-- Migration 021: Arbitration Case Docket
+-- Created: 2025-11-03
+-- Purpose: Index SimpleArbitrator events alongside the escrows so the arbitration dashboard
+--          lists every case from history - not just the DisputeCreated events seen while
+--          the page is open. Case IDs are bytes32, so arbitration events get their own
+--          tables keyed by case_id instead of chain_events' numeric entity_id.
+
+-- ============================================================================
+-- 1. ARBITRATOR CURSOR
+-- ============================================================================
+
+ALTER TABLE indexer_cursors DROP CONSTRAINT IF EXISTS indexer_cursors_contract_check;
+
+ALTER TABLE indexer_cursors ADD CONSTRAINT indexer_cursors_contract_check
+CHECK (contract IN (
+  'bounty_escrow',
+  'gig_escrow',
+  'mission_escrow',
+  'simple_arbitrator'
+));
+
+-- ============================================================================
+-- 2. RAW EVENTS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS arbitration_events (
+  id BIGSERIAL PRIMARY KEY,
+  chain_id INTEGER NOT NULL,
+  contract_address TEXT NOT NULL REFERENCES indexer_cursors(contract_address) ON DELETE CASCADE,
+  case_id TEXT NOT NULL, -- bytes32 hex, lowercased
+  event_name TEXT NOT NULL,
+  args JSONB NOT NULL, -- Decoded args, uint256 values as decimal strings
+  block_number BIGINT NOT NULL,
+  block_hash TEXT NOT NULL,
+  block_timestamp TIMESTAMP WITH TIME ZONE NOT NULL,
+  tx_hash TEXT NOT NULL,
+  log_index INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (contract_address, tx_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_arbitration_events_case ON arbitration_events(contract_address, case_id, block_number, log_index);
+CREATE INDEX IF NOT EXISTS idx_arbitration_events_block ON arbitration_events(contract_address, block_number);
+
+-- Cases whose events changed and whose projection still has to be rebuilt
+CREATE TABLE IF NOT EXISTS arbitration_dirty_cases (
+  contract_address TEXT NOT NULL REFERENCES indexer_cursors(contract_address) ON DELETE CASCADE,
+  case_id TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (contract_address, case_id)
+);
+
+-- ============================================================================
+-- 3. PROJECTIONS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS arbitration_cases (
+  contract_address TEXT NOT NULL, -- SimpleArbitrator deployment
+  case_id TEXT NOT NULL,
+  escrow_contract TEXT NOT NULL, -- Escrow that opened the case
+  entity_id BIGINT NOT NULL, -- Bounty, gig or mission ID in that escrow
+  client_address TEXT NOT NULL,
+  worker_address TEXT NOT NULL,
+  amount NUMERIC(78,0) NOT NULL, -- Raw units (USDC has 6 decimals)
+  reason TEXT,
+  status TEXT NOT NULL CHECK (status IN ('active', 'resolved')), -- An appeal makes a case active again
+  round INTEGER NOT NULL DEFAULT 0, -- 0 for the original vote, 1 after an appeal
+  voting_deadline TIMESTAMP WITH TIME ZONE NOT NULL, -- finalizeIfExpired works after this
+  voters TEXT[] NOT NULL DEFAULT '{}', -- Everyone who voted in any round - the contract never lets them vote again
+  final_client_bps INTEGER, -- Decision of the last resolution
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  appealed BOOLEAN NOT NULL DEFAULT false,
+  appellant TEXT,
+  appeal_reason TEXT,
+  appealed_at TIMESTAMP WITH TIME ZONE,
+  created_block BIGINT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL, -- Block time of DisputeCreated
+  updated_block BIGINT NOT NULL,
+  PRIMARY KEY (contract_address, case_id)
+);
+
+CREATE TABLE IF NOT EXISTS arbitration_case_evidence (
+  contract_address TEXT NOT NULL,
+  case_id TEXT NOT NULL,
+  evidence_index INTEGER NOT NULL,
+  submitter TEXT NOT NULL,
+  evidence_uri TEXT NOT NULL,
+  submitted_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  PRIMARY KEY (contract_address, case_id, evidence_index),
+  FOREIGN KEY (contract_address, case_id) REFERENCES arbitration_cases(contract_address, case_id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS arbitration_case_votes (
+  contract_address TEXT NOT NULL,
+  case_id TEXT NOT NULL,
+  vote_index INTEGER NOT NULL, -- Across rounds, in chain order
+  round INTEGER NOT NULL,
+  arbitrator TEXT NOT NULL,
+  client_bps INTEGER NOT NULL,
+  cast_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  PRIMARY KEY (contract_address, case_id, vote_index),
+  FOREIGN KEY (contract_address, case_id) REFERENCES arbitration_cases(contract_address, case_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_arbitration_cases_status ON arbitration_cases(status, voting_deadline);
+CREATE INDEX IF NOT EXISTS idx_arbitration_cases_escrow ON arbitration_cases(escrow_contract, entity_id);
+
+-- ============================================================================
+-- 4. EVENT REPLACEMENT
+-- ============================================================================
+
+-- Same as replace_chain_events (migration 014), for the arbitrator's events
+CREATE OR REPLACE FUNCTION replace_arbitration_events(
+  p_contract_address TEXT,
+  p_from_block BIGINT,
+  p_to_block BIGINT,
+  p_events JSONB,
+  p_cursor_block BIGINT,
+  p_cursor_hash TEXT
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_inserted INTEGER;
+BEGIN
+  INSERT INTO arbitration_dirty_cases (contract_address, case_id)
+  SELECT DISTINCT p_contract_address, case_id
+  FROM arbitration_events
+  WHERE contract_address = p_contract_address
+    AND block_number >= p_from_block
+    AND (p_to_block IS NULL OR block_number <= p_to_block)
+  UNION
+  SELECT DISTINCT p_contract_address, e->>'case_id'
+  FROM jsonb_array_elements(p_events) e
+  ON CONFLICT DO NOTHING;
+
+  DELETE FROM arbitration_events
+  WHERE contract_address = p_contract_address
+    AND block_number >= p_from_block
+    AND (p_to_block IS NULL OR block_number <= p_to_block);
+
+  INSERT INTO arbitration_events (
+    chain_id, contract_address, case_id, event_name, args,
+    block_number, block_hash, block_timestamp, tx_hash, log_index
+  )
+  SELECT e.chain_id, p_contract_address, e.case_id, e.event_name, e.args,
+         e.block_number, e.block_hash, e.block_timestamp, e.tx_hash, e.log_index
+  FROM jsonb_to_recordset(p_events) AS e(
+    chain_id INTEGER,
+    case_id TEXT,
+    event_name TEXT,
+    args JSONB,
+    block_number BIGINT,
+    block_hash TEXT,
+    block_timestamp TIMESTAMP WITH TIME ZONE,
+    tx_hash TEXT,
+    log_index INTEGER
+  );
+
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+  UPDATE indexer_cursors
+  SET last_block = p_cursor_block,
+      last_block_hash = p_cursor_hash,
+      last_error = NULL,
+      synced_at = NOW()
+  WHERE contract_address = p_contract_address;
+
+  RETURN v_inserted;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- 5. DOCKET VIEW
+-- ============================================================================
+
+-- Cases of the active arbitrator deployment with their evidence, votes and what they're about.
+-- entity_type comes from the escrow that opened the case (NULL if that escrow isn't indexed).
+CREATE OR REPLACE VIEW arbitration_docket AS
+SELECT
+  a.*,
+  CASE e.contract
+    WHEN 'bounty_escrow' THEN 'bounty'
+    WHEN 'gig_escrow' THEN 'gig'
+    WHEN 'mission_escrow' THEN 'mission'
+  END AS entity_type,
+  COALESCE((
+    SELECT jsonb_agg(jsonb_build_object(
+      'submitter', ev.submitter,
+      'uri', ev.evidence_uri,
+      'submitted_at', ev.submitted_at
+    ) ORDER BY ev.evidence_index)
+    FROM arbitration_case_evidence ev
+    WHERE ev.contract_address = a.contract_address AND ev.case_id = a.case_id
+  ), '[]'::JSONB) AS evidence,
+  COALESCE((
+    SELECT jsonb_agg(jsonb_build_object(
+      'round', v.round,
+      'arbitrator', v.arbitrator,
+      'client_bps', v.client_bps,
+      'cast_at', v.cast_at
+    ) ORDER BY v.vote_index)
+    FROM arbitration_case_votes v
+    WHERE v.contract_address = a.contract_address AND v.case_id = a.case_id
+  ), '[]'::JSONB) AS votes
+FROM arbitration_cases a
+JOIN indexer_cursors c ON c.contract_address = a.contract_address AND c.active
+LEFT JOIN indexer_cursors e ON e.contract_address = a.escrow_contract;
+
+-- ============================================================================
+-- 6. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE arbitration_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE arbitration_dirty_cases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE arbitration_cases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE arbitration_case_evidence ENABLE ROW LEVEL SECURITY;
+ALTER TABLE arbitration_case_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to arbitration_events"
+  ON arbitration_events FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role has full access to arbitration_dirty_cases"
+  ON arbitration_dirty_cases FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- Projections only hold public chain data
+CREATE POLICY "Public can view arbitration_cases"
+  ON arbitration_cases FOR SELECT
+  USING (true);
+
+CREATE POLICY "Service role has full access to arbitration_cases"
+  ON arbitration_cases FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Public can view arbitration_case_evidence"
+  ON arbitration_case_evidence FOR SELECT
+  USING (true);
+
+CREATE POLICY "Service role has full access to arbitration_case_evidence"
+  ON arbitration_case_evidence FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Public can view arbitration_case_votes"
+  ON arbitration_case_votes FOR SELECT
+  USING (true);
+
+CREATE POLICY "Service role has full access to arbitration_case_votes"
+  ON arbitration_case_votes FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE arbitration_events IS 'Decoded SimpleArbitrator events - case projections are rebuilt from these';
+COMMENT ON TABLE arbitration_dirty_cases IS 'Arbitration cases whose projection must be rebuilt after their events changed';
+COMMENT ON TABLE arbitration_cases IS 'Current state of every SimpleArbitrator case';
+COMMENT ON VIEW arbitration_docket IS 'Arbitration cases with evidence, votes and the linked bounty, gig or mission';
+COMMENT ON COLUMN arbitration_cases.voters IS 'hasVoted is never reset on appeal, so anyone listed here can no longer vote on the case';
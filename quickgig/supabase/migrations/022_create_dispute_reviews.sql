@@ -0,0 +1,95 @@
+-- Migration 022: AI Dispute Pre-Reviews
+-- Created: 2025-11-04
+-- Purpose: Optional automated review of a disputed deliverable against its requirements
+--          before anyone pays for a SimpleArbitrator vote or a bonded UMA assertion.
+--          Each review suggests a client/worker split in basis points (as in
+--          vote(caseId, clientBps)) and both parties accept it or escalate.
+
+-- ============================================================================
+-- 1. REVIEWS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dispute_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  subject_key TEXT NOT NULL UNIQUE, -- bounty:<id>, gig:<id>:<milestone> or mission:<uuid> - one review per dispute
+  subject JSONB NOT NULL,
+  contract_address TEXT, -- Escrow holding the funds
+  client_address TEXT NOT NULL,
+  worker_address TEXT, -- NULL for missions - only the client answers
+  requested_by TEXT NOT NULL,
+  evidence_uri TEXT NOT NULL, -- Evidence bundle the review was made from
+  evidence_root_hash TEXT NOT NULL,
+  model TEXT NOT NULL,
+  verdict TEXT NOT NULL CHECK (verdict IN ('client', 'worker', 'split')),
+  client_bps INTEGER NOT NULL CHECK (client_bps BETWEEN 0 AND 10000),
+  confidence NUMERIC(3,2) NOT NULL CHECK (confidence BETWEEN 0 AND 1),
+  summary TEXT NOT NULL,
+  reasoning TEXT NOT NULL,
+  findings JSONB NOT NULL DEFAULT '[]', -- Per requirement: met yes/partial/no with notes
+  review_uri TEXT, -- Verdict and reasoning pinned to IPFS, for the arbitrators
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'accepted', 'escalated')),
+  client_response TEXT CHECK (client_response IN ('accept', 'escalate')),
+  client_responded_at TIMESTAMP WITH TIME ZONE,
+  worker_response TEXT CHECK (worker_response IN ('accept', 'escalate')),
+  worker_responded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dispute_reviews_status ON dispute_reviews(status, created_at DESC);
+
+CREATE TRIGGER update_dispute_reviews_updated_at
+  BEFORE UPDATE ON dispute_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. RESPONSES
+-- ============================================================================
+
+-- Record a party's answer and settle the status in one statement: any escalation escalates,
+-- and the review is accepted once every party (just the client for missions) accepted.
+-- Returns the updated review, or no row if the address isn't a party or already answered.
+CREATE OR REPLACE FUNCTION respond_to_dispute_review(
+  p_review_id UUID,
+  p_address TEXT,
+  p_response TEXT
+)
+RETURNS SETOF dispute_reviews AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE dispute_reviews r
+  SET client_response = CASE WHEN r.client_address = p_address THEN p_response ELSE r.client_response END,
+      client_responded_at = CASE WHEN r.client_address = p_address THEN NOW() ELSE r.client_responded_at END,
+      worker_response = CASE WHEN r.worker_address = p_address THEN p_response ELSE r.worker_response END,
+      worker_responded_at = CASE WHEN r.worker_address = p_address THEN NOW() ELSE r.worker_responded_at END,
+      status = CASE
+        WHEN p_response = 'escalate' THEN 'escalated'
+        WHEN (r.client_address = p_address OR r.client_response = 'accept')
+         AND (r.worker_address IS NULL OR r.worker_address = p_address OR r.worker_response = 'accept')
+        THEN 'accepted'
+        ELSE r.status
+      END
+  WHERE r.id = p_review_id
+    AND r.status = 'open'
+    AND (
+      (r.client_address = p_address AND r.client_response IS NULL)
+      OR (r.worker_address = p_address AND r.worker_response IS NULL)
+    )
+  RETURNING r.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE dispute_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to dispute_reviews"
+  ON dispute_reviews FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE dispute_reviews IS 'Automated pre-reviews of disputed deliverables with a suggested client/worker split';
+COMMENT ON COLUMN dispute_reviews.client_bps IS 'Share of the escrow suggested for the client, 0-10000 like SimpleArbitrator.vote';
+COMMENT ON FUNCTION respond_to_dispute_review IS 'Atomically record a party accepting or escalating a dispute review';
@@ -0,0 +1,62 @@
+-- Migration 023: UMA Assertion Tracking
+-- Created: 2025-11-05
+-- Purpose: Lifecycle of every UMA assertion opened by BountyEscrow, GigEscrow and MissionEscrow,
+--          so the UMA keeper can settle each one on the optimistic oracle once its liveness
+--          expires (or its DVM vote is in), call resolveUMADispute on the escrow and notify
+--          both parties. Assertions are picked up from indexed UMADisputeCreated /
+--          DisputeCreated events.
+
+-- ============================================================================
+-- 1. ASSERTIONS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS uma_assertions (
+  assertion_id TEXT PRIMARY KEY, -- bytes32 hex, lowercased
+  chain_id INTEGER NOT NULL,
+  contract TEXT NOT NULL CHECK (contract IN ('bounty_escrow', 'gig_escrow', 'mission_escrow')),
+  contract_address TEXT NOT NULL, -- Escrow that asserted, lowercased
+  entity_id BIGINT NOT NULL, -- bountyId, gigId or missionId
+  milestone_index INTEGER, -- Gigs only
+  mission_id TEXT REFERENCES missions(id) ON DELETE SET NULL, -- missions row of a MissionEscrow mission, if any
+  oracle_address TEXT NOT NULL, -- optimisticOracle() of the escrow when the dispute was opened
+  client_address TEXT NOT NULL,
+  worker_address TEXT, -- NULL for missions - agents are looked up from mission_agents
+  created_tx_hash TEXT NOT NULL,
+  asserted_at TIMESTAMP WITH TIME ZONE NOT NULL, -- Block time of the dispute event
+  expiration_time TIMESTAMP WITH TIME ZONE, -- End of liveness, from getAssertion
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'disputed', 'settled', 'resolved')),
+  disputer_address TEXT, -- Set when the assertion was challenged on the oracle
+  settled_true BOOLEAN, -- Settlement result: true = the client's claim was upheld
+  settle_tx_hash TEXT, -- NULL if someone else settled it
+  settled_at TIMESTAMP WITH TIME ZONE,
+  resolve_tx_hash TEXT, -- NULL if someone else called resolveUMADispute
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  attempts INTEGER NOT NULL DEFAULT 0, -- Failed settle/resolve attempts in a row
+  last_error TEXT,
+  next_attempt_at TIMESTAMP WITH TIME ZONE, -- Backoff after a failure
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_uma_assertions_pending ON uma_assertions(next_attempt_at) WHERE status <> 'resolved';
+CREATE INDEX IF NOT EXISTS idx_uma_assertions_entity ON uma_assertions(contract_address, entity_id);
+CREATE INDEX IF NOT EXISTS idx_uma_assertions_mission ON uma_assertions(mission_id) WHERE mission_id IS NOT NULL;
+
+CREATE TRIGGER update_uma_assertions_updated_at
+  BEFORE UPDATE ON uma_assertions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE uma_assertions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to uma_assertions"
+  ON uma_assertions FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE uma_assertions IS 'UMA assertions opened by the escrows, settled and resolved by the UMA keeper';
+COMMENT ON COLUMN uma_assertions.status IS 'open (in liveness), disputed (waiting for the DVM), settled (on the oracle, escrow not paid out yet), resolved';
+COMMENT ON COLUMN uma_assertions.settled_true IS 'true = claim upheld, the client wins; false = the worker or agents win';